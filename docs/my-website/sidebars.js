@@ -31,6 +31,7 @@ const sidebars = {
       label: "[Beta] Guardrails",
       items: [
         "proxy/guardrails/quick_start",
+        "proxy/guardrails/guardrail_policies",
         ...[
           "proxy/guardrails/aim_security",
           "proxy/guardrails/aporia_api",
@@ -45,6 +46,7 @@ const sidebars = {
           "proxy/guardrails/panw_prisma_airs",
           "proxy/guardrails/secret_detection",
           "proxy/guardrails/custom_guardrail",
+          "proxy/guardrails/custom_rules",
           "proxy/guardrails/prompt_injection",
         ].sort(),
       ],
@@ -0,0 +1,46 @@
+import {Bindings, LiteLLM_ProxyConfig, LiteLLM_Deployment} from './_types'
+
+let cachedSource: Bindings['PROXY_CONFIG'] | undefined
+let cachedConfig: LiteLLM_ProxyConfig | undefined
+
+// Parses PROXY_CONFIG once per isolate; re-parses only if the binding changes
+export const loadConfig = (env: Bindings): LiteLLM_ProxyConfig => {
+  if (cachedConfig && cachedSource === env.PROXY_CONFIG) {
+    return cachedConfig
+  }
+  if (!env.PROXY_CONFIG) {
+    throw new Error('PROXY_CONFIG is not set. Add a model_list to the [vars] in wrangler.toml.')
+  }
+
+  const config: LiteLLM_ProxyConfig = typeof env.PROXY_CONFIG === 'string'
+    ? JSON.parse(env.PROXY_CONFIG)
+    : env.PROXY_CONFIG
+  if (!Array.isArray(config.model_list)) {
+    throw new Error('PROXY_CONFIG must contain a model_list.')
+  }
+
+  cachedSource = env.PROXY_CONFIG
+  cachedConfig = config
+  return config
+}
+
+export const getModelGroup = (config: LiteLLM_ProxyConfig, modelName: string): LiteLLM_Deployment[] =>
+  config.model_list.filter(deployment => deployment.model_name === modelName)
+
+// Ordered fallback model groups for `modelName`. router_settings wins over litellm_settings, like in the Python proxy.
+export const getFallbacks = (config: LiteLLM_ProxyConfig, modelName: string): string[] => {
+  const fallbacks = config.router_settings?.fallbacks ?? config.litellm_settings?.fallbacks ?? []
+  for (const entry of fallbacks) {
+    if (entry[modelName]) return entry[modelName]
+  }
+  return []
+}
+
+// Resolves "os.environ/<NAME>" values against the worker's secrets and vars
+export const resolveSecret = (env: Bindings, value: string | undefined): string | undefined => {
+  if (value?.startsWith('os.environ/')) {
+    const resolved = env[value.slice('os.environ/'.length)]
+    return typeof resolved === 'string' ? resolved : undefined
+  }
+  return value
+}
@@ -0,0 +1,26 @@
+export class RouterError extends Error {
+  status: number
+  type: string
+
+  constructor(status: number, message: string, type = 'invalid_request_error') {
+    super(message)
+    this.status = status
+    this.type = type
+  }
+}
+
+export type OpenAIErrorBody = {
+  error?: {
+    message?: string,
+    type?: string,
+    param?: string | null,
+    code?: string | null
+  }
+}
+
+// Same error shape as the OpenAI API (and the Python proxy), so SDK clients surface the message
+export const errorResponse = (status: number, message: string, type: string) =>
+  new Response(JSON.stringify({ error: { message, type, param: null, code: String(status) } }), {
+    status,
+    headers: { 'content-type': 'application/json' },
+  });
@@ -0,0 +1,88 @@
+import {Bindings, LiteLLM_VirtualKey} from './_types'
+
+// Where virtual keys are looked up. Keys are always addressed by their hashed token.
+export interface KeyStore {
+  get(token: string): Promise<LiteLLM_VirtualKey | null>
+  addSpend(token: string, spend: number): Promise<void>
+}
+
+// Keys in a Workers KV namespace, one JSON value per hashed token.
+// KV is eventually consistent, so budgets enforced from it can overshoot by a few requests.
+export class KVKeyStore implements KeyStore {
+  private kv: KVNamespace
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv
+  }
+
+  async get(token: string) {
+    return this.kv.get<LiteLLM_VirtualKey>(token, 'json')
+  }
+
+  async addSpend(token: string, spend: number) {
+    const key = await this.get(token)
+    if (!key) return
+    await this.kv.put(token, JSON.stringify({ ...key, spend: (key.spend ?? 0) + spend }))
+  }
+}
+
+// Keys held in the isolate's memory, e.g. loaded from the VIRTUAL_KEYS var. Spend resets when the isolate is recycled.
+export class InMemoryKeyStore implements KeyStore {
+  private keys = new Map<string, LiteLLM_VirtualKey>()
+
+  constructor(keys: LiteLLM_VirtualKey[]) {
+    keys.forEach(key => this.keys.set(key.token, { ...key, spend: key.spend ?? 0 }))
+  }
+
+  async get(token: string) {
+    return this.keys.get(token) ?? null
+  }
+
+  async addSpend(token: string, spend: number) {
+    const key = this.keys.get(token)
+    if (key) key.spend += spend
+  }
+}
+
+let inMemoryStore: { source: Bindings['VIRTUAL_KEYS'], store: InMemoryKeyStore } | undefined
+
+// A KV namespace wins over static VIRTUAL_KEYS. Returns null if neither is configured.
+export const getKeyStore = (env: Bindings): KeyStore | null => {
+  if (env.LITELLM_KEYS) {
+    return new KVKeyStore(env.LITELLM_KEYS)
+  }
+  if (!env.VIRTUAL_KEYS) {
+    return null
+  }
+  // Reuse the store across requests so spend and rate limits accumulate
+  if (inMemoryStore?.source !== env.VIRTUAL_KEYS) {
+    const keys: LiteLLM_VirtualKey[] = typeof env.VIRTUAL_KEYS === 'string'
+      ? JSON.parse(env.VIRTUAL_KEYS)
+      : env.VIRTUAL_KEYS
+    inMemoryStore = { source: env.VIRTUAL_KEYS, store: new InMemoryKeyStore(keys) }
+  }
+  return inMemoryStore.store
+}
+
+// An empty `models` list or 'all-proxy-models' allows every model, as in the Python proxy. The master key (null) can use any model.
+export const canAccessModel = (key: LiteLLM_VirtualKey | null, model: string) => {
+  const models = key?.models ?? []
+  return models.length === 0 || models.includes(model) || models.includes('all-proxy-models')
+}
+
+// sha256 hex digest, same as hash_token in the Python proxy
+export const hashToken = async (token: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(token))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Compares two strings without returning early on the first difference, so the time taken doesn't leak how much of a secret matched.
+// Compare hashes (equal length) rather than the raw values, or the length check leaks the secret's length.
+export const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false
+  let diff = 0
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i)
+  }
+  return diff === 0
+}
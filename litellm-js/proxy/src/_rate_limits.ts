@@ -0,0 +1,41 @@
+import {LiteLLM_VirtualKey} from './_types'
+
+type UsageWindow = {
+  minute: number, // epoch minute the counters belong to
+  requests: number,
+  tokens: number
+}
+
+// Hashed token -> usage in the current minute. Counted per worker isolate, so limits are
+// approximate at the edge; the Python proxy stays the source of truth for exact limits.
+const windows = new Map<string, UsageWindow>();
+
+const currentWindow = (token: string): UsageWindow => {
+  const minute = Math.floor(Date.now() / 60000);
+  let window = windows.get(token);
+  if (!window || window.minute !== minute) {
+    window = { minute, requests: 0, tokens: 0 };
+    windows.set(token, window);
+  }
+  return window;
+};
+
+// Returns an error message if the key is over its rpm/tpm limit, otherwise counts the request
+export const checkRateLimits = (key: LiteLLM_VirtualKey): string | null => {
+  const window = currentWindow(key.token);
+
+  if (key.rpm_limit != null && window.requests >= key.rpm_limit) {
+    return `Max parallel request limit reached. Hit limit for api_key: ${key.key_alias ?? key.token}. rpm_limit: ${key.rpm_limit}, current rpm: ${window.requests}`;
+  }
+  if (key.tpm_limit != null && window.tokens >= key.tpm_limit) {
+    return `Max parallel request limit reached. Hit limit for api_key: ${key.key_alias ?? key.token}. tpm_limit: ${key.tpm_limit}, current tpm: ${window.tokens}`;
+  }
+
+  window.requests += 1;
+  return null;
+};
+
+// Tokens are only known once the response is done, so they count towards the tpm limit of later requests
+export const recordTokens = (token: string, tokens: number) => {
+  currentWindow(token).tokens += tokens;
+};
@@ -0,0 +1,165 @@
+import { afterEach, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { routeChatCompletion, shuffleDeployments } from './_router'
+import { RouterError } from './_errors'
+import { jsonResponse, mockUpstream, sseResponse } from './_testing'
+import { Bindings, LiteLLM_Deployment, LiteLLM_RouterSettings } from './_types'
+
+// Cooldowns live as long as the module, so every test uses its own deployment ids
+const deployment = (model_name: string, id: string, weight?: number): LiteLLM_Deployment => ({
+  model_name,
+  litellm_params: { model: `openai/${id}`, api_base: `https://${id}.test/v1`, weight },
+  model_info: { id },
+});
+
+const routerEnv = (model_list: LiteLLM_Deployment[], router_settings?: LiteLLM_RouterSettings): Bindings => ({
+  PROXY_CONFIG: { model_list, router_settings },
+});
+
+const hostOf = (url: string) => new URL(url).hostname;
+
+let upstream: ReturnType<typeof mockUpstream> | undefined;
+afterEach(() => {
+  upstream?.restore();
+  mock.restoreAll();
+});
+
+describe('routeChatCompletion', () => {
+  for (const status of [408, 429, 500, 503]) {
+    it(`moves to the next deployment on ${status}`, async () => {
+      const env = routerEnv([deployment('gpt', `retry-${status}-a`), deployment('gpt', `retry-${status}-b`)]);
+      upstream = mockUpstream(({ url }) => upstream!.calls.length === 1
+        ? jsonResponse({ error: { message: 'try again' } }, status)
+        : jsonResponse({ id: hostOf(url), choices: [] }));
+
+      const { response, deployment: answered } = await routeChatCompletion(env, { model: 'gpt', messages: [] });
+
+      assert.equal(upstream.calls.length, 2);
+      assert.equal(response.status, 200);
+      assert.equal(answered?.model_info?.id, hostOf(upstream.calls[1].url).replace('.test', ''));
+    });
+  }
+
+  it('returns other errors without retrying', async () => {
+    const env = routerEnv([deployment('gpt', 'no-retry-a'), deployment('gpt', 'no-retry-b')]);
+    upstream = mockUpstream(() => jsonResponse({ error: { message: 'bad request' } }, 400));
+
+    const { response } = await routeChatCompletion(env, { model: 'gpt', messages: [] });
+
+    assert.equal(upstream.calls.length, 1);
+    assert.equal(response.status, 400);
+  });
+
+  it('falls back to the configured model groups', async () => {
+    const env = routerEnv(
+      [deployment('gpt', 'fallback-primary'), deployment('gpt-mini', 'fallback-secondary')],
+      { fallbacks: [{ gpt: ['gpt-mini'] }] }
+    );
+    upstream = mockUpstream(({ url }) => hostOf(url) === 'fallback-primary.test'
+      ? jsonResponse({}, 429)
+      : jsonResponse({ choices: [] }));
+
+    const { response, deployment: answered } = await routeChatCompletion(env, { model: 'gpt', messages: [] });
+
+    assert.equal(response.status, 200);
+    assert.equal(answered?.model_name, 'gpt-mini');
+    assert.equal(response.headers.get('x-litellm-attempted-fallbacks'), '1');
+  });
+
+  it('skips fallback model groups the caller may not use', async () => {
+    const env = routerEnv(
+      [deployment('gpt', 'allowlist-primary'), deployment('gpt-mini', 'allowlist-secondary')],
+      { fallbacks: [{ gpt: ['gpt-mini'] }] }
+    );
+    upstream = mockUpstream(() => jsonResponse({ error: { message: 'overloaded' } }, 503));
+
+    const { response, deployment: answered } = await routeChatCompletion(
+      env,
+      { model: 'gpt', messages: [] },
+      modelGroup => modelGroup !== 'gpt-mini'
+    );
+
+    assert.equal(upstream.calls.length, 1);
+    assert.equal(response.status, 503);
+    assert.equal(answered, undefined);
+  });
+
+  it('cools down failed deployments', async () => {
+    const env = routerEnv([deployment('gpt', 'cooldown-a')], { cooldown_time: 60 });
+    upstream = mockUpstream(() => jsonResponse({}, 500));
+
+    await routeChatCompletion(env, { model: 'gpt', messages: [] });
+    await assert.rejects(
+      routeChatCompletion(env, { model: 'gpt', messages: [] }),
+      (error: RouterError) => error.status === 429 && /cooling down/.test(error.message)
+    );
+    assert.equal(upstream.calls.length, 1);
+  });
+
+  it('times out deployments that take too long to respond', async () => {
+    const env = routerEnv([{ ...deployment('gpt', 'timeout-headers'), litellm_params: { model: 'openai/gpt-4o', timeout: 0.05 } }]);
+    upstream = mockUpstream(({ signal }) => new Promise((_, reject) => {
+      signal.addEventListener('abort', () => reject(signal.reason));
+    }));
+
+    const { response } = await routeChatCompletion(env, { model: 'gpt', messages: [] });
+    const body: any = await response.json();
+
+    assert.equal(response.status, 502);
+    assert.match(body.error.message, /timed out/);
+  });
+
+  it("doesn't time out streams that are still being read", async () => {
+    const env = routerEnv([{ ...deployment('gpt', 'timeout-stream'), litellm_params: { model: 'openai/gpt-4o', timeout: 0.05 } }]);
+    upstream = mockUpstream(() => new Response(new ReadableStream({
+      async start(controller) {
+        controller.enqueue(new TextEncoder().encode('data: {"choices":[]}\n\n'));
+        await new Promise(resolve => setTimeout(resolve, 100));
+        controller.enqueue(new TextEncoder().encode('data: [DONE]\n\n'));
+        controller.close();
+      },
+    }), { headers: { 'content-type': 'text/event-stream' } }));
+
+    const { response } = await routeChatCompletion(env, { model: 'gpt', messages: [], stream: true });
+
+    assert.equal(await response.text(), 'data: {"choices":[]}\n\ndata: [DONE]\n\n');
+    assert.equal(upstream.calls[0].signal.aborted, false);
+  });
+
+  it('rejects unknown models', async () => {
+    upstream = mockUpstream(() => jsonResponse({}));
+
+    await assert.rejects(routeChatCompletion(routerEnv([]), { model: 'gpt', messages: [] }), RouterError);
+    assert.equal(upstream.calls.length, 0);
+  });
+
+  it('passes streams through', async () => {
+    const env = routerEnv([deployment('gpt', 'stream-a')]);
+    upstream = mockUpstream(() => sseResponse([{ choices: [{ delta: { content: 'Hi' } }] }, '[DONE]']));
+
+    const { response } = await routeChatCompletion(env, { model: 'gpt', messages: [], stream: true });
+
+    assert.equal(response.headers.get('content-type'), 'text/event-stream');
+    assert.equal(response.headers.get('cache-control'), 'no-cache');
+    assert.equal(await response.text(), 'data: {"choices":[{"delta":{"content":"Hi"}}]}\n\ndata: [DONE]\n\n');
+  });
+});
+
+describe('shuffleDeployments', () => {
+  it('puts deployments first in proportion to their weight', () => {
+    const heavy = deployment('gpt', 'shuffle-heavy', 3);
+    const light = deployment('gpt', 'shuffle-light', 1);
+
+    mock.method(Math, 'random', () => 0.7); // 0.7 * 4 = 2.8, within the heavy deployment's share
+    assert.deepEqual(shuffleDeployments([heavy, light]), [heavy, light]);
+
+    mock.method(Math, 'random', () => 0.8); // 3.2, within the light deployment's share
+    assert.deepEqual(shuffleDeployments([heavy, light]), [light, heavy]);
+  });
+
+  it('keeps every deployment', () => {
+    const deployments = ['a', 'b', 'c'].map(id => deployment('gpt', `shuffle-${id}`));
+
+    assert.deepEqual(new Set(shuffleDeployments(deployments)), new Set(deployments));
+  });
+});
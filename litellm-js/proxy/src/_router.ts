@@ -0,0 +1,152 @@
+import {Bindings, LiteLLM_Deployment} from './_types'
+import {loadConfig, getModelGroup, getFallbacks} from './_config'
+import {RouterError, errorResponse} from './_errors'
+import {PROVIDERS, ProviderAdapter} from './providers'
+import {fetchWithTimeout} from './providers/common'
+
+const DEFAULT_COOLDOWN_TIME = 5; // Seconds a deployment is skipped after a 429/5xx, same default as the Python router
+
+// Deployment id -> epoch ms until which it is cooling down. Lives as long as the worker isolate.
+const cooldowns = new Map<string, number>();
+
+const isRetryable = (status: number) => status === 408 || status === 429 || status >= 500;
+
+export const getDeploymentId = (deployment: LiteLLM_Deployment) =>
+  deployment.model_info?.id ??
+  `${deployment.model_name}:${deployment.litellm_params.model}:${deployment.litellm_params.api_base ?? ''}`;
+
+// "openai/gpt-4o" -> ["openai", "gpt-4o"]. Models without a prefix are treated as OpenAI.
+export const splitProviderModel = (model: string): [string, string] => {
+  const index = model.indexOf('/');
+  return index === -1 ? ['openai', model] : [model.slice(0, index), model.slice(index + 1)];
+};
+
+const isCoolingDown = (deployment: LiteLLM_Deployment, now: number) =>
+  (cooldowns.get(getDeploymentId(deployment)) ?? 0) > now;
+
+const startCooldown = (deployment: LiteLLM_Deployment, cooldownTime: number) => {
+  cooldowns.set(getDeploymentId(deployment), Date.now() + cooldownTime * 1000);
+};
+
+// Simple-shuffle: a random order where each deployment's chance of going first is proportional to its weight / rpm / tpm
+export const shuffleDeployments = (deployments: LiteLLM_Deployment[]): LiteLLM_Deployment[] => {
+  const remaining = deployments.map(deployment => ({
+    deployment,
+    weight: deployment.litellm_params.weight ?? deployment.litellm_params.rpm ?? deployment.litellm_params.tpm ?? 1,
+  }));
+  const ordered: LiteLLM_Deployment[] = [];
+
+  while (remaining.length > 0) {
+    const total = remaining.reduce((sum, entry) => sum + entry.weight, 0);
+    let pick = Math.random() * total;
+    let index = remaining.findIndex(entry => (pick -= entry.weight) < 0);
+    if (index === -1) index = remaining.length - 1;
+    ordered.push(remaining[index].deployment);
+    remaining.splice(index, 1);
+  }
+  return ordered;
+};
+
+const getAdapter = (deployment: LiteLLM_Deployment): [ProviderAdapter, string] => {
+  const [provider, model] = splitProviderModel(deployment.litellm_params.model);
+  const adapter = PROVIDERS[provider];
+  if (!adapter) {
+    throw new RouterError(400, `Unsupported provider '${provider}' for model_name=${deployment.model_name}. Supported providers: ${Object.keys(PROVIDERS).join(', ')}`);
+  }
+  return [adapter, model];
+};
+
+// Converts the upstream response to the OpenAI format and passes the body through as a stream,
+// so SSE reaches the client chunk by chunk
+const toClientResponse = async (
+  upstream: Response,
+  deployment: LiteLLM_Deployment,
+  attemptedFallbacks: number,
+  body: Record<string, any>
+) => {
+  const [adapter, model] = getAdapter(deployment);
+  let response = upstream;
+  if (adapter.transformResponse) {
+    // Other providers' error bodies don't follow the OpenAI shape, so wrap them
+    response = upstream.ok
+      ? await adapter.transformResponse(upstream, model, body)
+      : errorResponse(upstream.status, await upstream.text(), 'api_error');
+  }
+
+  const headers = new Headers({
+    'content-type': response.headers.get('content-type') ?? 'application/json',
+    'x-litellm-model-id': getDeploymentId(deployment),
+    'x-litellm-attempted-fallbacks': String(attemptedFallbacks),
+  });
+  if (headers.get('content-type')?.startsWith('text/event-stream')) {
+    headers.set('cache-control', 'no-cache');
+  }
+  return new Response(response.body, { status: response.status, headers });
+};
+
+export type RoutedResponse = {
+  response: Response,
+  deployment?: LiteLLM_Deployment // the deployment that answered; unset if every deployment failed
+}
+
+// Sends an OpenAI chat completion request to a deployment of `body.model`, moving to the next deployment
+// and then to the configured fallback model groups whenever a deployment fails with 429/5xx.
+// Fallback groups that `canUseModelGroup` rejects (e.g. not in the key's models) are skipped.
+export const routeChatCompletion = async (
+  env: Bindings,
+  body: Record<string, any>,
+  canUseModelGroup: (modelGroup: string) => boolean = () => true
+): Promise<RoutedResponse> => {
+  const config = loadConfig(env);
+  const modelName = body.model;
+
+  if (typeof modelName !== 'string' || getModelGroup(config, modelName).length === 0) {
+    throw new RouterError(400, `Invalid model name passed in model=${modelName}`);
+  }
+
+  const cooldownTime = config.router_settings?.cooldown_time ?? DEFAULT_COOLDOWN_TIME;
+  const modelGroups = [modelName, ...getFallbacks(config, modelName).filter(canUseModelGroup)];
+  let lastFailure: { status: number, body: string, contentType: string } | undefined;
+
+  for (let fallbackIndex = 0; fallbackIndex < modelGroups.length; fallbackIndex++) {
+    const now = Date.now();
+    const deployments = shuffleDeployments(
+      getModelGroup(config, modelGroups[fallbackIndex]).filter(deployment => !isCoolingDown(deployment, now))
+    );
+
+    for (const deployment of deployments) {
+      let upstream: Response;
+      try {
+        const [adapter, model] = getAdapter(deployment);
+        upstream = await fetchWithTimeout(adapter.buildRequest(env, deployment, model, body), deployment.litellm_params.timeout);
+      } catch (error) {
+        if (error instanceof RouterError) throw error;
+        console.error(`Request to ${getDeploymentId(deployment)} failed:`, error);
+        startCooldown(deployment, cooldownTime);
+        lastFailure = { status: 502, body: String(error), contentType: 'text/plain' };
+        continue;
+      }
+
+      if (!isRetryable(upstream.status)) {
+        return { response: await toClientResponse(upstream, deployment, fallbackIndex, body), deployment };
+      }
+
+      startCooldown(deployment, cooldownTime);
+      lastFailure = {
+        status: upstream.status,
+        body: await upstream.text(),
+        contentType: upstream.headers.get('content-type') ?? 'application/json',
+      };
+    }
+  }
+
+  if (!lastFailure) {
+    throw new RouterError(429, `No deployments available for selected model=${modelName}. All deployments are cooling down.`, 'rate_limit_error');
+  }
+  if (lastFailure.contentType.startsWith('application/json')) {
+    return {
+      response: new Response(lastFailure.body, { status: lastFailure.status, headers: { 'content-type': lastFailure.contentType } }),
+    };
+  }
+  return { response: errorResponse(lastFailure.status, lastFailure.body, 'api_error') };
+};
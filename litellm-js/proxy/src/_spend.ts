@@ -0,0 +1,110 @@
+import {Bindings, LiteLLM_Deployment, LiteLLM_SpendLogs} from './_types'
+import {transformSSE} from './providers/sse'
+
+export type Usage = {
+  prompt_tokens: number,
+  completion_tokens: number,
+  total_tokens: number
+}
+
+export type ResponseSummary = {
+  id?: string,
+  usage: Usage
+}
+
+const EMPTY_USAGE: Usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+const toUsage = (usage: any): Usage => ({
+  prompt_tokens: usage?.prompt_tokens ?? 0,
+  completion_tokens: usage?.completion_tokens ?? 0,
+  total_tokens: usage?.total_tokens ?? ((usage?.prompt_tokens ?? 0) + (usage?.completion_tokens ?? 0)),
+});
+
+// Reads `id` and `usage` from a chat completion, or from the chunks of an SSE stream.
+// Streams carry usage because the proxy always requests them with stream_options.include_usage.
+const summarize = (text: string, isStream: boolean): ResponseSummary => {
+  if (!isStream) {
+    try {
+      const body = JSON.parse(text);
+      return { id: body.id, usage: toUsage(body.usage) };
+    } catch {
+      return { usage: EMPTY_USAGE };
+    }
+  }
+
+  const summary: ResponseSummary = { usage: EMPTY_USAGE };
+  for (const line of text.split('\n')) {
+    if (!line.startsWith('data:')) continue;
+    const data = line.slice('data:'.length).trim();
+    if (!data || data === '[DONE]') continue;
+    try {
+      const chunk = JSON.parse(data);
+      summary.id = summary.id ?? chunk.id;
+      if (chunk.usage) summary.usage = toUsage(chunk.usage);
+    } catch {
+      // Ignore partial or non-JSON chunks
+    }
+  }
+  return summary;
+};
+
+// Removes what stream_options.include_usage adds to a stream - the final usage chunk and `usage: null` on
+// every other chunk - for clients that didn't ask for it
+const stripStreamUsage = (body: ReadableStream<Uint8Array>) => transformSSE(body, (event, emit) => {
+  let chunk: any;
+  try {
+    chunk = JSON.parse(event.data);
+  } catch {
+    return emit(event.data, event.event); // "[DONE]"
+  }
+  if (!chunk || typeof chunk !== 'object' || !('usage' in chunk)) {
+    return emit(event.data, event.event);
+  }
+  if (Array.isArray(chunk.choices) && chunk.choices.length === 0) {
+    return;
+  }
+  const { usage, ...rest } = chunk;
+  emit(rest, event.event);
+});
+
+// Splits the response body so the client still gets it (and streamed), while a copy is read in the
+// background to find the token usage once the response is complete.
+// `forwardUsage: false` hides the stream's usage chunk from the client.
+export const tapUsage = (response: Response, forwardUsage = true): { response: Response, summary: Promise<ResponseSummary> } => {
+  if (!response.body) {
+    return { response, summary: Promise.resolve({ usage: EMPTY_USAGE }) };
+  }
+
+  const [clientBody, tapBody] = response.body.tee();
+  const isStream = response.headers.get('content-type')?.startsWith('text/event-stream') ?? false;
+  const summary = new Response(tapBody).text().then(text => summarize(text, isStream));
+
+  return {
+    response: new Response(
+      isStream && !forwardUsage ? stripStreamUsage(clientBody) : clientBody,
+      { status: response.status, headers: response.headers }
+    ),
+    summary,
+  };
+};
+
+export const calculateSpend = (deployment: LiteLLM_Deployment, usage: Usage) =>
+  usage.prompt_tokens * (deployment.litellm_params.input_cost_per_token ?? 0) +
+  usage.completion_tokens * (deployment.litellm_params.output_cost_per_token ?? 0);
+
+// Sends the log to the spend-logs service. Failures are logged, never surfaced to the client.
+export const sendSpendLog = async (env: Bindings, log: LiteLLM_SpendLogs) => {
+  if (!env.SPEND_LOGS_URL) return;
+  try {
+    const response = await fetch(`${env.SPEND_LOGS_URL.replace(/\/+$/, '')}/spend/update`, {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify([log]),
+    });
+    if (!response.ok) {
+      console.error(`spend-logs service returned ${response.status} for request ${log.request_id}`);
+    }
+  } catch (error) {
+    console.error(`Failed to send spend log for request ${log.request_id}:`, error);
+  }
+};
@@ -0,0 +1,59 @@
+import type {ExecutionContext} from 'hono'
+import {Bindings, LiteLLM_Deployment} from './_types'
+
+// Helpers for the *.test.ts files - upstream providers are replaced by a mocked global fetch
+
+export type UpstreamCall = {
+  url: string,
+  headers: Headers,
+  body: any,
+  signal: AbortSignal
+}
+
+// Answers every upstream request with `handler` until `restore` is called. `calls` records what was sent.
+export const mockUpstream = (handler: (call: UpstreamCall) => Response | Promise<Response>) => {
+  const calls: UpstreamCall[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    const call = { url: request.url, headers: request.headers, body: await request.json(), signal: request.signal };
+    calls.push(call);
+    return handler(call);
+  };
+  return { calls, restore: () => { globalThis.fetch = originalFetch } };
+};
+
+export const testEnv = (model_list: LiteLLM_Deployment[], secrets: Record<string, string> = {}): Bindings => ({
+  ...secrets,
+  PROXY_CONFIG: { model_list },
+});
+
+// Collects what handlers pass to `waitUntil`, so tests can await the work done after the response
+export const testExecutionCtx = () => {
+  const pending: Promise<unknown>[] = [];
+  const ctx: ExecutionContext = {
+    waitUntil: (promise: Promise<unknown>) => { pending.push(promise) },
+    passThroughOnException: () => {},
+    props: {},
+  };
+  return { ctx, settled: () => Promise.all(pending) };
+};
+
+export const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { 'content-type': 'application/json' } });
+
+export const sseResponse = (events: unknown[]) =>
+  new Response(
+    events.map(event => `data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`).join(''),
+    { headers: { 'content-type': 'text/event-stream' } }
+  );
+
+// The data of each event in an SSE body, JSON decoded except for "[DONE]"
+export const readSSE = async (response: Response): Promise<any[]> =>
+  (await response.text())
+    .split('\n\n')
+    .filter(Boolean)
+    .map(event => {
+      const data = event.split('\n').find(line => line.startsWith('data: '))?.slice('data: '.length) ?? '';
+      return data === '[DONE]' ? data : JSON.parse(data);
+    });
@@ -0,0 +1,83 @@
+// Mirrors the `model_list` / `router_settings` sections of the Python proxy's config.yaml
+
+export type LiteLLM_Params = {
+    model: string, // "<provider>/<model>", e.g. "openai/gpt-4o"
+    api_base?: string,
+    api_key?: string, // a literal key, or "os.environ/<BINDING>" to read a worker secret
+    api_version?: string,
+    timeout?: number, // seconds
+    rpm?: number,
+    tpm?: number,
+    weight?: number, // relative share of traffic in simple-shuffle routing
+    input_cost_per_token?: number, // used to price the spend log of each request
+    output_cost_per_token?: number
+}
+
+export type LiteLLM_Deployment = {
+    model_name: string, // the public model group name clients send as `model`
+    litellm_params: LiteLLM_Params,
+    model_info?: {
+        id?: string,
+        [key: string]: any
+    }
+}
+
+export type LiteLLM_RouterSettings = {
+    fallbacks?: Array<Record<string, string[]>>, // [{"gpt-4o": ["gpt-4o-mini"]}]
+    cooldown_time?: number // seconds a deployment is skipped after a 429/5xx
+}
+
+export type LiteLLM_ProxyConfig = {
+    model_list: LiteLLM_Deployment[],
+    router_settings?: LiteLLM_RouterSettings,
+    litellm_settings?: {
+        fallbacks?: Array<Record<string, string[]>>
+    }
+}
+
+// A virtual key, as stored by the Python proxy in LiteLLM_VerificationToken
+export type LiteLLM_VirtualKey = {
+    token: string, // sha256 hex of the "sk-..." key
+    key_alias?: string | null,
+    spend: number,
+    max_budget?: number | null,
+    expires?: string | null,
+    models?: string[], // empty means all models
+    tpm_limit?: number | null,
+    rpm_limit?: number | null,
+    user_id?: string | null,
+    team_id?: string | null,
+    blocked?: boolean | null,
+    metadata?: Record<string, unknown>
+}
+
+// Same shape the spend-logs service accepts on /spend/update
+export type LiteLLM_SpendLogs = {
+    request_id: string,
+    call_type: string,
+    api_key: string,
+    spend: number,
+    total_tokens: number,
+    prompt_tokens: number,
+    completion_tokens: number,
+    startTime: string,
+    endTime: string,
+    model: string,
+    api_base: string,
+    user: string,
+    metadata: Record<string, unknown>,
+    cache_hit: string,
+    cache_key: string,
+    request_tags: string[],
+    team_id?: string | null,
+    end_user?: string | null
+}
+
+export type Bindings = {
+    LITELLM_MASTER_KEY?: string,
+    PROXY_CONFIG: string | LiteLLM_ProxyConfig, // JSON string or a [vars] table
+    LITELLM_KEYS?: KVNamespace, // virtual keys, stored under their hashed token
+    VIRTUAL_KEYS?: string | LiteLLM_VirtualKey[], // static virtual keys, used when no KV namespace is bound
+    SPEND_LOGS_URL?: string, // base url of the spend-logs service
+    [secret: string]: unknown
+}
@@ -0,0 +1,204 @@
+import { afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import app from './index'
+import { hashToken, timingSafeEqual } from './_keys'
+import { jsonResponse, mockUpstream, testEnv, testExecutionCtx } from './_testing'
+import { LiteLLM_VirtualKey } from './_types'
+
+const MASTER_KEY = 'sk-master';
+
+let upstream: ReturnType<typeof mockUpstream> | undefined;
+afterEach(() => upstream?.restore());
+
+// Sends a request and waits for the spend accounting that runs after the response
+const post = async (path: string, body: unknown, env: ReturnType<typeof testEnv>, apiKey = MASTER_KEY) => {
+  const { ctx, settled } = testExecutionCtx();
+  const response = await app.request(path, {
+    method: 'POST',
+    headers: { authorization: `Bearer ${apiKey}`, 'content-type': 'application/json' },
+    body: JSON.stringify(body),
+  }, env, ctx);
+  await response.clone().arrayBuffer();
+  await settled();
+  return response;
+};
+
+describe('azure deployment route', () => {
+  it('takes the model from the path', async () => {
+    const env = testEnv([{
+      model_name: 'my-gpt-4o',
+      litellm_params: { model: 'openai/gpt-4o', api_base: 'https://openai.test/v1' },
+      model_info: { id: 'route-test' },
+    }], { LITELLM_MASTER_KEY: MASTER_KEY });
+    upstream = mockUpstream(() => jsonResponse({ id: 'chatcmpl-1', choices: [] }));
+
+    const response = await post('/openai/deployments/my-gpt-4o/chat/completions', { messages: [{ role: 'user', content: 'Hi' }] }, env);
+
+    assert.equal(response.status, 200);
+    assert.equal(upstream.calls[0].url, 'https://openai.test/v1/chat/completions');
+    assert.equal(upstream.calls[0].body.model, 'gpt-4o');
+  });
+});
+
+// Virtual keys are looked up by hashed token, so each test uses its own "sk-..." key
+const keysEnv = async (keys: Array<{ apiKey: string } & Partial<LiteLLM_VirtualKey>>) => testEnv([
+  {
+    model_name: 'gpt',
+    litellm_params: { model: 'openai/gpt-4o', api_base: 'https://primary.test/v1', input_cost_per_token: 0.001 },
+    model_info: { id: 'auth-primary' },
+  },
+  {
+    model_name: 'gpt-mini',
+    litellm_params: { model: 'openai/gpt-4o-mini', api_base: 'https://fallback.test/v1' },
+    model_info: { id: 'auth-fallback' },
+  },
+], {
+  LITELLM_MASTER_KEY: MASTER_KEY,
+  VIRTUAL_KEYS: JSON.stringify(await Promise.all(keys.map(async ({ apiKey, ...key }) => ({
+    token: await hashToken(apiKey),
+    spend: 0,
+    ...key,
+  })))),
+});
+
+const chat = (env: ReturnType<typeof testEnv>, apiKey: string, model = 'gpt') =>
+  post('/v1/chat/completions', { model, messages: [{ role: 'user', content: 'Hi' }] }, env, apiKey);
+
+const completion = () => jsonResponse({
+  id: 'chatcmpl-1',
+  choices: [],
+  usage: { prompt_tokens: 6, completion_tokens: 4, total_tokens: 10 },
+});
+
+describe('api key auth', () => {
+  it('accepts the master key', async () => {
+    const env = await keysEnv([]);
+    upstream = mockUpstream(completion);
+
+    assert.equal((await chat(env, MASTER_KEY)).status, 200);
+  });
+
+  it('rejects unknown keys', async () => {
+    const env = await keysEnv([{ apiKey: 'sk-known' }]);
+    upstream = mockUpstream(completion);
+
+    const response = await chat(env, 'sk-unknown');
+
+    assert.equal(response.status, 401);
+    assert.equal(upstream.calls.length, 0);
+  });
+
+  it('rejects requests without a key', async () => {
+    const env = await keysEnv([]);
+
+    const response = await app.request('/v1/chat/completions', { method: 'POST', body: '{}' }, env, testExecutionCtx().ctx);
+
+    assert.equal(response.status, 401);
+  });
+
+  it('accepts virtual keys in the api-key header', async () => {
+    const env = await keysEnv([{ apiKey: 'sk-azure-client' }]);
+    upstream = mockUpstream(completion);
+
+    const response = await app.request('/v1/chat/completions', {
+      method: 'POST',
+      headers: { 'api-key': 'sk-azure-client' },
+      body: JSON.stringify({ model: 'gpt', messages: [] }),
+    }, env, testExecutionCtx().ctx);
+
+    assert.equal(response.status, 200);
+  });
+
+  it('rejects blocked keys', async () => {
+    const env = await keysEnv([{ apiKey: 'sk-blocked', blocked: true }]);
+
+    const response = await chat(env, 'sk-blocked');
+    const body: any = await response.json();
+
+    assert.equal(response.status, 401);
+    assert.match(body.error.message, /blocked/);
+  });
+
+  it('rejects expired keys', async () => {
+    const env = await keysEnv([{ apiKey: 'sk-expired', expires: '2020-01-01T00:00:00Z' }]);
+
+    const response = await chat(env, 'sk-expired');
+    const body: any = await response.json();
+
+    assert.equal(response.status, 401);
+    assert.match(body.error.message, /Expired Key/);
+  });
+
+  it('stops keys once their spend reaches max_budget', async () => {
+    const env = await keysEnv([{ apiKey: 'sk-budget', max_budget: 0.005 }]);
+    upstream = mockUpstream(completion);
+
+    // 6 prompt tokens at 0.001 per token
+    assert.equal((await chat(env, 'sk-budget')).status, 200);
+    const response = await chat(env, 'sk-budget');
+    const body: any = await response.json();
+
+    assert.equal(response.status, 400);
+    assert.equal(body.error.type, 'budget_exceeded');
+    assert.equal(upstream.calls.length, 1);
+  });
+
+  it('enforces rpm_limit', async () => {
+    const env = await keysEnv([{ apiKey: 'sk-rpm', rpm_limit: 1 }]);
+    upstream = mockUpstream(completion);
+
+    assert.equal((await chat(env, 'sk-rpm')).status, 200);
+    const response = await chat(env, 'sk-rpm');
+
+    assert.equal(response.status, 429);
+    assert.equal(upstream.calls.length, 1);
+  });
+
+  it('enforces tpm_limit with the tokens of earlier responses', async () => {
+    const env = await keysEnv([{ apiKey: 'sk-tpm', tpm_limit: 10 }]);
+    upstream = mockUpstream(completion);
+
+    assert.equal((await chat(env, 'sk-tpm')).status, 200);
+    const response = await chat(env, 'sk-tpm');
+    const body: any = await response.json();
+
+    assert.equal(response.status, 429);
+    assert.match(body.error.message, /tpm_limit: 10, current tpm: 10/);
+  });
+
+  it("rejects models outside the key's models", async () => {
+    const env = await keysEnv([{ apiKey: 'sk-mini-only', models: ['gpt-mini'] }]);
+    upstream = mockUpstream(completion);
+
+    const response = await chat(env, 'sk-mini-only', 'gpt');
+
+    assert.equal(response.status, 401);
+    assert.equal(upstream.calls.length, 0);
+  });
+
+  it("doesn't fall back to models outside the key's models", async () => {
+    const env = await keysEnv([{ apiKey: 'sk-no-fallback', models: ['gpt'] }]);
+    // Its own deployment ids, as the failed one cools down
+    env.PROXY_CONFIG = {
+      model_list: [
+        { model_name: 'gpt', litellm_params: { model: 'openai/gpt-4o', api_base: 'https://primary.test/v1' }, model_info: { id: 'auth-no-fallback-primary' } },
+        { model_name: 'gpt-mini', litellm_params: { model: 'openai/gpt-4o-mini', api_base: 'https://fallback.test/v1' }, model_info: { id: 'auth-no-fallback-fallback' } },
+      ],
+      router_settings: { fallbacks: [{ gpt: ['gpt-mini'] }] },
+    };
+    upstream = mockUpstream(() => jsonResponse({ error: { message: 'overloaded' } }, 503));
+
+    const response = await chat(env, 'sk-no-fallback');
+
+    assert.equal(response.status, 503);
+    assert.deepEqual(upstream.calls.map(call => call.url), ['https://primary.test/v1/chat/completions']);
+  });
+});
+
+describe('timingSafeEqual', () => {
+  it('compares strings', () => {
+    assert.equal(timingSafeEqual('abc', 'abc'), true);
+    assert.equal(timingSafeEqual('abc', 'abd'), false);
+    assert.equal(timingSafeEqual('abc', 'abcd'), false);
+  });
+});
@@ -1,30 +1,64 @@
 import { Hono } from 'hono'
-import { Context } from 'hono';
-import { bearerAuth } from 'hono/bearer-auth'
-import OpenAI from "openai";
-
-const openai = new OpenAI({
-  apiKey: "sk-1234",
-  baseURL: "https://openai-endpoint.ishaanjaffer0324.workers.dev"
-});
-
-async function call_proxy() {
-  const completion = await openai.chat.completions.create({
-    messages: [{ role: "system", content: "You are a helpful assistant." }],
-    model: "gpt-3.5-turbo",
-  });
-
-  return completion
+import { Context, Next } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status'
+import {Bindings, LiteLLM_VirtualKey} from './_types'
+import {routeChatCompletion} from './_router'
+import {errorResponse, OpenAIErrorBody, RouterError} from './_errors'
+import {canAccessModel, getKeyStore, hashToken, timingSafeEqual} from './_keys'
+import {checkRateLimits, recordTokens} from './_rate_limits'
+import {tapUsage, calculateSpend, sendSpendLog} from './_spend'
+import {fromAnthropicRequest, toAnthropicResponse, toAnthropicStream} from './providers/anthropic'
+import {sseHeaders} from './providers/common'
+
+type Env = {
+  Bindings: Bindings,
+  Variables: {
+    hashedToken: string,
+    virtualKey: LiteLLM_VirtualKey | null // null for the master key, which skips all key checks
+  }
 }
 
-const app = new Hono()
+const app = new Hono<Env>()
+
+// Middleware for API Key Authentication - accepts the master key or a virtual key from the key store
+const apiKeyAuth = async (c: Context<Env>, next: Next) => {
+  const authorization = c.req.header('Authorization');
+  // Azure OpenAI clients send the key in `api-key`, Anthropic clients in `x-api-key`
+  const apiKey = authorization?.startsWith('Bearer ')
+    ? authorization.slice('Bearer '.length)
+    : c.req.header('api-key') ?? c.req.header('x-api-key');
+  if (!apiKey) {
+    return errorResponse(401, 'Unauthorized', 'auth_error');
+  }
+
+  const hashedToken = await hashToken(apiKey);
+  c.set('hashedToken', hashedToken);
+
+  if (c.env.LITELLM_MASTER_KEY && timingSafeEqual(hashedToken, await hashToken(c.env.LITELLM_MASTER_KEY))) {
+    c.set('virtualKey', null);
+    return next();
+  }
 
-// Middleware for API Key Authentication
-const apiKeyAuth = async (c: Context, next: Function) => {
-  const apiKey = c.req.header('Authorization');
-  if (!apiKey || apiKey !== 'Bearer sk-1234') {
-    return c.text('Unauthorized', 401);
+  const key = await getKeyStore(c.env)?.get(hashedToken);
+  if (!key) {
+    return errorResponse(401, 'Authentication Error, Invalid proxy server token passed.', 'auth_error');
+  }
+  if (key.blocked) {
+    return errorResponse(401, 'Authentication Error, Key is blocked.', 'auth_error');
+  }
+  if (key.expires && new Date(key.expires).getTime() < Date.now()) {
+    return errorResponse(401, `Authentication Error - Expired Key. Key Expiry time ${key.expires} and current time ${new Date().toISOString()}`, 'auth_error');
+  }
+  if (key.max_budget != null && key.spend >= key.max_budget) {
+    return errorResponse(400, `Budget has been exceeded! Current cost: ${key.spend}, Max budget: ${key.max_budget}`, 'budget_exceeded');
   }
+
+  const rateLimitError = checkRateLimits(key);
+  if (rateLimitError) {
+    return errorResponse(429, rateLimitError, 'rate_limit_error');
+  }
+
+  c.set('virtualKey', key);
   await next();
 };
 
@@ -36,24 +70,123 @@ app.get('/', (c) => {
   return c.text('Hello Hono!')
 })
 
+app.onError((err, c) => {
+  if (err instanceof RouterError) {
+    return errorResponse(err.status, err.message, err.type);
+  }
+  console.error(err);
+  return errorResponse(500, err.message, 'internal_server_error');
+})
+
+
+// Routes an OpenAI-format chat completion and accounts for its spend
+const completeChat = async (c: Context<Env>, body: Record<string, any>): Promise<Response> => {
+  const key = c.get('virtualKey');
+  if (!canAccessModel(key, body.model)) {
+    return errorResponse(401, `API Key not allowed to access model. This token can only access models=${JSON.stringify(key?.models)}. Tried to access ${body.model}`, 'key_model_access_denied');
+  }
+
+  // Streams always ask for usage, so they're priced and count towards budgets and tpm limits.
+  // The usage chunk is only passed on to clients that asked for it.
+  const clientWantsUsage = body.stream_options?.include_usage === true;
+  const upstreamBody = body.stream
+    ? { ...body, stream_options: { ...body.stream_options, include_usage: true } }
+    : body;
+
+  const startTime = new Date();
+  const { response, deployment } = await routeChatCompletion(c.env, upstreamBody, (model) => canAccessModel(key, model));
+  if (!deployment || !response.ok) {
+    return response;
+  }
+
+  // Account for the request once the (possibly streamed) response has been fully read
+  const { response: clientResponse, summary } = tapUsage(response, clientWantsUsage);
+  const hashedToken = c.get('hashedToken');
+  c.executionCtx.waitUntil(summary.then(async ({ id, usage }) => {
+    const spend = calculateSpend(deployment, usage);
+    recordTokens(hashedToken, usage.total_tokens);
+    if (key && spend > 0) {
+      await getKeyStore(c.env)?.addSpend(hashedToken, spend);
+    }
+
+    await sendSpendLog(c.env, {
+      request_id: id ?? crypto.randomUUID(),
+      call_type: 'acompletion',
+      api_key: hashedToken,
+      spend,
+      ...usage,
+      startTime: startTime.toISOString(),
+      endTime: new Date().toISOString(),
+      model: deployment.litellm_params.model,
+      api_base: deployment.litellm_params.api_base ?? '',
+      user: key?.user_id ?? '',
+      metadata: {
+        user_api_key_alias: key?.key_alias ?? null,
+        model_group: deployment.model_name,
+        model_id: deployment.model_info?.id ?? null,
+        source: 'litellm-js-proxy',
+      },
+      cache_hit: '',
+      cache_key: '',
+      request_tags: Array.isArray(body.metadata?.tags) ? body.metadata.tags : [],
+      team_id: key?.team_id ?? null,
+      end_user: typeof body.user === 'string' ? body.user : null,
+    });
+  }));
+
+  return clientResponse;
+};
 
+// Handler for chat completions - forwards the request body to a deployment of the requested model
+const chatCompletionHandler = async (c: Context<Env>) => {
+  let body: Record<string, any>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return errorResponse(400, 'Request body must be valid JSON.', 'invalid_request_error');
+  }
 
+  // Azure-style routes carry the model in the path rather than the body
+  const pathModel = c.req.param('model');
+  if (pathModel) {
+    body.model = pathModel;
+  }
 
-// Handler for chat completions
-const chatCompletionHandler = async (c: Context) => {
-  // Assuming your logic for handling chat completion goes here
-  // For demonstration, just returning a simple JSON response
-  const response = await call_proxy()
-  return c.json(response);
+  return completeChat(c, body);
+};
+
+// Handler for Anthropic Messages requests - translated to a chat completion, so any deployment can serve them
+const messagesHandler = async (c: Context<Env>) => {
+  let body: Record<string, any>;
+  try {
+    body = await c.req.json();
+  } catch {
+    return c.json({ type: 'error', error: { type: 'invalid_request_error', message: 'Request body must be valid JSON.' } }, 400);
+  }
+
+  const response = await completeChat(c, fromAnthropicRequest(body));
+  if (!response.ok) {
+    const error = await response.json<OpenAIErrorBody>().catch(() => null);
+    return c.json({
+      type: 'error',
+      error: { type: error?.error?.type ?? 'api_error', message: error?.error?.message ?? response.statusText },
+    }, response.status as ContentfulStatusCode);
+  }
+
+  if (body.stream && response.body) {
+    return new Response(toAnthropicStream(response.body), { status: response.status, headers: sseHeaders() });
+  }
+  return c.json(toAnthropicResponse(await response.json()));
 };
 
 // Register the above handler for different POST routes with the apiKeyAuth middleware
 app.post('/v1/chat/completions', chatCompletionHandler);
 app.post('/chat/completions', chatCompletionHandler);
 
-// Example showing how you might handle dynamic segments within the URL
-// Here, using ':model*' to capture the rest of the path as a parameter 'model'
-app.post('/openai/deployments/:model*/chat/completions', chatCompletionHandler);
+// Azure OpenAI clients address the deployment in the path - captured as the 'model' param
+app.post('/openai/deployments/:model{.+}/chat/completions', chatCompletionHandler);
+
+app.post('/v1/messages', messagesHandler);
 
 
 export default app
@@ -0,0 +1,170 @@
+import { afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { routeChatCompletion } from '../_router'
+import { jsonResponse, mockUpstream, readSSE, sseResponse, testEnv } from '../_testing'
+import { fromAnthropicRequest, toAnthropicStream } from './anthropic'
+
+const env = testEnv([{
+  model_name: 'claude',
+  litellm_params: { model: 'anthropic/claude-3-5-sonnet', api_base: 'https://anthropic.test/', api_key: 'os.environ/ANTHROPIC_API_KEY' },
+  model_info: { id: 'anthropic-test' },
+}], { ANTHROPIC_API_KEY: 'sk-ant-test' });
+
+let upstream: ReturnType<typeof mockUpstream> | undefined;
+afterEach(() => upstream?.restore());
+
+describe('anthropic adapter', () => {
+  it('sends a Messages request', async () => {
+    upstream = mockUpstream(() => jsonResponse({ id: 'msg_1', content: [], stop_reason: 'end_turn', usage: {} }));
+
+    await routeChatCompletion(env, {
+      model: 'claude',
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Hi' },
+        { role: 'user', content: [{ type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }] },
+        { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"x"}' } }] },
+        { role: 'tool', tool_call_id: 'call_1', content: 'found' },
+      ],
+      stop: 'END',
+    });
+
+    const [call] = upstream.calls;
+    assert.equal(call.url, 'https://anthropic.test/v1/messages');
+    assert.equal(call.headers.get('x-api-key'), 'sk-ant-test');
+    assert.equal(call.headers.get('anthropic-version'), '2023-06-01');
+    assert.deepEqual(call.body, {
+      model: 'claude-3-5-sonnet',
+      system: 'Be brief.',
+      max_tokens: 4096,
+      stop_sequences: ['END'],
+      messages: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'Hi' },
+            { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AAAA' } },
+          ],
+        },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 'call_1', name: 'lookup', input: { q: 'x' } }] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'found' }] },
+      ],
+    });
+  });
+
+  it('converts the response to a chat completion', async () => {
+    upstream = mockUpstream(() => jsonResponse({
+      id: 'msg_1',
+      model: 'claude-3-5-sonnet',
+      content: [
+        { type: 'text', text: 'Let me check.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'lookup', input: { q: 'x' } },
+      ],
+      stop_reason: 'tool_use',
+      usage: { input_tokens: 10, output_tokens: 5 },
+    }));
+
+    const { response } = await routeChatCompletion(env, { model: 'claude', messages: [{ role: 'user', content: 'Hi' }] });
+    const completion: any = await response.json();
+
+    assert.equal(completion.id, 'msg_1');
+    assert.deepEqual(completion.choices[0].message, {
+      role: 'assistant',
+      content: 'Let me check.',
+      tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"x"}' } }],
+    });
+    assert.equal(completion.choices[0].finish_reason, 'tool_calls');
+    assert.deepEqual(completion.usage, { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 });
+  });
+
+  it('converts a stream to chat completion chunks', async () => {
+    upstream = mockUpstream(() => sseResponse([
+      { type: 'message_start', message: { id: 'msg_1', model: 'claude-3-5-sonnet', usage: { input_tokens: 10 } } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hello' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 2 } },
+      { type: 'message_stop' },
+    ]));
+
+    const { response } = await routeChatCompletion(env, {
+      model: 'claude',
+      messages: [{ role: 'user', content: 'Hi' }],
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    const chunks = await readSSE(response);
+
+    assert.equal(upstream.calls[0].body.stream, true);
+    assert.equal(response.headers.get('content-type'), 'text/event-stream');
+    assert.deepEqual(chunks.slice(0, -1).map(chunk => [chunk.choices[0]?.delta, chunk.choices[0]?.finish_reason]), [
+      [{ role: 'assistant', content: '' }, null],
+      [{ content: 'Hello' }, null],
+      [{}, 'stop'],
+      [undefined, undefined],
+    ]);
+    assert.deepEqual(chunks[3].usage, { prompt_tokens: 10, completion_tokens: 2, total_tokens: 12 });
+    assert.equal(chunks[4], '[DONE]');
+  });
+
+  it('wraps errors in the OpenAI error shape', async () => {
+    upstream = mockUpstream(() => jsonResponse({ type: 'error', error: { type: 'invalid_request_error', message: 'bad' } }, 400));
+
+    const { response } = await routeChatCompletion(env, { model: 'claude', messages: [{ role: 'user', content: 'Hi' }] });
+    const body: any = await response.json();
+
+    assert.equal(response.status, 400);
+    assert.equal(body.error.type, 'api_error');
+    assert.match(body.error.message, /bad/);
+  });
+});
+
+describe('/v1/messages translation', () => {
+  it('converts a Messages request to a chat completion request', () => {
+    const body = fromAnthropicRequest({
+      model: 'claude',
+      system: 'Be brief.',
+      max_tokens: 100,
+      stream: true,
+      messages: [
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 'toolu_1', name: 'lookup', input: { q: 'x' } }] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'found' }] },
+      ],
+    });
+
+    assert.deepEqual(body.messages, [
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: [{ type: 'text', text: 'Hi' }] },
+      { role: 'assistant', content: null, tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'lookup', arguments: '{"q":"x"}' } }] },
+      { role: 'tool', tool_call_id: 'toolu_1', content: 'found' },
+    ]);
+    assert.deepEqual(body.stream_options, { include_usage: true });
+  });
+
+  it('converts chat completion chunks to a Messages stream', async () => {
+    const chunks = sseResponse([
+      { id: 'chatcmpl-1', model: 'gpt-4o', choices: [{ index: 0, delta: { role: 'assistant', content: 'Hel' }, finish_reason: null }] },
+      { id: 'chatcmpl-1', model: 'gpt-4o', choices: [{ index: 0, delta: { content: 'lo' }, finish_reason: 'stop' }] },
+      { id: 'chatcmpl-1', model: 'gpt-4o', choices: [], usage: { prompt_tokens: 3, completion_tokens: 2 } },
+      '[DONE]',
+    ]);
+
+    const events = await readSSE(new Response(toAnthropicStream(chunks.body!)));
+
+    assert.deepEqual(events.map(event => event.type), [
+      'message_start',
+      'content_block_start',
+      'content_block_delta',
+      'content_block_delta',
+      'content_block_stop',
+      'message_delta',
+      'message_stop',
+    ]);
+    assert.deepEqual(events[5], {
+      type: 'message_delta',
+      delta: { stop_reason: 'end_turn', stop_sequence: null },
+      usage: { input_tokens: 3, output_tokens: 2 },
+    });
+  });
+});
@@ -0,0 +1,444 @@
+import {resolveSecret} from '../_config'
+import {
+  ProviderAdapter, OpenAIUsage, jsonRequest, trimSlashes, toUsage, chatCompletionChunk, sseHeaders,
+  contentToText, parseDataUrl, parseToolArguments,
+} from './common'
+import {transformSSE} from './sse'
+
+const DEFAULT_ANTHROPIC_API_BASE = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 4096; // Anthropic requires max_tokens; same default as the Python SDK
+
+const STOP_REASON_TO_FINISH_REASON: Record<string, string> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls',
+};
+
+const FINISH_REASON_TO_STOP_REASON: Record<string, string> = {
+  stop: 'end_turn',
+  length: 'max_tokens',
+  tool_calls: 'tool_use',
+  function_call: 'tool_use',
+  content_filter: 'end_turn',
+};
+
+// ---- OpenAI request -> Anthropic Messages request ----
+
+const toAnthropicContent = (content: unknown): any[] => {
+  if (typeof content === 'string') {
+    return content ? [{ type: 'text', text: content }] : [];
+  }
+  if (!Array.isArray(content)) return [];
+
+  return content.flatMap((part: any): any[] => {
+    if (part?.type === 'text') return [{ type: 'text', text: part.text }];
+    if (part?.type === 'image_url') {
+      const url = typeof part.image_url === 'string' ? part.image_url : part.image_url?.url;
+      const inline = parseDataUrl(url ?? '');
+      return [{
+        type: 'image',
+        source: inline ? { type: 'base64', ...inline } : { type: 'url', url },
+      }];
+    }
+    return [];
+  });
+};
+
+// Anthropic needs strictly alternating user/assistant turns, so consecutive messages of one role are merged
+const pushMessage = (messages: any[], role: 'user' | 'assistant', content: any[]) => {
+  if (content.length === 0) return;
+  const last = messages[messages.length - 1];
+  if (last?.role === role) {
+    last.content.push(...content);
+  } else {
+    messages.push({ role, content });
+  }
+};
+
+const toAnthropicToolChoice = (toolChoice: any) => {
+  if (toolChoice === 'auto') return { type: 'auto' };
+  if (toolChoice === 'required') return { type: 'any' };
+  if (toolChoice === 'none') return { type: 'none' };
+  if (toolChoice?.type === 'function') return { type: 'tool', name: toolChoice.function?.name };
+  return undefined;
+};
+
+export const toAnthropicRequest = (model: string, body: Record<string, any>) => {
+  const system: string[] = [];
+  const messages: any[] = [];
+
+  for (const message of body.messages ?? []) {
+    if (message.role === 'system' || message.role === 'developer') {
+      system.push(contentToText(message.content));
+    } else if (message.role === 'user') {
+      pushMessage(messages, 'user', toAnthropicContent(message.content));
+    } else if (message.role === 'assistant') {
+      const toolUses = (message.tool_calls ?? []).map((toolCall: any) => ({
+        type: 'tool_use',
+        id: toolCall.id,
+        name: toolCall.function?.name,
+        input: parseToolArguments(toolCall.function?.arguments),
+      }));
+      pushMessage(messages, 'assistant', [...toAnthropicContent(message.content), ...toolUses]);
+    } else if (message.role === 'tool') {
+      pushMessage(messages, 'user', [{
+        type: 'tool_result',
+        tool_use_id: message.tool_call_id,
+        content: contentToText(message.content),
+      }]);
+    }
+  }
+
+  const stop = typeof body.stop === 'string' ? [body.stop] : body.stop;
+  const tools = (body.tools ?? [])
+    .filter((tool: any) => tool.type === 'function')
+    .map((tool: any) => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters ?? { type: 'object', properties: {} },
+    }));
+
+  return {
+    model,
+    messages,
+    system: system.length > 0 ? system.join('\n') : undefined,
+    max_tokens: body.max_completion_tokens ?? body.max_tokens ?? DEFAULT_MAX_TOKENS,
+    temperature: body.temperature,
+    top_p: body.top_p,
+    stop_sequences: stop,
+    stream: body.stream,
+    tools: tools.length > 0 ? tools : undefined,
+    tool_choice: tools.length > 0 ? toAnthropicToolChoice(body.tool_choice) : undefined,
+    metadata: typeof body.user === 'string' ? { user_id: body.user } : undefined,
+  };
+};
+
+// ---- Anthropic Messages response -> OpenAI response ----
+
+const toOpenAIUsage = (usage: any): OpenAIUsage =>
+  toUsage(usage?.input_tokens ?? 0, usage?.output_tokens ?? 0);
+
+export const toOpenAIResponse = (message: any) => {
+  const text = message.content
+    ?.filter((block: any) => block.type === 'text')
+    .map((block: any) => block.text)
+    .join('');
+  const toolCalls = message.content
+    ?.filter((block: any) => block.type === 'tool_use')
+    .map((block: any) => ({
+      id: block.id,
+      type: 'function',
+      function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+    }));
+
+  return {
+    id: message.id,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model: message.model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls?.length ? { tool_calls: toolCalls } : {}),
+      },
+      finish_reason: STOP_REASON_TO_FINISH_REASON[message.stop_reason] ?? 'stop',
+    }],
+    usage: toOpenAIUsage(message.usage),
+  };
+};
+
+// Anthropic stream events -> OpenAI chat.completion.chunk events
+const toOpenAIStream = (body: ReadableStream<Uint8Array>, includeUsage: boolean) => {
+  let id = '';
+  let model = '';
+  let inputTokens = 0;
+  let outputTokens = 0;
+  // Anthropic content block index -> OpenAI tool_calls index
+  const toolIndexes = new Map<number, number>();
+
+  return transformSSE(body, ({ data }, emit) => {
+    let event: any;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      return;
+    }
+
+    switch (event.type) {
+      case 'message_start':
+        id = event.message?.id ?? id;
+        model = event.message?.model ?? model;
+        inputTokens = event.message?.usage?.input_tokens ?? 0;
+        emit(chatCompletionChunk(id, model, { role: 'assistant', content: '' }));
+        break;
+      case 'content_block_start':
+        if (event.content_block?.type === 'tool_use') {
+          const toolIndex = toolIndexes.size;
+          toolIndexes.set(event.index, toolIndex);
+          emit(chatCompletionChunk(id, model, {
+            tool_calls: [{
+              index: toolIndex,
+              id: event.content_block.id,
+              type: 'function',
+              function: { name: event.content_block.name, arguments: '' },
+            }],
+          }));
+        }
+        break;
+      case 'content_block_delta':
+        if (event.delta?.type === 'text_delta') {
+          emit(chatCompletionChunk(id, model, { content: event.delta.text }));
+        } else if (event.delta?.type === 'thinking_delta') {
+          emit(chatCompletionChunk(id, model, { reasoning_content: event.delta.thinking }));
+        } else if (event.delta?.type === 'input_json_delta') {
+          emit(chatCompletionChunk(id, model, {
+            tool_calls: [{ index: toolIndexes.get(event.index) ?? 0, function: { arguments: event.delta.partial_json } }],
+          }));
+        }
+        break;
+      case 'message_delta':
+        outputTokens = event.usage?.output_tokens ?? outputTokens;
+        if (event.delta?.stop_reason) {
+          emit(chatCompletionChunk(id, model, {}, STOP_REASON_TO_FINISH_REASON[event.delta.stop_reason] ?? 'stop'));
+        }
+        break;
+      case 'message_stop':
+        if (includeUsage) {
+          emit(chatCompletionChunk(id, model, {}, null, toUsage(inputTokens, outputTokens)));
+        }
+        emit('[DONE]');
+        break;
+      case 'error':
+        emit({ error: { message: event.error?.message, type: event.error?.type } });
+        break;
+    }
+  });
+};
+
+export const anthropic: ProviderAdapter = {
+  buildRequest: (env, deployment, model, body) => {
+    const params = deployment.litellm_params;
+    const apiKey = resolveSecret(env, params.api_key);
+    const headers: Record<string, string> = { 'anthropic-version': ANTHROPIC_VERSION };
+    if (apiKey) headers['x-api-key'] = apiKey;
+
+    return jsonRequest(
+      `${trimSlashes(params.api_base ?? DEFAULT_ANTHROPIC_API_BASE)}/v1/messages`,
+      headers,
+      toAnthropicRequest(model, body)
+    );
+  },
+
+  transformResponse: async (response, model, body) => {
+    if (body.stream && response.body) {
+      return new Response(toOpenAIStream(response.body, body.stream_options?.include_usage === true), {
+        status: response.status,
+        headers: sseHeaders(),
+      });
+    }
+    const message = await response.json();
+    return new Response(JSON.stringify(toOpenAIResponse(message)), {
+      status: response.status,
+      headers: { 'content-type': 'application/json' },
+    });
+  },
+};
+
+// ---- Inbound: Anthropic /v1/messages request -> OpenAI request, and the OpenAI response back ----
+
+const fromAnthropicContent = (content: unknown): any[] => {
+  if (typeof content === 'string') return [{ type: 'text', text: content }];
+  if (!Array.isArray(content)) return [];
+  return content;
+};
+
+export const fromAnthropicRequest = (body: Record<string, any>): Record<string, any> => {
+  const messages: any[] = [];
+
+  const system = Array.isArray(body.system) ? contentToText(body.system) : body.system;
+  if (system) {
+    messages.push({ role: 'system', content: system });
+  }
+
+  for (const message of body.messages ?? []) {
+    const blocks = fromAnthropicContent(message.content);
+
+    if (message.role === 'assistant') {
+      const text = blocks.filter(block => block.type === 'text').map(block => block.text).join('');
+      const toolCalls = blocks
+        .filter(block => block.type === 'tool_use')
+        .map(block => ({
+          id: block.id,
+          type: 'function',
+          function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+        }));
+      messages.push({
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      });
+      continue;
+    }
+
+    // Tool results become `tool` messages, which OpenAI expects right after the assistant's tool_calls
+    for (const block of blocks.filter(block => block.type === 'tool_result')) {
+      messages.push({
+        role: 'tool',
+        tool_call_id: block.tool_use_id,
+        content: Array.isArray(block.content) ? contentToText(block.content) : String(block.content ?? ''),
+      });
+    }
+
+    const parts = blocks.flatMap((block): any[] => {
+      if (block.type === 'text') return [{ type: 'text', text: block.text }];
+      if (block.type === 'image') {
+        const url = block.source?.type === 'base64'
+          ? `data:${block.source.media_type};base64,${block.source.data}`
+          : block.source?.url;
+        return [{ type: 'image_url', image_url: { url } }];
+      }
+      return [];
+    });
+    if (parts.length > 0) {
+      messages.push({ role: 'user', content: parts });
+    }
+  }
+
+  const toolChoice = body.tool_choice?.type === 'any' ? 'required'
+    : body.tool_choice?.type === 'tool' ? { type: 'function', function: { name: body.tool_choice.name } }
+    : body.tool_choice?.type;
+
+  return {
+    model: body.model,
+    messages,
+    max_tokens: body.max_tokens,
+    temperature: body.temperature,
+    top_p: body.top_p,
+    stop: body.stop_sequences,
+    stream: body.stream,
+    // Usage is needed to fill in message_start / message_delta when streaming back
+    ...(body.stream ? { stream_options: { include_usage: true } } : {}),
+    tools: body.tools?.map((tool: any) => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.input_schema },
+    })),
+    tool_choice: body.tools ? toolChoice : undefined,
+    user: body.metadata?.user_id,
+    metadata: body.metadata,
+  };
+};
+
+export const toAnthropicResponse = (completion: any) => {
+  const choice = completion.choices?.[0];
+  const content: any[] = [];
+  if (choice?.message?.content) {
+    content.push({ type: 'text', text: choice.message.content });
+  }
+  for (const toolCall of choice?.message?.tool_calls ?? []) {
+    content.push({
+      type: 'tool_use',
+      id: toolCall.id,
+      name: toolCall.function?.name,
+      input: parseToolArguments(toolCall.function?.arguments),
+    });
+  }
+
+  return {
+    id: completion.id,
+    type: 'message',
+    role: 'assistant',
+    model: completion.model,
+    content,
+    stop_reason: FINISH_REASON_TO_STOP_REASON[choice?.finish_reason] ?? 'end_turn',
+    stop_sequence: null,
+    usage: {
+      input_tokens: completion.usage?.prompt_tokens ?? 0,
+      output_tokens: completion.usage?.completion_tokens ?? 0,
+    },
+  };
+};
+
+// OpenAI chat.completion.chunk events -> Anthropic stream events
+export const toAnthropicStream = (body: ReadableStream<Uint8Array>) => {
+  let started = false;
+  let openBlock: { index: number, type: 'text' | 'tool_use' } | null = null;
+  let blockCount = 0;
+  // OpenAI tool_calls index -> Anthropic content block index
+  const toolBlocks = new Map<number, number>();
+  let stopReason = 'end_turn';
+  let usage = { input_tokens: 0, output_tokens: 0 };
+
+  return transformSSE(body, ({ data }, emit) => {
+    if (data === '[DONE]') return;
+    let chunk: any;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      return;
+    }
+
+    if (!started) {
+      started = true;
+      emit({
+        type: 'message_start',
+        message: {
+          id: chunk.id, type: 'message', role: 'assistant', model: chunk.model, content: [],
+          stop_reason: null, stop_sequence: null, usage,
+        },
+      }, 'message_start');
+    }
+    if (chunk.usage) {
+      usage = { input_tokens: chunk.usage.prompt_tokens ?? 0, output_tokens: chunk.usage.completion_tokens ?? 0 };
+    }
+
+    const choice = chunk.choices?.[0];
+    const closeBlock = () => {
+      if (openBlock) emit({ type: 'content_block_stop', index: openBlock.index }, 'content_block_stop');
+      openBlock = null;
+    };
+
+    if (choice?.delta?.content) {
+      if (openBlock?.type !== 'text') {
+        closeBlock();
+        openBlock = { index: blockCount++, type: 'text' };
+        emit({ type: 'content_block_start', index: openBlock.index, content_block: { type: 'text', text: '' } }, 'content_block_start');
+      }
+      emit({ type: 'content_block_delta', index: openBlock.index, delta: { type: 'text_delta', text: choice.delta.content } }, 'content_block_delta');
+    }
+
+    for (const toolCall of choice?.delta?.tool_calls ?? []) {
+      if (!toolBlocks.has(toolCall.index)) {
+        closeBlock();
+        const index = blockCount++;
+        toolBlocks.set(toolCall.index, index);
+        openBlock = { index, type: 'tool_use' };
+        emit({
+          type: 'content_block_start',
+          index,
+          content_block: { type: 'tool_use', id: toolCall.id, name: toolCall.function?.name, input: {} },
+        }, 'content_block_start');
+      }
+      if (toolCall.function?.arguments) {
+        emit({
+          type: 'content_block_delta',
+          index: toolBlocks.get(toolCall.index),
+          delta: { type: 'input_json_delta', partial_json: toolCall.function.arguments },
+        }, 'content_block_delta');
+      }
+    }
+
+    if (choice?.finish_reason) {
+      closeBlock();
+      stopReason = FINISH_REASON_TO_STOP_REASON[choice.finish_reason] ?? 'end_turn';
+    }
+  }, (emit) => {
+    if (!started) return;
+    if (openBlock) emit({ type: 'content_block_stop', index: openBlock.index }, 'content_block_stop');
+    emit({ type: 'message_delta', delta: { stop_reason: stopReason, stop_sequence: null }, usage }, 'message_delta');
+    emit({ type: 'message_stop' }, 'message_stop');
+  });
+};
@@ -0,0 +1,50 @@
+import { afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { routeChatCompletion } from '../_router'
+import { RouterError } from '../_errors'
+import { jsonResponse, mockUpstream, testEnv } from '../_testing'
+
+let upstream: ReturnType<typeof mockUpstream> | undefined;
+afterEach(() => upstream?.restore());
+
+describe('azure adapter', () => {
+  it('addresses the deployment in the url and sends the key in api-key', async () => {
+    const env = testEnv([{
+      model_name: 'gpt-4o',
+      litellm_params: { model: 'azure/my-gpt-4o', api_base: 'https://example.openai.azure.com/', api_key: 'azure-key' },
+      model_info: { id: 'azure-test' },
+    }]);
+    upstream = mockUpstream(() => jsonResponse({ id: 'chatcmpl-1', choices: [] }));
+
+    const { response } = await routeChatCompletion(env, { model: 'gpt-4o', messages: [{ role: 'user', content: 'Hi' }] });
+
+    const [call] = upstream.calls;
+    assert.equal(call.url, 'https://example.openai.azure.com/openai/deployments/my-gpt-4o/chat/completions?api-version=2024-02-01');
+    assert.equal(call.headers.get('api-key'), 'azure-key');
+    assert.equal(call.headers.get('authorization'), null);
+    assert.deepEqual(call.body, { model: 'my-gpt-4o', messages: [{ role: 'user', content: 'Hi' }] });
+    // Azure responses are already in the OpenAI format
+    assert.deepEqual(await response.json(), { id: 'chatcmpl-1', choices: [] });
+  });
+
+  it('uses the configured api_version', async () => {
+    const env = testEnv([{
+      model_name: 'gpt-4o',
+      litellm_params: { model: 'azure/my-gpt-4o', api_base: 'https://example.openai.azure.com', api_version: '2024-10-21' },
+      model_info: { id: 'azure-version-test' },
+    }]);
+    upstream = mockUpstream(() => jsonResponse({ choices: [] }));
+
+    await routeChatCompletion(env, { model: 'gpt-4o', messages: [] });
+
+    assert.match(upstream.calls[0].url, /\?api-version=2024-10-21$/);
+  });
+
+  it('requires api_base', async () => {
+    const env = testEnv([{ model_name: 'gpt-4o', litellm_params: { model: 'azure/my-gpt-4o' } }]);
+    upstream = mockUpstream(() => jsonResponse({}));
+
+    await assert.rejects(routeChatCompletion(env, { model: 'gpt-4o', messages: [] }), RouterError);
+    assert.equal(upstream.calls.length, 0);
+  });
+});
@@ -0,0 +1,23 @@
+import {resolveSecret} from '../_config'
+import {RouterError} from '../_errors'
+import {ProviderAdapter, jsonRequest, trimSlashes} from './common'
+
+const DEFAULT_AZURE_API_VERSION = '2024-02-01';
+
+// Azure OpenAI: same body as OpenAI, but the deployment is addressed in the url and the key goes in `api-key`
+export const azure: ProviderAdapter = {
+  buildRequest: (env, deployment, model, body) => {
+    const params = deployment.litellm_params;
+    if (!params.api_base) {
+      throw new RouterError(400, `api_base is required for Azure deployments (model_name=${deployment.model_name}).`);
+    }
+    const apiKey = resolveSecret(env, params.api_key);
+    const apiVersion = params.api_version ?? DEFAULT_AZURE_API_VERSION;
+
+    return jsonRequest(
+      `${trimSlashes(params.api_base)}/openai/deployments/${encodeURIComponent(model)}/chat/completions?api-version=${encodeURIComponent(apiVersion)}`,
+      apiKey ? { 'api-key': apiKey } : {},
+      { ...body, model }
+    );
+  },
+};
@@ -0,0 +1,87 @@
+import {Bindings, LiteLLM_Deployment} from '../_types'
+
+// Translates between the OpenAI chat completions format the proxy speaks and one upstream provider
+export type ProviderAdapter = {
+  // Builds the upstream request for an OpenAI-format body. `model` has the provider prefix removed.
+  buildRequest: (env: Bindings, deployment: LiteLLM_Deployment, model: string, body: Record<string, any>) => Request,
+  // Converts a successful upstream response (JSON or SSE) to the OpenAI format. Omitted for OpenAI-compatible providers.
+  transformResponse?: (response: Response, model: string, body: Record<string, any>) => Response | Promise<Response>
+}
+
+export type OpenAIUsage = {
+  prompt_tokens: number,
+  completion_tokens: number,
+  total_tokens: number
+}
+
+export const jsonRequest = (url: string, headers: Record<string, string>, body: unknown) =>
+  new Request(url, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+
+// Aborts the request if the response headers haven't arrived within `timeout` seconds.
+// The body isn't covered, so long streams aren't cut off.
+export const fetchWithTimeout = async (request: Request, timeout?: number): Promise<Response> => {
+  if (!timeout) return fetch(request);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new Error(`Request timed out after ${timeout}s`)), timeout * 1000);
+  try {
+    return await fetch(request, { signal: controller.signal });
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+export const trimSlashes = (url: string) => url.replace(/\/+$/, '');
+
+export const toUsage = (prompt_tokens: number, completion_tokens: number): OpenAIUsage => ({
+  prompt_tokens,
+  completion_tokens,
+  total_tokens: prompt_tokens + completion_tokens,
+});
+
+export const chatCompletionChunk = (
+  id: string,
+  model: string,
+  delta: Record<string, any>,
+  finish_reason: string | null = null,
+  usage?: OpenAIUsage
+) => ({
+  id,
+  object: 'chat.completion.chunk',
+  created: Math.floor(Date.now() / 1000),
+  model,
+  choices: usage && Object.keys(delta).length === 0 && !finish_reason
+    ? [] // The include_usage chunk carries no choices, like OpenAI's
+    : [{ index: 0, delta, finish_reason }],
+  ...(usage ? { usage } : {}),
+});
+
+export const sseHeaders = () => new Headers({ 'content-type': 'text/event-stream', 'cache-control': 'no-cache' });
+
+// Splits an OpenAI message's content into text, whatever mix of string and content parts it is
+export const contentToText = (content: unknown): string => {
+  if (typeof content === 'string') return content;
+  if (!Array.isArray(content)) return '';
+  return content
+    .filter(part => part?.type === 'text')
+    .map(part => part.text)
+    .join('');
+};
+
+// "data:image/png;base64,AAAA" -> { media_type: "image/png", data: "AAAA" }
+export const parseDataUrl = (url: string): { media_type: string, data: string } | null => {
+  const match = /^data:([^;,]+);base64,(.*)$/s.exec(url);
+  return match ? { media_type: match[1], data: match[2] } : null;
+};
+
+export const parseToolArguments = (args: unknown): Record<string, unknown> => {
+  if (typeof args !== 'string') return (args as Record<string, unknown>) ?? {};
+  try {
+    return args ? JSON.parse(args) : {};
+  } catch {
+    return {};
+  }
+};
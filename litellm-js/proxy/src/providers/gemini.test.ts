@@ -0,0 +1,134 @@
+import { afterEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { routeChatCompletion } from '../_router'
+import { jsonResponse, mockUpstream, readSSE, sseResponse, testEnv } from '../_testing'
+
+const env = testEnv([{
+  model_name: 'gemini',
+  litellm_params: { model: 'gemini/gemini-1.5-pro', api_base: 'https://gemini.test/v1beta', api_key: 'AIza-test' },
+  model_info: { id: 'gemini-test' },
+}]);
+
+let upstream: ReturnType<typeof mockUpstream> | undefined;
+afterEach(() => upstream?.restore());
+
+describe('gemini adapter', () => {
+  it('sends a generateContent request', async () => {
+    upstream = mockUpstream(() => jsonResponse({ candidates: [] }));
+
+    await routeChatCompletion(env, {
+      model: 'gemini',
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Weather in Paris?' },
+        { role: 'assistant', content: null, tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'weather', arguments: '{"city":"Paris"}' } }] },
+        { role: 'tool', tool_call_id: 'call_1', content: '{"temp":20}' },
+      ],
+      tools: [{ type: 'function', function: { name: 'weather', parameters: { type: 'object' } } }],
+      tool_choice: 'required',
+      max_tokens: 50,
+      response_format: { type: 'json_object' },
+    });
+
+    const [call] = upstream.calls;
+    assert.equal(call.url, 'https://gemini.test/v1beta/models/gemini-1.5-pro:generateContent');
+    assert.equal(call.headers.get('x-goog-api-key'), 'AIza-test');
+    assert.deepEqual(call.body, {
+      contents: [
+        { role: 'user', parts: [{ text: 'Weather in Paris?' }] },
+        { role: 'model', parts: [{ functionCall: { name: 'weather', args: { city: 'Paris' } } }] },
+        { role: 'user', parts: [{ functionResponse: { name: 'weather', response: { content: { temp: 20 } } } }] },
+      ],
+      system_instruction: { parts: [{ text: 'Be brief.' }] },
+      generationConfig: { maxOutputTokens: 50, responseMimeType: 'application/json' },
+      tools: [{ functionDeclarations: [{ name: 'weather', parameters: { type: 'object' } }] }],
+      toolConfig: { function_calling_config: { mode: 'ANY' } },
+    });
+  });
+
+  it('sends json_schema response formats as responseSchema', async () => {
+    upstream = mockUpstream(() => jsonResponse({ candidates: [] }));
+
+    await routeChatCompletion(env, {
+      model: 'gemini',
+      messages: [{ role: 'user', content: 'Weather in Paris?' }],
+      response_format: {
+        type: 'json_schema',
+        json_schema: {
+          name: 'weather',
+          strict: true,
+          schema: {
+            type: 'object',
+            properties: { city: { type: 'string' }, strict: { type: 'boolean' } },
+            required: ['city'],
+            additionalProperties: false,
+          },
+        },
+      },
+    });
+
+    assert.deepEqual(upstream.calls[0].body.generationConfig, {
+      responseMimeType: 'application/json',
+      responseSchema: {
+        type: 'object',
+        properties: { city: { type: 'string' }, strict: { type: 'boolean' } },
+        required: ['city'],
+      },
+    });
+  });
+
+  it('converts the response to a chat completion', async () => {
+    upstream = mockUpstream(() => jsonResponse({
+      responseId: 'resp-1',
+      modelVersion: 'gemini-1.5-pro-002',
+      candidates: [{
+        content: { role: 'model', parts: [{ text: 'thinking...', thought: true }, { functionCall: { name: 'weather', args: { city: 'Paris' } } }] },
+        finishReason: 'STOP',
+      }],
+      usageMetadata: { promptTokenCount: 8, candidatesTokenCount: 4 },
+    }));
+
+    const { response } = await routeChatCompletion(env, { model: 'gemini', messages: [{ role: 'user', content: 'Hi' }] });
+    const completion: any = await response.json();
+
+    assert.equal(completion.id, 'resp-1');
+    assert.equal(completion.model, 'gemini-1.5-pro-002');
+    assert.equal(completion.choices[0].message.content, null);
+    assert.deepEqual(completion.choices[0].message.tool_calls[0].function, { name: 'weather', arguments: '{"city":"Paris"}' });
+    assert.equal(completion.choices[0].finish_reason, 'tool_calls');
+    assert.deepEqual(completion.usage, { prompt_tokens: 8, completion_tokens: 4, total_tokens: 12 });
+  });
+
+  it('maps safety stops to content_filter', async () => {
+    upstream = mockUpstream(() => jsonResponse({ candidates: [{ content: { parts: [] }, finishReason: 'SAFETY' }] }));
+
+    const { response } = await routeChatCompletion(env, { model: 'gemini', messages: [{ role: 'user', content: 'Hi' }] });
+    const completion: any = await response.json();
+
+    assert.equal(completion.choices[0].finish_reason, 'content_filter');
+  });
+
+  it('converts a stream to chat completion chunks', async () => {
+    upstream = mockUpstream(() => sseResponse([
+      { candidates: [{ content: { parts: [{ text: 'Hel' }] } }], usageMetadata: { promptTokenCount: 8 } },
+      { candidates: [{ content: { parts: [{ text: 'lo' }] }, finishReason: 'STOP' }], usageMetadata: { promptTokenCount: 8, candidatesTokenCount: 2 } },
+    ]));
+
+    const { response } = await routeChatCompletion(env, {
+      model: 'gemini',
+      messages: [{ role: 'user', content: 'Hi' }],
+      stream: true,
+      stream_options: { include_usage: true },
+    });
+    const chunks = await readSSE(response);
+
+    assert.equal(upstream.calls[0].url, 'https://gemini.test/v1beta/models/gemini-1.5-pro:streamGenerateContent?alt=sse');
+    assert.deepEqual(chunks.slice(0, 2).map(chunk => [chunk.choices[0].delta, chunk.choices[0].finish_reason]), [
+      [{ role: 'assistant', content: 'Hel' }, null],
+      [{ content: 'lo' }, 'stop'],
+    ]);
+    assert.deepEqual(chunks[2].choices, []);
+    assert.deepEqual(chunks[2].usage, { prompt_tokens: 8, completion_tokens: 2, total_tokens: 10 });
+    assert.equal(chunks[3], '[DONE]');
+  });
+});
@@ -0,0 +1,261 @@
+import {resolveSecret} from '../_config'
+import {
+  ProviderAdapter, jsonRequest, trimSlashes, toUsage, chatCompletionChunk, sseHeaders,
+  contentToText, parseDataUrl, parseToolArguments,
+} from './common'
+import {transformSSE} from './sse'
+
+const DEFAULT_GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
+
+const FINISH_REASON_TO_OPENAI: Record<string, string> = {
+  STOP: 'stop',
+  MAX_TOKENS: 'length',
+  SAFETY: 'content_filter',
+  RECITATION: 'content_filter',
+  BLOCKLIST: 'content_filter',
+  PROHIBITED_CONTENT: 'content_filter',
+  SPII: 'content_filter',
+};
+
+// ---- OpenAI request -> Gemini generateContent request ----
+
+const toGeminiParts = (content: unknown): any[] => {
+  if (typeof content === 'string') {
+    return content ? [{ text: content }] : [];
+  }
+  if (!Array.isArray(content)) return [];
+
+  return content.flatMap((part: any): any[] => {
+    if (part?.type === 'text') return [{ text: part.text }];
+    if (part?.type === 'image_url') {
+      const url = typeof part.image_url === 'string' ? part.image_url : part.image_url?.url;
+      const inline = parseDataUrl(url ?? '');
+      return [inline
+        ? { inline_data: { mime_type: inline.media_type, data: inline.data } }
+        : { file_data: { file_uri: url } }];
+    }
+    return [];
+  });
+};
+
+const pushContent = (contents: any[], role: 'user' | 'model', parts: any[]) => {
+  if (parts.length === 0) return;
+  const last = contents[contents.length - 1];
+  if (last?.role === role) {
+    last.parts.push(...parts);
+  } else {
+    contents.push({ role, parts });
+  }
+};
+
+const toGeminiToolConfig = (toolChoice: any) => {
+  if (toolChoice === 'auto') return { function_calling_config: { mode: 'AUTO' } };
+  if (toolChoice === 'required') return { function_calling_config: { mode: 'ANY' } };
+  if (toolChoice === 'none') return { function_calling_config: { mode: 'NONE' } };
+  if (toolChoice?.type === 'function') {
+    return { function_calling_config: { mode: 'ANY', allowed_function_names: [toolChoice.function?.name] } };
+  }
+  return undefined;
+};
+
+const parseToolResponse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+// Gemini's responseSchema is an OpenAPI subset, which rejects these JSON Schema keywords OpenAI schemas carry
+const UNSUPPORTED_SCHEMA_KEYS = new Set(['additionalProperties', '$schema', 'strict']);
+
+const toGeminiSchema = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  return Object.fromEntries(
+    Object.entries(schema)
+      .filter(([key]) => !UNSUPPORTED_SCHEMA_KEYS.has(key))
+      .map(([key, value]: [string, any]) => [
+        key,
+        // The keys of `properties` are field names, not keywords
+        key === 'properties' && value && typeof value === 'object'
+          ? Object.fromEntries(Object.entries(value).map(([name, property]) => [name, toGeminiSchema(property)]))
+          : toGeminiSchema(value),
+      ])
+  );
+};
+
+export const toGeminiRequest = (body: Record<string, any>) => {
+  const system: string[] = [];
+  const contents: any[] = [];
+  // Gemini function responses are matched by name, OpenAI tool messages only carry the call id
+  const toolNames = new Map<string, string>();
+
+  for (const message of body.messages ?? []) {
+    if (message.role === 'system' || message.role === 'developer') {
+      system.push(contentToText(message.content));
+    } else if (message.role === 'user') {
+      pushContent(contents, 'user', toGeminiParts(message.content));
+    } else if (message.role === 'assistant') {
+      const calls = (message.tool_calls ?? []).map((toolCall: any) => {
+        toolNames.set(toolCall.id, toolCall.function?.name);
+        return { functionCall: { name: toolCall.function?.name, args: parseToolArguments(toolCall.function?.arguments) } };
+      });
+      pushContent(contents, 'model', [...toGeminiParts(message.content), ...calls]);
+    } else if (message.role === 'tool') {
+      const text = contentToText(message.content);
+      pushContent(contents, 'user', [{
+        functionResponse: {
+          name: toolNames.get(message.tool_call_id) ?? message.name ?? message.tool_call_id,
+          response: { content: parseToolResponse(text) },
+        },
+      }]);
+    }
+  }
+
+  const stop = typeof body.stop === 'string' ? [body.stop] : body.stop;
+  const functionDeclarations = (body.tools ?? [])
+    .filter((tool: any) => tool.type === 'function')
+    .map((tool: any) => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      parameters: tool.function.parameters,
+    }));
+
+  return {
+    contents,
+    system_instruction: system.length > 0 ? { parts: [{ text: system.join('\n') }] } : undefined,
+    generationConfig: {
+      temperature: body.temperature,
+      topP: body.top_p,
+      maxOutputTokens: body.max_completion_tokens ?? body.max_tokens,
+      stopSequences: stop,
+      candidateCount: body.n,
+      seed: body.seed,
+      ...(body.response_format?.type === 'json_object' || body.response_format?.type === 'json_schema'
+        ? { responseMimeType: 'application/json' }
+        : {}),
+      ...(body.response_format?.type === 'json_schema' && body.response_format.json_schema?.schema
+        ? { responseSchema: toGeminiSchema(body.response_format.json_schema.schema) }
+        : {}),
+    },
+    tools: functionDeclarations.length > 0 ? [{ functionDeclarations }] : undefined,
+    toolConfig: functionDeclarations.length > 0 ? toGeminiToolConfig(body.tool_choice) : undefined,
+  };
+};
+
+// ---- Gemini response -> OpenAI response ----
+
+const toOpenAIUsage = (usageMetadata: any) =>
+  toUsage(usageMetadata?.promptTokenCount ?? 0, usageMetadata?.candidatesTokenCount ?? 0);
+
+const toolCallId = () => `call_${crypto.randomUUID().replace(/-/g, '').slice(0, 24)}`;
+
+const toOpenAIMessage = (candidate: any) => {
+  const parts: any[] = candidate?.content?.parts ?? [];
+  const text = parts.filter(part => typeof part.text === 'string' && !part.thought).map(part => part.text).join('');
+  const toolCalls = parts
+    .filter(part => part.functionCall)
+    .map(part => ({
+      id: toolCallId(),
+      type: 'function',
+      function: { name: part.functionCall.name, arguments: JSON.stringify(part.functionCall.args ?? {}) },
+    }));
+  return { text, toolCalls };
+};
+
+const toFinishReason = (candidate: any, hasToolCalls: boolean) => {
+  if (!candidate?.finishReason) return null;
+  if (hasToolCalls) return 'tool_calls';
+  return FINISH_REASON_TO_OPENAI[candidate.finishReason] ?? 'stop';
+};
+
+export const toOpenAIResponse = (response: any, model: string) => ({
+  id: response.responseId ?? `chatcmpl-${crypto.randomUUID()}`,
+  object: 'chat.completion',
+  created: Math.floor(Date.now() / 1000),
+  model: response.modelVersion ?? model,
+  choices: (response.candidates ?? []).map((candidate: any, index: number) => {
+    const { text, toolCalls } = toOpenAIMessage(candidate);
+    return {
+      index: candidate.index ?? index,
+      message: {
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      },
+      finish_reason: toFinishReason(candidate, toolCalls.length > 0) ?? 'stop',
+    };
+  }),
+  usage: toOpenAIUsage(response.usageMetadata),
+});
+
+// Gemini SSE (alt=sse) responses -> OpenAI chat.completion.chunk events
+const toOpenAIStream = (body: ReadableStream<Uint8Array>, model: string, includeUsage: boolean) => {
+  const id = `chatcmpl-${crypto.randomUUID()}`;
+  let toolIndex = 0;
+  let usageMetadata: any;
+  let started = false;
+
+  return transformSSE(body, ({ data }, emit) => {
+    let response: any;
+    try {
+      response = JSON.parse(data);
+    } catch {
+      return;
+    }
+    usageMetadata = response.usageMetadata ?? usageMetadata;
+
+    const candidate = response.candidates?.[0];
+    if (!candidate) return;
+    const { text, toolCalls } = toOpenAIMessage(candidate);
+
+    const delta: Record<string, any> = {};
+    if (!started) {
+      started = true;
+      delta.role = 'assistant';
+    }
+    if (text) delta.content = text;
+    if (toolCalls.length > 0) {
+      delta.tool_calls = toolCalls.map(toolCall => ({ index: toolIndex++, ...toolCall }));
+    }
+
+    const finishReason = toFinishReason(candidate, toolIndex > 0);
+    if (Object.keys(delta).length > 0 || finishReason) {
+      emit(chatCompletionChunk(id, response.modelVersion ?? model, delta, finishReason));
+    }
+  }, (emit) => {
+    if (includeUsage) {
+      emit(chatCompletionChunk(id, model, {}, null, toOpenAIUsage(usageMetadata)));
+    }
+    emit('[DONE]');
+  });
+};
+
+export const gemini: ProviderAdapter = {
+  buildRequest: (env, deployment, model, body) => {
+    const params = deployment.litellm_params;
+    const apiKey = resolveSecret(env, params.api_key);
+    const method = body.stream ? 'streamGenerateContent?alt=sse' : 'generateContent';
+
+    return jsonRequest(
+      `${trimSlashes(params.api_base ?? DEFAULT_GEMINI_API_BASE)}/models/${encodeURIComponent(model)}:${method}`,
+      apiKey ? { 'x-goog-api-key': apiKey } : {},
+      toGeminiRequest(body)
+    );
+  },
+
+  transformResponse: async (response, model, body) => {
+    if (body.stream && response.body) {
+      return new Response(toOpenAIStream(response.body, model, body.stream_options?.include_usage === true), {
+        status: response.status,
+        headers: sseHeaders(),
+      });
+    }
+    const result = await response.json();
+    return new Response(JSON.stringify(toOpenAIResponse(result, model)), {
+      status: response.status,
+      headers: { 'content-type': 'application/json' },
+    });
+  },
+};
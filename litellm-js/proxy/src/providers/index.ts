@@ -0,0 +1,17 @@
+import {ProviderAdapter} from './common'
+import {openai} from './openai'
+import {azure} from './azure'
+import {anthropic} from './anthropic'
+import {gemini} from './gemini'
+
+// Provider prefix of litellm_params.model -> adapter
+export const PROVIDERS: Record<string, ProviderAdapter> = {
+  openai,
+  hosted_vllm: openai,
+  openai_compatible: openai,
+  azure,
+  anthropic,
+  gemini,
+};
+
+export type {ProviderAdapter} from './common'
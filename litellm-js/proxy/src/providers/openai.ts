@@ -0,0 +1,18 @@
+import {resolveSecret} from '../_config'
+import {ProviderAdapter, jsonRequest, trimSlashes} from './common'
+
+const DEFAULT_OPENAI_API_BASE = 'https://api.openai.com/v1';
+
+// OpenAI and OpenAI-compatible servers (vLLM, ...): the body is forwarded with only `model` swapped
+export const openai: ProviderAdapter = {
+  buildRequest: (env, deployment, model, body) => {
+    const params = deployment.litellm_params;
+    const apiKey = resolveSecret(env, params.api_key);
+
+    return jsonRequest(
+      `${trimSlashes(params.api_base ?? DEFAULT_OPENAI_API_BASE)}/chat/completions`,
+      apiKey ? { authorization: `Bearer ${apiKey}` } : {},
+      { ...body, model }
+    );
+  },
+};
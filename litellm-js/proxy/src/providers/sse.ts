@@ -0,0 +1,56 @@
+export type SSEEvent = {
+  event?: string,
+  data: string
+}
+
+export type SSEEmit = (data: unknown, event?: string) => void
+
+const encoder = new TextEncoder();
+
+const emitTo = (controller: TransformStreamDefaultController<Uint8Array>): SSEEmit => (data, event) => {
+  const payload = typeof data === 'string' ? data : JSON.stringify(data);
+  controller.enqueue(encoder.encode(`${event ? `event: ${event}\n` : ''}data: ${payload}\n\n`));
+};
+
+const parseEvent = (raw: string): SSEEvent | null => {
+  let event: string | undefined;
+  const data: string[] = [];
+  for (const line of raw.split(/\r?\n/)) {
+    if (line.startsWith('event:')) event = line.slice('event:'.length).trim();
+    else if (line.startsWith('data:')) data.push(line.slice('data:'.length).replace(/^ /, ''));
+  }
+  return data.length > 0 ? { event, data: data.join('\n') } : null;
+};
+
+// Rewrites an SSE stream event by event. `onEvent` and `onEnd` call `emit` for each event to send on;
+// objects are JSON encoded and strings (like "[DONE]") are sent as-is.
+export const transformSSE = (
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: SSEEvent, emit: SSEEmit) => void,
+  onEnd?: (emit: SSEEmit) => void
+): ReadableStream<Uint8Array> => {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const transform = new TransformStream<Uint8Array, Uint8Array>({
+    transform(bytes, controller) {
+      const emit = emitTo(controller);
+      buffer += decoder.decode(bytes, { stream: true });
+      const events = buffer.split(/\r?\n\r?\n/);
+      // The last piece may be an incomplete event - keep it for the next read
+      buffer = events.pop() ?? '';
+      for (const raw of events) {
+        const event = parseEvent(raw);
+        if (event) onEvent(event, emit);
+      }
+    },
+    flush(controller) {
+      const emit = emitTo(controller);
+      const event = parseEvent(buffer + decoder.decode());
+      if (event) onEvent(event, emit);
+      onEnd?.(emit);
+    },
+  });
+
+  return body.pipeThrough(transform);
+};
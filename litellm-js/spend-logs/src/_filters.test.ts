@@ -0,0 +1,53 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { HTTPException } from 'hono/http-exception'
+import { parseGroupBy, parsePageSize, parseSpendLogsFilters } from './_filters'
+
+const query = (params: Record<string, string>) => (key: string) => params[key]
+
+describe('parseSpendLogsFilters', () => {
+  it('includes the whole last day of a date-only end_date', () => {
+    const filters = parseSpendLogsFilters(query({ start_date: '2024-06-01', end_date: '2024-06-30' }), undefined)
+
+    assert.deepEqual(filters.start_date, new Date('2024-06-01T00:00:00Z'))
+    assert.deepEqual(filters.end_before, new Date('2024-07-01T00:00:00Z'))
+  })
+
+  it('includes the instant of a timestamp end_date', () => {
+    const filters = parseSpendLogsFilters(query({ end_date: '2024-06-30T12:00:00Z' }), undefined)
+
+    assert.deepEqual(filters.end_before, new Date('2024-06-30T12:00:00.001Z'))
+  })
+
+  it('rejects invalid dates', () => {
+    assert.throws(() => parseSpendLogsFilters(query({ end_date: 'yesterday' }), undefined), HTTPException)
+  })
+
+  it('merges repeated and comma separated request_tags', () => {
+    const filters = parseSpendLogsFilters(query({}), ['prod, eu', 'beta', ''])
+
+    assert.deepEqual(filters.request_tags, ['prod', 'eu', 'beta'])
+  })
+})
+
+describe('parseGroupBy', () => {
+  it('defaults to day', () => {
+    assert.equal(parseGroupBy(undefined), 'day')
+    assert.equal(parseGroupBy('team_id'), 'team_id')
+  })
+
+  for (const value of ['toString', 'constructor', '__proto__', 'hasOwnProperty', 'spend']) {
+    it(`rejects '${value}'`, () => {
+      assert.throws(() => parseGroupBy(value), HTTPException)
+    })
+  }
+})
+
+describe('parsePageSize', () => {
+  it('caps the page size', () => {
+    assert.equal(parsePageSize(undefined), 50)
+    assert.equal(parsePageSize('5000'), 1000)
+    assert.throws(() => parsePageSize('0'), HTTPException)
+    assert.throws(() => parsePageSize('1.5'), HTTPException)
+  })
+})
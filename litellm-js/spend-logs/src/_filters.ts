@@ -0,0 +1,73 @@
+import { HTTPException } from 'hono/http-exception'
+
+export type SpendLogsFilters = {
+  start_date?: Date,
+  end_before?: Date, // exclusive upper bound on startTime, derived from the inclusive `end_date`
+  api_key?: string,
+  team_id?: string,
+  model?: string,
+  end_user?: string,
+  request_tags?: string[] // logs must carry all of these tags
+}
+
+export const SPEND_SUMMARY_GROUP_BY = ['day', 'model', 'api_key', 'team_id', 'end_user'] as const
+
+export type SpendSummaryGroupBy = typeof SPEND_SUMMARY_GROUP_BY[number]
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const parseDate = (name: string, value: string | undefined) => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new HTTPException(400, { message: `Invalid ${name}: '${value}'. Expected an ISO 8601 date.` });
+  }
+  return date;
+};
+
+// `end_date` is inclusive - a date covers that whole day, a timestamp is the last matching instant
+const parseEndDate = (value: string | undefined) => {
+  const date = parseDate('end_date', value);
+  if (!date) return undefined;
+  return new Date(date.getTime() + (DATE_ONLY.test(value!) ? DAY_MS : 1));
+};
+
+// Reads the shared filters from the query string. `request_tags` can be repeated or comma separated.
+export const parseSpendLogsFilters = (query: (key: string) => string | undefined, tags: string[] | undefined): SpendLogsFilters => {
+  const request_tags = (tags ?? [])
+    .flatMap(tag => tag.split(','))
+    .map(tag => tag.trim())
+    .filter(Boolean);
+
+  return {
+    start_date: parseDate('start_date', query('start_date')),
+    end_before: parseEndDate(query('end_date')),
+    api_key: query('api_key') || undefined,
+    team_id: query('team_id') || undefined,
+    model: query('model') || undefined,
+    end_user: query('end_user') || undefined,
+    request_tags: request_tags.length > 0 ? request_tags : undefined,
+  };
+};
+
+export const parsePageSize = (value: string | undefined) => {
+  if (!value) return DEFAULT_PAGE_SIZE;
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new HTTPException(400, { message: `Invalid limit: '${value}'. Expected a positive integer.` });
+  }
+  return Math.min(limit, MAX_PAGE_SIZE);
+};
+
+export const parseGroupBy = (value: string | undefined): SpendSummaryGroupBy => {
+  if (!value) return 'day';
+  if (!(SPEND_SUMMARY_GROUP_BY as readonly string[]).includes(value)) {
+    throw new HTTPException(400, {
+      message: `Invalid group_by: '${value}'. Expected one of ${SPEND_SUMMARY_GROUP_BY.join(', ')}.`,
+    });
+  }
+  return value as SpendSummaryGroupBy;
+};
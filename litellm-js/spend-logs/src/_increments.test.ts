@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import type { PrismaClient } from '@prisma/client'
+import { addIncrements, flushIncrementsToDb, key_logs, team_logs, user_logs } from './_increments'
+
+type RawQuery = { sql: string, values: unknown[] }
+
+// $executeRaw records the tagged template instead of running it; $transaction records the batch it was given
+const mockPrisma = (commit = true) => {
+  const transactions: RawQuery[][] = []
+  const prisma = {
+    $executeRaw: (strings: TemplateStringsArray, ...values: unknown[]): RawQuery => ({ sql: strings.join('?'), values }),
+    $transaction: async (queries: RawQuery[]) => {
+      transactions.push(queries)
+      if (!commit) throw new Error('deadlock detected')
+      return queries.map(() => 1)
+    },
+  } as unknown as PrismaClient
+  return { prisma, transactions }
+}
+
+beforeEach(() => {
+  key_logs.clear()
+  user_logs.clear()
+  team_logs.clear()
+  mock.method(console, 'log', () => {})
+  mock.method(console, 'error', () => {})
+})
+
+afterEach(() => {
+  mock.restoreAll()
+})
+
+describe('addIncrements', () => {
+  it('sums increments per key, user and team', () => {
+    addIncrements({
+      key_transactions: [{ key: 'sk-a', spend: 0.5 }, { key: 'sk-b', spend: 1 }, { key: 'sk-a', spend: 0.25 }],
+      user_transactions: [{ key: 'user-1', spend: 2 }],
+    })
+    addIncrements({
+      user_transactions: [{ key: 'user-1', spend: 3 }],
+      team_transactions: [{ key: 'team-1', spend: 4 }],
+    })
+
+    assert.deepEqual(Object.fromEntries(key_logs), { 'sk-a': 0.75, 'sk-b': 1 })
+    assert.deepEqual(Object.fromEntries(user_logs), { 'user-1': 5 })
+    assert.deepEqual(Object.fromEntries(team_logs), { 'team-1': 4 })
+  })
+
+  it('ignores empty keys and zero or non-numeric spend', () => {
+    addIncrements({
+      key_transactions: [{ key: '', spend: 1 }, { key: 'sk-a', spend: 0 }, { key: 'sk-b', spend: NaN }, { key: 'sk-c', spend: '1' as unknown as number }],
+    })
+
+    assert.equal(key_logs.size, 0)
+  })
+})
+
+describe('flushIncrementsToDb', () => {
+  it('applies every increment as `spend = spend + x` in one transaction', async () => {
+    addIncrements({
+      key_transactions: [{ key: 'sk-a', spend: 0.5 }, { key: 'sk-a', spend: 0.5 }],
+      user_transactions: [{ key: 'user-1', spend: 2 }],
+      team_transactions: [{ key: 'team-1', spend: 3 }],
+    })
+    const { prisma, transactions } = mockPrisma()
+
+    await flushIncrementsToDb(prisma)
+
+    assert.equal(transactions.length, 1)
+    assert.deepEqual(transactions[0], [
+      { sql: 'UPDATE "LiteLLM_VerificationToken" SET spend = spend + ? WHERE token = ?', values: [1, 'sk-a'] },
+      { sql: 'UPDATE "LiteLLM_UserTable" SET spend = spend + ? WHERE user_id = ?', values: [2, 'user-1'] },
+      { sql: 'UPDATE "LiteLLM_TeamTable" SET spend = spend + ? WHERE team_id = ?', values: [3, 'team-1'] },
+    ])
+    assert.equal(key_logs.size + user_logs.size + team_logs.size, 0)
+  })
+
+  it('skips the transaction when there is nothing to apply', async () => {
+    const { prisma, transactions } = mockPrisma()
+
+    await flushIncrementsToDb(prisma)
+
+    assert.equal(transactions.length, 0)
+  })
+
+  it('merges the increments back when the transaction fails', async () => {
+    addIncrements({ key_transactions: [{ key: 'sk-a', spend: 1 }], team_transactions: [{ key: 'team-1', spend: 2 }] })
+    const failing = mockPrisma(false)
+    const flush = flushIncrementsToDb(failing.prisma)
+    // Received while the transaction is in flight
+    addIncrements({ key_transactions: [{ key: 'sk-a', spend: 0.5 }, { key: 'sk-b', spend: 1 }] })
+    await flush
+
+    assert.deepEqual(Object.fromEntries(key_logs), { 'sk-a': 1.5, 'sk-b': 1 })
+    assert.deepEqual(Object.fromEntries(team_logs), { 'team-1': 2 })
+
+    const { prisma, transactions } = mockPrisma()
+    await flushIncrementsToDb(prisma)
+
+    assert.deepEqual(transactions[0].map(({ values }) => values), [[1.5, 'sk-a'], [1, 'sk-b'], [2, 'team-1']])
+  })
+})
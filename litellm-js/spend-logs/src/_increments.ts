@@ -0,0 +1,49 @@
+import type { PrismaClient } from '@prisma/client'
+import {LiteLLM_IncrementSpend, LiteLLM_IncrementObject} from './_types'
+
+// In-memory spend increments, coalesced per key / user / team until the next flush
+export const key_logs = new Map<string, number>();
+export const user_logs = new Map<string, number>();
+export const team_logs = new Map<string, number>();
+
+const mergeIncrements = (target: Map<string, number>, increments: LiteLLM_IncrementObject[]) => {
+  for (const { key, spend } of increments) {
+    if (!key || !Number.isFinite(spend) || spend === 0) continue;
+    target.set(key, (target.get(key) ?? 0) + spend);
+  }
+};
+
+export const addIncrements = (body: Partial<LiteLLM_IncrementSpend>) => {
+  mergeIncrements(key_logs, body.key_transactions ?? []);
+  mergeIncrements(user_logs, body.user_transactions ?? []);
+  mergeIncrements(team_logs, body.team_transactions ?? []);
+};
+
+export const flushIncrementsToDb = async (prisma: PrismaClient) => {
+  if (key_logs.size === 0 && user_logs.size === 0 && team_logs.size === 0) return;
+
+  // Snapshot and reset, so increments received during the DB write go into the next flush
+  const keys = Array.from(key_logs, ([key, spend]) => ({ key, spend }));
+  const users = Array.from(user_logs, ([key, spend]) => ({ key, spend }));
+  const teams = Array.from(team_logs, ([key, spend]) => ({ key, spend }));
+  key_logs.clear();
+  user_logs.clear();
+  team_logs.clear();
+
+  try {
+    // `spend = spend + x` keeps concurrent writers (e.g. the Python proxy) from overwriting each other
+    await prisma.$transaction([
+      ...keys.map(({ key, spend }) =>
+        prisma.$executeRaw`UPDATE "LiteLLM_VerificationToken" SET spend = spend + ${spend} WHERE token = ${key}`),
+      ...users.map(({ key, spend }) =>
+        prisma.$executeRaw`UPDATE "LiteLLM_UserTable" SET spend = spend + ${spend} WHERE user_id = ${key}`),
+      ...teams.map(({ key, spend }) =>
+        prisma.$executeRaw`UPDATE "LiteLLM_TeamTable" SET spend = spend + ${spend} WHERE team_id = ${key}`),
+    ]);
+    console.log(`Applied spend increments for ${keys.length} keys, ${users.length} users and ${teams.length} teams.`);
+  } catch (error) {
+    // The transaction rolled back - put the increments back so they're retried on the next flush
+    console.error("Failed to apply spend increments:", error);
+    addIncrements({ key_transactions: keys, user_transactions: users, team_transactions: teams });
+  }
+};
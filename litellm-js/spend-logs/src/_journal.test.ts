@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { SpendLogJournal } from './_journal'
+import { LiteLLM_SpendLogs } from './_types'
+
+// As received on /spend/update - dates are ISO strings once they have been through JSON
+const spendLog = (request_id: string): LiteLLM_SpendLogs => JSON.parse(JSON.stringify({
+  request_id,
+  call_type: 'acompletion',
+  api_key: 'hashed-key',
+  spend: 0.01,
+  total_tokens: 10,
+  prompt_tokens: 6,
+  completion_tokens: 4,
+  startTime: new Date('2024-06-01T00:00:00Z'),
+  endTime: new Date('2024-06-01T00:00:01Z'),
+  model: 'gpt-4o',
+  api_base: '',
+  user: '',
+  metadata: {},
+  cache_hit: '',
+  cache_key: '',
+  request_tags: [],
+}))
+
+const readLines = async (file: string) =>
+  (await fs.readFile(file, 'utf8')).split('\n').filter(Boolean).map(line => JSON.parse(line))
+
+let dir: string
+let journal: SpendLogJournal
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'spend-logs-journal-'))
+  journal = new SpendLogJournal(dir)
+})
+
+afterEach(async () => {
+  await journal.close()
+  await fs.rm(dir, { recursive: true, force: true })
+})
+
+// Simulates a restart: a new journal instance over the same directory
+const reopen = async () => {
+  await journal.close()
+  journal = new SpendLogJournal(dir)
+  await journal.open()
+  return journal
+}
+
+describe('SpendLogJournal', () => {
+  it('replays uncommitted logs after a restart', async () => {
+    await journal.open()
+    await journal.append([spendLog('req-1'), spendLog('req-2'), spendLog('req-3')])
+    await journal.commit(['req-2'])
+
+    await reopen()
+
+    assert.deepEqual(Array.from(journal.pending.keys()), ['req-1', 'req-3'])
+    assert.deepEqual(journal.pending.get('req-1'), { log: spendLog('req-1'), attempts: 0, next_attempt_at: 0 })
+  })
+
+  it('skips a torn trailing line', async () => {
+    await fs.writeFile(
+      path.join(dir, 'spend_logs.journal'),
+      JSON.stringify({ type: 'log', log: spendLog('req-1') }) + '\n' + '{"type":"log","log":{"request_id":"req-2"'
+    )
+
+    await journal.open()
+    await journal.append([spendLog('req-3')])
+    await reopen()
+
+    assert.deepEqual(Array.from(journal.pending.keys()), ['req-1', 'req-3'])
+  })
+
+  it('stores a request_id only once', async () => {
+    await journal.open()
+
+    assert.equal(await journal.append([spendLog('req-1')]), 1)
+    assert.equal(await journal.append([spendLog('req-1'), spendLog('req-2')]), 1)
+    // Concurrent re-sends of a log whose write is still in flight
+    const stored = await Promise.all([journal.append([spendLog('req-3')]), journal.append([spendLog('req-3')])])
+    assert.deepEqual(stored.sort(), [0, 1])
+
+    await reopen()
+    assert.deepEqual(Array.from(journal.pending.keys()), ['req-1', 'req-2', 'req-3'])
+    assert.equal((await readLines(path.join(dir, 'spend_logs.journal'))).length, 3)
+  })
+
+  it('compacts committed logs out of the journal', async () => {
+    await journal.open()
+    await journal.append([spendLog('req-1'), spendLog('req-2')])
+    await journal.commit(['req-1'])
+
+    const journalPath = path.join(dir, 'spend_logs.journal')
+    assert.deepEqual((await readLines(journalPath)).map(record => record.type), ['log', 'log', 'commit'])
+
+    // Compaction kicks in once 10000 logs have been committed since the last one
+    await journal.commit(Array.from({ length: 9999 }, (_, i) => `committed-${i}`))
+
+    assert.deepEqual(await readLines(journalPath), [{ type: 'log', log: spendLog('req-2') }])
+    await journal.append([spendLog('req-3')])
+    assert.deepEqual((await readLines(journalPath)).map(record => record.log.request_id), ['req-2', 'req-3'])
+  })
+
+  it('compacts the journal on open', async () => {
+    await journal.open()
+    await journal.append([spendLog('req-1'), spendLog('req-2')])
+    await journal.commit(['req-1'])
+
+    await reopen()
+
+    assert.deepEqual(await readLines(path.join(dir, 'spend_logs.journal')), [{ type: 'log', log: spendLog('req-2') }])
+  })
+
+  it('moves dead-lettered logs out of the journal', async () => {
+    await journal.open()
+    await journal.append([spendLog('req-1'), spendLog('req-2')])
+
+    await journal.deadLetter([{ ...journal.pending.get('req-1')!, attempts: 8, last_error: 'connection refused' }])
+
+    const [deadLetter] = await readLines(path.join(dir, 'spend_logs.dead_letter'))
+    assert.equal(deadLetter.attempts, 8)
+    assert.equal(deadLetter.error, 'connection refused')
+    assert.deepEqual(deadLetter.log, spendLog('req-1'))
+    await reopen()
+    assert.deepEqual(Array.from(journal.pending.keys()), ['req-2'])
+  })
+})
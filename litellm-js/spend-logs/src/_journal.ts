@@ -0,0 +1,177 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+import {LiteLLM_SpendLogs} from './_types'
+
+// A record in the append-only journal. `log` entries are written before a request is acknowledged,
+// `commit` entries once the matching rows are in the DB (or moved to the dead-letter file).
+type JournalRecord =
+  | { type: 'log', log: LiteLLM_SpendLogs }
+  | { type: 'commit', request_ids: string[] }
+
+export type PendingSpendLog = {
+  log: LiteLLM_SpendLogs,
+  attempts: number, // failed DB writes so far
+  next_attempt_at: number, // epoch ms before which the log is not retried
+  last_error?: string
+}
+
+const JOURNAL_FILE = 'spend_logs.journal'
+const DEAD_LETTER_FILE = 'spend_logs.dead_letter'
+const COMPACT_AFTER_COMMITS = 10000; // Rewrite the journal once this many logs have been committed since the last rewrite
+
+export class SpendLogJournal {
+  private dir: string
+  private handle: fs.FileHandle | null = null
+  // Serialises every file operation so appends never interleave with a compaction
+  private writeChain: Promise<unknown> = Promise.resolve()
+  private commitsSinceCompaction = 0
+  // Insertion-ordered, keyed on request_id so a log re-sent by the proxy is only stored once
+  readonly pending = new Map<string, PendingSpendLog>()
+  // request_ids whose journal write is still in flight
+  private appending = new Set<string>()
+
+  constructor(dir: string) {
+    this.dir = dir
+  }
+
+  private get journalPath() {
+    return path.join(this.dir, JOURNAL_FILE)
+  }
+
+  private get deadLetterPath() {
+    return path.join(this.dir, DEAD_LETTER_FILE)
+  }
+
+  // Replays the journal from disk, so logs acknowledged before a crash are flushed again
+  async open() {
+    await fs.mkdir(this.dir, { recursive: true })
+
+    let contents = ''
+    try {
+      contents = await fs.readFile(this.journalPath, 'utf8')
+    } catch (err: unknown) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') throw err
+    }
+
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue
+      let record: JournalRecord
+      try {
+        record = JSON.parse(line)
+      } catch {
+        // A torn final line means the process died mid-write, before that request was acknowledged
+        console.warn('Skipping unreadable journal line.')
+        continue
+      }
+      if (record.type === 'log') {
+        this.pending.set(record.log.request_id, { log: record.log, attempts: 0, next_attempt_at: 0 })
+      } else if (record.type === 'commit') {
+        record.request_ids.forEach(id => this.pending.delete(id))
+      }
+    }
+
+    // Start from a compacted journal so committed entries don't accumulate across restarts
+    await this.enqueue(() => this.rewrite())
+    console.log(`Recovered ${this.pending.size} uncommitted logs from ${this.journalPath}.`)
+  }
+
+  // Durably records logs; resolves only once they are fsync'd to disk
+  async append(logs: LiteLLM_SpendLogs[]): Promise<number> {
+    const fresh = new Map<string, LiteLLM_SpendLogs>()
+    for (const log of logs) {
+      if (!this.pending.has(log.request_id) && !this.appending.has(log.request_id)) {
+        fresh.set(log.request_id, log)
+      }
+    }
+    if (fresh.size === 0) return 0
+
+    const ids = Array.from(fresh.keys())
+    ids.forEach(id => this.appending.add(id))
+    try {
+      await this.enqueue(async () => {
+        await this.write(Array.from(fresh.values()).map(log => ({ type: 'log' as const, log })))
+        fresh.forEach((log, id) => this.pending.set(id, { log, attempts: 0, next_attempt_at: 0 }))
+      })
+    } finally {
+      ids.forEach(id => this.appending.delete(id))
+    }
+    return fresh.size
+  }
+
+  // Marks logs as written to the DB; they are dropped from the journal on the next compaction
+  async commit(requestIds: string[]) {
+    if (requestIds.length === 0) return
+    await this.enqueue(async () => {
+      await this.write([{ type: 'commit', request_ids: requestIds }])
+      requestIds.forEach(id => this.pending.delete(id))
+      this.commitsSinceCompaction += requestIds.length
+      if (this.commitsSinceCompaction >= COMPACT_AFTER_COMMITS) {
+        await this.rewrite()
+      }
+    })
+  }
+
+  // Moves logs that exhausted their retries to the dead-letter file, then commits them out of the journal
+  async deadLetter(entries: PendingSpendLog[]) {
+    if (entries.length === 0) return
+    const lines = entries.map(entry => JSON.stringify({
+      failed_at: new Date().toISOString(),
+      attempts: entry.attempts,
+      error: entry.last_error,
+      log: entry.log,
+    })).join('\n') + '\n'
+
+    await this.enqueue(async () => {
+      const handle = await fs.open(this.deadLetterPath, 'a')
+      try {
+        await handle.appendFile(lines)
+        await handle.sync()
+      } finally {
+        await handle.close()
+      }
+    })
+    await this.commit(entries.map(entry => entry.log.request_id))
+  }
+
+  async close() {
+    await this.enqueue(async () => {
+      await this.handle?.close()
+      this.handle = null
+    })
+  }
+
+  private enqueue<T>(op: () => Promise<T>): Promise<T> {
+    const result = this.writeChain.then(op)
+    this.writeChain = result.catch(() => undefined)
+    return result
+  }
+
+  private async write(records: JournalRecord[]) {
+    if (!this.handle) {
+      this.handle = await fs.open(this.journalPath, 'a')
+    }
+    await this.handle.appendFile(records.map(record => JSON.stringify(record)).join('\n') + '\n')
+    await this.handle.sync()
+  }
+
+  // Atomically replaces the journal with only the still-pending logs
+  private async rewrite() {
+    const tmpPath = `${this.journalPath}.tmp`
+    const body = Array.from(this.pending.values())
+      .map(entry => JSON.stringify({ type: 'log', log: entry.log }) + '\n')
+      .join('')
+
+    const tmp = await fs.open(tmpPath, 'w')
+    try {
+      await tmp.writeFile(body)
+      await tmp.sync()
+    } finally {
+      await tmp.close()
+    }
+
+    await this.handle?.close()
+    this.handle = null
+    await fs.rename(tmpPath, this.journalPath)
+    this.commitsSinceCompaction = 0
+  }
+}
@@ -0,0 +1,134 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test'
+import assert from 'node:assert/strict'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import type { PrismaClient } from '@prisma/client'
+import { HTTPException } from 'hono/http-exception'
+import { flushLogsToDb, MAX_RETRIES, parseSpendLogs } from './_logs'
+import { SpendLogJournal } from './_journal'
+import { LiteLLM_SpendLogs } from './_types'
+
+const spendLog = (request_id: string): LiteLLM_SpendLogs => JSON.parse(JSON.stringify({
+  request_id,
+  call_type: 'acompletion',
+  api_key: 'hashed-key',
+  spend: 0.01,
+  total_tokens: 10,
+  prompt_tokens: 6,
+  completion_tokens: 4,
+  startTime: new Date('2024-06-01T00:00:00Z'),
+  endTime: new Date('2024-06-01T00:00:01Z'),
+  model: 'gpt-4o',
+  api_base: '',
+  user: '',
+  metadata: {},
+  cache_hit: '',
+  cache_key: '',
+  request_tags: [],
+}))
+
+const isBadRequest = (error: unknown) => error instanceof HTTPException && error.status === 400
+
+describe('parseSpendLogs', () => {
+  it('accepts an array of logs', () => {
+    const logs = [spendLog('req-1'), spendLog('req-2')]
+
+    assert.deepEqual(parseSpendLogs(logs), logs)
+  })
+
+  it('rejects a body that is not an array', () => {
+    assert.throws(() => parseSpendLogs(null), isBadRequest)
+    assert.throws(() => parseSpendLogs(spendLog('req-1')), isBadRequest)
+  })
+
+  it('rejects entries without a string request_id', () => {
+    assert.throws(() => parseSpendLogs([spendLog('req-1'), 'req-2']), isBadRequest)
+    assert.throws(() => parseSpendLogs([[]]), isBadRequest)
+    assert.throws(() => parseSpendLogs([{ ...spendLog('req-1'), request_id: 1 }]), isBadRequest)
+    assert.throws(() => parseSpendLogs([{ ...spendLog('req-1'), request_id: '' }]), isBadRequest)
+  })
+})
+
+describe('flushLogsToDb', () => {
+  let dir: string
+  let journal: SpendLogJournal
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'spend-logs-flush-'))
+    journal = new SpendLogJournal(dir)
+    await journal.open()
+    mock.method(console, 'log', () => {})
+    mock.method(console, 'error', () => {})
+  })
+
+  afterEach(async () => {
+    mock.restoreAll()
+    await journal.close()
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  const mockPrisma = (createMany: (args: any) => Promise<unknown>) => {
+    const calls: any[] = []
+    const prisma = {
+      liteLLM_SpendLogs: {
+        createMany: (args: any) => {
+          calls.push(args)
+          return createMany(args)
+        },
+      },
+    } as unknown as PrismaClient
+    return { prisma, calls }
+  }
+
+  it('writes pending logs and commits them', async () => {
+    await journal.append([spendLog('req-1')])
+    const { prisma, calls } = mockPrisma(async () => ({ count: 1 }))
+
+    await flushLogsToDb(prisma, journal)
+
+    assert.equal(calls.length, 1)
+    assert.equal(calls[0].skipDuplicates, true)
+    assert.deepEqual(calls[0].data[0].startTime, new Date('2024-06-01T00:00:00Z'))
+    assert.equal(journal.pending.size, 0)
+  })
+
+  it('backs off a batch whose write failed', async () => {
+    await journal.append([spendLog('req-1')])
+    const { prisma, calls } = mockPrisma(async () => { throw new Error('connection refused') })
+
+    await flushLogsToDb(prisma, journal)
+    await flushLogsToDb(prisma, journal)
+
+    assert.equal(calls.length, 1)
+    const entry = journal.pending.get('req-1')
+    assert.equal(entry?.attempts, 1)
+    assert.equal(entry?.last_error, 'connection refused')
+    assert.ok(entry!.next_attempt_at > Date.now())
+  })
+
+  it(`moves logs to the dead-letter file after ${MAX_RETRIES} failed writes`, async () => {
+    await journal.append([spendLog('req-1')])
+    const { prisma, calls } = mockPrisma(async () => { throw new Error('connection refused') })
+
+    for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+      // Skip the backoff rather than waiting it out
+      journal.pending.forEach(entry => { entry.next_attempt_at = 0 })
+      await flushLogsToDb(prisma, journal)
+      assert.equal(journal.pending.has('req-1'), attempt < MAX_RETRIES)
+    }
+
+    assert.equal(calls.length, MAX_RETRIES)
+    const deadLetters = (await fs.readFile(path.join(dir, 'spend_logs.dead_letter'), 'utf8')).trim().split('\n').map(line => JSON.parse(line))
+    assert.equal(deadLetters.length, 1)
+    assert.equal(deadLetters[0].log.request_id, 'req-1')
+    assert.equal(deadLetters[0].attempts, MAX_RETRIES)
+    assert.equal(deadLetters[0].error, 'connection refused')
+
+    // The dead-lettered log is committed out of the journal and not replayed on restart
+    await journal.close()
+    journal = new SpendLogJournal(dir)
+    await journal.open()
+    assert.equal(journal.pending.size, 0)
+  })
+})
@@ -0,0 +1,107 @@
+import type { PrismaClient } from '@prisma/client'
+import { HTTPException } from 'hono/http-exception'
+import {LiteLLM_SpendLogs} from './_types'
+import {SpendLogJournal, PendingSpendLog} from './_journal'
+
+const MIN_LOGS = 1; // Minimum number of logs needed to initiate a flush
+const BATCH_SIZE = 100; // Preferred size of each batch to write to the database
+const MAX_LOGS_PER_INTERVAL = 1000; // Maximum number of logs to flush in a single interval
+export const MAX_RETRIES = 8; // Failed DB writes before a log is moved to the dead-letter file
+const RETRY_BASE_DELAY = 1000; // Time in ms before the first retry, doubled on every further failure
+const RETRY_MAX_DELAY = 5 * 60 * 1000; // Upper bound on the delay between retries
+
+let isFlushing = false;
+
+// Checks a /spend/update body before it is journaled - a malformed log would fail every flush until it is dead-lettered
+export const parseSpendLogs = (body: unknown): LiteLLM_SpendLogs[] => {
+  if (!Array.isArray(body)) {
+    throw new HTTPException(400, { message: 'Expected an array of spend logs.' });
+  }
+  body.forEach((log, index) => {
+    if (!log || typeof log !== 'object' || Array.isArray(log) || typeof log.request_id !== 'string' || !log.request_id) {
+      throw new HTTPException(400, { message: `Invalid spend log at index ${index}: expected an object with a string request_id.` });
+    }
+  });
+  return body;
+};
+
+const markBatchFailed = async (journal: SpendLogJournal, batch: PendingSpendLog[], error: unknown) => {
+  const now = Date.now();
+  const exhausted: PendingSpendLog[] = [];
+
+  for (const entry of batch) {
+    entry.attempts += 1;
+    entry.last_error = error instanceof Error ? error.message : String(error);
+    entry.next_attempt_at = now + Math.min(RETRY_BASE_DELAY * 2 ** (entry.attempts - 1), RETRY_MAX_DELAY);
+    if (entry.attempts >= MAX_RETRIES) {
+      exhausted.push(entry);
+    }
+  }
+
+  if (exhausted.length > 0) {
+    await journal.deadLetter(exhausted);
+    console.error(`Moved ${exhausted.length} logs to the dead-letter file after ${MAX_RETRIES} failed attempts.`);
+  }
+};
+
+export const flushLogsToDb = async (prisma: PrismaClient, journal: SpendLogJournal) => {
+  // A slow DB must not lead to overlapping flushes writing the same logs
+  if (isFlushing) return;
+  isFlushing = true;
+
+  try {
+    const now = Date.now();
+    const ready = Array.from(journal.pending.values()).filter(entry => entry.next_attempt_at <= now);
+
+    if (ready.length < MIN_LOGS) {
+      // This will ensure it doesn't falsely claim "No logs to flush." when it's merely below the MIN_LOGS threshold or backing off.
+      if (journal.pending.size > 0) {
+        console.log(`Accumulating logs. Currently at ${journal.pending.size}, ${ready.length} ready to flush.`);
+      } else {
+        console.log("No logs to flush.");
+      }
+      return;
+    }
+
+    // Limit the logs to process in this interval to MAX_LOGS_PER_INTERVAL or less
+    const logsToProcess = ready.slice(0, MAX_LOGS_PER_INTERVAL);
+    let flushed = 0;
+
+    for (let i = 0; i < logsToProcess.length; i += BATCH_SIZE) {
+      // Create subarray for current batch, ensuring it doesn't exceed the BATCH_SIZE
+      const batch = logsToProcess.slice(i, i + BATCH_SIZE);
+
+      // Convert datetime strings to Date objects
+      const batchWithDates = batch.map(({ log }) => ({
+        ...log,
+        startTime: new Date(log.startTime),
+        endTime: new Date(log.endTime),
+        // Repeat for any other DateTime fields you may have
+      }));
+
+      try {
+        // request_id is the primary key, so a batch replayed after a crash doesn't double count spend
+        await prisma.liteLLM_SpendLogs.createMany({
+          data: batchWithDates,
+          skipDuplicates: true,
+        });
+      } catch (error) {
+        // Only this batch is retried; the rest of the interval's logs still get flushed
+        console.error(`Failed to flush ${batch.length} logs to the DB:`, error);
+        await markBatchFailed(journal, batch, error);
+        continue;
+      }
+
+      // Logs leave the journal only once the DB write has committed
+      await journal.commit(batch.map(({ log }) => log.request_id));
+      flushed += batch.length;
+      console.log(`Flushed ${batch.length} logs to the DB.`);
+    }
+
+    console.log(`${flushed}/${logsToProcess.length} logs flushed. Remaining in queue: ${journal.pending.size}`);
+  } catch (error) {
+    console.error("Error while flushing logs:", error);
+  } finally {
+    isFlushing = false;
+  }
+};
@@ -0,0 +1,99 @@
+import { Prisma, PrismaClient } from '@prisma/client'
+import {LiteLLM_SpendLogs} from './_types'
+import {SpendLogsFilters, SpendSummaryGroupBy} from './_filters'
+
+export type SpendSummaryRow = {
+  group: string | null,
+  spend: number,
+  prompt_tokens: number,
+  completion_tokens: number,
+  total_tokens: number,
+  request_count: number
+}
+
+// Column each group_by value aggregates on - also keeps user input out of the raw SQL
+const GROUP_BY_COLUMNS: Record<SpendSummaryGroupBy, Prisma.Sql> = {
+  day: Prisma.sql`to_char(date_trunc('day', "startTime"), 'YYYY-MM-DD')`,
+  model: Prisma.sql`model`,
+  api_key: Prisma.sql`api_key`,
+  team_id: Prisma.sql`team_id`,
+  end_user: Prisma.sql`end_user`,
+};
+
+const toWhereInput = (filters: SpendLogsFilters): Prisma.LiteLLM_SpendLogsWhereInput => ({
+  startTime: (filters.start_date || filters.end_before)
+    ? { gte: filters.start_date, lt: filters.end_before }
+    : undefined,
+  api_key: filters.api_key,
+  team_id: filters.team_id,
+  model: filters.model,
+  end_user: filters.end_user,
+  request_tags: filters.request_tags ? { array_contains: filters.request_tags } : undefined,
+});
+
+const toWhereSql = (filters: SpendLogsFilters): Prisma.Sql => {
+  const conditions: Prisma.Sql[] = [];
+  if (filters.start_date) conditions.push(Prisma.sql`"startTime" >= ${filters.start_date}`);
+  if (filters.end_before) conditions.push(Prisma.sql`"startTime" < ${filters.end_before}`);
+  if (filters.api_key) conditions.push(Prisma.sql`api_key = ${filters.api_key}`);
+  if (filters.team_id) conditions.push(Prisma.sql`team_id = ${filters.team_id}`);
+  if (filters.model) conditions.push(Prisma.sql`model = ${filters.model}`);
+  if (filters.end_user) conditions.push(Prisma.sql`end_user = ${filters.end_user}`);
+  if (filters.request_tags) {
+    conditions.push(Prisma.sql`request_tags @> ${JSON.stringify(filters.request_tags)}::jsonb`);
+  }
+  return conditions.length > 0 ? Prisma.sql`WHERE ${Prisma.join(conditions, ' AND ')}` : Prisma.empty;
+};
+
+// Newest logs first. `cursor` is the request_id of the last log on the previous page.
+export const findSpendLogs = async (
+  prisma: PrismaClient,
+  filters: SpendLogsFilters,
+  limit: number,
+  cursor?: string
+): Promise<{ data: LiteLLM_SpendLogs[], next_cursor: string | null }> => {
+  const rows = await prisma.liteLLM_SpendLogs.findMany({
+    where: toWhereInput(filters),
+    orderBy: [{ startTime: 'desc' }, { request_id: 'desc' }],
+    // Fetch one extra row to know whether there is a next page
+    take: limit + 1,
+    ...(cursor ? { cursor: { request_id: cursor }, skip: 1 } : {}),
+  });
+
+  const hasMore = rows.length > limit;
+  const data = rows.slice(0, limit) as LiteLLM_SpendLogs[];
+  return {
+    data,
+    next_cursor: hasMore ? data[data.length - 1].request_id : null,
+  };
+};
+
+export const summarizeSpendLogs = async (
+  prisma: PrismaClient,
+  filters: SpendLogsFilters,
+  groupBy: SpendSummaryGroupBy
+): Promise<SpendSummaryRow[]> => {
+  const column = GROUP_BY_COLUMNS[groupBy];
+  const rows = await prisma.$queryRaw<Array<Record<keyof SpendSummaryRow, unknown>>>`
+    SELECT ${column} AS "group",
+           COALESCE(SUM(spend), 0) AS spend,
+           COALESCE(SUM(prompt_tokens), 0) AS prompt_tokens,
+           COALESCE(SUM(completion_tokens), 0) AS completion_tokens,
+           COALESCE(SUM(total_tokens), 0) AS total_tokens,
+           COUNT(*) AS request_count
+    FROM "LiteLLM_SpendLogs"
+    ${toWhereSql(filters)}
+    GROUP BY 1
+    ORDER BY ${groupBy === 'day' ? Prisma.sql`1 ASC` : Prisma.sql`2 DESC`}
+  `;
+
+  // Postgres returns SUM/COUNT of integers as bigint
+  return rows.map(row => ({
+    group: row.group === null ? null : String(row.group),
+    spend: Number(row.spend),
+    prompt_tokens: Number(row.prompt_tokens),
+    completion_tokens: Number(row.completion_tokens),
+    total_tokens: Number(row.total_tokens),
+    request_count: Number(row.request_count),
+  }));
+};
@@ -1,84 +1,88 @@
 import { serve } from '@hono/node-server'
 import { Hono } from 'hono'
 import { PrismaClient } from '@prisma/client'
-import {LiteLLM_SpendLogs, LiteLLM_IncrementSpend, LiteLLM_IncrementObject} from './_types'
+import {LiteLLM_IncrementSpend} from './_types'
+import {SpendLogJournal} from './_journal'
+import {flushLogsToDb, parseSpendLogs} from './_logs'
+import {addIncrements, flushIncrementsToDb, key_logs, user_logs, team_logs} from './_increments'
+import {findSpendLogs, summarizeSpendLogs} from './_queries'
+import {parseSpendLogsFilters, parsePageSize, parseGroupBy} from './_filters'
 
 const app = new Hono()
 const prisma = new PrismaClient()
-// In-memory storage for logs
-let spend_logs: LiteLLM_SpendLogs[] = [];
-const key_logs: LiteLLM_IncrementObject[] = [];
-const user_logs: LiteLLM_IncrementObject[] = [];
-const transaction_logs: LiteLLM_IncrementObject[] = [];
+// Write-ahead journal for logs - every log is on disk before /spend/update acknowledges it
+const JOURNAL_DIR = process.env.SPEND_LOGS_JOURNAL_DIR || './spend_logs_journal'
+const journal = new SpendLogJournal(JOURNAL_DIR)
 
 
 app.get('/', (c) => {
   return c.text('Hello Hono!')
 })
 
-const MIN_LOGS = 1; // Minimum number of logs needed to initiate a flush
 const FLUSH_INTERVAL = 5000; // Time in ms to wait before trying to flush again
-const BATCH_SIZE = 100; // Preferred size of each batch to write to the database
-const MAX_LOGS_PER_INTERVAL = 1000; // Maximum number of logs to flush in a single interval
-
-const flushLogsToDb = async () => {
-  if (spend_logs.length >= MIN_LOGS) {
-    // Limit the logs to process in this interval to MAX_LOGS_PER_INTERVAL or less
-    const logsToProcess = spend_logs.slice(0, MAX_LOGS_PER_INTERVAL);
-  
-    for (let i = 0; i < logsToProcess.length; i += BATCH_SIZE) {
-      // Create subarray for current batch, ensuring it doesn't exceed the BATCH_SIZE
-      const batch = logsToProcess.slice(i, i + BATCH_SIZE);
-
-      // Convert datetime strings to Date objects
-      const batchWithDates = batch.map(entry => ({
-        ...entry,
-        startTime: new Date(entry.startTime),
-        endTime: new Date(entry.endTime),
-        // Repeat for any other DateTime fields you may have
-      }));
-
-      await prisma.liteLLM_SpendLogs.createMany({
-        data: batchWithDates,
-      });
-
-      console.log(`Flushed ${batch.length} logs to the DB.`);
-    }
-
-    // Remove the processed logs from spend_logs
-    spend_logs = spend_logs.slice(logsToProcess.length);
-    
-    console.log(`${logsToProcess.length} logs processed. Remaining in queue: ${spend_logs.length}`);
-  } else {
-    // This will ensure it doesn't falsely claim "No logs to flush." when it's merely below the MIN_LOGS threshold.
-    if(spend_logs.length > 0) {
-      console.log(`Accumulating logs. Currently at ${spend_logs.length}, waiting for at least ${MIN_LOGS}.`);
-    } else {
-      console.log("No logs to flush.");
-    }
-  }
-};
-
-// Setup interval for attempting to flush the logs
-setInterval(flushLogsToDb, FLUSH_INTERVAL);
 
 // Route to receive log messages
 app.post('/spend/update', async (c) => {
-  const incomingLogs = await c.req.json<LiteLLM_SpendLogs[]>();
-  
-  spend_logs.push(...incomingLogs);
+  const incomingLogs = parseSpendLogs(await c.req.json().catch(() => null));
+
+  // Only acknowledge once the logs are durable, so the proxy can retry on failure
+  const stored = await journal.append(incomingLogs);
+
+  console.log(`Received ${incomingLogs.length} logs, journaled ${stored} new. Total logs pending: ${journal.pending.size}`);
 
-  console.log(`Received and stored ${incomingLogs.length} logs. Total logs in memory: ${spend_logs.length}`);
-  
   return c.json({ message: `Successfully stored ${incomingLogs.length} logs` });
 });
 
+// Route to receive key / user / team spend increments, optionally with the matching spend logs
+app.post('/spend/increment', async (c) => {
+  const body = await c.req.json<Partial<LiteLLM_IncrementSpend>>();
+  const spendLogs = body.spend_logs_transactions ? parseSpendLogs(body.spend_logs_transactions) : [];
+
+  // Journal the logs first, so a failed write doesn't leave spend applied without its logs
+  if (spendLogs.length > 0) {
+    await journal.append(spendLogs);
+  }
+
+  addIncrements(body);
+
+  console.log(`Received spend increments. Pending: ${key_logs.size} keys, ${user_logs.size} users, ${team_logs.size} teams.`);
+
+  return c.json({ message: `Successfully stored spend increments and ${spendLogs.length} logs` });
+});
+
+
+// Route to read spend logs, newest first, with cursor pagination
+app.get('/spend/logs', async (c) => {
+  const filters = parseSpendLogsFilters((key) => c.req.query(key), c.req.queries('request_tags'));
+  const limit = parsePageSize(c.req.query('limit'));
+
+  const page = await findSpendLogs(prisma, filters, limit, c.req.query('cursor') || undefined);
+  return c.json(page);
+});
+
+// Route to aggregate spend, tokens and request count per day / model / key / team / end user
+app.get('/spend/summary', async (c) => {
+  const filters = parseSpendLogsFilters((key) => c.req.query(key), c.req.queries('request_tags'));
+  const groupBy = parseGroupBy(c.req.query('group_by'));
+
+  const data = await summarizeSpendLogs(prisma, filters, groupBy);
+  return c.json({ group_by: groupBy, data });
+});
 
 
 const port = 3000
 console.log(`Server is running on port ${port}`)
 
-serve({
-  fetch: app.fetch,
-  port
+journal.open().then(() => {
+  // Setup interval for attempting to flush the logs and spend increments
+  setInterval(() => flushLogsToDb(prisma, journal), FLUSH_INTERVAL);
+  setInterval(() => flushIncrementsToDb(prisma), FLUSH_INTERVAL);
+
+  serve({
+    fetch: app.fetch,
+    port
+  })
+}).catch((err) => {
+  console.error(`Failed to open the spend logs journal in ${JOURNAL_DIR}:`, err)
+  process.exit(1)
 })
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "LiteLLM_GuardrailPolicyTable" (
+    "policy_id" TEXT NOT NULL,
+    "policy_name" TEXT NOT NULL,
+    "description" TEXT,
+    "steps" JSONB NOT NULL DEFAULT '[]',
+    "conditions" JSONB NOT NULL DEFAULT '{}',
+    "attached_models" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "attached_tags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "default_on" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LiteLLM_GuardrailPolicyTable_pkey" PRIMARY KEY ("policy_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "LiteLLM_GuardrailPolicyTable_policy_name_key" ON "LiteLLM_GuardrailPolicyTable"("policy_name");
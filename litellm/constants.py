@@ -812,6 +812,10 @@ PROXY_BATCH_WRITE_AT = int(os.getenv("PROXY_BATCH_WRITE_AT", 10))  # in seconds
 DEFAULT_HEALTH_CHECK_INTERVAL = int(
     os.getenv("DEFAULT_HEALTH_CHECK_INTERVAL", 300)
 )  # 5 minutes
+DEFAULT_MCP_HEALTH_CHECK_INTERVAL = int(
+    os.getenv("DEFAULT_MCP_HEALTH_CHECK_INTERVAL", 300)
+)  # 5 minutes, 0 turns periodic checks off
+MCP_HEALTH_CHECK_HISTORY_SIZE = int(os.getenv("MCP_HEALTH_CHECK_HISTORY_SIZE", 100))
 PROMETHEUS_FALLBACK_STATS_SEND_TIME_HOURS = int(
     os.getenv("PROMETHEUS_FALLBACK_STATS_SEND_TIME_HOURS", 9)
 )
@@ -822,6 +826,9 @@ DEFAULT_SLACK_ALERTING_THRESHOLD = int(
     os.getenv("DEFAULT_SLACK_ALERTING_THRESHOLD", 300)
 )
 MAX_TEAM_LIST_LIMIT = int(os.getenv("MAX_TEAM_LIST_LIMIT", 20))
+CUSTOM_RULES_MAX_REGEX_TEXT_LENGTH = int(
+    os.getenv("CUSTOM_RULES_MAX_REGEX_TEXT_LENGTH", 100000)
+)  # longer texts are blocked by `custom_rules` guardrails with regex rules
 DEFAULT_PROMPT_INJECTION_SIMILARITY_THRESHOLD = float(
     os.getenv("DEFAULT_PROMPT_INJECTION_SIMILARITY_THRESHOLD", 0.7)
 )
@@ -4,7 +4,7 @@ LiteLLM Proxy uses this MCP Client to connnect to other MCP servers.
 import asyncio
 import base64
 from datetime import timedelta
-from typing import List, Optional
+from typing import Awaitable, Callable, Dict, List, Optional, TypeVar
 
 from mcp import ClientSession, StdioServerParameters
 from mcp.client.sse import sse_client
@@ -12,7 +12,13 @@ from mcp.client.stdio import stdio_client
 from mcp.client.streamable_http import streamablehttp_client
 from mcp.types import CallToolRequestParams as MCPCallToolRequestParams
 from mcp.types import CallToolResult as MCPCallToolResult
+from mcp.types import GetPromptResult as MCPGetPromptResult
+from mcp.types import Prompt as MCPPrompt
+from mcp.types import ReadResourceResult as MCPReadResourceResult
+from mcp.types import Resource as MCPResource
+from mcp.types import ResourceTemplate as MCPResourceTemplate
 from mcp.types import Tool as MCPTool
+from pydantic import AnyUrl
 
 from litellm.types.mcp import (
     MCPAuth,
@@ -22,6 +28,8 @@ from litellm.types.mcp import (
     MCPTransportType,
 )
 
+T = TypeVar("T")
+
 
 def to_basic_auth(auth_value: str) -> str:
     """Convert auth value to Basic Auth format."""
@@ -34,6 +42,7 @@ class MCPClient:
       SSE and HTTP transports
       Authentication via Bearer token, Basic Auth, or API Key
       Tool calling with error handling and result parsing
+      Listing and reading resources, listing and getting prompts
     """
 
     def __init__(
@@ -172,7 +181,7 @@ class MCPClient:
         if not self._mcp_auth_value:
             return {}
 
-        if self.auth_type == MCPAuth.bearer_token:
+        if self.auth_type in (MCPAuth.bearer_token, MCPAuth.oauth2):
             return {"Authorization": f"Bearer {self._mcp_auth_value}"}
         elif self.auth_type == MCPAuth.basic:
             return {"Authorization": f"Basic {self._mcp_auth_value}"}
@@ -221,5 +230,59 @@ class MCPClient:
         except Exception:
             await self.disconnect()
             raise
-        
 
+    async def _run_session_request(
+        self, request: Callable[[ClientSession], Awaitable[T]]
+    ) -> T:
+        """
+        Run a request on the session, connecting first if needed.
+        The connection is dropped if the request fails.
+        """
+        if not self._session:
+            await self.connect()
+        if self._session is None:
+            raise ValueError("Session is not initialized")
+
+        try:
+            return await request(self._session)
+        except asyncio.CancelledError:
+            await self.disconnect()
+            raise
+        except Exception:
+            await self.disconnect()
+            raise
+
+    async def list_resources(self) -> List[MCPResource]:
+        """List the resources the server exposes."""
+        result = await self._run_session_request(
+            lambda session: session.list_resources()
+        )
+        return result.resources
+
+    async def list_resource_templates(self) -> List[MCPResourceTemplate]:
+        """List the parameterized resources (URI templates) the server exposes."""
+        result = await self._run_session_request(
+            lambda session: session.list_resource_templates()
+        )
+        return result.resourceTemplates
+
+    async def read_resource(self, uri: str) -> MCPReadResourceResult:
+        """Read the contents of a resource."""
+        return await self._run_session_request(
+            lambda session: session.read_resource(AnyUrl(uri))
+        )
+
+    async def list_prompts(self) -> List[MCPPrompt]:
+        """List the prompts the server exposes."""
+        result = await self._run_session_request(
+            lambda session: session.list_prompts()
+        )
+        return result.prompts
+
+    async def get_prompt(
+        self, name: str, arguments: Optional[Dict[str, str]] = None
+    ) -> MCPGetPromptResult:
+        """Get a prompt with its arguments filled in."""
+        return await self._run_session_request(
+            lambda session: session.get_prompt(name=name, arguments=arguments)
+        )
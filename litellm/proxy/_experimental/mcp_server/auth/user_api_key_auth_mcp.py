@@ -1,4 +1,4 @@
-from typing import List, Optional, Tuple
+from typing import Dict, List, Optional, Tuple
 
 from starlette.datastructures import Headers
 from starlette.requests import Request
@@ -7,6 +7,7 @@ from starlette.types import Scope
 from litellm._logging import verbose_logger
 from litellm.proxy._types import LiteLLM_TeamTable, SpecialHeaders, UserAPIKeyAuth
 from litellm.proxy.auth.user_api_key_auth import user_api_key_auth
+from litellm.types.mcp import MCPToolPermission
 
 
 class MCPRequestHandler:
@@ -302,6 +303,94 @@ class MCPRequestHandler:
             verbose_logger.debug(f"Error getting MCP servers from access groups: {e}")
             return []
 
+    @staticmethod
+    async def get_mcp_tool_permissions(
+        user_api_key_auth: Optional[UserAPIKeyAuth] = None,
+    ) -> List[Dict[str, MCPToolPermission]]:
+        """
+        Tool allow / deny lists (keyed by server id) set on the key, its team and its organization.
+
+        A tool has to be allowed by every one of them, see `is_tool_allowed`. Resolve them once per request -
+        the team and organization come from the auth cache, only their object permissions are read from the DB.
+        """
+        from litellm.proxy.auth.auth_checks import get_org_object, get_team_object
+        from litellm.proxy.proxy_server import (
+            prisma_client,
+            proxy_logging_obj,
+            user_api_key_cache,
+        )
+
+        if user_api_key_auth is None:
+            return []
+
+        if prisma_client is None:
+            verbose_logger.debug("prisma_client is None")
+            return []
+
+        object_permission_ids: List[Optional[str]] = [
+            user_api_key_auth.object_permission_id
+        ]
+        if user_api_key_auth.team_id is not None:
+            try:
+                team_obj = await get_team_object(
+                    team_id=user_api_key_auth.team_id,
+                    prisma_client=prisma_client,
+                    user_api_key_cache=user_api_key_cache,
+                    parent_otel_span=user_api_key_auth.parent_otel_span,
+                    proxy_logging_obj=proxy_logging_obj,
+                )
+                object_permission_ids.append(team_obj.object_permission_id)
+            except Exception as e:
+                verbose_logger.debug(f"Error getting team object: {e}")
+        if user_api_key_auth.org_id is not None:
+            try:
+                org_obj = await get_org_object(
+                    org_id=user_api_key_auth.org_id,
+                    prisma_client=prisma_client,
+                    user_api_key_cache=user_api_key_cache,
+                    parent_otel_span=user_api_key_auth.parent_otel_span,
+                    proxy_logging_obj=proxy_logging_obj,
+                )
+                if org_obj is not None:
+                    object_permission_ids.append(org_obj.object_permission_id)
+            except Exception as e:
+                verbose_logger.debug(f"Error getting organization object: {e}")
+
+        object_permission_ids = [_id for _id in object_permission_ids if _id]
+        if len(object_permission_ids) == 0:
+            return []
+
+        object_permissions = (
+            await prisma_client.db.litellm_objectpermissiontable.find_many(
+                where={"object_permission_id": {"in": object_permission_ids}},
+            )
+        )
+        return [
+            object_permission.mcp_tool_permissions
+            for object_permission in object_permissions
+            if object_permission.mcp_tool_permissions
+        ]
+
+    @staticmethod
+    def is_tool_allowed(
+        tool_permissions: List[Dict[str, MCPToolPermission]],
+        server_id: str,
+        tool_name: str,
+    ) -> bool:
+        """
+        Check a tool (by its original, unprefixed name) against every allow / deny list that applies to the request
+        """
+        for server_tool_permissions in tool_permissions:
+            tool_permission = server_tool_permissions.get(server_id)
+            if not tool_permission:
+                continue
+            allowed_tools = tool_permission.get("allowed_tools")
+            if allowed_tools is not None and tool_name not in allowed_tools:
+                return False
+            if tool_name in (tool_permission.get("denied_tools") or []):
+                return False
+        return True
+
     @staticmethod
     async def get_mcp_access_groups(
         user_api_key_auth: Optional[UserAPIKeyAuth] = None,
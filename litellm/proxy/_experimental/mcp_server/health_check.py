@@ -0,0 +1,132 @@
+"""
+Health checks for MCP servers
+
+Connects to each registered MCP server and lists its tools, keeping a bounded in-memory history
+of the results per server (latency, tools count, last error). Runs on demand from the dashboard, and
+periodically in the background every `general_settings.mcp_health_check_interval` seconds (5 minutes by default).
+"""
+
+import asyncio
+import time
+from collections import deque
+from typing import Deque, Dict, List, Optional
+
+from litellm._logging import verbose_logger
+from litellm.constants import (
+    HEALTH_CHECK_TIMEOUT_SECONDS,
+    MCP_HEALTH_CHECK_HISTORY_SIZE,
+)
+from litellm.proxy._experimental.mcp_server.mcp_server_manager import (
+    global_mcp_server_manager,
+)
+from litellm.types.mcp import MCPAuth
+from litellm.types.mcp_server.mcp_server_manager import (
+    MCPServer,
+    MCPServerHealthCheck,
+)
+
+
+def _requires_user_credentials(server: MCPServer) -> bool:
+    """
+    Servers whose credentials only arrive per request (x-mcp-auth) can't be checked by the proxy itself
+    """
+    if server.auth_type is None or server.auth_type == MCPAuth.none:
+        return False
+    if server.authentication_token:
+        return False
+    if server.auth_type == MCPAuth.oauth2:
+        oauth2_config = (server.mcp_info or {}).get("oauth2") or {}
+        return oauth2_config.get("token_mode") != "shared"
+    return True
+
+
+class MCPServerHealthMonitor:
+    def __init__(self, history_size: int = MCP_HEALTH_CHECK_HISTORY_SIZE):
+        self.history_size = history_size
+        self.history: Dict[str, Deque[MCPServerHealthCheck]] = {}
+        # Seconds between periodic checks, None while they're off
+        self.check_interval: Optional[int] = None
+
+    async def check_server(self, server: MCPServer) -> MCPServerHealthCheck:
+        """
+        Check a single server and record the result in its history
+        """
+        checked_at = time.time()
+        if _requires_user_credentials(server):
+            result = MCPServerHealthCheck(
+                status="skipped",
+                checked_at=checked_at,
+                latency_ms=None,
+                tools_count=None,
+                error="Requires per-user credentials",
+            )
+        else:
+            start = time.monotonic()
+            try:
+                tools_count = await asyncio.wait_for(
+                    self._list_tools_count(server),
+                    timeout=HEALTH_CHECK_TIMEOUT_SECONDS,
+                )
+                result = MCPServerHealthCheck(
+                    status="healthy",
+                    checked_at=checked_at,
+                    latency_ms=round((time.monotonic() - start) * 1000, 2),
+                    tools_count=tools_count,
+                    error=None,
+                )
+            except Exception as e:
+                verbose_logger.debug(
+                    f"MCP health check failed for {server.name}: {str(e)}"
+                )
+                result = MCPServerHealthCheck(
+                    status="unhealthy",
+                    checked_at=checked_at,
+                    latency_ms=round((time.monotonic() - start) * 1000, 2),
+                    tools_count=None,
+                    error=str(e) or type(e).__name__,
+                )
+
+        self.history.setdefault(
+            server.server_id, deque(maxlen=self.history_size)
+        ).append(result)
+        return result
+
+    async def check_all_servers(self) -> Dict[str, MCPServerHealthCheck]:
+        servers = list(global_mcp_server_manager.get_registry().values())
+        results = await asyncio.gather(
+            *[self.check_server(server) for server in servers]
+        )
+        return {
+            server.server_id: result for server, result in zip(servers, results)
+        }
+
+    def get_history(self, server_id: str) -> List[MCPServerHealthCheck]:
+        """
+        Health check results for a server, oldest first
+        """
+        return list(self.history.get(server_id, []))
+
+    async def run_periodic_health_checks(self, interval: int):
+        self.check_interval = interval
+        while True:
+            try:
+                await self.check_all_servers()
+            except Exception as e:
+                verbose_logger.exception(
+                    f"Error running MCP server health checks: {str(e)}"
+                )
+            await asyncio.sleep(interval)
+
+    async def _list_tools_count(self, server: MCPServer) -> int:
+        client = global_mcp_server_manager._create_mcp_client(
+            server=server,
+            mcp_auth_header=await global_mcp_server_manager._get_oauth2_auth_header(
+                server
+            ),
+        )
+        async with client:
+            tools = await client.list_tools()
+        return len(tools)
+
+
+mcp_server_health_monitor = MCPServerHealthMonitor()
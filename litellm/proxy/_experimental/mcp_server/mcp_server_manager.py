@@ -12,7 +12,8 @@ import json
 from typing import Any, Dict, List, Optional, cast
 
 from mcp.types import CallToolRequestParams as MCPCallToolRequestParams
-from mcp.types import CallToolResult
+from mcp.types import CallToolResult, GetPromptResult, Prompt, ReadResourceResult
+from mcp.types import Resource, ResourceTemplate
 from mcp.types import Tool as MCPTool
 
 from litellm._logging import verbose_logger
@@ -20,6 +21,7 @@ from litellm.experimental_mcp_client.client import MCPClient
 from litellm.proxy._experimental.mcp_server.auth.user_api_key_auth_mcp import (
     MCPRequestHandler,
 )
+from litellm.proxy._experimental.mcp_server.oauth import mcp_oauth2_token_store
 from litellm.proxy._experimental.mcp_server.utils import (
     add_server_prefix_to_tool_name,
     get_server_name_prefix_tool_mcp,
@@ -36,7 +38,7 @@ from litellm.proxy._types import (
     MCPTransportType,
     UserAPIKeyAuth,
 )
-from litellm.types.mcp import MCPStdioConfig
+from litellm.types.mcp import MCPAuth, MCPStdioConfig, MCPToolPermission
 from litellm.types.mcp_server.mcp_server_manager import MCPInfo, MCPServer
 
 
@@ -175,6 +177,7 @@ class MCPServerManager:
                     server_name=mcp_server.alias or mcp_server.server_id,
                     description=mcp_server.description,
                     mcp_server_cost_info=_mcp_info.get("mcp_server_cost_info", None),
+                    oauth2=_mcp_info.get("oauth2", None),
                 ),
                 # Stdio-specific fields
                 command=getattr(mcp_server, 'command', None),
@@ -207,14 +210,23 @@ class MCPServerManager:
             return list(self.get_registry().keys())
 
 
-    async def get_tools_for_server(self, server_id: str) -> List[MCPTool]:
+    async def get_tools_for_server(
+        self,
+        server_id: str,
+        user_api_key_auth: Optional[UserAPIKeyAuth] = None,
+    ) -> List[MCPTool]:
         """
         Get the tools for a given server
         """
         server = self.get_mcp_server_by_id(server_id)
         if server is None:
             return []
-        return await self._get_tools_from_server(server)
+        return await self._get_tools_from_server(
+            server,
+            tool_permissions=await MCPRequestHandler.get_mcp_tool_permissions(
+                user_api_key_auth
+            ),
+        )
         
 
     async def list_tools(
@@ -229,6 +241,9 @@ class MCPServerManager:
             List[MCPTool]: Combined list of tools from all servers
         """
         allowed_mcp_servers = await self.get_allowed_mcp_servers(user_api_key_auth)
+        tool_permissions = await MCPRequestHandler.get_mcp_tool_permissions(
+            user_api_key_auth
+        )
 
         list_tools_result: List[MCPTool] = []
         verbose_logger.debug("SERVER MANAGER LISTING TOOLS")
@@ -242,6 +257,7 @@ class MCPServerManager:
                 tools = await self._get_tools_from_server(
                     server=server,
                     mcp_auth_header=mcp_auth_header,
+                    tool_permissions=tool_permissions,
                 )
                 list_tools_result.extend(tools)
             except Exception as e:
@@ -254,6 +270,21 @@ class MCPServerManager:
     #########################################################
     # Methods that call the upstream MCP servers
     #########################################################
+    async def _get_oauth2_auth_header(
+        self, server: MCPServer, mcp_auth_header: Optional[str] = None
+    ) -> Optional[str]:
+        """
+        Per-user OAuth tokens arrive in `mcp_auth_header` like any other credential.
+
+        For OAuth2 servers in shared token mode without one, use the token an admin authorized for everyone.
+        """
+        if mcp_auth_header or server.auth_type != MCPAuth.oauth2:
+            return mcp_auth_header
+        oauth2_config = (server.mcp_info or {}).get("oauth2") or {}
+        if oauth2_config.get("token_mode") != "shared":
+            return None
+        return await mcp_oauth2_token_store.get_access_token(server)
+
     def _create_mcp_client(self, server: MCPServer, mcp_auth_header: Optional[str] = None) -> MCPClient:
         """
         Create an MCPClient instance for the given server.
@@ -297,13 +328,19 @@ class MCPServerManager:
                 timeout=60.0,
             )
 
-    async def _get_tools_from_server(self, server: MCPServer, mcp_auth_header: Optional[str] = None) -> List[MCPTool]:
+    async def _get_tools_from_server(
+        self,
+        server: MCPServer,
+        mcp_auth_header: Optional[str] = None,
+        tool_permissions: Optional[List[Dict[str, MCPToolPermission]]] = None,
+    ) -> List[MCPTool]:
         """
         Helper method to get tools from a single MCP server with prefixed names.
 
         Args:
             server (MCPServer): The server to query tools from
             mcp_auth_header: Optional auth header for MCP server
+            tool_permissions: If set, leave out the tools they don't allow, see `MCPRequestHandler.get_mcp_tool_permissions`
 
         Returns:
             List[MCPTool]: List of tools available on the server with prefixed names
@@ -315,7 +352,9 @@ class MCPServerManager:
         try:
             client = self._create_mcp_client(
                 server=server,
-                mcp_auth_header=mcp_auth_header,
+                mcp_auth_header=await self._get_oauth2_auth_header(
+                    server, mcp_auth_header
+                ),
             )
 
             # Create a task for the client operations to ensure proper cancellation handling
@@ -331,6 +370,10 @@ class MCPServerManager:
                 # Create new tools with prefixed names
                 prefixed_tools = []
                 for tool in tools:
+                    if not MCPRequestHandler.is_tool_allowed(
+                        tool_permissions or [], server.server_id, tool.name
+                    ):
+                        continue
                     # Create prefixed tool name
                     prefixed_name = add_server_prefix_to_tool_name(tool.name, server.name)
 
@@ -397,7 +440,9 @@ class MCPServerManager:
 
         client = self._create_mcp_client(
             server=mcp_server,
-            mcp_auth_header=mcp_auth_header,
+            mcp_auth_header=await self._get_oauth2_auth_header(
+                mcp_server, mcp_auth_header
+            ),
         )
         async with client:
             # Use the original tool name (without prefix) for the actual call
@@ -407,6 +452,85 @@ class MCPServerManager:
             )
             return await client.call_tool(call_tool_params)
 
+    async def get_resources_from_server(
+        self, server: MCPServer, mcp_auth_header: Optional[str] = None
+    ) -> List[Resource]:
+        """
+        List the resources exposed by a single MCP server
+        """
+        client = self._create_mcp_client(
+            server=server,
+            mcp_auth_header=await self._get_oauth2_auth_header(
+                server, mcp_auth_header
+            ),
+        )
+        async with client:
+            return await client.list_resources()
+
+    async def get_resource_templates_from_server(
+        self, server: MCPServer, mcp_auth_header: Optional[str] = None
+    ) -> List[ResourceTemplate]:
+        """
+        List the resource templates exposed by a single MCP server
+        """
+        client = self._create_mcp_client(
+            server=server,
+            mcp_auth_header=await self._get_oauth2_auth_header(
+                server, mcp_auth_header
+            ),
+        )
+        async with client:
+            return await client.list_resource_templates()
+
+    async def read_resource_from_server(
+        self, server: MCPServer, uri: str, mcp_auth_header: Optional[str] = None
+    ) -> ReadResourceResult:
+        """
+        Read a resource from a single MCP server
+        """
+        client = self._create_mcp_client(
+            server=server,
+            mcp_auth_header=await self._get_oauth2_auth_header(
+                server, mcp_auth_header
+            ),
+        )
+        async with client:
+            return await client.read_resource(uri)
+
+    async def get_prompts_from_server(
+        self, server: MCPServer, mcp_auth_header: Optional[str] = None
+    ) -> List[Prompt]:
+        """
+        List the prompts exposed by a single MCP server
+        """
+        client = self._create_mcp_client(
+            server=server,
+            mcp_auth_header=await self._get_oauth2_auth_header(
+                server, mcp_auth_header
+            ),
+        )
+        async with client:
+            return await client.list_prompts()
+
+    async def get_prompt_from_server(
+        self,
+        server: MCPServer,
+        name: str,
+        arguments: Optional[Dict[str, str]] = None,
+        mcp_auth_header: Optional[str] = None,
+    ) -> GetPromptResult:
+        """
+        Get a prompt with its arguments filled in from a single MCP server
+        """
+        client = self._create_mcp_client(
+            server=server,
+            mcp_auth_header=await self._get_oauth2_auth_header(
+                server, mcp_auth_header
+            ),
+        )
+        async with client:
+            return await client.get_prompt(name=name, arguments=arguments)
+
     #########################################################
     # End of Methods that call the upstream MCP servers
     #########################################################
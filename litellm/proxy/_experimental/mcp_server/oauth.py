@@ -0,0 +1,318 @@
+"""
+OAuth 2.1 support for MCP servers
+
+- Discovers the authorization server for an MCP server (RFC 9728 protected resource metadata -> RFC 8414 authorization server metadata)
+- Registers the dashboard as a public client (RFC 7591 dynamic client registration)
+- Exchanges authorization codes / refresh tokens with the authorization server's token endpoint
+- Stores the admin-authorized token for servers in `shared` token mode
+
+The authorization-code + PKCE redirect itself runs in the dashboard, the proxy only makes the server-to-server calls
+the browser can't (most authorization servers don't allow CORS on their metadata and token endpoints).
+"""
+
+import asyncio
+import json
+import time
+from typing import Any, Dict, List, Optional
+from urllib.parse import urlparse
+
+import httpx
+
+from litellm._logging import verbose_logger
+from litellm.llms.custom_httpx.http_handler import (
+    get_async_httpx_client,
+    httpxSpecialProvider,
+)
+from litellm.types.mcp_server.mcp_server_manager import MCPServer
+
+# LiteLLM_Config row of a server's shared token: f"{prefix}{server_id}"
+MCP_OAUTH2_SHARED_TOKEN_PARAM_NAME_PREFIX = "mcp_oauth2_shared_token:"
+
+# Refresh shared tokens this many seconds before they expire
+MCP_OAUTH2_TOKEN_REFRESH_BUFFER_SECONDS = 60
+
+
+def _origin(url: str) -> str:
+    parsed = urlparse(url)
+    return f"{parsed.scheme}://{parsed.netloc}"
+
+
+def _well_known_urls(url: str, suffix: str) -> List[str]:
+    """
+    Well-known URLs to try for `url`, most specific first.
+
+    RFC 8414 / RFC 9728 insert the well-known segment between the host and the path,
+    e.g. https://example.com/mcp -> https://example.com/.well-known/<suffix>/mcp
+    """
+    parsed = urlparse(url)
+    path = parsed.path.rstrip("/")
+    urls = []
+    if path:
+        urls.append(f"{_origin(url)}/.well-known/{suffix}{path}")
+    urls.append(f"{_origin(url)}/.well-known/{suffix}")
+    return urls
+
+
+async def _get_json(url: str) -> Optional[Dict[str, Any]]:
+    client = get_async_httpx_client(llm_provider=httpxSpecialProvider.MCP_OAUTH)
+    try:
+        response = await client.get(url, headers={"Accept": "application/json"})
+        response.raise_for_status()
+        return response.json()
+    except Exception as e:
+        verbose_logger.debug(f"No OAuth metadata at {url}: {e}")
+        return None
+
+
+def _error_detail(e: httpx.HTTPStatusError) -> str:
+    """
+    OAuth errors come back as {"error": "...", "error_description": "..."}
+    """
+    try:
+        body = e.response.json()
+        return body.get("error_description") or body.get("error") or e.response.text
+    except Exception:
+        return getattr(e, "text", None) or str(e)
+
+
+async def discover_oauth2_metadata(server_url: str) -> Dict[str, Any]:
+    """
+    Find the authorization server for an MCP server.
+
+    1. Protected resource metadata (RFC 9728) names the authorization server and the resource indicator
+    2. Authorization server metadata (RFC 8414, falling back to OpenID Connect discovery) gives the endpoints
+    3. If neither exists, use the default endpoints from the 2025-03-26 MCP spec, relative to the server's origin
+    """
+    resource: Optional[str] = None
+    issuer = _origin(server_url)
+    for url in _well_known_urls(server_url, "oauth-protected-resource"):
+        resource_metadata = await _get_json(url)
+        if resource_metadata and resource_metadata.get("authorization_servers"):
+            issuer = resource_metadata["authorization_servers"][0]
+            resource = resource_metadata.get("resource")
+            break
+
+    metadata: Optional[Dict[str, Any]] = None
+    for url in _well_known_urls(issuer, "oauth-authorization-server") + _well_known_urls(
+        issuer, "openid-configuration"
+    ):
+        metadata = await _get_json(url)
+        if metadata and metadata.get("authorization_endpoint"):
+            break
+        metadata = None
+
+    if metadata is None:
+        return {
+            "issuer": issuer,
+            "authorization_endpoint": f"{issuer}/authorize",
+            "token_endpoint": f"{issuer}/token",
+            "registration_endpoint": f"{issuer}/register",
+            "scopes_supported": [],
+            "code_challenge_methods_supported": ["S256"],
+            "resource": resource,
+            "discovered": False,
+        }
+
+    return {
+        "issuer": metadata.get("issuer", issuer),
+        "authorization_endpoint": metadata["authorization_endpoint"],
+        "token_endpoint": metadata.get("token_endpoint"),
+        "registration_endpoint": metadata.get("registration_endpoint"),
+        "scopes_supported": metadata.get("scopes_supported") or [],
+        "code_challenge_methods_supported": metadata.get(
+            "code_challenge_methods_supported"
+        )
+        or [],
+        "resource": resource,
+        "discovered": True,
+    }
+
+
+async def register_oauth2_client(
+    registration_endpoint: str, redirect_uri: str, client_name: str
+) -> Dict[str, Any]:
+    """
+    Register a public client (no secret, PKCE only) with the authorization server
+    """
+    client = get_async_httpx_client(llm_provider=httpxSpecialProvider.MCP_OAUTH)
+    try:
+        response = await client.post(
+            registration_endpoint,
+            json={
+                "client_name": client_name,
+                "redirect_uris": [redirect_uri],
+                "grant_types": ["authorization_code", "refresh_token"],
+                "response_types": ["code"],
+                "token_endpoint_auth_method": "none",
+            },
+            headers={"Accept": "application/json"},
+        )
+    except httpx.HTTPStatusError as e:
+        raise ValueError(f"Client registration failed: {_error_detail(e)}")
+    return response.json()
+
+
+async def request_oauth2_token(
+    token_endpoint: str, data: Dict[str, str]
+) -> Dict[str, Any]:
+    """
+    Call the token endpoint (authorization_code or refresh_token grant).
+
+    Adds `expires_at` (unix seconds) so callers don't need to track when the token was issued.
+    """
+    client = get_async_httpx_client(llm_provider=httpxSpecialProvider.MCP_OAUTH)
+    try:
+        response = await client.post(
+            token_endpoint,
+            data={k: v for k, v in data.items() if v is not None},
+            headers={"Accept": "application/json"},
+        )
+    except httpx.HTTPStatusError as e:
+        raise ValueError(f"Token request failed: {_error_detail(e)}")
+
+    token = response.json()
+    if token.get("expires_in") is not None:
+        token["expires_at"] = int(time.time()) + int(token["expires_in"])
+    return token
+
+
+def _needs_refresh(token: Dict[str, Any]) -> bool:
+    expires_at = token.get("expires_at")
+    return (
+        expires_at is not None
+        and expires_at - MCP_OAUTH2_TOKEN_REFRESH_BUFFER_SECONDS <= time.time()
+        and bool(token.get("refresh_token"))
+    )
+
+
+class MCPOAuth2TokenStore:
+    """
+    Tokens for MCP servers in `shared` token mode, keyed by server_id.
+
+    Each server's token is its own (encrypted) LiteLLM_Config row, so tokens survive restarts and are
+    shared across proxy instances. `tokens` caches them in memory, and is the only copy when there's no DB.
+    """
+
+    def __init__(self):
+        self.tokens: Dict[str, Dict[str, Any]] = {}
+        # One refresh at a time per server - a rotated refresh token can only be used once
+        self._refresh_locks: Dict[str, asyncio.Lock] = {}
+
+    async def get_token(self, server_id: str) -> Optional[Dict[str, Any]]:
+        """
+        The stored token, read from the DB - another proxy instance may have refreshed or removed it
+        """
+        from litellm.proxy.common_utils.encrypt_decrypt_utils import (
+            decrypt_value_helper,
+        )
+        from litellm.proxy.proxy_server import prisma_client
+
+        if prisma_client is None:
+            return self.tokens.get(server_id)
+
+        row = await prisma_client.db.litellm_config.find_unique(
+            where={"param_name": MCP_OAUTH2_SHARED_TOKEN_PARAM_NAME_PREFIX + server_id}
+        )
+        if row is None or row.param_value is None:
+            self.tokens.pop(server_id, None)
+            return None
+        token = (
+            json.loads(row.param_value)
+            if isinstance(row.param_value, str)
+            else dict(row.param_value)
+        )
+        for key in ("access_token", "refresh_token"):
+            if token.get(key):
+                token[key] = decrypt_value_helper(token[key])
+        self.tokens[server_id] = token
+        return token
+
+    async def save_token(self, server_id: str, token: Dict[str, Any]):
+        from litellm.proxy.common_utils.encrypt_decrypt_utils import (
+            encrypt_value_helper,
+        )
+        from litellm.proxy.proxy_server import prisma_client
+
+        stored = {
+            "access_token": token["access_token"],
+            "refresh_token": token.get("refresh_token"),
+            "expires_at": token.get("expires_at"),
+            "scope": token.get("scope"),
+        }
+        self.tokens[server_id] = stored
+        if prisma_client is None:
+            return
+
+        param_name = MCP_OAUTH2_SHARED_TOKEN_PARAM_NAME_PREFIX + server_id
+        param_value = json.dumps(
+            {
+                **stored,
+                **{
+                    key: encrypt_value_helper(stored[key])
+                    for key in ("access_token", "refresh_token")
+                    if stored.get(key)
+                },
+            }
+        )
+        await prisma_client.db.litellm_config.upsert(
+            where={"param_name": param_name},
+            data={
+                "create": {"param_name": param_name, "param_value": param_value},
+                "update": {"param_value": param_value},
+            },
+        )
+
+    async def delete_token(self, server_id: str):
+        from litellm.proxy.proxy_server import prisma_client
+
+        self.tokens.pop(server_id, None)
+        if prisma_client is not None:
+            await prisma_client.db.litellm_config.delete_many(
+                where={"param_name": MCP_OAUTH2_SHARED_TOKEN_PARAM_NAME_PREFIX + server_id}
+            )
+
+    async def get_access_token(self, server: MCPServer) -> Optional[str]:
+        """
+        Shared access token for `server`, refreshed first if it's about to expire
+        """
+        token = self.tokens.get(server.server_id) or await self.get_token(
+            server.server_id
+        )
+        if token is None:
+            return None
+        if not _needs_refresh(token):
+            return token["access_token"]
+
+        lock = self._refresh_locks.setdefault(server.server_id, asyncio.Lock())
+        async with lock:
+            # Re-read it - a request we waited on, or another proxy instance, may have refreshed it already
+            token = await self.get_token(server.server_id)
+            if token is None:
+                return None
+            if not _needs_refresh(token):
+                return token["access_token"]
+
+            oauth2_config = (server.mcp_info or {}).get("oauth2") or {}
+            try:
+                refreshed = await request_oauth2_token(
+                    token_endpoint=oauth2_config["token_endpoint"],
+                    data={
+                        "grant_type": "refresh_token",
+                        "refresh_token": token["refresh_token"],
+                        "client_id": oauth2_config["client_id"],
+                        "resource": oauth2_config.get("resource"),
+                    },
+                )
+            except Exception as e:
+                verbose_logger.warning(
+                    f"Failed to refresh OAuth token for MCP server {server.name}: {e}"
+                )
+                return token["access_token"]
+
+            # Authorization servers may or may not rotate the refresh token
+            refreshed.setdefault("refresh_token", token["refresh_token"])
+            await self.save_token(server.server_id, refreshed)
+            return refreshed["access_token"]
+
+
+mcp_oauth2_token_store = MCPOAuth2TokenStore()
@@ -1,10 +1,12 @@
 import importlib
-from typing import Optional
+from datetime import datetime
+from typing import Dict, Literal, Optional
 
-from fastapi import APIRouter, Depends, Query, Request
+from fastapi import APIRouter, Depends, HTTPException, Query, Request, status
+from pydantic import BaseModel
 
 from litellm._logging import verbose_logger
-from litellm.proxy._types import UserAPIKeyAuth
+from litellm.proxy._types import LitellmUserRoles, UserAPIKeyAuth
 from litellm.proxy.auth.user_api_key_auth import user_api_key_auth
 
 MCP_AVAILABLE: bool = True
@@ -20,7 +22,62 @@ router = APIRouter(
     tags=["mcp"],
 )
 
+
+class ReadMCPResourceRequest(BaseModel):
+    server_id: str
+    uri: str
+
+
+class GetMCPPromptRequest(BaseModel):
+    server_id: str
+    name: str
+    arguments: Optional[Dict[str, str]] = None
+
+
+class RegisterMCPOAuthClientRequest(BaseModel):
+    registration_endpoint: str
+    redirect_uri: str
+    client_name: str = "LiteLLM"
+
+
+class MCPOAuthTokenRequest(BaseModel):
+    """
+    Either `server_id` (use the server's saved OAuth config) or `token_endpoint` + `client_id`
+    (admin-only, while adding a server that isn't saved yet)
+    """
+
+    grant_type: Literal["authorization_code", "refresh_token"]
+    server_id: Optional[str] = None
+    token_endpoint: Optional[str] = None
+    client_id: Optional[str] = None
+    resource: Optional[str] = None
+    code: Optional[str] = None
+    code_verifier: Optional[str] = None
+    redirect_uri: Optional[str] = None
+    refresh_token: Optional[str] = None
+
+
+class SaveMCPOAuthSharedTokenRequest(BaseModel):
+    server_id: str
+    access_token: str
+    refresh_token: Optional[str] = None
+    expires_at: Optional[int] = None
+    scope: Optional[str] = None
+
+
+def _require_proxy_admin(user_api_key_dict: UserAPIKeyAuth, action: str):
+    if LitellmUserRoles.PROXY_ADMIN != user_api_key_dict.user_role:
+        raise HTTPException(
+            status_code=status.HTTP_403_FORBIDDEN,
+            detail={
+                "error": f"User does not have permission to {action}. Only PROXY_ADMINs can do this."
+            },
+        )
+
 if MCP_AVAILABLE:
+    from litellm.proxy._experimental.mcp_server.auth.user_api_key_auth_mcp import (
+        MCPRequestHandler,
+    )
     from litellm.proxy._experimental.mcp_server.mcp_server_manager import (
         global_mcp_server_manager,
     )
@@ -34,6 +91,7 @@ if MCP_AVAILABLE:
     ########################################################
     @router.get("/tools/list", dependencies=[Depends(user_api_key_auth)])
     async def list_tool_rest_api(
+        request: Request,
         server_id: Optional[str] = Query(
             None, description="The server id to list tools for"
         ),
@@ -62,6 +120,9 @@ if MCP_AVAILABLE:
         try:
             list_tools_result = []
             error_message = None
+            tool_permissions = await MCPRequestHandler.get_mcp_tool_permissions(
+                user_api_key_dict
+            )
             
             # If server_id is specified, only query that specific server
             if server_id:
@@ -75,6 +136,10 @@ if MCP_AVAILABLE:
                 try:
                     tools = await global_mcp_server_manager._get_tools_from_server(
                         server=server,
+                        mcp_auth_header=MCPRequestHandler._get_mcp_auth_header_from_headers(
+                            request.headers
+                        ),
+                        tool_permissions=tool_permissions,
                     )
                     for tool in tools:
                         list_tools_result.append(
@@ -99,6 +164,7 @@ if MCP_AVAILABLE:
                     try:
                         tools = await global_mcp_server_manager._get_tools_from_server(
                             server=server,
+                            tool_permissions=tool_permissions,
                         )
                         for tool in tools:
                             list_tools_result.append(
@@ -148,8 +214,427 @@ if MCP_AVAILABLE:
             user_api_key_dict=user_api_key_dict,
             proxy_config=proxy_config,
         )
-        return await call_mcp_tool(**data)
-    
+        return await call_mcp_tool(user_api_key_auth=user_api_key_dict, **data)
+
+    ########################################################
+    # MCP resources and prompts routes
+    # Unlike tools, these are always scoped to a single server - errors are returned
+    # as HTTP status codes: 404 unknown server, 403 no access, 500 the server failed
+    ########################################################
+    def _get_mcp_server_or_404(server_id: str):
+        server = global_mcp_server_manager.get_mcp_server_by_id(server_id)
+        if server is None:
+            raise HTTPException(
+                status_code=404, detail=f"Server with id {server_id} not found"
+            )
+        return server
+
+    async def _require_mcp_server_access(
+        server_id: str, user_api_key_dict: UserAPIKeyAuth
+    ):
+        """
+        403 unless the key / team is allowed to use the server
+        """
+        allowed_server_ids = await global_mcp_server_manager.get_allowed_mcp_servers(
+            user_api_key_dict
+        )
+        if server_id not in allowed_server_ids:
+            raise HTTPException(
+                status_code=status.HTTP_403_FORBIDDEN,
+                detail={
+                    "error": f"User does not have access to MCP server {server_id}"
+                },
+            )
+
+    @router.get("/resources/list", dependencies=[Depends(user_api_key_auth)])
+    async def list_resources_rest_api(
+        request: Request,
+        server_id: str = Query(..., description="The server id to list resources for"),
+        user_api_key_dict: UserAPIKeyAuth = Depends(user_api_key_auth),
+    ) -> dict:
+        """
+        List the resources and resource templates exposed by an MCP server.
+
+        Example response:
+        {
+            "resources": [
+                {"uri": "docs://getting-started", "name": "Getting Started", "mimeType": "text/markdown"}
+            ],
+            "resource_templates": [
+                {"uriTemplate": "docs://pages/{slug}", "name": "Documentation page"}
+            ],
+            "error": null,
+            "message": "Successfully retrieved resources"
+        }
+        """
+        server = _get_mcp_server_or_404(server_id)
+        await _require_mcp_server_access(server_id, user_api_key_dict)
+        mcp_auth_header = MCPRequestHandler._get_mcp_auth_header_from_headers(
+            request.headers
+        )
+        try:
+            resources = await global_mcp_server_manager.get_resources_from_server(
+                server=server, mcp_auth_header=mcp_auth_header
+            )
+        except Exception as e:
+            verbose_logger.exception(
+                f"Error listing resources from {server.name}: {e}"
+            )
+            raise HTTPException(
+                status_code=500,
+                detail=f"Failed to get resources from server {server.name}: {str(e)}",
+            )
+
+        # Templates are optional - servers with only static resources often don't implement them
+        try:
+            resource_templates = (
+                await global_mcp_server_manager.get_resource_templates_from_server(
+                    server=server, mcp_auth_header=mcp_auth_header
+                )
+            )
+        except Exception as e:
+            verbose_logger.debug(
+                f"Error listing resource templates from {server.name}: {e}"
+            )
+            resource_templates = []
+
+        return {
+            "resources": resources,
+            "resource_templates": resource_templates,
+            "error": None,
+            "message": "Successfully retrieved resources",
+        }
+
+    @router.post("/resources/read", dependencies=[Depends(user_api_key_auth)])
+    async def read_resource_rest_api(
+        request: Request,
+        data: ReadMCPResourceRequest,
+        user_api_key_dict: UserAPIKeyAuth = Depends(user_api_key_auth),
+    ):
+        """
+        Read a resource from an MCP server. Returns the MCP `ReadResourceResult`, i.e. `{"contents": [...]}`
+        """
+        server = _get_mcp_server_or_404(data.server_id)
+        await _require_mcp_server_access(data.server_id, user_api_key_dict)
+        try:
+            return await global_mcp_server_manager.read_resource_from_server(
+                server=server,
+                uri=data.uri,
+                mcp_auth_header=MCPRequestHandler._get_mcp_auth_header_from_headers(
+                    request.headers
+                ),
+            )
+        except Exception as e:
+            verbose_logger.exception(
+                f"Error reading resource {data.uri} from {server.name}: {e}"
+            )
+            raise HTTPException(
+                status_code=500,
+                detail=f"Failed to read resource {data.uri}: {str(e)}",
+            )
+
+    @router.get("/prompts/list", dependencies=[Depends(user_api_key_auth)])
+    async def list_prompts_rest_api(
+        request: Request,
+        server_id: str = Query(..., description="The server id to list prompts for"),
+        user_api_key_dict: UserAPIKeyAuth = Depends(user_api_key_auth),
+    ) -> dict:
+        """
+        List the prompts exposed by an MCP server, with the arguments each one takes.
+        """
+        server = _get_mcp_server_or_404(server_id)
+        await _require_mcp_server_access(server_id, user_api_key_dict)
+        try:
+            prompts = await global_mcp_server_manager.get_prompts_from_server(
+                server=server,
+                mcp_auth_header=MCPRequestHandler._get_mcp_auth_header_from_headers(
+                    request.headers
+                ),
+            )
+        except Exception as e:
+            verbose_logger.exception(f"Error listing prompts from {server.name}: {e}")
+            raise HTTPException(
+                status_code=500,
+                detail=f"Failed to get prompts from server {server.name}: {str(e)}",
+            )
+        return {
+            "prompts": prompts,
+            "error": None,
+            "message": "Successfully retrieved prompts",
+        }
+
+    @router.post("/prompts/get", dependencies=[Depends(user_api_key_auth)])
+    async def get_prompt_rest_api(
+        request: Request,
+        data: GetMCPPromptRequest,
+        user_api_key_dict: UserAPIKeyAuth = Depends(user_api_key_auth),
+    ):
+        """
+        Get a prompt from an MCP server with its arguments filled in. Returns the MCP `GetPromptResult`.
+        """
+        server = _get_mcp_server_or_404(data.server_id)
+        await _require_mcp_server_access(data.server_id, user_api_key_dict)
+        try:
+            return await global_mcp_server_manager.get_prompt_from_server(
+                server=server,
+                name=data.name,
+                arguments=data.arguments,
+                mcp_auth_header=MCPRequestHandler._get_mcp_auth_header_from_headers(
+                    request.headers
+                ),
+            )
+        except Exception as e:
+            verbose_logger.exception(
+                f"Error getting prompt {data.name} from {server.name}: {e}"
+            )
+            raise HTTPException(
+                status_code=500,
+                detail=f"Failed to get prompt {data.name}: {str(e)}",
+            )
+
+    ########################################################
+    # MCP OAuth routes
+    # The dashboard runs the authorization-code + PKCE redirect, these routes make the
+    # server-to-server calls (discovery, client registration, token exchange) for it
+    ########################################################
+    from litellm.proxy._experimental.mcp_server.oauth import (
+        discover_oauth2_metadata,
+        mcp_oauth2_token_store,
+        register_oauth2_client,
+        request_oauth2_token,
+    )
+
+    @router.get("/oauth/discover")
+    async def discover_oauth_rest_api(
+        url: str = Query(..., description="The MCP server url"),
+        user_api_key_dict: UserAPIKeyAuth = Depends(user_api_key_auth),
+    ) -> dict:
+        """
+        Discover the authorization server endpoints for an MCP server
+        """
+        _require_proxy_admin(user_api_key_dict, "configure MCP server OAuth")
+        return await discover_oauth2_metadata(url)
+
+    @router.post("/oauth/register")
+    async def register_oauth_client_rest_api(
+        data: RegisterMCPOAuthClientRequest,
+        user_api_key_dict: UserAPIKeyAuth = Depends(user_api_key_auth),
+    ) -> dict:
+        """
+        Dynamically register the dashboard as a public OAuth client. Returns the client registration, incl. `client_id`.
+        """
+        _require_proxy_admin(user_api_key_dict, "configure MCP server OAuth")
+        try:
+            return await register_oauth2_client(
+                registration_endpoint=data.registration_endpoint,
+                redirect_uri=data.redirect_uri,
+                client_name=data.client_name,
+            )
+        except ValueError as e:
+            raise HTTPException(status_code=400, detail=str(e))
+
+    @router.post("/oauth/token")
+    async def oauth_token_rest_api(
+        data: MCPOAuthTokenRequest,
+        user_api_key_dict: UserAPIKeyAuth = Depends(user_api_key_auth),
+    ) -> dict:
+        """
+        Exchange an authorization code, or refresh a token. Returns the token response with `expires_at` added.
+        """
+        if data.server_id is not None:
+            server = _get_mcp_server_or_404(data.server_id)
+            await _require_mcp_server_access(data.server_id, user_api_key_dict)
+            oauth2_config = (server.mcp_info or {}).get("oauth2")
+            if not oauth2_config:
+                raise HTTPException(
+                    status_code=400,
+                    detail=f"Server {server.name} is not configured for OAuth",
+                )
+            token_endpoint = oauth2_config["token_endpoint"]
+            client_id = oauth2_config["client_id"]
+            resource = oauth2_config.get("resource")
+        else:
+            # Arbitrary token endpoints are only allowed while an admin is adding a server
+            _require_proxy_admin(user_api_key_dict, "configure MCP server OAuth")
+            if not data.token_endpoint or not data.client_id:
+                raise HTTPException(
+                    status_code=400,
+                    detail="token_endpoint and client_id are required without a server_id",
+                )
+            token_endpoint = data.token_endpoint
+            client_id = data.client_id
+            resource = data.resource
+
+        try:
+            return await request_oauth2_token(
+                token_endpoint=token_endpoint,
+                data={
+                    "grant_type": data.grant_type,
+                    "client_id": client_id,
+                    "resource": resource,
+                    "code": data.code,
+                    "code_verifier": data.code_verifier,
+                    "redirect_uri": data.redirect_uri,
+                    "refresh_token": data.refresh_token,
+                },
+            )
+        except ValueError as e:
+            raise HTTPException(status_code=400, detail=str(e))
+
+    @router.get("/oauth/shared_token", dependencies=[Depends(user_api_key_auth)])
+    async def get_oauth_shared_token_status(
+        server_id: str = Query(..., description="The server id"),
+        user_api_key_dict: UserAPIKeyAuth = Depends(user_api_key_auth),
+    ) -> dict:
+        """
+        Whether a shared-mode server has an authorized token, and when it expires. Never returns the token itself.
+        """
+        _get_mcp_server_or_404(server_id)
+        await _require_mcp_server_access(server_id, user_api_key_dict)
+        token = await mcp_oauth2_token_store.get_token(server_id)
+        if token is None:
+            return {"connected": False, "expires_at": None, "scope": None}
+        return {
+            "connected": True,
+            "expires_at": token.get("expires_at"),
+            "scope": token.get("scope"),
+            "has_refresh_token": bool(token.get("refresh_token")),
+        }
+
+    @router.post("/oauth/shared_token")
+    async def save_oauth_shared_token(
+        data: SaveMCPOAuthSharedTokenRequest,
+        user_api_key_dict: UserAPIKeyAuth = Depends(user_api_key_auth),
+    ) -> dict:
+        """
+        Store the token an admin authorized, to be used for every request to a shared-mode server
+        """
+        _require_proxy_admin(user_api_key_dict, "authorize shared MCP server tokens")
+        _get_mcp_server_or_404(data.server_id)
+        await mcp_oauth2_token_store.save_token(
+            data.server_id, data.model_dump(exclude={"server_id"})
+        )
+        return {"status": "ok"}
+
+    @router.delete("/oauth/shared_token")
+    async def delete_oauth_shared_token(
+        server_id: str = Query(..., description="The server id"),
+        user_api_key_dict: UserAPIKeyAuth = Depends(user_api_key_auth),
+    ) -> dict:
+        """
+        Disconnect a shared-mode server - requests fail until an admin authorizes again
+        """
+        _require_proxy_admin(user_api_key_dict, "revoke shared MCP server tokens")
+        await mcp_oauth2_token_store.delete_token(server_id)
+        return {"status": "ok"}
+
+    ########################################################
+    # MCP Server health + tool analytics routes
+    ########################################################
+    from litellm.proxy._experimental.mcp_server.health_check import (
+        mcp_server_health_monitor,
+    )
+    from litellm.proxy._experimental.mcp_server.tool_analytics import (
+        get_mcp_tool_usage_stats,
+    )
+
+    @router.get("/health")
+    async def get_health_rest_api(
+        server_id: Optional[str] = Query(
+            None, description="Only return the health history of this server"
+        ),
+        user_api_key_dict: UserAPIKeyAuth = Depends(user_api_key_auth),
+    ) -> dict:
+        """
+        Health check history of the MCP servers the user can access, oldest first.
+        `check_interval` is the seconds between periodic checks, null when they're off.
+
+        Example response:
+        {
+            "servers": {
+                "server-1": [
+                    {"status": "healthy", "checked_at": 1718000000.0, "latency_ms": 120.5, "tools_count": 12, "error": null}
+                ]
+            },
+            "check_interval": 300
+        }
+        """
+        allowed_server_ids = await global_mcp_server_manager.get_allowed_mcp_servers(
+            user_api_key_dict
+        )
+        if server_id is not None:
+            allowed_server_ids = [
+                _id for _id in allowed_server_ids if _id == server_id
+            ]
+        return {
+            "servers": {
+                _id: mcp_server_health_monitor.get_history(_id)
+                for _id in allowed_server_ids
+            },
+            "check_interval": mcp_server_health_monitor.check_interval,
+        }
+
+    @router.post("/health/check")
+    async def run_health_check_rest_api(
+        server_id: Optional[str] = Query(
+            None, description="The server to check. Checks all servers if not set."
+        ),
+        user_api_key_dict: UserAPIKeyAuth = Depends(user_api_key_auth),
+    ) -> dict:
+        """
+        Run a health check now, instead of waiting for the next periodic check
+        """
+        _require_proxy_admin(user_api_key_dict, "run MCP server health checks")
+        if server_id is not None:
+            server = _get_mcp_server_or_404(server_id)
+            return {
+                "servers": {
+                    server_id: await mcp_server_health_monitor.check_server(server)
+                }
+            }
+        return {"servers": await mcp_server_health_monitor.check_all_servers()}
+
+    @router.get("/analytics/tools")
+    async def get_tool_analytics_rest_api(
+        server_id: str = Query(..., description="The server id"),
+        start_date: str = Query(..., description="Start date in YYYY-MM-DD format"),
+        end_date: str = Query(..., description="End date in YYYY-MM-DD format"),
+        user_api_key_dict: UserAPIKeyAuth = Depends(user_api_key_auth),
+    ) -> dict:
+        """
+        Call counts, error rates, p50 / p95 latency and cost per tool of an MCP server, from the spend logs
+        """
+        from litellm.proxy.proxy_server import prisma_client
+
+        _require_proxy_admin(user_api_key_dict, "view MCP tool analytics")
+        server = _get_mcp_server_or_404(server_id)
+        if prisma_client is None:
+            raise HTTPException(
+                status_code=500,
+                detail="Database not connected. Connect a database to your proxy",
+            )
+        try:
+            start_date_obj = datetime.strptime(start_date, "%Y-%m-%d")
+            end_date_obj = datetime.strptime(end_date, "%Y-%m-%d")
+        except ValueError:
+            raise HTTPException(
+                status_code=400,
+                detail="start_date and end_date must be in YYYY-MM-DD format",
+            )
+
+        tools = await get_mcp_tool_usage_stats(
+            prisma_client=prisma_client,
+            server=server,
+            start_date=start_date_obj,
+            end_date=end_date_obj,
+        )
+        return {
+            "tools": tools,
+            "total_calls": sum(tool["calls"] for tool in tools),
+            "total_failed_calls": sum(tool["failed_calls"] for tool in tools),
+            "total_cost": sum(tool["cost"] for tool in tools),
+        }
+
     ########################################################
     # MCP Connection testing routes
     # /health -> Test if we can connect to the MCP server
@@ -191,6 +676,7 @@ if MCP_AVAILABLE:
     @router.post("/test/tools/list")
     async def test_tools_list(
         request: NewMCPServerRequest,
+        http_request: Request,
         user_api_key_dict: UserAPIKeyAuth = Depends(user_api_key_auth),
     ):
         """
@@ -207,7 +693,10 @@ if MCP_AVAILABLE:
                     auth_type=request.auth_type,
                     mcp_info=request.mcp_info,
                 ),
-                mcp_auth_header=None,
+                # e.g. the OAuth token obtained while adding the server
+                mcp_auth_header=MCPRequestHandler._get_mcp_auth_header_from_headers(
+                    http_request.headers
+                ),
             )
             list_tools_result = await client.list_tools()
         except Exception as e:
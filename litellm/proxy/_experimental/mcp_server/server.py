@@ -303,6 +303,9 @@ if MCP_AVAILABLE:
                         verbose_logger.debug(f"Could not resolve '{server_or_group}' as access group: {e}")
             
             # Get tools from filtered servers
+            tool_permissions = await MCPRequestHandler.get_mcp_tool_permissions(
+                user_api_key_auth
+            )
             for server_id in filtered_server_ids:
                 server = global_mcp_server_manager.get_mcp_server_by_id(server_id)
                 if server:
@@ -310,6 +313,7 @@ if MCP_AVAILABLE:
                         await global_mcp_server_manager._get_tools_from_server(
                             server=server,
                             mcp_auth_header=mcp_auth_header,
+                            tool_permissions=tool_permissions,
                         )
                     )
                     tools.extend(server_tools)
@@ -403,6 +407,15 @@ if MCP_AVAILABLE:
             global_mcp_server_manager._get_mcp_server_from_tool_name(name)
         )
         if mcp_server:
+            if not MCPRequestHandler.is_tool_allowed(
+                await MCPRequestHandler.get_mcp_tool_permissions(user_api_key_auth),
+                mcp_server.server_id,
+                original_tool_name,
+            ):
+                raise HTTPException(
+                    status_code=403,
+                    detail=f"Tool {original_tool_name} on MCP server {mcp_server.name} is not allowed for this key",
+                )
             standard_logging_mcp_tool_call["mcp_server_cost_info"] = (
                 mcp_server.mcp_info or {}
             ).get("mcp_server_cost_info")
@@ -0,0 +1,121 @@
+"""
+Per-tool usage analytics for an MCP server, computed from the spend logs of its tool calls
+"""
+
+from datetime import datetime
+from typing import Any, Dict, List
+
+from litellm.proxy._experimental.mcp_server.utils import (
+    MCP_TOOL_PREFIX_SEPARATOR,
+    normalize_server_name,
+)
+from litellm.proxy.utils import PrismaClient
+from litellm.types.mcp_server.mcp_server_manager import MCPServer, MCPToolUsageStats
+
+# Tool calls are logged as `<server name>/<tool name>`, see `_get_standard_logging_mcp_tool_call`
+MCP_NAMESPACED_TOOL_NAME_SEPARATOR = "/"
+
+MCP_TOOL_USAGE_SQL = """
+SELECT
+    mcp_namespaced_tool_name AS tool_name,
+    COUNT(*) AS calls,
+    COUNT(*) FILTER (WHERE status = 'failure') AS failed_calls,
+    percentile_cont(0.5) WITHIN GROUP (
+        ORDER BY EXTRACT(EPOCH FROM ("endTime" - "startTime")) * 1000
+    ) AS p50_latency_ms,
+    percentile_cont(0.95) WITHIN GROUP (
+        ORDER BY EXTRACT(EPOCH FROM ("endTime" - "startTime")) * 1000
+    ) AS p95_latency_ms
+FROM
+    "LiteLLM_SpendLogs"
+WHERE
+    LEFT(mcp_namespaced_tool_name, LENGTH($1)) = $1
+    AND "startTime" >= $2::date
+    AND "startTime" < ($3::date + INTERVAL '1 day')
+GROUP BY
+    mcp_namespaced_tool_name
+ORDER BY
+    calls DESC;
+"""
+
+
+def _original_tool_name(tool_name: str, server: MCPServer) -> str:
+    """
+    Strip the server prefix, also when the client called the tool by its prefixed name (`<server>-<tool>`)
+    """
+    server_name = normalize_server_name(server.name)
+    tool_name = tool_name[
+        len(server_name) + len(MCP_NAMESPACED_TOOL_NAME_SEPARATOR) :
+    ]
+    prefix = f"{server_name}{MCP_TOOL_PREFIX_SEPARATOR}"
+    if tool_name.startswith(prefix):
+        tool_name = tool_name[len(prefix) :]
+    return tool_name
+
+
+def _round(value: Any) -> Any:
+    return round(float(value), 2) if value is not None else None
+
+
+async def get_mcp_tool_usage_stats(
+    prisma_client: PrismaClient,
+    server: MCPServer,
+    start_date: datetime,
+    end_date: datetime,
+) -> List[MCPToolUsageStats]:
+    """
+    Call counts, error rates and p50 / p95 latency per tool, most-called first.
+
+    Cost is computed from the server's `mcp_server_cost_info` - successful calls x the tool's cost per query
+    (`tool_name_to_cost_per_query`, falling back to `default_cost_per_query`).
+    """
+    db_response = await prisma_client.db.query_raw(
+        MCP_TOOL_USAGE_SQL,
+        f"{normalize_server_name(server.name)}{MCP_NAMESPACED_TOOL_NAME_SEPARATOR}",
+        start_date,
+        end_date,
+    )
+
+    cost_info = (server.mcp_info or {}).get("mcp_server_cost_info") or {}
+    tool_name_to_cost_per_query: Dict[str, float] = (
+        cost_info.get("tool_name_to_cost_per_query") or {}
+    )
+    default_cost_per_query = cost_info.get("default_cost_per_query") or 0.0
+
+    # The same tool can be logged under its plain and prefixed name, merge them
+    stats: Dict[str, MCPToolUsageStats] = {}
+    for row in db_response or []:
+        tool_name = _original_tool_name(row["tool_name"], server)
+        calls = int(row["calls"])
+        failed_calls = int(row["failed_calls"])
+        existing = stats.get(tool_name)
+        if existing is not None:
+            # Percentiles can't be merged exactly, keep the ones from the larger group
+            if calls > existing["calls"]:
+                existing["p50_latency_ms"] = _round(row["p50_latency_ms"])
+                existing["p95_latency_ms"] = _round(row["p95_latency_ms"])
+            existing["calls"] += calls
+            existing["failed_calls"] += failed_calls
+            continue
+        stats[tool_name] = MCPToolUsageStats(
+            tool_name=tool_name,
+            calls=calls,
+            failed_calls=failed_calls,
+            error_rate=0.0,
+            p50_latency_ms=_round(row["p50_latency_ms"]),
+            p95_latency_ms=_round(row["p95_latency_ms"]),
+            cost_per_query=tool_name_to_cost_per_query.get(
+                tool_name, default_cost_per_query
+            ),
+            cost=0.0,
+        )
+
+    for tool_stats in stats.values():
+        tool_stats["error_rate"] = (
+            tool_stats["failed_calls"] / tool_stats["calls"] if tool_stats["calls"] else 0.0
+        )
+        tool_stats["cost"] = (
+            tool_stats["calls"] - tool_stats["failed_calls"]
+        ) * tool_stats["cost_per_query"]
+
+    return sorted(stats.values(), key=lambda s: s["calls"], reverse=True)
@@ -25,6 +25,7 @@ from litellm.types.mcp import (
     MCPAuthType,
     MCPSpecVersion,
     MCPSpecVersionType,
+    MCPToolPermission,
     MCPTransport,
     MCPTransportType,
 )
@@ -644,6 +645,10 @@ class ModelParams(LiteLLMPydanticObjectBase):
 class LiteLLM_ObjectPermissionBase(LiteLLMPydanticObjectBase):
     mcp_servers: Optional[List[str]] = None
     mcp_access_groups: Optional[List[str]] = None
+    mcp_tool_permissions: Optional[Dict[str, MCPToolPermission]] = None
+    """
+    Tool allow / deny lists, keyed by MCP server id
+    """
     vector_stores: Optional[List[str]] = None
 
 
@@ -1291,6 +1296,7 @@ class LiteLLM_ObjectPermissionTable(LiteLLMPydanticObjectBase):
     object_permission_id: str
     mcp_servers: Optional[List[str]] = []
     mcp_access_groups: Optional[List[str]] = []
+    mcp_tool_permissions: Optional[Dict[str, MCPToolPermission]] = {}
     vector_stores: Optional[List[str]] = []
 
 
@@ -1572,6 +1578,10 @@ class ConfigGeneralSettings(LiteLLMPydanticObjectBase):
     health_check_interval: int = Field(
         300, description="background health check interval in seconds"
     )
+    mcp_health_check_interval: Optional[int] = Field(
+        None,
+        description="MCP server health check interval in seconds. Defaults to 300, set to 0 to turn periodic checks off.",
+    )
     alerting: Optional[List] = Field(
         None,
         description="List of alerting integrations. Today, just slack - `alerting: ['slack']`",
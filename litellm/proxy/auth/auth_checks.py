@@ -822,6 +822,22 @@ async def _delete_cache_key_object(
         )
 
 
+async def _delete_cache_org_object(
+    org_id: str,
+    user_api_key_cache: DualCache,
+    proxy_logging_obj: Optional[ProxyLogging],
+):
+    key = "org_id:{}".format(org_id)
+
+    user_api_key_cache.delete_cache(key=key)
+
+    ## UPDATE REDIS CACHE ##
+    if proxy_logging_obj is not None:
+        await proxy_logging_obj.internal_usage_cache.dual_cache.async_delete_cache(
+            key=key
+        )
+
+
 @log_db_metrics
 async def _get_team_db_check(
     team_id: str, prisma_client: PrismaClient, team_id_upsert: Optional[bool] = None
@@ -1123,7 +1139,8 @@ async def get_org_object(
         )
 
     # check if in cache
-    cached_org_obj = user_api_key_cache.async_get_cache(key="org_id:{}".format(org_id))
+    key = "org_id:{}".format(org_id)
+    cached_org_obj = await user_api_key_cache.async_get_cache(key=key)
     if cached_org_obj is not None:
         if isinstance(cached_org_obj, dict):
             return LiteLLM_OrganizationTable(**cached_org_obj)
@@ -1138,6 +1155,12 @@ async def get_org_object(
         if response is None:
             raise Exception
 
+        await _cache_management_object(
+            key=key,
+            value=LiteLLM_OrganizationTable(**response.dict()),
+            user_api_key_cache=user_api_key_cache,
+            proxy_logging_obj=proxy_logging_obj,
+        )
         return response
     except Exception:
         raise Exception(
@@ -336,6 +336,11 @@ def get_logging_caching_headers(request_data: Dict) -> Optional[Dict]:
             _metadata["applied_guardrails"]
         )
 
+    if "guardrail_warnings" in _metadata:
+        headers["x-litellm-guardrail-warnings"] = ",".join(
+            _metadata["guardrail_warnings"]
+        )
+
     if "semantic-similarity" in _metadata:
         headers["x-litellm-semantic-similarity"] = str(_metadata["semantic-similarity"])
 
@@ -0,0 +1,242 @@
+"""
+Aggregate guardrail outcomes from the spend logs - used by the guardrail analytics page on the UI
+
+Each spend log stores the guardrail that ran on the request in `metadata.guardrail_information`.
+A run counts as blocked when the guardrail failed the request, and as masked when it let the request
+through after masking entities (e.g. PII).
+"""
+
+from datetime import datetime
+from typing import TYPE_CHECKING, Any, Dict, List, Optional, Tuple
+
+from litellm.types.guardrails import (
+    GuardrailAnalyticsDailyMetrics,
+    GuardrailAnalyticsEntityCount,
+    GuardrailAnalyticsLatency,
+    GuardrailAnalyticsResponse,
+    GuardrailAnalyticsSummary,
+    GuardrailAnalyticsTriggerSource,
+)
+
+if TYPE_CHECKING:
+    from litellm.proxy.utils import PrismaClient
+else:
+    PrismaClient = Any
+
+TOP_TRIGGER_SOURCES_LIMIT = 10
+TOP_ENTITY_TYPES_LIMIT = 50
+
+
+def _get_guardrail_runs_cte(guardrail_name: Optional[str]) -> str:
+    guardrail_filter = (
+        "AND sl.\"metadata\"->'guardrail_information'->>'guardrail_name' = $3"
+        if guardrail_name is not None
+        else ""
+    )
+    return f"""
+        WITH guardrail_runs AS (
+            SELECT
+                sl."startTime",
+                sl."api_key",
+                sl."team_id",
+                sl."metadata"->>'user_api_key_alias' AS key_alias,
+                sl."metadata"->>'user_api_key_team_alias' AS team_alias,
+                sl."metadata"->'guardrail_information' AS info,
+                CASE
+                    WHEN sl."metadata"->'guardrail_information'->>'guardrail_status' = 'failure' THEN 1
+                    ELSE 0
+                END AS blocked,
+                CASE
+                    WHEN sl."metadata"->'guardrail_information'->>'guardrail_status' IS DISTINCT FROM 'failure'
+                        AND jsonb_typeof(sl."metadata"->'guardrail_information'->'masked_entity_count') = 'object'
+                        AND sl."metadata"->'guardrail_information'->'masked_entity_count' <> '{{}}'::jsonb
+                    THEN 1
+                    ELSE 0
+                END AS masked
+            FROM "LiteLLM_SpendLogs" sl
+            WHERE sl."startTime" BETWEEN $1::date AND $2::date + interval '1 day'
+                AND sl."metadata"->'guardrail_information'->>'guardrail_name' IS NOT NULL
+                {guardrail_filter}
+        )
+    """
+
+
+def _get_summary(
+    daily: List[GuardrailAnalyticsDailyMetrics],
+) -> List[GuardrailAnalyticsSummary]:
+    totals: Dict[str, Tuple[int, int, int]] = {}
+    for day in daily:
+        total_runs, blocked, masked = totals.get(day.guardrail_name, (0, 0, 0))
+        totals[day.guardrail_name] = (
+            total_runs + day.total_runs,
+            blocked + day.blocked,
+            masked + day.masked,
+        )
+
+    summary: List[GuardrailAnalyticsSummary] = []
+    for guardrail_name, (total_runs, blocked, masked) in totals.items():
+        summary.append(
+            GuardrailAnalyticsSummary(
+                guardrail_name=guardrail_name,
+                total_runs=total_runs,
+                blocked=blocked,
+                masked=masked,
+                block_rate=round(blocked / total_runs, 4) if total_runs else 0.0,
+                trigger_rate=(
+                    round((blocked + masked) / total_runs, 4) if total_runs else 0.0
+                ),
+            )
+        )
+    return sorted(summary, key=lambda item: item.total_runs, reverse=True)
+
+
+def _get_trigger_sources(rows: List[dict]) -> List[GuardrailAnalyticsTriggerSource]:
+    return [
+        GuardrailAnalyticsTriggerSource(
+            id=row.get("id"),
+            alias=row.get("alias"),
+            blocked=int(row.get("blocked") or 0),
+            masked=int(row.get("masked") or 0),
+        )
+        for row in rows
+    ]
+
+
+async def get_guardrail_analytics(
+    prisma_client: PrismaClient,
+    start_date: datetime,
+    end_date: datetime,
+    guardrail_name: Optional[str] = None,
+) -> GuardrailAnalyticsResponse:
+    """
+    Get trigger counts, latency, detected entity types and the keys / teams triggering guardrails,
+    for requests between `start_date` and `end_date` (inclusive)
+    """
+    guardrail_runs = _get_guardrail_runs_cte(guardrail_name=guardrail_name)
+    params: List[Any] = [start_date, end_date]
+    if guardrail_name is not None:
+        params.append(guardrail_name)
+
+    daily_rows = await prisma_client.db.query_raw(
+        f"""
+        {guardrail_runs}
+        SELECT
+            DATE(gr."startTime")::text AS date,
+            gr.info->>'guardrail_name' AS guardrail_name,
+            COUNT(*) AS total_runs,
+            SUM(gr.blocked) AS blocked,
+            SUM(gr.masked) AS masked
+        FROM guardrail_runs gr
+        GROUP BY 1, 2
+        ORDER BY 1, 2
+        """,
+        *params,
+    )
+
+    latency_rows = await prisma_client.db.query_raw(
+        f"""
+        {guardrail_runs}
+        SELECT
+            gr.info->>'guardrail_name' AS guardrail_name,
+            gr.info->>'guardrail_mode' AS guardrail_mode,
+            COUNT(*) AS total_runs,
+            AVG((gr.info->>'duration')::float) * 1000 AS avg_latency_ms,
+            PERCENTILE_CONT(0.95) WITHIN GROUP (ORDER BY (gr.info->>'duration')::float) * 1000 AS p95_latency_ms
+        FROM guardrail_runs gr
+        WHERE gr.info->>'duration' IS NOT NULL
+        GROUP BY 1, 2
+        ORDER BY 4 DESC
+        """,
+        *params,
+    )
+
+    entity_rows = await prisma_client.db.query_raw(
+        f"""
+        {guardrail_runs}
+        SELECT
+            gr.info->>'guardrail_name' AS guardrail_name,
+            entity.key AS entity_type,
+            SUM(entity.value::int) AS count
+        FROM guardrail_runs gr,
+            jsonb_each_text(
+                CASE
+                    WHEN jsonb_typeof(gr.info->'masked_entity_count') = 'object' THEN gr.info->'masked_entity_count'
+                    ELSE '{{}}'::jsonb
+                END
+            ) AS entity
+        GROUP BY 1, 2
+        ORDER BY 3 DESC
+        LIMIT {TOP_ENTITY_TYPES_LIMIT}
+        """,
+        *params,
+    )
+
+    top_key_rows = await prisma_client.db.query_raw(
+        f"""
+        {guardrail_runs}
+        SELECT
+            gr."api_key" AS id,
+            MAX(gr.key_alias) AS alias,
+            SUM(gr.blocked) AS blocked,
+            SUM(gr.masked) AS masked
+        FROM guardrail_runs gr
+        GROUP BY gr."api_key"
+        HAVING SUM(gr.blocked) + SUM(gr.masked) > 0
+        ORDER BY SUM(gr.blocked) + SUM(gr.masked) DESC
+        LIMIT {TOP_TRIGGER_SOURCES_LIMIT}
+        """,
+        *params,
+    )
+
+    top_team_rows = await prisma_client.db.query_raw(
+        f"""
+        {guardrail_runs}
+        SELECT
+            gr."team_id" AS id,
+            MAX(gr.team_alias) AS alias,
+            SUM(gr.blocked) AS blocked,
+            SUM(gr.masked) AS masked
+        FROM guardrail_runs gr
+        WHERE gr."team_id" IS NOT NULL
+        GROUP BY gr."team_id"
+        HAVING SUM(gr.blocked) + SUM(gr.masked) > 0
+        ORDER BY SUM(gr.blocked) + SUM(gr.masked) DESC
+        LIMIT {TOP_TRIGGER_SOURCES_LIMIT}
+        """,
+        *params,
+    )
+
+    daily = [
+        GuardrailAnalyticsDailyMetrics(
+            date=row["date"],
+            guardrail_name=row["guardrail_name"],
+            total_runs=int(row.get("total_runs") or 0),
+            blocked=int(row.get("blocked") or 0),
+            masked=int(row.get("masked") or 0),
+        )
+        for row in daily_rows or []
+    ]
+    return GuardrailAnalyticsResponse(
+        summary=_get_summary(daily),
+        daily=daily,
+        latency=[
+            GuardrailAnalyticsLatency(
+                guardrail_name=row["guardrail_name"],
+                guardrail_mode=row.get("guardrail_mode"),
+                total_runs=int(row.get("total_runs") or 0),
+                avg_latency_ms=round(float(row.get("avg_latency_ms") or 0), 2),
+                p95_latency_ms=round(float(row.get("p95_latency_ms") or 0), 2),
+            )
+            for row in latency_rows or []
+        ],
+        entity_types=[
+            GuardrailAnalyticsEntityCount(
+                guardrail_name=row["guardrail_name"],
+                entity_type=row["entity_type"],
+                count=int(row.get("count") or 0),
+            )
+            for row in entity_rows or []
+        ],
+        top_keys=_get_trigger_sources(top_key_rows or []),
+        top_teams=_get_trigger_sources(top_team_rows or []),
+    )
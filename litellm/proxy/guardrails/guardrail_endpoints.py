@@ -3,23 +3,39 @@ CRUD ENDPOINTS FOR GUARDRAILS
 """
 
 import inspect
+from datetime import datetime
 from typing import Any, Dict, List, Optional, Type, TypeVar, Union, cast
 
-from fastapi import APIRouter, Depends, HTTPException
+from fastapi import APIRouter, Depends, HTTPException, Query
 from pydantic import BaseModel
 
 from litellm._logging import verbose_proxy_logger
 from litellm.constants import DEFAULT_MAX_RECURSE_DEPTH
+from litellm.proxy._types import UserAPIKeyAuth
 from litellm.proxy.auth.user_api_key_auth import user_api_key_auth
+from litellm.proxy.guardrails.guardrail_policy_registry import (
+    GUARDRAIL_POLICY_REGISTRY,
+    GuardrailPolicyRegistry,
+)
 from litellm.proxy.guardrails.guardrail_registry import GuardrailRegistry
+from litellm.proxy.management_endpoints.common_utils import _user_has_admin_view
 from litellm.types.guardrails import (
     PII_ENTITY_CATEGORIES_MAP,
     BedrockGuardrailConfigModel,
+    CustomRulesPreviewRequest,
+    CustomRulesResult,
     Guardrail,
+    GuardrailAnalyticsResponse,
     GuardrailEventHooks,
     GuardrailInfoResponse,
+    GuardrailPolicy,
+    GuardrailTestCasesRequest,
+    GuardrailTestCasesResponse,
+    GuardrailTestRequest,
+    GuardrailTestResponse,
     GuardrailUIAddGuardrailSettings,
     LakeraV2GuardrailConfigModel,
+    ListGuardrailPoliciesResponse,
     ListGuardrailsResponse,
     LitellmParams,
     PatchGuardrailRequest,
@@ -33,6 +49,8 @@ from litellm.types.guardrails import (
 
 router = APIRouter()
 GUARDRAIL_REGISTRY = GuardrailRegistry()
+# `guardrail_info` key holding the test bench's saved test cases
+GUARDRAIL_TEST_CASES_KEY = "test_cases"
 
 
 def _get_guardrails_list_response(
@@ -495,11 +513,23 @@ async def patch_guardrail(guardrail_id: str, request: PatchGuardrailRequest):
             litellm_params = LitellmParams(**litellm_params_dict)
 
         # Update guardrail_info if provided
+        existing_guardrail_info = dict(existing_guardrail.get("guardrail_info") or {})
         guardrail_info = (
             request.guardrail_info
             if request.guardrail_info is not None
-            else existing_guardrail.get("guardrail_info", {})
+            else existing_guardrail_info
         )
+        # Test cases are managed by PUT /guardrails/{guardrail_id}/test_cases, keep them
+        if (
+            GUARDRAIL_TEST_CASES_KEY in existing_guardrail_info
+            and GUARDRAIL_TEST_CASES_KEY not in guardrail_info
+        ):
+            guardrail_info = {
+                **guardrail_info,
+                GUARDRAIL_TEST_CASES_KEY: existing_guardrail_info[
+                    GUARDRAIL_TEST_CASES_KEY
+                ],
+            }
 
         # Create the guardrail object
         guardrail = Guardrail(
@@ -619,6 +649,497 @@ async def get_guardrail_info(guardrail_id: str):
         raise HTTPException(status_code=500, detail=str(e))
 
 
+@router.post(
+    "/guardrails/{guardrail_id}/test",
+    tags=["Guardrails"],
+    dependencies=[Depends(user_api_key_auth)],
+    response_model=GuardrailTestResponse,
+)
+async def run_guardrail_test(
+    guardrail_id: str,
+    request: GuardrailTestRequest,
+    user_api_key_dict: UserAPIKeyAuth = Depends(user_api_key_auth),
+):
+    """
+    Run a guardrail against sample text and return its verdict, the resulting text and what it detected
+
+    👉 [Guardrail docs](https://docs.litellm.ai/docs/proxy/guardrails/quick_start)
+
+    Example Request:
+    ```bash
+    curl -X POST "http://localhost:4000/guardrails/123e4567-e89b-12d3-a456-426614174000/test" \\
+        -H "Authorization: Bearer <your_api_key>" \\
+        -H "Content-Type: application/json" \\
+        -d '{
+            "text": "My email is jane@example.com",
+            "event_hook": "pre_call"
+        }'
+    ```
+
+    Example Response:
+    ```json
+    {
+        "verdict": "masked",
+        "output_text": "My email is <EMAIL_ADDRESS>",
+        "error": null,
+        "latency_ms": 84.21,
+        "guardrail_response": [
+            {"entity_type": "EMAIL_ADDRESS", "start": 12, "end": 28, "score": 1.0}
+        ],
+        "masked_entity_count": {"EMAIL_ADDRESS": 1}
+    }
+    ```
+    """
+    from litellm.proxy.guardrails.guardrail_registry import IN_MEMORY_GUARDRAIL_HANDLER
+    from litellm.proxy.guardrails.guardrail_testing import execute_guardrail_test
+    from litellm.proxy.proxy_server import prisma_client
+
+    if prisma_client is None:
+        raise HTTPException(status_code=500, detail="Prisma client not initialized")
+
+    try:
+        guardrail = await GUARDRAIL_REGISTRY.get_guardrail_by_id_from_db(
+            guardrail_id=guardrail_id, prisma_client=prisma_client
+        )
+        if guardrail is None:
+            guardrail = IN_MEMORY_GUARDRAIL_HANDLER.get_guardrail_by_id(
+                guardrail_id=guardrail_id
+            )
+        if guardrail is None:
+            raise HTTPException(
+                status_code=404, detail=f"Guardrail with ID {guardrail_id} not found"
+            )
+
+        guardrail_callback = GUARDRAIL_REGISTRY.get_initialized_guardrail_callback(
+            guardrail_name=guardrail.get("guardrail_name") or ""
+        )
+        if guardrail_callback is None:
+            raise HTTPException(
+                status_code=400,
+                detail=f"Guardrail {guardrail.get('guardrail_name')} is not initialized on this proxy",
+            )
+
+        return await execute_guardrail_test(
+            guardrail=guardrail_callback,
+            text=request.text,
+            event_hook=GuardrailEventHooks(request.event_hook),
+            user_api_key_dict=user_api_key_dict,
+        )
+    except HTTPException as e:
+        raise e
+    except Exception as e:
+        verbose_proxy_logger.exception(f"Error testing guardrail: {e}")
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.put(
+    "/guardrails/{guardrail_id}/test_cases",
+    tags=["Guardrails"],
+    dependencies=[Depends(user_api_key_auth)],
+    response_model=GuardrailTestCasesResponse,
+)
+async def update_guardrail_test_cases(
+    guardrail_id: str, request: GuardrailTestCasesRequest
+):
+    """
+    Replace the saved test cases of a guardrail. They are stored in its `guardrail_info`, under `test_cases`.
+
+    Only guardrails stored in the DB can keep test cases, not ones defined in the config file.
+
+    👉 [Guardrail docs](https://docs.litellm.ai/docs/proxy/guardrails/quick_start)
+
+    Example Request:
+    ```bash
+    curl -X PUT "http://localhost:4000/guardrails/123e4567-e89b-12d3-a456-426614174000/test_cases" \\
+        -H "Authorization: Bearer <your_api_key>" \\
+        -H "Content-Type: application/json" \\
+        -d '{
+            "test_cases": [
+                {
+                    "id": "7f0c2a1e-6a47-4a8e-9a53-2f8f5d3c9b10",
+                    "name": "email is masked",
+                    "text": "My email is jane@example.com",
+                    "event_hook": "pre_call",
+                    "expected_verdict": "masked",
+                    "expected_output": "My email is <EMAIL_ADDRESS>"
+                }
+            ]
+        }'
+    ```
+    """
+    from litellm.proxy.guardrails.guardrail_registry import IN_MEMORY_GUARDRAIL_HANDLER
+    from litellm.proxy.proxy_server import prisma_client
+
+    if prisma_client is None:
+        raise HTTPException(status_code=500, detail="Prisma client not initialized")
+
+    try:
+        existing_guardrail = await GUARDRAIL_REGISTRY.get_guardrail_by_id_from_db(
+            guardrail_id=guardrail_id, prisma_client=prisma_client
+        )
+        if existing_guardrail is None:
+            if (
+                IN_MEMORY_GUARDRAIL_HANDLER.get_guardrail_by_id(
+                    guardrail_id=guardrail_id
+                )
+                is not None
+            ):
+                raise HTTPException(
+                    status_code=400,
+                    detail=f"Guardrail {guardrail_id} is defined in the config file, test cases can only be saved for guardrails stored in the DB",
+                )
+            raise HTTPException(
+                status_code=404, detail=f"Guardrail with ID {guardrail_id} not found"
+            )
+
+        guardrail = Guardrail(
+            guardrail_id=guardrail_id,
+            guardrail_name=existing_guardrail.get("guardrail_name") or "",
+            litellm_params=LitellmParams(
+                **dict(existing_guardrail.get("litellm_params", {}))
+            ),
+            guardrail_info={
+                **dict(existing_guardrail.get("guardrail_info") or {}),
+                GUARDRAIL_TEST_CASES_KEY: [
+                    test_case.model_dump() for test_case in request.test_cases
+                ],
+            },
+        )
+        await GUARDRAIL_REGISTRY.update_guardrail_in_db(
+            guardrail_id=guardrail_id,
+            guardrail=guardrail,
+            prisma_client=prisma_client,
+        )
+        IN_MEMORY_GUARDRAIL_HANDLER.update_in_memory_guardrail(
+            guardrail_id=guardrail_id,
+            guardrail=guardrail,
+        )
+        return GuardrailTestCasesResponse(test_cases=request.test_cases)
+    except HTTPException as e:
+        raise e
+    except Exception as e:
+        verbose_proxy_logger.exception(f"Error saving guardrail test cases: {e}")
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.post(
+    "/guardrails/ui/custom_rules/preview",
+    tags=["Guardrails"],
+    dependencies=[Depends(user_api_key_auth)],
+    response_model=CustomRulesResult,
+)
+async def preview_custom_rules(request: CustomRulesPreviewRequest):
+    """
+    Run unsaved `custom_rules` guardrail rules against sample text - used by the rule builder on the UI
+
+    Example Request:
+    ```bash
+    curl -X POST "http://localhost:4000/guardrails/ui/custom_rules/preview" \\
+        -H "Authorization: Bearer <your_api_key>" \\
+        -H "Content-Type: application/json" \\
+        -d '{
+            "rules": [
+                {"name": "employee-id", "type": "regex", "pattern": "EMP-\\\\d{6}", "action": "mask"}
+            ],
+            "text": "Ticket raised by EMP-123456"
+        }'
+    ```
+
+    Example Response:
+    ```json
+    {
+        "verdict": "masked",
+        "output_text": "Ticket raised by [REDACTED]",
+        "error": null,
+        "matches": [
+            {"rule_name": "employee-id", "action": "mask", "matches": ["EMP-123456"]}
+        ]
+    }
+    ```
+    """
+    from litellm.proxy.guardrails.guardrail_hooks.custom_rules.custom_rules import (
+        apply_custom_rules,
+    )
+
+    try:
+        return apply_custom_rules(rules=request.rules, text=request.text)
+    except Exception as e:
+        verbose_proxy_logger.exception(f"Error previewing custom rules: {e}")
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+#### GUARDRAIL POLICY ENDPOINTS ####
+
+
+class CreateGuardrailPolicyRequest(BaseModel):
+    policy: GuardrailPolicy
+
+
+class UpdateGuardrailPolicyRequest(BaseModel):
+    policy: GuardrailPolicy
+
+
+@router.get(
+    "/guardrails/policies/list",
+    tags=["Guardrails"],
+    dependencies=[Depends(user_api_key_auth)],
+    response_model=ListGuardrailPoliciesResponse,
+)
+async def list_guardrail_policies():
+    """
+    List all guardrail policies - ordered chains of guardrails attached to models / tags
+
+    👉 [Guardrail Policies docs](https://docs.litellm.ai/docs/proxy/guardrails/guardrail_policies)
+
+    Example Response:
+    ```json
+    {
+        "policies": [
+            {
+                "policy_id": "123e4567-e89b-12d3-a456-426614174000",
+                "policy_name": "prod-pii",
+                "steps": [
+                    {"guardrail_name": "presidio-pii", "event_hook": "pre_call", "action": "mask"},
+                    {"guardrail_name": "lakera-injection", "event_hook": "pre_call", "action": "block"}
+                ],
+                "conditions": {"key_metadata": {"environment": "prod"}},
+                "attached_models": ["gpt-4o"],
+                "attached_tags": ["customer-facing"],
+                "default_on": false
+            }
+        ]
+    }
+    ```
+    """
+    from litellm.proxy.proxy_server import prisma_client
+
+    if prisma_client is None:
+        raise HTTPException(status_code=500, detail="Prisma client not initialized")
+
+    try:
+        policies = await GuardrailPolicyRegistry.get_all_policies_from_db(
+            prisma_client=prisma_client
+        )
+        return ListGuardrailPoliciesResponse(policies=policies)
+    except Exception as e:
+        verbose_proxy_logger.exception(f"Error getting guardrail policies from db: {e}")
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+def _validate_guardrail_policy(policy: GuardrailPolicy):
+    if len(policy.steps) == 0:
+        raise HTTPException(
+            status_code=400, detail="A guardrail policy needs at least one step"
+        )
+
+
+@router.post(
+    "/guardrails/policies",
+    tags=["Guardrails"],
+    dependencies=[Depends(user_api_key_auth)],
+    response_model=GuardrailPolicy,
+)
+async def create_guardrail_policy(request: CreateGuardrailPolicyRequest):
+    """
+    Create a guardrail policy
+
+    Steps run in order. `action` decides what happens when the guardrail rejects the request:
+    - `block`: fail the request and stop the chain
+    - `mask`: keep the guardrail's changes (e.g. masked PII), never fail the request
+    - `warn`: don't change the request, add the step to the `x-litellm-guardrail-warnings` header
+    - `log_only`: don't change the request, only record the result in the request metadata
+
+    The policy runs on requests to `attached_models` or with one of `attached_tags` (or on every request if `default_on`),
+    when all the `conditions` that are set match.
+
+    Example Request:
+    ```bash
+    curl -X POST "http://localhost:4000/guardrails/policies" \\
+        -H "Authorization: Bearer <your_api_key>" \\
+        -H "Content-Type: application/json" \\
+        -d '{
+            "policy": {
+                "policy_name": "prod-pii",
+                "steps": [
+                    {"guardrail_name": "presidio-pii", "event_hook": "pre_call", "action": "mask"},
+                    {"guardrail_name": "lakera-injection", "event_hook": "pre_call", "action": "block"}
+                ],
+                "conditions": {"team_ids": ["team-1"]},
+                "attached_models": ["gpt-4o"]
+            }
+        }'
+    ```
+    """
+    from litellm.proxy.proxy_server import prisma_client
+
+    if prisma_client is None:
+        raise HTTPException(status_code=500, detail="Prisma client not initialized")
+
+    _validate_guardrail_policy(request.policy)
+    try:
+        result = await GUARDRAIL_POLICY_REGISTRY.add_policy_to_db(
+            policy=request.policy, prisma_client=prisma_client
+        )
+        GUARDRAIL_POLICY_REGISTRY.upsert_in_memory_policy(result)
+        return result
+    except Exception as e:
+        verbose_proxy_logger.exception(f"Error adding guardrail policy to db: {e}")
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.put(
+    "/guardrails/policies/{policy_id}",
+    tags=["Guardrails"],
+    dependencies=[Depends(user_api_key_auth)],
+    response_model=GuardrailPolicy,
+)
+async def update_guardrail_policy(
+    policy_id: str, request: UpdateGuardrailPolicyRequest
+):
+    """
+    Update an existing guardrail policy
+
+    Example Request:
+    ```bash
+    curl -X PUT "http://localhost:4000/guardrails/policies/123e4567-e89b-12d3-a456-426614174000" \\
+        -H "Authorization: Bearer <your_api_key>" \\
+        -H "Content-Type: application/json" \\
+        -d '{
+            "policy": {
+                "policy_name": "prod-pii",
+                "steps": [
+                    {"guardrail_name": "presidio-pii", "event_hook": "pre_call", "action": "warn"}
+                ],
+                "attached_tags": ["customer-facing"]
+            }
+        }'
+    ```
+    """
+    from litellm.proxy.proxy_server import prisma_client
+
+    if prisma_client is None:
+        raise HTTPException(status_code=500, detail="Prisma client not initialized")
+
+    _validate_guardrail_policy(request.policy)
+    try:
+        existing_policy = await GUARDRAIL_POLICY_REGISTRY.get_policy_by_id_from_db(
+            policy_id=policy_id, prisma_client=prisma_client
+        )
+        if existing_policy is None:
+            raise HTTPException(
+                status_code=404,
+                detail=f"Guardrail policy with ID {policy_id} not found",
+            )
+
+        result = await GUARDRAIL_POLICY_REGISTRY.update_policy_in_db(
+            policy_id=policy_id, policy=request.policy, prisma_client=prisma_client
+        )
+        GUARDRAIL_POLICY_REGISTRY.upsert_in_memory_policy(result)
+        return result
+    except HTTPException as e:
+        raise e
+    except Exception as e:
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.delete(
+    "/guardrails/policies/{policy_id}",
+    tags=["Guardrails"],
+    dependencies=[Depends(user_api_key_auth)],
+)
+async def delete_guardrail_policy(policy_id: str):
+    """
+    Delete a guardrail policy
+
+    Example Request:
+    ```bash
+    curl -X DELETE "http://localhost:4000/guardrails/policies/123e4567-e89b-12d3-a456-426614174000" \\
+        -H "Authorization: Bearer <your_api_key>"
+    ```
+    """
+    from litellm.proxy.proxy_server import prisma_client
+
+    if prisma_client is None:
+        raise HTTPException(status_code=500, detail="Prisma client not initialized")
+
+    try:
+        existing_policy = await GUARDRAIL_POLICY_REGISTRY.get_policy_by_id_from_db(
+            policy_id=policy_id, prisma_client=prisma_client
+        )
+        if existing_policy is None:
+            raise HTTPException(
+                status_code=404,
+                detail=f"Guardrail policy with ID {policy_id} not found",
+            )
+
+        result = await GUARDRAIL_POLICY_REGISTRY.delete_policy_from_db(
+            policy_id=policy_id, prisma_client=prisma_client
+        )
+        GUARDRAIL_POLICY_REGISTRY.delete_in_memory_policy(policy_id=policy_id)
+        return result
+    except HTTPException as e:
+        raise e
+    except Exception as e:
+        raise HTTPException(status_code=500, detail=str(e))
+
+
+@router.get(
+    "/guardrails/ui/analytics",
+    tags=["Guardrails"],
+    dependencies=[Depends(user_api_key_auth)],
+    response_model=GuardrailAnalyticsResponse,
+)
+async def get_guardrail_analytics_endpoint(
+    start_date: str = Query(description="Start date, YYYY-MM-DD"),
+    end_date: str = Query(description="End date (inclusive), YYYY-MM-DD"),
+    guardrail_name: Optional[str] = Query(
+        default=None, description="Only include runs of this guardrail"
+    ),
+    user_api_key_dict: UserAPIKeyAuth = Depends(user_api_key_auth),
+):
+    """
+    Guardrail trigger counts and block rates per day, latency per guardrail and mode,
+    the most detected entity types (e.g. PII) and the keys / teams triggering guardrails the most.
+
+    Built from the spend logs, so it only covers requests logged to the DB.
+
+    Example Request:
+    ```bash
+    curl -X GET "http://localhost:4000/guardrails/ui/analytics?start_date=2025-07-01&end_date=2025-07-31" \
+        -H "Authorization: Bearer <your_api_key>"
+    ```
+    """
+    from litellm.proxy.guardrails.guardrail_analytics import get_guardrail_analytics
+    from litellm.proxy.proxy_server import prisma_client
+
+    if prisma_client is None:
+        raise HTTPException(status_code=500, detail="Prisma client not initialized")
+
+    if not _user_has_admin_view(user_api_key_dict):
+        raise HTTPException(
+            status_code=403, detail="Only proxy admins can view guardrail analytics"
+        )
+
+    try:
+        start_date_obj = datetime.strptime(start_date, "%Y-%m-%d")
+        end_date_obj = datetime.strptime(end_date, "%Y-%m-%d")
+    except ValueError:
+        raise HTTPException(
+            status_code=400, detail="start_date and end_date must be YYYY-MM-DD"
+        )
+
+    try:
+        return await get_guardrail_analytics(
+            prisma_client=prisma_client,
+            start_date=start_date_obj,
+            end_date=end_date_obj,
+            guardrail_name=guardrail_name,
+        )
+    except Exception as e:
+        verbose_proxy_logger.exception(f"Error getting guardrail analytics: {e}")
+        raise HTTPException(status_code=500, detail=str(e))
+
+
 @router.get(
     "/guardrails/ui/add_guardrail_settings",
     tags=["Guardrails"],
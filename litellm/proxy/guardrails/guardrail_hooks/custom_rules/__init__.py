@@ -0,0 +1,32 @@
+from typing import TYPE_CHECKING
+
+from litellm.types.guardrails import SupportedGuardrailIntegrations
+
+from .custom_rules import CustomRulesGuardrail
+
+if TYPE_CHECKING:
+    from litellm.types.guardrails import Guardrail, LitellmParams
+
+
+def initialize_guardrail(litellm_params: "LitellmParams", guardrail: "Guardrail"):
+    import litellm
+
+    _custom_rules_callback = CustomRulesGuardrail(
+        guardrail_name=guardrail.get("guardrail_name", ""),
+        custom_rules=litellm_params.custom_rules,
+        event_hook=litellm_params.mode,
+        default_on=litellm_params.default_on,
+    )
+    litellm.logging_callback_manager.add_litellm_callback(_custom_rules_callback)
+
+    return _custom_rules_callback
+
+
+guardrail_initializer_registry = {
+    SupportedGuardrailIntegrations.CUSTOM_RULES.value: initialize_guardrail,
+}
+
+
+guardrail_class_registry = {
+    SupportedGuardrailIntegrations.CUSTOM_RULES.value: CustomRulesGuardrail,
+}
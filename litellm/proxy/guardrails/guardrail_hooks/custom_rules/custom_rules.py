@@ -0,0 +1,327 @@
+# +-------------------------------------------------------------+
+#
+#           Custom Rules Guardrail
+#     Regex, keyword, length and JSON checks authored on the UI
+#
+# +-------------------------------------------------------------+
+
+import json
+import re
+from datetime import datetime
+from typing import (
+    TYPE_CHECKING,
+    Any,
+    AsyncGenerator,
+    Dict,
+    List,
+    Optional,
+    Pattern,
+    Tuple,
+    Type,
+    Union,
+)
+
+from fastapi import HTTPException
+
+from litellm._logging import verbose_proxy_logger
+from litellm.caching.caching import DualCache
+from litellm.constants import CUSTOM_RULES_MAX_REGEX_TEXT_LENGTH
+from litellm.integrations.custom_guardrail import CustomGuardrail
+from litellm.proxy._types import UserAPIKeyAuth
+from litellm.types.guardrails import (
+    CustomRule,
+    CustomRuleAction,
+    CustomRuleMatch,
+    CustomRulesResult,
+    CustomRuleType,
+    GuardrailEventHooks,
+    LitellmParams,
+)
+from litellm.types.utils import Choices, ModelResponse, ModelResponseStream
+
+if TYPE_CHECKING:
+    from litellm.types.proxy.guardrails.guardrail_hooks.base import GuardrailConfigModel
+
+CUSTOM_RULE_MASK = "[REDACTED]"
+
+
+def _get_rule_regex(rule: CustomRule) -> Optional[Pattern]:
+    flags = 0 if rule.case_sensitive else re.IGNORECASE
+    if rule.type == CustomRuleType.REGEX and rule.pattern:
+        return re.compile(rule.pattern, flags)
+    if rule.type in (CustomRuleType.KEYWORDS, CustomRuleType.COMPETITORS):
+        keywords = [re.escape(keyword.strip()) for keyword in rule.keywords or []]
+        keywords = [keyword for keyword in keywords if keyword]
+        if not keywords:
+            return None
+        # whole words / phrases only, e.g. "acme" doesn't match "acmeology"
+        return re.compile(rf"(?<!\w)(?:{'|'.join(keywords)})(?!\w)", flags)
+    return None
+
+
+def _get_rule_matches(rule: CustomRule, text: str) -> List[str]:
+    regex = _get_rule_regex(rule)
+    if regex is not None:
+        return [match.group(0) for match in regex.finditer(text)]
+    if rule.type == CustomRuleType.MAX_LENGTH and rule.max_length is not None:
+        if len(text) > rule.max_length:
+            return [f"{len(text)} characters, max is {rule.max_length}"]
+    if rule.type == CustomRuleType.VALID_JSON:
+        try:
+            json.loads(text)
+        except ValueError as e:
+            return [f"invalid JSON - {e}"]
+    return []
+
+
+def _get_message_texts(messages: List[dict]) -> List[Tuple[dict, str]]:
+    """
+    Where the text of each message is - `(message, "content")` for string content,
+    `(part, "text")` for each text part of list content
+    """
+    texts: List[Tuple[dict, str]] = []
+    for message in messages:
+        content = message.get("content")
+        if isinstance(content, str):
+            texts.append((message, "content"))
+        elif isinstance(content, list):
+            texts.extend(
+                (part, "text")
+                for part in content
+                if isinstance(part, dict)
+                and part.get("type") == "text"
+                and isinstance(part.get("text"), str)
+            )
+    return texts
+
+
+def _get_error_message(rule: CustomRule) -> str:
+    if rule.error_message:
+        return rule.error_message
+    if rule.type == CustomRuleType.COMPETITORS:
+        return f"Blocked by rule '{rule.name}': mentions a competitor"
+    return f"Blocked by rule '{rule.name}'"
+
+
+def apply_custom_rules(rules: List[CustomRule], text: str) -> CustomRulesResult:
+    """
+    Run every rule on `text`, in order. Later rules see the text with earlier masks applied.
+
+    Text longer than CUSTOM_RULES_MAX_REGEX_TEXT_LENGTH is blocked when there are regex rules,
+    so an admin-written pattern never runs on unbounded input.
+    """
+    if len(text) > CUSTOM_RULES_MAX_REGEX_TEXT_LENGTH and any(
+        rule.type == CustomRuleType.REGEX for rule in rules
+    ):
+        return CustomRulesResult(
+            verdict="blocked",
+            error=f"Text is {len(text)} characters, regex rules only check up to {CUSTOM_RULES_MAX_REGEX_TEXT_LENGTH}",
+        )
+
+    output_text = text
+    matches: List[CustomRuleMatch] = []
+    error: Optional[str] = None
+
+    for rule in rules:
+        rule_matches = _get_rule_matches(rule=rule, text=output_text)
+        if not rule_matches:
+            continue
+        matches.append(
+            CustomRuleMatch(rule_name=rule.name, action=rule.action, matches=rule_matches)
+        )
+        if rule.action == CustomRuleAction.BLOCK and error is None:
+            error = _get_error_message(rule)
+        elif rule.action == CustomRuleAction.MASK:
+            regex = _get_rule_regex(rule)
+            if regex is not None:
+                output_text = regex.sub(CUSTOM_RULE_MASK, output_text)
+
+    if error is not None:
+        return CustomRulesResult(verdict="blocked", error=error, matches=matches)
+    return CustomRulesResult(
+        verdict=(
+            "masked" if output_text != text else "flagged" if matches else "passed"
+        ),
+        output_text=output_text,
+        matches=matches,
+    )
+
+
+class CustomRulesGuardrail(CustomGuardrail):
+    def __init__(
+        self,
+        custom_rules: Optional[List[Union[CustomRule, dict]]] = None,
+        **kwargs,
+    ):
+        self.custom_rules: List[CustomRule] = [
+            rule if isinstance(rule, CustomRule) else CustomRule(**rule)
+            for rule in custom_rules or []
+        ]
+        super().__init__(
+            supported_event_hooks=[
+                GuardrailEventHooks.pre_call,
+                GuardrailEventHooks.during_call,
+                GuardrailEventHooks.post_call,
+            ],
+            **kwargs,
+        )
+
+    def _run_custom_rules(self, texts: List[str], request_data: dict) -> List[str]:
+        """
+        Check each text and return it with masked matches replaced
+
+        Raises:
+            HTTPException: if a `block` rule matched any of the texts
+        """
+        start_time = datetime.now()
+        results = [apply_custom_rules(rules=self.custom_rules, text=text) for text in texts]
+        matches = [match for result in results for match in result.matches]
+        blocked = next((result for result in results if result.verdict == "blocked"), None)
+
+        masked_entity_count: Dict[str, int] = {}
+        for match in matches:
+            if match.action == CustomRuleAction.MASK:
+                masked_entity_count[match.rule_name] = masked_entity_count.get(
+                    match.rule_name, 0
+                ) + len(match.matches)
+
+        # only log which rules matched - the matched text is what the rules protect
+        self.add_standard_logging_guardrail_information_to_request_data(
+            guardrail_json_response=[
+                {
+                    "rule_name": match.rule_name,
+                    "action": match.action.value,
+                    "match_count": len(match.matches),
+                }
+                for match in matches
+            ],
+            request_data=request_data,
+            guardrail_status="failure" if blocked is not None else "success",
+            start_time=start_time.timestamp(),
+            end_time=datetime.now().timestamp(),
+            duration=(datetime.now() - start_time).total_seconds(),
+            masked_entity_count=masked_entity_count,
+        )
+
+        if blocked is not None:
+            verbose_proxy_logger.warning(
+                "Custom rules guardrail %s blocked request: %s",
+                self.guardrail_name,
+                blocked.error,
+            )
+            raise HTTPException(status_code=400, detail={"error": blocked.error})
+        return [
+            result.output_text if result.output_text is not None else text
+            for result, text in zip(results, texts)
+        ]
+
+    def _check_messages(self, data: dict) -> dict:
+        texts = _get_message_texts(data.get("messages") or [])
+        if not texts:
+            return data
+
+        checked_texts = self._run_custom_rules(
+            texts=[container[key] for container, key in texts],
+            request_data=data,
+        )
+        for (container, key), text in zip(texts, checked_texts):
+            container[key] = text
+        return data
+
+    def _check_response(self, response: ModelResponse, request_data: dict) -> bool:
+        """
+        Check the response's messages, masking them in place. Returns True if anything was masked.
+        """
+        choices = [
+            choice
+            for choice in response.choices
+            if isinstance(choice, Choices) and isinstance(choice.message.content, str)
+        ]
+        if not choices:
+            return False
+
+        texts: List[str] = [choice.message.content for choice in choices]  # type: ignore
+        checked_texts = self._run_custom_rules(texts=texts, request_data=request_data)
+        for choice, text in zip(choices, checked_texts):
+            choice.message.content = text
+        return checked_texts != texts
+
+    async def async_pre_call_hook(
+        self,
+        user_api_key_dict: UserAPIKeyAuth,
+        cache: DualCache,
+        data: dict,
+        call_type: str,
+    ):
+        return self._check_messages(data)
+
+    async def async_moderation_hook(
+        self,
+        data: dict,
+        user_api_key_dict: UserAPIKeyAuth,
+        call_type: str,
+    ):
+        """
+        Runs in parallel with the LLM call, so masks can't be applied - only `block` rules have an effect
+        """
+        texts = _get_message_texts(data.get("messages") or [])
+        if texts:
+            self._run_custom_rules(
+                texts=[container[key] for container, key in texts],
+                request_data=data,
+            )
+        return data
+
+    async def async_post_call_success_hook(
+        self,
+        data: dict,
+        user_api_key_dict: UserAPIKeyAuth,
+        response,
+    ):
+        if isinstance(response, ModelResponse):
+            self._check_response(response=response, request_data=data)
+        return response
+
+    async def async_post_call_streaming_iterator_hook(
+        self,
+        user_api_key_dict: UserAPIKeyAuth,
+        response: Any,
+        request_data: dict,
+    ) -> AsyncGenerator[ModelResponseStream, None]:
+        """
+        Rules need the whole response, so the stream is collected and checked before it's sent on.
+
+        The original chunks are sent if nothing was masked, otherwise the masked response as one chunk.
+        """
+        from litellm.llms.base_llm.base_model_iterator import MockResponseIterator
+        from litellm.main import stream_chunk_builder
+
+        chunks: List[ModelResponseStream] = []
+        async for chunk in response:
+            chunks.append(chunk)
+
+        assembled_response = stream_chunk_builder(chunks=chunks)
+        if not isinstance(assembled_response, ModelResponse) or not self._check_response(
+            response=assembled_response, request_data=request_data
+        ):
+            for chunk in chunks:
+                yield chunk
+            return
+
+        async for chunk in MockResponseIterator(model_response=assembled_response):
+            yield chunk
+
+    def update_in_memory_litellm_params(self, litellm_params: LitellmParams) -> None:
+        """
+        Update the guardrails litellm params in memory
+        """
+        if litellm_params.custom_rules is not None:
+            self.custom_rules = list(litellm_params.custom_rules)
+
+    @staticmethod
+    def get_config_model() -> Optional[Type["GuardrailConfigModel"]]:
+        from litellm.types.proxy.guardrails.guardrail_hooks.custom_rules import (
+            CustomRulesGuardrailConfigModel,
+        )
+
+        return CustomRulesGuardrailConfigModel
@@ -0,0 +1,204 @@
+# litellm/proxy/guardrails/guardrail_policy_registry.py
+
+from datetime import datetime, timezone
+from typing import TYPE_CHECKING, Any, Dict, List, Optional
+
+from litellm._logging import verbose_proxy_logger
+from litellm.litellm_core_utils.safe_json_dumps import safe_dumps
+from litellm.proxy._types import UserAPIKeyAuth
+from litellm.types.guardrails import GuardrailPolicy, GuardrailPolicyConditions
+
+if TYPE_CHECKING:
+    from litellm.proxy.utils import PrismaClient
+else:
+    PrismaClient = Any
+
+
+class GuardrailPolicyRegistry:
+    """
+    Registry for guardrail policies
+
+    Keeps the policies loaded from the DB in memory, and picks the ones that apply to a request
+    """
+
+    def __init__(self):
+        self.policies: Dict[str, GuardrailPolicy] = {}
+
+    ###########################################################
+    ########### In memory management helpers for policies ###########
+    ############################################################
+    def load_policies(self, policies: List[GuardrailPolicy]) -> None:
+        """
+        Replace the in-memory policies, so policies deleted on another instance are dropped too
+        """
+        self.policies = {
+            policy.policy_id: policy
+            for policy in policies
+            if policy.policy_id is not None
+        }
+
+    def upsert_in_memory_policy(self, policy: GuardrailPolicy) -> None:
+        if policy.policy_id is None:
+            return
+        self.policies[policy.policy_id] = policy
+
+    def delete_in_memory_policy(self, policy_id: str) -> None:
+        self.policies.pop(policy_id, None)
+
+    def list_in_memory_policies(self) -> List[GuardrailPolicy]:
+        return list(self.policies.values())
+
+    def get_policies_for_request(
+        self, data: dict, user_api_key_dict: UserAPIKeyAuth
+    ) -> List[GuardrailPolicy]:
+        """
+        Returns the policies to run on a request, oldest first
+
+        A policy runs when it is default_on or attached to the request's model / one of its tags,
+        and all of its conditions match.
+        """
+        model: Optional[str] = data.get("model")
+        metadata = data.get("metadata") or {}
+        tags: List[str] = metadata.get("tags") or []
+
+        matching_policies: List[GuardrailPolicy] = []
+        for policy in self.policies.values():
+            is_attached = (
+                policy.default_on
+                or (model is not None and model in policy.attached_models)
+                or any(tag in policy.attached_tags for tag in tags)
+            )
+            if not is_attached:
+                continue
+            if not self._conditions_match(
+                conditions=policy.conditions,
+                model=model,
+                tags=tags,
+                user_api_key_dict=user_api_key_dict,
+            ):
+                continue
+            matching_policies.append(policy)
+
+        return sorted(
+            matching_policies,
+            key=lambda policy: policy.created_at or datetime.min.replace(tzinfo=timezone.utc),
+        )
+
+    @staticmethod
+    def _conditions_match(
+        conditions: GuardrailPolicyConditions,
+        model: Optional[str],
+        tags: List[str],
+        user_api_key_dict: UserAPIKeyAuth,
+    ) -> bool:
+        if conditions.models and model not in conditions.models:
+            return False
+        if conditions.tags and not any(tag in conditions.tags for tag in tags):
+            return False
+        if conditions.team_ids and user_api_key_dict.team_id not in conditions.team_ids:
+            return False
+        if conditions.key_metadata:
+            key_metadata = user_api_key_dict.metadata or {}
+            for field, value in conditions.key_metadata.items():
+                if key_metadata.get(field) != value:
+                    return False
+        return True
+
+    ###########################################################
+    ########### DB management helpers for policies ###########
+    ############################################################
+    @staticmethod
+    def _get_policy_db_data(policy: GuardrailPolicy) -> dict:
+        return {
+            "policy_name": policy.policy_name,
+            "description": policy.description,
+            "steps": safe_dumps([step.model_dump() for step in policy.steps]),
+            "conditions": safe_dumps(policy.conditions.model_dump(exclude_none=True)),
+            "attached_models": policy.attached_models,
+            "attached_tags": policy.attached_tags,
+            "default_on": policy.default_on,
+            "updated_at": datetime.now(timezone.utc),
+        }
+
+    async def add_policy_to_db(
+        self, policy: GuardrailPolicy, prisma_client: PrismaClient
+    ) -> GuardrailPolicy:
+        """
+        Add a guardrail policy to the database
+        """
+        try:
+            created_policy = await prisma_client.db.litellm_guardrailpolicytable.create(
+                data={
+                    **self._get_policy_db_data(policy),
+                    "created_at": datetime.now(timezone.utc),
+                }
+            )
+            return GuardrailPolicy(**dict(created_policy))
+        except Exception as e:
+            raise Exception(f"Error adding guardrail policy to DB: {str(e)}")
+
+    async def update_policy_in_db(
+        self, policy_id: str, policy: GuardrailPolicy, prisma_client: PrismaClient
+    ) -> GuardrailPolicy:
+        """
+        Update a guardrail policy in the database
+        """
+        try:
+            updated_policy = await prisma_client.db.litellm_guardrailpolicytable.update(
+                where={"policy_id": policy_id},
+                data=self._get_policy_db_data(policy),
+            )
+            return GuardrailPolicy(**dict(updated_policy))
+        except Exception as e:
+            raise Exception(f"Error updating guardrail policy in DB: {str(e)}")
+
+    async def delete_policy_from_db(self, policy_id: str, prisma_client: PrismaClient):
+        """
+        Delete a guardrail policy from the database
+        """
+        try:
+            await prisma_client.db.litellm_guardrailpolicytable.delete(
+                where={"policy_id": policy_id}
+            )
+            return {"message": f"Guardrail policy {policy_id} deleted successfully"}
+        except Exception as e:
+            raise Exception(f"Error deleting guardrail policy from DB: {str(e)}")
+
+    async def get_policy_by_id_from_db(
+        self, policy_id: str, prisma_client: PrismaClient
+    ) -> Optional[GuardrailPolicy]:
+        """
+        Get a guardrail policy by its ID from the database
+        """
+        try:
+            policy = await prisma_client.db.litellm_guardrailpolicytable.find_unique(
+                where={"policy_id": policy_id}
+            )
+            if not policy:
+                return None
+            return GuardrailPolicy(**dict(policy))
+        except Exception as e:
+            raise Exception(f"Error getting guardrail policy from DB: {str(e)}")
+
+    @staticmethod
+    async def get_all_policies_from_db(
+        prisma_client: PrismaClient,
+    ) -> List[GuardrailPolicy]:
+        """
+        Get all guardrail policies from the database
+        """
+        try:
+            policies_from_db = (
+                await prisma_client.db.litellm_guardrailpolicytable.find_many(
+                    order={"created_at": "asc"},
+                )
+            )
+            verbose_proxy_logger.debug(
+                "guardrail policies from the DB %s", str(policies_from_db)
+            )
+            return [GuardrailPolicy(**dict(policy)) for policy in policies_from_db]
+        except Exception as e:
+            raise Exception(f"Error getting guardrail policies from DB: {str(e)}")
+
+
+GUARDRAIL_POLICY_REGISTRY = GuardrailPolicyRegistry()
@@ -0,0 +1,108 @@
+"""
+Run a single guardrail against sample text - used by the guardrail test bench on the UI
+"""
+
+import copy
+import json
+import time
+from typing import Any, Optional
+
+from litellm.caching.caching import DualCache
+from litellm.integrations.custom_guardrail import CustomGuardrail
+from litellm.proxy._types import UserAPIKeyAuth
+from litellm.types.guardrails import GuardrailEventHooks, GuardrailTestResponse
+from litellm.types.utils import Choices, Message, ModelResponse
+
+
+def _get_error_message(e: Exception) -> str:
+    # Guardrails block with an HTTPException whose detail is often a dict
+    detail: Any = getattr(e, "detail", None)
+    if detail is None:
+        return str(e) or type(e).__name__
+    return detail if isinstance(detail, str) else json.dumps(detail, default=str)
+
+
+def _get_message_text(data: dict) -> Optional[str]:
+    messages = data.get("messages") or []
+    if len(messages) == 0:
+        return None
+    content = messages[-1].get("content")
+    return content if isinstance(content, str) else None
+
+
+async def execute_guardrail_test(
+    guardrail: CustomGuardrail,
+    text: str,
+    event_hook: GuardrailEventHooks,
+    user_api_key_dict: UserAPIKeyAuth,
+) -> GuardrailTestResponse:
+    """
+    Run the guardrail's hook for `event_hook` on `text`, the same way it runs on a request.
+
+    Runs on a copy set to `event_hook`, so any hook can be tried regardless of the guardrail's configured mode
+    and without changing the instance that handles live traffic.
+    """
+    test_guardrail = copy.copy(guardrail)
+    test_guardrail.event_hook = event_hook.value
+    test_guardrail.default_on = True
+
+    data: dict = {
+        "model": "guardrail-test",
+        "messages": [{"role": "user", "content": text}],
+        "metadata": {"guardrails": [guardrail.guardrail_name]},
+    }
+    output_text: Optional[str] = None
+    error: Optional[str] = None
+
+    start = time.monotonic()
+    try:
+        if event_hook == GuardrailEventHooks.pre_call:
+            result = await test_guardrail.async_pre_call_hook(
+                user_api_key_dict=user_api_key_dict,
+                cache=DualCache(),
+                data=data,
+                call_type="completion",
+            )
+            output_text = _get_message_text(result if isinstance(result, dict) else data)
+        elif event_hook == GuardrailEventHooks.during_call:
+            await test_guardrail.async_moderation_hook(
+                data=data,
+                user_api_key_dict=user_api_key_dict,
+                call_type="completion",
+            )
+            output_text = _get_message_text(data)
+        else:
+            response = ModelResponse(
+                choices=[Choices(message=Message(role="assistant", content=text))]
+            )
+            result = await test_guardrail.async_post_call_success_hook(
+                data=data,
+                user_api_key_dict=user_api_key_dict,
+                response=response,
+            )
+            if isinstance(result, ModelResponse):
+                response = result
+            output_text = response.choices[0].message.content  # type: ignore
+    except Exception as e:
+        error = _get_error_message(e)
+    latency_ms = round((time.monotonic() - start) * 1000, 2)
+
+    if error is not None:
+        verdict = "blocked"
+    elif output_text is not None and output_text != text:
+        verdict = "masked"
+    else:
+        verdict = "passed"
+
+    # Guardrails that log their trace (e.g. Presidio) add the detected entities to the request metadata
+    guardrail_information = data["metadata"].get(
+        "standard_logging_guardrail_information"
+    ) or {}
+    return GuardrailTestResponse(
+        verdict=verdict,
+        output_text=output_text if error is None else None,
+        error=error,
+        latency_ms=latency_ms,
+        guardrail_response=guardrail_information.get("guardrail_response"),
+        masked_entity_count=guardrail_information.get("masked_entity_count"),
+    )
@@ -3,6 +3,7 @@ from typing import Literal, Union
 
 from . import *
 from .cache_control_check import _PROXY_CacheControlCheck
+from .guardrail_policies import _PROXY_GuardrailPolicies
 from .max_budget_limiter import _PROXY_MaxBudgetLimiter
 from .parallel_request_limiter import _PROXY_MaxParallelRequestsHandler
 from .parallel_request_limiter_v3 import _PROXY_MaxParallelRequestsHandler_v3
@@ -19,6 +20,7 @@ PROXY_HOOKS = {
     "max_budget_limiter": _PROXY_MaxBudgetLimiter,
     "parallel_request_limiter": _PROXY_MaxParallelRequestsHandler,
     "cache_control_check": _PROXY_CacheControlCheck,
+    "guardrail_policies": _PROXY_GuardrailPolicies,
 }
 
 ## FEATURE FLAG HOOKS ##
@@ -38,6 +40,7 @@ def get_proxy_hook(
             "managed_files",
             "parallel_request_limiter",
             "cache_control_check",
+            "guardrail_policies",
         ],
         str,
     ]
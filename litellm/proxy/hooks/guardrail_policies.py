@@ -0,0 +1,285 @@
+# What this does?
+## Runs the guardrail policies (ordered chains of guardrails) that apply to a request
+
+import copy
+from typing import Any, AsyncGenerator, Iterable, List, Literal, Optional
+
+import litellm
+from litellm._logging import verbose_proxy_logger
+from litellm.caching.caching import DualCache
+from litellm.integrations.custom_guardrail import CustomGuardrail
+from litellm.integrations.custom_logger import CustomLogger
+from litellm.proxy._types import UserAPIKeyAuth
+from litellm.proxy.guardrails.guardrail_policy_registry import (
+    GUARDRAIL_POLICY_REGISTRY,
+)
+from litellm.types.guardrails import (
+    GuardrailPolicy,
+    GuardrailPolicyAction,
+    GuardrailPolicyStep,
+)
+from litellm.types.utils import ModelResponse, ModelResponseStream
+
+# Steps with these actions run on the request / response itself, the others on a copy
+_APPLIED_ACTIONS = (GuardrailPolicyAction.block, GuardrailPolicyAction.mask)
+
+
+class _PROXY_GuardrailPolicies(CustomLogger):
+    """
+    Runs each matching policy's steps in order:
+
+    - block: run on the request, a rejection fails the request and stops the chain
+    - mask: run on the request so its changes apply, a rejection is only a warning
+    - warn: run on a copy, a rejection is added to the `x-litellm-guardrail-warnings` header
+    - log_only: run on a copy, the result is only recorded in the request metadata
+
+    For streamed responses, block / mask post_call steps run once the whole stream is collected, before
+    anything is sent. warn / log_only steps don't hold the stream back, they run after it's been sent.
+    """
+
+    def __init__(self):
+        pass
+
+    def _get_guardrail_for_step(
+        self, step: GuardrailPolicyStep
+    ) -> Optional[CustomGuardrail]:
+        active_guardrails = (
+            litellm.logging_callback_manager.get_custom_loggers_for_type(
+                callback_type=CustomGuardrail
+            )
+        )
+        for active_guardrail in active_guardrails:
+            if (
+                isinstance(active_guardrail, CustomGuardrail)
+                and active_guardrail.guardrail_name == step.guardrail_name
+            ):
+                # run on a copy set to the step's hook, so the guardrail's own mode / default_on don't matter
+                step_guardrail = copy.copy(active_guardrail)
+                step_guardrail.event_hook = step.event_hook
+                step_guardrail.default_on = True
+                return step_guardrail
+        return None
+
+    @staticmethod
+    def _get_data_copy(data: dict) -> dict:
+        # only the parts guardrails change are copied, the request can hold objects that can't be deep-copied
+        data_copy = {**data, "metadata": {**(data.get("metadata") or {})}}
+        if "messages" in data:
+            data_copy["messages"] = copy.deepcopy(data["messages"])
+        return data_copy
+
+    @staticmethod
+    def _record_result(
+        data: dict,
+        policy: GuardrailPolicy,
+        step: GuardrailPolicyStep,
+        status: Literal["passed", "flagged", "guardrail_not_found"],
+        error: Optional[str] = None,
+    ):
+        metadata = data.setdefault("metadata", {})
+        metadata.setdefault("guardrail_policy_results", []).append(
+            {
+                "policy_name": policy.policy_name,
+                "guardrail_name": step.guardrail_name,
+                "event_hook": step.event_hook,
+                "action": step.action.value,
+                "status": status,
+                "error": error,
+            }
+        )
+        if status == "flagged" and step.action != GuardrailPolicyAction.log_only:
+            metadata.setdefault("guardrail_warnings", []).append(
+                f"{policy.policy_name}/{step.guardrail_name}"
+            )
+
+    @staticmethod
+    def _has_policy_steps(
+        data: dict,
+        user_api_key_dict: UserAPIKeyAuth,
+        event_hook: Literal["pre_call", "post_call"],
+        actions: Optional[Iterable[GuardrailPolicyAction]] = None,
+    ) -> bool:
+        return any(
+            step.event_hook == event_hook
+            and (actions is None or step.action in actions)
+            for policy in GUARDRAIL_POLICY_REGISTRY.get_policies_for_request(
+                data=data, user_api_key_dict=user_api_key_dict
+            )
+            for step in policy.steps
+        )
+
+    async def _run_policy_steps(
+        self,
+        data: dict,
+        user_api_key_dict: UserAPIKeyAuth,
+        event_hook: Literal["pre_call", "post_call"],
+        cache: Optional[DualCache] = None,
+        call_type: str = "completion",
+        response: Optional[Any] = None,
+        actions: Optional[Iterable[GuardrailPolicyAction]] = None,
+    ) -> dict:
+        policies = GUARDRAIL_POLICY_REGISTRY.get_policies_for_request(
+            data=data, user_api_key_dict=user_api_key_dict
+        )
+        for policy in policies:
+            for step in policy.steps:
+                if step.event_hook != event_hook:
+                    continue
+                if actions is not None and step.action not in actions:
+                    continue
+
+                guardrail = self._get_guardrail_for_step(step)
+                if guardrail is None:
+                    verbose_proxy_logger.warning(
+                        "Guardrail policy %s references guardrail %s, which is not initialized. Skipping step.",
+                        policy.policy_name,
+                        step.guardrail_name,
+                    )
+                    self._record_result(
+                        data=data,
+                        policy=policy,
+                        step=step,
+                        status="guardrail_not_found",
+                    )
+                    continue
+
+                runs_on_request = step.action in _APPLIED_ACTIONS
+                step_data = data if runs_on_request else self._get_data_copy(data)
+                step_response = response if runs_on_request else copy.deepcopy(response)
+                try:
+                    if event_hook == "pre_call":
+                        result = await guardrail.async_pre_call_hook(
+                            user_api_key_dict=user_api_key_dict,
+                            cache=cache or DualCache(),
+                            data=step_data,
+                            call_type=call_type,  # type: ignore
+                        )
+                        if runs_on_request and isinstance(result, dict):
+                            data = result
+                    else:
+                        await guardrail.async_post_call_success_hook(
+                            data=step_data,
+                            user_api_key_dict=user_api_key_dict,
+                            response=step_response,
+                        )
+                except Exception as e:
+                    if step.action == GuardrailPolicyAction.block:
+                        raise e
+                    self._record_result(
+                        data=data, policy=policy, step=step, status="flagged", error=str(e)
+                    )
+                    continue
+
+                self._record_result(data=data, policy=policy, step=step, status="passed")
+        return data
+
+    async def async_pre_call_hook(
+        self,
+        user_api_key_dict: UserAPIKeyAuth,
+        cache: DualCache,
+        data: dict,
+        call_type: str,
+    ):
+        return await self._run_policy_steps(
+            data=data,
+            user_api_key_dict=user_api_key_dict,
+            event_hook="pre_call",
+            cache=cache,
+            call_type=call_type,
+        )
+
+    async def async_post_call_success_hook(
+        self,
+        data: dict,
+        user_api_key_dict: UserAPIKeyAuth,
+        response: Any,
+    ):
+        await self._run_policy_steps(
+            data=data,
+            user_api_key_dict=user_api_key_dict,
+            event_hook="post_call",
+            response=response,
+        )
+        return response
+
+    async def async_post_call_streaming_iterator_hook(
+        self,
+        user_api_key_dict: UserAPIKeyAuth,
+        response: Any,
+        request_data: dict,
+    ) -> AsyncGenerator[ModelResponseStream, None]:
+        """
+        post_call steps need the whole response. If a block or mask step applies, the stream is collected
+        and every post_call step runs on the assembled response before anything is sent - the original
+        chunks are sent if no step changed the response, otherwise the changed response as one chunk.
+
+        With only warn / log_only steps, chunks are passed through as they arrive and the steps run on the
+        assembled response after the stream ends. Their results are recorded in the request metadata, the
+        `x-litellm-guardrail-warnings` header has already been sent by then.
+        """
+        if not self._has_policy_steps(
+            data=request_data,
+            user_api_key_dict=user_api_key_dict,
+            event_hook="post_call",
+        ):
+            async for chunk in response:
+                yield chunk
+            return
+
+        from litellm.llms.base_llm.base_model_iterator import MockResponseIterator
+        from litellm.main import stream_chunk_builder
+
+        chunks: List[ModelResponseStream] = []
+        if not self._has_policy_steps(
+            data=request_data,
+            user_api_key_dict=user_api_key_dict,
+            event_hook="post_call",
+            actions=_APPLIED_ACTIONS,
+        ):
+            async for chunk in response:
+                chunks.append(chunk)
+                yield chunk
+
+            try:
+                assembled_response = stream_chunk_builder(chunks=chunks)
+                if isinstance(assembled_response, ModelResponse):
+                    await self._run_policy_steps(
+                        data=request_data,
+                        user_api_key_dict=user_api_key_dict,
+                        event_hook="post_call",
+                        response=assembled_response,
+                    )
+            except Exception as e:
+                # the stream has been sent, a failure here must not surface to the client
+                verbose_proxy_logger.exception(
+                    "Guardrail policies: error running post_call steps on the streamed response: %s",
+                    str(e),
+                )
+            return
+
+        async for chunk in response:
+            chunks.append(chunk)
+
+        assembled_response = stream_chunk_builder(chunks=chunks)
+        if not isinstance(assembled_response, ModelResponse):
+            verbose_proxy_logger.warning(
+                "Guardrail policies: could not assemble the streamed response, skipping post_call steps"
+            )
+            for chunk in chunks:
+                yield chunk
+            return
+
+        original_response = assembled_response.model_dump()
+        await self._run_policy_steps(
+            data=request_data,
+            user_api_key_dict=user_api_key_dict,
+            event_hook="post_call",
+            response=assembled_response,
+        )
+        if assembled_response.model_dump() == original_response:
+            for chunk in chunks:
+                yield chunk
+            return
+
+        async for chunk in MockResponseIterator(model_response=assembled_response):
+            yield chunk
@@ -47,6 +47,7 @@ from litellm.proxy.management_endpoints.model_management_endpoints import (
 )
 from litellm.proxy.management_helpers.object_permission_utils import (
     handle_update_object_permission_common,
+    prepare_object_permission_for_db,
     attach_object_permission_to_dict,
 )
 from litellm.proxy.management_helpers.team_member_permission_checks import (
@@ -815,7 +816,7 @@ async def _set_object_permission(
     if "object_permission" in data_json:
         created_object_permission = (
             await prisma_client.db.litellm_objectpermissiontable.create(
-                data=data_json["object_permission"],
+                data=prepare_object_permission_for_db(data_json["object_permission"]),
             )
         )
         data_json["object_permission_id"] = (
@@ -108,7 +108,11 @@ if MCP_AVAILABLE:
 
         tools = []
         for server_id in server_ids:
-            tools.extend(await global_mcp_server_manager.get_tools_for_server(server_id))
+            tools.extend(
+                await global_mcp_server_manager.get_tools_for_server(
+                    server_id, user_api_key_auth=user_api_key_dict
+                )
+            )
 
         verbose_proxy_logger.debug(f"Available tools: {tools}")
 
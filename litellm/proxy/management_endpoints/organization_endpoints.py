@@ -18,7 +18,10 @@ from fastapi import APIRouter, Depends, HTTPException, Request, status
 
 from litellm._logging import verbose_proxy_logger
 from litellm.proxy._types import *
-from litellm.proxy.auth.auth_checks import can_user_call_model
+from litellm.proxy.auth.auth_checks import (
+    _delete_cache_org_object,
+    can_user_call_model,
+)
 from litellm.proxy.auth.user_api_key_auth import user_api_key_auth
 from litellm.proxy.management_endpoints.budget_management_endpoints import (
     new_budget,
@@ -26,6 +29,7 @@ from litellm.proxy.management_endpoints.budget_management_endpoints import (
 )
 from litellm.proxy.management_helpers.object_permission_utils import (
     handle_update_object_permission_common,
+    prepare_object_permission_for_db,
 )
 from litellm.proxy.management_helpers.utils import (
     get_new_internal_user_defaults,
@@ -233,7 +237,9 @@ async def _set_object_permission(
     if data.object_permission is not None:
         created_object_permission = (
             await prisma_client.db.litellm_objectpermissiontable.create(
-                data=data.object_permission.model_dump(exclude_none=True),
+                data=prepare_object_permission_for_db(
+                    data.object_permission.model_dump(exclude_none=True)
+                ),
             )
         )
         del data.object_permission
@@ -254,7 +260,11 @@ async def update_organization(
     """
     Update an organization
     """
-    from litellm.proxy.proxy_server import prisma_client
+    from litellm.proxy.proxy_server import (
+        prisma_client,
+        proxy_logging_obj,
+        user_api_key_cache,
+    )
 
     if prisma_client is None:
         raise HTTPException(
@@ -299,6 +309,13 @@ async def update_organization(
         include={"members": True, "teams": True, "litellm_budget_table": True},
     )
 
+    # auth reads the org from cache - drop it so the update applies on the next request
+    await _delete_cache_org_object(
+        org_id=existing_organization_row.organization_id,
+        user_api_key_cache=user_api_key_cache,
+        proxy_logging_obj=proxy_logging_obj,
+    )
+
     return response
 
 
@@ -346,7 +363,11 @@ async def delete_organization(
 
     - organization_ids: List[str] - The organization ids to delete.
     """
-    from litellm.proxy.proxy_server import prisma_client
+    from litellm.proxy.proxy_server import (
+        prisma_client,
+        proxy_logging_obj,
+        user_api_key_cache,
+    )
 
     if prisma_client is None:
         raise HTTPException(
@@ -384,6 +405,11 @@ async def delete_organization(
                 status_code=404,
                 detail={"error": f"Organization={organization_id} not found"},
             )
+        await _delete_cache_org_object(
+            org_id=organization_id,
+            user_api_key_cache=user_api_key_cache,
+            proxy_logging_obj=proxy_logging_obj,
+        )
         deleted_orgs.append(deleted_org)
 
     return deleted_orgs
@@ -74,6 +74,7 @@ from litellm.proxy.management_endpoints.tag_management_endpoints import (
 )
 from litellm.proxy.management_helpers.object_permission_utils import (
     handle_update_object_permission_common,
+    prepare_object_permission_for_db,
 )
 from litellm.proxy.management_helpers.team_member_permission_checks import (
     TeamMemberPermissionChecks,
@@ -553,7 +554,9 @@ async def _set_object_permission(
     if data.object_permission is not None:
         created_object_permission = (
             await prisma_client.db.litellm_objectpermissiontable.create(
-                data=data.object_permission.model_dump(exclude_none=True),
+                data=prepare_object_permission_for_db(
+                    data.object_permission.model_dump(exclude_none=True)
+                ),
             )
         )
         del data.object_permission
@@ -11,6 +11,17 @@ from litellm._logging import verbose_proxy_logger
 from litellm.proxy.utils import PrismaClient
 
 
+def prepare_object_permission_for_db(object_permission: Dict) -> Dict:
+    """
+    Serialize the Json columns of the LiteLLM_ObjectPermissionTable (`mcp_tool_permissions`) before writing them
+    """
+    if isinstance(object_permission.get("mcp_tool_permissions"), dict):
+        object_permission["mcp_tool_permissions"] = json.dumps(
+            object_permission["mcp_tool_permissions"]
+        )
+    return object_permission
+
+
 async def attach_object_permission_to_dict(
     data_dict: Dict,
     prisma_client: PrismaClient,
@@ -113,6 +124,9 @@ async def handle_update_object_permission_common(
 
     if isinstance(new_object_permission, dict):
         existing_object_permissions_dict.update(new_object_permission)
+    existing_object_permissions_dict = prepare_object_permission_for_db(
+        existing_object_permissions_dict
+    )
 
     #########################################################
     # Commit the update to the LiteLLM_ObjectPermissionTable
@@ -129,6 +129,7 @@ from litellm.caching.caching import DualCache, RedisCache
 from litellm.constants import (
     DAYS_IN_A_MONTH,
     DEFAULT_HEALTH_CHECK_INTERVAL,
+    DEFAULT_MCP_HEALTH_CHECK_INTERVAL,
     DEFAULT_MODEL_CREATED_AT_TIME,
     LITELLM_PROXY_ADMIN_NAME,
     PROMETHEUS_FALLBACK_STATS_SEND_TIME_HOURS,
@@ -623,6 +624,9 @@ async def proxy_startup_event(app: FastAPI):
             _run_background_health_check()
         )  # start the background health check coroutine.
 
+    ## MCP SERVER HEALTH CHECKS ##
+    ProxyStartupEvent._start_mcp_server_health_checks(general_settings=general_settings)
+
     if prompt_injection_detection_obj is not None:  # [TODO] - REFACTOR THIS
         prompt_injection_detection_obj.update_environment(router=llm_router)
 
@@ -2856,6 +2860,7 @@ class ProxyConfig:
         ex. Vector Stores, Guardrails, MCP tools, etc.
         """
         await self._init_guardrails_in_db(prisma_client=prisma_client)
+        await self._init_guardrail_policies_in_db(prisma_client=prisma_client)
         await self._init_vector_stores_in_db(prisma_client=prisma_client)
         await self._init_mcp_servers_in_db()
         await self._init_pass_through_endpoints_in_db()
@@ -2887,6 +2892,24 @@ class ProxyConfig:
                 )
             )
 
+    async def _init_guardrail_policies_in_db(self, prisma_client: PrismaClient):
+        from litellm.proxy.guardrails.guardrail_policy_registry import (
+            GUARDRAIL_POLICY_REGISTRY,
+            GuardrailPolicyRegistry,
+        )
+
+        try:
+            policies_in_db = await GuardrailPolicyRegistry.get_all_policies_from_db(
+                prisma_client=prisma_client
+            )
+            GUARDRAIL_POLICY_REGISTRY.load_policies(policies=policies_in_db)
+        except Exception as e:
+            verbose_proxy_logger.exception(
+                "litellm.proxy.proxy_server.py::ProxyConfig:_init_guardrail_policies_in_db - {}".format(
+                    str(e)
+                )
+            )
+
     async def _init_vector_stores_in_db(self, prisma_client: PrismaClient):
         from litellm.vector_stores.vector_store_registry import VectorStoreRegistry
 
@@ -3343,6 +3366,29 @@ class ProxyStartupEvent:
             litellm_jwtauth=litellm_jwtauth,
         )
 
+    @classmethod
+    def _start_mcp_server_health_checks(cls, general_settings: dict):
+        """
+        Periodically health check the MCP servers, every `mcp_health_check_interval` seconds.
+
+        Each check connects to every server - set `mcp_health_check_interval: 0` to turn them off.
+        """
+        from litellm.proxy._experimental.mcp_server.utils import is_mcp_available
+
+        interval = general_settings.get("mcp_health_check_interval")
+        if interval is None:
+            interval = DEFAULT_MCP_HEALTH_CHECK_INTERVAL
+        if not is_mcp_available() or not isinstance(interval, int) or interval <= 0:
+            return
+
+        from litellm.proxy._experimental.mcp_server.health_check import (
+            mcp_server_health_monitor,
+        )
+
+        asyncio.create_task(
+            mcp_server_health_monitor.run_periodic_health_checks(interval=interval)
+        )
+
     @classmethod
     def _add_proxy_budget_to_db(cls, litellm_proxy_budget_name: str):
         """Adds a global proxy budget to db"""
@@ -3,7 +3,7 @@ import collections
 import os
 from datetime import datetime, timedelta, timezone
 from functools import lru_cache
-from typing import TYPE_CHECKING, Any, Dict, List, Literal, Optional
+from typing import TYPE_CHECKING, Any, Dict, List, Literal, Optional, Tuple
 
 import fastapi
 from fastapi import APIRouter, Depends, HTTPException, status
@@ -1666,6 +1666,49 @@ async def ui_view_spend_logs(  # noqa: PLR0915
     model: Optional[str] = fastapi.Query(
         default=None, description="Filter logs by model"
     ),
+    guardrail_name: Optional[str] = fastapi.Query(
+        default=None, description="Filter logs by the guardrail that ran on the request"
+    ),
+    guardrail_status: Optional[Literal["passed", "masked", "blocked"]] = fastapi.Query(
+        default=None, description="Filter logs by the outcome of the guardrail"
+    ),
+    end_user: Optional[str] = fastapi.Query(
+        default=None, description="Filter logs by end_user"
+    ),
+    call_type: Optional[str] = fastapi.Query(
+        default=None, description="Filter logs by call type (e.g. acompletion)"
+    ),
+    custom_llm_provider: Optional[str] = fastapi.Query(
+        default=None, description="Filter logs by LLM provider"
+    ),
+    api_base: Optional[str] = fastapi.Query(
+        default=None, description="Filter logs with an api_base containing this value"
+    ),
+    cache_hit: Optional[bool] = fastapi.Query(
+        default=None, description="Filter logs by whether the response was cached"
+    ),
+    request_tag: Optional[str] = fastapi.Query(
+        default=None, description="Filter logs with this request tag"
+    ),
+    min_latency_ms: Optional[float] = fastapi.Query(
+        default=None, description="Filter logs that took at least this many milliseconds"
+    ),
+    max_latency_ms: Optional[float] = fastapi.Query(
+        default=None, description="Filter logs that took at most this many milliseconds"
+    ),
+    min_tokens: Optional[int] = fastapi.Query(
+        default=None, description="Filter logs with at least this many total tokens"
+    ),
+    max_tokens: Optional[int] = fastapi.Query(
+        default=None, description="Filter logs with at most this many total tokens"
+    ),
+    error_class: Optional[str] = fastapi.Query(
+        default=None, description="Filter failed logs by exception class (e.g. RateLimitError)"
+    ),
+    search: Optional[str] = fastapi.Query(
+        default=None,
+        description="Case-insensitive text search over the stored messages and response. Requires `store_prompts_in_spend_logs`",
+    ),
 ):
     """
     View spend logs for UI with pagination support
@@ -1734,6 +1777,50 @@ async def ui_view_spend_logs(  # noqa: PLR0915
         if model is not None:
             where_conditions["model"] = model
 
+        if end_user is not None:
+            where_conditions["end_user"] = end_user
+
+        if call_type is not None:
+            where_conditions["call_type"] = call_type
+
+        if custom_llm_provider is not None:
+            where_conditions["custom_llm_provider"] = custom_llm_provider
+
+        if api_base is not None:
+            where_conditions["api_base"] = {"contains": api_base}
+
+        if cache_hit is not None:
+            # stored as str(bool), with "None" when the cache wasn't checked
+            where_conditions["cache_hit"] = "True" if cache_hit else {"not": "True"}
+
+        if min_tokens is not None or max_tokens is not None:
+            where_conditions["total_tokens"] = {}
+            if min_tokens is not None:
+                where_conditions["total_tokens"]["gte"] = min_tokens
+            if max_tokens is not None:
+                where_conditions["total_tokens"]["lte"] = max_tokens
+
+        sql_conditions, sql_params = _build_spend_logs_sql_filters(
+            guardrail_name=guardrail_name,
+            guardrail_status=guardrail_status,
+            error_class=error_class,
+            request_tag=request_tag,
+            min_latency_ms=min_latency_ms,
+            max_latency_ms=max_latency_ms,
+            search=search,
+        )
+        if sql_conditions:
+            where_conditions["request_id"] = {
+                "in": await _get_request_ids_for_sql_filters(
+                    prisma_client=prisma_client,
+                    start_date=start_date_obj,
+                    end_date=end_date_obj,
+                    sql_conditions=sql_conditions,
+                    sql_params=sql_params,
+                    request_id=request_id,
+                )
+            }
+
         if min_spend is not None or max_spend is not None:
             where_conditions["spend"] = {}
             if min_spend is not None:
@@ -2949,6 +3036,108 @@ async def ui_view_session_spend_logs(
             )
 
 
+_GUARDRAIL_MASKED_SQL = """(
+    "metadata"->'guardrail_information'->>'guardrail_status' IS DISTINCT FROM 'failure'
+    AND jsonb_typeof("metadata"->'guardrail_information'->'masked_entity_count') = 'object'
+    AND "metadata"->'guardrail_information'->'masked_entity_count' <> '{}'::jsonb
+)"""
+
+_GUARDRAIL_STATUS_SQL = {
+    "blocked": "\"metadata\"->'guardrail_information'->>'guardrail_status' = 'failure'",
+    "masked": _GUARDRAIL_MASKED_SQL,
+    "passed": f"""(
+    "metadata"->'guardrail_information'->>'guardrail_name' IS NOT NULL
+    AND "metadata"->'guardrail_information'->>'guardrail_status' IS DISTINCT FROM 'failure'
+    AND NOT {_GUARDRAIL_MASKED_SQL}
+)""",
+}
+
+
+def _escape_like_pattern(value: str) -> str:
+    return value.replace("\\", "\\\\").replace("%", "\\%").replace("_", "\\_")
+
+
+def _build_spend_logs_sql_filters(
+    guardrail_name: Optional[str] = None,
+    guardrail_status: Optional[str] = None,
+    error_class: Optional[str] = None,
+    request_tag: Optional[str] = None,
+    min_latency_ms: Optional[float] = None,
+    max_latency_ms: Optional[float] = None,
+    search: Optional[str] = None,
+) -> Tuple[List[str], List[Any]]:
+    """
+    Helper function to build the SQL conditions for the spend log filters the prisma where-clause can't express -
+    fields inside the metadata / request_tags JSON, latency and full-text search.
+
+    Returns:
+        Tuple[List[str], List[Any]]: The conditions and their params. Params are numbered from $3, after the start and end date.
+    """
+    conditions: List[str] = []
+    params: List[Any] = []
+
+    def add_param(value: Any) -> str:
+        params.append(value)
+        return f"${len(params) + 2}"
+
+    if guardrail_name is not None:
+        conditions.append(
+            f"\"metadata\"->'guardrail_information'->>'guardrail_name' = {add_param(guardrail_name)}"
+        )
+    if guardrail_status is not None:
+        conditions.append(_GUARDRAIL_STATUS_SQL[guardrail_status])
+    if error_class is not None:
+        conditions.append(
+            f"\"metadata\"->'error_information'->>'error_class' = {add_param(error_class)}"
+        )
+    if request_tag is not None:
+        conditions.append(
+            f"\"request_tags\" @> jsonb_build_array({add_param(request_tag)}::text)"
+        )
+    if min_latency_ms is not None:
+        conditions.append(
+            f"EXTRACT(EPOCH FROM (\"endTime\" - \"startTime\")) * 1000 >= {add_param(min_latency_ms)}::float"
+        )
+    if max_latency_ms is not None:
+        conditions.append(
+            f"EXTRACT(EPOCH FROM (\"endTime\" - \"startTime\")) * 1000 <= {add_param(max_latency_ms)}::float"
+        )
+    if search:
+        search_param = add_param(f"%{_escape_like_pattern(search)}%")
+        conditions.append(
+            f"(\"messages\"::text ILIKE {search_param} OR \"response\"::text ILIKE {search_param})"
+        )
+    return conditions, params
+
+
+async def _get_request_ids_for_sql_filters(
+    prisma_client: PrismaClient,
+    start_date: datetime,
+    end_date: datetime,
+    sql_conditions: List[str],
+    sql_params: List[Any],
+    request_id: Optional[str] = None,
+) -> List[str]:
+    """
+    Helper function to get the request_ids of the spend logs matching the conditions from `_build_spend_logs_sql_filters`.
+    """
+    rows = await prisma_client.db.query_raw(
+        f"""
+        SELECT "request_id"
+        FROM "LiteLLM_SpendLogs"
+        WHERE "startTime" BETWEEN $1::timestamp AND $2::timestamp
+            AND {" AND ".join(sql_conditions)}
+        """,
+        start_date,
+        end_date,
+        *sql_params,
+    )
+    request_ids = [row["request_id"] for row in rows or []]
+    if request_id is not None:
+        return [request_id] if request_id in request_ids else []
+    return request_ids
+
+
 def _build_status_filter_condition(status_filter: Optional[str]) -> Dict[str, Any]:
     """
     Helper function to build the status filter condition for database queries.
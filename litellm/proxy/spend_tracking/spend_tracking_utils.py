@@ -232,7 +232,7 @@ def get_logging_payload(  # noqa: PLR0915
         applied_guardrails=(
             standard_logging_payload["metadata"].get("applied_guardrails", None)
             if standard_logging_payload is not None
-            else None
+            else metadata.get("applied_guardrails", None)
         ),
         batch_models=(
             standard_logging_payload.get("hidden_params", {}).get("batch_models", None)
@@ -264,7 +264,8 @@ def get_logging_payload(  # noqa: PLR0915
         guardrail_information=(
             standard_logging_payload.get("guardrail_information", None)
             if standard_logging_payload is not None
-            else None
+            # failed requests (e.g. blocked by a guardrail) have no standard logging payload
+            else metadata.get("standard_logging_guardrail_information", None)
         ),
     )
 
@@ -2,7 +2,7 @@ from datetime import datetime
 from enum import Enum
 from typing import Any, Dict, List, Literal, Optional, TypedDict, Union
 
-from pydantic import BaseModel, ConfigDict, Field, SecretStr
+from pydantic import BaseModel, ConfigDict, Field, SecretStr, model_validator
 from typing_extensions import Required, TypedDict
 
 from litellm.types.proxy.guardrails.guardrail_hooks.openai.openai_moderation import (
@@ -38,6 +38,7 @@ class SupportedGuardrailIntegrations(Enum):
     AZURE_PROMPT_SHIELD = "azure/prompt_shield"
     AZURE_TEXT_MODERATIONS = "azure/text_moderations"
     OPENAI_MODERATION = "openai_moderation"
+    CUSTOM_RULES = "custom_rules"
 
 class Role(Enum):
     SYSTEM = "system"
@@ -343,6 +344,116 @@ class LassoGuardrailConfigModel(BaseModel):
     )
 
 
+class CustomRuleType(str, Enum):
+    REGEX = "regex"
+    KEYWORDS = "keywords"
+    COMPETITORS = "competitors"  # keywords, with a competitor-specific default error message
+    MAX_LENGTH = "max_length"
+    VALID_JSON = "valid_json"
+
+
+class CustomRuleAction(str, Enum):
+    BLOCK = "block"
+    MASK = "mask"  # replace the matched text, only for regex / keyword rules
+    FLAG = "flag"  # let the text through, only record the match
+
+
+def _has_nested_quantifier(pattern: str) -> bool:
+    """
+    True if a repeated group contains another variable-length repeat, e.g. `(a+)+` or `(\\w+\\s?)*`.
+
+    These can backtrack exponentially on text that almost matches.
+    """
+    try:
+        from re import _parser as sre_parse  # type: ignore[attr-defined]
+    except ImportError:  # Python < 3.11
+        import sre_parse  # type: ignore[no-redef]
+
+    def _subpatterns(value: Any) -> List[Any]:
+        if isinstance(value, sre_parse.SubPattern):
+            return [value]
+        if isinstance(value, (list, tuple)):
+            return [sub for item in value for sub in _subpatterns(item)]
+        return []
+
+    def _check(parsed: Any, in_unbounded_repeat: bool) -> bool:
+        for op, av in parsed:
+            if op in (sre_parse.MAX_REPEAT, sre_parse.MIN_REPEAT):
+                min_count, max_count, body = av
+                if in_unbounded_repeat and max_count > 1 and min_count != max_count:
+                    return True
+                if _check(body, in_unbounded_repeat or max_count == sre_parse.MAXREPEAT):
+                    return True
+            elif any(_check(sub, in_unbounded_repeat) for sub in _subpatterns(av)):
+                return True
+        return False
+
+    return _check(sre_parse.parse(pattern), False)
+
+
+class CustomRule(BaseModel):
+    """A single check of the `custom_rules` guardrail"""
+
+    name: str = Field(description="Name of the rule, shown in errors and logs")
+    type: CustomRuleType
+    pattern: Optional[str] = Field(
+        default=None, description="Regular expression, for `regex` rules"
+    )
+    keywords: Optional[List[str]] = Field(
+        default=None,
+        description="Words or phrases to match, for `keywords` and `competitors` rules",
+    )
+    case_sensitive: bool = False
+    max_length: Optional[int] = Field(
+        default=None, description="Maximum number of characters, for `max_length` rules"
+    )
+    action: CustomRuleAction = CustomRuleAction.BLOCK
+    error_message: Optional[str] = Field(
+        default=None, description="Returned to the caller when the rule blocks"
+    )
+
+    @model_validator(mode="after")
+    def validate_rule(self) -> "CustomRule":
+        import re
+
+        if self.type == CustomRuleType.REGEX:
+            if not self.pattern:
+                raise ValueError(f"Rule '{self.name}': `pattern` is required")
+            try:
+                re.compile(self.pattern)
+            except re.error as e:
+                raise ValueError(f"Rule '{self.name}': invalid regex - {e}")
+            if _has_nested_quantifier(self.pattern):
+                raise ValueError(
+                    f"Rule '{self.name}': nested repeats like `(a+)+` can make the regex hang, rewrite it without repeating a group that contains `+`, `*` or `{{m,n}}`"
+                )
+        elif self.type in (CustomRuleType.KEYWORDS, CustomRuleType.COMPETITORS):
+            if not self.keywords:
+                raise ValueError(f"Rule '{self.name}': `keywords` is required")
+        elif self.type == CustomRuleType.MAX_LENGTH:
+            if self.max_length is None or self.max_length < 1:
+                raise ValueError(
+                    f"Rule '{self.name}': `max_length` must be a positive number"
+                )
+
+        if self.action == CustomRuleAction.MASK and self.type in (
+            CustomRuleType.MAX_LENGTH,
+            CustomRuleType.VALID_JSON,
+        ):
+            raise ValueError(
+                f"Rule '{self.name}': {self.type.value} rules can only block or flag"
+            )
+        return self
+
+
+class CustomRulesGuardrailConfigModel(BaseModel):
+    """Configuration parameters for the custom rules guardrail"""
+
+    custom_rules: Optional[List[CustomRule]] = Field(
+        default=None, description="Rules to check, in order"
+    )
+
+
 class BaseLitellmParams(BaseModel):  # works for new and patch update guardrails
     api_key: Optional[str] = Field(
         default=None, description="API key for the guardrail service"
@@ -409,6 +520,7 @@ class LitellmParams(
     BedrockGuardrailConfigModel,
     LakeraV2GuardrailConfigModel,
     LassoGuardrailConfigModel,
+    CustomRulesGuardrailConfigModel,
     BaseLitellmParams,
 ):
     guardrail: str = Field(description="The type of guardrail integration to use")
@@ -505,6 +617,198 @@ class ApplyGuardrailResponse(BaseModel):
     response_text: str
 
 
+class GuardrailTestRequest(BaseModel):
+    text: str
+    event_hook: Literal["pre_call", "during_call", "post_call"] = "pre_call"
+    """
+    Run the guardrail as if `text` was the user input (pre_call / during_call) or the model output (post_call)
+    """
+
+
+class GuardrailTestResponse(BaseModel):
+    verdict: Literal["passed", "masked", "blocked"]
+    output_text: Optional[str] = None
+    """
+    The text after the guardrail ran, e.g. with PII masked. None when blocked.
+    """
+
+    error: Optional[str] = None
+    """
+    Why the guardrail blocked the text
+    """
+
+    latency_ms: float
+    guardrail_response: Optional[Any] = None
+    """
+    Raw guardrail response, e.g. the entities Presidio detected with their scores
+    """
+
+    masked_entity_count: Optional[Dict[str, int]] = None
+
+
+class CustomRuleMatch(BaseModel):
+    rule_name: str
+    action: CustomRuleAction
+    matches: List[str]
+    """
+    The matched text, or why the text failed a `max_length` / `valid_json` rule
+    """
+
+
+class CustomRulesResult(BaseModel):
+    verdict: Literal["passed", "flagged", "masked", "blocked"]
+    output_text: Optional[str] = None
+    """
+    The text with masked matches replaced. None when blocked.
+    """
+
+    error: Optional[str] = None
+    matches: List[CustomRuleMatch] = []
+
+
+class CustomRulesPreviewRequest(BaseModel):
+    rules: List[CustomRule]
+    text: str
+
+
+class GuardrailPolicyAction(str, Enum):
+    """
+    What a policy step does with the guardrail's result
+    """
+
+    block = "block"  # reject the request and stop the chain
+    mask = "mask"  # apply the guardrail's changes (e.g. PII masking), never reject
+    warn = "warn"  # keep the request as-is, flag it in the `x-litellm-guardrail-warnings` header
+    log_only = "log_only"  # keep the request as-is, only record the result
+
+
+class GuardrailPolicyStep(BaseModel):
+    guardrail_name: str
+    event_hook: Literal["pre_call", "post_call"] = "pre_call"
+    action: GuardrailPolicyAction = GuardrailPolicyAction.block
+
+
+class GuardrailPolicyConditions(BaseModel):
+    """
+    A policy only runs when every condition that is set matches the request
+    """
+
+    models: Optional[List[str]] = None
+    tags: Optional[List[str]] = None
+    team_ids: Optional[List[str]] = None
+    key_metadata: Optional[Dict[str, Any]] = None
+    """
+    Key metadata values that must match, e.g. {"environment": "prod"}
+    """
+
+
+class GuardrailPolicy(BaseModel):
+    policy_id: Optional[str] = None
+    policy_name: str
+    description: Optional[str] = None
+    steps: List[GuardrailPolicyStep] = []
+    """
+    Guardrails to run, in order
+    """
+
+    conditions: GuardrailPolicyConditions = GuardrailPolicyConditions()
+    attached_models: List[str] = []
+    attached_tags: List[str] = []
+    default_on: bool = False
+    """
+    Run on every request, not only on the attached models / tags
+    """
+
+    created_at: Optional[datetime] = None
+    updated_at: Optional[datetime] = None
+
+
+class ListGuardrailPoliciesResponse(BaseModel):
+    policies: List[GuardrailPolicy]
+
+
+class GuardrailAnalyticsSummary(BaseModel):
+    guardrail_name: str
+    total_runs: int
+    blocked: int
+    masked: int
+    """
+    Requests the guardrail let through after masking entities (e.g. PII)
+    """
+
+    block_rate: float
+    trigger_rate: float
+    """
+    Share of runs that were blocked or masked
+    """
+
+
+class GuardrailAnalyticsDailyMetrics(BaseModel):
+    date: str
+    guardrail_name: str
+    total_runs: int
+    blocked: int
+    masked: int
+
+
+class GuardrailAnalyticsLatency(BaseModel):
+    guardrail_name: str
+    guardrail_mode: Optional[str] = None
+    total_runs: int
+    avg_latency_ms: float
+    p95_latency_ms: float
+
+
+class GuardrailAnalyticsEntityCount(BaseModel):
+    guardrail_name: str
+    entity_type: str
+    count: int
+
+
+class GuardrailAnalyticsTriggerSource(BaseModel):
+    """
+    A key or team whose requests triggered a guardrail
+    """
+
+    id: Optional[str] = None
+    alias: Optional[str] = None
+    blocked: int
+    masked: int
+
+
+class GuardrailAnalyticsResponse(BaseModel):
+    summary: List[GuardrailAnalyticsSummary]
+    daily: List[GuardrailAnalyticsDailyMetrics]
+    latency: List[GuardrailAnalyticsLatency]
+    entity_types: List[GuardrailAnalyticsEntityCount]
+    top_keys: List[GuardrailAnalyticsTriggerSource]
+    top_teams: List[GuardrailAnalyticsTriggerSource]
+
+
+class GuardrailTestCase(BaseModel):
+    """
+    A saved test bench input, with the outcome the guardrail should keep producing for it
+    """
+
+    id: str
+    name: str
+    text: str
+    event_hook: Literal["pre_call", "during_call", "post_call"] = "pre_call"
+    expected_verdict: Literal["passed", "masked", "blocked"]
+    expected_output: Optional[str] = None
+    """
+    Also compared when set, e.g. the masked text
+    """
+
+
+class GuardrailTestCasesRequest(BaseModel):
+    test_cases: List[GuardrailTestCase]
+
+
+class GuardrailTestCasesResponse(BaseModel):
+    test_cases: List[GuardrailTestCase]
+
+
 class PatchGuardrailRequest(BaseModel):
     guardrail_name: Optional[str] = None
     litellm_params: Optional[BaseLitellmParams] = None
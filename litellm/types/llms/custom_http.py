@@ -20,6 +20,7 @@ class httpxSpecialProvider(str, Enum):
     PassThroughEndpoint = "pass_through_endpoint"
     PromptFactory = "prompt_factory"
     SSO_HANDLER = "sso_handler"
+    MCP_OAUTH = "mcp_oauth"
 
 
 VerifyTypes = Union[str, bool, ssl.SSLContext]
@@ -30,13 +30,20 @@ class MCPAuth(str, enum.Enum):
     api_key = "api_key"
     bearer_token = "bearer_token"
     basic = "basic"
+    oauth2 = "oauth2"
 
 
 # MCP Literals
 MCPTransportType = Literal[MCPTransport.sse, MCPTransport.http, MCPTransport.stdio]
 MCPSpecVersionType = Literal[MCPSpecVersion.nov_2024, MCPSpecVersion.mar_2025]
 MCPAuthType = Optional[
-    Literal[MCPAuth.none, MCPAuth.api_key, MCPAuth.bearer_token, MCPAuth.basic]
+    Literal[
+        MCPAuth.none,
+        MCPAuth.api_key,
+        MCPAuth.bearer_token,
+        MCPAuth.basic,
+        MCPAuth.oauth2,
+    ]
 ]
 
 
@@ -53,6 +60,56 @@ class MCPServerCostInfo(TypedDict, total=False):
     """
 
 
+class MCPToolPermission(TypedDict, total=False):
+    allowed_tools: Optional[List[str]]
+    """
+    Only these tools of the server can be listed and called. All tools if not set.
+    """
+
+    denied_tools: Optional[List[str]]
+    """
+    These tools of the server can never be listed or called, e.g. destructive ones
+    """
+
+
+class MCPOAuth2Config(TypedDict, total=False):
+    authorization_endpoint: str
+    """
+    Authorization server endpoint the user is sent to, discovered from the server's metadata
+    """
+
+    token_endpoint: str
+    """
+    Endpoint used to exchange authorization codes and refresh tokens
+    """
+
+    registration_endpoint: Optional[str]
+    """
+    Dynamic client registration endpoint (RFC 7591), if the authorization server supports it
+    """
+
+    client_id: str
+    """
+    Public client id - either dynamically registered or pre-registered by the admin
+    """
+
+    scopes: Optional[List[str]]
+    """
+    Scopes requested when authorizing
+    """
+
+    resource: Optional[str]
+    """
+    Resource indicator (RFC 8707) for the MCP server, sent with authorization and token requests
+    """
+
+    token_mode: Literal["per_user", "shared"]
+    """
+    - per_user: every dashboard user authorizes with their own account, tokens stay in their browser
+    - shared: an admin authorizes once and the proxy uses that token for all requests
+    """
+
+
 class MCPStdioConfig(TypedDict, total=False):
     command: str
     """
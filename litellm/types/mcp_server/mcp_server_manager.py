@@ -1,10 +1,10 @@
-from typing import TYPE_CHECKING, Dict, List, Optional
+from typing import TYPE_CHECKING, Dict, List, Literal, Optional
 
 from pydantic import BaseModel, ConfigDict
 from typing_extensions import TypedDict
 
 from litellm.proxy._types import MCPAuthType, MCPSpecVersionType, MCPTransportType
-from litellm.types.mcp import MCPServerCostInfo
+from litellm.types.mcp import MCPOAuth2Config, MCPServerCostInfo
 
 
 class MCPInfo(TypedDict, total=False):
@@ -12,6 +12,7 @@ class MCPInfo(TypedDict, total=False):
     description: Optional[str]
     logo_url: Optional[str]
     mcp_server_cost_info: Optional[MCPServerCostInfo]
+    oauth2: Optional[MCPOAuth2Config]
 
 
 class MCPServer(BaseModel):
@@ -28,3 +29,25 @@ class MCPServer(BaseModel):
     args: Optional[List[str]] = None
     env: Optional[Dict[str, str]] = None
     model_config = ConfigDict(arbitrary_types_allowed=True)
+
+
+class MCPServerHealthCheck(TypedDict):
+    status: Literal["healthy", "unhealthy", "skipped"]
+    """
+    `skipped` - the server needs per-user credentials, so the proxy can't check it on its own
+    """
+    checked_at: float
+    latency_ms: Optional[float]
+    tools_count: Optional[int]
+    error: Optional[str]
+
+
+class MCPToolUsageStats(TypedDict):
+    tool_name: str
+    calls: int
+    failed_calls: int
+    error_rate: float
+    p50_latency_ms: Optional[float]
+    p95_latency_ms: Optional[float]
+    cost_per_query: float
+    cost: float
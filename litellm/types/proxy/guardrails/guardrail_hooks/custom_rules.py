@@ -0,0 +1,11 @@
+from .base import GuardrailConfigModel
+
+
+class CustomRulesGuardrailConfigModel(GuardrailConfigModel):
+    """
+    The rules themselves (`custom_rules`) are authored in the rule builder on the UI, not as provider fields
+    """
+
+    @staticmethod
+    def ui_friendly_name() -> str:
+        return "Custom Rules"
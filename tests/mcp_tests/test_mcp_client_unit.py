@@ -62,6 +62,15 @@ class TestMCPClientUnitTests:
         )
         headers = client._get_auth_headers()
         assert headers == {"X-API-Key": "api_key_123"}
+
+        # OAuth2 access tokens are sent as bearer tokens
+        client = MCPClient(
+            "http://example.com",
+            auth_type=MCPAuth.oauth2,
+            auth_value="oauth_access_token"
+        )
+        headers = client._get_auth_headers()
+        assert headers == {"Authorization": "Bearer oauth_access_token"}
     
     @pytest.mark.asyncio
     @patch('litellm.experimental_mcp_client.client.streamablehttp_client')
@@ -165,5 +174,105 @@ class TestMCPClientUnitTests:
         )
 
 
+    @pytest.mark.asyncio
+    @patch('litellm.experimental_mcp_client.client.streamablehttp_client')
+    @patch('litellm.experimental_mcp_client.client.ClientSession')
+    async def test_list_and_read_resources(self, mock_session_class, mock_transport):
+        """Test listing resources and reading one by URI."""
+        from mcp.types import ReadResourceResult, Resource, TextResourceContents
+
+        # Setup mocks
+        mock_transport_ctx = AsyncMock()
+        mock_transport.return_value = mock_transport_ctx
+        mock_transport_instance = MagicMock()
+        mock_transport_ctx.__aenter__ = AsyncMock(return_value=mock_transport_instance)
+
+        mock_session_ctx = AsyncMock()
+        mock_session_class.return_value = mock_session_ctx
+        mock_session_instance = AsyncMock()
+        mock_session_ctx.__aenter__ = AsyncMock(return_value=mock_session_instance)
+
+        mock_resources = [
+            Resource(uri="docs://readme", name="README", mimeType="text/markdown")
+        ]
+        mock_list_result = MagicMock()
+        mock_list_result.resources = mock_resources
+        mock_session_instance.list_resources.return_value = mock_list_result
+
+        mock_read_result = ReadResourceResult(
+            contents=[
+                TextResourceContents(
+                    uri="docs://readme", mimeType="text/markdown", text="# Hello"
+                )
+            ]
+        )
+        mock_session_instance.read_resource.return_value = mock_read_result
+
+        client = MCPClient("http://example.com")
+        assert await client.list_resources() == mock_resources
+        assert await client.read_resource("docs://readme") == mock_read_result
+
+        mock_session_instance.initialize.assert_called_once()
+        read_uri = mock_session_instance.read_resource.call_args[0][0]
+        assert str(read_uri) == "docs://readme"
+
+    @pytest.mark.asyncio
+    @patch('litellm.experimental_mcp_client.client.streamablehttp_client')
+    @patch('litellm.experimental_mcp_client.client.ClientSession')
+    async def test_get_prompt(self, mock_session_class, mock_transport):
+        """Test getting a prompt with arguments."""
+        from mcp.types import GetPromptResult, PromptMessage, TextContent
+
+        # Setup mocks
+        mock_transport_ctx = AsyncMock()
+        mock_transport.return_value = mock_transport_ctx
+        mock_transport_instance = MagicMock()
+        mock_transport_ctx.__aenter__ = AsyncMock(return_value=mock_transport_instance)
+
+        mock_session_ctx = AsyncMock()
+        mock_session_class.return_value = mock_session_ctx
+        mock_session_instance = AsyncMock()
+        mock_session_ctx.__aenter__ = AsyncMock(return_value=mock_session_instance)
+
+        mock_result = GetPromptResult(
+            messages=[
+                PromptMessage(
+                    role="user", content=TextContent(type="text", text="Review main.py")
+                )
+            ]
+        )
+        mock_session_instance.get_prompt.return_value = mock_result
+
+        client = MCPClient("http://example.com")
+        result = await client.get_prompt("code_review", {"file": "main.py"})
+
+        assert result == mock_result
+        mock_session_instance.get_prompt.assert_called_once_with(
+            name="code_review", arguments={"file": "main.py"}
+        )
+
+    @pytest.mark.asyncio
+    @patch('litellm.experimental_mcp_client.client.streamablehttp_client')
+    @patch('litellm.experimental_mcp_client.client.ClientSession')
+    async def test_list_prompts_failure_disconnects(self, mock_session_class, mock_transport):
+        """Test that a failing request drops the connection."""
+        # Setup mocks
+        mock_transport_ctx = AsyncMock()
+        mock_transport.return_value = mock_transport_ctx
+        mock_transport_instance = MagicMock()
+        mock_transport_ctx.__aenter__ = AsyncMock(return_value=mock_transport_instance)
+
+        mock_session_ctx = AsyncMock()
+        mock_session_class.return_value = mock_session_ctx
+        mock_session_instance = AsyncMock()
+        mock_session_ctx.__aenter__ = AsyncMock(return_value=mock_session_instance)
+        mock_session_instance.list_prompts.side_effect = Exception("Method not found")
+
+        client = MCPClient("http://example.com")
+        with pytest.raises(Exception, match="Method not found"):
+            await client.list_prompts()
+
+        assert client._session is None
+
 if __name__ == "__main__":
     pytest.main([__file__, "-v"]) 
\ No newline at end of file
@@ -719,3 +719,182 @@ async def test_get_tools_from_mcp_servers():
         pytest.fail(f"Unexpected error in tests: {str(e)}")
 
 
+
+
+@pytest.mark.asyncio
+async def test_resources_and_prompts_rest_api_require_server_access():
+    """Resources and prompts REST routes return 403 for servers the key / team can't use"""
+    from fastapi import HTTPException
+    from litellm.proxy._experimental.mcp_server.rest_endpoints import (
+        GetMCPPromptRequest,
+        ReadMCPResourceRequest,
+        get_prompt_rest_api,
+        global_mcp_server_manager,
+        list_prompts_rest_api,
+        list_resources_rest_api,
+        read_resource_rest_api,
+    )
+    from litellm.proxy._types import UserAPIKeyAuth
+
+    mock_user_auth = UserAPIKeyAuth(api_key="test", user_id="test")
+    mock_request = MagicMock(headers={})
+    mock_server = MagicMock(server_id="restricted_server")
+    mock_server.name = "restricted_server"
+
+    with patch.object(
+        global_mcp_server_manager, "get_mcp_server_by_id", return_value=mock_server
+    ), patch.object(
+        global_mcp_server_manager,
+        "get_allowed_mcp_servers",
+        new=AsyncMock(return_value=["other_server"]),
+    ), patch.object(
+        global_mcp_server_manager, "get_prompts_from_server", new=AsyncMock()
+    ) as mock_get_prompts:
+        calls = [
+            list_resources_rest_api(
+                request=mock_request,
+                server_id="restricted_server",
+                user_api_key_dict=mock_user_auth,
+            ),
+            read_resource_rest_api(
+                request=mock_request,
+                data=ReadMCPResourceRequest(server_id="restricted_server", uri="docs://a"),
+                user_api_key_dict=mock_user_auth,
+            ),
+            list_prompts_rest_api(
+                request=mock_request,
+                server_id="restricted_server",
+                user_api_key_dict=mock_user_auth,
+            ),
+            get_prompt_rest_api(
+                request=mock_request,
+                data=GetMCPPromptRequest(server_id="restricted_server", name="greet"),
+                user_api_key_dict=mock_user_auth,
+            ),
+        ]
+        for call in calls:
+            with pytest.raises(HTTPException) as e:
+                await call
+            assert e.value.status_code == 403
+
+        mock_get_prompts.assert_not_called()
+
+
+@pytest.mark.asyncio
+async def test_list_prompts_rest_api_allowed_server():
+    from litellm.proxy._experimental.mcp_server.rest_endpoints import (
+        global_mcp_server_manager,
+        list_prompts_rest_api,
+    )
+    from litellm.proxy._types import UserAPIKeyAuth
+
+    mock_server = MagicMock(server_id="allowed_server")
+    with patch.object(
+        global_mcp_server_manager, "get_mcp_server_by_id", return_value=mock_server
+    ), patch.object(
+        global_mcp_server_manager,
+        "get_allowed_mcp_servers",
+        new=AsyncMock(return_value=["allowed_server"]),
+    ), patch.object(
+        global_mcp_server_manager,
+        "get_prompts_from_server",
+        new=AsyncMock(return_value=[{"name": "greet"}]),
+    ):
+        response = await list_prompts_rest_api(
+            request=MagicMock(headers={}),
+            server_id="allowed_server",
+            user_api_key_dict=UserAPIKeyAuth(api_key="test", user_id="test"),
+        )
+
+    assert response["error"] is None
+    assert response["prompts"] == [{"name": "greet"}]
+
+
+@pytest.mark.asyncio
+async def test_resources_and_prompts_rest_api_unknown_server():
+    """Resources and prompts REST routes return 404 for an unknown server"""
+    from fastapi import HTTPException
+    from litellm.proxy._experimental.mcp_server.rest_endpoints import (
+        GetMCPPromptRequest,
+        ReadMCPResourceRequest,
+        get_prompt_rest_api,
+        global_mcp_server_manager,
+        list_prompts_rest_api,
+        list_resources_rest_api,
+        read_resource_rest_api,
+    )
+    from litellm.proxy._types import UserAPIKeyAuth
+
+    mock_user_auth = UserAPIKeyAuth(api_key="test", user_id="test")
+    mock_request = MagicMock(headers={})
+
+    with patch.object(
+        global_mcp_server_manager, "get_mcp_server_by_id", return_value=None
+    ):
+        calls = [
+            list_resources_rest_api(
+                request=mock_request,
+                server_id="missing_server",
+                user_api_key_dict=mock_user_auth,
+            ),
+            read_resource_rest_api(
+                request=mock_request,
+                data=ReadMCPResourceRequest(server_id="missing_server", uri="docs://a"),
+                user_api_key_dict=mock_user_auth,
+            ),
+            list_prompts_rest_api(
+                request=mock_request,
+                server_id="missing_server",
+                user_api_key_dict=mock_user_auth,
+            ),
+            get_prompt_rest_api(
+                request=mock_request,
+                data=GetMCPPromptRequest(server_id="missing_server", name="greet"),
+                user_api_key_dict=mock_user_auth,
+            ),
+        ]
+        for call in calls:
+            with pytest.raises(HTTPException) as e:
+                await call
+            assert e.value.status_code == 404
+
+
+@pytest.mark.asyncio
+async def test_resources_and_prompts_rest_api_server_error():
+    """Listing resources or prompts returns 500 when the MCP server fails"""
+    from fastapi import HTTPException
+    from litellm.proxy._experimental.mcp_server.rest_endpoints import (
+        global_mcp_server_manager,
+        list_prompts_rest_api,
+        list_resources_rest_api,
+    )
+    from litellm.proxy._types import UserAPIKeyAuth
+
+    mock_user_auth = UserAPIKeyAuth(api_key="test", user_id="test")
+    mock_server = MagicMock(server_id="failing_server")
+    mock_server.name = "failing_server"
+
+    with patch.object(
+        global_mcp_server_manager, "get_mcp_server_by_id", return_value=mock_server
+    ), patch.object(
+        global_mcp_server_manager,
+        "get_allowed_mcp_servers",
+        new=AsyncMock(return_value=["failing_server"]),
+    ), patch.object(
+        global_mcp_server_manager,
+        "get_resources_from_server",
+        new=AsyncMock(side_effect=Exception("connection refused")),
+    ), patch.object(
+        global_mcp_server_manager,
+        "get_prompts_from_server",
+        new=AsyncMock(side_effect=Exception("connection refused")),
+    ):
+        for list_rest_api in [list_resources_rest_api, list_prompts_rest_api]:
+            with pytest.raises(HTTPException) as e:
+                await list_rest_api(
+                    request=MagicMock(headers={}),
+                    server_id="failing_server",
+                    user_api_key_dict=mock_user_auth,
+                )
+            assert e.value.status_code == 500
+            assert "connection refused" in e.value.detail
@@ -617,3 +617,111 @@ class TestMCPAccessGroupsE2E:
             # Verify the header parsing worked correctly
             assert auth_result.api_key == "test-api-key"
             assert mcp_servers == ["zapier-server", "dev-group"]  # Should contain both server name and access group
+
+
+class TestMCPToolPermissions:
+    """Tool-level allow / deny lists on keys, teams and organizations"""
+
+    def test_is_tool_allowed(self):
+        tool_permissions = [
+            {"github": {"denied_tools": ["delete_repo"]}},
+            {"github": {"allowed_tools": ["list_repos", "delete_repo"]}},
+        ]
+
+        assert MCPRequestHandler.is_tool_allowed(tool_permissions, "github", "list_repos") is True
+        # Allowed by one level, but denied by another
+        assert MCPRequestHandler.is_tool_allowed(tool_permissions, "github", "delete_repo") is False
+        # Not in the allow list
+        assert MCPRequestHandler.is_tool_allowed(tool_permissions, "github", "create_issue") is False
+        # No restrictions for other servers
+        assert MCPRequestHandler.is_tool_allowed(tool_permissions, "slack", "post_message") is True
+        assert MCPRequestHandler.is_tool_allowed([], "github", "delete_repo") is True
+
+    @pytest.mark.asyncio
+    async def test_get_mcp_tool_permissions_from_key_team_and_org(self):
+        mock_prisma_client = MagicMock()
+        mock_find_many = AsyncMock(
+            return_value=[
+                MagicMock(mcp_tool_permissions={"github": {"denied_tools": ["delete_repo"]}}),
+                MagicMock(mcp_tool_permissions={}),
+            ]
+        )
+        mock_prisma_client.db.litellm_objectpermissiontable.find_many = mock_find_many
+        mock_get_team_object = AsyncMock(
+            return_value=MagicMock(object_permission_id="team-permission")
+        )
+        mock_get_org_object = AsyncMock(
+            return_value=MagicMock(object_permission_id=None)
+        )
+
+        user_api_key_auth = UserAPIKeyAuth(
+            api_key="test-key",
+            object_permission_id="key-permission",
+            team_id="team-1",
+            org_id="org-1",
+        )
+        with patch("litellm.proxy.proxy_server.prisma_client", mock_prisma_client), patch(
+            "litellm.proxy.auth.auth_checks.get_team_object", mock_get_team_object
+        ), patch("litellm.proxy.auth.auth_checks.get_org_object", mock_get_org_object):
+            result = await MCPRequestHandler.get_mcp_tool_permissions(user_api_key_auth)
+
+        assert result == [{"github": {"denied_tools": ["delete_repo"]}}]
+        # Team and organization come from the auth cache, not the DB
+        assert mock_get_team_object.call_args.kwargs["team_id"] == "team-1"
+        assert mock_get_org_object.call_args.kwargs["org_id"] == "org-1"
+        mock_prisma_client.db.litellm_teamtable.find_unique.assert_not_called()
+        mock_prisma_client.db.litellm_organizationtable.find_unique.assert_not_called()
+        mock_find_many.assert_called_once_with(
+            where={"object_permission_id": {"in": ["key-permission", "team-permission"]}}
+        )
+
+    @pytest.mark.asyncio
+    async def test_get_mcp_tool_permissions_skips_missing_team(self):
+        mock_prisma_client = MagicMock()
+        mock_find_many = AsyncMock(return_value=[])
+        mock_prisma_client.db.litellm_objectpermissiontable.find_many = mock_find_many
+
+        user_api_key_auth = UserAPIKeyAuth(
+            api_key="test-key", object_permission_id="key-permission", team_id="deleted-team"
+        )
+        with patch("litellm.proxy.proxy_server.prisma_client", mock_prisma_client), patch(
+            "litellm.proxy.auth.auth_checks.get_team_object",
+            AsyncMock(side_effect=Exception("Team doesn't exist in db")),
+        ):
+            assert await MCPRequestHandler.get_mcp_tool_permissions(user_api_key_auth) == []
+
+        mock_find_many.assert_called_once_with(
+            where={"object_permission_id": {"in": ["key-permission"]}}
+        )
+
+    @pytest.mark.asyncio
+    async def test_list_tools_resolves_tool_permissions_once(self):
+        from litellm.proxy._experimental.mcp_server.mcp_server_manager import (
+            MCPServerManager,
+        )
+
+        manager = MCPServerManager()
+        servers = {
+            "github": MagicMock(server_id="github"),
+            "slack": MagicMock(server_id="slack"),
+        }
+        manager.get_mcp_server_by_id = MagicMock(side_effect=servers.get)
+        manager.get_allowed_mcp_servers = AsyncMock(return_value=["github", "slack"])
+        manager._get_tools_from_server = AsyncMock(return_value=[])
+        tool_permissions = [{"github": {"denied_tools": ["delete_repo"]}}]
+
+        with patch.object(
+            MCPRequestHandler,
+            "get_mcp_tool_permissions",
+            AsyncMock(return_value=tool_permissions),
+        ) as mock_get_mcp_tool_permissions:
+            await manager.list_tools(user_api_key_auth=UserAPIKeyAuth(api_key="test-key"))
+
+        mock_get_mcp_tool_permissions.assert_called_once()
+        assert manager._get_tools_from_server.call_count == 2
+        for call in manager._get_tools_from_server.call_args_list:
+            assert call.kwargs["tool_permissions"] == tool_permissions
+
+    @pytest.mark.asyncio
+    async def test_get_mcp_tool_permissions_without_auth(self):
+        assert await MCPRequestHandler.get_mcp_tool_permissions(None) == []
@@ -0,0 +1,189 @@
+import sys
+from unittest.mock import AsyncMock, MagicMock, patch
+
+import pytest
+
+# Add the parent directory to the path so we can import litellm
+sys.path.insert(0, '../../../../../')
+
+from litellm.proxy._experimental.mcp_server.health_check import (
+    MCPServerHealthMonitor,
+    _requires_user_credentials,
+)
+from litellm.proxy._experimental.mcp_server.tool_analytics import (
+    get_mcp_tool_usage_stats,
+)
+from litellm.proxy._types import MCPSpecVersion, MCPTransport
+from litellm.types.mcp import MCPAuth
+from litellm.types.mcp_server.mcp_server_manager import MCPInfo, MCPServer
+
+
+def _server(auth_type=None, authentication_token=None, mcp_info=None) -> MCPServer:
+    return MCPServer(
+        server_id="server-1",
+        name="my server",
+        url="https://mcp.example.com/mcp",
+        transport=MCPTransport.http,
+        spec_version=MCPSpecVersion.mar_2025,
+        auth_type=auth_type,
+        authentication_token=authentication_token,
+        mcp_info=mcp_info,
+    )
+
+
+class TestMCPServerHealthMonitor:
+    def test_requires_user_credentials(self):
+        assert _requires_user_credentials(_server()) is False
+        assert _requires_user_credentials(_server(auth_type=MCPAuth.none)) is False
+        assert _requires_user_credentials(_server(auth_type=MCPAuth.api_key)) is True
+        assert (
+            _requires_user_credentials(
+                _server(auth_type=MCPAuth.api_key, authentication_token="sk-123")
+            )
+            is False
+        )
+        assert (
+            _requires_user_credentials(
+                _server(
+                    auth_type=MCPAuth.oauth2,
+                    mcp_info=MCPInfo(oauth2={"token_mode": "shared"}),  # type: ignore
+                )
+            )
+            is False
+        )
+        assert (
+            _requires_user_credentials(
+                _server(
+                    auth_type=MCPAuth.oauth2,
+                    mcp_info=MCPInfo(oauth2={"token_mode": "per_user"}),  # type: ignore
+                )
+            )
+            is True
+        )
+
+    @pytest.mark.asyncio
+    async def test_skips_servers_needing_user_credentials(self):
+        monitor = MCPServerHealthMonitor()
+        with patch.object(monitor, "_list_tools_count", AsyncMock()) as mock_list:
+            result = await monitor.check_server(_server(auth_type=MCPAuth.bearer_token))
+
+        mock_list.assert_not_called()
+        assert result["status"] == "skipped"
+        assert monitor.get_history("server-1") == [result]
+
+    @pytest.mark.asyncio
+    async def test_records_healthy_and_unhealthy_results(self):
+        monitor = MCPServerHealthMonitor()
+        with patch.object(monitor, "_list_tools_count", AsyncMock(return_value=3)):
+            healthy = await monitor.check_server(_server())
+        with patch.object(
+            monitor,
+            "_list_tools_count",
+            AsyncMock(side_effect=ConnectionError("connection refused")),
+        ):
+            unhealthy = await monitor.check_server(_server())
+
+        assert healthy["status"] == "healthy"
+        assert healthy["tools_count"] == 3
+        assert healthy["error"] is None
+        assert unhealthy["status"] == "unhealthy"
+        assert unhealthy["error"] == "connection refused"
+        assert monitor.get_history("server-1") == [healthy, unhealthy]
+
+    @pytest.mark.asyncio
+    async def test_history_is_bounded(self):
+        monitor = MCPServerHealthMonitor(history_size=2)
+        with patch.object(monitor, "_list_tools_count", AsyncMock(return_value=1)):
+            for _ in range(5):
+                await monitor.check_server(_server())
+
+        assert len(monitor.get_history("server-1")) == 2
+        assert monitor.get_history("unknown-server") == []
+
+
+class TestMCPToolUsageStats:
+    @pytest.mark.asyncio
+    async def test_usage_stats_merge_prefixed_names_and_compute_cost(self):
+        prisma_client = MagicMock()
+        prisma_client.db.query_raw = AsyncMock(
+            return_value=[
+                {
+                    "tool_name": "my_server/search",
+                    "calls": 8,
+                    "failed_calls": 2,
+                    "p50_latency_ms": 120.456,
+                    "p95_latency_ms": 400.0,
+                },
+                {
+                    "tool_name": "my_server/my_server-search",
+                    "calls": 2,
+                    "failed_calls": 0,
+                    "p50_latency_ms": 90.0,
+                    "p95_latency_ms": 95.0,
+                },
+                {
+                    "tool_name": "my_server/fetch",
+                    "calls": 4,
+                    "failed_calls": 0,
+                    "p50_latency_ms": None,
+                    "p95_latency_ms": None,
+                },
+            ]
+        )
+        server = _server(
+            mcp_info=MCPInfo(
+                mcp_server_cost_info={
+                    "default_cost_per_query": 0.01,
+                    "tool_name_to_cost_per_query": {"search": 0.5},
+                }
+            )
+        )
+
+        stats = await get_mcp_tool_usage_stats(
+            prisma_client=prisma_client,
+            server=server,
+            start_date=MagicMock(),
+            end_date=MagicMock(),
+        )
+
+        assert prisma_client.db.query_raw.call_args.args[1] == "my_server/"
+        assert [s["tool_name"] for s in stats] == ["search", "fetch"]
+        search, fetch = stats
+        assert search["calls"] == 10
+        assert search["failed_calls"] == 2
+        assert search["error_rate"] == pytest.approx(0.2)
+        assert search["p50_latency_ms"] == 120.46
+        assert search["cost"] == pytest.approx(8 * 0.5)
+        assert fetch["cost_per_query"] == 0.01
+        assert fetch["p95_latency_ms"] is None
+        assert fetch["cost"] == pytest.approx(0.04)
+
+
+@pytest.mark.parametrize(
+    "general_settings, expected_interval",
+    [
+        ({}, 300),
+        ({"mcp_health_check_interval": None}, 300),
+        ({"mcp_health_check_interval": 0}, None),
+        ({"mcp_health_check_interval": 60}, 60),
+    ],
+)
+def test_periodic_health_checks_run_by_default(general_settings, expected_interval):
+    from litellm.proxy.proxy_server import ProxyStartupEvent
+
+    with patch(
+        "litellm.proxy._experimental.mcp_server.utils.is_mcp_available",
+        return_value=True,
+    ), patch(
+        "litellm.proxy._experimental.mcp_server.health_check.mcp_server_health_monitor.run_periodic_health_checks",
+        new=MagicMock(),
+    ) as mock_run, patch(
+        "litellm.proxy.proxy_server.asyncio.create_task"
+    ) as mock_create_task:
+        ProxyStartupEvent._start_mcp_server_health_checks(
+            general_settings=general_settings
+        )
+
+    assert mock_create_task.called is (expected_interval is not None)
+    if expected_interval is not None:
+        mock_run.assert_called_once_with(interval=expected_interval)
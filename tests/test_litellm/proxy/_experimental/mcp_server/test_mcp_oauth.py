@@ -0,0 +1,330 @@
+import asyncio
+import json
+import sys
+import time
+from types import SimpleNamespace
+from unittest.mock import AsyncMock, patch
+
+import pytest
+
+# Add the parent directory to the path so we can import litellm
+sys.path.insert(0, '../../../../../')
+
+from litellm.proxy._experimental.mcp_server.mcp_server_manager import MCPServerManager
+from litellm.proxy._experimental.mcp_server.oauth import (
+    MCPOAuth2TokenStore,
+    _well_known_urls,
+    discover_oauth2_metadata,
+)
+from litellm.proxy._types import MCPSpecVersion, MCPTransport
+from litellm.types.mcp import MCPAuth
+from litellm.types.mcp_server.mcp_server_manager import MCPInfo, MCPServer
+
+
+def _oauth2_server(token_mode: str = "shared") -> MCPServer:
+    return MCPServer(
+        server_id="oauth-server",
+        name="oauth_server",
+        url="https://mcp.example.com/mcp",
+        transport=MCPTransport.http,
+        spec_version=MCPSpecVersion.mar_2025,
+        auth_type=MCPAuth.oauth2,
+        mcp_info=MCPInfo(
+            server_name="oauth_server",
+            oauth2={
+                "authorization_endpoint": "https://auth.example.com/authorize",
+                "token_endpoint": "https://auth.example.com/token",
+                "client_id": "client-123",
+                "token_mode": token_mode,
+            },
+        ),
+    )
+
+
+class _FakeConfigTable:
+    """
+    In-memory stand-in for prisma_client.db.litellm_config
+    """
+
+    def __init__(self):
+        self.rows = {}
+
+    async def find_unique(self, where):
+        value = self.rows.get(where["param_name"])
+        return None if value is None else SimpleNamespace(param_value=value)
+
+    async def upsert(self, where, data):
+        self.rows[where["param_name"]] = data["update"]["param_value"]
+
+    async def delete_many(self, where):
+        self.rows.pop(where["param_name"], None)
+
+
+def _patch_db(table: _FakeConfigTable):
+    """
+    Patch the DB with `table`, and encryption with a no-op
+    """
+    from contextlib import ExitStack
+
+    stack = ExitStack()
+    stack.enter_context(
+        patch(
+            "litellm.proxy.proxy_server.prisma_client",
+            SimpleNamespace(db=SimpleNamespace(litellm_config=table)),
+        )
+    )
+    for helper in ("encrypt_value_helper", "decrypt_value_helper"):
+        stack.enter_context(
+            patch(
+                f"litellm.proxy.common_utils.encrypt_decrypt_utils.{helper}",
+                side_effect=lambda value, *args, **kwargs: value,
+            )
+        )
+    return stack
+
+
+class TestMCPOAuthDiscovery:
+    def test_well_known_urls_insert_path(self):
+        assert _well_known_urls("https://mcp.example.com/mcp", "oauth-protected-resource") == [
+            "https://mcp.example.com/.well-known/oauth-protected-resource/mcp",
+            "https://mcp.example.com/.well-known/oauth-protected-resource",
+        ]
+        assert _well_known_urls("https://auth.example.com", "oauth-authorization-server") == [
+            "https://auth.example.com/.well-known/oauth-authorization-server",
+        ]
+
+    @pytest.mark.asyncio
+    async def test_discover_via_protected_resource_metadata(self):
+        responses = {
+            "https://mcp.example.com/.well-known/oauth-protected-resource/mcp": {
+                "resource": "https://mcp.example.com/mcp",
+                "authorization_servers": ["https://auth.example.com"],
+            },
+            "https://auth.example.com/.well-known/oauth-authorization-server": {
+                "issuer": "https://auth.example.com",
+                "authorization_endpoint": "https://auth.example.com/authorize",
+                "token_endpoint": "https://auth.example.com/token",
+                "registration_endpoint": "https://auth.example.com/register",
+                "code_challenge_methods_supported": ["S256"],
+            },
+        }
+        with patch(
+            "litellm.proxy._experimental.mcp_server.oauth._get_json",
+            new=AsyncMock(side_effect=lambda url: responses.get(url)),
+        ):
+            metadata = await discover_oauth2_metadata("https://mcp.example.com/mcp")
+
+        assert metadata["discovered"] is True
+        assert metadata["issuer"] == "https://auth.example.com"
+        assert metadata["token_endpoint"] == "https://auth.example.com/token"
+        assert metadata["registration_endpoint"] == "https://auth.example.com/register"
+        assert metadata["resource"] == "https://mcp.example.com/mcp"
+
+    @pytest.mark.asyncio
+    async def test_discover_falls_back_to_default_endpoints(self):
+        with patch(
+            "litellm.proxy._experimental.mcp_server.oauth._get_json",
+            new=AsyncMock(return_value=None),
+        ):
+            metadata = await discover_oauth2_metadata("https://mcp.example.com/mcp")
+
+        assert metadata["discovered"] is False
+        assert metadata["authorization_endpoint"] == "https://mcp.example.com/authorize"
+        assert metadata["token_endpoint"] == "https://mcp.example.com/token"
+        assert metadata["registration_endpoint"] == "https://mcp.example.com/register"
+
+
+class TestMCPOAuth2TokenStore:
+    @pytest.mark.asyncio
+    async def test_returns_unexpired_token_without_refreshing(self):
+        store = MCPOAuth2TokenStore()
+        with patch("litellm.proxy.proxy_server.prisma_client", None), patch(
+            "litellm.proxy._experimental.mcp_server.oauth.request_oauth2_token",
+            new=AsyncMock(),
+        ) as mock_request:
+            await store.save_token(
+                "oauth-server",
+                {"access_token": "access-1", "refresh_token": "refresh-1", "expires_at": int(time.time()) + 3600},
+            )
+            assert await store.get_access_token(_oauth2_server()) == "access-1"
+            mock_request.assert_not_called()
+
+    @pytest.mark.asyncio
+    async def test_refreshes_expiring_token(self):
+        store = MCPOAuth2TokenStore()
+        with patch("litellm.proxy.proxy_server.prisma_client", None), patch(
+            "litellm.proxy._experimental.mcp_server.oauth.request_oauth2_token",
+            new=AsyncMock(return_value={"access_token": "access-2", "expires_at": int(time.time()) + 3600}),
+        ) as mock_request:
+            await store.save_token(
+                "oauth-server",
+                {"access_token": "access-1", "refresh_token": "refresh-1", "expires_at": int(time.time()) + 10},
+            )
+            assert await store.get_access_token(_oauth2_server()) == "access-2"
+
+            mock_request.assert_called_once()
+            assert mock_request.call_args.kwargs["token_endpoint"] == "https://auth.example.com/token"
+            assert mock_request.call_args.kwargs["data"]["grant_type"] == "refresh_token"
+            # The refresh token is kept when the authorization server doesn't rotate it
+            assert (await store.get_token("oauth-server"))["refresh_token"] == "refresh-1"
+
+
+    @pytest.mark.asyncio
+    async def test_stores_one_row_per_server(self):
+        table = _FakeConfigTable()
+        store = MCPOAuth2TokenStore()
+        with _patch_db(table):
+            await store.save_token("server-a", {"access_token": "access-a"})
+            await store.save_token("server-b", {"access_token": "access-b"})
+            await store.delete_token("server-a")
+
+        assert list(table.rows) == ["mcp_oauth2_shared_token:server-b"]
+        assert json.loads(table.rows["mcp_oauth2_shared_token:server-b"])["access_token"] == "access-b"
+
+    @pytest.mark.asyncio
+    async def test_uses_token_refreshed_by_another_instance(self):
+        table = _FakeConfigTable()
+        store = MCPOAuth2TokenStore()
+        other_instance = MCPOAuth2TokenStore()
+        with _patch_db(table), patch(
+            "litellm.proxy._experimental.mcp_server.oauth.request_oauth2_token",
+            new=AsyncMock(),
+        ) as mock_request:
+            await store.save_token(
+                "oauth-server",
+                {"access_token": "access-1", "refresh_token": "refresh-1", "expires_at": int(time.time()) + 10},
+            )
+            # Another proxy instance refreshed the token and rotated the refresh token
+            await other_instance.save_token(
+                "oauth-server",
+                {"access_token": "access-2", "refresh_token": "refresh-2", "expires_at": int(time.time()) + 3600},
+            )
+
+            assert await store.get_access_token(_oauth2_server()) == "access-2"
+            mock_request.assert_not_called()
+
+    @pytest.mark.asyncio
+    async def test_concurrent_requests_refresh_once(self):
+        async def slow_refresh(**kwargs):
+            await asyncio.sleep(0.01)
+            return {"access_token": "access-2", "refresh_token": "refresh-2", "expires_at": int(time.time()) + 3600}
+
+        store = MCPOAuth2TokenStore()
+        with patch("litellm.proxy.proxy_server.prisma_client", None), patch(
+            "litellm.proxy._experimental.mcp_server.oauth.request_oauth2_token",
+            new=AsyncMock(side_effect=slow_refresh),
+        ) as mock_request:
+            await store.save_token(
+                "oauth-server",
+                {"access_token": "access-1", "refresh_token": "refresh-1", "expires_at": int(time.time()) + 10},
+            )
+            tokens = await asyncio.gather(
+                *[store.get_access_token(_oauth2_server()) for _ in range(3)]
+            )
+
+        assert tokens == ["access-2"] * 3
+        mock_request.assert_called_once()
+
+
+class TestMCPServerManagerOAuth:
+    @pytest.mark.asyncio
+    async def test_per_user_mode_uses_request_token_only(self):
+        manager = MCPServerManager()
+        server = _oauth2_server(token_mode="per_user")
+        assert await manager._get_oauth2_auth_header(server, "user-token") == "user-token"
+        assert await manager._get_oauth2_auth_header(server, None) is None
+
+    @pytest.mark.asyncio
+    async def test_shared_mode_uses_stored_token(self):
+        manager = MCPServerManager()
+        with patch(
+            "litellm.proxy._experimental.mcp_server.mcp_server_manager.mcp_oauth2_token_store.get_access_token",
+            new=AsyncMock(return_value="shared-token"),
+        ):
+            assert await manager._get_oauth2_auth_header(_oauth2_server(), None) == "shared-token"
+
+
+class TestMCPOAuthRoutes:
+    """Token routes for a saved server are limited to keys / teams that can use the server"""
+
+    @pytest.mark.asyncio
+    async def test_token_and_shared_token_status_require_server_access(self):
+        from fastapi import HTTPException
+
+        from litellm.proxy._experimental.mcp_server.rest_endpoints import (
+            MCPOAuthTokenRequest,
+            get_oauth_shared_token_status,
+            global_mcp_server_manager,
+            oauth_token_rest_api,
+        )
+        from litellm.proxy._types import UserAPIKeyAuth
+
+        user_api_key_dict = UserAPIKeyAuth(api_key="test", user_id="test")
+        with patch.object(
+            global_mcp_server_manager, "get_mcp_server_by_id", return_value=_oauth2_server()
+        ), patch.object(
+            global_mcp_server_manager,
+            "get_allowed_mcp_servers",
+            new=AsyncMock(return_value=["other-server"]),
+        ), patch(
+            "litellm.proxy._experimental.mcp_server.rest_endpoints.request_oauth2_token",
+            new=AsyncMock(),
+        ) as mock_request_token, patch(
+            "litellm.proxy._experimental.mcp_server.rest_endpoints.mcp_oauth2_token_store.get_token",
+            new=AsyncMock(),
+        ) as mock_get_token:
+            with pytest.raises(HTTPException) as e:
+                await oauth_token_rest_api(
+                    data=MCPOAuthTokenRequest(
+                        grant_type="refresh_token",
+                        server_id="oauth-server",
+                        refresh_token="refresh-1",
+                    ),
+                    user_api_key_dict=user_api_key_dict,
+                )
+            assert e.value.status_code == 403
+
+            with pytest.raises(HTTPException) as e:
+                await get_oauth_shared_token_status(
+                    server_id="oauth-server", user_api_key_dict=user_api_key_dict
+                )
+            assert e.value.status_code == 403
+
+        mock_request_token.assert_not_called()
+        mock_get_token.assert_not_called()
+
+    @pytest.mark.asyncio
+    async def test_shared_token_status_for_allowed_server(self):
+        from litellm.proxy._experimental.mcp_server.rest_endpoints import (
+            get_oauth_shared_token_status,
+            global_mcp_server_manager,
+        )
+        from litellm.proxy._types import UserAPIKeyAuth
+
+        with patch.object(
+            global_mcp_server_manager, "get_mcp_server_by_id", return_value=_oauth2_server()
+        ), patch.object(
+            global_mcp_server_manager,
+            "get_allowed_mcp_servers",
+            new=AsyncMock(return_value=["oauth-server"]),
+        ), patch(
+            "litellm.proxy._experimental.mcp_server.rest_endpoints.mcp_oauth2_token_store.get_token",
+            new=AsyncMock(
+                return_value={"access_token": "access-1", "expires_at": 123, "scope": "read"}
+            ),
+        ):
+            response = await get_oauth_shared_token_status(
+                server_id="oauth-server",
+                user_api_key_dict=UserAPIKeyAuth(api_key="test", user_id="test"),
+            )
+
+        assert response == {
+            "connected": True,
+            "expires_at": 123,
+            "scope": "read",
+            "has_refresh_token": False,
+        }
+
+
+if __name__ == "__main__":
+    pytest.main([__file__])
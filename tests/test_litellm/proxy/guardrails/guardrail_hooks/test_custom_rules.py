@@ -0,0 +1,283 @@
+"""
+Test Custom Rules Guardrail
+"""
+import os
+import sys
+
+sys.path.insert(0, os.path.abspath("../../../../.."))
+
+import pytest
+from fastapi import HTTPException
+from pydantic import ValidationError
+
+from litellm.caching.caching import DualCache
+from litellm.proxy._types import UserAPIKeyAuth
+from litellm.proxy.guardrails.guardrail_hooks.custom_rules import custom_rules
+from litellm.proxy.guardrails.guardrail_hooks.custom_rules.custom_rules import (
+    CustomRulesGuardrail,
+    apply_custom_rules,
+)
+from litellm.types.guardrails import CustomRule
+from litellm.types.utils import (
+    Choices,
+    Delta,
+    Message,
+    ModelResponse,
+    ModelResponseStream,
+    StreamingChoices,
+)
+
+
+def test_regex_and_keyword_rules_mask_in_order():
+    result = apply_custom_rules(
+        rules=[
+            CustomRule(name="employee-id", type="regex", pattern=r"EMP-\d{6}", action="mask"),
+            CustomRule(name="codename", type="keywords", keywords=["Project X"], action="mask"),
+        ],
+        text="EMP-123456 works on project x, not projectxyz",
+    )
+
+    assert result.verdict == "masked"
+    assert result.output_text == "[REDACTED] works on [REDACTED], not projectxyz"
+    assert [match.matches for match in result.matches] == [["EMP-123456"], ["project x"]]
+
+
+def test_block_and_flag_rules():
+    rules = [
+        CustomRule(name="competitors", type="competitors", keywords=["Acme"], action="flag"),
+        CustomRule(name="too-long", type="max_length", max_length=20, error_message="Too long"),
+    ]
+
+    flagged = apply_custom_rules(rules=rules, text="Is Acme better?")
+    assert flagged.verdict == "flagged"
+    assert flagged.output_text == "Is Acme better?"
+
+    blocked = apply_custom_rules(rules=rules, text="Is Acme better than you are?")
+    assert blocked.verdict == "blocked"
+    assert blocked.error == "Too long"
+    assert blocked.output_text is None
+
+
+def test_valid_json_rule():
+    rules = [CustomRule(name="json-only", type="valid_json")]
+
+    assert apply_custom_rules(rules=rules, text='{"ok": true}').verdict == "passed"
+    assert apply_custom_rules(rules=rules, text="not json").verdict == "blocked"
+
+
+@pytest.mark.parametrize(
+    "rule",
+    [
+        {"name": "bad-regex", "type": "regex", "pattern": "("},
+        {"name": "no-keywords", "type": "keywords", "keywords": []},
+        {"name": "no-length", "type": "max_length"},
+        {"name": "mask-json", "type": "valid_json", "action": "mask"},
+        {"name": "nested-repeat", "type": "regex", "pattern": r"(\w+\s?)+$"},
+        {"name": "nested-repeat-2", "type": "regex", "pattern": r"(a|b+)*c"},
+    ],
+)
+def test_invalid_rules_are_rejected(rule):
+    with pytest.raises(ValidationError):
+        CustomRule(**rule)
+
+
+@pytest.mark.parametrize(
+    "pattern", [r"EMP-\d{6}", r"(\d{1,3}\.){3}\d{1,3}", r"(?:foo|bar)+", r"[a-z]+@[a-z]+\.com"]
+)
+def test_regex_without_nested_repeats_is_accepted(pattern):
+    CustomRule(name="ok", type="regex", pattern=pattern)
+
+
+def test_long_text_is_blocked_by_regex_rules(monkeypatch):
+    monkeypatch.setattr(custom_rules, "CUSTOM_RULES_MAX_REGEX_TEXT_LENGTH", 10)
+
+    regex_rules = [CustomRule(name="card", type="regex", pattern=r"\d{4}", action="mask")]
+    blocked = apply_custom_rules(rules=regex_rules, text="a" * 11)
+    assert blocked.verdict == "blocked"
+    assert blocked.error == "Text is 11 characters, regex rules only check up to 10"
+    assert apply_custom_rules(rules=regex_rules, text="a" * 10).verdict == "passed"
+
+    keyword_rules = [CustomRule(name="secret", type="keywords", keywords=["hunter2"])]
+    assert apply_custom_rules(rules=keyword_rules, text="a" * 11).verdict == "passed"
+
+
+@pytest.mark.asyncio
+async def test_pre_call_masks_and_blocks():
+    guardrail = CustomRulesGuardrail(
+        guardrail_name="compliance-rules",
+        event_hook="pre_call",
+        custom_rules=[
+            {"name": "card", "type": "regex", "pattern": r"\d{4}-\d{4}", "action": "mask"},
+            {"name": "forbidden", "type": "keywords", "keywords": ["wire transfer"]},
+        ],
+    )
+
+    data = {
+        "messages": [{"role": "user", "content": "My card is 1234-5678"}],
+        "metadata": {},
+    }
+    data = await guardrail.async_pre_call_hook(
+        user_api_key_dict=UserAPIKeyAuth(),
+        cache=DualCache(),
+        data=data,
+        call_type="completion",
+    )
+
+    assert data["messages"][0]["content"] == "My card is [REDACTED]"
+    guardrail_information = data["metadata"]["standard_logging_guardrail_information"]
+    assert guardrail_information["masked_entity_count"] == {"card": 1}
+    # the matched text isn't logged
+    assert "1234-5678" not in str(guardrail_information["guardrail_response"])
+
+    with pytest.raises(HTTPException) as e:
+        await guardrail.async_pre_call_hook(
+            user_api_key_dict=UserAPIKeyAuth(),
+            cache=DualCache(),
+            data={
+                "messages": [{"role": "user", "content": "Send a wire transfer"}],
+                "metadata": {},
+            },
+            call_type="completion",
+        )
+    assert e.value.detail == {"error": "Blocked by rule 'forbidden'"}
+
+
+@pytest.mark.asyncio
+async def test_post_call_masks_response():
+    guardrail = CustomRulesGuardrail(
+        guardrail_name="compliance-rules",
+        event_hook="post_call",
+        custom_rules=[{"name": "secret", "type": "keywords", "keywords": ["hunter2"], "action": "mask"}],
+    )
+    response = ModelResponse(
+        choices=[Choices(message=Message(role="assistant", content="The password is hunter2"))]
+    )
+
+    response = await guardrail.async_post_call_success_hook(
+        data={"metadata": {}},
+        user_api_key_dict=UserAPIKeyAuth(),
+        response=response,
+    )
+
+    assert response.choices[0].message.content == "The password is [REDACTED]"
+
+
+@pytest.mark.asyncio
+async def test_pre_call_checks_text_content_parts():
+    guardrail = CustomRulesGuardrail(
+        guardrail_name="compliance-rules",
+        event_hook="pre_call",
+        custom_rules=[{"name": "card", "type": "regex", "pattern": r"\d{4}-\d{4}", "action": "mask"}],
+    )
+    image_part = {"type": "image_url", "image_url": {"url": "https://example.com/1234-5678.png"}}
+
+    data = await guardrail.async_pre_call_hook(
+        user_api_key_dict=UserAPIKeyAuth(),
+        cache=DualCache(),
+        data={
+            "messages": [
+                {
+                    "role": "user",
+                    "content": [{"type": "text", "text": "My card is 1234-5678"}, image_part],
+                }
+            ],
+            "metadata": {},
+        },
+        call_type="completion",
+    )
+
+    assert data["messages"][0]["content"] == [
+        {"type": "text", "text": "My card is [REDACTED]"},
+        image_part,
+    ]
+
+
+@pytest.mark.asyncio
+async def test_during_call_blocks_text_content_parts():
+    guardrail = CustomRulesGuardrail(
+        guardrail_name="compliance-rules",
+        event_hook="during_call",
+        custom_rules=[{"name": "forbidden", "type": "keywords", "keywords": ["wire transfer"]}],
+    )
+
+    with pytest.raises(HTTPException):
+        await guardrail.async_moderation_hook(
+            data={
+                "messages": [
+                    {"role": "user", "content": [{"type": "text", "text": "Send a wire transfer"}]}
+                ],
+                "metadata": {},
+            },
+            user_api_key_dict=UserAPIKeyAuth(),
+            call_type="completion",
+        )
+
+
+def _stream_chunks(*texts: str):
+    async def stream():
+        for index, text in enumerate(texts):
+            yield ModelResponseStream(
+                id="chatcmpl-1",
+                model="gpt-4o",
+                choices=[
+                    StreamingChoices(
+                        index=0,
+                        delta=Delta(role="assistant", content=text),
+                        finish_reason="stop" if index == len(texts) - 1 else None,
+                    )
+                ],
+            )
+
+    return stream()
+
+
+async def _collect(guardrail: CustomRulesGuardrail, response) -> list:
+    return [
+        chunk
+        async for chunk in guardrail.async_post_call_streaming_iterator_hook(
+            user_api_key_dict=UserAPIKeyAuth(),
+            response=response,
+            request_data={"metadata": {}},
+        )
+    ]
+
+
+@pytest.mark.asyncio
+async def test_streaming_masks_response():
+    guardrail = CustomRulesGuardrail(
+        guardrail_name="compliance-rules",
+        event_hook="post_call",
+        custom_rules=[{"name": "secret", "type": "keywords", "keywords": ["hunter2"], "action": "mask"}],
+    )
+
+    # the match is split across chunks
+    chunks = await _collect(guardrail, _stream_chunks("The password is hun", "ter2"))
+
+    assert len(chunks) == 1
+    assert chunks[0].choices[0].delta.content == "The password is [REDACTED]"
+
+
+@pytest.mark.asyncio
+async def test_streaming_passes_unmatched_chunks_through():
+    guardrail = CustomRulesGuardrail(
+        guardrail_name="compliance-rules",
+        event_hook="post_call",
+        custom_rules=[{"name": "secret", "type": "keywords", "keywords": ["hunter2"], "action": "mask"}],
+    )
+
+    chunks = await _collect(guardrail, _stream_chunks("Hello ", "world"))
+
+    assert [chunk.choices[0].delta.content for chunk in chunks] == ["Hello ", "world"]
+
+
+@pytest.mark.asyncio
+async def test_streaming_blocks_response():
+    guardrail = CustomRulesGuardrail(
+        guardrail_name="compliance-rules",
+        event_hook="post_call",
+        custom_rules=[{"name": "competitors", "type": "competitors", "keywords": ["Acme"]}],
+    )
+
+    with pytest.raises(HTTPException) as e:
+        await _collect(guardrail, _stream_chunks("Try ", "Acme instead"))
+    assert e.value.detail == {"error": "Blocked by rule 'competitors': mentions a competitor"}
@@ -0,0 +1,82 @@
+import os
+import sys
+from datetime import datetime
+
+import pytest
+
+sys.path.insert(
+    0, os.path.abspath("../../..")
+)  # Adds the parent directory to the system path
+
+from litellm.proxy.guardrails.guardrail_analytics import get_guardrail_analytics
+
+
+class MockDB:
+    def __init__(self):
+        self.queries = []
+
+    async def query_raw(self, query, *params):
+        self.queries.append((query, params))
+        if "DATE(gr.\"startTime\")" in query:
+            return [
+                {"date": "2025-07-01", "guardrail_name": "pii-guard", "total_runs": 8, "blocked": 2, "masked": 4},
+                {"date": "2025-07-02", "guardrail_name": "pii-guard", "total_runs": 2, "blocked": 0, "masked": 0},
+                {"date": "2025-07-01", "guardrail_name": "lakera", "total_runs": 5, "blocked": 5, "masked": 0},
+            ]
+        if "PERCENTILE_CONT" in query:
+            return [
+                {"guardrail_name": "pii-guard", "guardrail_mode": "pre_call", "total_runs": 10, "avg_latency_ms": 12.3456, "p95_latency_ms": 30.0},
+            ]
+        if "jsonb_each_text" in query:
+            return [{"guardrail_name": "pii-guard", "entity_type": "EMAIL_ADDRESS", "count": 7}]
+        if "gr.\"api_key\" AS id" in query:
+            return [{"id": "hashed-key", "alias": "prod-key", "blocked": 2, "masked": 4}]
+        return [{"id": "team-1", "alias": "Support", "blocked": 7, "masked": 4}]
+
+
+class MockPrismaClient:
+    def __init__(self):
+        self.db = MockDB()
+
+
+@pytest.mark.asyncio
+async def test_get_guardrail_analytics():
+    prisma_client = MockPrismaClient()
+
+    result = await get_guardrail_analytics(
+        prisma_client=prisma_client,
+        start_date=datetime(2025, 7, 1),
+        end_date=datetime(2025, 7, 2),
+    )
+
+    # summary is aggregated over the days, busiest guardrail first
+    assert [s.guardrail_name for s in result.summary] == ["pii-guard", "lakera"]
+    pii_summary = result.summary[0]
+    assert pii_summary.total_runs == 10
+    assert pii_summary.block_rate == 0.2
+    assert pii_summary.trigger_rate == 0.6
+    assert result.summary[1].block_rate == 1.0
+
+    assert result.latency[0].avg_latency_ms == 12.35
+    assert result.entity_types[0].entity_type == "EMAIL_ADDRESS"
+    assert result.top_keys[0].alias == "prod-key"
+    assert result.top_teams[0].id == "team-1"
+
+    # no guardrail filter -> only the date params
+    assert all(len(params) == 2 for _, params in prisma_client.db.queries)
+
+
+@pytest.mark.asyncio
+async def test_get_guardrail_analytics_for_one_guardrail():
+    prisma_client = MockPrismaClient()
+
+    await get_guardrail_analytics(
+        prisma_client=prisma_client,
+        start_date=datetime(2025, 7, 1),
+        end_date=datetime(2025, 7, 2),
+        guardrail_name="pii-guard",
+    )
+
+    for query, params in prisma_client.db.queries:
+        assert "= $3" in query
+        assert params[2] == "pii-guard"
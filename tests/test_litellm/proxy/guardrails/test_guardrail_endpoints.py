@@ -171,6 +171,114 @@ async def test_get_guardrail_info_not_found(
     assert "not found" in str(exc_info.value.detail)
 
 
+MOCK_TEST_CASE = {
+    "id": "test-case-1",
+    "name": "secret is masked",
+    "text": "my secret",
+    "event_hook": "pre_call",
+    "expected_verdict": "masked",
+    "expected_output": "my <MASKED>",
+}
+
+
+@pytest.mark.asyncio
+async def test_update_guardrail_test_cases(
+    mocker, mock_prisma_client, mock_in_memory_handler
+):
+    """Test cases are saved in guardrail_info, next to the existing info"""
+    from litellm.proxy.guardrails.guardrail_endpoints import (
+        update_guardrail_test_cases,
+    )
+    from litellm.types.guardrails import GuardrailTestCasesRequest
+
+    mocker.patch("litellm.proxy.proxy_server.prisma_client", mock_prisma_client)
+    mocker.patch(
+        "litellm.proxy.guardrails.guardrail_registry.IN_MEMORY_GUARDRAIL_HANDLER",
+        mock_in_memory_handler,
+    )
+    mock_update = AsyncMock(return_value=MOCK_DB_GUARDRAIL)
+    mock_prisma_client.db.litellm_guardrailstable.update = mock_update
+
+    response = await update_guardrail_test_cases(
+        "test-db-guardrail",
+        GuardrailTestCasesRequest(test_cases=[MOCK_TEST_CASE]),
+    )
+
+    assert response.test_cases[0].id == "test-case-1"
+    saved_guardrail_info = json.loads(
+        mock_update.call_args.kwargs["data"]["guardrail_info"]
+    )
+    assert saved_guardrail_info == {
+        "description": "Test guardrail from DB",
+        "test_cases": [MOCK_TEST_CASE],
+    }
+    mock_in_memory_handler.update_in_memory_guardrail.assert_called_once()
+
+
+@pytest.mark.asyncio
+async def test_update_guardrail_test_cases_for_config_guardrail(
+    mocker, mock_prisma_client, mock_in_memory_handler
+):
+    """Guardrails from the config file can't keep test cases"""
+    from litellm.proxy.guardrails.guardrail_endpoints import (
+        update_guardrail_test_cases,
+    )
+    from litellm.types.guardrails import GuardrailTestCasesRequest
+
+    mocker.patch("litellm.proxy.proxy_server.prisma_client", mock_prisma_client)
+    mocker.patch(
+        "litellm.proxy.guardrails.guardrail_registry.IN_MEMORY_GUARDRAIL_HANDLER",
+        mock_in_memory_handler,
+    )
+    mock_prisma_client.db.litellm_guardrailstable.find_unique = AsyncMock(
+        return_value=None
+    )
+
+    with pytest.raises(HTTPException) as exc_info:
+        await update_guardrail_test_cases(
+            "test-config-guardrail",
+            GuardrailTestCasesRequest(test_cases=[MOCK_TEST_CASE]),
+        )
+
+    assert exc_info.value.status_code == 400
+
+
+@pytest.mark.asyncio
+async def test_patch_guardrail_keeps_test_cases(
+    mocker, mock_prisma_client, mock_in_memory_handler
+):
+    """Editing guardrail_info doesn't drop the test cases saved with the guardrail"""
+    from litellm.proxy.guardrails.guardrail_endpoints import patch_guardrail
+    from litellm.types.guardrails import PatchGuardrailRequest
+
+    mocker.patch("litellm.proxy.proxy_server.prisma_client", mock_prisma_client)
+    mocker.patch(
+        "litellm.proxy.guardrails.guardrail_registry.IN_MEMORY_GUARDRAIL_HANDLER",
+        mock_in_memory_handler,
+    )
+    mock_prisma_client.db.litellm_guardrailstable.find_unique = AsyncMock(
+        return_value={
+            **MOCK_DB_GUARDRAIL,
+            "guardrail_info": {"description": "old", "test_cases": [MOCK_TEST_CASE]},
+        }
+    )
+    mock_update = AsyncMock(return_value=MOCK_DB_GUARDRAIL)
+    mock_prisma_client.db.litellm_guardrailstable.update = mock_update
+
+    await patch_guardrail(
+        "test-db-guardrail",
+        PatchGuardrailRequest(guardrail_info={"description": "new"}),
+    )
+
+    saved_guardrail_info = json.loads(
+        mock_update.call_args.kwargs["data"]["guardrail_info"]
+    )
+    assert saved_guardrail_info == {
+        "description": "new",
+        "test_cases": [MOCK_TEST_CASE],
+    }
+
+
 def test_get_provider_specific_params():
     """Test getting provider-specific parameters"""
     from litellm.proxy.guardrails.guardrail_endpoints import _get_fields_from_model
@@ -0,0 +1,97 @@
+import os
+import sys
+
+import pytest
+from fastapi import HTTPException
+
+sys.path.insert(
+    0, os.path.abspath("../../..")
+)  # Adds the parent directory to the system path
+
+from litellm.integrations.custom_guardrail import CustomGuardrail
+from litellm.proxy._types import UserAPIKeyAuth
+from litellm.proxy.guardrails.guardrail_testing import execute_guardrail_test
+from litellm.types.guardrails import GuardrailEventHooks
+
+
+class MaskingGuardrail(CustomGuardrail):
+    async def async_pre_call_hook(self, user_api_key_dict, cache, data, call_type):
+        if not self.should_run_guardrail(data, GuardrailEventHooks.pre_call):
+            return data
+        for message in data["messages"]:
+            message["content"] = message["content"].replace("secret", "<MASKED>")
+        self.add_standard_logging_guardrail_information_to_request_data(
+            guardrail_json_response=[{"entity_type": "SECRET", "score": 0.9}],
+            request_data=data,
+            guardrail_status="success",
+            masked_entity_count={"SECRET": 1},
+        )
+        return data
+
+    async def async_moderation_hook(self, data, user_api_key_dict, call_type):
+        if "forbidden" in data["messages"][-1]["content"]:
+            raise HTTPException(status_code=400, detail={"error": "Violated policy"})
+
+    async def async_post_call_success_hook(self, data, user_api_key_dict, response):
+        response.choices[0].message.content = response.choices[0].message.content.upper()
+        return response
+
+
+@pytest.fixture
+def guardrail():
+    # Configured for post_call only, the test bench must still be able to run the other hooks
+    return MaskingGuardrail(guardrail_name="masking-guard", event_hook="post_call")
+
+
+@pytest.mark.asyncio
+async def test_pre_call_masks_and_reports_entities(guardrail):
+    result = await execute_guardrail_test(
+        guardrail=guardrail,
+        text="my secret is here",
+        event_hook=GuardrailEventHooks.pre_call,
+        user_api_key_dict=UserAPIKeyAuth(),
+    )
+
+    assert result.verdict == "masked"
+    assert result.output_text == "my <MASKED> is here"
+    assert result.masked_entity_count == {"SECRET": 1}
+    assert result.guardrail_response == [{"entity_type": "SECRET", "score": 0.9}]
+    assert result.latency_ms >= 0
+    # The live guardrail instance keeps its configured mode
+    assert guardrail.event_hook == "post_call"
+    assert guardrail.default_on is False
+
+
+@pytest.mark.asyncio
+async def test_during_call_block_and_pass(guardrail):
+    blocked = await execute_guardrail_test(
+        guardrail=guardrail,
+        text="something forbidden",
+        event_hook=GuardrailEventHooks.during_call,
+        user_api_key_dict=UserAPIKeyAuth(),
+    )
+    passed = await execute_guardrail_test(
+        guardrail=guardrail,
+        text="something fine",
+        event_hook=GuardrailEventHooks.during_call,
+        user_api_key_dict=UserAPIKeyAuth(),
+    )
+
+    assert blocked.verdict == "blocked"
+    assert blocked.output_text is None
+    assert blocked.error == '{"error": "Violated policy"}'
+    assert passed.verdict == "passed"
+    assert passed.output_text == "something fine"
+
+
+@pytest.mark.asyncio
+async def test_post_call_runs_on_model_output(guardrail):
+    result = await execute_guardrail_test(
+        guardrail=guardrail,
+        text="model output",
+        event_hook=GuardrailEventHooks.post_call,
+        user_api_key_dict=UserAPIKeyAuth(),
+    )
+
+    assert result.verdict == "masked"
+    assert result.output_text == "MODEL OUTPUT"
@@ -0,0 +1,282 @@
+import os
+import sys
+from datetime import datetime, timezone
+
+import pytest
+from fastapi import HTTPException
+
+sys.path.insert(
+    0, os.path.abspath("../../..")
+)  # Adds the parent directory to the system path
+
+import litellm
+from litellm.caching.caching import DualCache
+from litellm.integrations.custom_guardrail import CustomGuardrail
+from litellm.proxy._types import UserAPIKeyAuth
+from litellm.proxy.common_utils.callback_utils import get_logging_caching_headers
+from litellm.proxy.guardrails.guardrail_policy_registry import (
+    GUARDRAIL_POLICY_REGISTRY,
+)
+from litellm.proxy.hooks.guardrail_policies import _PROXY_GuardrailPolicies
+from litellm.types.guardrails import GuardrailPolicy
+from litellm.types.utils import Delta, ModelResponseStream, StreamingChoices
+
+
+class MaskingGuardrail(CustomGuardrail):
+    async def async_pre_call_hook(self, user_api_key_dict, cache, data, call_type):
+        for message in data["messages"]:
+            message["content"] = message["content"].replace("secret", "<MASKED>")
+        return data
+
+
+class BlockingGuardrail(CustomGuardrail):
+    async def async_pre_call_hook(self, user_api_key_dict, cache, data, call_type):
+        if "forbidden" in data["messages"][-1]["content"]:
+            raise HTTPException(status_code=400, detail="Violated policy")
+        return data
+
+
+class ResponseMaskingGuardrail(CustomGuardrail):
+    async def async_post_call_success_hook(self, data, user_api_key_dict, response):
+        for choice in response.choices:
+            choice.message.content = choice.message.content.replace("secret", "<MASKED>")
+        return response
+
+
+class ResponseBlockingGuardrail(CustomGuardrail):
+    async def async_post_call_success_hook(self, data, user_api_key_dict, response):
+        if "forbidden" in response.choices[0].message.content:
+            raise HTTPException(status_code=400, detail="Violated policy")
+        return response
+
+
+@pytest.fixture
+def guardrails(monkeypatch):
+    active_guardrails = [
+        MaskingGuardrail(guardrail_name="masker", event_hook="post_call"),
+        BlockingGuardrail(guardrail_name="blocker", event_hook="post_call"),
+        ResponseMaskingGuardrail(guardrail_name="response-masker"),
+        ResponseBlockingGuardrail(guardrail_name="response-blocker"),
+    ]
+    monkeypatch.setattr(
+        litellm.logging_callback_manager,
+        "get_custom_loggers_for_type",
+        lambda callback_type: active_guardrails,
+    )
+    yield active_guardrails
+    GUARDRAIL_POLICY_REGISTRY.load_policies([])
+
+
+def _load_policy(**kwargs):
+    GUARDRAIL_POLICY_REGISTRY.load_policies(
+        [
+            GuardrailPolicy(
+                policy_id="policy-1",
+                policy_name="prod-policy",
+                created_at=datetime.now(timezone.utc),
+                **kwargs,
+            )
+        ]
+    )
+
+
+def _request(content: str, model: str = "gpt-4o", tags=None) -> dict:
+    return {
+        "model": model,
+        "messages": [{"role": "user", "content": content}],
+        "metadata": {"tags": tags or []},
+    }
+
+
+async def _run_pre_call(data: dict, user_api_key_dict=None) -> dict:
+    return await _PROXY_GuardrailPolicies().async_pre_call_hook(
+        user_api_key_dict=user_api_key_dict or UserAPIKeyAuth(),
+        cache=DualCache(),
+        data=data,
+        call_type="completion",
+    )
+
+
+def test_policy_matches_attached_model_or_tag_and_conditions():
+    _load_policy(
+        steps=[{"guardrail_name": "masker"}],
+        attached_models=["gpt-4o"],
+        attached_tags=["customer-facing"],
+        conditions={"team_ids": ["team-1"], "key_metadata": {"environment": "prod"}},
+    )
+    prod_key = UserAPIKeyAuth(team_id="team-1", metadata={"environment": "prod"})
+
+    def matches(data, user_api_key_dict):
+        return (
+            len(
+                GUARDRAIL_POLICY_REGISTRY.get_policies_for_request(
+                    data=data, user_api_key_dict=user_api_key_dict
+                )
+            )
+            == 1
+        )
+
+    assert matches(_request("hi"), prod_key)
+    assert matches(_request("hi", model="claude", tags=["customer-facing"]), prod_key)
+    assert not matches(_request("hi", model="claude"), prod_key)
+    assert not matches(
+        _request("hi"), UserAPIKeyAuth(team_id="team-2", metadata={"environment": "prod"})
+    )
+    assert not matches(
+        _request("hi"), UserAPIKeyAuth(team_id="team-1", metadata={"environment": "dev"})
+    )
+    GUARDRAIL_POLICY_REGISTRY.load_policies([])
+
+
+@pytest.mark.asyncio
+async def test_mask_then_block_runs_in_order(guardrails):
+    _load_policy(
+        steps=[
+            {"guardrail_name": "masker", "action": "mask"},
+            {"guardrail_name": "blocker", "action": "block"},
+        ],
+        attached_models=["gpt-4o"],
+    )
+
+    data = await _run_pre_call(_request("my secret"))
+    assert data["messages"][0]["content"] == "my <MASKED>"
+    assert [r["status"] for r in data["metadata"]["guardrail_policy_results"]] == [
+        "passed",
+        "passed",
+    ]
+
+    with pytest.raises(HTTPException):
+        await _run_pre_call(_request("something forbidden"))
+
+    # the guardrails' own mode doesn't apply to policy steps
+    assert guardrails[0].event_hook == "post_call"
+
+
+@pytest.mark.asyncio
+async def test_warn_and_log_only_never_change_the_request(guardrails):
+    _load_policy(
+        steps=[
+            {"guardrail_name": "blocker", "action": "warn"},
+            {"guardrail_name": "masker", "action": "log_only"},
+        ],
+        default_on=True,
+    )
+
+    data = await _run_pre_call(_request("forbidden secret", model="any-model"))
+
+    assert data["messages"][0]["content"] == "forbidden secret"
+    assert data["metadata"]["guardrail_warnings"] == ["prod-policy/blocker"]
+    assert [r["status"] for r in data["metadata"]["guardrail_policy_results"]] == [
+        "flagged",
+        "passed",
+    ]
+    assert (
+        get_logging_caching_headers(data)["x-litellm-guardrail-warnings"]
+        == "prod-policy/blocker"
+    )
+
+
+@pytest.mark.asyncio
+async def test_missing_guardrail_is_skipped(guardrails):
+    _load_policy(
+        steps=[{"guardrail_name": "not-set-up", "action": "block"}],
+        default_on=True,
+    )
+
+    data = await _run_pre_call(_request("forbidden"))
+
+    assert data["metadata"]["guardrail_policy_results"][0]["status"] == (
+        "guardrail_not_found"
+    )
+
+
+async def _stream(*texts: str):
+    for index, text in enumerate(texts):
+        yield ModelResponseStream(
+            id="chatcmpl-1",
+            model="gpt-4o",
+            choices=[
+                StreamingChoices(
+                    index=0,
+                    delta=Delta(role="assistant", content=text),
+                    finish_reason="stop" if index == len(texts) - 1 else None,
+                )
+            ],
+        )
+
+
+async def _run_streaming(data: dict, *texts: str) -> list:
+    return [
+        chunk
+        async for chunk in _PROXY_GuardrailPolicies().async_post_call_streaming_iterator_hook(
+            user_api_key_dict=UserAPIKeyAuth(),
+            response=_stream(*texts),
+            request_data=data,
+        )
+    ]
+
+
+@pytest.mark.asyncio
+async def test_streaming_runs_post_call_steps_on_the_whole_response(guardrails):
+    _load_policy(
+        steps=[
+            {"guardrail_name": "response-masker", "event_hook": "post_call", "action": "mask"},
+            {"guardrail_name": "response-blocker", "event_hook": "post_call", "action": "block"},
+        ],
+        default_on=True,
+    )
+
+    # the word is split across chunks
+    chunks = await _run_streaming(_request("hi"), "the sec", "ret is out")
+    assert len(chunks) == 1
+    assert chunks[0].choices[0].delta.content == "the <MASKED> is out"
+
+    unchanged = await _run_streaming(_request("hi"), "hello ", "world")
+    assert [chunk.choices[0].delta.content for chunk in unchanged] == ["hello ", "world"]
+
+    with pytest.raises(HTTPException):
+        await _run_streaming(_request("hi"), "forbid", "den answer")
+
+
+@pytest.mark.asyncio
+async def test_streaming_passes_through_without_post_call_steps(guardrails):
+    _load_policy(
+        steps=[{"guardrail_name": "response-blocker", "event_hook": "pre_call", "action": "block"}],
+        default_on=True,
+    )
+    data = _request("hi")
+
+    chunks = await _run_streaming(data, "forbid", "den answer")
+
+    assert [chunk.choices[0].delta.content for chunk in chunks] == ["forbid", "den answer"]
+    assert "guardrail_policy_results" not in data["metadata"]
+
+
+@pytest.mark.asyncio
+async def test_streaming_with_observe_only_steps_is_not_buffered(guardrails):
+    _load_policy(
+        steps=[
+            {"guardrail_name": "response-blocker", "event_hook": "post_call", "action": "warn"},
+            {"guardrail_name": "response-masker", "event_hook": "post_call", "action": "log_only"},
+        ],
+        default_on=True,
+    )
+    data = _request("hi")
+    hook = _PROXY_GuardrailPolicies().async_post_call_streaming_iterator_hook(
+        user_api_key_dict=UserAPIKeyAuth(),
+        response=_stream("forbid", "den secret"),
+        request_data=data,
+    )
+
+    # the first chunk is sent before the rest of the stream is read
+    first_chunk = await hook.__anext__()
+    assert first_chunk.choices[0].delta.content == "forbid"
+    assert "guardrail_policy_results" not in data["metadata"]
+
+    chunks = [first_chunk] + [chunk async for chunk in hook]
+
+    assert [chunk.choices[0].delta.content for chunk in chunks] == ["forbid", "den secret"]
+    # the steps ran on the assembled response once the stream ended
+    assert [
+        (r["guardrail_name"], r["status"]) for r in data["metadata"]["guardrail_policy_results"]
+    ] == [("response-blocker", "flagged"), ("response-masker", "passed")]
@@ -235,3 +235,59 @@ async def test_organization_update_object_permissions_missing_permission_record(
 
     # Verify upsert was called to create new record
     mock_prisma_client.db.litellm_objectpermissiontable.upsert.assert_called_once()
+
+
+@pytest.mark.asyncio
+async def test_organization_update_and_delete_invalidate_cached_org(monkeypatch):
+    """
+    Auth caches orgs under `org_id:<id>` - updating or deleting an org must drop that entry,
+    so model / budget / MCP permission changes apply on the next request.
+    """
+    from litellm.caching.dual_cache import DualCache
+    from litellm.proxy._types import (
+        DeleteOrganizationRequest,
+        LiteLLM_OrganizationTableUpdate,
+        LitellmUserRoles,
+        UserAPIKeyAuth,
+    )
+    from litellm.proxy.management_endpoints.organization_endpoints import (
+        delete_organization,
+        update_organization,
+    )
+
+    user_api_key_cache = DualCache()
+    mock_prisma_client = MagicMock()
+    mock_prisma_client.jsonify_object = lambda data: data
+    mock_prisma_client.db.litellm_organizationtable.find_unique = AsyncMock(
+        return_value=MagicMock(organization_id="org-1", object_permission_id=None)
+    )
+    mock_prisma_client.db.litellm_organizationtable.update = AsyncMock()
+    mock_prisma_client.db.litellm_organizationtable.delete = AsyncMock()
+    mock_prisma_client.db.litellm_teamtable.delete_many = AsyncMock()
+    mock_prisma_client.db.litellm_organizationmembership.delete_many = AsyncMock()
+    mock_prisma_client.db.litellm_verificationtoken.delete_many = AsyncMock()
+    monkeypatch.setattr("litellm.proxy.proxy_server.prisma_client", mock_prisma_client)
+    monkeypatch.setattr(
+        "litellm.proxy.proxy_server.user_api_key_cache", user_api_key_cache
+    )
+    monkeypatch.setattr("litellm.proxy.proxy_server.proxy_logging_obj", None)
+
+    admin = UserAPIKeyAuth(
+        user_id="admin", user_role=LitellmUserRoles.PROXY_ADMIN, api_key="sk-admin"
+    )
+
+    user_api_key_cache.set_cache(key="org_id:org-1", value={"organization_id": "org-1"})
+    await update_organization(
+        data=LiteLLM_OrganizationTableUpdate(
+            organization_id="org-1", models=["gpt-4o"]
+        ),
+        user_api_key_dict=admin,
+    )
+    assert await user_api_key_cache.async_get_cache(key="org_id:org-1") is None
+
+    user_api_key_cache.set_cache(key="org_id:org-1", value={"organization_id": "org-1"})
+    await delete_organization(
+        data=DeleteOrganizationRequest(organization_ids=["org-1"]),
+        user_api_key_dict=admin,
+    )
+    assert await user_api_key_cache.async_get_cache(key="org_id:org-1") is None
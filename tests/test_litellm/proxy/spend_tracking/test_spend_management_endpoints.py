@@ -218,6 +218,150 @@ async def test_ui_view_spend_logs_with_team_id(client, monkeypatch):
     assert data["data"][0]["team_id"] == "team1"
 
 
+@pytest.mark.asyncio
+async def test_ui_view_spend_logs_with_guardrail_name(client, monkeypatch):
+    mock_spend_logs = [
+        {
+            "id": "log1",
+            "request_id": "req1",
+            "api_key": "sk-test-key",
+            "spend": 0.05,
+            "startTime": datetime.datetime.now(timezone.utc).isoformat(),
+            "model": "gpt-4",
+            "metadata": {"guardrail_information": {"guardrail_name": "pii-guard"}},
+        },
+        {
+            "id": "log2",
+            "request_id": "req2",
+            "api_key": "sk-test-key",
+            "spend": 0.10,
+            "startTime": datetime.datetime.now(timezone.utc).isoformat(),
+            "model": "gpt-4",
+            "metadata": {},
+        },
+    ]
+
+    class MockDB:
+        async def query_raw(self, query, *params):
+            return [
+                {"request_id": log["request_id"]}
+                for log in mock_spend_logs
+                if log["metadata"].get("guardrail_information", {}).get("guardrail_name")
+                == params[2]
+            ]
+
+        def _filter(self, where):
+            request_ids = where.get("request_id", {}).get("in")
+            return [
+                log
+                for log in mock_spend_logs
+                if request_ids is None or log["request_id"] in request_ids
+            ]
+
+        async def find_many(self, *args, **kwargs):
+            return self._filter(kwargs["where"])
+
+        async def count(self, *args, **kwargs):
+            return len(self._filter(kwargs["where"]))
+
+    class MockPrismaClient:
+        def __init__(self):
+            self.db = MockDB()
+            self.db.litellm_spendlogs = self.db
+
+    monkeypatch.setattr("litellm.proxy.proxy_server.prisma_client", MockPrismaClient())
+
+    start_date = (
+        datetime.datetime.now(timezone.utc) - datetime.timedelta(days=7)
+    ).strftime("%Y-%m-%d %H:%M:%S")
+    end_date = datetime.datetime.now(timezone.utc).strftime("%Y-%m-%d %H:%M:%S")
+
+    response = client.get(
+        "/spend/logs/ui",
+        params={
+            "guardrail_name": "pii-guard",
+            "start_date": start_date,
+            "end_date": end_date,
+        },
+        headers={"Authorization": "Bearer sk-test"},
+    )
+
+    assert response.status_code == 200
+    data = response.json()
+    assert data["total"] == 1
+    assert data["data"][0]["request_id"] == "req1"
+
+
+@pytest.mark.asyncio
+async def test_ui_view_spend_logs_with_advanced_filters(client, monkeypatch):
+    captured = {}
+
+    class MockDB:
+        async def query_raw(self, query, *params):
+            captured["query"] = query
+            captured["params"] = params
+            return [{"request_id": "req1"}, {"request_id": "req2"}]
+
+        async def find_many(self, *args, **kwargs):
+            captured["where"] = kwargs["where"]
+            return []
+
+        async def count(self, *args, **kwargs):
+            return 0
+
+    class MockPrismaClient:
+        def __init__(self):
+            self.db = MockDB()
+            self.db.litellm_spendlogs = self.db
+
+    monkeypatch.setattr("litellm.proxy.proxy_server.prisma_client", MockPrismaClient())
+
+    response = client.get(
+        "/spend/logs/ui",
+        params={
+            "start_date": "2025-01-01 00:00:00",
+            "end_date": "2025-01-02 00:00:00",
+            "end_user": "customer-1",
+            "cache_hit": "false",
+            "api_base": "openai.azure.com",
+            "min_tokens": 100,
+            "guardrail_status": "blocked",
+            "request_tag": "prod",
+            "min_latency_ms": 5000,
+            "search": "refund_100%",
+        },
+        headers={"Authorization": "Bearer sk-test"},
+    )
+
+    assert response.status_code == 200
+    where = captured["where"]
+    assert where["end_user"] == "customer-1"
+    assert where["cache_hit"] == {"not": "True"}
+    assert where["api_base"] == {"contains": "openai.azure.com"}
+    assert where["total_tokens"] == {"gte": 100}
+    assert where["request_id"] == {"in": ["req1", "req2"]}
+
+    # start / end date are $1 / $2, the filter values follow in order
+    assert captured["params"][2:] == ("prod", 5000.0, "%refund\\_100\\%%")
+    assert "'guardrail_status' = 'failure'" in captured["query"]
+    assert '"request_tags" @> jsonb_build_array($3::text)' in captured["query"]
+    assert '"messages"::text ILIKE $5' in captured["query"]
+
+
+def test_ui_view_spend_logs_rejects_unknown_guardrail_status(client):
+    response = client.get(
+        "/spend/logs/ui",
+        params={
+            "start_date": "2025-01-01 00:00:00",
+            "end_date": "2025-01-02 00:00:00",
+            "guardrail_status": "unknown",
+        },
+        headers={"Authorization": "Bearer sk-test"},
+    )
+
+    assert response.status_code == 422
+
+
 @pytest.mark.asyncio
 async def test_ui_view_spend_logs_pagination(client, monkeypatch):
     # Create a larger set of mock data for pagination testing
@@ -0,0 +1,43 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { OAUTH_CALLBACK_MESSAGE_TYPE, OAUTH_CALLBACK_STORAGE_KEY } from "@/components/mcp_tools/oauth_utils";
+
+/**
+ * Redirect target for MCP server OAuth - hands the authorization response back to the dashboard window that opened it
+ */
+export default function MCPOAuthCallback() {
+  const searchParams = useSearchParams()!;
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const result = {
+      type: OAUTH_CALLBACK_MESSAGE_TYPE,
+      code: searchParams.get("code"),
+      state: searchParams.get("state"),
+      error: searchParams.get("error"),
+      error_description: searchParams.get("error_description"),
+    };
+    setError(result.error ? result.error_description || result.error : null);
+
+    // The code is useless without the PKCE verifier, which never leaves the opener
+    if (window.opener) {
+      window.opener.postMessage(result, "*");
+    }
+    localStorage.setItem(OAUTH_CALLBACK_STORAGE_KEY, JSON.stringify(result));
+
+    if (!result.error) {
+      setTimeout(() => window.close(), 300);
+    }
+  }, [searchParams]);
+
+  return (
+    <div className="flex h-screen items-center justify-center text-sm text-gray-600">
+      {error ? (
+        <p className="text-red-600">Authorization failed: {error}</p>
+      ) : (
+        <p>Authorization complete - you can close this window.</p>
+      )}
+    </div>
+  );
+}
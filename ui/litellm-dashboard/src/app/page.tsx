@@ -17,7 +17,8 @@ import Settings from "@/components/settings";
 import GeneralSettings from "@/components/general_settings";
 import PassThroughSettings from "@/components/pass_through_settings";
 import BudgetPanel from "@/components/budgets/budget_panel";
-import SpendLogsTable from "@/components/view_logs";
+import SpendLogsTable, { LogsDrillThrough } from "@/components/view_logs";
+import { LOG_SEARCH_PARAM, parseLogSearchParam } from "@/components/view_logs/saved_searches";
 import ModelHubTable from "@/components/model_hub_table";
 import NewUsagePage from "@/components/new_usage";
 import APIRef from "@/components/api_ref";
@@ -128,17 +129,29 @@ export default function CreateKeyPage() {
   const [page, setPage] = useState(() => {
     return searchParams.get("page") || "api-keys";
   });
+  // A shared log search link opens the logs with its filters applied
+  const [logsDrillThrough, setLogsDrillThrough] = useState<LogsDrillThrough | null>(() =>
+    parseLogSearchParam(searchParams.get(LOG_SEARCH_PARAM))
+  );
 
   // Custom setPage function that updates URL
   const updatePage = (newPage: string) => {
     // Update URL without full page reload
     const newSearchParams = new URLSearchParams(searchParams);
     newSearchParams.set("page", newPage);
+    newSearchParams.delete(LOG_SEARCH_PARAM);
 
     // Use Next.js router to update URL
     window.history.pushState(null, "", `?${newSearchParams.toString()}`);
 
     setPage(newPage);
+    setLogsDrillThrough(null);
+  };
+
+  // Open the logs filtered to what was clicked on another page
+  const openLogs = (drillThrough: LogsDrillThrough) => {
+    updatePage("logs");
+    setLogsDrillThrough(drillThrough);
   };
 
   const [accessToken, setAccessToken] = useState<string | null>(null);
@@ -359,7 +372,9 @@ export default function CreateKeyPage() {
               ) : page == "guardrails" ? (
                 <GuardrailsPanel
                   accessToken={accessToken}
+                  userID={userID}
                   userRole={userRole}
+                  onViewLogs={openLogs}
                 />
               ) : page == "transform-request" ? (
                 <TransformRequestPanel accessToken={accessToken} />
@@ -400,6 +415,7 @@ export default function CreateKeyPage() {
                   accessToken={accessToken}
                   allTeams={(teams as Team[]) ?? []}
                   premiumUser={premiumUser}
+                  drillThrough={logsDrillThrough}
                 />
               ) : page == "mcp-servers" ? (
                 <MCPServers
@@ -1,5 +1,4 @@
 import React, { useState, useEffect, useRef } from "react";
-import ReactMarkdown from "react-markdown";
 import {
   Card,
   Title,
@@ -24,7 +23,7 @@ import {
 } from "@tremor/react";
 import { v4 as uuidv4 } from 'uuid';
 
-import { message, Select, Spin, Typography, Tooltip, Input, Upload, Modal, Button } from "antd";
+import { message, Select, Spin, Typography, Tooltip, Input, Upload, Modal, Button, Switch } from "antd";
 import { makeOpenAIChatCompletionRequest } from "./chat_ui/llm_calls/chat_completion";
 import { makeOpenAIImageGenerationRequest } from "./chat_ui/llm_calls/image_generation";
 import { makeOpenAIImageEditsRequest } from "./chat_ui/llm_calls/image_edits";
@@ -41,10 +40,52 @@ import TagSelector from "./tag_management/TagSelector";
 import VectorStoreSelector from "./vector_store_management/VectorStoreSelector";
 import GuardrailSelector from "./guardrails/GuardrailSelector";
 import { determineEndpointType } from "./chat_ui/EndpointUtils";
-import { generateCodeSnippet } from "./chat_ui/CodeSnippets";
-import { MessageType } from "./chat_ui/types";
-import ReasoningContent from "./chat_ui/ReasoningContent";
-import ResponseMetrics, { TokenUsage } from "./chat_ui/ResponseMetrics";
+import { generateCodeSnippet, SnippetLanguage, SNIPPET_LANGUAGES } from "./chat_ui/CodeSnippets";
+import { MessageType, FunctionTool, ToolCall, MessageAttachment, InspectorEvent } from "./chat_ui/types";
+import {
+  appendTextChunk,
+  appendReasoningChunk,
+  setTimeToFirstToken,
+  setUsage,
+  setToolCalls,
+  getPendingToolCalls,
+  toApiChatHistory,
+  setStructuredOutput,
+} from "./chat_ui/message_utils";
+import { mockToolResult } from "./chat_ui/tool_utils";
+import { withMessageIds, storeBranch, getBranchInfo, switchBranch } from "./chat_ui/branch_utils";
+import ToolDefinitionsEditor from "./chat_ui/ToolDefinitionsEditor";
+import ToolResultsPanel, { ToolResult } from "./chat_ui/ToolResultsPanel";
+import AttachmentPreview from "./chat_ui/AttachmentPreview";
+import { readAttachment, ATTACHMENT_ACCEPT } from "./chat_ui/attachment_utils";
+import { TokenUsage } from "./chat_ui/ResponseMetrics";
+import ChatMessage from "./chat_ui/ChatMessage";
+import CompareView from "./chat_ui/CompareView";
+import EmbeddingsView from "./chat_ui/EmbeddingsView";
+import TranscriptionView from "./chat_ui/TranscriptionView";
+import SpeechView from "./chat_ui/SpeechView";
+import RerankView from "./chat_ui/RerankView";
+import SessionManager, { CurrentPlaygroundSession } from "./chat_ui/SessionManager";
+import GenerationParamsPanel from "./chat_ui/GenerationParamsPanel";
+import RequestInspector, { InspectorEntry, applyInspectorEvent } from "./chat_ui/RequestInspector";
+import {
+  GenerationParams,
+  DEFAULT_GENERATION_PARAMS,
+  parseGenerationParams,
+  validateGenerationParams,
+  buildChatCompletionParams,
+  buildResponsesParams,
+  buildAnthropicParams,
+  buildImageParams,
+  validateStructuredOutput,
+  parseExtraBody,
+} from "./chat_ui/generation_params";
+import {
+  PlaygroundSession,
+  PlaygroundSessionState,
+  readSharedPlaygroundSession,
+  clearSharedPlaygroundSession,
+} from "./chat_ui/playground_sessions";
 import { 
   SendOutlined, 
   ApiOutlined, 
@@ -61,12 +102,21 @@ import {
   UploadOutlined,
   PictureOutlined,
   CodeOutlined,
-  ToolOutlined
+  ToolOutlined,
+  ColumnWidthOutlined,
+  FolderOutlined,
+  FunctionOutlined,
+  PaperClipOutlined,
+  SlidersOutlined,
+  BugOutlined
 } from "@ant-design/icons";
 
 const { TextArea } = Input;
 const { Dragger } = Upload;
 
+// Stops auto-mocked tool results from looping forever when a model keeps calling tools
+const MAX_AUTO_MOCK_ROUNDS = 5;
+
 interface ChatUIProps {
   accessToken: string | null;
   token: string | null;
@@ -112,7 +162,7 @@ const ChatUI: React.FC<ChatUIProps> = ({
   const [chatHistory, setChatHistory] = useState<MessageType[]>(() => {
     try {
       const saved = sessionStorage.getItem('chatHistory');
-      return saved ? JSON.parse(saved) : [];
+      return saved ? withMessageIds(JSON.parse(saved)) : [];
     } catch (error) {
       console.error("Error parsing chatHistory from sessionStorage", error);
       return [];
@@ -121,6 +171,16 @@ const ChatUI: React.FC<ChatUIProps> = ({
   const [selectedModel, setSelectedModel] = useState<string | undefined>(
     () => sessionStorage.getItem('selectedModel') || undefined
   );
+  // Alternative paths of the conversation from edits and regenerations, see chat_ui/branch_utils
+  const [chatBranches, setChatBranches] = useState<MessageType[][]>(() => {
+    try {
+      const saved = sessionStorage.getItem('chatBranches');
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error("Error parsing chatBranches from sessionStorage", error);
+      return [];
+    }
+  });
   const [showCustomModelInput, setShowCustomModelInput] = useState<boolean>(false);
   const [modelInfo, setModelInfo] = useState<ModelGroup[]>([]);
   const customModelTimeout = useRef<NodeJS.Timeout | null>(null);
@@ -156,12 +216,51 @@ const ChatUI: React.FC<ChatUIProps> = ({
   });
   const [messageTraceId, setMessageTraceId] = useState<string | null>(() => sessionStorage.getItem('messageTraceId') || null);
   const [uploadedImage, setUploadedImage] = useState<File | null>(null);
+  const [attachments, setAttachments] = useState<MessageAttachment[]>([]);
   const [imagePreviewUrl, setImagePreviewUrl] = useState<string | null>(null);
   const [isGetCodeModalVisible, setIsGetCodeModalVisible] = useState(false);
   const [generatedCode, setGeneratedCode] = useState("");
   const [selectedSdk, setSelectedSdk] = useState<'openai' | 'azure'>('openai');
+  const [snippetLanguage, setSnippetLanguage] = useState<SnippetLanguage>(
+    () => (sessionStorage.getItem('snippetLanguage') as SnippetLanguage) || 'python'
+  );
+  const [isCompareMode, setIsCompareMode] = useState<boolean>(() => sessionStorage.getItem('isCompareMode') === 'true');
+  const [functionTools, setFunctionTools] = useState<FunctionTool[]>(() => {
+    const saved = sessionStorage.getItem('functionTools');
+    try {
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error("Error parsing functionTools from sessionStorage", error);
+      return [];
+    }
+  });
+  const [toolChoice, setToolChoice] = useState<string>(() => sessionStorage.getItem('toolChoice') || 'auto');
+  const [autoMockTools, setAutoMockTools] = useState<boolean>(() => sessionStorage.getItem('autoMockTools') === 'true');
+  const [isToolEditorVisible, setIsToolEditorVisible] = useState(false);
+  const [currentSession, setCurrentSession] = useState<CurrentPlaygroundSession | null>(() => {
+    const saved = sessionStorage.getItem('playgroundSession');
+    try {
+      return saved ? JSON.parse(saved) : null;
+    } catch (error) {
+      console.error("Error parsing playgroundSession from sessionStorage", error);
+      return null;
+    }
+  });
+
+  const [generationParams, setGenerationParams] = useState<GenerationParams>(() => {
+    const saved = sessionStorage.getItem('generationParams');
+    try {
+      return saved ? parseGenerationParams(JSON.parse(saved)) : DEFAULT_GENERATION_PARAMS;
+    } catch (error) {
+      console.error("Error parsing generationParams from sessionStorage", error);
+      return DEFAULT_GENERATION_PARAMS;
+    }
+  });
+  const [inspectorEntries, setInspectorEntries] = useState<InspectorEntry[]>([]);
+  const [isInspectorVisible, setIsInspectorVisible] = useState(false);
 
   const chatEndRef = useRef<HTMLDivElement>(null);
+  const autoMockRoundsRef = useRef(MAX_AUTO_MOCK_ROUNDS); // nothing is auto-mocked until the user sends a message
 
   // Fetch MCP tools
   const loadMCPTools = async () => {
@@ -172,6 +271,10 @@ const ChatUI: React.FC<ChatUIProps> = ({
     try {
       const tools = await fetchAvailableMCPTools(userApiKey);
       setMCPTools(tools);
+      // Tools are filtered by the key's tool permissions, drop a selection the key can't use
+      if (selectedMCPTools && !tools.some((tool) => tool.name === selectedMCPTools)) {
+        setSelectedMCPTools('');
+      }
     } catch (error) {
       console.error('Error fetching MCP tools:', error);
     } finally {
@@ -199,20 +302,32 @@ const ChatUI: React.FC<ChatUIProps> = ({
         endpointType,
         selectedModel,
         selectedSdk,
+        generationParams,
+        language: snippetLanguage,
+        traceId: messageTraceId,
+        selectedMCPTools,
+        functionTools,
+        toolChoice,
       });
       setGeneratedCode(code);
     }
-  }, [isGetCodeModalVisible, selectedSdk, apiKeySource, accessToken, apiKey, inputMessage, chatHistory, selectedTags, selectedVectorStores, selectedGuardrails, endpointType, selectedModel]);
+  }, [isGetCodeModalVisible, selectedSdk, snippetLanguage, apiKeySource, accessToken, apiKey, inputMessage, chatHistory, selectedTags, selectedVectorStores, selectedGuardrails, endpointType, selectedModel, generationParams, messageTraceId, selectedMCPTools, functionTools, toolChoice]);
 
   useEffect(() => {
     const handler = setTimeout(() => {
-      sessionStorage.setItem('chatHistory', JSON.stringify(chatHistory));
+      try {
+        sessionStorage.setItem('chatHistory', JSON.stringify(chatHistory));
+        sessionStorage.setItem('chatBranches', JSON.stringify(chatBranches));
+      } catch (error) {
+        // Large attachments can exceed the storage quota - the chat itself keeps working
+        console.error("Error saving chatHistory to sessionStorage", error);
+      }
     }, 500); // Debounce by 500ms
 
     return () => {
       clearTimeout(handler);
     };
-  }, [chatHistory]);
+  }, [chatHistory, chatBranches]);
 
   useEffect(() => {
     sessionStorage.setItem('apiKeySource', JSON.stringify(apiKeySource));
@@ -222,6 +337,17 @@ const ChatUI: React.FC<ChatUIProps> = ({
     sessionStorage.setItem('selectedVectorStores', JSON.stringify(selectedVectorStores));
     sessionStorage.setItem('selectedGuardrails', JSON.stringify(selectedGuardrails));
     sessionStorage.setItem('selectedMCPTools', JSON.stringify(selectedMCPTools));
+    sessionStorage.setItem('isCompareMode', String(isCompareMode));
+    sessionStorage.setItem('functionTools', JSON.stringify(functionTools));
+    sessionStorage.setItem('toolChoice', toolChoice);
+    sessionStorage.setItem('autoMockTools', String(autoMockTools));
+    sessionStorage.setItem('generationParams', JSON.stringify(generationParams));
+    sessionStorage.setItem('snippetLanguage', snippetLanguage);
+    if (currentSession) {
+      sessionStorage.setItem('playgroundSession', JSON.stringify(currentSession));
+    } else {
+      sessionStorage.removeItem('playgroundSession');
+    }
 
     if (selectedModel) {
       sessionStorage.setItem('selectedModel', selectedModel);
@@ -233,7 +359,23 @@ const ChatUI: React.FC<ChatUIProps> = ({
     } else {
       sessionStorage.removeItem('messageTraceId');
     }
-  }, [apiKeySource, apiKey, selectedModel, endpointType, selectedTags, selectedVectorStores, selectedGuardrails, messageTraceId, selectedMCPTools]);
+  }, [apiKeySource, apiKey, selectedModel, endpointType, selectedTags, selectedVectorStores, selectedGuardrails, messageTraceId, selectedMCPTools, isCompareMode, currentSession, functionTools, toolChoice, autoMockTools, generationParams, snippetLanguage]);
+
+  useEffect(() => {
+    // Open a session shared as a link - it's loaded unsaved, so it never overwrites one of ours
+    readSharedPlaygroundSession()
+      .then((session) => {
+        if (!session) return;
+        applySession(session);
+        setCurrentSession(null);
+        message.info(`Loaded shared session "${session.name}". Save it to keep a copy.`);
+      })
+      .catch((error) => {
+        console.error("Error reading shared playground session:", error);
+        message.error("This share link is invalid or incomplete");
+      })
+      .finally(clearSharedPlaygroundSession);
+  }, []);
 
   useEffect(() => {
     let userApiKey = apiKeySource === 'session' ? accessToken : apiKey;
@@ -285,128 +427,33 @@ const ChatUI: React.FC<ChatUIProps> = ({
   }, [chatHistory]);
 
   const updateTextUI = (role: string, chunk: string, model?: string) => {
-    console.log("updateTextUI called with:", role, chunk, model);
-    setChatHistory((prev) => {
-      const last = prev[prev.length - 1];
-      // if the last message is already from this same role, append
-      if (last && last.role === role && !last.isImage) {
-        // build a new object, but only set `model` if it wasn't there already
-        const updated: MessageType = {
-          ...last,
-          content: last.content + chunk,
-          model: last.model ?? model,      // ← only use the passed‐in model on the first chunk
-        };
-        return [...prev.slice(0, -1), updated];
-      } else {
-        // otherwise start a brand new assistant bubble
-        return [
-          ...prev,
-          {
-            role,
-            content: chunk,
-            model,                          // model set exactly once here
-          },
-        ];
-      }
-    });
+    setChatHistory((prev) => appendTextChunk(prev, role, chunk, model));
   };
 
   const updateReasoningContent = (chunk: string) => {
-    setChatHistory((prevHistory) => {
-      const lastMessage = prevHistory[prevHistory.length - 1];
-      
-      if (lastMessage && lastMessage.role === "assistant" && !lastMessage.isImage) {
-        return [
-          ...prevHistory.slice(0, prevHistory.length - 1),
-          { 
-            ...lastMessage,
-            reasoningContent: (lastMessage.reasoningContent || "") + chunk 
-          },
-        ];
-      } else {
-        // If there's no assistant message yet, we'll create one with empty content
-        // but with reasoning content
-        if (prevHistory.length > 0 && prevHistory[prevHistory.length - 1].role === "user") {
-          return [
-            ...prevHistory,
-            { 
-              role: "assistant", 
-              content: "", 
-              reasoningContent: chunk 
-            }
-          ];
-        }
-        
-        return prevHistory;
-      }
-    });
+    setChatHistory((prev) => appendReasoningChunk(prev, chunk));
   };
 
   const updateTimingData = (timeToFirstToken: number) => {
-    console.log("updateTimingData called with:", timeToFirstToken);
-    setChatHistory((prevHistory) => {
-      const lastMessage = prevHistory[prevHistory.length - 1];
-      console.log("Current last message:", lastMessage);
-      
-      if (lastMessage && lastMessage.role === "assistant") {
-        console.log("Updating assistant message with timeToFirstToken:", timeToFirstToken);
-        const updatedHistory = [
-          ...prevHistory.slice(0, prevHistory.length - 1),
-          { 
-            ...lastMessage,
-            timeToFirstToken
-          },
-        ];
-        console.log("Updated chat history:", updatedHistory);
-        return updatedHistory;
-      } 
-      // If the last message is a user message and no assistant message exists yet,
-      // create a new assistant message with empty content
-      else if (lastMessage && lastMessage.role === "user") {
-        console.log("Creating new assistant message with timeToFirstToken:", timeToFirstToken);
-        return [
-          ...prevHistory,
-          { 
-            role: "assistant", 
-            content: "", 
-            timeToFirstToken 
-          }
-        ];
-      }
-      
-      console.log("No appropriate message found to update timing");
-      return prevHistory;
-    });
+    setChatHistory((prev) => setTimeToFirstToken(prev, timeToFirstToken));
   };
 
   const updateUsageData = (usage: TokenUsage, toolName?: string) => {
-    console.log("Received usage data:", usage);
-    setChatHistory((prevHistory) => {
-      const lastMessage = prevHistory[prevHistory.length - 1];
-      
-      if (lastMessage && lastMessage.role === "assistant") {
-        console.log("Updating message with usage data:", usage);
-        const updatedMessage = { 
-          ...lastMessage,
-          usage,
-          toolName
-        };
-        console.log("Updated message:", updatedMessage);
-        
-        return [
-          ...prevHistory.slice(0, prevHistory.length - 1),
-          updatedMessage
-        ];
-      }
-      
-      return prevHistory;
-    });
+    setChatHistory((prev) => setUsage(prev, usage, toolName));
+  };
+
+  const updateToolCalls = (toolCalls: ToolCall[], model?: string) => {
+    setChatHistory((prev) => setToolCalls(prev, toolCalls, model));
+  };
+
+  const handleInspect = (event: InspectorEvent) => {
+    setInspectorEntries((prev) => applyInspectorEvent(prev, event));
   };
 
   const updateImageUI = (imageUrl: string, model: string) => {
     setChatHistory((prevHistory) => [
       ...prevHistory,
-      { role: "assistant", content: imageUrl, model, isImage: true }
+      { id: uuidv4(), role: "assistant", content: imageUrl, model, isImage: true }
     ]);
   };
 
@@ -419,6 +466,7 @@ const ChatUI: React.FC<ChatUIProps> = ({
   };
 
   const handleCancelRequest = () => {
+    autoMockRoundsRef.current = MAX_AUTO_MOCK_ROUNDS; // don't auto-continue a cancelled tool call
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
@@ -442,8 +490,195 @@ const ChatUI: React.FC<ChatUIProps> = ({
     setImagePreviewUrl(null);
   };
 
+  // Streams the next assistant turn for a history ending in a user or tool message, through the selected text endpoint
+  const requestTextResponse = async (
+    history: MessageType[],
+    effectiveApiKey: string,
+    signal: AbortSignal,
+    traceId: string
+  ) => {
+    if (!selectedModel) return;
+
+    if (endpointType === EndpointType.RESPONSES) {
+      // Create chat history for API call - strip out model field and isImage field
+      const apiChatHistory = history.filter(msg => !msg.isImage).map(({ role, content, attachments }) => ({ role, content, attachments }));
+
+      await makeOpenAIResponsesRequest(
+        apiChatHistory,
+        (role, delta, model) => updateTextUI(role, delta, model),
+        selectedModel,
+        effectiveApiKey,
+        selectedTags,
+        signal,
+        updateReasoningContent,
+        updateTimingData,
+        updateUsageData,
+        traceId,
+        selectedVectorStores.length > 0 ? selectedVectorStores : undefined,
+        selectedGuardrails.length > 0 ? selectedGuardrails : undefined,
+        selectedMCPTools, // Pass the selected tool directly
+        buildResponsesParams(generationParams),
+        handleInspect
+      );
+      checkStructuredOutput();
+      return;
+    }
+
+    if (endpointType === EndpointType.ANTHROPIC_MESSAGES) {
+      const apiChatHistory = history.filter(msg => !msg.isImage).map(({ role, content, attachments }) => ({ role, content, attachments }));
+
+      await makeAnthropicMessagesRequest(
+        apiChatHistory,
+        (role, delta, model) => updateTextUI(role, delta, model),
+        selectedModel,
+        effectiveApiKey,
+        selectedTags,
+        signal,
+        updateReasoningContent,
+        updateTimingData,
+        updateUsageData,
+        traceId,
+        selectedVectorStores.length > 0 ? selectedVectorStores : undefined,
+        selectedGuardrails.length > 0 ? selectedGuardrails : undefined,
+        selectedMCPTools, // Pass the selected tool directly
+        buildAnthropicParams(generationParams),
+        handleInspect
+      );
+      return;
+    }
+
+    // /v1/chat/completions, including any defined function tools
+    await makeOpenAIChatCompletionRequest(
+      toApiChatHistory(history),
+      (chunk, model) => updateTextUI("assistant", chunk, model),
+      selectedModel,
+      effectiveApiKey,
+      selectedTags,
+      signal,
+      updateReasoningContent,
+      updateTimingData,
+      updateUsageData,
+      traceId,
+      selectedVectorStores.length > 0 ? selectedVectorStores : undefined,
+      selectedGuardrails.length > 0 ? selectedGuardrails : undefined,
+      selectedMCPTools, // Pass the selected tool directly
+      functionTools.length > 0 ? functionTools : undefined,
+      toolChoice,
+      updateToolCalls,
+      buildChatCompletionParams(generationParams),
+      handleInspect
+    );
+    checkStructuredOutput();
+  };
+
+  // With a json_schema response format, marks whether the finished response matches the schema
+  const checkStructuredOutput = () => {
+    if (generationParams.response_format !== "json_schema") return;
+    setChatHistory((prev) => {
+      const last = prev[prev.length - 1];
+      if (!last || last.role !== "assistant") return prev;
+      return setStructuredOutput(prev, validateStructuredOutput(last.content, generationParams));
+    });
+  };
+
+  // Replaces the active conversation with `history` and requests the next assistant turn for it
+  const runConversation = async (history: MessageType[]) => {
+    const effectiveApiKey = apiKeySource === 'session' ? accessToken : apiKey;
+    if (!effectiveApiKey) {
+      message.error("Please provide an API key or select Current UI Session");
+      return;
+    }
+    const paramsError = validateGenerationParams(generationParams);
+    if (paramsError) {
+      message.error(paramsError);
+      return;
+    }
+
+    setChatHistory(history);
+
+    abortControllerRef.current = new AbortController();
+    const signal = abortControllerRef.current.signal;
+    const traceId = messageTraceId || uuidv4();
+    if (!messageTraceId) {
+      setMessageTraceId(traceId);
+    }
+    setIsLoading(true);
+
+    try {
+      await requestTextResponse(history, effectiveApiKey, signal, traceId);
+    } catch (error) {
+      if (signal.aborted) {
+        console.log("Request was cancelled");
+      } else {
+        console.error("Error fetching response", error);
+        updateTextUI("assistant", "Error fetching response:" + error);
+      }
+    } finally {
+      setIsLoading(false);
+      abortControllerRef.current = null;
+    }
+  };
+
+  const submitToolResults = (results: ToolResult[]) => {
+    const toolMessages: MessageType[] = results.map(({ toolCall, content }) => ({
+      id: uuidv4(),
+      role: "tool",
+      content,
+      toolCallId: toolCall.id,
+      toolName: toolCall.function.name,
+    }));
+    return runConversation([...chatHistory, ...toolMessages]);
+  };
+
+  // Editing a user message keeps the current path as a branch and continues from the edited copy
+  const editMessage = (index: number, content: string) => {
+    setChatBranches((prev) => storeBranch(prev, chatHistory));
+    autoMockRoundsRef.current = 0;
+    runConversation([...chatHistory.slice(0, index), { ...chatHistory[index], id: uuidv4(), content }]);
+  };
+
+  // Regenerating an assistant turn keeps the current path as a branch and requests a new response
+  const regenerateMessage = (index: number) => {
+    setChatBranches((prev) => storeBranch(prev, chatHistory));
+    autoMockRoundsRef.current = 0;
+    runConversation(chatHistory.slice(0, index));
+  };
+
+  const handleSwitchBranch = (index: number, direction: -1 | 1) => {
+    const next = switchBranch(chatHistory, chatBranches, index, direction);
+    setChatHistory(next.active);
+    setChatBranches(next.branches);
+  };
+
+  // Chat-style endpoints - these support attachments, editing and regenerating
+  const isTextEndpoint =
+    endpointType === EndpointType.CHAT ||
+    endpointType === EndpointType.RESPONSES ||
+    endpointType === EndpointType.ANTHROPIC_MESSAGES;
+
+  const pendingToolCalls = endpointType === EndpointType.CHAT ? getPendingToolCalls(chatHistory) : [];
+
+  useEffect(() => {
+    // Auto-mock: answer tool calls with mock results as soon as the response that requested them finishes
+    if (!autoMockTools || isLoading || pendingToolCalls.length === 0) return;
+    if (autoMockRoundsRef.current >= MAX_AUTO_MOCK_ROUNDS) return;
+    autoMockRoundsRef.current += 1;
+    submitToolResults(pendingToolCalls.map((toolCall) => ({ toolCall, content: mockToolResult(toolCall, functionTools) })));
+  }, [chatHistory, isLoading, autoMockTools]);
+
+  const handleAttachmentUpload = async (file: File) => {
+    try {
+      const attachment = await readAttachment(file);
+      setAttachments((prev) => [...prev, attachment]);
+    } catch (error: any) {
+      message.error(error.message);
+    }
+    return false; // Prevent default upload behavior
+  };
+
   const handleSendMessage = async () => {
-    if (inputMessage.trim() === "") return;
+    const messageAttachments = isTextEndpoint ? attachments : [];
+    if (inputMessage.trim() === "" && messageAttachments.length === 0) return;
 
     // For image edits, require both image and prompt
     if (endpointType === EndpointType.IMAGE_EDITS && !uploadedImage) {
@@ -462,12 +697,24 @@ const ChatUI: React.FC<ChatUIProps> = ({
       return;
     }
 
+    const paramsError = validateGenerationParams(generationParams);
+    if (paramsError) {
+      message.error(paramsError);
+      return;
+    }
+
     // Create new abort controller for this request
     abortControllerRef.current = new AbortController();
     const signal = abortControllerRef.current.signal;
+    autoMockRoundsRef.current = 0;
 
     // Create message object without model field for API call
-    const newUserMessage = { role: "user", content: inputMessage };
+    const newUserMessage: MessageType = {
+      id: uuidv4(),
+      role: "user",
+      content: inputMessage,
+      ...(messageAttachments.length > 0 ? { attachments: messageAttachments } : {}),
+    };
     
     // Generate new trace ID for a new conversation or use existing one
     const traceId = messageTraceId || uuidv4();
@@ -482,25 +729,8 @@ const ChatUI: React.FC<ChatUIProps> = ({
     try {
       if (selectedModel) {
         
-        if (endpointType === EndpointType.CHAT) {
-          // Create chat history for API call - strip out model field and isImage field
-          const apiChatHistory = [...chatHistory.filter(msg => !msg.isImage).map(({ role, content }) => ({ role, content })), newUserMessage];
-          
-          await makeOpenAIChatCompletionRequest(
-            apiChatHistory,
-            (chunk, model) => updateTextUI("assistant", chunk, model),
-            selectedModel,
-            effectiveApiKey,
-            selectedTags,
-            signal,
-            updateReasoningContent,
-            updateTimingData,
-            updateUsageData,
-            traceId,
-            selectedVectorStores.length > 0 ? selectedVectorStores : undefined,
-            selectedGuardrails.length > 0 ? selectedGuardrails : undefined,
-            selectedMCPTools // Pass the selected tool directly
-          );
+        if (isTextEndpoint) {
+          await requestTextResponse([...chatHistory, newUserMessage], effectiveApiKey, signal, traceId);
         } else if (endpointType === EndpointType.IMAGE) {
           // For image generation
           await makeOpenAIImageGenerationRequest(
@@ -509,7 +739,9 @@ const ChatUI: React.FC<ChatUIProps> = ({
             selectedModel,
             effectiveApiKey,
             selectedTags,
-            signal
+            signal,
+            buildImageParams(generationParams),
+            handleInspect
           );
         } else if (endpointType === EndpointType.IMAGE_EDITS) {
           // For image edits
@@ -524,43 +756,6 @@ const ChatUI: React.FC<ChatUIProps> = ({
               signal
             );
           }
-        } else if (endpointType === EndpointType.RESPONSES) {
-          // Create chat history for API call - strip out model field and isImage field
-          const apiChatHistory = [...chatHistory.filter(msg => !msg.isImage).map(({ role, content }) => ({ role, content })), newUserMessage];
-          
-          await makeOpenAIResponsesRequest(
-            apiChatHistory,
-            (role, delta, model) => updateTextUI(role, delta, model),
-            selectedModel,
-            effectiveApiKey,
-            selectedTags,
-            signal,
-            updateReasoningContent,
-            updateTimingData,
-            updateUsageData,
-            traceId,
-            selectedVectorStores.length > 0 ? selectedVectorStores : undefined,
-            selectedGuardrails.length > 0 ? selectedGuardrails : undefined,
-            selectedMCPTools // Pass the selected tool directly
-          );
-        } else if (endpointType === EndpointType.ANTHROPIC_MESSAGES) {
-          const apiChatHistory = [...chatHistory.filter(msg => !msg.isImage).map(({ role, content }) => ({ role, content })), newUserMessage];
-
-          await makeAnthropicMessagesRequest(
-            apiChatHistory,
-            (role, delta, model) => updateTextUI(role, delta, model),
-            selectedModel,
-            effectiveApiKey,
-            selectedTags,
-            signal,
-            updateReasoningContent,
-            updateTimingData,
-            updateUsageData,
-            traceId,
-            selectedVectorStores.length > 0 ? selectedVectorStores : undefined,
-            selectedGuardrails.length > 0 ? selectedGuardrails : undefined,
-            selectedMCPTools // Pass the selected tool directly
-          );
         }
       }
     } catch (error) {
@@ -580,13 +775,65 @@ const ChatUI: React.FC<ChatUIProps> = ({
     }
 
     setInputMessage("");
+    setAttachments([]);
+  };
+
+  const getSessionState = (): PlaygroundSessionState => ({
+    chatHistory,
+    chatBranches,
+    messageTraceId,
+    selectedModel,
+    endpointType,
+    selectedTags,
+    selectedVectorStores,
+    selectedGuardrails,
+    selectedMCPTools,
+    functionTools,
+    toolChoice,
+    generationParams,
+  });
+
+  const applySession = (session: PlaygroundSession) => {
+    setChatHistory(withMessageIds(session.chatHistory));
+    setChatBranches(session.chatBranches.map(withMessageIds));
+    setMessageTraceId(session.messageTraceId);
+    setSelectedModel(session.selectedModel);
+    setShowCustomModelInput(false);
+    setEndpointType(session.endpointType);
+    setSelectedTags(session.selectedTags);
+    setSelectedVectorStores(session.selectedVectorStores);
+    setSelectedGuardrails(session.selectedGuardrails);
+    setSelectedMCPTools(session.selectedMCPTools);
+    setFunctionTools(session.functionTools);
+    setToolChoice(session.toolChoice);
+    setGenerationParams(session.generationParams);
+    setInputMessage("");
+    setAttachments([]);
+    handleRemoveImage();
+  };
+
+  const loadSession = (session: PlaygroundSession) => {
+    applySession(session);
+    setCurrentSession({ id: session.id, name: session.name, createdAt: session.createdAt });
+  };
+
+  const startNewSession = () => {
+    setChatHistory([]);
+    setChatBranches([]);
+    setMessageTraceId(null);
+    setInputMessage("");
+    setAttachments([]);
+    handleRemoveImage();
+    setCurrentSession(null);
   };
 
   const clearChatHistory = () => {
     setChatHistory([]);
+    setChatBranches([]);
     setMessageTraceId(null);
     handleRemoveImage(); // Clear any uploaded images
     sessionStorage.removeItem('chatHistory');
+    sessionStorage.removeItem('chatBranches');
     sessionStorage.removeItem('messageTraceId');
     message.success("Chat history cleared.");
   };
@@ -612,6 +859,20 @@ const ChatUI: React.FC<ChatUIProps> = ({
 
   const antIcon = <LoadingOutlined style={{ fontSize: 24 }} spin />;
 
+  const endpointViewProps = {
+    accessToken: apiKeySource === 'session' ? accessToken : apiKey,
+    selectedModel,
+    selectedTags,
+    getExtraParams: () => parseExtraBody(generationParams),
+    onInspect: handleInspect,
+  };
+
+  const toolResults = Object.fromEntries(
+    chatHistory
+      .filter((msg) => msg.role === "tool" && msg.toolCallId)
+      .map((msg) => [msg.toolCallId as string, msg.content])
+  );
+
   return (
     <div className="w-full h-screen p-4 bg-white">
     <Card className="w-full rounded-xl shadow-md overflow-hidden">
@@ -620,6 +881,20 @@ const ChatUI: React.FC<ChatUIProps> = ({
         <div className="w-1/4 p-4 bg-gray-50 overflow-y-auto">
           <Title className="text-xl font-semibold mb-6 mt-2">Configurations</Title>
             <div className="space-y-4">
+              <div>
+                <Text className="font-medium block mb-2 text-gray-700 flex items-center">
+                  <FolderOutlined className="mr-2" /> Session
+                </Text>
+                <SessionManager
+                  currentSession={currentSession}
+                  getSessionState={getSessionState}
+                  onLoadSession={loadSession}
+                  onSessionSaved={(session) => setCurrentSession({ id: session.id, name: session.name, createdAt: session.createdAt })}
+                  onNewSession={startNewSession}
+                  disabled={isLoading}
+                />
+              </div>
+
               <div>
                 <Text className="font-medium block mb-2 text-gray-700 flex items-center">
                   <KeyOutlined className="mr-2" /> API Key Source
@@ -707,6 +982,70 @@ const ChatUI: React.FC<ChatUIProps> = ({
                 />  
               </div>
 
+              {endpointType === EndpointType.CHAT && (
+                <div className="flex items-center justify-between">
+                  <Text className="font-medium text-gray-700 flex items-center">
+                    <ColumnWidthOutlined className="mr-2" /> Compare Models
+                    <Tooltip
+                      className="ml-1"
+                      title="Send the same prompt to 2-4 models in parallel and compare their responses, metrics and cost side by side">
+                      <InfoCircleOutlined />
+                    </Tooltip>
+                  </Text>
+                  <Switch checked={isCompareMode} onChange={setIsCompareMode} size="small" />
+                </div>
+              )}
+
+              {endpointType === EndpointType.CHAT && !isCompareMode && (
+                <div>
+                  <Text className="font-medium block mb-2 text-gray-700 flex items-center">
+                    <FunctionOutlined className="mr-2" /> Function Tools
+                    <Tooltip
+                      className="ml-1"
+                      title="Define JSON-schema function tools to send with each request. Tool calls from the model are shown in the chat so you can answer them and continue.">
+                      <InfoCircleOutlined />
+                    </Tooltip>
+                  </Text>
+                  <TremorButton
+                    onClick={() => setIsToolEditorVisible(true)}
+                    className="w-full bg-gray-100 hover:bg-gray-200 text-gray-700 border-gray-300"
+                    icon={FunctionOutlined}
+                    size="xs"
+                  >
+                    {functionTools.length > 0 ? `Edit Tools (${functionTools.length})` : "Define Tools"}
+                  </TremorButton>
+                  {functionTools.length > 0 && (
+                    <div className="mt-2 space-y-2">
+                      <Select
+                        value={toolChoice}
+                        onChange={setToolChoice}
+                        style={{ width: "100%" }}
+                        options={[
+                          { value: "auto", label: "tool_choice: auto" },
+                          { value: "required", label: "tool_choice: required" },
+                          { value: "none", label: "tool_choice: none" },
+                        ]}
+                      />
+                      <div className="flex items-center justify-between">
+                        <Text className="text-sm text-gray-600">Auto-mock tool results</Text>
+                        <Switch checked={autoMockTools} onChange={setAutoMockTools} size="small" />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div>
+                <Text className="font-medium block mb-2 text-gray-700 flex items-center">
+                  <SlidersOutlined className="mr-2" /> Generation Parameters
+                </Text>
+                <GenerationParamsPanel
+                  params={generationParams}
+                  onChange={setGenerationParams}
+                  endpointType={endpointType}
+                />
+              </div>
+
               <div>
                 <Text className="font-medium block mb-2 text-gray-700 flex items-center">
                   <TagsOutlined className="mr-2" /> Tags
@@ -814,7 +1153,7 @@ const ChatUI: React.FC<ChatUIProps> = ({
         {/* Main Chat Area */}
         <div className="w-3/4 flex flex-col bg-white">
           <div className="p-4 border-b border-gray-200 flex justify-between items-center">
-            <Title className="text-xl font-semibold mb-0">Test Key</Title>
+            <Title className="text-xl font-semibold mb-0">{isCompareMode && endpointType === EndpointType.CHAT ? "Compare Models" : "Test Key"}</Title>
             <div className="flex gap-2">
               <TremorButton
                 onClick={() => setIsGetCodeModalVisible(true)}
@@ -823,203 +1162,207 @@ const ChatUI: React.FC<ChatUIProps> = ({
               >
                 Get Code
               </TremorButton>
+              <TremorButton
+                onClick={() => setIsInspectorVisible(true)}
+                className="bg-gray-100 hover:bg-gray-200 text-gray-700 border-gray-300"
+                icon={BugOutlined}
+              >
+                Inspect
+              </TremorButton>
             </div>
           </div>
-          <div className="flex-1 overflow-auto p-4 pb-0">
-            {chatHistory.length === 0 && (
-              <div className="h-full flex flex-col items-center justify-center text-gray-400">
-                <RobotOutlined style={{ fontSize: '48px', marginBottom: '16px' }} />
-                <Text>Start a conversation or generate an image</Text>
-              </div>
-            )}
+          {isCompareMode && endpointType === EndpointType.CHAT ? (
+            <CompareView
+              accessToken={apiKeySource === 'session' ? accessToken : apiKey}
+              modelInfo={modelInfo}
+              defaultModel={selectedModel}
+              selectedTags={selectedTags}
+              selectedVectorStores={selectedVectorStores}
+              selectedGuardrails={selectedGuardrails}
+              generationParams={generationParams}
+            />
+          ) : endpointType === EndpointType.EMBEDDINGS ? (
+            <EmbeddingsView {...endpointViewProps} />
+          ) : endpointType === EndpointType.TRANSCRIPTION ? (
+            <TranscriptionView {...endpointViewProps} />
+          ) : endpointType === EndpointType.SPEECH ? (
+            <SpeechView {...endpointViewProps} />
+          ) : endpointType === EndpointType.RERANK ? (
+            <RerankView {...endpointViewProps} />
+          ) : (
+            <>
+            <div className="flex-1 overflow-auto p-4 pb-0">
+              {chatHistory.length === 0 && (
+                <div className="h-full flex flex-col items-center justify-center text-gray-400">
+                  <RobotOutlined style={{ fontSize: '48px', marginBottom: '16px' }} />
+                  <Text>Start a conversation or generate an image</Text>
+                </div>
+              )}
             
-            {chatHistory.map((message, index) => (
-              <div 
-                key={index} 
-                className={`mb-4 ${message.role === "user" ? "text-right" : "text-left"}`}
-              >
-                <div className="inline-block max-w-[80%] rounded-lg shadow-sm p-3.5 px-4" style={{
-                  backgroundColor: message.role === "user" ? '#f0f8ff' : '#ffffff',
-                  border: message.role === "user" ? '1px solid #e6f0fa' : '1px solid #f0f0f0',
-                  textAlign: 'left'
-                }}>
-                  <div className="flex items-center gap-2 mb-1.5">
-                    <div className="flex items-center justify-center w-6 h-6 rounded-full mr-1" style={{
-                      backgroundColor: message.role === "user" ? '#e6f0fa' : '#f5f5f5',
-                    }}>
-                      {message.role === "user" ? 
-                        <UserOutlined style={{ fontSize: '12px', color: '#2563eb' }} /> : 
-                        <RobotOutlined style={{ fontSize: '12px', color: '#4b5563' }} />
-                      }
-                    </div>
-                    <strong className="text-sm capitalize">{message.role}</strong>
-                    {message.role === "assistant" && message.model && (
-                      <span className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-600 font-normal">
-                        {message.model}
-                      </span>
-                    )}
-                  </div>
-                  {message.reasoningContent && (
-                    <ReasoningContent reasoningContent={message.reasoningContent} />
-                  )}
-                  <div className="whitespace-pre-wrap break-words max-w-full message-content" 
-                       style={{ 
-                         wordWrap: 'break-word', 
-                         overflowWrap: 'break-word',
-                         wordBreak: 'break-word',
-                         hyphens: 'auto'
-                       }}>
-                    {message.isImage ? (
+              {chatHistory.map((message, index) =>
+                // Tool results are shown on the tool call they answer
+                message.role === "tool" ? null : (
+                  <ChatMessage
+                    key={message.id ?? index}
+                    message={message}
+                    toolResults={toolResults}
+                    branchInfo={getBranchInfo(chatHistory, chatBranches, index)}
+                    onSwitchBranch={(direction) => handleSwitchBranch(index, direction)}
+                    onEdit={isTextEndpoint && message.role === "user" ? (content) => editMessage(index, content) : undefined}
+                    onRegenerate={
+                      isTextEndpoint && message.role === "assistant" && !message.isImage && index > 0
+                        ? () => regenerateMessage(index)
+                        : undefined
+                    }
+                    actionsDisabled={isLoading}
+                  />
+                )
+              )}
+              {isLoading && (
+                <div className="flex justify-center items-center my-4">
+                  <Spin indicator={antIcon} />
+                </div>
+              )}
+              <div ref={chatEndRef} style={{ height: "1px" }} />
+            </div>
+          
+            <div className="p-4 border-t border-gray-200 bg-white">
+              {pendingToolCalls.length > 0 && !isLoading && (
+                <ToolResultsPanel
+                  pendingToolCalls={pendingToolCalls}
+                  tools={functionTools}
+                  onSubmit={(results) => {
+                    autoMockRoundsRef.current = 0;
+                    submitToolResults(results);
+                  }}
+                />
+              )}
+
+              {/* Image Upload Section for Image Edits */}
+              {endpointType === EndpointType.IMAGE_EDITS && (
+                <div className="mb-4">
+                  {!uploadedImage ? (
+                    <Dragger
+                      beforeUpload={handleImageUpload}
+                      accept="image/*"
+                      showUploadList={false}
+                      className="border-dashed border-2 border-gray-300 rounded-lg p-4"
+                    >
+                      <p className="ant-upload-drag-icon">
+                        <PictureOutlined style={{ fontSize: '24px', color: '#666' }} />
+                      </p>
+                      <p className="ant-upload-text text-sm">Click or drag image to upload</p>
+                      <p className="ant-upload-hint text-xs text-gray-500">
+                        Support for PNG, JPG, JPEG formats
+                      </p>
+                    </Dragger>
+                  ) : (
+                    <div className="relative inline-block">
                       <img 
-                        src={message.content} 
-                        alt="Generated image" 
-                        className="max-w-full rounded-md border border-gray-200 shadow-sm" 
-                        style={{ maxHeight: '500px' }} 
+                        src={imagePreviewUrl || ''} 
+                        alt="Upload preview" 
+                        className="max-w-32 max-h-32 rounded-md border border-gray-200 object-cover"
                       />
-                    ) : (
-                      <ReactMarkdown
-                        components={{
-                          code({node, inline, className, children, ...props}: React.ComponentPropsWithoutRef<'code'> & {
-                            inline?: boolean;
-                            node?: any;
-                          }) {
-                            const match = /language-(\w+)/.exec(className || '');
-                            return !inline && match ? (
-                              <SyntaxHighlighter
-                                style={coy as any}
-                                language={match[1]}
-                                PreTag="div"
-                                className="rounded-md my-2"
-                                wrapLines={true}
-                                wrapLongLines={true}
-                                {...props}
-                              >
-                                {String(children).replace(/\n$/, '')}
-                              </SyntaxHighlighter>
-                            ) : (
-                              <code className={`${className} px-1.5 py-0.5 rounded bg-gray-100 text-sm font-mono`} style={{ wordBreak: 'break-word' }} {...props}>
-                                {children}
-                              </code>
-                            );
-                          },
-                          pre: ({ node, ...props }) => (
-                            <pre style={{ overflowX: 'auto', maxWidth: '100%' }} {...props} />
-                          )
-                        }}
+                      <button
+                        className="absolute top-1 right-1 bg-white shadow-sm border border-gray-200 rounded px-1 py-1 text-red-500 hover:bg-red-50 text-xs"
+                        onClick={handleRemoveImage}
                       >
-                        {message.content}
-                      </ReactMarkdown>
-                    )}
-                                        
-                    {message.role === "assistant" && (message.timeToFirstToken || message.usage) && (
-                      <ResponseMetrics 
-                        timeToFirstToken={message.timeToFirstToken}
-                        usage={message.usage}
-                        toolName={message.toolName}
-                      />
-                    )}
-                  </div>
+                        <DeleteOutlined />
+                      </button>
+                    </div>
+                  )}
                 </div>
-              </div>
-            ))}
-            {isLoading && (
-              <div className="flex justify-center items-center my-4">
-                <Spin indicator={antIcon} />
-              </div>
-            )}
-            <div ref={chatEndRef} style={{ height: "1px" }} />
-          </div>
-          
-          <div className="p-4 border-t border-gray-200 bg-white">
-            {/* Image Upload Section for Image Edits */}
-            {endpointType === EndpointType.IMAGE_EDITS && (
-              <div className="mb-4">
-                {!uploadedImage ? (
-                  <Dragger
-                    beforeUpload={handleImageUpload}
-                    accept="image/*"
+              )}
+            
+              {isTextEndpoint && attachments.length > 0 && (
+                <AttachmentPreview
+                  attachments={attachments}
+                  onRemove={(index) => setAttachments((prev) => prev.filter((_, i) => i !== index))}
+                />
+              )}
+
+              <div className="flex items-center">
+                {isTextEndpoint && (
+                  <Upload
+                    beforeUpload={handleAttachmentUpload}
+                    accept={ATTACHMENT_ACCEPT}
                     showUploadList={false}
-                    className="border-dashed border-2 border-gray-300 rounded-lg p-4"
+                    multiple
+                    disabled={isLoading}
                   >
-                    <p className="ant-upload-drag-icon">
-                      <PictureOutlined style={{ fontSize: '24px', color: '#666' }} />
-                    </p>
-                    <p className="ant-upload-text text-sm">Click or drag image to upload</p>
-                    <p className="ant-upload-hint text-xs text-gray-500">
-                      Support for PNG, JPG, JPEG formats
-                    </p>
-                  </Dragger>
-                ) : (
-                  <div className="relative inline-block">
-                    <img 
-                      src={imagePreviewUrl || ''} 
-                      alt="Upload preview" 
-                      className="max-w-32 max-h-32 rounded-md border border-gray-200 object-cover"
-                    />
-                    <button
-                      className="absolute top-1 right-1 bg-white shadow-sm border border-gray-200 rounded px-1 py-1 text-red-500 hover:bg-red-50 text-xs"
-                      onClick={handleRemoveImage}
-                    >
-                      <DeleteOutlined />
-                    </button>
-                  </div>
+                    <Tooltip title="Attach images, audio (WAV/MP3), PDFs or text files">
+                      <button className="mr-2 px-2 py-1 text-gray-500 hover:text-blue-600" disabled={isLoading}>
+                        <PaperClipOutlined style={{ fontSize: '18px' }} />
+                      </button>
+                    </Tooltip>
+                  </Upload>
                 )}
-              </div>
-            )}
-            
-            <div className="flex items-center">
-              <TextArea
-                value={inputMessage}
-                onChange={(e) => setInputMessage(e.target.value)}
-                onKeyDown={handleKeyDown}
-                placeholder={
-                  endpointType === EndpointType.CHAT ||
-                  endpointType === EndpointType.RESPONSES ||
-                  endpointType === EndpointType.ANTHROPIC_MESSAGES
-                    ? "Type your message... (Shift+Enter for new line)"
-                    : endpointType === EndpointType.IMAGE_EDITS
-                    ? "Describe how you want to edit the image..."
-                    : "Describe the image you want to generate..."
-                }
-                disabled={isLoading}
-                className="flex-1"
-                autoSize={{ minRows: 1, maxRows: 6 }}
-                style={{ resize: 'none', paddingRight: '10px', paddingLeft: '10px' }}
-              />
-              {isLoading ? (
-                <TremorButton
-                  onClick={handleCancelRequest}
-                  className="ml-2 bg-red-50 hover:bg-red-100 text-red-600 border-red-200"
-                  icon={DeleteOutlined}
-                >
-                  Cancel
-                </TremorButton>
-              ) : (
-                <TremorButton
-                  onClick={handleSendMessage}
-                  className="ml-2 text-white"
-                  icon={
+                <TextArea
+                  value={inputMessage}
+                  onChange={(e) => setInputMessage(e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder={
                     endpointType === EndpointType.CHAT ||
                     endpointType === EndpointType.RESPONSES ||
                     endpointType === EndpointType.ANTHROPIC_MESSAGES
-                      ? SendOutlined
-                      : RobotOutlined
+                      ? "Type your message... (Shift+Enter for new line)"
+                      : endpointType === EndpointType.IMAGE_EDITS
+                      ? "Describe how you want to edit the image..."
+                      : "Describe the image you want to generate..."
                   }
-                >
-                  {endpointType === EndpointType.CHAT ||
-                  endpointType === EndpointType.RESPONSES ||
-                  endpointType === EndpointType.ANTHROPIC_MESSAGES
-                    ? "Send"
-                    : endpointType === EndpointType.IMAGE_EDITS
-                    ? "Edit"
-                    : "Generate"}
-                </TremorButton>
-              )}
+                  disabled={isLoading}
+                  className="flex-1"
+                  autoSize={{ minRows: 1, maxRows: 6 }}
+                  style={{ resize: 'none', paddingRight: '10px', paddingLeft: '10px' }}
+                />
+                {isLoading ? (
+                  <TremorButton
+                    onClick={handleCancelRequest}
+                    className="ml-2 bg-red-50 hover:bg-red-100 text-red-600 border-red-200"
+                    icon={DeleteOutlined}
+                  >
+                    Cancel
+                  </TremorButton>
+                ) : (
+                  <TremorButton
+                    onClick={handleSendMessage}
+                    className="ml-2 text-white"
+                    icon={
+                      endpointType === EndpointType.CHAT ||
+                      endpointType === EndpointType.RESPONSES ||
+                      endpointType === EndpointType.ANTHROPIC_MESSAGES
+                        ? SendOutlined
+                        : RobotOutlined
+                    }
+                  >
+                    {endpointType === EndpointType.CHAT ||
+                    endpointType === EndpointType.RESPONSES ||
+                    endpointType === EndpointType.ANTHROPIC_MESSAGES
+                      ? "Send"
+                      : endpointType === EndpointType.IMAGE_EDITS
+                      ? "Edit"
+                      : "Generate"}
+                  </TremorButton>
+                )}
+              </div>
             </div>
-          </div>
+            </>
+          )}
         </div>
       </div>
     </Card>
+    <ToolDefinitionsEditor
+      visible={isToolEditorVisible}
+      tools={functionTools}
+      onSave={setFunctionTools}
+      onClose={() => setIsToolEditorVisible(false)}
+    />
+    <RequestInspector
+      visible={isInspectorVisible}
+      entries={inspectorEntries}
+      onClose={() => setIsInspectorVisible(false)}
+      onClear={() => setInspectorEntries([])}
+    />
     <Modal
       title="Generated Code"
       visible={isGetCodeModalVisible}
@@ -1028,17 +1371,30 @@ const ChatUI: React.FC<ChatUIProps> = ({
       width={800}
     >
       <div className="flex justify-between items-end my-4">
-        <div>
-          <Text className="font-medium block mb-1 text-gray-700">SDK Type</Text>
-          <Select
-            value={selectedSdk}
-            onChange={(value) => setSelectedSdk(value as 'openai' | 'azure')}
-            style={{ width: 150 }}
-            options={[
-                { value: 'openai', label: 'OpenAI SDK' },
-                { value: 'azure', label: 'Azure SDK' },
-            ]}
-          />
+        <div className="flex gap-4">
+          <div>
+            <Text className="font-medium block mb-1 text-gray-700">Language</Text>
+            <Select
+              value={snippetLanguage}
+              onChange={setSnippetLanguage}
+              style={{ width: 200 }}
+              options={SNIPPET_LANGUAGES.map(({ value, label }) => ({ value, label }))}
+            />
+          </div>
+          {snippetLanguage === 'python' && (
+            <div>
+              <Text className="font-medium block mb-1 text-gray-700">SDK Type</Text>
+              <Select
+                value={selectedSdk}
+                onChange={(value) => setSelectedSdk(value as 'openai' | 'azure')}
+                style={{ width: 150 }}
+                options={[
+                    { value: 'openai', label: 'OpenAI SDK' },
+                    { value: 'azure', label: 'Azure SDK' },
+                ]}
+              />
+            </div>
+          )}
         </div>
         <Button 
           onClick={() => {
@@ -1050,7 +1406,7 @@ const ChatUI: React.FC<ChatUIProps> = ({
         </Button>
       </div>
       <SyntaxHighlighter
-        language="python"
+        language={SNIPPET_LANGUAGES.find(({ value }) => value === snippetLanguage)?.highlight ?? "python"}
         style={coy as any}
         wrapLines={true}
         wrapLongLines={true}
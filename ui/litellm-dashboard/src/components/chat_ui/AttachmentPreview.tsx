@@ -0,0 +1,62 @@
+import React from "react";
+import { CloseOutlined, FileOutlined } from "@ant-design/icons";
+import { MessageAttachment } from "./types";
+
+interface AttachmentPreviewProps {
+  attachments: MessageAttachment[];
+  onRemove?: (index: number) => void; // shows a remove button on each attachment when set
+}
+
+/**
+ * Images, audio players and file chips for a message's attachments
+ */
+const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({ attachments, onRemove }) => {
+  return (
+    <div className="flex flex-wrap gap-2 my-2">
+      {attachments.map((attachment, index) => (
+        <div key={`${attachment.name}-${index}`} className="relative inline-block">
+          {attachment.omitted ? (
+            <div
+              className="flex items-center gap-2 border border-dashed border-gray-300 rounded-md px-3 py-2 text-sm text-gray-500"
+              title="Attachments aren't kept in saved sessions or share links"
+            >
+              <FileOutlined />
+              <span className="truncate max-w-48">{attachment.name}</span>
+              <span className="text-xs">(not saved)</span>
+            </div>
+          ) : attachment.kind === "image" ? (
+            <img
+              src={attachment.dataUrl}
+              alt={attachment.name}
+              className="max-w-48 max-h-48 rounded-md border border-gray-200 object-cover"
+            />
+          ) : attachment.kind === "audio" ? (
+            <div className="border border-gray-200 rounded-md p-2 bg-gray-50">
+              <div className="text-xs text-gray-600 mb-1 truncate max-w-64">{attachment.name}</div>
+              <audio controls src={attachment.dataUrl} className="h-8" />
+            </div>
+          ) : (
+            <a
+              href={attachment.dataUrl}
+              download={attachment.name}
+              className="flex items-center gap-2 border border-gray-200 rounded-md px-3 py-2 bg-gray-50 text-sm text-gray-700 hover:bg-gray-100"
+            >
+              <FileOutlined />
+              <span className="truncate max-w-48">{attachment.name}</span>
+            </a>
+          )}
+          {onRemove && (
+            <button
+              className="absolute -top-2 -right-2 bg-white shadow-sm border border-gray-200 rounded-full w-5 h-5 flex items-center justify-center text-red-500 hover:bg-red-50 text-xs"
+              onClick={() => onRemove(index)}
+            >
+              <CloseOutlined style={{ fontSize: "10px" }} />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AttachmentPreview;
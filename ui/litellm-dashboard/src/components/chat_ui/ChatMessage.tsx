@@ -0,0 +1,247 @@
+import React, { useState } from "react";
+import ReactMarkdown from "react-markdown";
+import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
+import { coy } from 'react-syntax-highlighter/dist/esm/styles/prism';
+import { Input, Tooltip } from "antd";
+import {
+  RobotOutlined,
+  UserOutlined,
+  EditOutlined,
+  ReloadOutlined,
+  LeftOutlined,
+  RightOutlined,
+  CheckCircleOutlined,
+  CloseCircleOutlined,
+} from "@ant-design/icons";
+import { MessageType } from "./types";
+import { BranchInfo } from "./branch_utils";
+import ReasoningContent from "./ReasoningContent";
+import ResponseMetrics from "./ResponseMetrics";
+import ToolCallCard from "./ToolCallCard";
+import AttachmentPreview from "./AttachmentPreview";
+
+interface ChatMessageProps {
+  message: MessageType;
+  cost?: number;
+  maxWidthClassName?: string;
+  toolResults?: Record<string, string>; // tool call id -> result content
+  branchInfo?: BranchInfo;
+  onSwitchBranch?: (direction: -1 | 1) => void;
+  onEdit?: (content: string) => void; // edits branch the conversation from this message
+  onRegenerate?: () => void;
+  actionsDisabled?: boolean;
+}
+
+/**
+ * A single chat bubble - markdown content, reasoning and response metrics
+ */
+const ChatMessage: React.FC<ChatMessageProps> = ({
+  message,
+  cost,
+  maxWidthClassName = "max-w-[80%]",
+  toolResults = {},
+  branchInfo,
+  onSwitchBranch,
+  onEdit,
+  onRegenerate,
+  actionsDisabled = false,
+}) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState("");
+
+  const submitEdit = () => {
+    if (!onEdit || draft.trim() === "") return;
+    setIsEditing(false);
+    onEdit(draft);
+  };
+
+  const hasBranches = branchInfo && branchInfo.count > 1 && onSwitchBranch;
+  const showActions = !isEditing && (hasBranches || onEdit || onRegenerate);
+
+  return (
+    <div className={`mb-4 ${message.role === "user" ? "text-right" : "text-left"}`}>
+      <div className={`inline-block ${maxWidthClassName} rounded-lg shadow-sm p-3.5 px-4`} style={{
+        backgroundColor: message.role === "user" ? '#f0f8ff' : '#ffffff',
+        border: message.role === "user" ? '1px solid #e6f0fa' : '1px solid #f0f0f0',
+        textAlign: 'left'
+      }}>
+        <div className="flex items-center gap-2 mb-1.5">
+          <div className="flex items-center justify-center w-6 h-6 rounded-full mr-1" style={{
+            backgroundColor: message.role === "user" ? '#e6f0fa' : '#f5f5f5',
+          }}>
+            {message.role === "user" ?
+              <UserOutlined style={{ fontSize: '12px', color: '#2563eb' }} /> :
+              <RobotOutlined style={{ fontSize: '12px', color: '#4b5563' }} />
+            }
+          </div>
+          <strong className="text-sm capitalize">{message.role}</strong>
+          {message.role === "assistant" && message.model && (
+            <span className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-600 font-normal">
+              {message.model}
+            </span>
+          )}
+          {message.structuredOutput && (
+            message.structuredOutput.valid ? (
+              <span className="text-xs px-2 py-0.5 rounded bg-green-50 text-green-700 font-normal">
+                <CheckCircleOutlined className="mr-1" />
+                Matches schema
+              </span>
+            ) : (
+              <Tooltip
+                title={
+                  <ul className="list-disc pl-4 m-0">
+                    {message.structuredOutput.errors.map((error, i) => (
+                      <li key={i}>{error}</li>
+                    ))}
+                  </ul>
+                }
+              >
+                <span className="text-xs px-2 py-0.5 rounded bg-red-50 text-red-600 font-normal cursor-help">
+                  <CloseCircleOutlined className="mr-1" />
+                  Schema mismatch ({message.structuredOutput.errors.length})
+                </span>
+              </Tooltip>
+            )
+          )}
+        </div>
+        {message.reasoningContent && (
+          <ReasoningContent reasoningContent={message.reasoningContent} />
+        )}
+        {message.attachments && message.attachments.length > 0 && (
+          <AttachmentPreview attachments={message.attachments} />
+        )}
+        <div className="whitespace-pre-wrap break-words max-w-full message-content"
+             style={{
+               wordWrap: 'break-word',
+               overflowWrap: 'break-word',
+               wordBreak: 'break-word',
+               hyphens: 'auto'
+             }}>
+          {isEditing ? (
+            <div>
+              <Input.TextArea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter" && !e.shiftKey) {
+                    e.preventDefault();
+                    submitEdit();
+                  }
+                }}
+                autoSize={{ minRows: 1, maxRows: 12 }}
+                autoFocus
+              />
+              <div className="flex justify-end gap-2 mt-2">
+                <button className="text-xs px-2 py-1 rounded text-gray-600 hover:bg-gray-100" onClick={() => setIsEditing(false)}>
+                  Cancel
+                </button>
+                <button className="text-xs px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-700" onClick={submitEdit}>
+                  Save & Submit
+                </button>
+              </div>
+            </div>
+          ) : message.isImage ? (
+            <img
+              src={message.content}
+              alt="Generated image"
+              className="max-w-full rounded-md border border-gray-200 shadow-sm"
+              style={{ maxHeight: '500px' }}
+            />
+          ) : (
+            <ReactMarkdown
+              components={{
+                code({node, inline, className, children, ...props}: React.ComponentPropsWithoutRef<'code'> & {
+                  inline?: boolean;
+                  node?: any;
+                }) {
+                  const match = /language-(\w+)/.exec(className || '');
+                  return !inline && match ? (
+                    <SyntaxHighlighter
+                      style={coy as any}
+                      language={match[1]}
+                      PreTag="div"
+                      className="rounded-md my-2"
+                      wrapLines={true}
+                      wrapLongLines={true}
+                      {...props}
+                    >
+                      {String(children).replace(/\n$/, '')}
+                    </SyntaxHighlighter>
+                  ) : (
+                    <code className={`${className} px-1.5 py-0.5 rounded bg-gray-100 text-sm font-mono`} style={{ wordBreak: 'break-word' }} {...props}>
+                      {children}
+                    </code>
+                  );
+                },
+                pre: ({ node, ...props }) => (
+                  <pre style={{ overflowX: 'auto', maxWidth: '100%' }} {...props} />
+                )
+              }}
+            >
+              {message.content}
+            </ReactMarkdown>
+          )}
+
+          {message.toolCalls?.map((toolCall) => (
+            <ToolCallCard key={toolCall.id} toolCall={toolCall} result={toolResults[toolCall.id]} />
+          ))}
+
+          {message.role === "assistant" && (message.timeToFirstToken || message.usage) && (
+            <ResponseMetrics
+              timeToFirstToken={message.timeToFirstToken}
+              usage={message.usage}
+              toolName={message.toolName}
+              cost={cost}
+            />
+          )}
+        </div>
+      </div>
+      {showActions && (
+        <div className={`flex items-center gap-2 mt-1 text-xs text-gray-400 ${message.role === "user" ? "justify-end" : "justify-start"}`}>
+          {hasBranches && (
+            <span className="flex items-center gap-1">
+              <button
+                className="hover:text-gray-700 disabled:opacity-40"
+                disabled={actionsDisabled || branchInfo.index <= 0}
+                onClick={() => onSwitchBranch(-1)}
+              >
+                <LeftOutlined />
+              </button>
+              {branchInfo.index + 1} / {branchInfo.count}
+              <button
+                className="hover:text-gray-700 disabled:opacity-40"
+                disabled={actionsDisabled || branchInfo.index >= branchInfo.count - 1}
+                onClick={() => onSwitchBranch(1)}
+              >
+                <RightOutlined />
+              </button>
+            </span>
+          )}
+          {onEdit && (
+            <Tooltip title="Edit - creates a new branch from this message">
+              <button
+                className="hover:text-gray-700 disabled:opacity-40"
+                disabled={actionsDisabled}
+                onClick={() => {
+                  setDraft(message.content);
+                  setIsEditing(true);
+                }}
+              >
+                <EditOutlined />
+              </button>
+            </Tooltip>
+          )}
+          {onRegenerate && (
+            <Tooltip title="Regenerate - creates a new branch with another response">
+              <button className="hover:text-gray-700 disabled:opacity-40" disabled={actionsDisabled} onClick={onRegenerate}>
+                <ReloadOutlined />
+              </button>
+            </Tooltip>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatMessage;
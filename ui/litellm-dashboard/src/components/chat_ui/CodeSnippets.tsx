@@ -1,12 +1,24 @@
-import { MessageType } from "./types";
+import { MessageType, FunctionTool } from "./types";
 import { EndpointType } from "./mode_endpoint_mapping";
-
-
-interface CodeGenMetadata {
-	tags?: string[];
-	vector_stores?: string[];
-	guardrails?: string[];
-}
+import {
+	GenerationParams,
+	buildChatCompletionParams,
+	buildResponsesParams,
+	buildAnthropicParams,
+	buildImageParams,
+	parseExtraBody,
+	validateGenerationParams,
+} from "./generation_params";
+
+export type SnippetLanguage = 'python' | 'typescript' | 'curl' | 'go' | 'anthropic';
+
+export const SNIPPET_LANGUAGES: { value: SnippetLanguage; label: string; highlight: string }[] = [
+	{ value: 'python', label: 'Python', highlight: 'python' },
+	{ value: 'typescript', label: 'TypeScript', highlight: 'typescript' },
+	{ value: 'curl', label: 'curl', highlight: 'bash' },
+	{ value: 'go', label: 'Go', highlight: 'go' },
+	{ value: 'anthropic', label: 'Anthropic SDK (Python)', highlight: 'python' },
+];
 
 interface GenerateCodeParams {
 	apiKeySource: 'session' | 'custom';
@@ -19,414 +31,511 @@ interface GenerateCodeParams {
 	selectedGuardrails: string[];
 	endpointType: string;
 	selectedModel: string | undefined;
+	selectedSdk: 'openai' | 'azure'; // only used for Python
+	generationParams?: GenerationParams;
+	language?: SnippetLanguage; // defaults to python
+	traceId?: string | null;
+	selectedMCPTools?: string;
+	functionTools?: FunctionTool[];
+	toolChoice?: string;
+}
+
+// A file sent as multipart form data, e.g. the image for /v1/images/edits
+interface FileField {
+	name: string;
+	path: string;
+}
+
+// Everything a snippet needs to reproduce one playground request, independent of language
+interface RequestSpec {
+	endpointType: EndpointType;
+	path: string;
+	args: Record<string, any>; // the endpoint's standard parameters
+	litellmParams: Record<string, any>; // litellm-only and extra body parameters - extra_body in the Python SDKs
+	headers: Record<string, string>;
+	file?: FileField;
+}
+
+interface SnippetContext {
+	apiBase: string;
+	apiKey: string;
 	selectedSdk: 'openai' | 'azure';
 }
 
-export const generateCodeSnippet = (params: GenerateCodeParams): string => {
-	const {
-		apiKeySource,
-		accessToken,
-		apiKey,
-		inputMessage,
-		chatHistory,
-		selectedTags,
-		selectedVectorStores,
-		selectedGuardrails,
-		endpointType,
-		selectedModel,
-		selectedSdk,
-	} = params;
-	const effectiveApiKey = apiKeySource === 'session' ? accessToken : apiKey;
-	const apiBase = window.location.origin;
+const TEXT_ENDPOINTS: string[] = [EndpointType.CHAT, EndpointType.RESPONSES, EndpointType.ANTHROPIC_MESSAGES];
+
+const ENDPOINT_PATHS: Record<EndpointType, string> = {
+	[EndpointType.CHAT]: '/v1/chat/completions',
+	[EndpointType.RESPONSES]: '/v1/responses',
+	[EndpointType.ANTHROPIC_MESSAGES]: '/v1/messages',
+	[EndpointType.IMAGE]: '/v1/images/generations',
+	[EndpointType.IMAGE_EDITS]: '/v1/images/edits',
+	[EndpointType.EMBEDDINGS]: '/v1/embeddings',
+	[EndpointType.TRANSCRIPTION]: '/v1/audio/transcriptions',
+	[EndpointType.SPEECH]: '/v1/audio/speech',
+	[EndpointType.RERANK]: '/v1/rerank',
+};
+
+// Parameters each SDK method accepts directly - anything else has to go through extra_body in Python
+const ANTHROPIC_SDK_PARAMS = ['model', 'max_tokens', 'messages', 'system', 'temperature', 'top_p', 'stop_sequences', 'tools', 'tool_choice'];
+
+// Python SDK method and how to print its result, per endpoint
+const PYTHON_CALLS: Partial<Record<EndpointType, { method: string; output: string }>> = {
+	[EndpointType.CHAT]: { method: 'client.chat.completions.create', output: 'print(response.choices[0].message.content)' },
+	[EndpointType.RESPONSES]: { method: 'client.responses.create', output: 'print(response.output_text)' },
+	[EndpointType.IMAGE]: { method: 'client.images.generate', output: 'print(response.data[0].url or "base64 image in response.data[0].b64_json")' },
+	[EndpointType.IMAGE_EDITS]: { method: 'client.images.edit', output: 'print(response.data[0].url or "base64 image in response.data[0].b64_json")' },
+	[EndpointType.EMBEDDINGS]: { method: 'client.embeddings.create', output: 'print(len(response.data[0].embedding), "dimensions")' },
+	[EndpointType.TRANSCRIPTION]: { method: 'client.audio.transcriptions.create', output: 'print(response.text)' },
+	[EndpointType.SPEECH]: { method: 'client.audio.speech.create', output: 'response.write_to_file("speech.mp3")' },
+};
+
+// openai-node method and how to log its result, per endpoint
+const TYPESCRIPT_CALLS: Partial<Record<EndpointType, { method: string; output: string }>> = {
+	[EndpointType.CHAT]: { method: 'client.chat.completions.create', output: 'console.log(response.choices[0].message.content);' },
+	[EndpointType.RESPONSES]: { method: 'client.responses.create', output: 'console.log(response.output_text);' },
+	[EndpointType.IMAGE]: { method: 'client.images.generate', output: 'console.log(response.data?.[0]?.url ?? "base64 image in response.data[0].b64_json");' },
+	[EndpointType.IMAGE_EDITS]: { method: 'client.images.edit', output: 'console.log(response.data?.[0]?.url ?? "base64 image in response.data[0].b64_json");' },
+	[EndpointType.EMBEDDINGS]: { method: 'client.embeddings.create', output: 'console.log(response.data[0].embedding.length, "dimensions");' },
+	[EndpointType.TRANSCRIPTION]: { method: 'client.audio.transcriptions.create', output: 'console.log(response.text);' },
+	[EndpointType.SPEECH]: {
+		method: 'client.audio.speech.create',
+		output: 'await fs.promises.writeFile("speech.mp3", Buffer.from(await response.arrayBuffer()));',
+	},
+};
+
+const indentLines = (text: string, indent: string) => text.split('\n').join(`\n${indent}`);
+
+// JSON value -> Python literal, so parameters can be pasted into the snippet as keyword arguments
+const toPythonLiteral = (value: unknown, indent = 1): string => {
+	const pad = '\t'.repeat(indent);
+	if (value === null || value === undefined) return 'None';
+	if (value === true) return 'True';
+	if (value === false) return 'False';
+	if (Array.isArray(value)) {
+		if (value.length === 0) return '[]';
+		return `[\n${value.map(item => `${pad}\t${toPythonLiteral(item, indent + 1)}`).join(',\n')}\n${pad}]`;
+	}
+	if (typeof value === 'object') {
+		const entries = Object.entries(value as Record<string, unknown>);
+		if (entries.length === 0) return '{}';
+		return `{\n${entries.map(([key, item]) => `${pad}\t${JSON.stringify(key)}: ${toPythonLiteral(item, indent + 1)}`).join(',\n')}\n${pad}}`;
+	}
+	return JSON.stringify(value);
+};
 
-	// Always get the input message early on, regardless of what happens later
-	const userPrompt = inputMessage || "Your prompt here"; // Fallback if inputMessage is empty
+const toJsonLiteral = (value: unknown, indent: string) => indentLines(JSON.stringify(value, null, '\t'), indent);
 
-	// Safely escape the prompt to prevent issues with quotes
-	const safePrompt = userPrompt.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+const shellQuote = (text: string) => `'${text.replace(/'/g, `'\\''`)}'`;
 
+// Message history for the snippet - images, tool turns and attachments don't carry over
+const buildMessages = (chatHistory: MessageType[], inputMessage: string) => {
 	const messages = chatHistory
-			.filter(msg => !msg.isImage)
-			.map(({ role, content }) => ({ role, content }));
+		.filter(msg => !msg.isImage && (msg.role === 'user' || msg.role === 'assistant' || msg.role === 'system') && msg.content)
+		.map(({ role, content }) => ({ role, content }));
+	if (inputMessage.trim() || messages.length === 0) {
+		messages.push({ role: 'user', content: inputMessage || 'Your prompt here' });
+	}
+	return messages;
+};
+
+const buildRequestSpec = (params: GenerateCodeParams, endpointType: EndpointType, apiBase: string, apiKey: string): RequestSpec => {
+	const { inputMessage, chatHistory, selectedTags, selectedVectorStores, selectedGuardrails, generationParams, traceId } = params;
+	const model = params.selectedModel || 'your-model-name';
+	const prompt = inputMessage || 'Your prompt here';
+	// Invalid JSON in the parameter panel would fail the request too, so leave the panel's values out
+	const panelParams = generationParams && !validateGenerationParams(generationParams) ? generationParams : undefined;
+	const withPanel = (build: (params: GenerationParams) => Record<string, any>) =>
+		panelParams ? build({ ...panelParams, extra_body: '' }) : {};
+
+	const mcpTools = params.selectedMCPTools ? [{
+		type: 'mcp',
+		server_label: 'litellm',
+		server_url: `${apiBase}/mcp`,
+		require_approval: 'never',
+		headers: { 'x-litellm-api-key': `Bearer ${apiKey}` },
+	}] : [];
+
+	let args: Record<string, any>;
+	let file: FileField | undefined;
+	switch (endpointType) {
+		case EndpointType.CHAT: {
+			// mockResponse is playground-only
+			const definedTools = (params.functionTools ?? []).map(({ type, function: fn }) => ({ type, function: fn }));
+			const tools = [...mcpTools, ...definedTools];
+			args = {
+				model,
+				messages: buildMessages(chatHistory, inputMessage),
+				...withPanel(buildChatCompletionParams),
+				...(tools.length > 0 ? { tools, tool_choice: definedTools.length > 0 ? params.toolChoice ?? 'auto' : 'auto' } : {}),
+			};
+			break;
+		}
+		case EndpointType.RESPONSES:
+			args = {
+				model,
+				input: buildMessages(chatHistory, inputMessage),
+				...withPanel(buildResponsesParams),
+				...(mcpTools.length > 0 ? { tools: mcpTools, tool_choice: 'required' } : {}),
+			};
+			break;
+		case EndpointType.ANTHROPIC_MESSAGES: {
+			const messages = buildMessages(chatHistory, inputMessage);
+			const system = messages.filter(msg => msg.role === 'system').map(msg => msg.content).join('\n\n');
+			const { max_tokens = 1024, ...anthropicParams } = withPanel(buildAnthropicParams);
+			args = {
+				model,
+				max_tokens,
+				...(system ? { system } : {}),
+				messages: messages.filter(msg => msg.role !== 'system'),
+				...anthropicParams,
+				...(mcpTools.length > 0 ? { tools: mcpTools, tool_choice: { type: 'auto' } } : {}),
+			};
+			break;
+		}
+		case EndpointType.IMAGE:
+			args = { model, prompt, ...withPanel(buildImageParams) };
+			break;
+		case EndpointType.IMAGE_EDITS:
+			args = { model, prompt };
+			file = { name: 'image', path: 'image.png' };
+			break;
+		case EndpointType.EMBEDDINGS:
+			args = { model, input: [prompt] };
+			break;
+		case EndpointType.TRANSCRIPTION:
+			args = { model };
+			file = { name: 'file', path: 'audio.mp3' };
+			break;
+		case EndpointType.SPEECH:
+			args = { model, input: prompt, voice: 'alloy' };
+			break;
+		case EndpointType.RERANK:
+			args = { model, query: prompt, documents: ['first document', 'second document'] };
+			break;
+	}
+
+	const isTextEndpoint = TEXT_ENDPOINTS.includes(endpointType);
+	const litellmParams: Record<string, any> = {
+		...(panelParams && endpointType !== EndpointType.IMAGE_EDITS ? parseExtraBody(panelParams) : {}),
+		...(isTextEndpoint && selectedVectorStores.length > 0 ? { vector_store_ids: selectedVectorStores } : {}),
+		...(isTextEndpoint && selectedGuardrails.length > 0 ? { guardrails: selectedGuardrails } : {}),
+		...(isTextEndpoint && traceId ? { litellm_trace_id: traceId } : {}),
+	};
+	// The Anthropic SDK rejects parameters it doesn't know, like reasoning_effort
+	if (endpointType === EndpointType.ANTHROPIC_MESSAGES) {
+		for (const key of Object.keys(args)) {
+			if (!ANTHROPIC_SDK_PARAMS.includes(key)) {
+				litellmParams[key] = args[key];
+				delete args[key];
+			}
+		}
+	}
 
-	const metadata: CodeGenMetadata = {};
-	if (selectedTags.length > 0) metadata.tags = selectedTags;
-	if (selectedVectorStores.length > 0) metadata.vector_stores = selectedVectorStores;
-	if (selectedGuardrails.length > 0) metadata.guardrails = selectedGuardrails;
+	return {
+		endpointType,
+		path: ENDPOINT_PATHS[endpointType],
+		args,
+		litellmParams,
+		headers: selectedTags.length > 0 ? { 'x-litellm-tags': selectedTags.join(',') } : {},
+		file,
+	};
+};
+
+const pythonKwargs = (spec: RequestSpec) => {
+	const kwargs = Object.entries(spec.args).map(([key, value]) => `${key}=${toPythonLiteral(value)}`);
+	if (spec.file) kwargs.splice(1, 0, `${spec.file.name}=open("${spec.file.path}", "rb")`);
+	if (Object.keys(spec.headers).length > 0) kwargs.push(`extra_headers=${toPythonLiteral(spec.headers)}`);
+	if (Object.keys(spec.litellmParams).length > 0) kwargs.push(`extra_body=${toPythonLiteral(spec.litellmParams)}`);
+	return kwargs.map(kwarg => `\t${kwarg}`).join(',\n');
+};
+
+const renderAnthropicPython = (spec: RequestSpec, ctx: SnippetContext) => `import anthropic
+
+client = anthropic.Anthropic(
+	api_key="${ctx.apiKey}",
+	base_url="${ctx.apiBase}"
+)
 
-	const modelNameForCode = selectedModel || 'your-model-name';
+message = client.messages.create(
+${pythonKwargs(spec)}
+)
 
-	const clientInitialization = selectedSdk === 'azure'
-			? `import openai
+print(message.content[0].text)
+`;
+
+const renderPython = (spec: RequestSpec, ctx: SnippetContext) => {
+	if (spec.endpointType === EndpointType.ANTHROPIC_MESSAGES) {
+		return renderAnthropicPython(spec, ctx);
+	}
+
+	if (spec.endpointType === EndpointType.RERANK) {
+		// The OpenAI SDK has no rerank method, so this calls the proxy directly
+		return `import requests
+
+response = requests.post(
+	"${ctx.apiBase}${spec.path}",
+	headers=${toPythonLiteral({ Authorization: `Bearer ${ctx.apiKey}`, ...spec.headers })},
+	json=${toPythonLiteral({ ...spec.args, ...spec.litellmParams })}
+)
+
+for result in response.json()["results"]:
+	print(result["index"], result["relevance_score"])
+`;
+	}
+
+	const clientInitialization = ctx.selectedSdk === 'azure'
+		? `import openai
 
 client = openai.AzureOpenAI(
-	api_key="${effectiveApiKey || 'YOUR_LITELLM_API_KEY'}",
-	azure_endpoint="${apiBase}",
+	api_key="${ctx.apiKey}",
+	azure_endpoint="${ctx.apiBase}",
 	api_version="2024-02-01"
 )`
-			: `import openai
+		: `import openai
 
 client = openai.OpenAI(
-	api_key="${effectiveApiKey || 'YOUR_LITELLM_API_KEY'}",
-	base_url="${apiBase}"
+	api_key="${ctx.apiKey}",
+	base_url="${ctx.apiBase}"
 )`;
+	const call = PYTHON_CALLS[spec.endpointType]!;
 
-	let endpointSpecificCode;
-	switch (endpointType) {
-			case EndpointType.CHAT: {
-					const metadataIsNotEmpty = Object.keys(metadata).length > 0;
-					let extraBodyCode = '';
-					if (metadataIsNotEmpty) {
-						const extraBodyObject = { metadata };
-						const extraBodyString = JSON.stringify(extraBodyObject, null, 2);
-						const indentedExtraBodyString = extraBodyString.split('\n').map(line => ' '.repeat(4) + line).join('\n').trim();
-
-						extraBodyCode = `,\n    extra_body=${indentedExtraBodyString}`;
-					}
-
-					endpointSpecificCode = `
-# request sent to model set on litellm proxy, \`litellm --model\`
-response = client.chat.completions.create(
-	model="${modelNameForCode}",
-	messages = ${JSON.stringify(messages, null, 4)}${extraBodyCode}
-)
+	return `${clientInitialization}
 
-print(response)
-`;
-					break;
-			}
-			case EndpointType.RESPONSES: {
-				const metadataIsNotEmpty = Object.keys(metadata).length > 0;
-				let extraBodyCode = '';
-				if (metadataIsNotEmpty) {
-					const extraBodyObject = { metadata };
-					const extraBodyString = JSON.stringify(extraBodyObject, null, 2);
-					const indentedExtraBodyString = extraBodyString.split('\n').map(line => ' '.repeat(4) + line).join('\n').trim();
-
-					extraBodyCode = `,\n    extra_body=${indentedExtraBodyString}`;
-				}
-
-				endpointSpecificCode = `
 # request sent to model set on litellm proxy, \`litellm --model\`
-response = client.responses.create(
-	model="${modelNameForCode}",
-	messages = ${JSON.stringify(messages, null, 4)}${extraBodyCode}
+response = ${call.method}(
+${pythonKwargs(spec)}
 )
 
-print(response)
+${call.output}
 `;
-				break;
-			}
-			case EndpointType.IMAGE:
-				if (selectedSdk === 'azure') {
-						endpointSpecificCode = `
-# NOTE: The Azure SDK does not have a direct equivalent to the multi-modal 'responses.create' method shown for OpenAI.
-# This snippet uses 'client.images.generate' and will create a new image based on your prompt.
-# It does not use the uploaded image, as 'client.images.generate' does not support image inputs in this context.
-import os
-import requests
-import json
-import time
-from PIL import Image
-
-result = client.images.generate(
-	model="${modelNameForCode}",
-	prompt="${inputMessage}",
-	n=1
-)
+};
+
+// Top-level properties of a TypeScript request body - litellm-only ones need a ts-expect-error for the SDK's types
+const typescriptKey = (key: string) => (/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key));
+
+// Properties of a TypeScript object literal, one per line
+const typescriptProperties = (values: Record<string, any>, indent: string) =>
+	Object.entries(values).map(([key, value]) => `${indent}${typescriptKey(key)}: ${toJsonLiteral(value, indent)},`);
+
+// The request body for an SDK call - litellm-only parameters are spread in from a separate object,
+// since the SDK's types would reject them as object literal properties
+const typescriptBody = (spec: RequestSpec, indent: string) => {
+	const lines = typescriptProperties(spec.args, indent);
+	if (spec.file) lines.splice(1, 0, `${indent}${spec.file.name}: fs.createReadStream("${spec.file.path}"),`);
+	if (Object.keys(spec.litellmParams).length > 0) lines.push(`${indent}...litellmParams,`);
+	return lines.join('\n');
+};
+
+const typescriptLitellmParams = (spec: RequestSpec) =>
+	Object.keys(spec.litellmParams).length > 0
+		? `\t// litellm-specific parameters, not part of the SDK's request types\n\tconst litellmParams = {\n${typescriptProperties(spec.litellmParams, '\t\t').join('\n')}\n\t};\n\n`
+		: '';
+
+const typescriptRequestOptions = (spec: RequestSpec) =>
+	Object.keys(spec.headers).length > 0 ? `,\n\t\t{ headers: ${JSON.stringify(spec.headers)} }` : '';
+
+const renderTypeScript = (spec: RequestSpec, ctx: SnippetContext) => {
+	if (spec.endpointType === EndpointType.ANTHROPIC_MESSAGES) {
+		return `import Anthropic from "@anthropic-ai/sdk";
+
+const client = new Anthropic({
+	apiKey: "${ctx.apiKey}",
+	baseURL: "${ctx.apiBase}",
+});
+
+async function main() {
+${typescriptLitellmParams(spec)}	const message = await client.messages.create(
+		{
+${typescriptBody(spec, '\t\t\t')}
+		}${typescriptRequestOptions(spec)}
+	);
+
+	console.log(message.content);
+}
 
-json_response = json.loads(result.model_dump_json())
-
-# Set the directory for the stored image
-image_dir = os.path.join(os.curdir, 'images')
-
-# If the directory doesn't exist, create it
-if not os.path.isdir(image_dir):
-	os.mkdir(image_dir)
-
-# Initialize the image path
-image_filename = f"generated_image_{int(time.time())}.png"
-image_path = os.path.join(image_dir, image_filename)
-
-try:
-	# Retrieve the generated image
-	if json_response.get("data") && len(json_response["data"]) > 0 && json_response["data"][0].get("url"):
-			image_url = json_response["data"][0]["url"]
-			generated_image = requests.get(image_url).content
-			with open(image_path, "wb") as image_file:
-					image_file.write(generated_image)
-
-			print(f"Image saved to {image_path}")
-			# Display the image
-			image = Image.open(image_path)
-			image.show()
-	else:
-			print("Could not find image URL in response.")
-			print("Full response:", json_response)
-except Exception as e:
-	print(f"An error occurred: {e}")
-	print("Full response:", json_response)
+main();
 `;
-					} else {
-						endpointSpecificCode = `
-import base64
-import os
-import time
-import json
-from PIL import Image
-import requests
-
-# Helper function to encode images to base64
-def encode_image(image_path):
-	with open(image_path, "rb") as image_file:
-			return base64.b64encode(image_file.read()).decode('utf-8')
-
-# Helper function to create a file (simplified for this example)
-def create_file(image_path):
-	# In a real implementation, this would upload the file to OpenAI
-	# For this example, we'll just return a placeholder ID
-	return f"file_{os.path.basename(image_path).replace('.', '_')}"
-
-# The prompt entered by the user
-prompt = "${safePrompt}"
-
-# Encode images to base64
-base64_image1 = encode_image("body-lotion.png")
-base64_image2 = encode_image("soap.png")
-
-# Create file IDs
-file_id1 = create_file("body-lotion.png")
-file_id2 = create_file("incense-kit.png")
-
-response = client.responses.create(
-	model="${modelNameForCode}",
-	input=[
-			{
-					"role": "user",
-					"content": [
-							{"type": "input_text", "text": prompt},
-							{
-									"type": "input_image",
-									"image_url": f"data:image/jpeg;base64,{base64_image1}",
-							},
-							{
-									"type": "input_image",
-									"image_url": f"data:image/jpeg;base64,{base64_image2}",
-							},
-							{
-									"type": "input_image",
-									"file_id": file_id1,
-							},
-							{
-									"type": "input_image",
-									"file_id": file_id2,
-							}
-					],
-			}
-	],
-	tools=[{"type": "image_generation"}],
-)
+	}
 
-# Process the response
-image_generation_calls = [
-	output
-	for output in response.output
-	if output.type == "image_generation_call"
-]
-
-image_data = [output.result for output in image_generation_calls]
-
-if image_data:
-	image_base64 = image_data[0]
-	image_filename = f"edited_image_{int(time.time())}.png"
-	with open(image_filename, "wb") as f:
-			f.write(base64.b64decode(image_base64))
-	print(f"Image saved to {image_filename}")
-else:
-	# If no image is generated, there might be a text response with an explanation
-	text_response = [output.text for output in response.output if hasattr(output, 'text')]
-	if text_response:
-			print("No image generated. Model response:")
-			print("\\n".join(text_response))
-	else:
-			print("No image data found in response.")
-	print("Full response for debugging:")
-	print(response)
+	if (spec.endpointType === EndpointType.RERANK) {
+		// openai-node has no rerank method, so this calls the proxy directly
+		return `async function main() {
+	const response = await fetch("${ctx.apiBase}${spec.path}", {
+		method: "POST",
+		headers: ${toJsonLiteral({ Authorization: `Bearer ${ctx.apiKey}`, 'Content-Type': 'application/json', ...spec.headers }, '\t\t')},
+		body: JSON.stringify({
+${typescriptProperties({ ...spec.args, ...spec.litellmParams }, '\t\t\t').join('\n')}
+		}),
+	});
+
+	const { results } = await response.json();
+	for (const result of results) {
+		console.log(result.index, result.relevance_score);
+	}
+}
+
+main();
 `;
-				}
-				break;
-
-			case EndpointType.IMAGE_EDITS:
-				if (selectedSdk === 'azure') {
-						endpointSpecificCode = `
-import base64
-import os
-import time
-import json
-from PIL import Image
-import requests
-
-# Helper function to encode images to base64
-def encode_image(image_path):
-	with open(image_path, "rb") as image_file:
-			return base64.b64encode(image_file.read()).decode('utf-8')
-
-# The prompt entered by the user
-prompt = "${safePrompt}"
-
-# Encode images to base64
-base64_image1 = encode_image("body-lotion.png")
-base64_image2 = encode_image("soap.png")
-
-# Create file IDs
-file_id1 = create_file("body-lotion.png")
-file_id2 = create_file("incense-kit.png")
-
-response = client.responses.create(
-	model="${modelNameForCode}",
-	input=[
-			{
-					"role": "user",
-					"content": [
-							{"type": "input_text", "text": prompt},
-							{
-									"type": "input_image",
-									"image_url": f"data:image/jpeg;base64,{base64_image1}",
-							},
-							{
-									"type": "input_image",
-									"image_url": f"data:image/jpeg;base64,{base64_image2}",
-							},
-							{
-									"type": "input_image",
-									"file_id": file_id1,
-							},
-							{
-									"type": "input_image",
-									"file_id": file_id2,
-							}
-					],
-			}
-	],
-	tools=[{"type": "image_generation"}],
-)
+	}
+
+	const call = TYPESCRIPT_CALLS[spec.endpointType]!;
+	const needsFs = spec.file || spec.endpointType === EndpointType.SPEECH;
 
-# Process the response
-image_generation_calls = [
-	output
-	for output in response.output
-	if output.type == "image_generation_call"
-]
-
-image_data = [output.result for output in image_generation_calls]
-
-if image_data:
-	image_base64 = image_data[0]
-	image_filename = f"edited_image_{int(time.time())}.png"
-	with open(image_filename, "wb") as f:
-			f.write(base64.b64decode(image_base64))
-	print(f"Image saved to {image_filename}")
-else:
-	# If no image is generated, there might be a text response with an explanation
-	text_response = [output.text for output in response.output if hasattr(output, 'text')]
-	if text_response:
-			print("No image generated. Model response:")
-			print("\\n".join(text_response))
-	else:
-			print("No image data found in response.")
-	print("Full response for debugging:")
-	print(response)
+	return `import OpenAI from "openai";${needsFs ? '\nimport fs from "fs";' : ''}
+
+const client = new OpenAI({
+	apiKey: "${ctx.apiKey}",
+	baseURL: "${ctx.apiBase}",
+});
+
+async function main() {
+${typescriptLitellmParams(spec)}	// request sent to model set on litellm proxy, \`litellm --model\`
+	const response = await ${call.method}(
+		{
+${typescriptBody(spec, '\t\t\t')}
+		}${typescriptRequestOptions(spec)}
+	);
+
+	${call.output}
+}
+
+main();
 `;
-					} else {
-							endpointSpecificCode = `
-import base64
-import os
-import time
-
-# Helper function to encode images to base64
-def encode_image(image_path):
-	with open(image_path, "rb") as image_file:
-			return base64.b64encode(image_file.read()).decode('utf-8')
-
-# Helper function to create a file (simplified for this example)
-def create_file(image_path):
-	# In a real implementation, this would upload the file to OpenAI
-	# For this example, we'll just return a placeholder ID
-	return f"file_{os.path.basename(image_path).replace('.', '_')}"
-
-# The prompt entered by the user
-prompt = "${safePrompt}"
-
-# Encode images to base64
-base64_image1 = encode_image("body-lotion.png")
-base64_image2 = encode_image("soap.png")
-
-# Create file IDs
-file_id1 = create_file("body-lotion.png")
-file_id2 = create_file("incense-kit.png")
-
-response = client.responses.create(
-	model="${modelNameForCode}",
-	input=[
-			{
-					"role": "user",
-					"content": [
-							{"type": "input_text", "text": prompt},
-							{
-									"type": "input_image",
-									"image_url": f"data:image/jpeg;base64,{base64_image1}",
-							},
-							{
-									"type": "input_image",
-									"image_url": f"data:image/jpeg;base64,{base64_image2}",
-							},
-							{
-									"type": "input_image",
-									"file_id": file_id1,
-							},
-							{
-									"type": "input_image",
-									"file_id": file_id2,
-							}
-					],
-			}
-	],
-	tools=[{"type": "image_generation"}],
+};
+
+const renderCurl = (spec: RequestSpec, ctx: SnippetContext) => {
+	const lines = [
+		`curl -X POST "${ctx.apiBase}${spec.path}"`,
+		`-H "Authorization: Bearer ${ctx.apiKey}"`,
+		...Object.entries(spec.headers).map(([key, value]) => `-H ${shellQuote(`${key}: ${value}`)}`),
+	];
+	const body = { ...spec.args, ...spec.litellmParams };
+	if (spec.file) {
+		// Multipart fields are strings - anything else is sent as JSON
+		const fields = Object.entries(body).map(
+			([key, value]) => `-F ${shellQuote(`${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)}`
+		);
+		fields.splice(1, 0, `-F "${spec.file.name}=@${spec.file.path}"`);
+		lines.push(...fields);
+	} else {
+		lines.push(`-H "Content-Type: application/json"`, `-d ${shellQuote(JSON.stringify(body, null, 2))}`);
+	}
+	if (spec.endpointType === EndpointType.SPEECH) {
+		lines.push('--output speech.mp3');
+	}
+	return `${lines.join(' \\\n  ')}\n`;
+};
+
+const renderGo = (spec: RequestSpec, ctx: SnippetContext) => {
+	const body = { ...spec.args, ...spec.litellmParams };
+	const headers = Object.entries(spec.headers)
+		.map(([key, value]) => `\treq.Header.Set(${JSON.stringify(key)}, ${JSON.stringify(value)})\n`)
+		.join('');
+	const output = spec.endpointType === EndpointType.SPEECH
+		? `if err := os.WriteFile("speech.mp3", out, 0644); err != nil {
+		panic(err)
+	}
+	fmt.Println("Saved speech.mp3")`
+		: 'fmt.Println(string(out))';
+
+	let imports: string[];
+	let requestBody: string;
+	if (spec.file) {
+		imports = ['"bytes"', '"fmt"', '"io"', '"mime/multipart"', '"net/http"', '"os"'];
+		const fields = Object.entries(body)
+			.map(([key, value]) => `\twriter.WriteField(${JSON.stringify(key)}, ${JSON.stringify(typeof value === 'string' ? value : JSON.stringify(value))})\n`)
+			.join('');
+		requestBody = `var body bytes.Buffer
+	writer := multipart.NewWriter(&body)
+${fields}
+	file, err := os.Open(${JSON.stringify(spec.file.path)})
+	if err != nil {
+		panic(err)
+	}
+	defer file.Close()
+	part, err := writer.CreateFormFile(${JSON.stringify(spec.file.name)}, ${JSON.stringify(spec.file.path)})
+	if err != nil {
+		panic(err)
+	}
+	if _, err := io.Copy(part, file); err != nil {
+		panic(err)
+	}
+	writer.Close()
+
+	req, err := http.NewRequest("POST", "${ctx.apiBase}${spec.path}", &body)
+	if err != nil {
+		panic(err)
+	}
+	req.Header.Set("Content-Type", writer.FormDataContentType())`;
+	} else {
+		imports = ['"bytes"', '"fmt"', '"io"', '"net/http"', ...(spec.endpointType === EndpointType.SPEECH ? ['"os"'] : [])];
+		// Raw string literal - a backtick in the body has to be spliced in
+		const json = JSON.stringify(body, null, '\t').replace(/`/g, '` + "`" + `');
+		requestBody = `body := []byte(\`${json}\`)
+
+	req, err := http.NewRequest("POST", "${ctx.apiBase}${spec.path}", bytes.NewReader(body))
+	if err != nil {
+		panic(err)
+	}
+	req.Header.Set("Content-Type", "application/json")`;
+	}
+
+	return `package main
+
+import (
+${imports.map(name => `\t${name}`).join('\n')}
 )
 
-# Process the response
-image_generation_calls = [
-	output
-	for output in response.output
-	if output.type == "image_generation_call"
-]
-
-image_data = [output.result for output in image_generation_calls]
-
-if image_data:
-	image_base64 = image_data[0]
-	image_filename = f"edited_image_{int(time.time())}.png"
-	with open(image_filename, "wb") as f:
-			f.write(base64.b64decode(image_base64))
-	print(f"Image saved to {image_filename}")
-else:
-	# If no image is generated, there might be a text response with an explanation
-	text_response = [output.text for output in response.output if hasattr(output, 'text')]
-	if text_response:
-			print("No image generated. Model response:")
-			print("\\n".join(text_response))
-	else:
-			print("No image data found in response.")
-	print("Full response for debugging:")
-	print(response)
+func main() {
+	${requestBody}
+	req.Header.Set("Authorization", "Bearer ${ctx.apiKey}")
+${headers}
+	resp, err := http.DefaultClient.Do(req)
+	if err != nil {
+		panic(err)
+	}
+	defer resp.Body.Close()
+
+	out, err := io.ReadAll(resp.Body)
+	if err != nil {
+		panic(err)
+	}
+	${output}
+}
 `;
-				}
-				break;
-		default:
-				endpointSpecificCode = "\n# Code generation for this endpoint is not implemented yet.";
+};
+
+export const generateCodeSnippet = (params: GenerateCodeParams): string => {
+	const { apiKeySource, accessToken, apiKey, endpointType, selectedSdk, language = 'python' } = params;
+	const effectiveApiKey = apiKeySource === 'session' ? accessToken : apiKey;
+	const ctx: SnippetContext = {
+		apiBase: window.location.origin,
+		apiKey: effectiveApiKey || 'YOUR_LITELLM_API_KEY',
+		selectedSdk,
+	};
+
+	if (!Object.values(EndpointType).includes(endpointType as EndpointType)) {
+		return "# Code generation for this endpoint is not implemented yet.";
 	}
 
-	const finalCode = `${clientInitialization}\n${endpointSpecificCode}`;
+	if (language === 'anthropic') {
+		if (!TEXT_ENDPOINTS.includes(endpointType)) {
+			return `# The Anthropic SDK only calls /v1/messages.\n# Choose another language to call ${ENDPOINT_PATHS[endpointType as EndpointType]}.`;
+		}
+		// Any model on the proxy can be called through its Anthropic-compatible /v1/messages endpoint
+		return renderAnthropicPython(buildRequestSpec(params, EndpointType.ANTHROPIC_MESSAGES, ctx.apiBase, ctx.apiKey), ctx);
+	}
 
-	return finalCode;
-}; 
\ No newline at end of file
+	const spec = buildRequestSpec(params, endpointType as EndpointType, ctx.apiBase, ctx.apiKey);
+	switch (language) {
+		case 'typescript':
+			return renderTypeScript(spec, ctx);
+		case 'curl':
+			return renderCurl(spec, ctx);
+		case 'go':
+			return renderGo(spec, ctx);
+		default:
+			return renderPython(spec, ctx);
+	}
+};
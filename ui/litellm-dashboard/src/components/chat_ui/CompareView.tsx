@@ -0,0 +1,321 @@
+import React, { useState, useEffect, useRef } from "react";
+import { Button as TremorButton, Text } from "@tremor/react";
+import { Input, Select, Spin, Tooltip, message } from "antd";
+import {
+  SendOutlined,
+  DeleteOutlined,
+  PlusOutlined,
+  CloseOutlined,
+  ClearOutlined,
+  LoadingOutlined,
+  RobotOutlined,
+} from "@ant-design/icons";
+import { v4 as uuidv4 } from "uuid";
+import { makeOpenAIChatCompletionRequest } from "./llm_calls/chat_completion";
+import { ModelGroup } from "./llm_calls/fetch_models";
+import { modelCostMap } from "../networking";
+import { MessageType } from "./types";
+import ChatMessage from "./ChatMessage";
+import {
+  appendTextChunk,
+  appendReasoningChunk,
+  setStructuredOutput,
+  setTimeToFirstToken,
+  setUsage,
+} from "./message_utils";
+import {
+  GenerationParams,
+  buildChatCompletionParams,
+  validateGenerationParams,
+  validateStructuredOutput,
+} from "./generation_params";
+import { getModelPricing, calculateResponseCost, formatCost } from "./cost_utils";
+
+const { TextArea } = Input;
+
+const MIN_COLUMNS = 2;
+const MAX_COLUMNS = 4;
+
+interface CompareColumn {
+  id: string;
+  model?: string;
+  messages: MessageType[];
+  isLoading: boolean;
+  traceId: string;
+}
+
+interface CompareViewProps {
+  accessToken: string | null;
+  modelInfo: ModelGroup[];
+  defaultModel?: string;
+  selectedTags: string[];
+  selectedVectorStores: string[];
+  selectedGuardrails: string[];
+  generationParams: GenerationParams;
+}
+
+const newColumn = (model?: string): CompareColumn => ({
+  id: uuidv4(),
+  model,
+  messages: [],
+  isLoading: false,
+  traceId: uuidv4(),
+});
+
+/**
+ * Sends the same prompt to 2-4 models in parallel and shows their streams side by side
+ */
+const CompareView: React.FC<CompareViewProps> = ({
+  accessToken,
+  modelInfo,
+  defaultModel,
+  selectedTags,
+  selectedVectorStores,
+  selectedGuardrails,
+  generationParams,
+}) => {
+  const [columns, setColumns] = useState<CompareColumn[]>(() => [
+    newColumn(defaultModel),
+    newColumn(modelInfo.find((info) => info.model_group !== defaultModel)?.model_group),
+  ]);
+  const [inputMessage, setInputMessage] = useState("");
+  const [costMap, setCostMap] = useState<Record<string, any> | null>(null);
+  const abortControllersRef = useRef<Map<string, AbortController>>(new Map());
+
+  const isLoading = columns.some((column) => column.isLoading);
+
+  useEffect(() => {
+    if (!accessToken || costMap) return;
+    modelCostMap(accessToken)
+      .then(setCostMap)
+      .catch((error) => console.error("Error fetching model cost map:", error));
+  }, [accessToken]);
+
+  const updateColumn = (id: string, update: (column: CompareColumn) => CompareColumn) => {
+    setColumns((prev) => prev.map((column) => (column.id === id ? update(column) : column)));
+  };
+
+  const updateMessages = (id: string, update: (messages: MessageType[]) => MessageType[]) => {
+    updateColumn(id, (column) => ({ ...column, messages: update(column.messages) }));
+  };
+
+  const runColumn = async (column: CompareColumn, prompt: string) => {
+    if (!accessToken || !column.model) return;
+
+    const controller = new AbortController();
+    abortControllersRef.current.set(column.id, controller);
+
+    const userMessage = { role: "user", content: prompt };
+    const apiChatHistory = [
+      ...column.messages.filter((msg) => !msg.isImage).map(({ role, content }) => ({ role, content })),
+      userMessage,
+    ];
+    updateColumn(column.id, (prev) => ({ ...prev, isLoading: true, messages: [...prev.messages, userMessage] }));
+
+    try {
+      await makeOpenAIChatCompletionRequest(
+        apiChatHistory,
+        (chunk, model) => updateMessages(column.id, (prev) => appendTextChunk(prev, "assistant", chunk, model)),
+        column.model,
+        accessToken,
+        selectedTags,
+        controller.signal,
+        (chunk) => updateMessages(column.id, (prev) => appendReasoningChunk(prev, chunk)),
+        (timeToFirstToken) => updateMessages(column.id, (prev) => setTimeToFirstToken(prev, timeToFirstToken)),
+        (usage) => updateMessages(column.id, (prev) => setUsage(prev, usage)),
+        column.traceId,
+        selectedVectorStores.length > 0 ? selectedVectorStores : undefined,
+        selectedGuardrails.length > 0 ? selectedGuardrails : undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        buildChatCompletionParams(generationParams)
+      );
+      checkStructuredOutput(column.id);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        console.error(`Error fetching response from ${column.model}`, error);
+        updateMessages(column.id, (prev) => appendTextChunk(prev, "assistant", "Error fetching response:" + error));
+      }
+    } finally {
+      abortControllersRef.current.delete(column.id);
+      updateColumn(column.id, (prev) => ({ ...prev, isLoading: false }));
+    }
+  };
+
+  // With a json_schema response format, marks whether each model's finished response matches the schema
+  const checkStructuredOutput = (id: string) => {
+    if (generationParams.response_format !== "json_schema") return;
+    updateMessages(id, (prev) => {
+      const last = prev[prev.length - 1];
+      if (!last || last.role !== "assistant") return prev;
+      return setStructuredOutput(prev, validateStructuredOutput(last.content, generationParams));
+    });
+  };
+
+  const handleSend = async () => {
+    if (inputMessage.trim() === "") return;
+    if (!accessToken) {
+      message.error("Please provide an API key or select Current UI Session");
+      return;
+    }
+    const paramsError = validateGenerationParams(generationParams);
+    if (paramsError) {
+      message.error(paramsError);
+      return;
+    }
+    const runnable = columns.filter((column) => column.model);
+    if (runnable.length < MIN_COLUMNS) {
+      message.error(`Select at least ${MIN_COLUMNS} models to compare`);
+      return;
+    }
+
+    const prompt = inputMessage;
+    setInputMessage("");
+    await Promise.allSettled(runnable.map((column) => runColumn(column, prompt)));
+  };
+
+  const handleCancel = () => {
+    abortControllersRef.current.forEach((controller) => controller.abort());
+    abortControllersRef.current.clear();
+    message.info("Requests cancelled");
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === "Enter" && !event.shiftKey) {
+      event.preventDefault();
+      handleSend();
+    }
+  };
+
+  const clearAll = () => {
+    setColumns((prev) => prev.map((column) => ({ ...column, messages: [], traceId: uuidv4() })));
+  };
+
+  const modelOptions = Array.from(new Set(modelInfo.map((option) => option.model_group))).map((model_group) => ({
+    value: model_group,
+    label: model_group,
+  }));
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 overflow-auto p-4 pb-0">
+        <div
+          className="grid gap-4 h-full"
+          style={{ gridTemplateColumns: `repeat(${columns.length}, minmax(0, 1fr))` }}
+        >
+          {columns.map((column) => {
+            const pricing = getModelPricing(column.model, modelInfo, costMap);
+            const totalCost = column.messages.reduce(
+              (sum, msg) => sum + (calculateResponseCost(msg.usage, pricing) ?? 0),
+              0
+            );
+            return (
+              <div key={column.id} className="flex flex-col border border-gray-200 rounded-lg min-h-0">
+                <div className="p-2 border-b border-gray-200 flex items-center gap-2 bg-gray-50">
+                  <Select
+                    value={column.model}
+                    placeholder="Select a Model"
+                    onChange={(value) => updateColumn(column.id, (prev) => ({ ...prev, model: value }))}
+                    options={modelOptions}
+                    showSearch
+                    disabled={column.isLoading}
+                    style={{ flex: 1, minWidth: 0 }}
+                  />
+                  {columns.length > MIN_COLUMNS && (
+                    <Tooltip title="Remove model">
+                      <button
+                        className="text-gray-400 hover:text-red-500 px-1"
+                        disabled={column.isLoading}
+                        onClick={() => setColumns((prev) => prev.filter((c) => c.id !== column.id))}
+                      >
+                        <CloseOutlined />
+                      </button>
+                    </Tooltip>
+                  )}
+                </div>
+                <div className="flex-1 overflow-auto p-3">
+                  {column.messages.length === 0 && (
+                    <div className="h-full flex flex-col items-center justify-center text-gray-400">
+                      <RobotOutlined style={{ fontSize: "32px", marginBottom: "8px" }} />
+                      <Text>{column.model ?? "No model selected"}</Text>
+                    </div>
+                  )}
+                  {column.messages.map((msg, index) => (
+                    <ChatMessage
+                      key={index}
+                      message={msg}
+                      cost={calculateResponseCost(msg.usage, pricing)}
+                      maxWidthClassName="max-w-full"
+                    />
+                  ))}
+                  {column.isLoading && (
+                    <div className="flex justify-center items-center my-4">
+                      <Spin indicator={<LoadingOutlined style={{ fontSize: 24 }} spin />} />
+                    </div>
+                  )}
+                </div>
+                {pricing && column.messages.some((msg) => msg.usage) && (
+                  <div className="px-3 py-2 border-t border-gray-100 text-xs text-gray-500">
+                    Conversation cost: {formatCost(totalCost)}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div className="p-4 border-t border-gray-200 bg-white">
+        <div className="flex items-center mb-2 gap-2">
+          <TremorButton
+            onClick={() => setColumns((prev) => [...prev, newColumn()])}
+            disabled={columns.length >= MAX_COLUMNS || isLoading}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-700 border-gray-300"
+            icon={PlusOutlined}
+            size="xs"
+          >
+            Add Model
+          </TremorButton>
+          <TremorButton
+            onClick={clearAll}
+            disabled={isLoading}
+            className="bg-gray-100 hover:bg-gray-200 text-gray-700 border-gray-300"
+            icon={ClearOutlined}
+            size="xs"
+          >
+            Clear All
+          </TremorButton>
+        </div>
+        <div className="flex items-center">
+          <TextArea
+            value={inputMessage}
+            onChange={(e) => setInputMessage(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Send the same message to every model... (Shift+Enter for new line)"
+            disabled={isLoading}
+            className="flex-1"
+            autoSize={{ minRows: 1, maxRows: 6 }}
+            style={{ resize: "none", paddingRight: "10px", paddingLeft: "10px" }}
+          />
+          {isLoading ? (
+            <TremorButton
+              onClick={handleCancel}
+              className="ml-2 bg-red-50 hover:bg-red-100 text-red-600 border-red-200"
+              icon={DeleteOutlined}
+            >
+              Cancel
+            </TremorButton>
+          ) : (
+            <TremorButton onClick={handleSend} className="ml-2 text-white" icon={SendOutlined}>
+              Send to All
+            </TremorButton>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,206 @@
+import React, { useRef, useState } from "react";
+import { Button as TremorButton, Text } from "@tremor/react";
+import { InputNumber, Spin, Tooltip, message } from "antd";
+import { CopyOutlined, DeleteOutlined, LoadingOutlined, NodeIndexOutlined, SendOutlined } from "@ant-design/icons";
+import { makeOpenAIEmbeddingsRequest } from "./llm_calls/embeddings";
+import { EndpointViewProps } from "./types";
+import { similarityMatrix, similarityColor, vectorNorm } from "./embedding_utils";
+import TextListEditor from "./TextListEditor";
+
+const MAX_INPUTS = 8;
+const PREVIEW_VALUES = 8;
+
+interface EmbeddingsRun {
+  model: string;
+  inputs: string[];
+  embeddings: number[][];
+  promptTokens?: number;
+}
+
+/**
+ * Embeds up to eight inputs at once and compares them with cosine similarity
+ */
+const EmbeddingsView: React.FC<EndpointViewProps> = ({
+  accessToken,
+  selectedModel,
+  selectedTags,
+  getExtraParams,
+  onInspect,
+}) => {
+  const [inputs, setInputs] = useState<string[]>(["", ""]);
+  const [dimensions, setDimensions] = useState<number | undefined>();
+  const [result, setResult] = useState<EmbeddingsRun | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const handleEmbed = async () => {
+    const texts = inputs.filter((input) => input.trim() !== "");
+    if (texts.length === 0) return;
+    if (!accessToken) {
+      message.error("Please provide an API key or select Current UI Session");
+      return;
+    }
+    if (!selectedModel) {
+      message.error("Please select a model");
+      return;
+    }
+    let extraParams: Record<string, any>;
+    try {
+      extraParams = getExtraParams();
+    } catch (error: any) {
+      message.error(error.message);
+      return;
+    }
+
+    abortControllerRef.current = new AbortController();
+    setIsLoading(true);
+    try {
+      const response = await makeOpenAIEmbeddingsRequest(
+        texts,
+        selectedModel,
+        accessToken,
+        selectedTags,
+        abortControllerRef.current.signal,
+        { ...(dimensions ? { dimensions } : {}), ...extraParams },
+        onInspect
+      );
+      setResult({ model: selectedModel, inputs: texts, ...response });
+    } catch (error) {
+      console.error("Error creating embeddings", error);
+    } finally {
+      setIsLoading(false);
+      abortControllerRef.current = null;
+    }
+  };
+
+  const copyVector = (vector: number[]) => {
+    navigator.clipboard.writeText(JSON.stringify(vector));
+    message.success("Vector copied to clipboard!");
+  };
+
+  const matrix = result && result.embeddings.length > 1 ? similarityMatrix(result.embeddings) : null;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 overflow-auto p-4 pb-0">
+        {!result && !isLoading && (
+          <div className="h-full flex flex-col items-center justify-center text-gray-400">
+            <NodeIndexOutlined style={{ fontSize: "48px", marginBottom: "16px" }} />
+            <Text>Embed one or more inputs to preview their vectors and compare them</Text>
+          </div>
+        )}
+        {isLoading && (
+          <div className="flex justify-center items-center my-4">
+            <Spin indicator={<LoadingOutlined style={{ fontSize: 24 }} spin />} />
+          </div>
+        )}
+        {result && !isLoading && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <span className="px-2 py-0.5 rounded bg-gray-100 text-gray-600">{result.model}</span>
+              <span>{result.embeddings[0]?.length ?? 0} dimensions</span>
+              {result.promptTokens !== undefined && <span>· {result.promptTokens} tokens</span>}
+            </div>
+
+            {result.embeddings.map((vector, index) => (
+              <div key={index} className="border border-gray-200 rounded-lg p-3">
+                <div className="flex items-center justify-between mb-1">
+                  <Text className="text-sm font-medium truncate">
+                    {index + 1}. {result.inputs[index]}
+                  </Text>
+                  <Tooltip title="Copy full vector">
+                    <button className="text-gray-400 hover:text-gray-600 ml-2" onClick={() => copyVector(vector)}>
+                      <CopyOutlined />
+                    </button>
+                  </Tooltip>
+                </div>
+                <code className="text-xs text-gray-600 break-all">
+                  [{vector.slice(0, PREVIEW_VALUES).map((value) => value.toFixed(5)).join(", ")}
+                  {vector.length > PREVIEW_VALUES ? `, … ${vector.length - PREVIEW_VALUES} more` : ""}]
+                </code>
+                <div className="text-xs text-gray-400 mt-1">norm {vectorNorm(vector).toFixed(4)}</div>
+              </div>
+            ))}
+
+            {matrix && (
+              <div>
+                <Text className="font-medium block mb-2 text-gray-700">Cosine similarity</Text>
+                <table className="text-xs border-collapse">
+                  <thead>
+                    <tr>
+                      <th className="p-2" />
+                      {matrix.map((_, j) => (
+                        <th key={j} className="p-2 text-gray-500 font-medium">
+                          {j + 1}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {matrix.map((row, i) => (
+                      <tr key={i}>
+                        <th className="p-2 text-gray-500 font-medium">{i + 1}</th>
+                        {row.map((similarity, j) => (
+                          <td
+                            key={j}
+                            className="p-2 text-center border border-gray-100 font-mono"
+                            style={{ backgroundColor: similarityColor(similarity), minWidth: 64 }}
+                          >
+                            <Tooltip title={`${result.inputs[i]} ↔ ${result.inputs[j]}`}>
+                              {Number.isNaN(similarity) ? "-" : similarity.toFixed(4)}
+                            </Tooltip>
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 border-t border-gray-200 bg-white space-y-3">
+        <TextListEditor
+          values={inputs}
+          onChange={setInputs}
+          placeholder={(index) => `Input ${index + 1}`}
+          maxItems={MAX_INPUTS}
+          addLabel="Add input"
+          disabled={isLoading}
+        />
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Text className="text-xs text-gray-600">Dimensions</Text>
+            <Tooltip title="Only supported by some models, e.g. text-embedding-3">
+              <InputNumber
+                min={1}
+                precision={0}
+                placeholder="default"
+                value={dimensions}
+                onChange={(value) => setDimensions(value ?? undefined)}
+                size="small"
+              />
+            </Tooltip>
+          </div>
+          {isLoading ? (
+            <TremorButton
+              onClick={() => abortControllerRef.current?.abort()}
+              className="bg-red-50 hover:bg-red-100 text-red-600 border-red-200"
+              icon={DeleteOutlined}
+            >
+              Cancel
+            </TremorButton>
+          ) : (
+            <TremorButton onClick={handleEmbed} className="text-white" icon={SendOutlined}>
+              Embed
+            </TremorButton>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EmbeddingsView;
@@ -24,6 +24,10 @@ const EndpointSelector: React.FC<EndpointSelectorProps> = ({
     { value: EndpointType.ANTHROPIC_MESSAGES, label: '/v1/messages' },
     { value: EndpointType.IMAGE, label: '/v1/images/generations' },
     { value: EndpointType.IMAGE_EDITS, label: '/v1/images/edits' },
+    { value: EndpointType.EMBEDDINGS, label: '/v1/embeddings' },
+    { value: EndpointType.TRANSCRIPTION, label: '/v1/audio/transcriptions' },
+    { value: EndpointType.SPEECH, label: '/v1/audio/speech' },
+    { value: EndpointType.RERANK, label: '/v1/rerank' },
   ];
 
   return (
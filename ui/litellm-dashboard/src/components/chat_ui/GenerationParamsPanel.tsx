@@ -0,0 +1,246 @@
+import React from "react";
+import { Text } from "@tremor/react";
+import { Input, InputNumber, Select, Tooltip } from "antd";
+import { InfoCircleOutlined, UndoOutlined } from "@ant-design/icons";
+import { EndpointType } from "./mode_endpoint_mapping";
+import {
+  GenerationParams,
+  ResponseFormat,
+  DEFAULT_GENERATION_PARAMS,
+  parseExtraBody,
+  parseResponseSchema,
+} from "./generation_params";
+
+const { TextArea } = Input;
+
+interface GenerationParamsPanelProps {
+  params: GenerationParams;
+  onChange: (params: GenerationParams) => void;
+  endpointType: string;
+}
+
+const IMAGE_SIZES = ["auto", "256x256", "512x512", "1024x1024", "1536x1024", "1024x1536", "1792x1024", "1024x1792"];
+const IMAGE_QUALITIES = ["auto", "standard", "hd", "low", "medium", "high"];
+
+const jsonError = (parse: () => unknown): string | null => {
+  try {
+    parse();
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+};
+
+const Field: React.FC<{ label: string; tooltip?: string; children: React.ReactNode }> = ({ label, tooltip, children }) => (
+  <div>
+    <Text className="text-xs text-gray-600 mb-1 flex items-center gap-1">
+      {label}
+      {tooltip && (
+        <Tooltip title={tooltip}>
+          <InfoCircleOutlined />
+        </Tooltip>
+      )}
+    </Text>
+    {children}
+  </div>
+);
+
+/**
+ * Sampling, output format and extra body parameters sent with every playground request
+ */
+const GenerationParamsPanel: React.FC<GenerationParamsPanelProps> = ({ params, onChange, endpointType }) => {
+  const update = (changes: Partial<GenerationParams>) => onChange({ ...params, ...changes });
+  const toOptional = (value: number | null) => (value === null ? undefined : value);
+
+  const isImage = endpointType === EndpointType.IMAGE;
+  const isText =
+    endpointType === EndpointType.CHAT ||
+    endpointType === EndpointType.RESPONSES ||
+    endpointType === EndpointType.ANTHROPIC_MESSAGES;
+  const supportsResponseFormat = endpointType === EndpointType.CHAT || endpointType === EndpointType.RESPONSES;
+  // Image edits upload a file through the SDK and take no other parameters
+  const supportsExtraBody = endpointType !== EndpointType.IMAGE_EDITS;
+
+  const schemaError = params.response_format === "json_schema" ? jsonError(() => parseResponseSchema(params)) : null;
+  const extraBodyError = jsonError(() => parseExtraBody(params));
+
+  return (
+    <div className="space-y-3">
+      {isText && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            <Field label="Temperature">
+              <InputNumber
+                min={0}
+                max={2}
+                step={0.1}
+                placeholder="default"
+                value={params.temperature}
+                onChange={(value) => update({ temperature: toOptional(value) })}
+                style={{ width: "100%" }}
+                size="small"
+              />
+            </Field>
+            <Field label="Top P">
+              <InputNumber
+                min={0}
+                max={1}
+                step={0.05}
+                placeholder="default"
+                value={params.top_p}
+                onChange={(value) => update({ top_p: toOptional(value) })}
+                style={{ width: "100%" }}
+                size="small"
+              />
+            </Field>
+            <Field label="Max Tokens">
+              <InputNumber
+                min={1}
+                step={256}
+                placeholder={endpointType === EndpointType.ANTHROPIC_MESSAGES ? "1024" : "default"}
+                value={params.max_tokens}
+                onChange={(value) => update({ max_tokens: toOptional(value) })}
+                style={{ width: "100%" }}
+                size="small"
+              />
+            </Field>
+            {endpointType === EndpointType.CHAT && (
+              <Field label="Seed" tooltip="Not supported by every provider">
+                <InputNumber
+                  step={1}
+                  precision={0}
+                  placeholder="none"
+                  value={params.seed}
+                  onChange={(value) => update({ seed: toOptional(value) })}
+                  style={{ width: "100%" }}
+                  size="small"
+                />
+              </Field>
+            )}
+          </div>
+
+          {endpointType !== EndpointType.RESPONSES && (
+            <Field label="Stop Sequences">
+              <Select
+                mode="tags"
+                placeholder="Type and press enter"
+                value={params.stop ?? []}
+                onChange={(value: string[]) => update({ stop: value })}
+                style={{ width: "100%" }}
+                size="small"
+                open={false}
+              />
+            </Field>
+          )}
+
+          <Field label="Reasoning Effort" tooltip="For reasoning models. litellm maps it to each provider's thinking settings.">
+            <Select
+              allowClear
+              placeholder="default"
+              value={params.reasoning_effort}
+              onChange={(value) => update({ reasoning_effort: value })}
+              options={["low", "medium", "high"].map((value) => ({ value, label: value }))}
+              style={{ width: "100%" }}
+              size="small"
+            />
+          </Field>
+
+          {supportsResponseFormat && (
+            <Field label="Response Format">
+              <Select
+                value={params.response_format}
+                onChange={(value: ResponseFormat) => update({ response_format: value })}
+                options={[
+                  { value: "text", label: "Text" },
+                  { value: "json_object", label: "JSON object" },
+                  { value: "json_schema", label: "JSON schema (structured output)" },
+                ]}
+                style={{ width: "100%" }}
+                size="small"
+              />
+            </Field>
+          )}
+
+          {supportsResponseFormat && params.response_format === "json_schema" && (
+            <Field label="JSON Schema" tooltip="Responses are validated against this schema when they finish">
+              <TextArea
+                value={params.json_schema}
+                onChange={(e) => update({ json_schema: e.target.value })}
+                autoSize={{ minRows: 4, maxRows: 12 }}
+                className="font-mono text-xs"
+                status={schemaError ? "error" : undefined}
+              />
+              {schemaError && <Text className="text-xs text-red-500 mt-1">{schemaError}</Text>}
+            </Field>
+          )}
+        </>
+      )}
+
+      {isImage && (
+        <div className="grid grid-cols-2 gap-2">
+          <Field label="Size">
+            <Select
+              allowClear
+              placeholder="default"
+              value={params.image_size}
+              onChange={(value) => update({ image_size: value })}
+              options={IMAGE_SIZES.map((value) => ({ value, label: value }))}
+              style={{ width: "100%" }}
+              size="small"
+            />
+          </Field>
+          <Field label="Quality">
+            <Select
+              allowClear
+              placeholder="default"
+              value={params.image_quality}
+              onChange={(value) => update({ image_quality: value })}
+              options={IMAGE_QUALITIES.map((value) => ({ value, label: value }))}
+              style={{ width: "100%" }}
+              size="small"
+            />
+          </Field>
+          <Field label="Images (n)">
+            <InputNumber
+              min={1}
+              max={10}
+              precision={0}
+              placeholder="1"
+              value={params.image_n}
+              onChange={(value) => update({ image_n: toOptional(value) })}
+              style={{ width: "100%" }}
+              size="small"
+            />
+          </Field>
+        </div>
+      )}
+
+      {supportsExtraBody && (
+        <Field label="Extra Body" tooltip="A JSON object merged into the request body, for any parameter not listed above">
+          <TextArea
+            value={params.extra_body}
+            onChange={(e) => update({ extra_body: e.target.value })}
+            placeholder='e.g. {"frequency_penalty": 0.5}'
+            autoSize={{ minRows: 2, maxRows: 8 }}
+            className="font-mono text-xs"
+            status={extraBodyError ? "error" : undefined}
+          />
+          {extraBodyError && <Text className="text-xs text-red-500 mt-1">{extraBodyError}</Text>}
+        </Field>
+      )}
+
+      {!supportsExtraBody && (
+        <Text className="text-xs text-gray-500">This endpoint has no configurable parameters.</Text>
+      )}
+
+      <button
+        className="text-xs text-gray-500 hover:text-blue-600 flex items-center gap-1"
+        onClick={() => onChange(DEFAULT_GENERATION_PARAMS)}
+      >
+        <UndoOutlined /> Reset to defaults
+      </button>
+    </div>
+  );
+};
+
+export default GenerationParamsPanel;
@@ -0,0 +1,155 @@
+import React, { useEffect, useState } from "react";
+import { Text } from "@tremor/react";
+import { Button, Drawer, Empty, Select, Tabs, message } from "antd";
+import { CopyOutlined } from "@ant-design/icons";
+import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
+import { coy } from "react-syntax-highlighter/dist/esm/styles/prism";
+import { v4 as uuidv4 } from "uuid";
+import { InspectorEvent } from "./types";
+
+export interface InspectorEntry {
+  id: string;
+  endpoint: string;
+  startedAt: number;
+  request: Record<string, any>;
+  chunks: unknown[];
+  response?: unknown;
+}
+
+const MAX_ENTRIES = 20;
+const MAX_CHUNKS = 5000;
+const MAX_STRING_LENGTH = 2000;
+
+/** Folds one event from an llm_calls helper into the inspector's request list, newest first */
+export const applyInspectorEvent = (entries: InspectorEntry[], event: InspectorEvent): InspectorEntry[] => {
+  if (event.type === "request") {
+    const entry: InspectorEntry = {
+      id: uuidv4(),
+      endpoint: event.endpoint,
+      startedAt: Date.now(),
+      request: event.body,
+      chunks: [],
+    };
+    return [entry, ...entries].slice(0, MAX_ENTRIES);
+  }
+
+  const [latest, ...rest] = entries;
+  if (!latest) return entries;
+  if (event.type === "chunk") {
+    return latest.chunks.length >= MAX_CHUNKS ? entries : [{ ...latest, chunks: [...latest.chunks, event.data] }, ...rest];
+  }
+  return [{ ...latest, response: event.data }, ...rest];
+};
+
+// Keeps the inspector readable - attachments are inlined as data URLs and keys shouldn't be on screen
+const displayJson = (value: unknown, indent?: number) =>
+  JSON.stringify(
+    value,
+    (key, val) => {
+      if (key === "x-litellm-api-key" || key === "api_key") return "[redacted]";
+      if (typeof val === "string" && val.length > MAX_STRING_LENGTH) {
+        return `${val.slice(0, 100)}... [${val.length} characters]`;
+      }
+      return val;
+    },
+    indent
+  );
+
+interface RequestInspectorProps {
+  visible: boolean;
+  entries: InspectorEntry[];
+  onClose: () => void;
+  onClear: () => void;
+}
+
+/**
+ * Drawer showing the exact JSON sent to the proxy and every streamed chunk that came back
+ */
+const RequestInspector: React.FC<RequestInspectorProps> = ({ visible, entries, onClose, onClear }) => {
+  const [selectedId, setSelectedId] = useState<string | undefined>();
+
+  // Follow the newest request unless the user picked an older one
+  const latestId = entries[0]?.id;
+  useEffect(() => {
+    setSelectedId(latestId);
+  }, [latestId]);
+
+  const entry = entries.find((candidate) => candidate.id === selectedId) ?? entries[0];
+
+  const copy = (text: string) => {
+    navigator.clipboard.writeText(text);
+    message.success("Copied to clipboard!");
+  };
+
+  const highlighted = (code: string) => (
+    <SyntaxHighlighter
+      language="json"
+      style={coy as any}
+      wrapLongLines={true}
+      className="rounded-md"
+      customStyle={{ maxHeight: "65vh", overflowY: "auto", fontSize: "12px" }}
+    >
+      {code}
+    </SyntaxHighlighter>
+  );
+
+  return (
+    <Drawer
+      title="Request Inspector"
+      open={visible}
+      onClose={onClose}
+      width={720}
+      extra={
+        <Button size="small" onClick={onClear} disabled={entries.length === 0}>
+          Clear
+        </Button>
+      }
+    >
+      {!entry ? (
+        <Empty description="Send a message to see the raw request and response" />
+      ) : (
+        <>
+          <Select
+            value={entry.id}
+            onChange={setSelectedId}
+            style={{ width: "100%" }}
+            options={entries.map((candidate) => ({
+              value: candidate.id,
+              label: `${new Date(candidate.startedAt).toLocaleTimeString()} - POST ${candidate.endpoint} - ${candidate.request.model ?? ""}`,
+            }))}
+          />
+          <Tabs
+            className="mt-2"
+            items={[
+              {
+                key: "request",
+                label: "Request",
+                children: (
+                  <>
+                    <div className="flex justify-between items-center mb-2">
+                      <Text className="text-xs text-gray-500">POST {entry.endpoint}</Text>
+                      <Button size="small" icon={<CopyOutlined />} onClick={() => copy(JSON.stringify(entry.request, null, 2))}>
+                        Copy
+                      </Button>
+                    </div>
+                    {highlighted(displayJson(entry.request, 2))}
+                  </>
+                ),
+              },
+              {
+                key: "response",
+                label: entry.response !== undefined ? "Response" : `Stream (${entry.chunks.length} chunks)`,
+                children:
+                  entry.response !== undefined
+                    ? highlighted(displayJson(entry.response, 2))
+                    : highlighted(entry.chunks.map((chunk) => `data: ${displayJson(chunk)}`).join("\n\n") || "No chunks received yet"),
+              },
+            ]}
+          />
+        </>
+      )}
+    </Drawer>
+  );
+};
+
+export default RequestInspector;
@@ -0,0 +1,181 @@
+import React, { useRef, useState } from "react";
+import { Button as TremorButton, Text } from "@tremor/react";
+import { Input, InputNumber, Progress, Spin, Tooltip, message } from "antd";
+import { DeleteOutlined, LoadingOutlined, OrderedListOutlined, SendOutlined } from "@ant-design/icons";
+import { makeRerankRequest, RerankResult } from "./llm_calls/rerank";
+import { EndpointViewProps } from "./types";
+import TextListEditor from "./TextListEditor";
+
+const MAX_DOCUMENTS = 20;
+
+interface RerankRun {
+  model: string;
+  query: string;
+  documents: string[];
+  results: RerankResult[];
+}
+
+/**
+ * Scores a list of documents against a query and shows them in ranked order
+ */
+const RerankView: React.FC<EndpointViewProps> = ({
+  accessToken,
+  selectedModel,
+  selectedTags,
+  getExtraParams,
+  onInspect,
+}) => {
+  const [query, setQuery] = useState("");
+  const [documents, setDocuments] = useState<string[]>(["", "", ""]);
+  const [topN, setTopN] = useState<number | undefined>();
+  const [result, setResult] = useState<RerankRun | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const handleRerank = async () => {
+    const texts = documents.filter((document) => document.trim() !== "");
+    if (query.trim() === "") {
+      message.error("Please enter a query");
+      return;
+    }
+    if (texts.length === 0) {
+      message.error("Please add at least one document");
+      return;
+    }
+    if (!accessToken) {
+      message.error("Please provide an API key or select Current UI Session");
+      return;
+    }
+    if (!selectedModel) {
+      message.error("Please select a model");
+      return;
+    }
+    let extraParams: Record<string, any>;
+    try {
+      extraParams = getExtraParams();
+    } catch (error: any) {
+      message.error(error.message);
+      return;
+    }
+
+    abortControllerRef.current = new AbortController();
+    setIsLoading(true);
+    try {
+      const results = await makeRerankRequest(
+        query,
+        texts,
+        selectedModel,
+        accessToken,
+        selectedTags,
+        abortControllerRef.current.signal,
+        topN,
+        extraParams,
+        onInspect
+      );
+      setResult({
+        model: selectedModel,
+        query,
+        documents: texts,
+        results: [...results].sort((a, b) => b.relevance_score - a.relevance_score),
+      });
+    } catch (error) {
+      console.error("Error reranking documents", error);
+    } finally {
+      setIsLoading(false);
+      abortControllerRef.current = null;
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 overflow-auto p-4 pb-0">
+        {!result && !isLoading && (
+          <div className="h-full flex flex-col items-center justify-center text-gray-400">
+            <OrderedListOutlined style={{ fontSize: "48px", marginBottom: "16px" }} />
+            <Text>Enter a query and some documents to rank them by relevance</Text>
+          </div>
+        )}
+        {isLoading && (
+          <div className="flex justify-center items-center my-4">
+            <Spin indicator={<LoadingOutlined style={{ fontSize: 24 }} spin />} />
+          </div>
+        )}
+        {result && !isLoading && (
+          <div className="space-y-3">
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <span className="px-2 py-0.5 rounded bg-gray-100 text-gray-600">{result.model}</span>
+              <span className="truncate">Query: {result.query}</span>
+            </div>
+            {result.results.map((item, rank) => (
+              <div key={item.index} className="border border-gray-200 rounded-lg p-3 flex items-start gap-3">
+                <div className="text-lg font-semibold text-gray-400 w-8 text-center">#{rank + 1}</div>
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm whitespace-pre-wrap">{result.documents[item.index]}</div>
+                  <div className="flex items-center gap-2 mt-1">
+                    <Progress
+                      percent={Math.round(Math.max(0, Math.min(1, item.relevance_score)) * 100)}
+                      showInfo={false}
+                      size="small"
+                      className="flex-1 m-0"
+                    />
+                    <Tooltip title="relevance_score">
+                      <span className="text-xs font-mono text-gray-600">{item.relevance_score.toFixed(4)}</span>
+                    </Tooltip>
+                    <span className="text-xs text-gray-400">document {item.index + 1}</span>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="p-4 border-t border-gray-200 bg-white space-y-3">
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Query"
+          disabled={isLoading}
+        />
+        <div className="max-h-64 overflow-auto">
+          <TextListEditor
+            values={documents}
+            onChange={setDocuments}
+            placeholder={(index) => `Document ${index + 1}`}
+            maxItems={MAX_DOCUMENTS}
+            addLabel="Add document"
+            disabled={isLoading}
+          />
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Text className="text-xs text-gray-600">Top N</Text>
+            <InputNumber
+              min={1}
+              precision={0}
+              placeholder="all"
+              value={topN}
+              onChange={(value) => setTopN(value ?? undefined)}
+              size="small"
+            />
+          </div>
+          {isLoading ? (
+            <TremorButton
+              onClick={() => abortControllerRef.current?.abort()}
+              className="bg-red-50 hover:bg-red-100 text-red-600 border-red-200"
+              icon={DeleteOutlined}
+            >
+              Cancel
+            </TremorButton>
+          ) : (
+            <TremorButton onClick={handleRerank} className="text-white" icon={SendOutlined}>
+              Rerank
+            </TremorButton>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RerankView;
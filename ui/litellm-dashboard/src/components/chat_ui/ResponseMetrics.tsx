@@ -7,8 +7,10 @@ import {
   ExportOutlined,
   ThunderboltOutlined,
   BulbOutlined,
-  ToolOutlined
+  ToolOutlined,
+  DollarOutlined
 } from "@ant-design/icons";
+import { formatCost } from "./cost_utils";
 
 export interface TokenUsage {
   completionTokens?: number;
@@ -21,12 +23,14 @@ interface ResponseMetricsProps {
   timeToFirstToken?: number; // in milliseconds
   usage?: TokenUsage;
   toolName?: string;
+  cost?: number; // estimated from the model's per-token pricing, in USD
 }
 
 const ResponseMetrics: React.FC<ResponseMetricsProps> = ({ 
   timeToFirstToken, 
   usage,
-  toolName
+  toolName,
+  cost
 }) => {
   if (!timeToFirstToken && !usage) return null;
 
@@ -77,6 +81,15 @@ const ResponseMetrics: React.FC<ResponseMetricsProps> = ({
         </Tooltip>
       )}
 
+      {cost !== undefined && (
+        <Tooltip title="Estimated cost, from the model's per-token pricing">
+          <div className="flex items-center">
+            <DollarOutlined className="mr-1" />
+            <span>{formatCost(cost)}</span>
+          </div>
+        </Tooltip>
+      )}
+
       {toolName && (
         <Tooltip title="Tool used">
           <div className="flex items-center">
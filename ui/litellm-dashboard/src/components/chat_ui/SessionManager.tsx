@@ -0,0 +1,290 @@
+import React, { useState } from "react";
+import { Button as TremorButton, Text } from "@tremor/react";
+import { Input, Modal, Popconfirm, Table, Tooltip, Upload, message } from "antd";
+import {
+  SaveOutlined,
+  FolderOpenOutlined,
+  ShareAltOutlined,
+  PlusOutlined,
+  CopyOutlined,
+  DeleteOutlined,
+  DownloadOutlined,
+  UploadOutlined,
+  EditOutlined,
+} from "@ant-design/icons";
+import { v4 as uuidv4 } from "uuid";
+import {
+  PlaygroundSession,
+  PlaygroundSessionState,
+  listPlaygroundSessions,
+  savePlaygroundSession,
+  deletePlaygroundSession,
+  duplicatePlaygroundSession,
+  exportPlaygroundSession,
+  importPlaygroundSession,
+  buildPlaygroundShareLink,
+} from "./playground_sessions";
+
+// The saved session the playground is currently working in
+export interface CurrentPlaygroundSession {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+interface SessionManagerProps {
+  currentSession: CurrentPlaygroundSession | null;
+  getSessionState: () => PlaygroundSessionState;
+  onLoadSession: (session: PlaygroundSession) => void;
+  onSessionSaved: (session: PlaygroundSession) => void;
+  onNewSession: () => void;
+  disabled?: boolean;
+}
+
+/**
+ * Save, reopen, duplicate, import/export and share named playground sessions
+ */
+const SessionManager: React.FC<SessionManagerProps> = ({
+  currentSession,
+  getSessionState,
+  onLoadSession,
+  onSessionSaved,
+  onNewSession,
+  disabled = false,
+}) => {
+  const [sessions, setSessions] = useState<PlaygroundSession[]>([]);
+  const [isSessionsModalVisible, setIsSessionsModalVisible] = useState(false);
+  const [isNameModalVisible, setIsNameModalVisible] = useState(false);
+  const [sessionName, setSessionName] = useState("");
+
+  const refreshSessions = () => setSessions(listPlaygroundSessions());
+
+  const saveSession = (session: CurrentPlaygroundSession) => {
+    try {
+      const saved = savePlaygroundSession({
+        ...session,
+        ...getSessionState(),
+        updatedAt: new Date().toISOString(),
+      });
+      onSessionSaved(saved);
+      message.success(`Saved session "${saved.name}"`);
+    } catch (error: any) {
+      message.error(error.message);
+    }
+  };
+
+  const handleSave = () => {
+    if (currentSession) {
+      saveSession(currentSession);
+    } else {
+      setSessionName("");
+      setIsNameModalVisible(true);
+    }
+  };
+
+  const handleSaveAs = () => {
+    const name = sessionName.trim();
+    if (!name) {
+      message.error("Please enter a session name");
+      return;
+    }
+    // Saving an existing session under a new name forks it, so the original is left untouched
+    saveSession({ id: uuidv4(), name, createdAt: new Date().toISOString() });
+    setIsNameModalVisible(false);
+  };
+
+  const handleShare = async () => {
+    try {
+      const link = await buildPlaygroundShareLink(currentSession?.name ?? "Shared session", getSessionState());
+      await navigator.clipboard.writeText(link);
+      message.success("Share link copied to clipboard. API keys are not included.");
+    } catch (error) {
+      console.error("Error building share link:", error);
+      message.error("Could not create a share link");
+    }
+  };
+
+  const handleOpen = (session: PlaygroundSession) => {
+    onLoadSession(session);
+    setIsSessionsModalVisible(false);
+    message.success(`Opened session "${session.name}"`);
+  };
+
+  const handleDuplicate = (session: PlaygroundSession) => {
+    try {
+      duplicatePlaygroundSession(session);
+      refreshSessions();
+    } catch (error: any) {
+      message.error(error.message);
+    }
+  };
+
+  const handleDelete = (session: PlaygroundSession) => {
+    deletePlaygroundSession(session.id);
+    refreshSessions();
+    if (session.id === currentSession?.id) {
+      onNewSession();
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const session = savePlaygroundSession(await importPlaygroundSession(file));
+      refreshSessions();
+      message.success(`Imported session "${session.name}"`);
+    } catch (error: any) {
+      message.error(error.message);
+    }
+    return false; // Prevent default upload behavior
+  };
+
+  const columns = [
+    {
+      title: "Name",
+      dataIndex: "name",
+      key: "name",
+      render: (name: string, session: PlaygroundSession) => (
+        <span className={session.id === currentSession?.id ? "font-semibold" : ""}>{name}</span>
+      ),
+    },
+    { title: "Model", dataIndex: "selectedModel", key: "selectedModel" },
+    {
+      title: "Messages",
+      key: "messages",
+      render: (_: unknown, session: PlaygroundSession) => session.chatHistory.length,
+    },
+    {
+      title: "Updated",
+      dataIndex: "updatedAt",
+      key: "updatedAt",
+      render: (updatedAt: string) => new Date(updatedAt).toLocaleString(),
+    },
+    {
+      title: "",
+      key: "actions",
+      render: (_: unknown, session: PlaygroundSession) => (
+        <div className="flex gap-3 text-gray-500">
+          <Tooltip title="Open">
+            <FolderOpenOutlined className="cursor-pointer hover:text-blue-600" onClick={() => handleOpen(session)} />
+          </Tooltip>
+          <Tooltip title="Duplicate">
+            <CopyOutlined className="cursor-pointer hover:text-blue-600" onClick={() => handleDuplicate(session)} />
+          </Tooltip>
+          <Tooltip title="Export as JSON">
+            <DownloadOutlined className="cursor-pointer hover:text-blue-600" onClick={() => exportPlaygroundSession(session)} />
+          </Tooltip>
+          <Popconfirm title={`Delete "${session.name}"?`} onConfirm={() => handleDelete(session)}>
+            <DeleteOutlined className="cursor-pointer hover:text-red-500" />
+          </Popconfirm>
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <div>
+      <Text className="text-sm text-gray-500 block mb-2 truncate">
+        {currentSession ? currentSession.name : "Unsaved session"}
+      </Text>
+      <div className="grid grid-cols-2 gap-2">
+        <TremorButton
+          onClick={handleSave}
+          disabled={disabled}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-700 border-gray-300"
+          icon={SaveOutlined}
+          size="xs"
+        >
+          Save
+        </TremorButton>
+        <TremorButton
+          onClick={() => {
+            setSessionName(currentSession ? `${currentSession.name} (copy)` : "");
+            setIsNameModalVisible(true);
+          }}
+          disabled={disabled}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-700 border-gray-300"
+          icon={EditOutlined}
+          size="xs"
+        >
+          Save As
+        </TremorButton>
+        <TremorButton
+          onClick={() => {
+            refreshSessions();
+            setIsSessionsModalVisible(true);
+          }}
+          disabled={disabled}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-700 border-gray-300"
+          icon={FolderOpenOutlined}
+          size="xs"
+        >
+          Sessions
+        </TremorButton>
+        <TremorButton
+          onClick={handleShare}
+          disabled={disabled}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-700 border-gray-300"
+          icon={ShareAltOutlined}
+          size="xs"
+        >
+          Share
+        </TremorButton>
+        <TremorButton
+          onClick={onNewSession}
+          disabled={disabled}
+          className="col-span-2 bg-gray-100 hover:bg-gray-200 text-gray-700 border-gray-300"
+          icon={PlusOutlined}
+          size="xs"
+        >
+          New Session
+        </TremorButton>
+      </div>
+
+      <Modal
+        title="Save Session"
+        open={isNameModalVisible}
+        onCancel={() => setIsNameModalVisible(false)}
+        onOk={handleSaveAs}
+        okText="Save"
+      >
+        <Input
+          placeholder="e.g. incident-1234 repro"
+          value={sessionName}
+          onChange={(e) => setSessionName(e.target.value)}
+          onPressEnter={handleSaveAs}
+          autoFocus
+        />
+      </Modal>
+
+      <Modal
+        title="Playground Sessions"
+        open={isSessionsModalVisible}
+        onCancel={() => setIsSessionsModalVisible(false)}
+        footer={null}
+        width={800}
+      >
+        <div className="flex justify-end mb-4">
+          <Upload beforeUpload={handleImport} accept=".json,application/json" showUploadList={false}>
+            <TremorButton
+              className="bg-gray-100 hover:bg-gray-200 text-gray-700 border-gray-300"
+              icon={UploadOutlined}
+              size="xs"
+            >
+              Import JSON
+            </TremorButton>
+          </Upload>
+        </div>
+        <Table
+          dataSource={sessions}
+          columns={columns}
+          rowKey="id"
+          size="small"
+          pagination={{ pageSize: 10 }}
+          locale={{ emptyText: "No saved sessions yet" }}
+        />
+      </Modal>
+    </div>
+  );
+};
+
+export default SessionManager;
@@ -0,0 +1,208 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button as TremorButton, Text } from "@tremor/react";
+import { Input, InputNumber, Select, Spin, Tooltip, message } from "antd";
+import { CloseOutlined, DeleteOutlined, DownloadOutlined, LoadingOutlined, SendOutlined, SoundOutlined } from "@ant-design/icons";
+import { v4 as uuidv4 } from "uuid";
+import { makeOpenAISpeechRequest } from "./llm_calls/audio_speech";
+import { EndpointViewProps } from "./types";
+
+const { TextArea } = Input;
+
+// OpenAI's voices - other providers' voice names can be typed in
+const VOICES = ["alloy", "ash", "ballad", "coral", "echo", "fable", "nova", "onyx", "sage", "shimmer"];
+const AUDIO_FORMATS = ["mp3", "wav", "opus", "aac", "flac", "pcm"];
+
+interface SpeechClip {
+  id: string;
+  model: string;
+  voice: string;
+  format: string;
+  input: string;
+  audioUrl: string; // object URL for playback and download
+}
+
+/**
+ * Text-to-speech: generate audio for some text and play it back
+ */
+const SpeechView: React.FC<EndpointViewProps> = ({
+  accessToken,
+  selectedModel,
+  selectedTags,
+  getExtraParams,
+  onInspect,
+}) => {
+  const [input, setInput] = useState("");
+  const [voice, setVoice] = useState("alloy");
+  const [format, setFormat] = useState("mp3");
+  const [speed, setSpeed] = useState<number | undefined>();
+  const [clips, setClips] = useState<SpeechClip[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const clipsRef = useRef<SpeechClip[]>([]);
+  clipsRef.current = clips;
+
+  useEffect(() => {
+    // Release the generated audio when leaving this mode
+    return () => clipsRef.current.forEach((clip) => URL.revokeObjectURL(clip.audioUrl));
+  }, []);
+
+  const handleGenerate = async () => {
+    if (input.trim() === "") return;
+    if (!accessToken) {
+      message.error("Please provide an API key or select Current UI Session");
+      return;
+    }
+    if (!selectedModel) {
+      message.error("Please select a model");
+      return;
+    }
+    let extraParams: Record<string, any>;
+    try {
+      extraParams = getExtraParams();
+    } catch (error: any) {
+      message.error(error.message);
+      return;
+    }
+
+    abortControllerRef.current = new AbortController();
+    setIsLoading(true);
+    try {
+      const audio = await makeOpenAISpeechRequest(
+        input,
+        voice,
+        format,
+        selectedModel,
+        accessToken,
+        selectedTags,
+        abortControllerRef.current.signal,
+        { ...(speed ? { speed } : {}), ...extraParams },
+        onInspect
+      );
+      const clip: SpeechClip = {
+        id: uuidv4(),
+        model: selectedModel,
+        voice,
+        format,
+        input,
+        audioUrl: URL.createObjectURL(audio),
+      };
+      setClips((prev) => [clip, ...prev]);
+    } catch (error) {
+      console.error("Error generating speech", error);
+    } finally {
+      setIsLoading(false);
+      abortControllerRef.current = null;
+    }
+  };
+
+  const removeClip = (clip: SpeechClip) => {
+    URL.revokeObjectURL(clip.audioUrl);
+    setClips((prev) => prev.filter((item) => item.id !== clip.id));
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 overflow-auto p-4 pb-0">
+        {clips.length === 0 && !isLoading && (
+          <div className="h-full flex flex-col items-center justify-center text-gray-400">
+            <SoundOutlined style={{ fontSize: "48px", marginBottom: "16px" }} />
+            <Text>Enter some text to turn it into speech</Text>
+          </div>
+        )}
+        {isLoading && (
+          <div className="flex justify-center items-center my-4">
+            <Spin indicator={<LoadingOutlined style={{ fontSize: 24 }} spin />} />
+          </div>
+        )}
+        <div className="space-y-3">
+          {clips.map((clip) => (
+            <div key={clip.id} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-600">{clip.model}</span>
+                  <span className="text-xs text-gray-500">
+                    {clip.voice} · {clip.format}
+                  </span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Tooltip title="Download">
+                    <a
+                      href={clip.audioUrl}
+                      download={`speech_${clip.id.slice(0, 8)}.${clip.format}`}
+                      className="text-gray-400 hover:text-gray-600"
+                    >
+                      <DownloadOutlined />
+                    </a>
+                  </Tooltip>
+                  <Tooltip title="Remove">
+                    <button className="text-gray-400 hover:text-red-500" onClick={() => removeClip(clip)}>
+                      <CloseOutlined />
+                    </button>
+                  </Tooltip>
+                </div>
+              </div>
+              <audio controls src={clip.audioUrl} className="w-full mb-2" />
+              <div className="text-sm text-gray-600 whitespace-pre-wrap">{clip.input}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4 border-t border-gray-200 bg-white space-y-3">
+        <div className="flex items-center gap-2">
+          <Select
+            mode="tags"
+            value={[voice]}
+            onChange={(values: string[]) => values.length > 0 && setVoice(values[values.length - 1])}
+            options={VOICES.map((value) => ({ value, label: value }))}
+            style={{ width: 160 }}
+            disabled={isLoading}
+          />
+          <Select
+            value={format}
+            onChange={setFormat}
+            options={AUDIO_FORMATS.map((value) => ({ value, label: value }))}
+            style={{ width: 100 }}
+            disabled={isLoading}
+          />
+          <InputNumber
+            min={0.25}
+            max={4}
+            step={0.25}
+            placeholder="speed 1.0"
+            value={speed}
+            onChange={(value) => setSpeed(value ?? undefined)}
+            disabled={isLoading}
+            style={{ width: 110 }}
+          />
+        </div>
+        <div className="flex items-center">
+          <TextArea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="Text to speak..."
+            disabled={isLoading}
+            className="flex-1"
+            autoSize={{ minRows: 1, maxRows: 6 }}
+            style={{ resize: "none", paddingRight: "10px", paddingLeft: "10px" }}
+          />
+          {isLoading ? (
+            <TremorButton
+              onClick={() => abortControllerRef.current?.abort()}
+              className="ml-2 bg-red-50 hover:bg-red-100 text-red-600 border-red-200"
+              icon={DeleteOutlined}
+            >
+              Cancel
+            </TremorButton>
+          ) : (
+            <TremorButton onClick={handleGenerate} className="ml-2 text-white" icon={SendOutlined}>
+              Generate
+            </TremorButton>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SpeechView;
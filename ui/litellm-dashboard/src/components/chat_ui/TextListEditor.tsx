@@ -0,0 +1,66 @@
+import React from "react";
+import { Input, Tooltip } from "antd";
+import { CloseOutlined, PlusOutlined } from "@ant-design/icons";
+
+const { TextArea } = Input;
+
+interface TextListEditorProps {
+  values: string[];
+  onChange: (values: string[]) => void;
+  placeholder: (index: number) => string;
+  maxItems: number;
+  minItems?: number;
+  addLabel: string;
+  disabled?: boolean;
+}
+
+/**
+ * An editable list of text inputs, for embedding inputs and rerank documents
+ */
+const TextListEditor: React.FC<TextListEditorProps> = ({
+  values,
+  onChange,
+  placeholder,
+  maxItems,
+  minItems = 1,
+  addLabel,
+  disabled = false,
+}) => (
+  <div className="space-y-2">
+    {values.map((value, index) => (
+      <div key={index} className="flex items-start gap-2">
+        <span className="text-xs text-gray-400 w-5 pt-1.5 text-right">{index + 1}</span>
+        <TextArea
+          value={value}
+          onChange={(e) => onChange(values.map((item, i) => (i === index ? e.target.value : item)))}
+          placeholder={placeholder(index)}
+          disabled={disabled}
+          autoSize={{ minRows: 1, maxRows: 4 }}
+          className="flex-1"
+        />
+        {values.length > minItems && (
+          <Tooltip title="Remove">
+            <button
+              className="text-gray-400 hover:text-red-500 px-1 pt-1.5"
+              disabled={disabled}
+              onClick={() => onChange(values.filter((_, i) => i !== index))}
+            >
+              <CloseOutlined />
+            </button>
+          </Tooltip>
+        )}
+      </div>
+    ))}
+    {values.length < maxItems && (
+      <button
+        className="text-xs text-gray-500 hover:text-blue-600 flex items-center gap-1 ml-7"
+        disabled={disabled}
+        onClick={() => onChange([...values, ""])}
+      >
+        <PlusOutlined /> {addLabel}
+      </button>
+    )}
+  </div>
+);
+
+export default TextListEditor;
@@ -0,0 +1,35 @@
+import React from "react";
+import { ToolOutlined } from "@ant-design/icons";
+import { ToolCall } from "./types";
+import { formatToolArguments } from "./tool_utils";
+
+interface ToolCallCardProps {
+  toolCall: ToolCall;
+  result?: string;
+}
+
+/**
+ * A function call requested by the model, with its result once one has been sent
+ */
+const ToolCallCard: React.FC<ToolCallCardProps> = ({ toolCall, result }) => {
+  return (
+    <div className="border border-gray-200 rounded-md bg-gray-50 my-2 text-left">
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-gray-200">
+        <ToolOutlined className="text-gray-500" />
+        <span className="font-mono text-sm font-medium">{toolCall.function.name}</span>
+        <span className="text-xs text-gray-400 font-mono ml-auto">{toolCall.id}</span>
+      </div>
+      <pre className="px-3 py-2 text-xs font-mono whitespace-pre-wrap break-words m-0">
+        {formatToolArguments(toolCall.function.arguments) || "{}"}
+      </pre>
+      {result !== undefined && (
+        <div className="border-t border-gray-200 px-3 py-2">
+          <div className="text-xs text-gray-500 mb-1">Result</div>
+          <pre className="text-xs font-mono whitespace-pre-wrap break-words m-0">{formatToolArguments(result)}</pre>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ToolCallCard;
@@ -0,0 +1,177 @@
+import React, { useEffect, useState } from "react";
+import { Button as TremorButton, Text } from "@tremor/react";
+import { Input, Modal, Tooltip, message } from "antd";
+import { PlusOutlined, DeleteOutlined, InfoCircleOutlined } from "@ant-design/icons";
+import { v4 as uuidv4 } from "uuid";
+import { FunctionTool } from "./types";
+import { EXAMPLE_FUNCTION_TOOL, validateFunctionTool } from "./tool_utils";
+
+const { TextArea } = Input;
+
+interface ToolDraft {
+  key: string;
+  name: string;
+  description: string;
+  parameters: string; // JSON schema, edited as text
+  mockResponse: string;
+}
+
+interface ToolDefinitionsEditorProps {
+  visible: boolean;
+  tools: FunctionTool[];
+  onSave: (tools: FunctionTool[]) => void;
+  onClose: () => void;
+}
+
+const toDraft = (tool: FunctionTool): ToolDraft => ({
+  key: uuidv4(),
+  name: tool.function.name,
+  description: tool.function.description ?? "",
+  parameters: JSON.stringify(tool.function.parameters, null, 2),
+  mockResponse: tool.mockResponse ?? "",
+});
+
+/**
+ * Modal for defining the JSON-schema function tools sent with chat completion requests
+ */
+const ToolDefinitionsEditor: React.FC<ToolDefinitionsEditorProps> = ({ visible, tools, onSave, onClose }) => {
+  const [drafts, setDrafts] = useState<ToolDraft[]>([]);
+
+  useEffect(() => {
+    if (visible) {
+      setDrafts(tools.map(toDraft));
+    }
+  }, [visible]);
+
+  const updateDraft = (key: string, field: keyof ToolDraft, value: string) => {
+    setDrafts((prev) => prev.map((draft) => (draft.key === key ? { ...draft, [field]: value } : draft)));
+  };
+
+  const handleSave = () => {
+    const parsed: FunctionTool[] = [];
+    for (const draft of drafts) {
+      let parameters: Record<string, any>;
+      try {
+        parameters = JSON.parse(draft.parameters || "{}");
+      } catch {
+        message.error(`${draft.name || "Unnamed tool"}: parameters is not valid JSON`);
+        return;
+      }
+      const tool: FunctionTool = {
+        type: "function",
+        function: {
+          name: draft.name.trim(),
+          ...(draft.description.trim() ? { description: draft.description.trim() } : {}),
+          parameters,
+        },
+        ...(draft.mockResponse.trim() ? { mockResponse: draft.mockResponse } : {}),
+      };
+      const error = validateFunctionTool(tool);
+      if (error) {
+        message.error(error);
+        return;
+      }
+      parsed.push(tool);
+    }
+
+    const names = parsed.map((tool) => tool.function.name);
+    const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+    if (duplicate) {
+      message.error(`Tool names must be unique - "${duplicate}" is defined twice`);
+      return;
+    }
+
+    onSave(parsed);
+    onClose();
+  };
+
+  return (
+    <Modal
+      title="Function Tools"
+      open={visible}
+      onCancel={onClose}
+      onOk={handleSave}
+      okText="Save Tools"
+      width={800}
+    >
+      <Text className="text-gray-600 block mb-4">
+        Tools are sent with every /v1/chat/completions request. Tool calls from the model show up in the chat,
+        where you can type or mock each result and continue the conversation.
+      </Text>
+      <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+        {drafts.length === 0 && (
+          <div className="text-center text-gray-400 py-6">No tools defined</div>
+        )}
+        {drafts.map((draft) => (
+          <div key={draft.key} className="border border-gray-200 rounded-lg p-3 space-y-2">
+            <div className="flex gap-2">
+              <Input
+                placeholder="name, e.g. get_current_weather"
+                value={draft.name}
+                onChange={(e) => updateDraft(draft.key, "name", e.target.value)}
+                className="font-mono"
+              />
+              <Tooltip title="Remove tool">
+                <button
+                  className="text-gray-400 hover:text-red-500 px-2"
+                  onClick={() => setDrafts((prev) => prev.filter((d) => d.key !== draft.key))}
+                >
+                  <DeleteOutlined />
+                </button>
+              </Tooltip>
+            </div>
+            <Input
+              placeholder="Description - tells the model when to call this tool"
+              value={draft.description}
+              onChange={(e) => updateDraft(draft.key, "description", e.target.value)}
+            />
+            <div>
+              <Text className="text-xs text-gray-500 mb-1">Parameters (JSON Schema)</Text>
+              <TextArea
+                value={draft.parameters}
+                onChange={(e) => updateDraft(draft.key, "parameters", e.target.value)}
+                autoSize={{ minRows: 4, maxRows: 16 }}
+                className="font-mono text-xs"
+              />
+            </div>
+            <div>
+              <Text className="text-xs text-gray-500 mb-1 flex items-center gap-1">
+                Mock response
+                <Tooltip title="Returned as the tool result when you mock this tool. Never sent to the model as part of the tool definition.">
+                  <InfoCircleOutlined />
+                </Tooltip>
+              </Text>
+              <TextArea
+                placeholder='e.g. {"temperature": 22}'
+                value={draft.mockResponse}
+                onChange={(e) => updateDraft(draft.key, "mockResponse", e.target.value)}
+                autoSize={{ minRows: 1, maxRows: 6 }}
+                className="font-mono text-xs"
+              />
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-4">
+        <TremorButton
+          onClick={() => setDrafts((prev) => [...prev, toDraft({ type: "function", function: { name: "", parameters: { type: "object", properties: {} } } })])}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-700 border-gray-300"
+          icon={PlusOutlined}
+          size="xs"
+        >
+          Add Tool
+        </TremorButton>
+        <TremorButton
+          onClick={() => setDrafts((prev) => [...prev, toDraft(EXAMPLE_FUNCTION_TOOL)])}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-700 border-gray-300"
+          icon={PlusOutlined}
+          size="xs"
+        >
+          Add Example
+        </TremorButton>
+      </div>
+    </Modal>
+  );
+};
+
+export default ToolDefinitionsEditor;
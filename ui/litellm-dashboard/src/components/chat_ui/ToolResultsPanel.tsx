@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from "react";
+import { Button as TremorButton, Text } from "@tremor/react";
+import { Input } from "antd";
+import { SendOutlined, ExperimentOutlined } from "@ant-design/icons";
+import { FunctionTool, ToolCall } from "./types";
+import { mockToolResult } from "./tool_utils";
+
+const { TextArea } = Input;
+
+export interface ToolResult {
+  toolCall: ToolCall;
+  content: string;
+}
+
+interface ToolResultsPanelProps {
+  pendingToolCalls: ToolCall[];
+  tools: FunctionTool[];
+  onSubmit: (results: ToolResult[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Collects a result for each pending tool call and sends them back to the model as role: "tool" messages
+ */
+const ToolResultsPanel: React.FC<ToolResultsPanelProps> = ({ pendingToolCalls, tools, onSubmit, disabled = false }) => {
+  const [results, setResults] = useState<Record<string, string>>({});
+  const pendingIds = pendingToolCalls.map((toolCall) => toolCall.id).join(",");
+
+  // Start with empty results whenever the model asks for a new set of calls
+  useEffect(() => {
+    setResults({});
+  }, [pendingIds]);
+
+  const mockAll = () => {
+    setResults(Object.fromEntries(pendingToolCalls.map((toolCall) => [toolCall.id, mockToolResult(toolCall, tools)])));
+  };
+
+  const handleSubmit = () => {
+    onSubmit(pendingToolCalls.map((toolCall) => ({ toolCall, content: results[toolCall.id] ?? "" })));
+  };
+
+  return (
+    <div className="mb-4 border border-amber-200 bg-amber-50 rounded-lg p-3">
+      <Text className="font-medium text-gray-700 block mb-2">
+        The model requested {pendingToolCalls.length === 1 ? "a tool call" : `${pendingToolCalls.length} tool calls`}. Provide the results to continue.
+      </Text>
+      <div className="space-y-2 max-h-60 overflow-y-auto">
+        {pendingToolCalls.map((toolCall) => (
+          <div key={toolCall.id}>
+            <Text className="text-xs font-mono text-gray-600 mb-1">
+              {toolCall.function.name} ({toolCall.id})
+            </Text>
+            <TextArea
+              value={results[toolCall.id] ?? ""}
+              onChange={(e) => setResults((prev) => ({ ...prev, [toolCall.id]: e.target.value }))}
+              placeholder="Tool result, e.g. a JSON object"
+              autoSize={{ minRows: 1, maxRows: 6 }}
+              className="font-mono text-xs"
+              disabled={disabled}
+            />
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-2 justify-end">
+        <TremorButton
+          onClick={mockAll}
+          disabled={disabled}
+          className="bg-gray-100 hover:bg-gray-200 text-gray-700 border-gray-300"
+          icon={ExperimentOutlined}
+          size="xs"
+        >
+          Mock Results
+        </TremorButton>
+        <TremorButton onClick={handleSubmit} disabled={disabled} className="text-white" icon={SendOutlined} size="xs">
+          Send Results
+        </TremorButton>
+      </div>
+    </div>
+  );
+};
+
+export default ToolResultsPanel;
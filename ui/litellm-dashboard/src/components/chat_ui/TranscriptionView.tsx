@@ -0,0 +1,223 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button as TremorButton, Text } from "@tremor/react";
+import { Input, Spin, Tooltip, Upload, message } from "antd";
+import {
+  AudioOutlined,
+  CloseOutlined,
+  CopyOutlined,
+  DeleteOutlined,
+  LoadingOutlined,
+  SendOutlined,
+  UploadOutlined,
+} from "@ant-design/icons";
+import { v4 as uuidv4 } from "uuid";
+import { makeOpenAITranscriptionRequest } from "./llm_calls/audio_transcription";
+import { EndpointViewProps } from "./types";
+
+const { Dragger } = Upload;
+
+// The limit OpenAI's transcription endpoint enforces
+const MAX_AUDIO_SIZE_MB = 25;
+
+interface Transcript {
+  id: string;
+  model: string;
+  fileName: string;
+  audioUrl: string; // object URL for playback
+  text: string;
+}
+
+/**
+ * Speech-to-text: upload an audio file and read back its transcript
+ */
+const TranscriptionView: React.FC<EndpointViewProps> = ({
+  accessToken,
+  selectedModel,
+  selectedTags,
+  getExtraParams,
+  onInspect,
+}) => {
+  const [audioFile, setAudioFile] = useState<File | null>(null);
+  const [language, setLanguage] = useState("");
+  const [prompt, setPrompt] = useState("");
+  const [transcripts, setTranscripts] = useState<Transcript[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const transcriptsRef = useRef<Transcript[]>([]);
+  transcriptsRef.current = transcripts;
+
+  useEffect(() => {
+    // Release the audio players' object URLs when leaving this mode
+    return () => transcriptsRef.current.forEach((transcript) => URL.revokeObjectURL(transcript.audioUrl));
+  }, []);
+
+  const handleFileSelect = (file: File) => {
+    if (file.size > MAX_AUDIO_SIZE_MB * 1024 * 1024) {
+      message.error(`${file.name} is larger than ${MAX_AUDIO_SIZE_MB} MB`);
+    } else {
+      setAudioFile(file);
+    }
+    return false; // Prevent default upload behavior
+  };
+
+  const handleTranscribe = async () => {
+    if (!audioFile) {
+      message.error("Please upload an audio file");
+      return;
+    }
+    if (!accessToken) {
+      message.error("Please provide an API key or select Current UI Session");
+      return;
+    }
+    if (!selectedModel) {
+      message.error("Please select a model");
+      return;
+    }
+    let extraParams: Record<string, any>;
+    try {
+      extraParams = getExtraParams();
+    } catch (error: any) {
+      message.error(error.message);
+      return;
+    }
+
+    abortControllerRef.current = new AbortController();
+    setIsLoading(true);
+    try {
+      const text = await makeOpenAITranscriptionRequest(
+        audioFile,
+        selectedModel,
+        accessToken,
+        selectedTags,
+        abortControllerRef.current.signal,
+        {
+          ...(language.trim() ? { language: language.trim() } : {}),
+          ...(prompt.trim() ? { prompt: prompt.trim() } : {}),
+          ...extraParams,
+        },
+        onInspect
+      );
+      const transcript: Transcript = {
+        id: uuidv4(),
+        model: selectedModel,
+        fileName: audioFile.name,
+        audioUrl: URL.createObjectURL(audioFile),
+        text,
+      };
+      setTranscripts((prev) => [transcript, ...prev]);
+      setAudioFile(null);
+    } catch (error) {
+      console.error("Error transcribing audio", error);
+    } finally {
+      setIsLoading(false);
+      abortControllerRef.current = null;
+    }
+  };
+
+  const removeTranscript = (transcript: Transcript) => {
+    URL.revokeObjectURL(transcript.audioUrl);
+    setTranscripts((prev) => prev.filter((item) => item.id !== transcript.id));
+  };
+
+  const copyText = (text: string) => {
+    navigator.clipboard.writeText(text);
+    message.success("Transcript copied to clipboard!");
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex-1 overflow-auto p-4 pb-0">
+        {transcripts.length === 0 && !isLoading && (
+          <div className="h-full flex flex-col items-center justify-center text-gray-400">
+            <AudioOutlined style={{ fontSize: "48px", marginBottom: "16px" }} />
+            <Text>Upload an audio file to transcribe it</Text>
+          </div>
+        )}
+        {isLoading && (
+          <div className="flex justify-center items-center my-4">
+            <Spin indicator={<LoadingOutlined style={{ fontSize: 24 }} spin />} />
+          </div>
+        )}
+        <div className="space-y-3">
+          {transcripts.map((transcript) => (
+            <div key={transcript.id} className="border border-gray-200 rounded-lg p-3">
+              <div className="flex items-center justify-between mb-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Text className="text-sm font-medium truncate">{transcript.fileName}</Text>
+                  <span className="text-xs px-2 py-0.5 rounded bg-gray-100 text-gray-600">{transcript.model}</span>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Tooltip title="Copy transcript">
+                    <button className="text-gray-400 hover:text-gray-600" onClick={() => copyText(transcript.text)}>
+                      <CopyOutlined />
+                    </button>
+                  </Tooltip>
+                  <Tooltip title="Remove">
+                    <button className="text-gray-400 hover:text-red-500" onClick={() => removeTranscript(transcript)}>
+                      <CloseOutlined />
+                    </button>
+                  </Tooltip>
+                </div>
+              </div>
+              <audio controls src={transcript.audioUrl} className="w-full mb-2" />
+              <div className="text-sm whitespace-pre-wrap">{transcript.text || <span className="text-gray-400">(no speech detected)</span>}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4 border-t border-gray-200 bg-white space-y-3">
+        {audioFile ? (
+          <div className="flex items-center justify-between border border-gray-200 rounded-md px-3 py-2">
+            <Text className="text-sm truncate">
+              <AudioOutlined className="mr-2" />
+              {audioFile.name} ({(audioFile.size / (1024 * 1024)).toFixed(1)} MB)
+            </Text>
+            <button className="text-gray-400 hover:text-red-500 ml-2" onClick={() => setAudioFile(null)} disabled={isLoading}>
+              <CloseOutlined />
+            </button>
+          </div>
+        ) : (
+          <Dragger beforeUpload={handleFileSelect} accept="audio/*,video/mp4,video/webm" showUploadList={false}>
+            <p className="ant-upload-drag-icon">
+              <UploadOutlined style={{ fontSize: "24px" }} />
+            </p>
+            <p className="ant-upload-text text-sm">Click or drag an audio file here</p>
+            <p className="ant-upload-hint text-xs">mp3, mp4, mpeg, mpga, m4a, wav or webm, up to {MAX_AUDIO_SIZE_MB} MB</p>
+          </Dragger>
+        )}
+        <div className="flex items-center gap-2">
+          <Input
+            value={language}
+            onChange={(e) => setLanguage(e.target.value)}
+            placeholder="Language (ISO-639-1, optional)"
+            disabled={isLoading}
+            style={{ width: 220 }}
+          />
+          <Input
+            value={prompt}
+            onChange={(e) => setPrompt(e.target.value)}
+            placeholder="Prompt to guide spelling or style (optional)"
+            disabled={isLoading}
+            className="flex-1"
+          />
+          {isLoading ? (
+            <TremorButton
+              onClick={() => abortControllerRef.current?.abort()}
+              className="bg-red-50 hover:bg-red-100 text-red-600 border-red-200"
+              icon={DeleteOutlined}
+            >
+              Cancel
+            </TremorButton>
+          ) : (
+            <TremorButton onClick={handleTranscribe} className="text-white" icon={SendOutlined} disabled={!audioFile}>
+              Transcribe
+            </TremorButton>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptionView;
@@ -0,0 +1,99 @@
+import { MessageAttachment } from "./types";
+
+/**
+ * Builds the provider-specific content for messages with image, audio and file attachments.
+ * Attachments are kept as data URLs and converted per endpoint when the request is made.
+ */
+
+export const MAX_ATTACHMENT_SIZE_MB = 20;
+
+// input_audio only accepts these formats
+const AUDIO_FORMATS: Record<string, string> = {
+  "audio/wav": "wav",
+  "audio/x-wav": "wav",
+  "audio/wave": "wav",
+  "audio/mpeg": "mp3",
+  "audio/mp3": "mp3",
+};
+
+export const ATTACHMENT_ACCEPT = ["image/*", ...Object.keys(AUDIO_FORMATS), "application/pdf", "text/plain"].join(",");
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+
+export const readAttachment = async (file: File): Promise<MessageAttachment> => {
+  if (file.size > MAX_ATTACHMENT_SIZE_MB * 1024 * 1024) {
+    throw new Error(`${file.name} is larger than ${MAX_ATTACHMENT_SIZE_MB}MB`);
+  }
+  const mimeType = file.type || "application/octet-stream";
+  if (mimeType.startsWith("audio/") && !AUDIO_FORMATS[mimeType]) {
+    throw new Error(`${file.name}: only WAV and MP3 audio is supported`);
+  }
+  return {
+    kind: mimeType.startsWith("image/") ? "image" : mimeType.startsWith("audio/") ? "audio" : "file",
+    name: file.name,
+    mimeType,
+    dataUrl: await readAsDataUrl(file),
+  };
+};
+
+// Attachments from a saved or shared session have no data left to send
+const sendable = (attachments: MessageAttachment[]) => attachments.filter((attachment) => !attachment.omitted);
+
+const base64Data = (attachment: MessageAttachment) => attachment.dataUrl.slice(attachment.dataUrl.indexOf(",") + 1);
+
+const decodeText = (attachment: MessageAttachment) =>
+  new TextDecoder().decode(Uint8Array.from(atob(base64Data(attachment)), (char) => char.charCodeAt(0)));
+
+/** /v1/chat/completions content parts */
+export const toChatContentParts = (text: string, attachments: MessageAttachment[]) => [
+  ...(text ? [{ type: "text", text }] : []),
+  ...sendable(attachments).map((attachment) => {
+    switch (attachment.kind) {
+      case "image":
+        return { type: "image_url", image_url: { url: attachment.dataUrl } };
+      case "audio":
+        return { type: "input_audio", input_audio: { data: base64Data(attachment), format: AUDIO_FORMATS[attachment.mimeType] } };
+      default:
+        return { type: "file", file: { filename: attachment.name, file_data: attachment.dataUrl } };
+    }
+  }),
+];
+
+/** /v1/responses input content parts */
+export const toResponsesContentParts = (text: string, attachments: MessageAttachment[]) => [
+  ...(text ? [{ type: "input_text", text }] : []),
+  ...sendable(attachments).map((attachment) => {
+    switch (attachment.kind) {
+      case "image":
+        return { type: "input_image", image_url: attachment.dataUrl };
+      case "audio":
+        return { type: "input_audio", input_audio: { data: base64Data(attachment), format: AUDIO_FORMATS[attachment.mimeType] } };
+      default:
+        return { type: "input_file", filename: attachment.name, file_data: attachment.dataUrl };
+    }
+  }),
+];
+
+/** /v1/messages content blocks. Anthropic has no audio input, so audio attachments are rejected. */
+export const toAnthropicContentBlocks = (text: string, attachments: MessageAttachment[]) => [
+  ...sendable(attachments).map((attachment) => {
+    switch (attachment.kind) {
+      case "image":
+        return { type: "image", source: { type: "base64", media_type: attachment.mimeType, data: base64Data(attachment) } };
+      case "audio":
+        throw new Error(`${attachment.name}: audio input is not supported by the Anthropic /v1/messages endpoint`);
+      default:
+        return attachment.mimeType === "text/plain"
+          ? { type: "document", source: { type: "text", media_type: "text/plain", data: decodeText(attachment) }, title: attachment.name }
+          : { type: "document", source: { type: "base64", media_type: attachment.mimeType, data: base64Data(attachment) }, title: attachment.name };
+    }
+  }),
+  // Anthropic recommends putting images and documents before the text that refers to them
+  ...(text ? [{ type: "text", text }] : []),
+];
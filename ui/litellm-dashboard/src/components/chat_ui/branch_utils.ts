@@ -0,0 +1,76 @@
+import { v4 as uuidv4 } from "uuid";
+import { MessageType } from "./types";
+
+/**
+ * Conversation branching. The active conversation stays a plain MessageType[] (chatHistory);
+ * every alternative path is kept as a full MessageType[] in a branch store, and two paths share
+ * a turn when their messages have the same id. Alternatives for a turn are the paths that share
+ * everything before it.
+ */
+
+export interface BranchInfo {
+  index: number; // 0-based position of the active alternative
+  count: number;
+}
+
+/** Gives every message an id - histories saved before branching existed don't have them */
+export const withMessageIds = (history: MessageType[]): MessageType[] =>
+  history.some((msg) => !msg.id) ? history.map((msg) => (msg.id ? msg : { ...msg, id: uuidv4() })) : history;
+
+const isPrefix = (prefix: MessageType[], path: MessageType[]) =>
+  prefix.length <= path.length && prefix.every((msg, i) => msg.id === path[i].id);
+
+/**
+ * Adds a path to the branch store. A stored path that the new one extends is replaced in place,
+ * so the order of alternatives stays stable as a branch grows.
+ */
+export const storeBranch = (branches: MessageType[][], path: MessageType[]): MessageType[][] => {
+  if (path.length === 0 || branches.some((branch) => isPrefix(path, branch))) {
+    return branches;
+  }
+  const extended = branches.findIndex((branch) => isPrefix(branch, path));
+  if (extended === -1) {
+    return [...branches, path];
+  }
+  return branches
+    .map((branch, i) => (i === extended ? path : branch))
+    .filter((branch, i) => i === extended || !isPrefix(branch, path));
+};
+
+// One path per distinct message at `position`, in the order they were first seen
+const getAlternatives = (active: MessageType[], branches: MessageType[][], position: number) => {
+  const prefix = active.slice(0, position);
+  const alternatives = new Map<string, MessageType[]>();
+  for (const path of [...branches, active]) {
+    const msg = path[position];
+    if (msg?.id && isPrefix(prefix, path)) {
+      // Prefer the most recently stored path for each alternative
+      alternatives.set(msg.id, path);
+    }
+  }
+  return Array.from(alternatives.entries());
+};
+
+export const getBranchInfo = (active: MessageType[], branches: MessageType[][], position: number): BranchInfo => {
+  const alternatives = getAlternatives(active, branches, position);
+  return {
+    index: alternatives.findIndex(([id]) => id === active[position]?.id),
+    count: alternatives.length,
+  };
+};
+
+/** Moves to the previous (-1) or next (1) alternative of the message at `position` */
+export const switchBranch = (
+  active: MessageType[],
+  branches: MessageType[][],
+  position: number,
+  direction: -1 | 1
+): { active: MessageType[]; branches: MessageType[][] } => {
+  const alternatives = getAlternatives(active, branches, position);
+  const current = alternatives.findIndex(([id]) => id === active[position]?.id);
+  const target = alternatives[current + direction];
+  if (!target) {
+    return { active, branches };
+  }
+  return { active: target[1], branches: storeBranch(branches, active) };
+};
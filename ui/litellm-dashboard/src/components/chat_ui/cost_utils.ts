@@ -0,0 +1,56 @@
+import { ModelGroup } from "./llm_calls/fetch_models";
+import { TokenUsage } from "./ResponseMetrics";
+
+export interface ModelPricing {
+  input_cost_per_token?: number;
+  output_cost_per_token?: number;
+}
+
+/**
+ * Looks up per-token pricing for a model group. Prefers the pricing the proxy reports
+ * in /model_group/info and falls back to the litellm model cost map.
+ */
+export const getModelPricing = (
+  model: string | undefined,
+  modelInfo: ModelGroup[],
+  costMap?: Record<string, any> | null
+): ModelPricing | undefined => {
+  if (!model) return undefined;
+
+  const group = modelInfo.find((info) => info.model_group === model);
+  if (group?.input_cost_per_token !== undefined || group?.output_cost_per_token !== undefined) {
+    return {
+      input_cost_per_token: group.input_cost_per_token,
+      output_cost_per_token: group.output_cost_per_token,
+    };
+  }
+
+  const entry = costMap?.[model];
+  if (entry) {
+    return {
+      input_cost_per_token: entry.input_cost_per_token,
+      output_cost_per_token: entry.output_cost_per_token,
+    };
+  }
+  return undefined;
+};
+
+/**
+ * Cost of a single response. Reasoning tokens are already part of completion tokens.
+ * Returns undefined when usage or pricing is unknown, so no misleading $0 is shown.
+ */
+export const calculateResponseCost = (
+  usage: TokenUsage | undefined,
+  pricing: ModelPricing | undefined
+): number | undefined => {
+  if (!usage || !pricing) return undefined;
+  return (
+    (usage.promptTokens ?? 0) * (pricing.input_cost_per_token ?? 0) +
+    (usage.completionTokens ?? 0) * (pricing.output_cost_per_token ?? 0)
+  );
+};
+
+export const formatCost = (cost: number): string => {
+  if (cost === 0) return "$0";
+  return cost < 0.01 ? `$${cost.toFixed(6)}` : `$${cost.toFixed(4)}`;
+};
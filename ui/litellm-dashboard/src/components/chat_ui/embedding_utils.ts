@@ -0,0 +1,30 @@
+/**
+ * Vector helpers for the embeddings playground
+ */
+
+export const cosineSimilarity = (a: number[], b: number[]): number => {
+  if (a.length !== b.length || a.length === 0) return NaN;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  if (normA === 0 || normB === 0) return NaN;
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+/** Pairwise cosine similarity - matrix[i][j] compares inputs i and j */
+export const similarityMatrix = (vectors: number[][]): number[][] =>
+  vectors.map((a, i) => vectors.map((b, j) => (i === j ? 1 : cosineSimilarity(a, b))));
+
+export const vectorNorm = (vector: number[]): number => Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+
+// Background for a similarity cell - white at 0 (or below), full blue at 1
+export const similarityColor = (similarity: number): string => {
+  if (Number.isNaN(similarity)) return "transparent";
+  const strength = Math.max(0, Math.min(1, similarity));
+  return `rgba(37, 99, 235, ${(strength * 0.6).toFixed(2)})`;
+};
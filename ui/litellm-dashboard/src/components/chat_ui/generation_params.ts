@@ -0,0 +1,170 @@
+import { validateJsonSchema } from "./json_schema";
+import { StructuredOutputValidation } from "./types";
+
+/**
+ * Sampling and output parameters from the playground's parameter panel, and how each
+ * endpoint type spells them. Unset values are left out so the model's defaults apply.
+ */
+
+export type ResponseFormat = "text" | "json_object" | "json_schema";
+
+export interface GenerationParams {
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string[];
+  seed?: number;
+  reasoning_effort?: string;
+  response_format: ResponseFormat;
+  json_schema: string; // edited as text, used when response_format is json_schema
+  extra_body: string; // JSON object merged into every request body
+  image_size?: string;
+  image_quality?: string;
+  image_n?: number;
+}
+
+export const DEFAULT_GENERATION_PARAMS: GenerationParams = {
+  response_format: "text",
+  json_schema: JSON.stringify(
+    {
+      type: "object",
+      properties: { answer: { type: "string" } },
+      required: ["answer"],
+      additionalProperties: false,
+    },
+    null,
+    2
+  ),
+  extra_body: "",
+};
+
+// Anthropic requires max_tokens, this is what the playground always sent before it was configurable
+const DEFAULT_ANTHROPIC_MAX_TOKENS = 1024;
+
+const parseJsonObject = (text: string, label: string): Record<string, any> => {
+  if (!text.trim()) return {};
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error(`${label} is not valid JSON`);
+  }
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`${label} must be a JSON object`);
+  }
+  return parsed as Record<string, any>;
+};
+
+export const parseExtraBody = (params: GenerationParams) => parseJsonObject(params.extra_body, "Extra body");
+
+export const parseResponseSchema = (params: GenerationParams) => parseJsonObject(params.json_schema, "JSON schema");
+
+/** Returns the first problem with the panel's JSON fields, or null if requests can be built */
+export const validateGenerationParams = (params: GenerationParams): string | null => {
+  try {
+    parseExtraBody(params);
+    if (params.response_format === "json_schema") parseResponseSchema(params);
+    return null;
+  } catch (error: any) {
+    return error.message;
+  }
+};
+
+const definedOnly = (values: Record<string, any>) =>
+  Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined && value !== null));
+
+export const buildChatCompletionParams = (params: GenerationParams): Record<string, any> => {
+  const responseFormat =
+    params.response_format === "json_schema"
+      ? { type: "json_schema", json_schema: { name: "response", schema: parseResponseSchema(params), strict: true } }
+      : params.response_format === "json_object"
+      ? { type: "json_object" }
+      : undefined;
+
+  return {
+    ...definedOnly({
+      temperature: params.temperature,
+      top_p: params.top_p,
+      max_tokens: params.max_tokens,
+      stop: params.stop && params.stop.length > 0 ? params.stop : undefined,
+      seed: params.seed,
+      reasoning_effort: params.reasoning_effort,
+      response_format: responseFormat,
+    }),
+    ...parseExtraBody(params),
+  };
+};
+
+export const buildResponsesParams = (params: GenerationParams): Record<string, any> => {
+  const format =
+    params.response_format === "json_schema"
+      ? { type: "json_schema", name: "response", schema: parseResponseSchema(params), strict: true }
+      : params.response_format === "json_object"
+      ? { type: "json_object" }
+      : undefined;
+
+  return {
+    ...definedOnly({
+      temperature: params.temperature,
+      top_p: params.top_p,
+      max_output_tokens: params.max_tokens,
+      reasoning: params.reasoning_effort ? { effort: params.reasoning_effort } : undefined,
+      text: format ? { format } : undefined,
+    }),
+    ...parseExtraBody(params),
+  };
+};
+
+export const buildAnthropicParams = (params: GenerationParams): Record<string, any> => ({
+  ...definedOnly({
+    temperature: params.temperature,
+    top_p: params.top_p,
+    max_tokens: params.max_tokens ?? DEFAULT_ANTHROPIC_MAX_TOKENS,
+    stop_sequences: params.stop && params.stop.length > 0 ? params.stop : undefined,
+    // litellm maps this to extended thinking for models that support it
+    reasoning_effort: params.reasoning_effort,
+  }),
+  ...parseExtraBody(params),
+});
+
+export const buildImageParams = (params: GenerationParams): Record<string, any> => ({
+  ...definedOnly({
+    size: params.image_size,
+    quality: params.image_quality,
+    n: params.image_n,
+  }),
+  ...parseExtraBody(params),
+});
+
+/** Checks a response's text against the json_schema response format */
+export const validateStructuredOutput = (content: string, params: GenerationParams): StructuredOutputValidation => {
+  let value: unknown;
+  try {
+    value = JSON.parse(content);
+  } catch {
+    return { valid: false, errors: ["Response is not valid JSON"] };
+  }
+  const errors = validateJsonSchema(value, parseResponseSchema(params));
+  return { valid: errors.length === 0, errors };
+};
+
+/** Restores saved parameters, dropping anything with the wrong type */
+export const parseGenerationParams = (raw: unknown): GenerationParams => {
+  const data = (raw && typeof raw === "object" ? raw : {}) as Record<string, any>;
+  const number = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : undefined);
+  const string = (value: unknown) => (typeof value === "string" && value ? value : undefined);
+  return {
+    temperature: number(data.temperature),
+    top_p: number(data.top_p),
+    max_tokens: number(data.max_tokens),
+    stop: Array.isArray(data.stop) ? data.stop.filter((item: unknown) => typeof item === "string") : undefined,
+    seed: number(data.seed),
+    reasoning_effort: string(data.reasoning_effort),
+    response_format: ["text", "json_object", "json_schema"].includes(data.response_format) ? data.response_format : "text",
+    json_schema: typeof data.json_schema === "string" ? data.json_schema : DEFAULT_GENERATION_PARAMS.json_schema,
+    extra_body: typeof data.extra_body === "string" ? data.extra_body : "",
+    image_size: string(data.image_size),
+    image_quality: string(data.image_quality),
+    image_n: number(data.image_n),
+  };
+};
@@ -0,0 +1,118 @@
+/**
+ * Minimal JSON Schema validation for the keywords structured outputs and MCP
+ * tool inputs use: type, enum, const, properties, required, additionalProperties,
+ * items, minLength/maxLength, pattern, format (date, date-time, email, uri),
+ * minimum/maximum and their exclusive forms, minItems/maxItems, anyOf, oneOf
+ * and local $refs. Returns readable errors with a JSON path, an empty list means valid.
+ */
+
+type Schema = Record<string, any>;
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: string) => {
+  const actual = typeOf(value);
+  return actual === type || (type === "number" && actual === "integer");
+};
+
+const FORMATS: Record<string, RegExp> = {
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  "date-time": /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?([Zz]|[+-]\d{2}:\d{2})$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:\S+$/,
+};
+
+export const resolveRef = (schema: Schema, root: Schema): Schema => {
+  if (typeof schema.$ref !== "string" || !schema.$ref.startsWith("#/")) return schema;
+  const resolved = schema.$ref
+    .slice(2)
+    .split("/")
+    .reduce((node: any, key: string) => node?.[key], root);
+  return resolved ?? {};
+};
+
+const validateNode = (value: unknown, rawSchema: Schema, root: Schema, path: string, errors: string[]) => {
+  const schema = resolveRef(rawSchema, root);
+
+  if (Array.isArray(schema.anyOf) || Array.isArray(schema.oneOf)) {
+    const options: Schema[] = schema.anyOf ?? schema.oneOf;
+    const matchCount = options.filter((option) => {
+      const optionErrors: string[] = [];
+      validateNode(value, option, root, path, optionErrors);
+      return optionErrors.length === 0;
+    }).length;
+    if (matchCount === 0) errors.push(`${path}: does not match any of the allowed schemas`);
+    else if (!schema.anyOf && matchCount > 1) errors.push(`${path}: matches more than one of the allowed schemas`);
+    return;
+  }
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      errors.push(`${path}: expected ${types.join(" or ")}, got ${typeOf(value)}`);
+      return;
+    }
+  }
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => JSON.stringify(option) === JSON.stringify(value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(", ")}`);
+  }
+  if (schema.const !== undefined && JSON.stringify(schema.const) !== JSON.stringify(value)) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`${path}: shorter than ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`${path}: longer than ${schema.maxLength} characters`);
+    if (typeof schema.pattern === "string") {
+      try {
+        if (!new RegExp(schema.pattern).test(value)) errors.push(`${path}: does not match pattern ${schema.pattern}`);
+      } catch {
+        // Patterns using syntax JavaScript doesn't support are skipped
+      }
+    }
+    if (FORMATS[schema.format] && !FORMATS[schema.format].test(value)) errors.push(`${path}: not a valid ${schema.format}`);
+  }
+  if (typeof value === "number") {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: less than ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: greater than ${schema.maximum}`);
+    if (typeof schema.exclusiveMinimum === "number" && value <= schema.exclusiveMinimum) errors.push(`${path}: must be greater than ${schema.exclusiveMinimum}`);
+    if (typeof schema.exclusiveMaximum === "number" && value >= schema.exclusiveMaximum) errors.push(`${path}: must be less than ${schema.exclusiveMaximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) errors.push(`${path}: fewer than ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) errors.push(`${path}: more than ${schema.maxItems} items`);
+    if (schema.items && typeof schema.items === "object") {
+      value.forEach((item, index) => validateNode(item, schema.items, root, `${path}[${index}]`, errors));
+    }
+  }
+
+  if (typeOf(value) === "object") {
+    const object = value as Record<string, unknown>;
+    const properties: Record<string, Schema> = schema.properties ?? {};
+    for (const key of schema.required ?? []) {
+      if (!(key in object)) errors.push(`${path}: missing required property "${key}"`);
+    }
+    for (const [key, propertyValue] of Object.entries(object)) {
+      if (properties[key]) {
+        validateNode(propertyValue, properties[key], root, `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property "${key}"`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === "object") {
+        validateNode(propertyValue, schema.additionalProperties, root, `${path}.${key}`, errors);
+      }
+    }
+  }
+};
+
+// `root` is where $refs are resolved from when validating against a subschema
+export const validateJsonSchema = (value: unknown, schema: Schema, root: Schema = schema): string[] => {
+  const errors: string[] = [];
+  validateNode(value, schema, root, "$", errors);
+  return errors;
+};
@@ -1,8 +1,9 @@
 import { message } from "antd";
 import Anthropic from "@anthropic-ai/sdk";
-import { MessageType } from "../types";
+import { MessageType, InspectorEvent } from "../types";
 import { TokenUsage } from "../ResponseMetrics";
 import { getProxyBaseUrl } from "@/components/networking";
+import { toAnthropicContentBlocks } from "../attachment_utils";
 
 export async function makeAnthropicMessagesRequest(
   messages: MessageType[],
@@ -17,7 +18,9 @@ export async function makeAnthropicMessagesRequest(
   traceId?: string,
   vector_store_ids?: string[],
   guardrails?: string[],
-  selectedMCPTool?: string
+  selectedMCPTool?: string,
+  extraParams?: Record<string, any>,
+  onInspect?: (event: InspectorEvent) => void
 ) {
   if (!accessToken) {
     throw new Error("API key is required");
@@ -60,9 +63,13 @@ export async function makeAnthropicMessagesRequest(
 
     const requestBody: any = {
       model: selectedModel,
-      messages: messages.map((m) => ({ role: m.role, content: m.content })),
-      stream: true,
+      messages: messages.map((m) => ({
+        role: m.role,
+        content: m.attachments && m.attachments.length > 0 ? toAnthropicContentBlocks(m.content, m.attachments) : m.content,
+      })),
       max_tokens: 1024,
+      ...(extraParams ?? {}),
+      stream: true,
       // @ts-ignore - litellm specific parameter
       litellm_trace_id: traceId,
     };
@@ -74,12 +81,15 @@ export async function makeAnthropicMessagesRequest(
       requestBody.tool_choice = "auto";
     }
 
+    onInspect?.({ type: "request", endpoint: "/v1/messages", body: requestBody });
+
     // Use the streaming helper method for cleaner async iteration
     // @ts-ignore - The SDK types might not include all litellm-specific parameters
     const stream = client.messages.stream(requestBody, { signal });
 
     for await (const messageStreamEvent of stream) {
       console.log("Stream event:", messageStreamEvent);
+      onInspect?.({ type: "chunk", data: messageStreamEvent });
       
       // Process content block deltas
       if (messageStreamEvent.type === 'content_block_delta') {
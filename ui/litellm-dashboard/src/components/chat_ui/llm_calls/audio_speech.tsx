@@ -0,0 +1,59 @@
+import openai from "openai";
+import { message } from "antd";
+import { getProxyBaseUrl } from "@/components/networking";
+import { InspectorEvent } from "../types";
+
+export async function makeOpenAISpeechRequest(
+  input: string,
+  voice: string,
+  responseFormat: string,
+  selectedModel: string,
+  accessToken: string,
+  tags?: string[],
+  signal?: AbortSignal,
+  extraParams?: Record<string, any>,
+  onInspect?: (event: InspectorEvent) => void
+): Promise<Blob> {
+  // base url should be the current base_url
+  const isLocal = process.env.NODE_ENV === "development";
+  if (isLocal !== true) {
+    console.log = function () {};
+  }
+  console.log("isLocal:", isLocal);
+  const proxyBaseUrl = getProxyBaseUrl()
+
+  const client = new openai.OpenAI({
+    apiKey: accessToken,
+    baseURL: proxyBaseUrl,
+    dangerouslyAllowBrowser: true,
+    defaultHeaders: tags && tags.length > 0 ? { 'x-litellm-tags': tags.join(',') } : undefined,
+  });
+
+  try {
+    const requestBody = {
+      model: selectedModel,
+      input,
+      voice,
+      response_format: responseFormat,
+      ...(extraParams ?? {}),
+    };
+    onInspect?.({ type: "request", endpoint: "/v1/audio/speech", body: requestBody });
+
+    // @ts-ignore - voice and response_format are passed through to whichever provider serves the model
+    const response = await client.audio.speech.create(requestBody, { signal });
+    const audio = await response.blob();
+    onInspect?.({ type: "response", data: { content_type: audio.type, size: audio.size } });
+
+    if (audio.size === 0) {
+      throw new Error("No audio data found in response");
+    }
+    return audio;
+  } catch (error) {
+    if (signal?.aborted) {
+      console.log("Speech request was cancelled");
+    } else {
+      message.error(`Error occurred while generating speech. Please try again. Error: ${error}`, 20);
+    }
+    throw error; // Re-throw to allow the caller to handle the error
+  }
+}
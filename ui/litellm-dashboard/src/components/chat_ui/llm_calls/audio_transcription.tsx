@@ -0,0 +1,58 @@
+import openai from "openai";
+import { message } from "antd";
+import { getProxyBaseUrl } from "@/components/networking";
+import { InspectorEvent } from "../types";
+
+export async function makeOpenAITranscriptionRequest(
+  audioFile: File,
+  selectedModel: string,
+  accessToken: string,
+  tags?: string[],
+  signal?: AbortSignal,
+  extraParams?: Record<string, any>,
+  onInspect?: (event: InspectorEvent) => void
+): Promise<string> {
+  // base url should be the current base_url
+  const isLocal = process.env.NODE_ENV === "development";
+  if (isLocal !== true) {
+    console.log = function () {};
+  }
+  console.log("isLocal:", isLocal);
+  const proxyBaseUrl = getProxyBaseUrl()
+
+  const client = new openai.OpenAI({
+    apiKey: accessToken,
+    baseURL: proxyBaseUrl,
+    dangerouslyAllowBrowser: true,
+    defaultHeaders: tags && tags.length > 0 ? { 'x-litellm-tags': tags.join(',') } : undefined,
+  });
+
+  try {
+    const requestBody = {
+      model: selectedModel,
+      file: audioFile,
+      ...(extraParams ?? {}),
+    };
+    // The body is sent as multipart form data - show the file's details rather than its bytes
+    onInspect?.({
+      type: "request",
+      endpoint: "/v1/audio/transcriptions",
+      body: { ...requestBody, file: { name: audioFile.name, type: audioFile.type, size: audioFile.size } },
+    });
+
+    const response = await client.audio.transcriptions.create(requestBody, { signal });
+    onInspect?.({ type: "response", data: response });
+
+    if (typeof response.text !== "string") {
+      throw new Error("Invalid response format");
+    }
+    return response.text;
+  } catch (error) {
+    if (signal?.aborted) {
+      console.log("Transcription request was cancelled");
+    } else {
+      message.error(`Error occurred while transcribing audio. Please try again. Error: ${error}`, 20);
+    }
+    throw error; // Re-throw to allow the caller to handle the error
+  }
+}
@@ -3,9 +3,10 @@ import { ChatCompletionMessageParam } from "openai/resources/chat/completions";
 import { message } from "antd";
 import { TokenUsage } from "../ResponseMetrics";
 import { getProxyBaseUrl } from "@/components/networking";
+import { ApiChatMessage, FunctionTool, ToolCall, InspectorEvent } from "../types";
 
 export async function makeOpenAIChatCompletionRequest(
-    chatHistory: { role: string; content: string }[],
+    chatHistory: ApiChatMessage[],
     updateUI: (chunk: string, model?: string) => void,
     selectedModel: string,
     accessToken: string,
@@ -17,7 +18,12 @@ export async function makeOpenAIChatCompletionRequest(
     traceId?: string,
     vector_store_ids?: string[],
     guardrails?: string[],
-    selectedMCPTool?: string
+    selectedMCPTool?: string,
+    functionTools?: FunctionTool[],
+    toolChoice?: string,
+    onToolCalls?: (toolCalls: ToolCall[], model?: string) => void,
+    extraParams?: Record<string, any>,
+    onInspect?: (event: InspectorEvent) => void
   ) {
     // base url should be the current base_url
     const isLocal = process.env.NODE_ENV === "development";
@@ -48,8 +54,11 @@ export async function makeOpenAIChatCompletionRequest(
       let fullResponseContent = "";
       let fullReasoningContent = "";
 
+      // Tool calls arrive as deltas keyed by index - accumulate them into complete calls
+      const toolCalls: ToolCall[] = [];
+
       // Format MCP tool if selected
-      const tools = selectedMCPTool ? [{
+      const mcpTools = selectedMCPTool ? [{
         type: "mcp",
         server_label: "litellm",
         server_url: `${proxyBaseUrl}/mcp`,
@@ -57,24 +66,32 @@ export async function makeOpenAIChatCompletionRequest(
         headers: {
           "x-litellm-api-key": `Bearer ${accessToken}`
         }
-      }] : undefined;
+      }] : [];
+      // mockResponse is playground-only, strip it before sending
+      const definedTools = (functionTools ?? []).map(({ type, function: fn }) => ({ type, function: fn }));
+      const tools = [...mcpTools, ...definedTools];
       
-      // @ts-ignore
-      const response = await client.chat.completions.create({
+      const requestBody = {
         model: selectedModel,
+        messages: chatHistory as ChatCompletionMessageParam[],
+        ...(extraParams ?? {}),
         stream: true,
         stream_options: {
           include_usage: true,
         },
         litellm_trace_id: traceId, 
-        messages: chatHistory as ChatCompletionMessageParam[],
         ...(vector_store_ids ? { vector_store_ids } : {}),
         ...(guardrails ? { guardrails } : {}),
-        ...(tools ? { tools, tool_choice: "auto" } : {}),
-      }, { signal });
+        ...(tools.length > 0 ? { tools, tool_choice: definedTools.length > 0 ? toolChoice ?? "auto" : "auto" } : {}),
+      };
+      onInspect?.({ type: "request", endpoint: "/v1/chat/completions", body: requestBody });
+
+      // @ts-ignore
+      const response = await client.chat.completions.create(requestBody, { signal });
   
       for await (const chunk of response) {
         console.log("Stream chunk:", chunk);
+        onInspect?.({ type: "chunk", data: chunk });
         
         // Process content and measure time to first token
         const delta = chunk.choices[0]?.delta as any;
@@ -103,6 +120,28 @@ export async function makeOpenAIChatCompletionRequest(
           fullResponseContent += content;
         }
         
+        // Process tool call deltas
+        if (delta?.tool_calls) {
+          for (const toolCallDelta of delta.tool_calls) {
+            const index = toolCallDelta.index ?? 0;
+            const existing = toolCalls[index] ?? { id: "", type: "function", function: { name: "", arguments: "" } };
+            toolCalls[index] = {
+              id: toolCallDelta.id || existing.id,
+              type: "function",
+              function: {
+                name: existing.function.name + (toolCallDelta.function?.name ?? ""),
+                arguments: existing.function.arguments + (toolCallDelta.function?.arguments ?? ""),
+              },
+            };
+          }
+          if (!firstTokenReceived) {
+            firstTokenReceived = true;
+            timeToFirstToken = Date.now() - startTime;
+            onTimingData?.(timeToFirstToken);
+          }
+          onToolCalls?.(toolCalls.filter(Boolean), chunk.model);
+        }
+        
         // Process reasoning content if present - using type assertion
         if (delta && delta.reasoning_content) {
           const reasoningContent = delta.reasoning_content;
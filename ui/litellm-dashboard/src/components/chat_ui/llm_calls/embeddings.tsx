@@ -0,0 +1,64 @@
+import openai from "openai";
+import { message } from "antd";
+import { getProxyBaseUrl } from "@/components/networking";
+import { InspectorEvent } from "../types";
+
+export interface EmbeddingsResult {
+  embeddings: number[][]; // in the same order as the inputs
+  promptTokens?: number;
+}
+
+export async function makeOpenAIEmbeddingsRequest(
+  inputs: string[],
+  selectedModel: string,
+  accessToken: string,
+  tags?: string[],
+  signal?: AbortSignal,
+  extraParams?: Record<string, any>,
+  onInspect?: (event: InspectorEvent) => void
+): Promise<EmbeddingsResult> {
+  // base url should be the current base_url
+  const isLocal = process.env.NODE_ENV === "development";
+  if (isLocal !== true) {
+    console.log = function () {};
+  }
+  console.log("isLocal:", isLocal);
+  const proxyBaseUrl = getProxyBaseUrl()
+
+  const client = new openai.OpenAI({
+    apiKey: accessToken,
+    baseURL: proxyBaseUrl,
+    dangerouslyAllowBrowser: true,
+    defaultHeaders: tags && tags.length > 0 ? { 'x-litellm-tags': tags.join(',') } : undefined,
+  });
+
+  try {
+    const requestBody = {
+      model: selectedModel,
+      input: inputs,
+      // The SDK asks for base64 by default, which not every provider behind the proxy supports
+      encoding_format: "float" as const,
+      ...(extraParams ?? {}),
+    };
+    onInspect?.({ type: "request", endpoint: "/v1/embeddings", body: requestBody });
+
+    const response = await client.embeddings.create(requestBody, { signal });
+    onInspect?.({ type: "response", data: response });
+
+    if (!response.data || response.data.length !== inputs.length) {
+      throw new Error("Invalid response format");
+    }
+
+    return {
+      embeddings: [...response.data].sort((a, b) => a.index - b.index).map((item) => item.embedding),
+      promptTokens: response.usage?.prompt_tokens,
+    };
+  } catch (error) {
+    if (signal?.aborted) {
+      console.log("Embeddings request was cancelled");
+    } else {
+      message.error(`Error occurred while creating embeddings. Please try again. Error: ${error}`, 20);
+    }
+    throw error; // Re-throw to allow the caller to handle the error
+  }
+}
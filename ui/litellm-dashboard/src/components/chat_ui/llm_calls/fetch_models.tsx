@@ -5,6 +5,8 @@ import { modelHubCall } from "../../networking";
 export interface ModelGroup {
   model_group: string;
   mode?: string;
+  input_cost_per_token?: number;
+  output_cost_per_token?: number;
 }
 
 /**
@@ -21,6 +23,8 @@ export const fetchAvailableModels = async (
       const models: ModelGroup[] = fetchedModels.data.map((item: any) => ({
         model_group: item.model_group, // Display the model_group to the user
         mode: item?.mode, // Save the mode for auto-selection of endpoint type
+        input_cost_per_token: item?.input_cost_per_token ?? undefined,
+        output_cost_per_token: item?.output_cost_per_token ?? undefined,
       }));
 
       // Sort models alphabetically by label
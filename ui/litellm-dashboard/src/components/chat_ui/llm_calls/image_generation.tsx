@@ -1,6 +1,7 @@
 import openai from "openai";
 import { message } from "antd";
 import { getProxyBaseUrl } from "@/components/networking";
+import { InspectorEvent } from "../types";
 
 export async function makeOpenAIImageGenerationRequest(
   prompt: string,
@@ -8,7 +9,9 @@ export async function makeOpenAIImageGenerationRequest(
   selectedModel: string,
   accessToken: string,
   tags?: string[],
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  extraParams?: Record<string, any>,
+  onInspect?: (event: InspectorEvent) => void
 ) {
   // base url should be the current base_url
   const isLocal = process.env.NODE_ENV === "development";
@@ -25,24 +28,32 @@ export async function makeOpenAIImageGenerationRequest(
   });
 
   try {
-    const response = await client.images.generate({
+    const requestBody = {
       model: selectedModel,
       prompt: prompt,
-    }, { signal });
+      ...(extraParams ?? {}),
+    };
+    onInspect?.({ type: "request", endpoint: "/v1/images/generations", body: requestBody });
+
+    const response = await client.images.generate(requestBody, { signal });
+    onInspect?.({ type: "response", data: response });
 
     console.log(response.data);
     
     if (response.data && response.data[0]) {
-      // Handle either URL or base64 data from response
-      if (response.data[0].url) {
-        // Use the URL directly
-        updateUI(response.data[0].url, selectedModel);
-      } else if (response.data[0].b64_json) {
-        // Convert base64 to data URL format
-        const base64Data = response.data[0].b64_json;
-        updateUI(`data:image/png;base64,${base64Data}`, selectedModel);
-      } else {
-        throw new Error("No image data found in response");
+      // One image per item when n > 1
+      for (const image of response.data) {
+        // Handle either URL or base64 data from response
+        if (image.url) {
+          // Use the URL directly
+          updateUI(image.url, selectedModel);
+        } else if (image.b64_json) {
+          // Convert base64 to data URL format
+          const base64Data = image.b64_json;
+          updateUI(`data:image/png;base64,${base64Data}`, selectedModel);
+        } else {
+          throw new Error("No image data found in response");
+        }
       }
     } else {
       throw new Error("Invalid response format");
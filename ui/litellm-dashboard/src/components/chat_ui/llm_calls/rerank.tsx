@@ -0,0 +1,71 @@
+import { message } from "antd";
+import { getProxyBaseUrl } from "@/components/networking";
+import { InspectorEvent } from "../types";
+
+export interface RerankResult {
+  index: number; // position of the document in the request
+  relevance_score: number;
+}
+
+// The OpenAI SDK has no rerank endpoint, so this calls the proxy's Cohere-style /v1/rerank directly
+export async function makeRerankRequest(
+  query: string,
+  documents: string[],
+  selectedModel: string,
+  accessToken: string,
+  tags?: string[],
+  signal?: AbortSignal,
+  topN?: number,
+  extraParams?: Record<string, any>,
+  onInspect?: (event: InspectorEvent) => void
+): Promise<RerankResult[]> {
+  // base url should be the current base_url
+  const isLocal = process.env.NODE_ENV === "development";
+  if (isLocal !== true) {
+    console.log = function () {};
+  }
+  console.log("isLocal:", isLocal);
+  const proxyBaseUrl = getProxyBaseUrl()
+
+  try {
+    const requestBody = {
+      model: selectedModel,
+      query,
+      documents,
+      ...(topN ? { top_n: topN } : {}),
+      ...(extraParams ?? {}),
+    };
+    onInspect?.({ type: "request", endpoint: "/v1/rerank", body: requestBody });
+
+    const response = await fetch(`${proxyBaseUrl}/v1/rerank`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+        ...(tags && tags.length > 0 ? { "x-litellm-tags": tags.join(",") } : {}),
+      },
+      body: JSON.stringify(requestBody),
+      signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      throw new Error(errorData);
+    }
+
+    const data = await response.json();
+    onInspect?.({ type: "response", data });
+
+    if (!Array.isArray(data.results)) {
+      throw new Error("Invalid response format");
+    }
+    return data.results.map((result: any) => ({ index: result.index, relevance_score: result.relevance_score }));
+  } catch (error) {
+    if (signal?.aborted) {
+      console.log("Rerank request was cancelled");
+    } else {
+      message.error(`Error occurred while reranking documents. Please try again. Error: ${error}`, 20);
+    }
+    throw error; // Re-throw to allow the caller to handle the error
+  }
+}
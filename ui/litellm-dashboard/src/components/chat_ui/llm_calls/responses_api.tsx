@@ -1,9 +1,10 @@
 import openai from "openai";
 import { message } from "antd";
-import { MessageType } from "../types";
+import { MessageType, InspectorEvent } from "../types";
 import { TokenUsage } from "../ResponseMetrics";
 import { getProxyBaseUrl } from "@/components/networking";
 import { MCPTool } from "@/components/chat_ui/llm_calls/fetch_mcp_tools";
+import { toResponsesContentParts } from "../attachment_utils";
 
 export async function makeOpenAIResponsesRequest(
   messages: MessageType[],
@@ -18,7 +19,9 @@ export async function makeOpenAIResponsesRequest(
   traceId?: string,
   vector_store_ids?: string[],
   guardrails?: string[],
-  selectedMCPTool?: string
+  selectedMCPTool?: string,
+  extraParams?: Record<string, any>,
+  onInspect?: (event: InspectorEvent) => void
 ) {
   if (!accessToken) {
     throw new Error("API key is required");
@@ -51,7 +54,9 @@ export async function makeOpenAIResponsesRequest(
     // Format messages for the API
     const formattedInput = messages.map(message => ({
       role: message.role,
-      content: message.content,
+      content: message.attachments && message.attachments.length > 0
+        ? toResponsesContentParts(message.content, message.attachments)
+        : message.content,
       type: "message"
     }));
 
@@ -68,20 +73,25 @@ export async function makeOpenAIResponsesRequest(
 
     // Create request to OpenAI responses API
     // Use 'any' type to avoid TypeScript issues with the experimental API
-    const response = await (client as any).responses.create({
+    const requestBody = {
       model: selectedModel,
       input: formattedInput,
+      ...(extraParams ?? {}),
       stream: true,
       litellm_trace_id: traceId,
       ...(vector_store_ids ? { vector_store_ids } : {}),
       ...(guardrails ? { guardrails } : {}),
       ...(tools ? { tools, tool_choice: "required" } : {}),
-    }, { signal });
+    };
+    onInspect?.({ type: "request", endpoint: "/v1/responses", body: requestBody });
+
+    const response = await (client as any).responses.create(requestBody, { signal });
 
     let mcpToolUsed = "";
 
     for await (const event of response) {
       console.log("Response event:", event);
+      onInspect?.({ type: "chunk", data: event });
 
       // Use a type-safe approach to handle events
       if (typeof event === 'object' && event !== null) {
@@ -0,0 +1,110 @@
+import { v4 as uuidv4 } from "uuid";
+import { MessageType, ApiChatMessage, ToolCall, StructuredOutputValidation } from "./types";
+import { TokenUsage } from "./ResponseMetrics";
+import { toChatContentParts } from "./attachment_utils";
+
+/**
+ * Pure helpers for applying streamed updates to a chat history.
+ * Each returns a new array, so they can be passed straight to a state setter.
+ */
+
+export const appendTextChunk = (
+  history: MessageType[],
+  role: string,
+  chunk: string,
+  model?: string
+): MessageType[] => {
+  const last = history[history.length - 1];
+  // if the last message is already from this same role, append
+  if (last && last.role === role && !last.isImage) {
+    return [
+      ...history.slice(0, -1),
+      {
+        ...last,
+        content: last.content + chunk,
+        model: last.model ?? model, // only use the passed-in model on the first chunk
+      },
+    ];
+  }
+  // otherwise start a brand new bubble
+  return [...history, { id: uuidv4(), role, content: chunk, model }];
+};
+
+export const appendReasoningChunk = (history: MessageType[], chunk: string): MessageType[] => {
+  const last = history[history.length - 1];
+  if (last && last.role === "assistant" && !last.isImage) {
+    return [
+      ...history.slice(0, -1),
+      { ...last, reasoningContent: (last.reasoningContent || "") + chunk },
+    ];
+  }
+  // If there's no assistant message yet, create one with empty content but with reasoning content
+  if (last && (last.role === "user" || last.role === "tool")) {
+    return [...history, { id: uuidv4(), role: "assistant", content: "", reasoningContent: chunk }];
+  }
+  return history;
+};
+
+export const setTimeToFirstToken = (history: MessageType[], timeToFirstToken: number): MessageType[] => {
+  const last = history[history.length - 1];
+  if (last && last.role === "assistant") {
+    return [...history.slice(0, -1), { ...last, timeToFirstToken }];
+  }
+  // If no assistant message exists yet, create one with empty content
+  if (last && (last.role === "user" || last.role === "tool")) {
+    return [...history, { id: uuidv4(), role: "assistant", content: "", timeToFirstToken }];
+  }
+  return history;
+};
+
+export const setUsage = (history: MessageType[], usage: TokenUsage, toolName?: string): MessageType[] => {
+  const last = history[history.length - 1];
+  if (last && last.role === "assistant") {
+    return [...history.slice(0, -1), { ...last, usage, toolName }];
+  }
+  return history;
+};
+
+export const setToolCalls = (history: MessageType[], toolCalls: ToolCall[], model?: string): MessageType[] => {
+  const last = history[history.length - 1];
+  if (last && last.role === "assistant" && !last.isImage) {
+    return [...history.slice(0, -1), { ...last, toolCalls, model: last.model ?? model }];
+  }
+  // The model can answer with tool calls and no text at all
+  return [...history, { id: uuidv4(), role: "assistant", content: "", model, toolCalls }];
+};
+
+export const setStructuredOutput = (history: MessageType[], structuredOutput: StructuredOutputValidation): MessageType[] => {
+  const last = history[history.length - 1];
+  // A turn that ended in tool calls isn't the final answer, so there's nothing to validate yet
+  if (last && last.role === "assistant" && !last.isImage && !last.toolCalls?.length) {
+    return [...history.slice(0, -1), { ...last, structuredOutput }];
+  }
+  return history;
+};
+
+/** Tool calls from the latest assistant turn that don't have a role: "tool" result yet */
+export const getPendingToolCalls = (history: MessageType[]): ToolCall[] => {
+  const index = history.map((msg) => msg.role).lastIndexOf("assistant");
+  const toolCalls = history[index]?.toolCalls;
+  if (!toolCalls) return [];
+  const answered = new Set(history.slice(index + 1).map((msg) => msg.toolCallId));
+  return toolCalls.filter((toolCall) => !answered.has(toolCall.id));
+};
+
+/** Converts the UI history to chat completions messages - generated images are dropped, attachments become content parts */
+export const toApiChatHistory = (history: MessageType[]): ApiChatMessage[] =>
+  history
+    .filter((msg) => !msg.isImage)
+    .map((msg) => {
+      if (msg.role === "tool") {
+        return { role: msg.role, content: msg.content, tool_call_id: msg.toolCallId };
+      }
+      if (msg.attachments && msg.attachments.length > 0) {
+        return { role: msg.role, content: toChatContentParts(msg.content, msg.attachments) };
+      }
+      if (msg.toolCalls && msg.toolCalls.length > 0) {
+        return { role: msg.role, content: msg.content || null, tool_calls: msg.toolCalls };
+      }
+      return { role: msg.role, content: msg.content };
+    });
@@ -7,6 +7,10 @@ export enum ModelMode {
     RESPONSES = "responses",
     IMAGE_EDITS = "image_edits",
     ANTHROPIC_MESSAGES = "anthropic_messages",
+    EMBEDDING = "embedding",
+    AUDIO_TRANSCRIPTION = "audio_transcription",
+    AUDIO_SPEECH = "audio_speech",
+    RERANK = "rerank",
     // add additional modes as needed
   }
   
@@ -17,6 +21,10 @@ export enum ModelMode {
     RESPONSES = "responses",
     IMAGE_EDITS = "image_edits",
     ANTHROPIC_MESSAGES = "anthropic_messages",
+    EMBEDDINGS = "embeddings",
+    TRANSCRIPTION = "transcription",
+    SPEECH = "speech",
+    RERANK = "rerank",
     // add additional endpoint types if required
   }
   
@@ -27,6 +35,10 @@ export enum ModelMode {
     [ModelMode.RESPONSES]: EndpointType.RESPONSES,
     [ModelMode.IMAGE_EDITS]: EndpointType.IMAGE_EDITS,
     [ModelMode.ANTHROPIC_MESSAGES]: EndpointType.ANTHROPIC_MESSAGES,
+    [ModelMode.EMBEDDING]: EndpointType.EMBEDDINGS,
+    [ModelMode.AUDIO_TRANSCRIPTION]: EndpointType.TRANSCRIPTION,
+    [ModelMode.AUDIO_SPEECH]: EndpointType.SPEECH,
+    [ModelMode.RERANK]: EndpointType.RERANK,
   };
 
   export const getEndpointType = (mode: string): EndpointType => {
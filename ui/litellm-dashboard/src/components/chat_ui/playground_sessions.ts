@@ -0,0 +1,236 @@
+import { v4 as uuidv4 } from "uuid";
+import { MessageType, FunctionTool } from "./types";
+import { EndpointType } from "./mode_endpoint_mapping";
+import { isFunctionTool } from "./tool_utils";
+import { GenerationParams, parseGenerationParams } from "./generation_params";
+
+/**
+ * Named playground sessions - saved to localStorage, exported/imported as JSON
+ * and shared as a link with the session encoded in the URL.
+ * API keys are never part of a session, and attachments are saved and shared without their data.
+ */
+
+const STORAGE_KEY = "litellmPlaygroundSessions";
+const SESSION_FORMAT_VERSION = 1;
+export const SHARE_PARAM = "playground_session";
+
+export interface PlaygroundSessionSettings {
+  selectedModel?: string;
+  endpointType: string;
+  selectedTags: string[];
+  selectedVectorStores: string[];
+  selectedGuardrails: string[];
+  selectedMCPTools: string;
+  functionTools: FunctionTool[];
+  toolChoice: string;
+  generationParams: GenerationParams;
+}
+
+// Everything needed to reproduce a playground conversation
+export interface PlaygroundSessionState extends PlaygroundSessionSettings {
+  chatHistory: MessageType[];
+  chatBranches: MessageType[][]; // alternative paths from edits and regenerations
+  messageTraceId: string | null;
+}
+
+export interface PlaygroundSession extends PlaygroundSessionState {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const isMessage = (value: any): value is MessageType =>
+  value && typeof value.role === "string" && typeof value.content === "string";
+
+/**
+ * Validates an untrusted session (from an import or a share link) and fills in defaults.
+ * Throws with a readable message if it isn't a playground session.
+ */
+export const parsePlaygroundSession = (raw: unknown): PlaygroundSession => {
+  const data = raw as Record<string, any>;
+  if (!data || typeof data !== "object" || !Array.isArray(data.chatHistory)) {
+    throw new Error("Not a playground session - chatHistory is missing");
+  }
+  if (!data.chatHistory.every(isMessage)) {
+    throw new Error("Not a playground session - chatHistory contains invalid messages");
+  }
+  if (data.version !== undefined && data.version > SESSION_FORMAT_VERSION) {
+    throw new Error(`Unsupported playground session version: ${data.version}`);
+  }
+
+  const now = new Date().toISOString();
+  return {
+    id: typeof data.id === "string" ? data.id : uuidv4(),
+    name: typeof data.name === "string" && data.name.trim() ? data.name : "Untitled session",
+    chatHistory: data.chatHistory,
+    chatBranches: Array.isArray(data.chatBranches)
+      ? data.chatBranches.filter((branch: unknown) => Array.isArray(branch) && branch.every(isMessage))
+      : [],
+    messageTraceId: typeof data.messageTraceId === "string" ? data.messageTraceId : null,
+    selectedModel: typeof data.selectedModel === "string" ? data.selectedModel : undefined,
+    endpointType: Object.values(EndpointType).includes(data.endpointType) ? data.endpointType : EndpointType.CHAT,
+    selectedTags: isStringArray(data.selectedTags) ? data.selectedTags : [],
+    selectedVectorStores: isStringArray(data.selectedVectorStores) ? data.selectedVectorStores : [],
+    selectedGuardrails: isStringArray(data.selectedGuardrails) ? data.selectedGuardrails : [],
+    selectedMCPTools: typeof data.selectedMCPTools === "string" ? data.selectedMCPTools : "",
+    functionTools: Array.isArray(data.functionTools) ? data.functionTools.filter(isFunctionTool) : [],
+    toolChoice: typeof data.toolChoice === "string" ? data.toolChoice : "auto",
+    generationParams: parseGenerationParams(data.generationParams),
+    createdAt: typeof data.createdAt === "string" ? data.createdAt : now,
+    updatedAt: typeof data.updatedAt === "string" ? data.updatedAt : now,
+  };
+};
+
+// Attachment data URLs would quickly fill localStorage and make share links unusably long
+const withoutAttachmentData = (messages: MessageType[]): MessageType[] =>
+  messages.map((msg) =>
+    msg.attachments && msg.attachments.length > 0
+      ? { ...msg, attachments: msg.attachments.map((attachment) => ({ ...attachment, dataUrl: "", omitted: true })) }
+      : msg,
+  );
+
+const withoutAttachments = <T extends PlaygroundSessionState>(state: T): T => ({
+  ...state,
+  chatHistory: withoutAttachmentData(state.chatHistory),
+  chatBranches: state.chatBranches.map(withoutAttachmentData),
+});
+
+// ---- localStorage ----
+
+export const listPlaygroundSessions = (): PlaygroundSession[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const sessions: unknown[] = saved ? JSON.parse(saved) : [];
+    return sessions
+      .flatMap((session) => {
+        try {
+          return [parsePlaygroundSession(session)];
+        } catch {
+          return [];
+        }
+      })
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch (error) {
+    console.error("Error parsing playground sessions from localStorage", error);
+    return [];
+  }
+};
+
+const writePlaygroundSessions = (sessions: PlaygroundSession[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  } catch (error) {
+    // Generated images are still stored inline as data URLs
+    if (error instanceof DOMException && error.name === "QuotaExceededError") {
+      throw new Error("Could not save sessions, browser storage is full. Delete or export older sessions.");
+    }
+    throw error;
+  }
+};
+
+export const getPlaygroundSession = (id: string): PlaygroundSession | undefined =>
+  listPlaygroundSessions().find((session) => session.id === id);
+
+/** Inserts or replaces a session by id, bumping its updatedAt */
+export const savePlaygroundSession = (session: PlaygroundSession): PlaygroundSession => {
+  const saved = withoutAttachments({ ...session, updatedAt: new Date().toISOString() });
+  const others = listPlaygroundSessions().filter((existing) => existing.id !== session.id);
+  writePlaygroundSessions([saved, ...others]);
+  return saved;
+};
+
+export const deletePlaygroundSession = (id: string) => {
+  writePlaygroundSessions(listPlaygroundSessions().filter((session) => session.id !== id));
+};
+
+/** Copies a session under a new id. The copy gets its own trace id so its requests aren't grouped with the original's. */
+export const duplicatePlaygroundSession = (session: PlaygroundSession, name?: string): PlaygroundSession => {
+  const now = new Date().toISOString();
+  return savePlaygroundSession({
+    ...session,
+    id: uuidv4(),
+    name: name ?? `${session.name} (copy)`,
+    messageTraceId: null,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+// ---- JSON export / import ----
+
+export const exportPlaygroundSession = (session: PlaygroundSession) => {
+  const json = JSON.stringify({ version: SESSION_FORMAT_VERSION, ...session }, null, 2);
+  const blob = new Blob([json], { type: "application/json" });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${session.name.replace(/[^a-z0-9-_]+/gi, "_")}.playground.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+};
+
+/** Reads an exported session file. The import gets a fresh id so it never overwrites a local session. */
+export const importPlaygroundSession = async (file: File): Promise<PlaygroundSession> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`${file.name} is not valid JSON`);
+  }
+  return { ...parsePlaygroundSession(raw), id: uuidv4() };
+};
+
+// ---- Share links ----
+
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+const pipeThrough = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream) =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+/**
+ * Builds a link that opens the playground with this session loaded.
+ * The session is gzipped into the URL fragment, so it's never sent to the proxy.
+ */
+export const buildPlaygroundShareLink = async (name: string, state: PlaygroundSessionState): Promise<string> => {
+  const json = new TextEncoder().encode(
+    JSON.stringify({ version: SESSION_FORMAT_VERSION, name, ...withoutAttachments(state) }),
+  );
+  const encoded = toBase64Url(await pipeThrough(json, new CompressionStream("gzip")));
+
+  const url = new URL(window.location.href);
+  url.search = "";
+  url.searchParams.set("page", "llm-playground");
+  url.hash = `${SHARE_PARAM}=${encoded}`;
+  return url.toString();
+};
+
+/** Returns the session from a share link in the current URL, if there is one */
+export const readSharedPlaygroundSession = async (): Promise<PlaygroundSession | null> => {
+  const encoded = new URLSearchParams(window.location.hash.slice(1)).get(SHARE_PARAM);
+  if (!encoded) return null;
+
+  const json = await pipeThrough(fromBase64Url(encoded), new DecompressionStream("gzip"));
+  // Start a new trace, so the recipient's requests aren't grouped with the sender's
+  return { ...parsePlaygroundSession(JSON.parse(new TextDecoder().decode(json))), id: uuidv4(), messageTraceId: null };
+};
+
+export const clearSharedPlaygroundSession = () => {
+  const url = new URL(window.location.href);
+  url.hash = "";
+  window.history.replaceState(null, "", url.toString());
+};
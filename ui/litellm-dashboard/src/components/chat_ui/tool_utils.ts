@@ -0,0 +1,61 @@
+import { FunctionTool, ToolCall } from "./types";
+
+// Same constraint OpenAI puts on function names
+const TOOL_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,64}$/;
+
+export const EXAMPLE_FUNCTION_TOOL: FunctionTool = {
+  type: "function",
+  function: {
+    name: "get_current_weather",
+    description: "Get the current weather in a given location",
+    parameters: {
+      type: "object",
+      properties: {
+        location: { type: "string", description: "The city and state, e.g. San Francisco, CA" },
+        unit: { type: "string", enum: ["celsius", "fahrenheit"] },
+      },
+      required: ["location"],
+    },
+  },
+  mockResponse: JSON.stringify({ temperature: 22, unit: "celsius", description: "Sunny" }),
+};
+
+/** Returns a readable problem with a tool definition, or null if it can be sent */
+export const validateFunctionTool = (tool: FunctionTool): string | null => {
+  const { name, parameters } = tool.function;
+  if (!TOOL_NAME_PATTERN.test(name)) {
+    return `"${name}" is not a valid tool name - use up to 64 letters, digits, _ or -`;
+  }
+  if (!parameters || typeof parameters !== "object" || Array.isArray(parameters)) {
+    return `${name}: parameters must be a JSON schema object`;
+  }
+  if (parameters.type !== "object") {
+    return `${name}: parameters schema must have "type": "object"`;
+  }
+  return null;
+};
+
+export const isFunctionTool = (value: any): value is FunctionTool =>
+  value?.type === "function" && typeof value.function?.name === "string" && validateFunctionTool(value) === null;
+
+/** The result sent for a tool call when the user mocks it - the tool's own mock response, or an echo of the call */
+export const mockToolResult = (toolCall: ToolCall, tools: FunctionTool[]): string => {
+  const tool = tools.find((t) => t.function.name === toolCall.function.name);
+  if (tool?.mockResponse) return tool.mockResponse;
+
+  let args: unknown = toolCall.function.arguments;
+  try {
+    args = JSON.parse(toolCall.function.arguments);
+  } catch {
+    // keep the raw string
+  }
+  return JSON.stringify({ status: "ok", mocked: true, tool: toolCall.function.name, arguments: args });
+};
+
+export const formatToolArguments = (args: string): string => {
+  try {
+    return JSON.stringify(JSON.parse(args), null, 2);
+  } catch {
+    return args;
+  }
+};
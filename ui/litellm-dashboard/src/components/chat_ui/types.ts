@@ -52,7 +52,64 @@ export interface StreamingResponse {
   usage?: Usage;
 }
 
+export interface ToolCall {
+  id: string;
+  type: "function";
+  function: {
+    name: string;
+    arguments: string;
+  };
+}
+
+export interface FunctionTool {
+  type: "function";
+  function: {
+    name: string;
+    description?: string;
+    parameters: Record<string, any>;
+  };
+  mockResponse?: string; // playground only - returned when tool results are auto-mocked, never sent to the model
+}
+
+export interface MessageAttachment {
+  kind: "image" | "audio" | "file";
+  name: string;
+  mimeType: string;
+  dataUrl: string; // base64 data URL, empty when `omitted`
+  omitted?: boolean; // loaded from a saved or shared session, which keep only the name and type
+}
+
+// Raw traffic reported by the llm_calls helpers, shown in the request inspector
+export type InspectorEvent =
+  | { type: "request"; endpoint: string; body: Record<string, any> }
+  | { type: "chunk"; data: unknown }
+  | { type: "response"; data: unknown };
+
+// Result of checking a response against the json_schema response format
+export interface StructuredOutputValidation {
+  valid: boolean;
+  errors: string[];
+}
+
+// Props shared by the playground views for endpoints that aren't a conversation (embeddings, audio, rerank)
+export interface EndpointViewProps {
+  accessToken: string | null;
+  selectedModel?: string;
+  selectedTags: string[];
+  getExtraParams: () => Record<string, any>; // throws when the extra body in the parameter panel isn't valid
+  onInspect: (event: InspectorEvent) => void;
+}
+
+// A chat message in the shape the chat completions API expects
+export interface ApiChatMessage {
+  role: string;
+  content: string | null | Record<string, any>[]; // content parts when the message has attachments
+  tool_calls?: ToolCall[];
+  tool_call_id?: string;
+}
+
 export interface MessageType {
+  id?: string; // stable across branches, see branch_utils
   role: string;
   content: string;
   model?: string;
@@ -66,4 +123,8 @@ export interface MessageType {
     reasoningTokens?: number;
   };
   toolName?: string;
+  toolCalls?: ToolCall[];
+  toolCallId?: string; // set on role: "tool" messages
+  attachments?: MessageAttachment[];
+  structuredOutput?: StructuredOutputValidation;
 } 
\ No newline at end of file
@@ -90,6 +90,13 @@ const FilterComponent: React.FC<FilterComponentProps> = ({
     "Key Hash",
     "Model"
   ];
+  // Filters without a fixed position follow in the order they were passed
+  const filterNames = [
+    ...orderedFilters,
+    ...options
+      .map((option) => option.label || option.name)
+      .filter((name) => !orderedFilters.includes(name)),
+  ];
 
   return (
     <div className="w-full">
@@ -106,7 +113,7 @@ const FilterComponent: React.FC<FilterComponentProps> = ({
 
       {showFilters && (
         <div className="grid grid-cols-3 gap-x-6 gap-y-4 mb-6">
-          {orderedFilters.map((filterName) => {
+          {filterNames.map((filterName) => {
             const option = options.find(
               (opt) => opt.label === filterName || opt.name === filterName
             );
@@ -38,6 +38,7 @@ import {
 import VectorStoreSelector from "./vector_store_management/VectorStoreSelector";
 import PremiumVectorStoreSelector from "./common_components/PremiumVectorStoreSelector";
 import PremiumMCPSelector from "./common_components/PremiumMCPSelector";
+import MCPToolPermissionsEditor from "./mcp_server_management/MCPToolPermissionsEditor";
 import { Team } from "./key_team_helpers/key_list";
 import TeamDropdown from "./common_components/team_dropdown";
 import { InfoCircleOutlined } from '@ant-design/icons';
@@ -344,6 +345,15 @@ const CreateKey: React.FC<CreateKeyProps> = ({
         // Remove the original field as it's now part of object_permission
         delete formValues.allowed_mcp_access_groups;
       }
+
+      // Transform mcp_tool_permissions into object_permission format
+      if (formValues.mcp_tool_permissions && Object.keys(formValues.mcp_tool_permissions).length > 0) {
+        if (!formValues.object_permission) {
+          formValues.object_permission = {};
+        }
+        formValues.object_permission.mcp_tool_permissions = formValues.mcp_tool_permissions;
+      }
+      delete formValues.mcp_tool_permissions;
       let response;
       if (keyOwner === "service_account") {
         response = await keyCreateServiceAccountCall(accessToken, formValues);
@@ -817,6 +827,28 @@ const CreateKey: React.FC<CreateKeyProps> = ({
                         />
                       </Form.Item>
 
+                  {premiumUser && (
+                    <Form.Item
+                      label={
+                        <span>
+                          MCP Tool Permissions{' '}
+                          <Tooltip title="Restrict which tools of an MCP server this key can list and call">
+                            <InfoCircleOutlined style={{ marginLeft: '4px' }} />
+                          </Tooltip>
+                        </span>
+                      }
+                      name="mcp_tool_permissions"
+                      className="mt-4"
+                      help="Allow only specific tools of a server, or deny some of them. All tools are allowed if not set."
+                    >
+                      <MCPToolPermissionsEditor
+                        onChange={val => form.setFieldValue('mcp_tool_permissions', val)}
+                        value={form.getFieldValue('mcp_tool_permissions')}
+                        accessToken={accessToken}
+                      />
+                    </Form.Item>
+                  )}
+
                   <Form.Item 
                     label={
                       <span>
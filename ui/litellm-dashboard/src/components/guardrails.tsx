@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from "react"
-import { Card, Text, Button, Icon, TextInput } from "@tremor/react"
+import { Card, Text, Button, Icon, TextInput, TabGroup, TabList, Tab, TabPanels, TabPanel } from "@tremor/react"
 import { PlusIcon } from "@heroicons/react/outline"
 import { Modal, message } from "antd"
 import { getGuardrailsList, deleteGuardrailCall } from "./networking"
@@ -7,10 +7,15 @@ import AddGuardrailForm from "./guardrails/add_guardrail_form"
 import GuardrailTable from "./guardrails/guardrail_table"
 import { isAdminRole } from "@/utils/roles"
 import GuardrailInfoView from "./guardrails/guardrail_info"
+import GuardrailPolicies from "./guardrails/guardrail_policies"
+import GuardrailAnalytics from "./guardrails/guardrail_analytics"
+import { LogsDrillThrough } from "./view_logs"
 
 interface GuardrailsPanelProps {
   accessToken: string | null
+  userID?: string | null
   userRole?: string
+  onViewLogs?: (drillThrough: LogsDrillThrough) => void
 }
 
 interface GuardrailItem {
@@ -30,7 +35,7 @@ interface GuardrailsResponse {
   guardrails: GuardrailItem[]
 }
 
-const GuardrailsPanel: React.FC<GuardrailsPanelProps> = ({ accessToken, userRole }) => {
+const GuardrailsPanel: React.FC<GuardrailsPanelProps> = ({ accessToken, userID, userRole, onViewLogs }) => {
   const [guardrailsList, setGuardrailsList] = useState<GuardrailItem[]>([])
   const [isAddModalVisible, setIsAddModalVisible] = useState(false)
   const [isLoading, setIsLoading] = useState(false)
@@ -104,30 +109,65 @@ const GuardrailsPanel: React.FC<GuardrailsPanelProps> = ({ accessToken, userRole
 
   return (
     <div className="w-full mx-auto flex-auto overflow-y-auto m-8 p-2">
-      <div className="flex justify-between items-center mb-4">
-        <Button onClick={handleAddGuardrail} disabled={!accessToken}>
-          + Add New Guardrail
-        </Button>
-      </div>
-
-      {selectedGuardrailId ? (
-        <GuardrailInfoView
-          guardrailId={selectedGuardrailId}
-          onClose={() => setSelectedGuardrailId(null)}
-          accessToken={accessToken}
-          isAdmin={isAdmin}
-        />
-      ) : (
-        <GuardrailTable
-          guardrailsList={guardrailsList}
-          isLoading={isLoading}
-          onDeleteClick={handleDeleteClick}
-          accessToken={accessToken}
-          onGuardrailUpdated={fetchGuardrails}
-          isAdmin={isAdmin}
-          onGuardrailClick={(id) => setSelectedGuardrailId(id)}
-        />
-      )}
+      <TabGroup>
+        <TabList className="mb-4">
+          <Tab>Guardrails</Tab>
+          <Tab>Policies</Tab>
+          {isAdmin ? <Tab>Analytics</Tab> : <></>}
+        </TabList>
+        <TabPanels>
+          <TabPanel>
+            <div className="flex justify-between items-center mb-4">
+              <Button onClick={handleAddGuardrail} disabled={!accessToken}>
+                + Add New Guardrail
+              </Button>
+            </div>
+
+            {selectedGuardrailId ? (
+              <GuardrailInfoView
+                guardrailId={selectedGuardrailId}
+                onClose={() => setSelectedGuardrailId(null)}
+                accessToken={accessToken}
+                isAdmin={isAdmin}
+              />
+            ) : (
+              <GuardrailTable
+                guardrailsList={guardrailsList}
+                isLoading={isLoading}
+                onDeleteClick={handleDeleteClick}
+                accessToken={accessToken}
+                onGuardrailUpdated={fetchGuardrails}
+                isAdmin={isAdmin}
+                onGuardrailClick={(id) => setSelectedGuardrailId(id)}
+              />
+            )}
+          </TabPanel>
+          <TabPanel>
+            <GuardrailPolicies
+              accessToken={accessToken}
+              userID={userID}
+              userRole={userRole}
+              isAdmin={isAdmin}
+              guardrailNames={guardrailsList.flatMap((guardrail) =>
+                guardrail.guardrail_name ? [guardrail.guardrail_name] : [],
+              )}
+            />
+          </TabPanel>
+          {isAdmin ? (
+            <TabPanel>
+              <GuardrailAnalytics
+                accessToken={accessToken}
+                guardrailNames={guardrailsList.flatMap((guardrail) =>
+                  guardrail.guardrail_name ? [guardrail.guardrail_name] : [],
+                )}
+                onViewLogs={onViewLogs}
+              />
+            </TabPanel>
+          ) : (
+            <></>
+          )}
+        </TabPanels>
+      </TabGroup>
 
       <AddGuardrailForm
         visible={isAddModalVisible}
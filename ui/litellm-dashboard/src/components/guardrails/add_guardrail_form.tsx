@@ -2,11 +2,13 @@ import React, { useState, useEffect } from 'react';
 import { Card, Form, Typography, Select, Input, Switch, Tooltip, Modal, message, Divider, Space, Tag, Image, Steps } from 'antd';
 import { Button, TextInput } from '@tremor/react';
 import type { FormInstance } from 'antd';
-import { GuardrailProviders, guardrail_provider_map, shouldRenderPIIConfigSettings, guardrailLogoMap, populateGuardrailProviders, populateGuardrailProviderMap, getGuardrailProviders } from './guardrail_info_helpers';
+import { GuardrailProviders, guardrail_provider_map, shouldRenderPIIConfigSettings, shouldRenderCustomRulesConfigSettings, guardrailLogoMap, populateGuardrailProviders, populateGuardrailProviderMap, getGuardrailProviders } from './guardrail_info_helpers';
 import { createGuardrailCall, getGuardrailUISettings, getGuardrailProviderSpecificParams } from '../networking';
 import PiiConfiguration from './pii_configuration';
 import GuardrailProviderFields from './guardrail_provider_fields';
 import GuardrailOptionalParams from './guardrail_optional_params';
+import CustomRulesConfiguration, { getCustomRulesError } from './custom_rules_configuration';
+import { CustomRule } from './types';
 
 const { Title, Text, Link } = Typography;
 const { Option } = Select;
@@ -80,6 +82,7 @@ const AddGuardrailForm: React.FC<AddGuardrailFormProps> = ({
   const [selectedCategories, setSelectedCategories] = useState<string[]>([]);
   const [globalSeverityThreshold, setGlobalSeverityThreshold] = useState<number>(2);
   const [categorySpecificThresholds, setCategorySpecificThresholds] = useState<{[key: string]: number}>({});
+  const [customRules, setCustomRules] = useState<CustomRule[]>([]);
 
   // Fetch guardrail UI settings + provider params on mount / accessToken change
   useEffect(() => {
@@ -125,6 +128,8 @@ const AddGuardrailForm: React.FC<AddGuardrailFormProps> = ({
     setSelectedCategories([]);
     setGlobalSeverityThreshold(2);
     setCategorySpecificThresholds({});
+
+    setCustomRules([]);
   };
 
   const handleEntitySelect = (entity: string) => {
@@ -187,6 +192,11 @@ const AddGuardrailForm: React.FC<AddGuardrailFormProps> = ({
           message.error('Please select at least one PII entity to continue');
           return;
         }
+        const customRulesError = shouldRenderCustomRulesConfigSettings(selectedProvider) && getCustomRulesError(customRules);
+        if (customRulesError) {
+          message.error(customRulesError);
+          return;
+        }
       }
       
       setCurrentStep(currentStep + 1);
@@ -207,6 +217,7 @@ const AddGuardrailForm: React.FC<AddGuardrailFormProps> = ({
     setSelectedCategories([]);
     setGlobalSeverityThreshold(2);
     setCategorySpecificThresholds({});
+    setCustomRules([]);
     setCurrentStep(0);
   };
 
@@ -265,6 +276,9 @@ const AddGuardrailForm: React.FC<AddGuardrailFormProps> = ({
           guardrailData.litellm_params.presidio_anonymizer_api_base = values.presidio_anonymizer_api_base;
         }
       }
+      else if (shouldRenderCustomRulesConfigSettings(values.provider)) {
+        guardrailData.litellm_params.custom_rules = customRules;
+      }
       // Add config values to the guardrail_info if provided
       else if (values.config) {
         try {
@@ -538,6 +552,15 @@ const AddGuardrailForm: React.FC<AddGuardrailFormProps> = ({
         if (shouldRenderPIIConfigSettings(selectedProvider)) {
           return renderPiiConfiguration();
         } 
+        if (shouldRenderCustomRulesConfigSettings(selectedProvider)) {
+          return (
+            <CustomRulesConfiguration
+              accessToken={accessToken}
+              rules={customRules}
+              onRulesChange={setCustomRules}
+            />
+          );
+        }
         return renderOptionalParams();
       default:
         return null;
@@ -600,6 +623,7 @@ const AddGuardrailForm: React.FC<AddGuardrailFormProps> = ({
           <Step title="Basic Info" />
           <Step title={
             shouldRenderPIIConfigSettings(selectedProvider) ? "PII Configuration" :
+            shouldRenderCustomRulesConfigSettings(selectedProvider) ? "Rules" :
             "Provider Configuration"
           } />
         </Steps>
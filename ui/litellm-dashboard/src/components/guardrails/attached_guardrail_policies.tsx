@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from "react"
+import { Card, Title, Text, Badge } from "@tremor/react"
+import { getGuardrailPoliciesList } from "@/components/networking"
+import { GuardrailPolicy, GuardrailPolicyAction } from "./types"
+
+export const POLICY_ACTION_COLORS: Record<GuardrailPolicyAction, string> = {
+  block: "red",
+  mask: "blue",
+  warn: "yellow",
+  log_only: "gray",
+}
+
+/**
+ * Policies that run on requests to `modelName` / with `tagName`.
+ * Conditions aren't evaluated here, so a policy can still be skipped for some keys or teams.
+ */
+export const getAttachedPolicies = (
+  policies: GuardrailPolicy[],
+  target: { modelName?: string; tagName?: string },
+): GuardrailPolicy[] =>
+  policies.filter(
+    (policy) =>
+      policy.default_on ||
+      (target.modelName !== undefined && policy.attached_models.includes(target.modelName)) ||
+      (target.tagName !== undefined && policy.attached_tags.includes(target.tagName)),
+  )
+
+export const PolicyStepsChain = ({ policy }: { policy: GuardrailPolicy }) => (
+  <div className="flex flex-wrap items-center gap-1">
+    {policy.steps.map((step, index) => (
+      <React.Fragment key={`${step.guardrail_name}-${index}`}>
+        {index > 0 && <span className="text-gray-400">→</span>}
+        <Badge color={POLICY_ACTION_COLORS[step.action]} size="xs">
+          {step.guardrail_name} ({step.event_hook}, {step.action})
+        </Badge>
+      </React.Fragment>
+    ))}
+  </div>
+)
+
+interface AttachedGuardrailPoliciesProps {
+  accessToken: string | null
+  modelName?: string
+  tagName?: string
+}
+
+const AttachedGuardrailPolicies: React.FC<AttachedGuardrailPoliciesProps> = ({ accessToken, modelName, tagName }) => {
+  const [policies, setPolicies] = useState<GuardrailPolicy[] | null>(null)
+
+  useEffect(() => {
+    if (!accessToken) return
+    getGuardrailPoliciesList(accessToken)
+      .then((response) => setPolicies(getAttachedPolicies(response.policies, { modelName, tagName })))
+      .catch((error) => console.error("Error fetching guardrail policies:", error))
+  }, [accessToken, modelName, tagName])
+
+  return (
+    <Card>
+      <Title>Guardrail Policies</Title>
+      <Text className="text-gray-500">
+        Run in this order on every request to this {tagName !== undefined ? "tag" : "model"}, when their conditions
+        match. Manage them under Guardrails → Policies.
+      </Text>
+      <div className="space-y-3 mt-4">
+        {policies === null ? (
+          <Text>Loading...</Text>
+        ) : policies.length === 0 ? (
+          <Text className="text-gray-500">No guardrail policies attached</Text>
+        ) : (
+          policies.map((policy) => (
+            <div key={policy.policy_id} className="border rounded p-3">
+              <div className="flex items-center gap-2 mb-2">
+                <Text className="font-medium">{policy.policy_name}</Text>
+                {policy.default_on && (
+                  <Badge color="green" size="xs">
+                    All requests
+                  </Badge>
+                )}
+              </div>
+              <PolicyStepsChain policy={policy} />
+            </div>
+          ))
+        )}
+      </div>
+    </Card>
+  )
+}
+
+export default AttachedGuardrailPolicies
@@ -0,0 +1,330 @@
+import React, { useEffect, useState } from 'react';
+import { Typography, Badge, Button, Card, Input, InputNumber, Select, Switch, Tag, Tooltip, Alert } from 'antd';
+import { ArrowDownOutlined, ArrowUpOutlined, DeleteOutlined, PlusOutlined } from '@ant-design/icons';
+import { previewCustomRulesCall } from '../networking';
+import { CustomRule, CustomRuleAction, CustomRuleType, CustomRulesResult } from './types';
+
+const { Title, Text } = Typography;
+const { TextArea } = Input;
+
+const PREVIEW_DEBOUNCE_MS = 500;
+
+const RULE_TYPES: { value: CustomRuleType; label: string; description: string }[] = [
+  { value: 'regex', label: 'Regex', description: 'Matches a regular expression' },
+  { value: 'keywords', label: 'Keywords', description: 'Matches any of a list of words or phrases' },
+  { value: 'competitors', label: 'Competitor names', description: 'Matches mentions of competitors' },
+  { value: 'max_length', label: 'Max length', description: 'Text is longer than a number of characters' },
+  { value: 'valid_json', label: 'Valid JSON', description: 'Text is not valid JSON' },
+];
+
+const RULE_ACTIONS: { value: CustomRuleAction; label: string }[] = [
+  { value: 'block', label: 'Block' },
+  { value: 'mask', label: 'Mask' },
+  { value: 'flag', label: 'Flag' },
+];
+
+const VERDICT_COLORS: Record<CustomRulesResult['verdict'], string> = {
+  passed: 'green',
+  flagged: 'gold',
+  masked: 'blue',
+  blocked: 'red',
+};
+
+// Length and JSON checks don't match a span of text, so there's nothing to mask
+const canMask = (type: CustomRuleType) => type !== 'max_length' && type !== 'valid_json';
+
+/**
+ * Returns the first problem with the rules, or null if they can be saved
+ */
+export const getCustomRulesError = (rules: CustomRule[]): string | null => {
+  if (rules.length === 0) {
+    return 'Add at least one rule';
+  }
+  for (let index = 0; index < rules.length; index++) {
+    const rule = rules[index];
+    const label = rule.name ? `Rule '${rule.name}'` : `Rule ${index + 1}`;
+    if (!rule.name?.trim()) {
+      return `${label}: name is required`;
+    }
+    if (rule.type === 'regex' && !rule.pattern) {
+      return `${label}: pattern is required`;
+    }
+    if ((rule.type === 'keywords' || rule.type === 'competitors') && !rule.keywords?.length) {
+      return `${label}: add at least one keyword`;
+    }
+    if (rule.type === 'max_length' && !rule.max_length) {
+      return `${label}: max length is required`;
+    }
+  }
+  return null;
+};
+
+interface CustomRulesConfigurationProps {
+  accessToken: string | null;
+  rules: CustomRule[];
+  onRulesChange: (rules: CustomRule[]) => void;
+}
+
+/**
+ * Builder for the rules of a `custom_rules` guardrail, with a live preview against sample text
+ * Used in both add and edit guardrail forms
+ */
+const CustomRulesConfiguration: React.FC<CustomRulesConfigurationProps> = ({
+  accessToken,
+  rules,
+  onRulesChange,
+}) => {
+  const [sampleText, setSampleText] = useState('');
+  const [previewResult, setPreviewResult] = useState<CustomRulesResult | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!accessToken || !sampleText || getCustomRulesError(rules)) {
+      setPreviewResult(null);
+      setPreviewError(null);
+      return;
+    }
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const result = await previewCustomRulesCall(accessToken, rules, sampleText);
+        if (!cancelled) {
+          setPreviewResult(result);
+          setPreviewError(null);
+        }
+      } catch (error) {
+        if (!cancelled) {
+          setPreviewResult(null);
+          setPreviewError(error instanceof Error ? error.message : String(error));
+        }
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [accessToken, rules, sampleText]);
+
+  const updateRule = (index: number, changes: Partial<CustomRule>) => {
+    onRulesChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  const handleTypeChange = (index: number, type: CustomRuleType) => {
+    const rule = rules[index];
+    updateRule(index, {
+      type,
+      action: !canMask(type) && rule.action === 'mask' ? 'block' : rule.action,
+    });
+  };
+
+  const handleAddRule = () => {
+    onRulesChange([...rules, { name: '', type: 'regex', action: 'block' }]);
+  };
+
+  const handleRemoveRule = (index: number) => {
+    onRulesChange(rules.filter((_, i) => i !== index));
+  };
+
+  const handleMoveRule = (index: number, offset: number) => {
+    const updated = [...rules];
+    [updated[index], updated[index + offset]] = [updated[index + offset], updated[index]];
+    onRulesChange(updated);
+  };
+
+  const rulesError = getCustomRulesError(rules);
+
+  return (
+    <div className="custom-rules-configuration">
+      <div className="flex justify-between items-center mb-2">
+        <Title level={4} className="mb-0 font-semibold text-gray-800">Custom Rules</Title>
+        <Badge
+          count={rules.length}
+          showZero
+          style={{ backgroundColor: rules.length > 0 ? '#4f46e5' : '#d9d9d9' }}
+        >
+          <Text className="text-gray-500">{rules.length} rules</Text>
+        </Badge>
+      </div>
+      <Text type="secondary" className="block mb-4">
+        Rules run in order. Masked text is replaced with [REDACTED] before the next rule runs.
+      </Text>
+
+      {rules.map((rule, index) => (
+        <Card
+          key={index}
+          size="small"
+          className="mb-3"
+          title={<Text strong>{rule.name || `Rule ${index + 1}`}</Text>}
+          extra={
+            <div className="flex gap-1">
+              <Tooltip title="Move up">
+                <Button
+                  size="small"
+                  type="text"
+                  icon={<ArrowUpOutlined />}
+                  disabled={index === 0}
+                  onClick={() => handleMoveRule(index, -1)}
+                />
+              </Tooltip>
+              <Tooltip title="Move down">
+                <Button
+                  size="small"
+                  type="text"
+                  icon={<ArrowDownOutlined />}
+                  disabled={index === rules.length - 1}
+                  onClick={() => handleMoveRule(index, 1)}
+                />
+              </Tooltip>
+              <Tooltip title="Delete rule">
+                <Button
+                  size="small"
+                  type="text"
+                  danger
+                  icon={<DeleteOutlined />}
+                  onClick={() => handleRemoveRule(index)}
+                />
+              </Tooltip>
+            </div>
+          }
+        >
+          <div className="grid grid-cols-3 gap-3 mb-3">
+            <div>
+              <Text className="text-xs text-gray-500">Name</Text>
+              <Input
+                placeholder="e.g. employee-id"
+                value={rule.name}
+                onChange={(e) => updateRule(index, { name: e.target.value })}
+              />
+            </div>
+            <div>
+              <Text className="text-xs text-gray-500">Type</Text>
+              <Select
+                className="w-full"
+                value={rule.type}
+                onChange={(value) => handleTypeChange(index, value)}
+                options={RULE_TYPES.map((type) => ({
+                  value: type.value,
+                  label: <Tooltip title={type.description} placement="right">{type.label}</Tooltip>,
+                }))}
+              />
+            </div>
+            <div>
+              <Text className="text-xs text-gray-500">Action</Text>
+              <Select
+                className="w-full"
+                value={rule.action}
+                onChange={(value) => updateRule(index, { action: value })}
+                options={RULE_ACTIONS.map((action) => ({
+                  ...action,
+                  disabled: action.value === 'mask' && !canMask(rule.type),
+                }))}
+              />
+            </div>
+          </div>
+
+          {rule.type === 'regex' && (
+            <div className="mb-3">
+              <Text className="text-xs text-gray-500">Pattern</Text>
+              <Input
+                className="font-mono"
+                placeholder="e.g. EMP-\d{6}"
+                value={rule.pattern ?? ''}
+                onChange={(e) => updateRule(index, { pattern: e.target.value })}
+              />
+            </div>
+          )}
+
+          {(rule.type === 'keywords' || rule.type === 'competitors') && (
+            <div className="mb-3">
+              <Text className="text-xs text-gray-500">
+                {rule.type === 'competitors' ? 'Competitor names' : 'Keywords'}
+              </Text>
+              <Select
+                mode="tags"
+                className="w-full"
+                placeholder="Type and press enter to add"
+                value={rule.keywords ?? []}
+                onChange={(value) => updateRule(index, { keywords: value })}
+                tokenSeparators={[',']}
+                open={false}
+              />
+            </div>
+          )}
+
+          {(rule.type === 'regex' || rule.type === 'keywords' || rule.type === 'competitors') && (
+            <div className="flex items-center gap-2 mb-3">
+              <Switch
+                size="small"
+                checked={!!rule.case_sensitive}
+                onChange={(checked) => updateRule(index, { case_sensitive: checked })}
+              />
+              <Text>Case sensitive</Text>
+            </div>
+          )}
+
+          {rule.type === 'max_length' && (
+            <div className="mb-3">
+              <Text className="text-xs text-gray-500">Max characters</Text>
+              <InputNumber
+                className="w-full"
+                min={1}
+                value={rule.max_length ?? null}
+                onChange={(value) => updateRule(index, { max_length: value })}
+              />
+            </div>
+          )}
+
+          {rule.action === 'block' && (
+            <div>
+              <Text className="text-xs text-gray-500">Error message (optional)</Text>
+              <Input
+                placeholder={`Blocked by rule '${rule.name || `Rule ${index + 1}`}'`}
+                value={rule.error_message ?? ''}
+                onChange={(e) => updateRule(index, { error_message: e.target.value || null })}
+              />
+            </div>
+          )}
+        </Card>
+      ))}
+
+      <Button type="dashed" block icon={<PlusOutlined />} onClick={handleAddRule} className="mb-6">
+        Add rule
+      </Button>
+
+      <Title level={5}>Live Preview</Title>
+      <TextArea
+        rows={3}
+        placeholder="Enter sample text to see how the rules handle it"
+        value={sampleText}
+        onChange={(e) => setSampleText(e.target.value)}
+        className="mb-3"
+      />
+      {sampleText && rulesError && (
+        <Text type="secondary">{rulesError} to see a preview</Text>
+      )}
+      {previewError && <Alert type="error" showIcon message={previewError} />}
+      {previewResult && (
+        <div className="space-y-2">
+          <div>
+            <Tag color={VERDICT_COLORS[previewResult.verdict]}>{previewResult.verdict.toUpperCase()}</Tag>
+            {previewResult.error && <Text type="danger">{previewResult.error}</Text>}
+          </div>
+          {previewResult.output_text != null && previewResult.verdict === 'masked' && (
+            <div className="p-2 bg-gray-50 rounded font-mono text-sm whitespace-pre-wrap">
+              {previewResult.output_text}
+            </div>
+          )}
+          {previewResult.matches.map((match, index) => (
+            <div key={`${match.rule_name}-${index}`} className="text-sm">
+              <Text strong>{match.rule_name}</Text>{' '}
+              <Tag>{match.action}</Tag>
+              <Text type="secondary">{match.matches.join(', ')}</Text>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomRulesConfiguration;
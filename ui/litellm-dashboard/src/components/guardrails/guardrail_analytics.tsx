@@ -0,0 +1,326 @@
+import React, { useState } from "react"
+import moment from "moment"
+import { useQuery } from "@tanstack/react-query"
+import {
+  BarChart,
+  Button,
+  Card,
+  DateRangePickerValue,
+  Grid,
+  Select,
+  SelectItem,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeaderCell,
+  TableRow,
+  Text,
+  Title,
+} from "@tremor/react"
+import { getGuardrailAnalytics } from "@/components/networking"
+import UsageDatePicker from "@/components/shared/usage_date_picker"
+import { LogsDrillThrough } from "@/components/view_logs"
+import { LogFilterState } from "@/components/view_logs/log_filter_logic"
+import { formatNumberWithCommas } from "@/utils/dataUtils"
+import { GuardrailAnalyticsResponse, GuardrailAnalyticsTriggerSource } from "./types"
+
+// Guardrails blocking more often than this are highlighted
+const BLOCK_RATE_WARNING_THRESHOLD = 0.1
+const TOP_ENTITY_TYPES_SHOWN = 10
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`
+
+const formatLatency = (latencyMs: number) =>
+  latencyMs < 1000 ? `${Math.round(latencyMs)} ms` : `${(latencyMs / 1000).toFixed(2)} s`
+
+/**
+ * The proxy groups guardrail runs by UTC day, so drill-throughs cover whole UTC days in the logs' local time
+ */
+const getLogsTimeRange = (startDate: string, endDate: string) => ({
+  startTime: moment.utc(startDate).startOf("day").local().format("YYYY-MM-DDTHH:mm"),
+  endTime: moment.utc(endDate).endOf("day").local().format("YYYY-MM-DDTHH:mm"),
+})
+
+const ViewLogsButton = ({ onClick }: { onClick?: () => void }) =>
+  onClick ? (
+    <Button variant="light" size="xs" onClick={onClick}>
+      View logs
+    </Button>
+  ) : null
+
+interface TriggerSourceTableProps {
+  title: string
+  sources: GuardrailAnalyticsTriggerSource[]
+  onViewLogs?: (source: GuardrailAnalyticsTriggerSource) => void
+}
+
+const TriggerSourceTable = ({ title, sources, onViewLogs }: TriggerSourceTableProps) => (
+  <Card>
+    <Title>{title}</Title>
+    {sources.length === 0 ? (
+      <Text className="text-gray-500 mt-2">No blocked or masked requests.</Text>
+    ) : (
+      <Table className="mt-2">
+        <TableHead>
+          <TableRow>
+            <TableHeaderCell>Name</TableHeaderCell>
+            <TableHeaderCell className="text-right">Blocked</TableHeaderCell>
+            <TableHeaderCell className="text-right">Masked</TableHeaderCell>
+            <TableHeaderCell></TableHeaderCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {sources.map((source) => (
+            <TableRow key={source.id ?? "unknown"}>
+              <TableCell>
+                <Text className="font-medium">{source.alias || "-"}</Text>
+                <Text className="text-xs text-gray-500 font-mono truncate max-w-[200px]">{source.id || "Unknown"}</Text>
+              </TableCell>
+              <TableCell className="text-right">{formatNumberWithCommas(source.blocked)}</TableCell>
+              <TableCell className="text-right">{formatNumberWithCommas(source.masked)}</TableCell>
+              <TableCell className="text-right">
+                <ViewLogsButton onClick={onViewLogs && source.id ? () => onViewLogs(source) : undefined} />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    )}
+  </Card>
+)
+
+interface GuardrailAnalyticsProps {
+  accessToken: string | null
+  guardrailNames: string[]
+  onViewLogs?: (drillThrough: LogsDrillThrough) => void
+}
+
+const GuardrailAnalytics: React.FC<GuardrailAnalyticsProps> = ({ accessToken, guardrailNames, onViewLogs }) => {
+  const [dateValue, setDateValue] = useState<DateRangePickerValue>({
+    from: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+    to: new Date(),
+  })
+  const [selectedGuardrail, setSelectedGuardrail] = useState("")
+
+  const { data, isLoading, error } = useQuery<GuardrailAnalyticsResponse>({
+    queryKey: ["guardrailAnalytics", dateValue.from?.toISOString(), dateValue.to?.toISOString(), selectedGuardrail],
+    queryFn: () => {
+      if (!accessToken || !dateValue.from || !dateValue.to) throw new Error("Access Token and date range required")
+      return getGuardrailAnalytics(accessToken, dateValue.from, dateValue.to, selectedGuardrail || undefined)
+    },
+    enabled: !!accessToken && !!dateValue.from && !!dateValue.to,
+  })
+
+  const viewLogs = onViewLogs
+    ? (filters: Partial<LogFilterState>, startDate?: string, endDate?: string) =>
+        onViewLogs({
+          filters: selectedGuardrail && !filters.Guardrail ? { Guardrail: selectedGuardrail, ...filters } : filters,
+          ...getLogsTimeRange(
+            startDate ?? moment(dateValue.from).format("YYYY-MM-DD"),
+            endDate ?? startDate ?? moment(dateValue.to).format("YYYY-MM-DD"),
+          ),
+        })
+    : undefined
+
+  const dailyData = Object.values(
+    (data?.daily || []).reduce<Record<string, { date: string; Blocked: number; Masked: number; Passed: number }>>(
+      (days, day) => {
+        const totals = days[day.date] || { date: day.date, Blocked: 0, Masked: 0, Passed: 0 }
+        totals.Blocked += day.blocked
+        totals.Masked += day.masked
+        totals.Passed += day.total_runs - day.blocked - day.masked
+        days[day.date] = totals
+        return days
+      },
+      {},
+    ),
+  )
+
+  const totalRuns = (data?.summary || []).reduce((sum, item) => sum + item.total_runs, 0)
+  const totalBlocked = (data?.summary || []).reduce((sum, item) => sum + item.blocked, 0)
+  const totalMasked = (data?.summary || []).reduce((sum, item) => sum + item.masked, 0)
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <div className="flex justify-between items-start">
+          <div>
+            <Title>Guardrail Analytics</Title>
+            <Text className="text-gray-500">
+              Blocked requests failed a guardrail. Masked requests went through after entities were masked.
+            </Text>
+          </div>
+          <div className="flex items-end gap-2">
+            <Select
+              className="w-48"
+              value={selectedGuardrail}
+              onValueChange={setSelectedGuardrail}
+              placeholder="All guardrails"
+            >
+              {guardrailNames.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {name}
+                </SelectItem>
+              ))}
+            </Select>
+            <UsageDatePicker value={dateValue} onValueChange={setDateValue} label="" showTimeRange={false} />
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            <Text className="ml-3">Loading guardrail analytics...</Text>
+          </div>
+        ) : error ? (
+          <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <Text className="text-red-700">{error instanceof Error ? error.message : String(error)}</Text>
+          </div>
+        ) : !data || data.summary.length === 0 ? (
+          <Text className="text-gray-500 py-4">No guardrail runs in this time range.</Text>
+        ) : (
+          <>
+            <Grid numItems={3} className="gap-4 mt-4">
+              <div>
+                <Text>Runs</Text>
+                <Title>{formatNumberWithCommas(totalRuns)}</Title>
+              </div>
+              <div>
+                <Text>Blocked</Text>
+                <Title>
+                  {formatNumberWithCommas(totalBlocked)} ({formatPercent(totalRuns ? totalBlocked / totalRuns : 0)})
+                </Title>
+              </div>
+              <div>
+                <Text>Masked</Text>
+                <Title>
+                  {formatNumberWithCommas(totalMasked)} ({formatPercent(totalRuns ? totalMasked / totalRuns : 0)})
+                </Title>
+              </div>
+            </Grid>
+            <BarChart
+              className="h-64 mt-4"
+              data={dailyData}
+              index="date"
+              categories={["Blocked", "Masked", "Passed"]}
+              colors={["red", "blue", "gray"]}
+              stack
+              valueFormatter={(value) => formatNumberWithCommas(value)}
+              onValueChange={(event) => event && viewLogs?.({}, event.date as string)}
+            />
+            {viewLogs && <Text className="text-xs text-gray-500 mt-1">Click a day to see its requests in the logs.</Text>}
+          </>
+        )}
+      </Card>
+
+      {data && data.summary.length > 0 && (
+        <>
+          <Card>
+            <Title>By Guardrail</Title>
+            <Table className="mt-2">
+              <TableHead>
+                <TableRow>
+                  <TableHeaderCell>Guardrail</TableHeaderCell>
+                  <TableHeaderCell className="text-right">Runs</TableHeaderCell>
+                  <TableHeaderCell className="text-right">Blocked</TableHeaderCell>
+                  <TableHeaderCell className="text-right">Masked</TableHeaderCell>
+                  <TableHeaderCell className="text-right">Trigger Rate</TableHeaderCell>
+                  <TableHeaderCell></TableHeaderCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {data.summary.map((item) => (
+                  <TableRow key={item.guardrail_name}>
+                    <TableCell className="font-medium">{item.guardrail_name}</TableCell>
+                    <TableCell className="text-right">{formatNumberWithCommas(item.total_runs)}</TableCell>
+                    <TableCell
+                      className={`text-right ${item.block_rate > BLOCK_RATE_WARNING_THRESHOLD ? "text-red-600 font-medium" : ""}`}
+                    >
+                      {formatNumberWithCommas(item.blocked)} ({formatPercent(item.block_rate)})
+                    </TableCell>
+                    <TableCell className="text-right">{formatNumberWithCommas(item.masked)}</TableCell>
+                    <TableCell className="text-right">{formatPercent(item.trigger_rate)}</TableCell>
+                    <TableCell className="text-right">
+                      <ViewLogsButton onClick={viewLogs && (() => viewLogs({ Guardrail: item.guardrail_name }))} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Card>
+
+          <Grid numItems={1} numItemsLg={2} className="gap-4">
+            <Card>
+              <Title>Latency</Title>
+              <Table className="mt-2">
+                <TableHead>
+                  <TableRow>
+                    <TableHeaderCell>Guardrail</TableHeaderCell>
+                    <TableHeaderCell>Mode</TableHeaderCell>
+                    <TableHeaderCell className="text-right">Avg</TableHeaderCell>
+                    <TableHeaderCell className="text-right">p95</TableHeaderCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {data.latency.map((item) => (
+                    <TableRow key={`${item.guardrail_name}-${item.guardrail_mode}`}>
+                      <TableCell className="font-medium">{item.guardrail_name}</TableCell>
+                      <TableCell>{item.guardrail_mode || "-"}</TableCell>
+                      <TableCell className="text-right">{formatLatency(item.avg_latency_ms)}</TableCell>
+                      <TableCell className="text-right">{formatLatency(item.p95_latency_ms)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Card>
+
+            <Card>
+              <Title>Detected Entity Types</Title>
+              {data.entity_types.length === 0 ? (
+                <Text className="text-gray-500 mt-2">No entities were masked.</Text>
+              ) : (
+                <Table className="mt-2">
+                  <TableHead>
+                    <TableRow>
+                      <TableHeaderCell>Entity Type</TableHeaderCell>
+                      <TableHeaderCell>Guardrail</TableHeaderCell>
+                      <TableHeaderCell className="text-right">Count</TableHeaderCell>
+                      <TableHeaderCell></TableHeaderCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {data.entity_types.slice(0, TOP_ENTITY_TYPES_SHOWN).map((item) => (
+                      <TableRow key={`${item.guardrail_name}-${item.entity_type}`}>
+                        <TableCell className="font-mono text-sm">{item.entity_type}</TableCell>
+                        <TableCell>{item.guardrail_name}</TableCell>
+                        <TableCell className="text-right">{formatNumberWithCommas(item.count)}</TableCell>
+                        <TableCell className="text-right">
+                          <ViewLogsButton onClick={viewLogs && (() => viewLogs({ Guardrail: item.guardrail_name }))} />
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </Card>
+
+            {/* drill-throughs from keys / teams show their blocked requests */}
+            <TriggerSourceTable
+              title="Top Keys"
+              sources={data.top_keys}
+              onViewLogs={viewLogs && ((source) => viewLogs({ "Key Hash": source.id!, Status: "failure" }))}
+            />
+            <TriggerSourceTable
+              title="Top Teams"
+              sources={data.top_teams}
+              onViewLogs={viewLogs && ((source) => viewLogs({ "Team ID": source.id!, Status: "failure" }))}
+            />
+          </Grid>
+        </>
+      )}
+    </div>
+  )
+}
+
+export default GuardrailAnalytics
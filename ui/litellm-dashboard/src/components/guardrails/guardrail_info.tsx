@@ -25,6 +25,10 @@ import { getGuardrailLogoAndName, guardrail_provider_map } from "./guardrail_inf
 import PiiConfiguration from "./pii_configuration"
 import GuardrailProviderFields from "./guardrail_provider_fields"
 import GuardrailOptionalParams from "./guardrail_optional_params"
+import GuardrailTestPanel from "./guardrail_test_panel"
+import { getSavedTestCases, omitTestCases } from "./guardrail_test_cases"
+import CustomRulesConfiguration, { getCustomRulesError } from "./custom_rules_configuration"
+import { CustomRule, GuardrailTestCase } from "./types"
 import { ArrowLeftIcon } from "@heroicons/react/outline"
 import { copyToClipboard as utilCopyToClipboard } from "@/utils/dataUtils"
 import { CheckIcon, CopyIcon } from "lucide-react"
@@ -60,6 +64,8 @@ const GuardrailInfoView: React.FC<GuardrailInfoProps> = ({ guardrailId, onClose,
   const [form] = Form.useForm()
   const [selectedPiiEntities, setSelectedPiiEntities] = useState<string[]>([])
   const [selectedPiiActions, setSelectedPiiActions] = useState<{ [key: string]: string }>({})
+  const [customRules, setCustomRules] = useState<CustomRule[]>([])
+  const [savedTestCases, setSavedTestCases] = useState<GuardrailTestCase[]>([])
   const [guardrailSettings, setGuardrailSettings] = useState<{
     supported_entities: string[]
     supported_actions: string[]
@@ -75,7 +81,9 @@ const GuardrailInfoView: React.FC<GuardrailInfoProps> = ({ guardrailId, onClose,
       setLoading(true)
       if (!accessToken) return
       const response = await getGuardrailInfo(accessToken, guardrailId)
-      setGuardrailData(response)
+      // Test cases are managed in the Test tab, not shown / edited with the rest of guardrail_info
+      setGuardrailData({ ...response, guardrail_info: omitTestCases(response.guardrail_info) })
+      setSavedTestCases(getSavedTestCases(response.guardrail_info))
 
       // Initialize PII configuration from guardrail data
       if (response.litellm_params?.pii_entities_config) {
@@ -103,6 +111,8 @@ const GuardrailInfoView: React.FC<GuardrailInfoProps> = ({ guardrailId, onClose,
         setSelectedPiiEntities([])
         setSelectedPiiActions({})
       }
+
+      setCustomRules(response.litellm_params?.custom_rules || [])
     } catch (error) {
       message.error("Failed to load guardrail information")
       console.error("Error fetching guardrail info:", error)
@@ -211,6 +221,18 @@ const GuardrailInfoView: React.FC<GuardrailInfoProps> = ({ guardrailId, onClose,
         updateData.litellm_params.pii_entities_config = newPiiEntitiesConfig
       }
 
+      // Only add custom rules if there are changes
+      if (guardrailData.litellm_params?.guardrail === "custom_rules") {
+        const customRulesError = getCustomRulesError(customRules)
+        if (customRulesError) {
+          message.error(customRulesError)
+          return
+        }
+        if (JSON.stringify(guardrailData.litellm_params?.custom_rules || []) !== JSON.stringify(customRules)) {
+          updateData.litellm_params.custom_rules = customRules
+        }
+      }
+
       /******************************
        * Add provider-specific params (reusing logic from add_guardrail_form.tsx)
        * ----------------------------------
@@ -355,6 +377,7 @@ const GuardrailInfoView: React.FC<GuardrailInfoProps> = ({ guardrailId, onClose,
       <TabGroup>
         <TabList className="mb-4">
           <Tab key="overview">Overview</Tab>
+          {isAdmin ? <Tab key="test">Test</Tab> : <></>}
           {isAdmin ? <Tab key="settings">Settings</Tab> : <></>}
         </TabList>
 
@@ -411,6 +434,15 @@ const GuardrailInfoView: React.FC<GuardrailInfoProps> = ({ guardrailId, onClose,
                 </Card>
               )}
 
+            {guardrailData.litellm_params?.custom_rules?.length > 0 && (
+              <Card className="mt-6">
+                <div className="flex justify-between items-center">
+                  <Text className="font-medium">Custom Rules</Text>
+                  <Badge color="blue">{guardrailData.litellm_params.custom_rules.length} rules configured</Badge>
+                </div>
+              </Card>
+            )}
+
             {guardrailData.guardrail_info && Object.keys(guardrailData.guardrail_info).length > 0 && (
               <Card className="mt-6">
                 <Text>Guardrail Info</Text>
@@ -428,6 +460,19 @@ const GuardrailInfoView: React.FC<GuardrailInfoProps> = ({ guardrailId, onClose,
             )}
           </TabPanel>
 
+          {/* Test Panel (only for admins) */}
+          {isAdmin && (
+            <TabPanel>
+              <GuardrailTestPanel
+                guardrailId={guardrailId}
+                guardrailProvider={guardrailData.litellm_params?.guardrail}
+                configuredMode={guardrailData.litellm_params?.mode}
+                savedTestCases={savedTestCases}
+                accessToken={accessToken}
+              />
+            </TabPanel>
+          )}
+
           {/* Settings Panel (only for admins) */}
           {isAdmin && (
             <TabPanel>
@@ -488,6 +533,19 @@ const GuardrailInfoView: React.FC<GuardrailInfoProps> = ({ guardrailId, onClose,
                       </>
                     )}
 
+                    {guardrailData.litellm_params?.guardrail === "custom_rules" && (
+                      <>
+                        <Divider orientation="left">Custom Rules</Divider>
+                        <div className="mb-6">
+                          <CustomRulesConfiguration
+                            accessToken={accessToken}
+                            rules={customRules}
+                            onRulesChange={setCustomRules}
+                          />
+                        </div>
+                      </>
+                    )}
+
                     <Divider orientation="left">Provider Settings</Divider>
 
                     {/* Provider-specific fields */}
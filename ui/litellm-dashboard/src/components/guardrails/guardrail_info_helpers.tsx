@@ -84,6 +84,16 @@ export const shouldRenderAzureTextModerationConfigSettings = (provider: string |
     return providerEnum === "Azure Content Safety Text Moderation";
 };
 
+// Decides if we should render the rule builder for a given provider
+export const shouldRenderCustomRulesConfigSettings = (provider: string | null) => {
+    if (!provider) {
+        return false;
+    }
+    const currentProviders = getGuardrailProviders();
+    const providerEnum = currentProviders[provider as keyof typeof currentProviders];
+    return providerEnum === "Custom Rules";
+};
+
 const asset_logos_folder = '../ui/assets/logos/';
 
 export const guardrailLogoMap: Record<string, string> = {
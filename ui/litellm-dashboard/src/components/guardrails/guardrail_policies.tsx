@@ -0,0 +1,482 @@
+import React, { useEffect, useState } from "react"
+import { Card, Title, Text, Badge, Button as TremorButton } from "@tremor/react"
+import { Button, Form, Input, Modal, Select, Switch, Table, Tooltip, message } from "antd"
+import { ArrowDownOutlined, ArrowUpOutlined, DeleteOutlined, EditOutlined, PlusOutlined } from "@ant-design/icons"
+import {
+  createGuardrailPolicyCall,
+  deleteGuardrailPolicyCall,
+  getGuardrailPoliciesList,
+  tagListCall,
+  teamListCall,
+  updateGuardrailPolicyCall,
+} from "@/components/networking"
+import { fetchUserModels } from "@/components/create_key_button"
+import { PolicyStepsChain } from "./attached_guardrail_policies"
+import { GuardrailPolicy, GuardrailPolicyAction, GuardrailPolicyStep } from "./types"
+
+const ACTION_OPTIONS: { value: GuardrailPolicyAction; label: string }[] = [
+  { value: "block", label: "block - reject the request, stop the chain" },
+  { value: "mask", label: "mask - apply the guardrail's changes, never reject" },
+  { value: "warn", label: "warn - flag in the x-litellm-guardrail-warnings header" },
+  { value: "log_only", label: "log_only - only record the result" },
+]
+
+const EVENT_HOOK_OPTIONS = [
+  { value: "pre_call", label: "pre_call - user input" },
+  { value: "post_call", label: "post_call - LLM output" },
+]
+
+interface PolicyFormValues {
+  policy_name: string
+  description?: string
+  steps: GuardrailPolicyStep[]
+  default_on: boolean
+  attached_models: string[]
+  attached_tags: string[]
+  condition_models: string[]
+  condition_tags: string[]
+  condition_team_ids: string[]
+  condition_key_metadata?: string
+}
+
+const toFormValues = (policy: GuardrailPolicy | null): PolicyFormValues => ({
+  policy_name: policy?.policy_name ?? "",
+  description: policy?.description ?? undefined,
+  // a new policy starts with one empty step, the guardrail is picked in the form
+  steps: policy?.steps ?? [{ event_hook: "pre_call", action: "block" } as GuardrailPolicyStep],
+  default_on: policy?.default_on ?? false,
+  attached_models: policy?.attached_models ?? [],
+  attached_tags: policy?.attached_tags ?? [],
+  condition_models: policy?.conditions.models ?? [],
+  condition_tags: policy?.conditions.tags ?? [],
+  condition_team_ids: policy?.conditions.team_ids ?? [],
+  condition_key_metadata:
+    policy?.conditions.key_metadata && Object.keys(policy.conditions.key_metadata).length > 0
+      ? JSON.stringify(policy.conditions.key_metadata, null, 2)
+      : undefined,
+})
+
+const toPolicy = (values: PolicyFormValues): GuardrailPolicy => {
+  const emptyToNull = (list: string[] | undefined) => (list && list.length > 0 ? list : null)
+  return {
+    policy_name: values.policy_name,
+    description: values.description || null,
+    steps: values.steps,
+    default_on: values.default_on,
+    attached_models: values.attached_models ?? [],
+    attached_tags: values.attached_tags ?? [],
+    conditions: {
+      models: emptyToNull(values.condition_models),
+      tags: emptyToNull(values.condition_tags),
+      team_ids: emptyToNull(values.condition_team_ids),
+      key_metadata: values.condition_key_metadata ? JSON.parse(values.condition_key_metadata) : null,
+    },
+  }
+}
+
+const describeConditions = (policy: GuardrailPolicy): string[] => {
+  const { models, tags, team_ids, key_metadata } = policy.conditions
+  const descriptions: string[] = []
+  if (models && models.length > 0) descriptions.push(`model in ${models.join(", ")}`)
+  if (tags && tags.length > 0) descriptions.push(`tag in ${tags.join(", ")}`)
+  if (team_ids && team_ids.length > 0) descriptions.push(`team in ${team_ids.join(", ")}`)
+  if (key_metadata) {
+    Object.entries(key_metadata).forEach(([field, value]) =>
+      descriptions.push(`key metadata ${field} = ${JSON.stringify(value)}`),
+    )
+  }
+  return descriptions
+}
+
+interface PolicyFormModalProps {
+  open: boolean
+  policy: GuardrailPolicy | null // null when creating
+  guardrailNames: string[]
+  modelOptions: string[]
+  tagOptions: string[]
+  teamOptions: { value: string; label: string }[]
+  onCancel: () => void
+  onSubmit: (policy: GuardrailPolicy) => Promise<void>
+}
+
+const PolicyFormModal: React.FC<PolicyFormModalProps> = ({
+  open,
+  policy,
+  guardrailNames,
+  modelOptions,
+  tagOptions,
+  teamOptions,
+  onCancel,
+  onSubmit,
+}) => {
+  const [form] = Form.useForm<PolicyFormValues>()
+  const [isSaving, setIsSaving] = useState(false)
+
+  const handleOk = async () => {
+    const values = await form.validateFields()
+    setIsSaving(true)
+    try {
+      await onSubmit(toPolicy(values))
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const toOptions = (values: string[]) => values.map((value) => ({ value, label: value }))
+
+  return (
+    <Modal
+      title={policy ? `Edit Policy: ${policy.policy_name}` : "Add Guardrail Policy"}
+      open={open}
+      onCancel={onCancel}
+      onOk={handleOk}
+      confirmLoading={isSaving}
+      okText={policy ? "Save Changes" : "Create Policy"}
+      width={800}
+      destroyOnClose
+    >
+      <Form form={form} layout="vertical" initialValues={toFormValues(policy)} preserve={false}>
+        <Form.Item label="Policy Name" name="policy_name" rules={[{ required: true, message: "Please enter a name" }]}>
+          <Input placeholder="e.g. prod-pii" />
+        </Form.Item>
+        <Form.Item label="Description" name="description">
+          <Input.TextArea rows={2} />
+        </Form.Item>
+
+        <Text className="font-medium">Steps</Text>
+        <Text className="text-gray-500 text-xs mb-2">Run top to bottom. A blocking step stops the chain.</Text>
+        <Form.List
+          name="steps"
+          rules={[
+            {
+              validator: async (_, steps) => {
+                if (!steps || steps.length === 0) throw new Error("Add at least one step")
+              },
+            },
+          ]}
+        >
+          {(fields, { add, remove, move }, { errors }) => (
+            <div className="space-y-2 mb-4">
+              {fields.map((field, index) => (
+                <div key={field.key} className="flex items-start gap-2 border rounded p-2 bg-gray-50">
+                  <span className="text-gray-500 text-sm pt-1 w-5">{index + 1}.</span>
+                  <Form.Item
+                    name={[field.name, "guardrail_name"]}
+                    rules={[{ required: true, message: "Select a guardrail" }]}
+                    className="flex-1 mb-0"
+                  >
+                    <Select placeholder="Guardrail" options={toOptions(guardrailNames)} showSearch />
+                  </Form.Item>
+                  <Form.Item name={[field.name, "event_hook"]} className="w-44 mb-0">
+                    <Select options={EVENT_HOOK_OPTIONS} />
+                  </Form.Item>
+                  <Form.Item name={[field.name, "action"]} className="w-52 mb-0">
+                    <Select options={ACTION_OPTIONS} popupMatchSelectWidth={false} />
+                  </Form.Item>
+                  <Button
+                    icon={<ArrowUpOutlined />}
+                    size="small"
+                    disabled={index === 0}
+                    onClick={() => move(index, index - 1)}
+                  />
+                  <Button
+                    icon={<ArrowDownOutlined />}
+                    size="small"
+                    disabled={index === fields.length - 1}
+                    onClick={() => move(index, index + 1)}
+                  />
+                  <Button icon={<DeleteOutlined />} size="small" danger onClick={() => remove(field.name)} />
+                </div>
+              ))}
+              <Button
+                type="dashed"
+                icon={<PlusOutlined />}
+                onClick={() => add({ guardrail_name: undefined, event_hook: "pre_call", action: "block" })}
+                block
+              >
+                Add Step
+              </Button>
+              <Form.ErrorList errors={errors} />
+            </div>
+          )}
+        </Form.List>
+
+        <Text className="font-medium">Attach To</Text>
+        <Form.Item
+          label="Run on all requests"
+          name="default_on"
+          valuePropName="checked"
+          tooltip="Run on every request, not only on the models and tags below"
+          className="mt-2"
+        >
+          <Switch />
+        </Form.Item>
+        <Form.Item label="Models" name="attached_models">
+          <Select mode="tags" placeholder="Model names" options={toOptions(modelOptions)} />
+        </Form.Item>
+        <Form.Item label="Tags" name="attached_tags">
+          <Select mode="tags" placeholder="Request tags" options={toOptions(tagOptions)} />
+        </Form.Item>
+
+        <Text className="font-medium">Conditions</Text>
+        <Text className="text-gray-500 text-xs mb-2">Only run when every condition that is set matches. Leave empty to always run.</Text>
+        <Form.Item label="Model is one of" name="condition_models">
+          <Select mode="tags" placeholder="Any model" options={toOptions(modelOptions)} />
+        </Form.Item>
+        <Form.Item label="Request has a tag from" name="condition_tags">
+          <Select mode="tags" placeholder="Any tag" options={toOptions(tagOptions)} />
+        </Form.Item>
+        <Form.Item label="Team is one of" name="condition_team_ids">
+          <Select mode="tags" placeholder="Any team" options={teamOptions} optionFilterProp="label" />
+        </Form.Item>
+        <Form.Item
+          label="Key metadata matches"
+          name="condition_key_metadata"
+          tooltip='Values the key metadata must have, e.g. {"environment": "prod"}'
+          rules={[
+            {
+              validator: async (_, value) => {
+                if (!value) return
+                let parsed
+                try {
+                  parsed = JSON.parse(value)
+                } catch (error) {
+                  throw new Error("Invalid JSON")
+                }
+                if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+                  throw new Error("Must be a JSON object")
+                }
+              },
+            },
+          ]}
+        >
+          <Input.TextArea rows={3} placeholder='{"environment": "prod"}' className="font-mono" />
+        </Form.Item>
+      </Form>
+    </Modal>
+  )
+}
+
+interface GuardrailPoliciesProps {
+  accessToken: string | null
+  userID?: string | null
+  userRole?: string
+  isAdmin: boolean
+  guardrailNames: string[]
+}
+
+const GuardrailPolicies: React.FC<GuardrailPoliciesProps> = ({
+  accessToken,
+  userID,
+  userRole,
+  isAdmin,
+  guardrailNames,
+}) => {
+  const [policies, setPolicies] = useState<GuardrailPolicy[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [editingPolicy, setEditingPolicy] = useState<GuardrailPolicy | null>(null)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [modelOptions, setModelOptions] = useState<string[]>([])
+  const [tagOptions, setTagOptions] = useState<string[]>([])
+  const [teamOptions, setTeamOptions] = useState<{ value: string; label: string }[]>([])
+
+  const fetchPolicies = async () => {
+    if (!accessToken) return
+    setIsLoading(true)
+    try {
+      const response = await getGuardrailPoliciesList(accessToken)
+      setPolicies(response.policies)
+    } catch (error) {
+      console.error("Error fetching guardrail policies:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPolicies()
+  }, [accessToken])
+
+  useEffect(() => {
+    if (!accessToken || !isAdmin) return
+    if (userID && userRole) {
+      fetchUserModels(userID, userRole, accessToken, setModelOptions)
+    }
+    tagListCall(accessToken)
+      .then((tags) => setTagOptions(Object.keys(tags)))
+      .catch((error) => console.error("Error fetching tags:", error))
+    teamListCall(accessToken, null)
+      .then((teams) =>
+        setTeamOptions(
+          (teams || []).map((team: { team_id: string; team_alias?: string }) => ({
+            value: team.team_id,
+            label: team.team_alias ? `${team.team_alias} (${team.team_id})` : team.team_id,
+          })),
+        ),
+      )
+      .catch((error) => console.error("Error fetching teams:", error))
+  }, [accessToken, isAdmin, userID, userRole])
+
+  const openForm = (policy: GuardrailPolicy | null) => {
+    setEditingPolicy(policy)
+    setIsFormOpen(true)
+  }
+
+  const handleSubmit = async (policy: GuardrailPolicy) => {
+    if (!accessToken) return
+    try {
+      if (editingPolicy?.policy_id) {
+        await updateGuardrailPolicyCall(accessToken, editingPolicy.policy_id, policy)
+        message.success(`Policy "${policy.policy_name}" updated`)
+      } else {
+        await createGuardrailPolicyCall(accessToken, policy)
+        message.success(`Policy "${policy.policy_name}" created`)
+      }
+      setIsFormOpen(false)
+      fetchPolicies()
+    } catch (error) {
+      console.error("Error saving guardrail policy:", error)
+      message.error("Failed to save guardrail policy")
+    }
+  }
+
+  const handleDelete = (policy: GuardrailPolicy) => {
+    Modal.confirm({
+      title: "Delete Guardrail Policy",
+      content: `Are you sure you want to delete policy: ${policy.policy_name}? Its guardrails stop running on the attached models and tags.`,
+      okText: "Delete",
+      okButtonProps: { danger: true },
+      onOk: async () => {
+        if (!accessToken || !policy.policy_id) return
+        try {
+          await deleteGuardrailPolicyCall(accessToken, policy.policy_id)
+          message.success(`Policy "${policy.policy_name}" deleted`)
+          fetchPolicies()
+        } catch (error) {
+          console.error("Error deleting guardrail policy:", error)
+          message.error("Failed to delete guardrail policy")
+        }
+      },
+    })
+  }
+
+  const columns = [
+    {
+      title: "Policy",
+      key: "policy_name",
+      render: (_: unknown, policy: GuardrailPolicy) => (
+        <div>
+          <Text className="font-medium">{policy.policy_name}</Text>
+          {policy.description && <Text className="text-gray-500 text-xs">{policy.description}</Text>}
+        </div>
+      ),
+    },
+    {
+      title: "Steps",
+      key: "steps",
+      render: (_: unknown, policy: GuardrailPolicy) => <PolicyStepsChain policy={policy} />,
+    },
+    {
+      title: "Attached To",
+      key: "attached_to",
+      render: (_: unknown, policy: GuardrailPolicy) => (
+        <div className="flex flex-wrap gap-1">
+          {policy.default_on && (
+            <Badge color="green" size="xs">
+              All requests
+            </Badge>
+          )}
+          {policy.attached_models.map((model) => (
+            <Badge key={`model-${model}`} color="blue" size="xs">
+              {model}
+            </Badge>
+          ))}
+          {policy.attached_tags.map((tag) => (
+            <Badge key={`tag-${tag}`} color="purple" size="xs">
+              tag: {tag}
+            </Badge>
+          ))}
+          {!policy.default_on && policy.attached_models.length === 0 && policy.attached_tags.length === 0 && (
+            <Text className="text-gray-500 text-xs">Not attached</Text>
+          )}
+        </div>
+      ),
+    },
+    {
+      title: "Conditions",
+      key: "conditions",
+      render: (_: unknown, policy: GuardrailPolicy) => {
+        const conditions = describeConditions(policy)
+        return conditions.length === 0 ? (
+          <Text className="text-gray-500 text-xs">None</Text>
+        ) : (
+          <ul className="text-xs list-disc pl-4">
+            {conditions.map((condition) => (
+              <li key={condition}>{condition}</li>
+            ))}
+          </ul>
+        )
+      },
+    },
+    ...(isAdmin
+      ? [
+          {
+            title: "Actions",
+            key: "actions",
+            render: (_: unknown, policy: GuardrailPolicy) => (
+              <div className="flex gap-1">
+                <Tooltip title="Edit">
+                  <Button size="small" icon={<EditOutlined />} onClick={() => openForm(policy)} />
+                </Tooltip>
+                <Tooltip title="Delete">
+                  <Button size="small" danger icon={<DeleteOutlined />} onClick={() => handleDelete(policy)} />
+                </Tooltip>
+              </div>
+            ),
+          },
+        ]
+      : []),
+  ]
+
+  return (
+    <Card>
+      <div className="flex justify-between items-center mb-4">
+        <div>
+          <Title>Guardrail Policies</Title>
+          <Text className="text-gray-500">
+            Ordered chains of guardrails that run on every request to the attached models or tags, without adding
+            guardrails to each key.
+          </Text>
+        </div>
+        {isAdmin && (
+          <TremorButton onClick={() => openForm(null)} disabled={!accessToken}>
+            + Add Policy
+          </TremorButton>
+        )}
+      </div>
+
+      <Table
+        dataSource={policies}
+        columns={columns}
+        rowKey={(policy) => policy.policy_id ?? policy.policy_name}
+        loading={isLoading}
+        pagination={false}
+        size="small"
+        locale={{ emptyText: "No guardrail policies yet" }}
+      />
+
+      <PolicyFormModal
+        open={isFormOpen}
+        policy={editingPolicy}
+        guardrailNames={guardrailNames}
+        modelOptions={modelOptions}
+        tagOptions={tagOptions}
+        teamOptions={teamOptions}
+        onCancel={() => setIsFormOpen(false)}
+        onSubmit={handleSubmit}
+      />
+    </Card>
+  )
+}
+
+export default GuardrailPolicies
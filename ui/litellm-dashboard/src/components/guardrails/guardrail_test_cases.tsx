@@ -0,0 +1,38 @@
+import { GuardrailTestCase, GuardrailTestResult } from "./types";
+
+// Test cases are saved with the guardrail, under this `guardrail_info` key
+const TEST_CASES_GUARDRAIL_INFO_KEY = "test_cases";
+
+export const getSavedTestCases = (guardrailInfo: Record<string, any> | null | undefined): GuardrailTestCase[] => {
+  const testCases = guardrailInfo?.[TEST_CASES_GUARDRAIL_INFO_KEY];
+  return Array.isArray(testCases) ? testCases : [];
+};
+
+/**
+ * `guardrail_info` without the test cases, for showing and editing it.
+ * The proxy keeps the saved test cases when `guardrail_info` is updated without them.
+ */
+export const omitTestCases = (guardrailInfo: Record<string, any> | null | undefined): Record<string, any> | null => {
+  if (!guardrailInfo) return null;
+  const rest = { ...guardrailInfo };
+  delete rest[TEST_CASES_GUARDRAIL_INFO_KEY];
+  return Object.keys(rest).length > 0 ? rest : null;
+};
+
+/**
+ * Why a test case no longer produces its expected outcome, or null if it still does.
+ * The output is only compared when the case has one, so "blocked" cases just check the verdict.
+ */
+export const getTestCaseMismatch = (testCase: GuardrailTestCase, result: GuardrailTestResult): string | null => {
+  if (result.verdict !== testCase.expected_verdict) {
+    return `Expected ${testCase.expected_verdict}, got ${result.verdict}`;
+  }
+  if (
+    testCase.expected_output !== undefined &&
+    testCase.expected_output !== null &&
+    result.output_text !== testCase.expected_output
+  ) {
+    return "Output text changed";
+  }
+  return null;
+};
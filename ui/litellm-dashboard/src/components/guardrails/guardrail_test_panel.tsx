@@ -0,0 +1,394 @@
+import React, { useEffect, useState } from "react"
+import { Card, Title, Text, Badge, Button as TremorButton } from "@tremor/react"
+import { Button, Input, Select, Table, Tooltip, message } from "antd"
+import { DeleteOutlined, PlayCircleOutlined, UploadOutlined } from "@ant-design/icons"
+import { v4 as uuidv4 } from "uuid"
+import { testGuardrailCall, updateGuardrailTestCasesCall } from "@/components/networking"
+import { getGuardrailLogoAndName } from "./guardrail_info_helpers"
+import { getTestCaseMismatch } from "./guardrail_test_cases"
+import {
+  GuardrailEntity,
+  GuardrailTestCase,
+  GuardrailTestEventHook,
+  GuardrailTestResult,
+  GuardrailTestVerdict,
+} from "./types"
+
+export interface GuardrailTestPanelProps {
+  guardrailId: string
+  guardrailProvider?: string
+  configuredMode?: string
+  savedTestCases: GuardrailTestCase[]
+  accessToken: string | null
+}
+
+const EVENT_HOOK_OPTIONS: { value: GuardrailTestEventHook; label: string }[] = [
+  { value: "pre_call", label: "pre_call - user input, before the LLM call" },
+  { value: "during_call", label: "during_call - user input, in parallel with the LLM call" },
+  { value: "post_call", label: "post_call - LLM output" },
+]
+
+const VERDICT_COLORS: Record<GuardrailTestVerdict, string> = {
+  passed: "green",
+  masked: "blue",
+  blocked: "red",
+}
+
+const isEntityList = (response: GuardrailTestResult["guardrail_response"]): response is GuardrailEntity[] =>
+  Array.isArray(response) && response.every((item) => item && typeof item.entity_type === "string")
+
+const TestResultView = ({ result, inputText }: { result: GuardrailTestResult; inputText: string }) => {
+  const entities = isEntityList(result.guardrail_response) ? result.guardrail_response : null
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-3">
+        <Badge color={VERDICT_COLORS[result.verdict]}>{result.verdict}</Badge>
+        <Text className="text-xs text-gray-500">{result.latency_ms.toFixed(0)} ms</Text>
+      </div>
+
+      {result.error && (
+        <div className="bg-red-50 border border-red-200 rounded p-2">
+          <pre className="text-xs whitespace-pre-wrap text-red-700 font-mono">{result.error}</pre>
+        </div>
+      )}
+
+      {result.output_text !== null && result.verdict === "masked" && (
+        <div>
+          <Text className="font-medium mb-1">Output</Text>
+          <pre className="text-xs whitespace-pre-wrap font-mono bg-gray-50 border rounded p-2">{result.output_text}</pre>
+        </div>
+      )}
+
+      {result.masked_entity_count && Object.keys(result.masked_entity_count).length > 0 && (
+        <div>
+          <Text className="font-medium mb-1">Masked Entities</Text>
+          <div className="flex flex-wrap gap-2">
+            {Object.entries(result.masked_entity_count).map(([entityType, count]) => (
+              <span key={entityType} className="px-3 py-1.5 bg-blue-50 text-blue-700 rounded-md text-xs font-medium">
+                {entityType}: {count}
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {entities && entities.length > 0 && (
+        <div>
+          <Text className="font-medium mb-1">Detected Entities ({entities.length})</Text>
+          <Table
+            size="small"
+            pagination={false}
+            rowKey={(entity) => `${entity.entity_type}-${entity.start}-${entity.end}`}
+            dataSource={entities}
+            columns={[
+              { title: "Entity", dataIndex: "entity_type" },
+              {
+                title: "Text",
+                render: (_, entity) => <span className="font-mono">{inputText.slice(entity.start, entity.end)}</span>,
+              },
+              {
+                title: "Score",
+                dataIndex: "score",
+                render: (score: number) => (
+                  <span className={`font-mono ${score >= 0.8 ? "text-green-600" : "text-yellow-600"}`}>
+                    {score.toFixed(2)}
+                  </span>
+                ),
+              },
+              {
+                title: "Position",
+                render: (_, entity) => `${entity.start}-${entity.end}`,
+              },
+              {
+                title: "Recognizer",
+                render: (_, entity) => entity.recognition_metadata?.recognizer_name || "-",
+              },
+            ]}
+          />
+        </div>
+      )}
+
+      {result.guardrail_response && !entities && typeof result.guardrail_response !== "string" && (
+        <div>
+          <Text className="font-medium mb-1">Guardrail Response</Text>
+          <pre className="text-xs whitespace-pre-wrap font-mono bg-gray-50 border rounded p-2 max-h-64 overflow-y-auto">
+            {JSON.stringify(result.guardrail_response, null, 2)}
+          </pre>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Runs the guardrail against sample text, and keeps a set of test cases saved with the guardrail
+ * that can be re-run to catch regressions after changing its settings
+ */
+const GuardrailTestPanel: React.FC<GuardrailTestPanelProps> = ({
+  guardrailId,
+  guardrailProvider,
+  configuredMode,
+  savedTestCases,
+  accessToken,
+}) => {
+  const defaultEventHook = EVENT_HOOK_OPTIONS.some((option) => option.value === configuredMode)
+    ? (configuredMode as GuardrailTestEventHook)
+    : "pre_call"
+  const [text, setText] = useState("")
+  const [eventHook, setEventHook] = useState<GuardrailTestEventHook>(defaultEventHook)
+  const [result, setResult] = useState<GuardrailTestResult | null>(null)
+  const [resultText, setResultText] = useState("")
+  const [isRunning, setIsRunning] = useState(false)
+  const [testCaseName, setTestCaseName] = useState("")
+  const [testCases, setTestCases] = useState<GuardrailTestCase[]>([])
+  const [testCaseResults, setTestCaseResults] = useState<Record<string, GuardrailTestResult | { error: string }>>({})
+  const [runningTestCaseIds, setRunningTestCaseIds] = useState<string[]>([])
+
+  useEffect(() => {
+    setTestCases(savedTestCases)
+    setTestCaseResults({})
+  }, [guardrailId, savedTestCases])
+
+  const updateTestCases = async (updated: GuardrailTestCase[]): Promise<boolean> => {
+    if (!accessToken) return false
+    const previous = testCases
+    setTestCases(updated)
+    try {
+      await updateGuardrailTestCasesCall(accessToken, guardrailId, updated)
+      return true
+    } catch (error) {
+      setTestCases(previous)
+      message.error("Failed to save test cases")
+      return false
+    }
+  }
+
+  const handleRun = async () => {
+    if (!accessToken || !text) return
+    setIsRunning(true)
+    try {
+      const response: GuardrailTestResult = await testGuardrailCall(accessToken, guardrailId, text, eventHook)
+      setResult(response)
+      setResultText(text)
+    } catch (error) {
+      message.error("Failed to run guardrail")
+    } finally {
+      setIsRunning(false)
+    }
+  }
+
+  const handleSaveTestCase = async () => {
+    if (!result) return
+    const testCase: GuardrailTestCase = {
+      id: uuidv4(),
+      name: testCaseName || `Test case ${testCases.length + 1}`,
+      text: resultText,
+      event_hook: eventHook,
+      expected_verdict: result.verdict,
+      expected_output: result.verdict === "masked" ? result.output_text : null,
+    }
+    if (await updateTestCases([...testCases, testCase])) {
+      setTestCaseName("")
+      message.success("Test case saved")
+    }
+  }
+
+  const runTestCase = async (testCase: GuardrailTestCase) => {
+    if (!accessToken) return
+    setRunningTestCaseIds((prev) => [...prev, testCase.id])
+    try {
+      const response: GuardrailTestResult = await testGuardrailCall(
+        accessToken,
+        guardrailId,
+        testCase.text,
+        testCase.event_hook,
+      )
+      setTestCaseResults((prev) => ({ ...prev, [testCase.id]: response }))
+    } catch (error) {
+      setTestCaseResults((prev) => ({
+        ...prev,
+        [testCase.id]: { error: error instanceof Error ? error.message : String(error) },
+      }))
+    } finally {
+      setRunningTestCaseIds((prev) => prev.filter((id) => id !== testCase.id))
+    }
+  }
+
+  // One at a time, so a large suite doesn't flood the guardrail provider
+  const handleRunAll = async () => {
+    for (const testCase of testCases) {
+      await runTestCase(testCase)
+    }
+  }
+
+  const handleLoadTestCase = (testCase: GuardrailTestCase) => {
+    setText(testCase.text)
+    setEventHook(testCase.event_hook)
+    setResult(null)
+  }
+
+  const handleDeleteTestCase = (testCaseId: string) => {
+    updateTestCases(testCases.filter((testCase) => testCase.id !== testCaseId))
+  }
+
+  const ranTestCases = testCases.filter((testCase) => testCaseResults[testCase.id] !== undefined)
+  const passingCount = ranTestCases.filter((testCase) => {
+    const testCaseResult = testCaseResults[testCase.id]
+    return "verdict" in testCaseResult && getTestCaseMismatch(testCase, testCaseResult) === null
+  }).length
+
+  const renderTestCaseStatus = (testCase: GuardrailTestCase) => {
+    if (runningTestCaseIds.includes(testCase.id)) return <Text className="text-xs text-gray-500">Running...</Text>
+    const testCaseResult = testCaseResults[testCase.id]
+    if (!testCaseResult) return <Text className="text-xs text-gray-400">Not run</Text>
+    if (!("verdict" in testCaseResult)) {
+      return (
+        <Tooltip title={testCaseResult.error}>
+          <Badge color="red">Error</Badge>
+        </Tooltip>
+      )
+    }
+    const mismatch = getTestCaseMismatch(testCase, testCaseResult)
+    return mismatch ? (
+      <Tooltip title={mismatch}>
+        <Badge color="red">Fail</Badge>
+      </Tooltip>
+    ) : (
+      <Badge color="green">Pass</Badge>
+    )
+  }
+
+  const { displayName } = getGuardrailLogoAndName(guardrailProvider || "")
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <Title>Test Guardrail</Title>
+        <Text className="text-gray-500 mb-4">
+          Runs {displayName || "the guardrail"} on the text below, the same way it runs on a request. Nothing is sent
+          to a model.
+        </Text>
+        <div className="space-y-3">
+          <div>
+            <Text className="font-medium mb-1">Hook</Text>
+            <Select
+              value={eventHook}
+              onChange={(value: GuardrailTestEventHook) => setEventHook(value)}
+              options={EVENT_HOOK_OPTIONS}
+              style={{ width: "100%" }}
+            />
+          </div>
+          <div>
+            <Text className="font-medium mb-1">{eventHook === "post_call" ? "LLM output" : "User input"}</Text>
+            <Input.TextArea
+              rows={5}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder="e.g. My name is Jane Doe and my card number is 4111 1111 1111 1111"
+            />
+          </div>
+          <div className="flex justify-end">
+            <TremorButton onClick={handleRun} loading={isRunning} disabled={!text}>
+              Run Guardrail
+            </TremorButton>
+          </div>
+        </div>
+
+        {result && (
+          <div className="mt-6 pt-4 border-t space-y-4">
+            <TestResultView result={result} inputText={resultText} />
+            <div className="flex items-center gap-2">
+              <Input
+                placeholder={`Test case ${testCases.length + 1}`}
+                value={testCaseName}
+                onChange={(e) => setTestCaseName(e.target.value)}
+                style={{ maxWidth: 280 }}
+              />
+              <Tooltip title="Save this input with its current outcome, to re-run it after changing the guardrail">
+                <Button icon={<UploadOutlined />} onClick={handleSaveTestCase}>
+                  Save as Test Case
+                </Button>
+              </Tooltip>
+            </div>
+          </div>
+        )}
+      </Card>
+
+      <Card>
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <Title>Test Cases</Title>
+            <Text className="text-gray-500">
+              {ranTestCases.length > 0
+                ? `${passingCount}/${ranTestCases.length} passing`
+                : "Saved with the guardrail"}
+            </Text>
+          </div>
+          <TremorButton
+            onClick={handleRunAll}
+            disabled={testCases.length === 0}
+            loading={runningTestCaseIds.length > 0}
+          >
+            Run All
+          </TremorButton>
+        </div>
+        <Table
+          size="small"
+          rowKey="id"
+          pagination={false}
+          dataSource={testCases}
+          locale={{ emptyText: "No test cases yet - run the guardrail and save the result as a test case" }}
+          columns={[
+            { title: "Name", dataIndex: "name" },
+            {
+              title: "Input",
+              dataIndex: "text",
+              render: (value: string) => (
+                <Tooltip title={value}>
+                  <span className="font-mono text-xs">{value.length > 60 ? `${value.slice(0, 60)}...` : value}</span>
+                </Tooltip>
+              ),
+            },
+            { title: "Hook", dataIndex: "event_hook" },
+            {
+              title: "Expected",
+              dataIndex: "expected_verdict",
+              render: (verdict: GuardrailTestVerdict) => <Badge color={VERDICT_COLORS[verdict]}>{verdict}</Badge>,
+            },
+            { title: "Result", render: (_, testCase) => renderTestCaseStatus(testCase) },
+            {
+              title: "",
+              render: (_, testCase) => (
+                <div className="flex gap-1">
+                  <Tooltip title="Run">
+                    <Button
+                      type="text"
+                      size="small"
+                      icon={<PlayCircleOutlined />}
+                      onClick={() => runTestCase(testCase)}
+                      disabled={runningTestCaseIds.includes(testCase.id)}
+                    />
+                  </Tooltip>
+                  <Button type="link" size="small" onClick={() => handleLoadTestCase(testCase)}>
+                    Load
+                  </Button>
+                  <Tooltip title="Delete">
+                    <Button
+                      type="text"
+                      size="small"
+                      icon={<DeleteOutlined />}
+                      onClick={() => handleDeleteTestCase(testCase.id)}
+                    />
+                  </Tooltip>
+                </div>
+              ),
+            },
+          ]}
+        />
+      </Card>
+    </div>
+  )
+}
+
+export default GuardrailTestPanel
@@ -31,4 +31,153 @@ export interface Guardrail {
   guardrail_info: Record<string, any> | null;
   created_at?: string;
   updated_at?: string;
-} 
\ No newline at end of file
+} 
+export interface RecognitionMetadata {
+  recognizer_name: string;
+  recognizer_identifier: string;
+}
+
+export interface GuardrailEntity {
+  end: number;
+  score: number;
+  start: number;
+  entity_type: string;
+  analysis_explanation: string | null;
+  recognition_metadata: RecognitionMetadata;
+}
+
+export interface MaskedEntityCount {
+  [key: string]: number;
+}
+
+export type GuardrailTestEventHook = "pre_call" | "during_call" | "post_call";
+
+export type GuardrailTestVerdict = "passed" | "masked" | "blocked";
+
+// Response of POST /guardrails/{guardrail_id}/test
+export interface GuardrailTestResult {
+  verdict: GuardrailTestVerdict;
+  output_text: string | null; // null when blocked
+  error: string | null;
+  latency_ms: number;
+  guardrail_response: GuardrailEntity[] | string | Record<string, any> | null; // entities for Presidio, raw response otherwise
+  masked_entity_count: MaskedEntityCount | null;
+}
+
+// A saved input with the outcome it should keep producing
+export interface GuardrailTestCase {
+  id: string;
+  name: string;
+  text: string;
+  event_hook: GuardrailTestEventHook;
+  expected_verdict: GuardrailTestVerdict;
+  expected_output?: string | null; // also compared when set
+}
+
+export type GuardrailPolicyAction = "block" | "mask" | "warn" | "log_only";
+
+export interface GuardrailPolicyStep {
+  guardrail_name: string;
+  event_hook: "pre_call" | "post_call";
+  action: GuardrailPolicyAction;
+}
+
+// Every condition that is set must match the request
+export interface GuardrailPolicyConditions {
+  models?: string[] | null;
+  tags?: string[] | null;
+  team_ids?: string[] | null;
+  key_metadata?: Record<string, any> | null;
+}
+
+// An ordered chain of guardrails, run on requests to the attached models / tags
+export interface GuardrailPolicy {
+  policy_id?: string;
+  policy_name: string;
+  description?: string | null;
+  steps: GuardrailPolicyStep[];
+  conditions: GuardrailPolicyConditions;
+  attached_models: string[];
+  attached_tags: string[];
+  default_on: boolean;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Totals over the selected range - blocked runs failed the request, masked runs let it through after masking
+export interface GuardrailAnalyticsSummary {
+  guardrail_name: string;
+  total_runs: number;
+  blocked: number;
+  masked: number;
+  block_rate: number;
+  trigger_rate: number;
+}
+
+export interface GuardrailAnalyticsDailyMetrics {
+  date: string;
+  guardrail_name: string;
+  total_runs: number;
+  blocked: number;
+  masked: number;
+}
+
+export interface GuardrailAnalyticsLatency {
+  guardrail_name: string;
+  guardrail_mode?: string | null;
+  total_runs: number;
+  avg_latency_ms: number;
+  p95_latency_ms: number;
+}
+
+export interface GuardrailAnalyticsEntityCount {
+  guardrail_name: string;
+  entity_type: string;
+  count: number;
+}
+
+// A key (id = hashed key) or team that triggered guardrails
+export interface GuardrailAnalyticsTriggerSource {
+  id?: string | null;
+  alias?: string | null;
+  blocked: number;
+  masked: number;
+}
+
+export interface GuardrailAnalyticsResponse {
+  summary: GuardrailAnalyticsSummary[];
+  daily: GuardrailAnalyticsDailyMetrics[];
+  latency: GuardrailAnalyticsLatency[];
+  entity_types: GuardrailAnalyticsEntityCount[];
+  top_keys: GuardrailAnalyticsTriggerSource[];
+  top_teams: GuardrailAnalyticsTriggerSource[];
+}
+
+export type CustomRuleType = "regex" | "keywords" | "competitors" | "max_length" | "valid_json";
+
+export type CustomRuleAction = "block" | "mask" | "flag";
+
+// A single check of the `custom_rules` guardrail
+export interface CustomRule {
+  name: string;
+  type: CustomRuleType;
+  pattern?: string | null; // regex
+  keywords?: string[] | null; // keywords, competitors
+  case_sensitive?: boolean;
+  max_length?: number | null;
+  action: CustomRuleAction;
+  error_message?: string | null;
+}
+
+export interface CustomRuleMatch {
+  rule_name: string;
+  action: CustomRuleAction;
+  matches: string[];
+}
+
+export interface CustomRulesResult {
+  verdict: "passed" | "flagged" | "masked" | "blocked";
+  output_text?: string | null;
+  error?: string | null;
+  matches: CustomRuleMatch[];
+}
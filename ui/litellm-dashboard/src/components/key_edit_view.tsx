@@ -7,6 +7,7 @@ import { modelAvailableCall } from "./networking";
 import NumericalInput from "./shared/numerical_input";
 import VectorStoreSelector from "./vector_store_management/VectorStoreSelector";
 import MCPServerSelector from "./mcp_server_management/MCPServerSelector";
+import MCPToolPermissionsEditor from "./mcp_server_management/MCPToolPermissionsEditor";
 import EditLoggingSettings from "./team/EditLoggingSettings";
 import { extractLoggingSettings, formatMetadataForDisplay } from "./key_info_utils";
 import { fetchMCPAccessGroups } from "./networking";
@@ -121,6 +122,7 @@ export function KeyEditView({
       servers: keyData.object_permission?.mcp_servers || [],
       accessGroups: keyData.object_permission?.mcp_access_groups || []
     },
+    mcp_tool_permissions: keyData.object_permission?.mcp_tool_permissions || {},
     logging_settings: extractLoggingSettings(keyData.metadata)
   };
 
@@ -212,6 +214,14 @@ export function KeyEditView({
         />
       </Form.Item>
 
+      <Form.Item label="MCP Tool Permissions" name="mcp_tool_permissions">
+        <MCPToolPermissionsEditor
+          onChange={val => form.setFieldValue('mcp_tool_permissions', val)}
+          value={form.getFieldValue('mcp_tool_permissions')}
+          accessToken={accessToken || ''}
+        />
+      </Form.Item>
+
       <Form.Item label="Team ID" name="team_id">
         <Select
           placeholder="Select team"
@@ -92,6 +92,15 @@ export default function KeyInfoView({ keyId, onClose, keyData, accessToken, user
         delete formValues.mcp_servers_and_groups;
       }
 
+      if (formValues.mcp_tool_permissions !== undefined) {
+        formValues.object_permission = {
+          ...keyData.object_permission,
+          ...formValues.object_permission,
+          mcp_tool_permissions: formValues.mcp_tool_permissions || {}
+        };
+        delete formValues.mcp_tool_permissions;
+      }
+
       // Convert metadata back to an object if it exists and is a string
       if (formValues.metadata && typeof formValues.metadata === "string") {
         try {
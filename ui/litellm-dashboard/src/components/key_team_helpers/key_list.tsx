@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { keyListCall, Member, Organization } from '../networking';
 import { Setter } from '@/types';
+import { MCPToolPermission } from '../mcp_tools/types';
 
 export interface Team {
     team_id: string;
@@ -79,6 +80,7 @@ export interface KeyResponse {
         object_permission_id: string;
         mcp_servers: string[];
         mcp_access_groups?: string[];
+        mcp_tool_permissions?: Record<string, MCPToolPermission>;
         vector_stores: string[];
     };
 }
@@ -0,0 +1,151 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Select, Tooltip } from 'antd';
+import { DeleteOutlined } from '@ant-design/icons';
+import { useQuery } from '@tanstack/react-query';
+import { fetchMCPServers, listMCPTools } from '../networking';
+import { MCPServer, MCPTool, MCPToolPermission } from '../mcp_tools/types';
+import { getOriginalToolName } from '../mcp_tools/utils';
+
+interface MCPToolPermissionsEditorProps {
+  onChange: (value: Record<string, MCPToolPermission>) => void;
+  value?: Record<string, MCPToolPermission>;
+  accessToken: string;
+  disabled?: boolean;
+}
+
+const getServerDisplayName = (server?: MCPServer, serverId?: string) =>
+  server ? `${server.alias || server.server_id} (${server.server_id})` : serverId || '';
+
+const ServerToolRules: React.FC<{
+  serverId: string;
+  server?: MCPServer;
+  permission: MCPToolPermission;
+  accessToken: string;
+  disabled: boolean;
+  onChange: (permission: MCPToolPermission) => void;
+  onRemove: () => void;
+}> = ({ serverId, server, permission, accessToken, disabled, onChange, onRemove }) => {
+  const { data: toolsResponse, isLoading } = useQuery({
+    queryKey: ["mcpTools", serverId, ""],
+    queryFn: () => listMCPTools(accessToken, serverId),
+    enabled: !!accessToken,
+  });
+
+  const toolNames: string[] = (toolsResponse?.tools || []).map((tool: MCPTool) =>
+    getOriginalToolName(tool.name, tool.mcp_info?.server_name || server?.alias)
+  );
+  const toolOptions = toolNames.map((name) => ({ label: name, value: name }));
+
+  // Empty lists mean "no restriction", so they aren't stored
+  const setTools = (field: keyof MCPToolPermission, tools: string[]) =>
+    onChange({ ...permission, [field]: tools.length > 0 ? tools : undefined });
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-gray-900">{getServerDisplayName(server, serverId)}</span>
+        <Button type="text" size="small" icon={<DeleteOutlined />} onClick={onRemove} disabled={disabled} />
+      </div>
+      {/* Tools that can't be listed (e.g. servers needing per-user auth) can still be typed in */}
+      <div>
+        <Tooltip title="Only these tools can be used. Leave empty to allow every tool of the server.">
+          <span className="text-xs text-gray-600">Allowed tools</span>
+        </Tooltip>
+        <Select
+          mode="tags"
+          placeholder="All tools"
+          value={permission.allowed_tools || []}
+          onChange={(tools: string[]) => setTools('allowed_tools', tools)}
+          options={toolOptions}
+          loading={isLoading}
+          style={{ width: '100%' }}
+          disabled={disabled}
+        />
+      </div>
+      <div>
+        <Tooltip title="These tools can never be used, e.g. destructive ones">
+          <span className="text-xs text-gray-600">Denied tools</span>
+        </Tooltip>
+        <Select
+          mode="tags"
+          placeholder="No tools denied"
+          value={permission.denied_tools || []}
+          onChange={(tools: string[]) => setTools('denied_tools', tools)}
+          options={toolOptions}
+          loading={isLoading}
+          style={{ width: '100%' }}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Per-server tool allow / deny lists for a key, team or organization, keyed by server id
+ */
+const MCPToolPermissionsEditor: React.FC<MCPToolPermissionsEditorProps> = ({
+  onChange,
+  value,
+  accessToken,
+  disabled = false,
+}) => {
+  const [mcpServers, setMCPServers] = useState<MCPServer[]>([]);
+  const permissions = value || {};
+
+  useEffect(() => {
+    const fetchData = async () => {
+      if (!accessToken) return;
+      try {
+        const serversRes = await fetchMCPServers(accessToken);
+        setMCPServers(Array.isArray(serversRes) ? serversRes : (serversRes.data || []));
+      } catch (error) {
+        console.error("Error fetching MCP servers:", error);
+      }
+    };
+    fetchData();
+  }, [accessToken]);
+
+  const handleAddServer = (serverId: string) => {
+    onChange({ ...permissions, [serverId]: {} });
+  };
+
+  const handleRemoveServer = (serverId: string) => {
+    const { [serverId]: _removed, ...rest } = permissions;
+    onChange(rest);
+  };
+
+  const availableServers = mcpServers.filter((server) => !(server.server_id in permissions));
+
+  return (
+    <div className="space-y-2">
+      {Object.entries(permissions).map(([serverId, permission]) => (
+        <ServerToolRules
+          key={serverId}
+          serverId={serverId}
+          server={mcpServers.find((server) => server.server_id === serverId)}
+          permission={permission || {}}
+          accessToken={accessToken}
+          disabled={disabled}
+          onChange={(updated) => onChange({ ...permissions, [serverId]: updated })}
+          onRemove={() => handleRemoveServer(serverId)}
+        />
+      ))}
+      <Select
+        placeholder="Restrict the tools of an MCP server"
+        value={null}
+        onChange={handleAddServer}
+        showSearch
+        optionFilterProp="label"
+        style={{ width: '100%' }}
+        disabled={disabled}
+        options={availableServers.map((server) => ({
+          label: getServerDisplayName(server),
+          value: server.server_id,
+        }))}
+      />
+    </div>
+  );
+};
+
+export default MCPToolPermissionsEditor;
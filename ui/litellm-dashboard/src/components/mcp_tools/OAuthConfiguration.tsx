@@ -0,0 +1,241 @@
+import React, { useState } from "react";
+import { Alert, Button as AntdButton, Form, Input, Radio, Select, Tooltip, message } from "antd";
+import { CheckCircleOutlined, InfoCircleOutlined, SearchOutlined } from "@ant-design/icons";
+import { discoverMCPOAuth, registerMCPOAuthClient, requestMCPOAuthToken } from "../networking";
+import { MCPOAuth2Config, MCPOAuthMetadata, MCPOAuthToken, OAUTH2_TOKEN_MODE } from "./types";
+import { authorizeInPopup, formatTokenExpiry, oauthRedirectUri } from "./oauth_utils";
+
+interface OAuthConfigurationProps {
+  accessToken: string | null;
+  token: MCPOAuthToken | null;
+  onTokenChange: (token: MCPOAuthToken | null) => void;
+}
+
+/**
+ * OAuth 2.1 settings for the add / edit MCP server forms. Fields live under `oauth2` in the parent form.
+ */
+export function OAuthConfiguration({ accessToken, token, onTokenChange }: OAuthConfigurationProps) {
+  const form = Form.useFormInstance();
+  const serverUrl: string | undefined = Form.useWatch("url", form);
+  const registrationEndpoint: string | undefined = Form.useWatch(["oauth2", "registration_endpoint"], form);
+  const tokenMode: string | undefined = Form.useWatch(["oauth2", "token_mode"], form);
+  const [metadata, setMetadata] = useState<MCPOAuthMetadata | null>(null);
+  const [isDiscovering, setIsDiscovering] = useState(false);
+  const [isRegistering, setIsRegistering] = useState(false);
+  const [isAuthorizing, setIsAuthorizing] = useState(false);
+
+  const registerClient = async (endpoint: string) => {
+    if (!accessToken) return;
+    setIsRegistering(true);
+    try {
+      const client = await registerMCPOAuthClient(accessToken, endpoint, oauthRedirectUri());
+      form.setFieldValue(["oauth2", "client_id"], client.client_id);
+      if (client.client_secret) {
+        message.warning("The authorization server issued a client secret - only public (PKCE) clients are supported");
+      }
+      message.success("Registered OAuth client");
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsRegistering(false);
+    }
+  };
+
+  const handleDiscover = async () => {
+    if (!accessToken || !serverUrl) return;
+    setIsDiscovering(true);
+    try {
+      const discovered: MCPOAuthMetadata = await discoverMCPOAuth(accessToken, serverUrl);
+      setMetadata(discovered);
+      form.setFieldsValue({
+        oauth2: {
+          authorization_endpoint: discovered.authorization_endpoint,
+          token_endpoint: discovered.token_endpoint,
+          registration_endpoint: discovered.registration_endpoint,
+          resource: discovered.resource,
+        },
+      });
+      // Dynamic client registration makes the client id a one-click step
+      if (discovered.registration_endpoint && !form.getFieldValue(["oauth2", "client_id"])) {
+        await registerClient(discovered.registration_endpoint);
+      }
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsDiscovering(false);
+    }
+  };
+
+  const handleAuthorize = async () => {
+    if (!accessToken) return;
+    try {
+      await form.validateFields([
+        ["oauth2", "authorization_endpoint"],
+        ["oauth2", "token_endpoint"],
+        ["oauth2", "client_id"],
+      ]);
+    } catch {
+      return;
+    }
+    const config: MCPOAuth2Config = form.getFieldValue("oauth2");
+    setIsAuthorizing(true);
+    try {
+      const authorization = await authorizeInPopup(config);
+      const newToken: MCPOAuthToken = await requestMCPOAuthToken(accessToken, {
+        grant_type: "authorization_code",
+        token_endpoint: config.token_endpoint,
+        client_id: config.client_id,
+        resource: config.resource,
+        code: authorization.code,
+        code_verifier: authorization.codeVerifier,
+        redirect_uri: authorization.redirectUri,
+      });
+      onTokenChange(newToken);
+      message.success("Authorized");
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsAuthorizing(false);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-2 bg-gray-50">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-sm font-medium text-gray-700 flex items-center">
+          OAuth 2.1
+          <Tooltip title="Discover the authorization server from the MCP server URL, register a client and authorize with PKCE">
+            <InfoCircleOutlined className="ml-2 text-gray-400 hover:text-gray-600" />
+          </Tooltip>
+        </span>
+        <AntdButton
+          size="small"
+          icon={<SearchOutlined />}
+          onClick={handleDiscover}
+          loading={isDiscovering}
+          disabled={!serverUrl}
+        >
+          Discover
+        </AntdButton>
+      </div>
+
+      {metadata && !metadata.discovered && (
+        <Alert
+          type="warning"
+          showIcon
+          className="mb-2"
+          message="No authorization server metadata found"
+          description="Using the default /authorize, /token and /register endpoints on the server's origin. Check them before authorizing."
+        />
+      )}
+
+      <Form.Item
+        label={<span className="text-sm font-medium text-gray-700">Token Mode</span>}
+        name={["oauth2", "token_mode"]}
+        initialValue={OAUTH2_TOKEN_MODE.PER_USER}
+        className="mb-3"
+      >
+        <Radio.Group>
+          <Radio value={OAUTH2_TOKEN_MODE.PER_USER}>Per user - each user connects their own account</Radio>
+          <Radio value={OAUTH2_TOKEN_MODE.SHARED}>Shared - one admin-authorized token for everyone</Radio>
+        </Radio.Group>
+      </Form.Item>
+
+      <Form.Item
+        label={<span className="text-sm font-medium text-gray-700">Authorization Endpoint</span>}
+        name={["oauth2", "authorization_endpoint"]}
+        rules={[
+          { required: true, message: "Please enter the authorization endpoint" },
+          { type: "url", message: "Please enter a valid URL" },
+        ]}
+        className="mb-3"
+      >
+        <Input placeholder="https://auth.example.com/authorize" />
+      </Form.Item>
+
+      <Form.Item
+        label={<span className="text-sm font-medium text-gray-700">Token Endpoint</span>}
+        name={["oauth2", "token_endpoint"]}
+        rules={[
+          { required: true, message: "Please enter the token endpoint" },
+          { type: "url", message: "Please enter a valid URL" },
+        ]}
+        className="mb-3"
+      >
+        <Input placeholder="https://auth.example.com/token" />
+      </Form.Item>
+
+      <Form.Item
+        label={<span className="text-sm font-medium text-gray-700">Registration Endpoint</span>}
+        name={["oauth2", "registration_endpoint"]}
+        rules={[{ type: "url", message: "Please enter a valid URL" }]}
+        className="mb-3"
+      >
+        <Input placeholder="Optional - for dynamic client registration" />
+      </Form.Item>
+
+      <Form.Item
+        label={
+          <span className="text-sm font-medium text-gray-700 flex items-center">
+            Client ID
+            <Tooltip title={`Register dynamically, or pre-register a public client with redirect URI ${oauthRedirectUri()}`}>
+              <InfoCircleOutlined className="ml-2 text-gray-400 hover:text-gray-600" />
+            </Tooltip>
+          </span>
+        }
+        className="mb-3"
+      >
+        <div className="flex gap-2">
+          <Form.Item
+            name={["oauth2", "client_id"]}
+            noStyle
+            rules={[{ required: true, message: "Please enter or register a client id" }]}
+          >
+            <Input placeholder="Client ID" />
+          </Form.Item>
+          <AntdButton
+            onClick={() => registrationEndpoint && registerClient(registrationEndpoint)}
+            loading={isRegistering}
+            disabled={!registrationEndpoint}
+          >
+            Register
+          </AntdButton>
+        </div>
+      </Form.Item>
+
+      <Form.Item
+        label={<span className="text-sm font-medium text-gray-700">Scopes</span>}
+        name={["oauth2", "scopes"]}
+        className="mb-3"
+      >
+        <Select
+          mode="tags"
+          placeholder="Optional"
+          tokenSeparators={[",", " "]}
+          options={(metadata?.scopes_supported || []).map((scope) => ({ value: scope, label: scope }))}
+        />
+      </Form.Item>
+
+      <Form.Item name={["oauth2", "resource"]} hidden>
+        <Input />
+      </Form.Item>
+
+      <div className="flex items-center justify-between pt-2">
+        <span className="text-xs text-gray-500">
+          {token ? (
+            <span className="text-green-600 flex items-center">
+              <CheckCircleOutlined className="mr-1" /> Authorized · {formatTokenExpiry(token.expires_at)}
+            </span>
+          ) : tokenMode === OAUTH2_TOKEN_MODE.SHARED ? (
+            "Authorize to test the connection - the token is saved for everyone when you save the server"
+          ) : (
+            "Authorize to test the connection with your own account"
+          )}
+        </span>
+        <AntdButton type="primary" ghost onClick={handleAuthorize} loading={isAuthorizing}>
+          {token ? "Re-authorize" : "Authorize"}
+        </AntdButton>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button, Text } from "@tremor/react";
+import { message } from "antd";
+import { getMCPOAuthSharedTokenStatus, requestMCPOAuthToken } from "../networking";
+import { MCPOAuth2Config, MCPOAuthToken, OAUTH2_TOKEN_MODE } from "./types";
+import {
+  authorizeInPopup,
+  clearUserOAuthToken,
+  formatTokenExpiry,
+  getValidUserOAuthToken,
+  saveUserOAuthToken,
+} from "./oauth_utils";
+
+interface OAuthConnectProps {
+  serverId: string;
+  oauth2?: MCPOAuth2Config | null;
+  accessToken: string | null;
+  onToken: (accessToken: string) => void;
+}
+
+const SharedTokenStatus = ({ serverId, accessToken }: { serverId: string; accessToken: string | null }) => {
+  const { data, isLoading } = useQuery({
+    queryKey: ["mcpOAuthSharedToken", serverId],
+    queryFn: () => {
+      if (!accessToken) throw new Error("Access Token required");
+      return getMCPOAuthSharedTokenStatus(accessToken, serverId);
+    },
+    enabled: !!accessToken,
+  });
+
+  return (
+    <div className="space-y-1">
+      <Text className="text-sm font-medium text-gray-700">OAuth (shared) {data?.connected ? "✓" : ""}</Text>
+      <Text className="text-xs text-gray-500">
+        {isLoading
+          ? "Checking authorization..."
+          : data?.connected
+          ? `Using the admin-authorized token · ${formatTokenExpiry(data.expires_at)}`
+          : "Not authorized yet - an admin needs to authorize this server from its settings"}
+      </Text>
+    </div>
+  );
+};
+
+/**
+ * Authentication for OAuth MCP servers - users connect their own account (per-user mode)
+ * or see the status of the admin-authorized token (shared mode)
+ */
+export function OAuthConnect({ serverId, oauth2, accessToken, onToken }: OAuthConnectProps) {
+  const [token, setToken] = useState<MCPOAuthToken | null>(null);
+  const [isConnecting, setIsConnecting] = useState(false);
+
+  const applyToken = (newToken: MCPOAuthToken | null) => {
+    setToken(newToken);
+    onToken(newToken?.access_token || "");
+  };
+
+  // Pick up a token from a previous session, refreshing it if needed
+  useEffect(() => {
+    if (!accessToken || oauth2?.token_mode === OAUTH2_TOKEN_MODE.SHARED) return;
+    getValidUserOAuthToken(accessToken, serverId).then(applyToken);
+  }, [serverId, accessToken, oauth2?.token_mode]);
+
+  // Refresh shortly before the token expires, so long sessions keep working
+  useEffect(() => {
+    if (!accessToken || !token?.expires_at || !token.refresh_token) return;
+    const refreshInMs = Math.max(0, (token.expires_at - 60) * 1000 - Date.now());
+    const timer = window.setTimeout(() => {
+      getValidUserOAuthToken(accessToken, serverId).then(applyToken);
+    }, refreshInMs);
+    return () => window.clearTimeout(timer);
+  }, [token, accessToken, serverId]);
+
+  if (!oauth2) {
+    return <Text className="text-xs text-gray-500">This server has no OAuth configuration - edit it to set one up.</Text>;
+  }
+
+  if (oauth2.token_mode === OAUTH2_TOKEN_MODE.SHARED) {
+    return <SharedTokenStatus serverId={serverId} accessToken={accessToken} />;
+  }
+
+  const handleConnect = async () => {
+    if (!accessToken) return;
+    setIsConnecting(true);
+    try {
+      const authorization = await authorizeInPopup(oauth2);
+      const newToken: MCPOAuthToken = await requestMCPOAuthToken(accessToken, {
+        grant_type: "authorization_code",
+        server_id: serverId,
+        code: authorization.code,
+        code_verifier: authorization.codeVerifier,
+        redirect_uri: authorization.redirectUri,
+      });
+      saveUserOAuthToken(serverId, newToken);
+      applyToken(newToken);
+      message.success("Connected");
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleDisconnect = () => {
+    clearUserOAuthToken(serverId);
+    applyToken(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Text className="text-sm font-medium text-gray-700">OAuth {token ? "✓" : ""}</Text>
+        <div className="flex gap-2">
+          {token && (
+            <Button onClick={handleDisconnect} size="xs" variant="light" className="text-xs">
+              Disconnect
+            </Button>
+          )}
+          <Button onClick={handleConnect} size="sm" variant="secondary" className="text-xs" loading={isConnecting}>
+            {token ? "Reconnect" : "Connect"}
+          </Button>
+        </div>
+      </div>
+      <Text className="text-xs text-gray-500">
+        {token ? `Connected with your account · ${formatTokenExpiry(token.expires_at)}` : "Connect your account to use this server"}
+      </Text>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import React from "react";
+import ReactMarkdown from "react-markdown";
+import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
+import { coy } from "react-syntax-highlighter/dist/esm/styles/prism";
+import { Tooltip, message } from "antd";
+import { CopyOutlined, DownloadOutlined } from "@ant-design/icons";
+import { MCPResourceContents } from "./types";
+import { base64DataUrl, resourceContentKind, resourceText } from "./resource_utils";
+
+const prettyJson = (text: string) => {
+  try {
+    return JSON.stringify(JSON.parse(text), null, 2);
+  } catch {
+    return text;
+  }
+};
+
+const downloadName = (uri: string) => uri.split(/[/:]/).filter(Boolean).pop() || "resource";
+
+const MEDIA_KINDS = ["image", "audio", "video", "pdf", "binary"];
+
+/**
+ * Displays one entry of a resource's `contents`, choosing the viewer from its MIME type
+ */
+export function ResourceContentView({ contents }: { contents: MCPResourceContents }) {
+  const kind = resourceContentKind(contents);
+  const isMedia = MEDIA_KINDS.includes(kind) && contents.blob !== undefined;
+  const text = isMedia ? null : resourceText(contents);
+  const [showSource, setShowSource] = React.useState(false);
+
+  const handleCopy = () => {
+    if (text === null) return;
+    navigator.clipboard.writeText(text);
+    message.success("Content copied to clipboard");
+  };
+
+  const renderBody = () => {
+    if (isMedia) {
+      const url = base64DataUrl(contents.mimeType, contents.blob!);
+      switch (kind) {
+        case "image":
+          // eslint-disable-next-line @next/next/no-img-element
+          return <img src={url} alt={contents.uri} className="max-w-full h-auto rounded border border-gray-200" />;
+        case "audio":
+          return <audio controls src={url} className="w-full" />;
+        case "video":
+          return <video controls src={url} className="max-w-full rounded" />;
+        case "pdf":
+          return <object data={url} type="application/pdf" className="w-full h-[60vh] rounded border border-gray-200" />;
+        default:
+          return (
+            <p className="text-xs text-gray-500">
+              Binary content ({contents.mimeType || "unknown type"}) - use the download button to save it.
+            </p>
+          );
+      }
+    }
+
+    if (text === null) {
+      return <p className="text-xs text-gray-500">This resource has no content.</p>;
+    }
+
+    if (kind === "markdown" && !showSource) {
+      return (
+        <div className="text-sm text-gray-800 space-y-2 [&_h1]:text-lg [&_h1]:font-semibold [&_h2]:text-base [&_h2]:font-semibold [&_h3]:font-semibold [&_ul]:list-disc [&_ul]:pl-5 [&_ol]:list-decimal [&_ol]:pl-5 [&_a]:text-blue-600 [&_a]:underline [&_code]:bg-gray-100 [&_code]:px-1 [&_code]:rounded [&_pre]:bg-gray-50 [&_pre]:p-2 [&_pre]:rounded [&_pre]:overflow-x-auto">
+          <ReactMarkdown>{text}</ReactMarkdown>
+        </div>
+      );
+    }
+    if (kind === "html" && !showSource) {
+      // An empty sandbox keeps scripts and forms in the page from running
+      return <iframe sandbox="" srcDoc={text} title={contents.uri} className="w-full h-[60vh] rounded border border-gray-200 bg-white" />;
+    }
+    if (kind === "json" || kind === "html" || kind === "markdown") {
+      return (
+        <SyntaxHighlighter
+          style={coy as any}
+          language={kind === "json" ? "json" : kind === "html" ? "markup" : "markdown"}
+          wrapLines={true}
+          wrapLongLines={true}
+          customStyle={{ margin: 0, fontSize: "12px" }}
+        >
+          {kind === "json" ? prettyJson(text) : text}
+        </SyntaxHighlighter>
+      );
+    }
+    return <pre className="text-xs font-mono whitespace-pre-wrap break-all text-gray-800">{text}</pre>;
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg overflow-hidden">
+      <div className="bg-gray-50 px-3 py-1 border-b border-gray-200 flex items-center justify-between">
+        <span className="text-xs font-mono text-gray-600 truncate">{contents.uri}</span>
+        <div className="flex items-center gap-2 flex-shrink-0 ml-2">
+          {contents.mimeType && (
+            <span className="text-xs px-2 py-0.5 rounded bg-white border border-gray-200 text-gray-600">
+              {contents.mimeType}
+            </span>
+          )}
+          {(kind === "markdown" || kind === "html") && (
+            <button
+              onClick={() => setShowSource(!showSource)}
+              className="text-xs text-blue-600 hover:text-blue-800"
+            >
+              {showSource ? "Preview" : "Source"}
+            </button>
+          )}
+          {text !== null && (
+            <Tooltip title="Copy content">
+              <button onClick={handleCopy} className="text-gray-400 hover:text-gray-600">
+                <CopyOutlined />
+              </button>
+            </Tooltip>
+          )}
+          {contents.blob !== undefined && (
+            <Tooltip title="Download">
+              <a
+                href={base64DataUrl(contents.mimeType, contents.blob)}
+                download={downloadName(contents.uri)}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <DownloadOutlined />
+              </a>
+            </Tooltip>
+          )}
+        </div>
+      </div>
+      <div className="p-3 max-h-[60vh] overflow-auto">{renderBody()}</div>
+    </div>
+  );
+}
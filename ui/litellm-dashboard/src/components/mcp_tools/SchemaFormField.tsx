@@ -0,0 +1,370 @@
+import React from "react";
+import { TextInput } from "@tremor/react";
+import { Form, Input, Select, Tooltip } from "antd";
+import { DeleteOutlined, InfoCircleOutlined, PlusOutlined } from "@ant-design/icons";
+import {
+  JSONSchema,
+  fromDateTimeLocal,
+  matchingVariant,
+  resolveSchema,
+  schemaDefaults,
+  schemaType,
+  schemaVariants,
+  toDateTimeLocal,
+  variantLabel,
+} from "./schema_utils";
+
+type NamePath = (string | number)[];
+
+interface FieldProps {
+  name: NamePath; // relative to the enclosing Form.List, if any
+  path: NamePath; // absolute, for reading and resetting values through the form instance
+  schema: JSONSchema;
+  root: JSONSchema;
+  label?: string;
+  required: boolean; // listed in the parent's `required`
+  enforceRequired: boolean; // false below optional objects, which may be left out entirely
+}
+
+const inputClassName =
+  "w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm transition-colors";
+
+function FieldLabel({ label, required, description }: { label?: string; required: boolean; description?: string }) {
+  if (!label) return null;
+  return (
+    <span className="text-sm font-medium text-gray-700 flex items-center">
+      {label}{" "}
+      {required && <span className="text-red-500 ml-1">*</span>}
+      {description && (
+        <Tooltip title={description}>
+          <InfoCircleOutlined className="ml-2 text-gray-400 hover:text-gray-600" />
+        </Tooltip>
+      )}
+    </span>
+  );
+}
+
+// Hints for constraints the input itself can't show
+const constraintHint = (schema: JSONSchema): string | undefined => {
+  const hints: string[] = [];
+  if (schema.minimum !== undefined && schema.maximum !== undefined) hints.push(`Between ${schema.minimum} and ${schema.maximum}`);
+  else if (schema.minimum !== undefined) hints.push(`At least ${schema.minimum}`);
+  else if (schema.maximum !== undefined) hints.push(`At most ${schema.maximum}`);
+  if (schema.minLength !== undefined || schema.maxLength !== undefined) {
+    hints.push(`${schema.minLength ?? 0}-${schema.maxLength ?? "∞"} characters`);
+  }
+  if (schema.pattern) hints.push(`Pattern: ${schema.pattern}`);
+  return hints.length > 0 ? hints.join(" · ") : undefined;
+};
+
+/**
+ * Free-form JSON for values the schema doesn't describe well enough to build inputs for
+ */
+function JsonValueInput({ value, onChange }: { value?: any; onChange?: (value: any) => void }) {
+  const format = (current: any) =>
+    current === undefined ? "" : typeof current === "string" ? current : JSON.stringify(current, null, 2);
+  const [text, setText] = React.useState(() => format(value));
+  const lastEmitted = React.useRef(value);
+
+  // Pick up values set from outside, e.g. when replaying a past call
+  React.useEffect(() => {
+    if (value !== lastEmitted.current) {
+      lastEmitted.current = value;
+      setText(format(value));
+    }
+  }, [value]);
+
+  const handleChange = (next: string) => {
+    setText(next);
+    let parsed: any;
+    try {
+      parsed = next.trim() === "" ? undefined : JSON.parse(next);
+    } catch {
+      parsed = next; // Sent as a plain string
+    }
+    lastEmitted.current = parsed;
+    onChange?.(parsed);
+  };
+
+  return (
+    <Input.TextArea
+      value={text}
+      onChange={(e) => handleChange(e.target.value)}
+      placeholder="JSON value"
+      autoSize={{ minRows: 2, maxRows: 8 }}
+      className="font-mono text-xs"
+    />
+  );
+}
+
+function LeafField({ name, schema, label, required, enforceRequired }: FieldProps) {
+  const type = schemaType(schema);
+  const options: any[] | null = Array.isArray(schema.enum) ? schema.enum : schema.const !== undefined ? [schema.const] : null;
+  const placeholder = schema.description || (label ? `Enter ${label}` : "Enter a value");
+
+  const asString = (value: any) => ({ value: value === undefined || value === null ? "" : String(value) });
+  let input: React.ReactNode;
+  let normalize: ((value: any) => any) | undefined;
+  let getValueProps: ((value: any) => Record<string, unknown>) | undefined;
+
+  if (options) {
+    input = (
+      <select className={inputClassName}>
+        <option value="">Select {label ?? "a value"}</option>
+        {options.map((option) => (
+          <option key={String(option)} value={String(option)}>
+            {String(option)}
+          </option>
+        ))}
+      </select>
+    );
+    normalize = (value) => (value === "" ? undefined : options.find((option) => String(option) === value));
+    getValueProps = asString;
+  } else if (type === "boolean") {
+    input = (
+      <select className={inputClassName}>
+        <option value="">Select {label ?? "a value"}</option>
+        <option value="true">True</option>
+        <option value="false">False</option>
+      </select>
+    );
+    normalize = (value) => (value === "" ? undefined : value === "true");
+    getValueProps = asString;
+  } else if (type === "number" || type === "integer") {
+    input = (
+      <input
+        type="number"
+        min={schema.minimum}
+        max={schema.maximum}
+        step={type === "integer" ? 1 : "any"}
+        placeholder={placeholder}
+        className={inputClassName}
+      />
+    );
+    normalize = (value) => (value === "" ? undefined : Number(value));
+    getValueProps = asString;
+  } else if (type === "string" && schema.format === "date") {
+    input = <input type="date" className={inputClassName} />;
+    getValueProps = asString;
+  } else if (type === "string" && schema.format === "date-time") {
+    input = <input type="datetime-local" className={inputClassName} />;
+    normalize = fromDateTimeLocal;
+    getValueProps = (value) => ({ value: toDateTimeLocal(value) });
+  } else if (type === "string") {
+    input = (
+      <TextInput
+        type={schema.format === "email" ? "email" : schema.format === "uri" || schema.format === "url" ? "url" : "text"}
+        placeholder={placeholder}
+        className="rounded-lg border-gray-300 focus:border-blue-500 focus:ring-blue-500"
+      />
+    );
+  } else {
+    input = <JsonValueInput />;
+  }
+
+  return (
+    <Form.Item
+      label={<FieldLabel label={label} required={required} description={schema.description} />}
+      name={name}
+      rules={[{ required: required && enforceRequired, message: `Please enter ${label ?? "a value"}` }]}
+      normalize={normalize}
+      getValueProps={getValueProps}
+      extra={constraintHint(schema)}
+      className="mb-3"
+    >
+      {input}
+    </Form.Item>
+  );
+}
+
+function ObjectField({ name, path, schema, root, label, required, enforceRequired }: FieldProps) {
+  return (
+    <div className="mb-3">
+      <FieldLabel label={label} required={required} description={schema.description} />
+      <div className={`border border-gray-200 rounded-lg p-3 bg-gray-50 ${label ? "mt-2" : ""}`}>
+        {Object.entries(schema.properties ?? {}).map(([key, property]) => (
+          <SchemaFormField
+            key={key}
+            name={[...name, key]}
+            path={[...path, key]}
+            schema={property as JSONSchema}
+            root={root}
+            label={key}
+            required={!!schema.required?.includes(key)}
+            enforceRequired={enforceRequired && required}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ArrayField({ name, path, schema, root, label, required, enforceRequired }: FieldProps) {
+  const items = resolveSchema(schema.items, root);
+
+  // A list of enum values reads best as a multi-select
+  if (Array.isArray(items.enum)) {
+    return (
+      <Form.Item
+        label={<FieldLabel label={label} required={required} description={schema.description} />}
+        name={name}
+        rules={[{ required: required && enforceRequired, type: "array", min: 1, message: `Please select ${label ?? "a value"}` }]}
+        className="mb-3"
+      >
+        <Select
+          mode="multiple"
+          placeholder={`Select ${label ?? "values"}`}
+          options={items.enum.map((option: any) => ({ value: option, label: String(option) }))}
+        />
+      </Form.Item>
+    );
+  }
+
+  return (
+    <div className="mb-3">
+      <Form.List name={name}>
+        {(fields, { add, remove }) => (
+          <>
+            <div className="flex items-center justify-between">
+              <FieldLabel label={label} required={required} description={schema.description} />
+              <button
+                type="button"
+                onClick={() => add(schemaDefaults(items, root))}
+                disabled={schema.maxItems !== undefined && fields.length >= schema.maxItems}
+                className="text-xs text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+              >
+                <PlusOutlined className="mr-1" />
+                Add item
+              </button>
+            </div>
+            <div className="border border-gray-200 rounded-lg p-3 bg-gray-50 mt-2 space-y-2">
+              {fields.length === 0 && <p className="text-xs text-gray-500">No items</p>}
+              {fields.map((field, index) => (
+                <div key={field.key} className="flex items-start gap-2">
+                  <span className="text-xs text-gray-400 mt-2 w-5 flex-shrink-0">{index + 1}.</span>
+                  <div className="flex-1 min-w-0">
+                    <SchemaFormField
+                      name={[field.name]}
+                      path={[...path, field.name]}
+                      schema={items}
+                      root={root}
+                      required={true}
+                      enforceRequired={true}
+                    />
+                  </div>
+                  <Tooltip title="Remove item">
+                    <button
+                      type="button"
+                      onClick={() => remove(field.name)}
+                      className="text-gray-400 hover:text-red-500 mt-2"
+                    >
+                      <DeleteOutlined />
+                    </button>
+                  </Tooltip>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </Form.List>
+      {(schema.minItems !== undefined || schema.maxItems !== undefined) && (
+        <p className="text-xs text-gray-500 mt-1">
+          {schema.minItems ?? 0}-{schema.maxItems ?? "∞"} items
+        </p>
+      )}
+    </div>
+  );
+}
+
+function VariantField({ variants, ...props }: FieldProps & { variants: JSONSchema[] }) {
+  const { path, root, label, required, schema } = props;
+  const form = Form.useFormInstance();
+  const [selected, setSelected] = React.useState(() => matchingVariant(form.getFieldValue(path), variants, root));
+
+  const handleSelect = (index: number) => {
+    setSelected(index);
+    // A value entered for one variant rarely fits another
+    form.setFieldValue(path, schemaDefaults(variants[index], root));
+  };
+
+  return (
+    <div className="mb-3">
+      <div className="flex items-center justify-between mb-2">
+        <FieldLabel label={label} required={required} description={schema.description} />
+        <Select
+          size="small"
+          value={selected}
+          onChange={handleSelect}
+          options={variants.map((variant, index) => ({ value: index, label: variantLabel(variant, index) }))}
+          style={{ minWidth: 140 }}
+        />
+      </div>
+      <SchemaFormField
+        key={selected}
+        {...props}
+        schema={variants[selected]}
+        label={undefined}
+        enforceRequired={props.enforceRequired && required}
+      />
+    </div>
+  );
+}
+
+/**
+ * Renders the input for one schema node, recursing into objects, arrays and oneOf/anyOf variants
+ */
+export function SchemaFormField(props: FieldProps) {
+  const schema = resolveSchema(props.schema, props.root);
+
+  if (schema.oneOf || schema.anyOf) {
+    const variants = schemaVariants(schema, props.root);
+    if (variants.length > 1) {
+      return <VariantField {...props} schema={schema} variants={variants} />;
+    }
+    if (variants.length === 1) {
+      // Nullable field - render the single real option, keeping the outer description
+      const { oneOf, anyOf, ...rest } = schema;
+      return <SchemaFormField {...props} schema={{ ...variants[0], ...rest }} />;
+    }
+  }
+
+  const type = schemaType(schema);
+  if (type === "object" && schema.properties) {
+    return <ObjectField {...props} schema={schema} />;
+  }
+  if (type === "array") {
+    return <ArrayField {...props} schema={schema} />;
+  }
+  return <LeafField {...props} schema={schema} />;
+}
+
+/**
+ * The fields of a tool's input object, without the frame nested objects get.
+ * `namePrefix` places the values under a wrapper key such as `params`.
+ */
+export function SchemaFormFields({
+  schema,
+  root,
+  namePrefix = [],
+}: {
+  schema: JSONSchema;
+  root: JSONSchema;
+  namePrefix?: NamePath;
+}) {
+  return (
+    <div className="space-y-1">
+      {Object.entries(schema.properties ?? {}).map(([key, property]) => (
+        <SchemaFormField
+          key={key}
+          name={[...namePrefix, key]}
+          path={[...namePrefix, key]}
+          schema={property as JSONSchema}
+          root={root}
+          label={key}
+          required={!!schema.required?.includes(key)}
+          enforceRequired={true}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,293 @@
+import React from "react";
+import { Button } from "@tremor/react";
+import { Checkbox, Drawer, Modal, Popconfirm, Select, Tooltip } from "antd";
+import { DownloadOutlined, EditOutlined, HistoryOutlined, ReloadOutlined } from "@ant-design/icons";
+import { MCPToolInvocation } from "./types";
+import { DiffLine, diffLines, invocationOutput, MAX_HISTORY_ENTRIES } from "./tool_history";
+
+const ALL_TOOLS = "__all__";
+
+function DiffView({ lines }: { lines: DiffLine[] }) {
+  if (lines.every((line) => line.type === "same")) {
+    return <p className="text-xs text-gray-500">No differences</p>;
+  }
+  return (
+    <div className="border border-gray-200 rounded max-h-96 overflow-auto bg-gray-50">
+      <pre className="text-xs font-mono">
+        {lines.map((line, idx) => (
+          <div
+            key={idx}
+            className={`px-2 whitespace-pre-wrap break-all ${
+              line.type === "added"
+                ? "bg-green-50 text-green-800"
+                : line.type === "removed"
+                ? "bg-red-50 text-red-800"
+                : "text-gray-600"
+            }`}
+          >
+            {line.type === "added" ? "+ " : line.type === "removed" ? "- " : "  "}
+            {line.text}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
+
+const describeInvocation = (invocation: MCPToolInvocation) =>
+  `${invocation.tool_name} · ${new Date(invocation.timestamp).toLocaleString()} · ${(invocation.latency_ms / 1000).toFixed(2)}s`;
+
+export function ToolHistoryDrawer({
+  open,
+  onClose,
+  history,
+  availableTools,
+  isLoading,
+  onRerun,
+  onEdit,
+  onExport,
+  onClear,
+}: {
+  open: boolean;
+  onClose: () => void;
+  history: MCPToolInvocation[];
+  availableTools: string[];
+  isLoading: boolean;
+  onRerun: (invocation: MCPToolInvocation) => void;
+  onEdit: (invocation: MCPToolInvocation) => void;
+  onExport: (invocations: MCPToolInvocation[]) => void;
+  onClear: () => void;
+}) {
+  const [toolFilter, setToolFilter] = React.useState<string>(ALL_TOOLS);
+  const [expandedId, setExpandedId] = React.useState<string | null>(null);
+  const [compareIds, setCompareIds] = React.useState<string[]>([]);
+  const [isDiffVisible, setIsDiffVisible] = React.useState(false);
+
+  const toolNames = React.useMemo(
+    () => Array.from(new Set(history.map((invocation) => invocation.tool_name))).sort(),
+    [history]
+  );
+
+  const visibleHistory =
+    toolFilter === ALL_TOOLS ? history : history.filter((invocation) => invocation.tool_name === toolFilter);
+
+  // Selections can outlive their entries once the history is trimmed or cleared
+  const compared = React.useMemo(
+    () =>
+      compareIds
+        .map((id) => history.find((invocation) => invocation.id === id))
+        .filter((invocation): invocation is MCPToolInvocation => invocation !== undefined),
+    [compareIds, history]
+  );
+
+  const toggleCompare = (id: string, checked: boolean) => {
+    setCompareIds((prev) => {
+      if (!checked) return prev.filter((item) => item !== id);
+      // Keep the two most recent picks
+      return [...prev.filter((item) => item !== id), id].slice(-2);
+    });
+  };
+
+  const diff = React.useMemo(() => {
+    if (!isDiffVisible || compared.length !== 2) return null;
+    // Compare in chronological order so additions read as "what changed since"
+    const [before, after] = [...compared].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+    return {
+      before,
+      after,
+      argumentLines: diffLines(JSON.stringify(before.arguments, null, 2), JSON.stringify(after.arguments, null, 2)),
+      outputLines: diffLines(invocationOutput(before), invocationOutput(after)),
+    };
+  }, [isDiffVisible, compared]);
+
+  return (
+    <Drawer
+      title={
+        <span className="flex items-center">
+          <HistoryOutlined className="mr-2" /> Invocation History
+          <span className="ml-2 text-xs font-normal text-gray-500">
+            {history.length} / {MAX_HISTORY_ENTRIES}
+          </span>
+        </span>
+      }
+      placement="right"
+      width={640}
+      open={open}
+      onClose={onClose}
+    >
+      <div className="flex items-center justify-between mb-4 gap-2">
+        <Select
+          value={toolFilter}
+          onChange={setToolFilter}
+          style={{ width: 220 }}
+          size="small"
+          options={[
+            { value: ALL_TOOLS, label: "All tools" },
+            ...toolNames.map((name) => ({ value: name, label: name })),
+          ]}
+        />
+        <div className="flex items-center gap-2">
+          <Tooltip title="Select two calls to compare their results">
+            <Button
+              size="xs"
+              variant="secondary"
+              disabled={compared.length !== 2}
+              onClick={() => setIsDiffVisible(true)}
+            >
+              Compare{compared.length > 0 ? ` (${compared.length}/2)` : ""}
+            </Button>
+          </Tooltip>
+          <Tooltip title="Download the calls shown as JSON fixtures">
+            <Button
+              size="xs"
+              variant="secondary"
+              icon={DownloadOutlined}
+              disabled={visibleHistory.length === 0}
+              onClick={() => onExport(visibleHistory)}
+            >
+              Export
+            </Button>
+          </Tooltip>
+          <Popconfirm
+            title="Clear the invocation history for this server?"
+            onConfirm={() => {
+              setCompareIds([]);
+              onClear();
+            }}
+            okText="Clear"
+            disabled={history.length === 0}
+          >
+            <Button size="xs" variant="light" color="red" disabled={history.length === 0}>
+              Clear
+            </Button>
+          </Popconfirm>
+        </div>
+      </div>
+
+      {visibleHistory.length === 0 ? (
+        <div className="text-center py-12 text-gray-500">
+          <HistoryOutlined style={{ fontSize: "32px" }} className="text-gray-300 mb-2" />
+          <p className="text-sm font-medium text-gray-700">No tool calls yet</p>
+          <p className="text-xs">Calls made in the testing playground are recorded here.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {visibleHistory.map((invocation) => {
+            const isAvailable = availableTools.includes(invocation.tool_name);
+            const isExpanded = expandedId === invocation.id;
+            return (
+              <div
+                key={invocation.id}
+                className={`border rounded-lg p-3 ${
+                  compareIds.includes(invocation.id) ? "border-blue-400 bg-blue-50" : "border-gray-200 bg-white"
+                }`}
+              >
+                <div className="flex items-start gap-2">
+                  <Checkbox
+                    className="mt-0.5"
+                    checked={compareIds.includes(invocation.id)}
+                    onChange={(e) => toggleCompare(invocation.id, e.target.checked)}
+                  />
+                  <div
+                    className="flex-1 min-w-0 cursor-pointer"
+                    onClick={() => setExpandedId(isExpanded ? null : invocation.id)}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span
+                        className={`w-2 h-2 rounded-full flex-shrink-0 ${
+                          invocation.error !== null ? "bg-red-500" : "bg-green-500"
+                        }`}
+                      />
+                      <span className="font-mono text-xs font-medium text-gray-900 truncate">
+                        {invocation.tool_name}
+                      </span>
+                      <span className="text-xs text-gray-500">{(invocation.latency_ms / 1000).toFixed(2)}s</span>
+                      <span className="text-xs text-gray-400 ml-auto flex-shrink-0">
+                        {new Date(invocation.timestamp).toLocaleString()}
+                      </span>
+                    </div>
+                    <p className="text-xs font-mono text-gray-600 truncate mt-1">
+                      {JSON.stringify(invocation.arguments)}
+                    </p>
+                    {invocation.error !== null && (
+                      <p className="text-xs text-red-600 truncate mt-1">{invocation.error}</p>
+                    )}
+                  </div>
+                </div>
+
+                {isExpanded && (
+                  <div className="mt-2 space-y-2">
+                    <div>
+                      <p className="text-xs font-medium text-gray-700 mb-1">Arguments</p>
+                      <pre className="text-xs font-mono whitespace-pre-wrap break-all bg-gray-50 border border-gray-200 rounded p-2 max-h-48 overflow-auto">
+                        {JSON.stringify(invocation.arguments, null, 2)}
+                      </pre>
+                    </div>
+                    <div>
+                      <p className="text-xs font-medium text-gray-700 mb-1">
+                        {invocation.error !== null ? "Error" : "Result"}
+                      </p>
+                      <pre className="text-xs font-mono whitespace-pre-wrap break-all bg-gray-50 border border-gray-200 rounded p-2 max-h-64 overflow-auto">
+                        {invocation.error !== null ? invocation.error : JSON.stringify(invocation.result, null, 2)}
+                      </pre>
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex justify-end gap-2 mt-2">
+                  <Tooltip title={isAvailable ? "Open in the playground to edit the arguments" : "This tool is no longer available"}>
+                    <Button
+                      size="xs"
+                      variant="light"
+                      icon={EditOutlined}
+                      disabled={!isAvailable}
+                      onClick={() => onEdit(invocation)}
+                    >
+                      Edit & Re-run
+                    </Button>
+                  </Tooltip>
+                  <Tooltip title={isAvailable ? "Call the tool again with the same arguments" : "This tool is no longer available"}>
+                    <Button
+                      size="xs"
+                      variant="secondary"
+                      icon={ReloadOutlined}
+                      disabled={!isAvailable || isLoading}
+                      onClick={() => onRerun(invocation)}
+                    >
+                      Re-run
+                    </Button>
+                  </Tooltip>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Modal
+        title="Compare Tool Calls"
+        open={isDiffVisible && diff !== null}
+        onCancel={() => setIsDiffVisible(false)}
+        footer={null}
+        width={800}
+      >
+        {diff && (
+          <div className="space-y-4">
+            <div className="text-xs space-y-1">
+              <p className="text-red-700">- {describeInvocation(diff.before)}</p>
+              <p className="text-green-700">+ {describeInvocation(diff.after)}</p>
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-1">Arguments</p>
+              <DiffView lines={diff.argumentLines} />
+            </div>
+            <div>
+              <p className="text-sm font-medium text-gray-700 mb-1">Result</p>
+              <DiffView lines={diff.outputLines} />
+            </div>
+          </div>
+        )}
+      </Modal>
+    </Drawer>
+  );
+}
@@ -1,8 +1,11 @@
 import React from "react";
-import { Button, Callout, TextInput } from "@tremor/react";
+import { Button, Callout } from "@tremor/react";
 import { MCPTool, InputSchema } from "./types";
 import { Form, Tooltip, message } from "antd";
 import { InfoCircleOutlined, ClockCircleOutlined } from "@ant-design/icons";
+import { SchemaFormFields } from "./SchemaFormField";
+import { JSONSchema, pruneFormValues, resolveSchema, schemaDefaults } from "./schema_utils";
+import { validateJsonSchema } from "../chat_ui/json_schema";
 
 
 export function ToolTestPanel({
@@ -14,6 +17,7 @@ export function ToolTestPanel({
   result,
   error,
   onClose,
+  prefill,
 }: {
   tool: MCPTool;
   needsAuth: boolean;
@@ -23,11 +27,15 @@ export function ToolTestPanel({
   result: any | null;
   error: Error | null;
   onClose: () => void;
+  // Arguments of a past call to load into the form; `id` changes on every request
+  prefill?: { id: string; arguments: Record<string, any> } | null;
 }) {
   const [form] = Form.useForm();
   const [viewMode, setViewMode] = React.useState<'formatted' | 'json'>('formatted');
   const [startTime, setStartTime] = React.useState<number | null>(null);
   const [duration, setDuration] = React.useState<number | null>(null);
+  const [validationErrors, setValidationErrors] = React.useState<string[]>([]);
+  const [formVersion, setFormVersion] = React.useState(0);
 
   // Create a placeholder schema if we only have the "tool_input_schema" string
   const schema: InputSchema = React.useMemo(() => {
@@ -47,58 +55,42 @@ export function ToolTestPanel({
     return tool.inputSchema as InputSchema;
   }, [tool.inputSchema]);
 
-  // Check if this is a nested params structure and extract the actual parameters
-  const actualSchema: InputSchema = React.useMemo(() => {
-    if (schema.properties && schema.properties.params && 
-        schema.properties.params.type === "object" && 
-        schema.properties.params.properties) {
-      // This is a nested params structure, extract the actual parameters
-      return {
-        type: "object",
-        properties: schema.properties.params.properties,
-        required: schema.properties.params.required || [],
-      };
-    }
-    return schema;
-  }, [schema]);
+  // Tools that wrap their arguments in a single `params` object get its fields shown at the top level
+  const isNestedParams = !!(schema.properties && schema.properties.params &&
+                            schema.properties.params.type === "object" &&
+                            schema.properties.params.properties);
+  const fieldsSchema: JSONSchema = isNestedParams ? resolveSchema(schema.properties.params, schema) : schema;
+
+  const initialValues = React.useMemo(() => schemaDefaults(schema, schema) ?? {}, [schema]);
+
+  // Start from the new tool's defaults instead of the previous tool's values
+  React.useEffect(() => {
+    form.resetFields();
+    setValidationErrors([]);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [tool.name]);
+
+  // Load a past call's arguments into the form
+  React.useEffect(() => {
+    if (!prefill) return;
+    form.resetFields();
+    form.setFieldsValue(prefill.arguments);
+    setValidationErrors([]);
+    // Remount the fields so oneOf/anyOf selectors pick the variant matching the loaded value
+    setFormVersion((version) => version + 1);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [prefill?.id]);
+
+  const handleSubmit = () => {
+    // Field values are already typed by their inputs, so only empty fields need removing
+    const submitValues = pruneFormValues(form.getFieldsValue(true), schema, schema) ?? {};
+    const errors = validateJsonSchema(submitValues, schema);
+    setValidationErrors(errors);
+    if (errors.length > 0) return;
 
-  const handleSubmit = (values: Record<string, any>) => {
     const start = Date.now();
     setStartTime(start);
     setDuration(null);
-    
-    // Convert form values to proper types based on schema
-    const convertedValues: Record<string, any> = {};
-    const schemaToUse = actualSchema;
-    
-    Object.entries(values).forEach(([key, value]) => {
-      const prop = schemaToUse.properties?.[key];
-      if (prop && value !== null && value !== undefined && value !== "") {
-        switch (prop.type) {
-          case "boolean":
-            convertedValues[key] = value === "true" || value === true;
-            break;
-          case "number":
-            convertedValues[key] = Number(value);
-            break;
-          case "string":
-            convertedValues[key] = String(value);
-            break;
-          default:
-            convertedValues[key] = value;
-        }
-      } else if (value !== null && value !== undefined && value !== "") {
-        convertedValues[key] = value;
-      }
-    });
-    
-    // If this was a nested params structure, wrap the values back in params
-    const submitValues = (schema.properties && schema.properties.params && 
-                         schema.properties.params.type === "object" && 
-                         schema.properties.params.properties) 
-      ? { params: convertedValues } 
-      : convertedValues;
-    
     onSubmit(submitValues);
   };
 
@@ -228,26 +220,14 @@ export function ToolTestPanel({
           </div>
           
           <div className="p-4">
-            <Form form={form} onFinish={handleSubmit} layout="vertical" className="space-y-3">
-              {typeof tool.inputSchema === "string" ? (
-                <div className="space-y-3">
-                  <Form.Item
-                    label={
-                      <span className="text-sm font-medium text-gray-700">
-                        Input <span className="text-red-500">*</span>
-                      </span>
-                    }
-                    name="input"
-                    rules={[{ required: true, message: "Please enter input for this tool" }]}
-                    className="mb-3"
-                  >
-                    <TextInput
-                      placeholder="Enter input for this tool"
-                      className="rounded-lg border-gray-300 focus:border-blue-500 focus:ring-blue-500"
-                    />
-                  </Form.Item>
-                </div>
-              ) : actualSchema.properties === undefined ? (
+            <Form
+              form={form}
+              onFinish={handleSubmit}
+              initialValues={initialValues}
+              layout="vertical"
+              className="space-y-3"
+            >
+              {Object.keys(fieldsSchema.properties ?? {}).length === 0 ? (
                 <div className="text-center py-6 bg-gray-50 rounded-lg border border-gray-200">
                   <div className="max-w-sm mx-auto">
                     <h4 className="text-sm font-medium text-gray-900 mb-1">No Parameters Required</h4>
@@ -255,76 +235,22 @@ export function ToolTestPanel({
                   </div>
                 </div>
               ) : (
-                <div className="space-y-3">
-                  {Object.entries(actualSchema.properties).map(([key, prop]) => (
-                    <Form.Item
-                      key={key}
-                      label={
-                        <span className="text-sm font-medium text-gray-700 flex items-center">
-                          {key}{" "}
-                          {actualSchema.required?.includes(key) && <span className="text-red-500">*</span>}
-                          {prop.description && (
-                            <Tooltip title={prop.description}>
-                              <InfoCircleOutlined className="ml-2 text-gray-400 hover:text-gray-600" />
-                            </Tooltip>
-                          )}
-                        </span>
-                      }
-                      name={key}
-                      rules={[
-                        {
-                          required: actualSchema.required?.includes(key),
-                          message: `Please enter ${key}`,
-                        },
-                      ]}
-                      className="mb-3"
-                    >
-                      {prop.type === "string" && prop.enum && (
-                        <select
-                          className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm transition-colors"
-                          defaultValue={prop.default}
-                        >
-                          {!actualSchema.required?.includes(key) && (
-                            <option value="">Select {key}</option>
-                          )}
-                          {prop.enum.map((value) => (
-                            <option key={value} value={value}>
-                              {value}
-                            </option>
-                          ))}
-                        </select>
-                      )}
-
-                      {prop.type === "string" && !prop.enum && (
-                        <TextInput
-                          placeholder={prop.description || `Enter ${key}`}
-                          className="rounded-lg border-gray-300 focus:border-blue-500 focus:ring-blue-500"
-                        />
-                      )}
-
-                      {prop.type === "number" && (
-                        <input
-                          type="number"
-                          placeholder={prop.description || `Enter ${key}`}
-                          className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm transition-colors"
-                        />
-                      )}
+                <SchemaFormFields
+                  key={`${tool.name}-${formVersion}`}
+                  schema={fieldsSchema}
+                  root={schema}
+                  namePrefix={isNestedParams ? ["params"] : []}
+                />
+              )}
 
-                      {prop.type === "boolean" && (
-                        <select
-                          className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm transition-colors"
-                          defaultValue={prop.default?.toString() || ""}
-                        >
-                          {!actualSchema.required?.includes(key) && (
-                            <option value="">Select {key}</option>
-                          )}
-                          <option value="true">True</option>
-                          <option value="false">False</option>
-                        </select>
-                      )}
-                    </Form.Item>
-                  ))}
-                </div>
+              {validationErrors.length > 0 && (
+                <Callout title="Arguments don't match the tool's input schema" color="red">
+                  <ul className="list-disc pl-4 text-xs space-y-0.5">
+                    {validationErrors.map((validationError) => (
+                      <li key={validationError} className="font-mono break-all">{validationError}</li>
+                    ))}
+                  </ul>
+                </Callout>
               )}
 
               <div className="pt-3 border-t border-gray-100">
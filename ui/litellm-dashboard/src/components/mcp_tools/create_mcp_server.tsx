@@ -2,11 +2,13 @@ import React, { useState } from "react"
 import { Modal, Tooltip, Form, Select, message, Button as AntdButton, Input } from "antd"
 import { InfoCircleOutlined } from "@ant-design/icons"
 import { Button, TextInput } from "@tremor/react"
-import { createMCPServer } from "../networking"
-import { MCPServer, MCPServerCostInfo } from "./types"
+import { createMCPServer, saveMCPOAuthSharedToken } from "../networking"
+import { AUTH_TYPE, MCPOAuthToken, MCPServer, MCPServerCostInfo, OAUTH2_TOKEN_MODE } from "./types"
 import MCPServerCostConfig from "./mcp_server_cost_config"
 import MCPConnectionStatus from "./mcp_connection_status"
 import StdioConfiguration from "./StdioConfiguration"
+import { OAuthConfiguration } from "./OAuthConfiguration"
+import { saveUserOAuthToken } from "./oauth_utils"
 import { isAdminRole } from "@/utils/roles"
 
 const asset_logos_folder = "../ui/assets/logos/"
@@ -36,6 +38,7 @@ const CreateMCPServer: React.FC<CreateMCPServerProps> = ({
   const [tools, setTools] = useState<any[]>([])
   const [transportType, setTransportType] = useState<string>("sse")
   const [searchValue, setSearchValue] = useState<string>("")
+  const [oauthToken, setOauthToken] = useState<MCPOAuthToken | null>(null)
 
   const handleCreate = async (formValues: Record<string, any>) => {
     setIsLoading(true)
@@ -83,16 +86,20 @@ const CreateMCPServer: React.FC<CreateMCPServerProps> = ({
         }
       }
 
+      const isOAuth2 = formValues.auth_type === AUTH_TYPE.OAUTH2
+
       // Prepare the payload with cost configuration
       const payload = {
         ...formValues,
         ...stdioFields,
         // Remove the raw stdio_config field as we've extracted its components
         stdio_config: undefined,
+        oauth2: undefined,
         mcp_info: {
           server_name: formValues.alias || formValues.url,
           description: formValues.description,
           mcp_server_cost_info: Object.keys(costConfig).length > 0 ? costConfig : null,
+          oauth2: isOAuth2 ? formValues.oauth2 : undefined,
         },
         mcp_access_groups: accessGroups,
       }
@@ -102,10 +109,24 @@ const CreateMCPServer: React.FC<CreateMCPServerProps> = ({
       if (accessToken != null) {
         const response = await createMCPServer(accessToken, payload)
 
+        // Keep the token authorized while testing the connection
+        if (isOAuth2 && oauthToken) {
+          if (formValues.oauth2?.token_mode === OAUTH2_TOKEN_MODE.SHARED) {
+            try {
+              await saveMCPOAuthSharedToken(accessToken, response.server_id, oauthToken)
+            } catch (error) {
+              message.warning("MCP Server created, but saving the shared OAuth token failed: " + error)
+            }
+          } else {
+            saveUserOAuthToken(response.server_id, oauthToken)
+          }
+        }
+
         message.success("MCP Server created successfully")
         form.resetFields()
         setCostConfig({})
         setTools([])
+        setOauthToken(null)
         setModalVisible(false)
         onCreateSuccess(response)
       }
@@ -121,6 +142,7 @@ const CreateMCPServer: React.FC<CreateMCPServerProps> = ({
     form.resetFields()
     setCostConfig({})
     setTools([])
+    setOauthToken(null)
     setModalVisible(false)
   }
 
@@ -294,10 +316,16 @@ const CreateMCPServer: React.FC<CreateMCPServerProps> = ({
                   <Select.Option value="api_key">API Key</Select.Option>
                   <Select.Option value="bearer_token">Bearer Token</Select.Option>
                   <Select.Option value="basic">Basic Auth</Select.Option>
+                  <Select.Option value="oauth2">OAuth 2.1</Select.Option>
                 </Select>
               </Form.Item>
             )}
 
+            {/* OAuth settings - only show for the oauth2 auth type */}
+            {transportType !== "stdio" && formValues.auth_type === AUTH_TYPE.OAUTH2 && (
+              <OAuthConfiguration accessToken={accessToken} token={oauthToken} onTokenChange={setOauthToken} />
+            )}
+
             {/* Stdio Configuration - only show for stdio transport */}
             <StdioConfiguration isVisible={transportType === "stdio"} />
 
@@ -350,7 +378,13 @@ const CreateMCPServer: React.FC<CreateMCPServerProps> = ({
 
           {/* Connection Status Section */}
           <div className="mt-8 pt-6 border-t border-gray-200">
-            <MCPConnectionStatus accessToken={accessToken} formValues={formValues} onToolsLoaded={setTools} />
+            <MCPConnectionStatus
+              accessToken={accessToken}
+              formValues={formValues}
+              onToolsLoaded={setTools}
+              authValue={oauthToken?.access_token}
+              tokenExpiresAt={oauthToken?.expires_at}
+            />
           </div>
 
           {/* Cost Configuration Section */}
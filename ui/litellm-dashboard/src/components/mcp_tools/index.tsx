@@ -1,4 +1,6 @@
 import MCPServers from './mcp_servers';
 import MCPToolsViewer from './mcp_tools';
+import MCPResourcesViewer from './mcp_resources';
+import MCPPromptsViewer from './mcp_prompts';
 
-export { MCPToolsViewer, MCPServers };
\ No newline at end of file
+export { MCPToolsViewer, MCPResourcesViewer, MCPPromptsViewer, MCPServers };
\ No newline at end of file
@@ -1,8 +1,10 @@
 import React, { useState, useEffect } from "react";
 import { Button, message, Spin, Alert, Collapse, Badge } from "antd";
-import { CheckCircleOutlined, ExclamationCircleOutlined, ReloadOutlined, ToolOutlined, InfoCircleOutlined } from "@ant-design/icons";
+import { CheckCircleOutlined, ExclamationCircleOutlined, ReloadOutlined, ToolOutlined, InfoCircleOutlined, ClockCircleOutlined } from "@ant-design/icons";
 import { Card, Title, Text } from "@tremor/react";
 import { testMCPToolsListRequest } from "../networking";
+import { AUTH_TYPE } from "./types";
+import { formatTokenExpiry } from "./oauth_utils";
 
 const { Panel } = Collapse;
 
@@ -10,20 +12,27 @@ interface MCPConnectionStatusProps {
   accessToken: string | null;
   formValues: Record<string, any>;
   onToolsLoaded?: (tools: any[]) => void;
+  authValue?: string; // e.g. the OAuth access token authorized in the form
+  tokenExpiresAt?: number | null;
 }
 
 const MCPConnectionStatus: React.FC<MCPConnectionStatusProps> = ({
   accessToken,
   formValues,
-  onToolsLoaded
+  onToolsLoaded,
+  authValue,
+  tokenExpiresAt
 }) => {
   const [tools, setTools] = useState<any[]>([]);
   const [isLoadingTools, setIsLoadingTools] = useState(false);
   const [toolsError, setToolsError] = useState<string | null>(null);
   const [hasShownSuccessMessage, setHasShownSuccessMessage] = useState(false);
 
+  // OAuth servers can only be tested once the admin has authorized
+  const isOAuth2 = formValues.auth_type === AUTH_TYPE.OAUTH2;
+
   // Check if we have the minimum required fields to fetch tools
-  const canFetchTools = formValues.url && formValues.transport && formValues.auth_type && accessToken;
+  const canFetchTools = formValues.url && formValues.transport && formValues.auth_type && accessToken && (!isOAuth2 || authValue);
 
   const fetchTools = async () => {
     if (!accessToken || !formValues.url) {
@@ -45,7 +54,7 @@ const MCPConnectionStatus: React.FC<MCPConnectionStatusProps> = ({
         mcp_info: formValues.mcp_info,
       };
 
-      const toolsResponse = await testMCPToolsListRequest(accessToken, mcpServerConfig);
+      const toolsResponse = await testMCPToolsListRequest(accessToken, mcpServerConfig, authValue);
       
       if (toolsResponse.tools && !toolsResponse.error) {
         setTools(toolsResponse.tools);
@@ -83,7 +92,7 @@ const MCPConnectionStatus: React.FC<MCPConnectionStatusProps> = ({
       setHasShownSuccessMessage(false);
       onToolsLoaded?.([]);
     }
-  }, [formValues.url, formValues.transport, formValues.auth_type, formValues.spec_version, accessToken]);
+  }, [formValues.url, formValues.transport, formValues.auth_type, formValues.spec_version, accessToken, authValue]);
 
   // Don't show anything if required fields aren't filled
   if (!canFetchTools && !formValues.url) {
@@ -104,7 +113,9 @@ const MCPConnectionStatus: React.FC<MCPConnectionStatusProps> = ({
             <Text>Complete required fields to test connection</Text>
             <br />
             <Text className="text-sm">
-              Fill in URL, Transport, and Authentication to test MCP server connection
+              {isOAuth2
+                ? "Authorize with OAuth to test MCP server connection"
+                : "Fill in URL, Transport, and Authentication to test MCP server connection"}
             </Text>
           </div>
         )}
@@ -126,6 +137,16 @@ const MCPConnectionStatus: React.FC<MCPConnectionStatusProps> = ({
                 <Text className="text-gray-500 text-sm">
                   Server: {formValues.url}
                 </Text>
+                {isOAuth2 && (
+                  <Text
+                    className={`text-sm flex items-center ${
+                      tokenExpiresAt != null && tokenExpiresAt * 1000 < Date.now() ? "text-red-600" : "text-gray-500"
+                    }`}
+                  >
+                    <ClockCircleOutlined className="mr-1" />
+                    OAuth token: {formatTokenExpiry(tokenExpiresAt)}
+                  </Text>
+                )}
               </div>
               
               {isLoadingTools && (
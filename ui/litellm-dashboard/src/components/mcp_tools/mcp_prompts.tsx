@@ -0,0 +1,281 @@
+import React, { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button, Card, Text, TextInput, Title } from "@tremor/react";
+import { Form, Input, Tooltip, message } from "antd";
+import { CopyOutlined, InfoCircleOutlined, MessageOutlined, SafetyOutlined, SearchOutlined } from "@ant-design/icons";
+import {
+  GetMCPPromptResponse,
+  ListMCPPromptsResponse,
+  MCPPrompt,
+  MCPPromptContent,
+  MCPServerBrowserProps,
+  mcpServerHasAuth,
+} from "./types";
+import { getMCPPrompt, listMCPPrompts } from "../networking";
+import { AuthSection } from "./mcp_tools";
+import { ResourceContentView } from "./ResourceContentView";
+import { base64DataUrl } from "./resource_utils";
+
+function PromptContentView({ content }: { content: MCPPromptContent }) {
+  switch (content.type) {
+    case "text":
+      return <div className="text-sm text-gray-800 whitespace-pre-wrap">{content.text}</div>;
+    case "image":
+      // eslint-disable-next-line @next/next/no-img-element
+      return <img src={base64DataUrl(content.mimeType, content.data)} alt="Prompt image" className="max-w-full rounded" />;
+    case "audio":
+      return <audio controls src={base64DataUrl(content.mimeType, content.data)} className="w-full" />;
+    case "resource":
+      return <ResourceContentView contents={content.resource} />;
+    default:
+      return (
+        <pre className="text-xs font-mono whitespace-pre-wrap break-all text-gray-700">
+          {JSON.stringify(content, null, 2)}
+        </pre>
+      );
+  }
+}
+
+const MCPPromptsViewer = ({ serverId, accessToken, auth_type, oauth2 }: MCPServerBrowserProps) => {
+  const [form] = Form.useForm();
+  const [mcpAuthValue, setMcpAuthValue] = useState("");
+  const [search, setSearch] = useState("");
+  const [selectedPrompt, setSelectedPrompt] = useState<MCPPrompt | null>(null);
+
+  const { data, isLoading } = useQuery<ListMCPPromptsResponse>({
+    queryKey: ["mcpPrompts", serverId, mcpAuthValue],
+    queryFn: () => {
+      if (!accessToken) throw new Error("Access Token required");
+      return listMCPPrompts(accessToken, serverId, mcpAuthValue);
+    },
+    enabled: !!accessToken,
+  });
+
+  const {
+    mutate: fetchPrompt,
+    data: promptResult,
+    error: promptError,
+    isPending: isFetching,
+    reset: resetPrompt,
+  } = useMutation<GetMCPPromptResponse, Error, { prompt: MCPPrompt; arguments: Record<string, string> }>({
+    mutationFn: (args) => {
+      if (!accessToken) throw new Error("Access Token required");
+      return getMCPPrompt(accessToken, serverId, args.prompt.name, args.arguments, mcpAuthValue);
+    },
+  });
+
+  const prompts = (data?.prompts || []).filter(
+    (prompt) =>
+      search === "" ||
+      [prompt.name, prompt.title, prompt.description].some((field) =>
+        field?.toLowerCase().includes(search.toLowerCase())
+      )
+  );
+  const hasAuth = mcpAuthValue !== "";
+
+  const selectPrompt = (prompt: MCPPrompt) => {
+    setSelectedPrompt(prompt);
+    form.resetFields();
+    resetPrompt();
+    // Prompts without arguments can be previewed straight away
+    if (!prompt.arguments || prompt.arguments.length === 0) {
+      fetchPrompt({ prompt, arguments: {} });
+    }
+  };
+
+  const handleSubmit = (values: Record<string, string | undefined>) => {
+    if (!selectedPrompt) return;
+    // Prompt arguments are always strings; leave out the ones not filled in
+    const promptArguments: Record<string, string> = {};
+    Object.entries(values).forEach(([key, value]) => {
+      if (value !== undefined && value !== "") promptArguments[key] = value;
+    });
+    fetchPrompt({ prompt: selectedPrompt, arguments: promptArguments });
+  };
+
+  const handleCopyMessages = () => {
+    if (!promptResult) return;
+    navigator.clipboard.writeText(JSON.stringify(promptResult.messages, null, 2));
+    message.success("Messages copied to clipboard");
+  };
+
+  return (
+    <div className="w-full h-screen p-4 bg-white">
+      <Card className="w-full rounded-xl shadow-md overflow-hidden">
+        <div className="flex h-[80vh] w-full gap-4">
+          {/* Left Sidebar with Prompts */}
+          <div className="w-1/3 p-4 bg-gray-50 flex flex-col">
+            <Title className="text-xl font-semibold mb-4 mt-2">MCP Prompts</Title>
+            <TextInput
+              icon={SearchOutlined}
+              placeholder="Search prompts"
+              value={search}
+              onValueChange={setSearch}
+              className="mb-4"
+            />
+
+            <div className="flex-1 overflow-y-auto">
+              {isLoading && (
+                <div className="flex flex-col items-center justify-center py-8 bg-white border border-gray-200 rounded-lg">
+                  <div className="relative mb-3">
+                    <div className="animate-spin rounded-full h-6 w-6 border-2 border-gray-200"></div>
+                    <div className="animate-spin rounded-full h-6 w-6 border-2 border-blue-600 border-t-transparent absolute top-0"></div>
+                  </div>
+                  <p className="text-xs font-medium text-gray-700">Loading prompts...</p>
+                </div>
+              )}
+
+              {data?.error && (
+                <div className="p-3 text-xs text-red-800 rounded-lg bg-red-50 border border-red-200">
+                  <p className="font-medium">Error: {data.message}</p>
+                </div>
+              )}
+
+              {!isLoading && !data?.error && prompts.length === 0 && (
+                <p className="text-xs text-gray-500">
+                  {search ? "No prompts match your search" : "This server doesn't expose any prompts"}
+                </p>
+              )}
+
+              {!isLoading && !data?.error && prompts.length > 0 && (
+                <div className="space-y-2">
+                  {prompts.map((prompt) => (
+                    <div
+                      key={prompt.name}
+                      onClick={() => selectPrompt(prompt)}
+                      className={`border rounded-lg p-3 cursor-pointer transition-all hover:shadow-sm ${
+                        selectedPrompt?.name === prompt.name
+                          ? "border-blue-500 bg-blue-50 ring-1 ring-blue-200"
+                          : "border-gray-200 bg-white hover:border-gray-300"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <h4 className="font-mono text-xs font-medium text-gray-900 truncate">
+                          {prompt.title || prompt.name}
+                        </h4>
+                        {prompt.arguments && prompt.arguments.length > 0 && (
+                          <span className="text-xs text-gray-500 flex-shrink-0 ml-2">
+                            {prompt.arguments.length} arg{prompt.arguments.length === 1 ? "" : "s"}
+                          </span>
+                        )}
+                      </div>
+                      {prompt.description && (
+                        <p className="text-xs text-gray-600 mt-1 line-clamp-2 leading-relaxed">{prompt.description}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {mcpServerHasAuth(auth_type) && (
+              <div className="pt-4 mt-4 border-t border-gray-200 flex-shrink-0">
+                <Text className="font-medium block mb-3 text-gray-700 flex items-center">
+                  <SafetyOutlined className="mr-2" /> Authentication
+                </Text>
+                <AuthSection
+                  authType={auth_type}
+                  onAuthSubmit={setMcpAuthValue}
+                  hasAuth={hasAuth}
+                  serverId={serverId}
+                  oauth2={oauth2}
+                  accessToken={accessToken}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Prompt Arguments and Preview */}
+          <div className="w-2/3 flex flex-col bg-white overflow-hidden">
+            {!selectedPrompt ? (
+              <div className="h-full flex flex-col items-center justify-center text-gray-400">
+                <MessageOutlined style={{ fontSize: "48px", marginBottom: "16px" }} />
+                <Text className="text-lg font-medium text-gray-600 mb-2">Select a Prompt</Text>
+                <Text className="text-center text-gray-500 max-w-md">
+                  Choose a prompt from the left sidebar, fill in its arguments and preview the messages it produces.
+                </Text>
+              </div>
+            ) : (
+              <div className="flex-1 overflow-auto p-4 space-y-4">
+                <div className="pb-3 border-b border-gray-200">
+                  <h2 className="text-lg font-semibold text-gray-900 font-mono">{selectedPrompt.name}</h2>
+                  {selectedPrompt.description && (
+                    <p className="text-xs text-gray-600 mt-1">{selectedPrompt.description}</p>
+                  )}
+                </div>
+
+                <Form form={form} layout="vertical" onFinish={handleSubmit}>
+                  {(selectedPrompt.arguments || []).map((argument) => (
+                    <Form.Item
+                      key={argument.name}
+                      name={argument.name}
+                      label={
+                        <span className="text-sm font-medium text-gray-700 flex items-center">
+                          {argument.name}
+                          {argument.required && <span className="text-red-500 ml-1">*</span>}
+                          {argument.description && (
+                            <Tooltip title={argument.description}>
+                              <InfoCircleOutlined className="ml-2 text-gray-400 hover:text-gray-600" />
+                            </Tooltip>
+                          )}
+                        </span>
+                      }
+                      rules={[{ required: !!argument.required, message: `Please enter ${argument.name}` }]}
+                      className="mb-3"
+                    >
+                      <Input.TextArea
+                        autoSize={{ minRows: 1, maxRows: 6 }}
+                        placeholder={argument.description || `Enter ${argument.name}`}
+                      />
+                    </Form.Item>
+                  ))}
+                  <Button onClick={() => form.submit()} loading={isFetching} disabled={isFetching}>
+                    {promptResult ? "Refresh Preview" : "Get Prompt"}
+                  </Button>
+                </Form>
+
+                {promptError && !isFetching && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                    <h4 className="text-xs font-medium text-red-900 mb-1">Failed to get prompt</h4>
+                    <pre className="text-xs whitespace-pre-wrap text-red-700 font-mono">{promptError.message}</pre>
+                  </div>
+                )}
+
+                {promptResult && !isFetching && (
+                  <div className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-sm font-semibold text-gray-900">
+                        Messages
+                        <span className="ml-2 text-xs font-normal text-gray-500">{promptResult.messages.length}</span>
+                      </h3>
+                      <Tooltip title="Copy messages as JSON">
+                        <button onClick={handleCopyMessages} className="text-gray-400 hover:text-gray-600">
+                          <CopyOutlined />
+                        </button>
+                      </Tooltip>
+                    </div>
+                    {promptResult.description && <p className="text-xs text-gray-600">{promptResult.description}</p>}
+                    {promptResult.messages.map((promptMessage, idx) => (
+                      <div key={idx} className="border border-gray-200 rounded-lg overflow-hidden">
+                        <div className="bg-gray-50 px-3 py-1 border-b border-gray-200">
+                          <span className="text-xs font-medium text-gray-700 uppercase tracking-wide">
+                            {promptMessage.role}
+                          </span>
+                        </div>
+                        <div className="p-3">
+                          <PromptContentView content={promptMessage.content} />
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default MCPPromptsViewer;
@@ -0,0 +1,315 @@
+import React, { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Button, Card, Text, TextInput, Title } from "@tremor/react";
+import { Input } from "antd";
+import { FileTextOutlined, LinkOutlined, SafetyOutlined, SearchOutlined } from "@ant-design/icons";
+import {
+  ListMCPResourcesResponse,
+  MCPResource,
+  MCPResourceTemplate,
+  MCPServerBrowserProps,
+  ReadMCPResourceResponse,
+  mcpServerHasAuth,
+} from "./types";
+import { listMCPResources, readMCPResource } from "../networking";
+import { AuthSection } from "./mcp_tools";
+import { ResourceContentView } from "./ResourceContentView";
+import { expandUriTemplate, formatBytes, templateVariables } from "./resource_utils";
+
+type Selection = { kind: "resource"; resource: MCPResource } | { kind: "template"; template: MCPResourceTemplate };
+
+const matchesSearch = (search: string, ...fields: (string | undefined)[]) =>
+  search === "" || fields.some((field) => field?.toLowerCase().includes(search.toLowerCase()));
+
+const MCPResourcesViewer = ({ serverId, accessToken, auth_type, oauth2 }: MCPServerBrowserProps) => {
+  const [mcpAuthValue, setMcpAuthValue] = useState("");
+  const [search, setSearch] = useState("");
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+
+  const { data, isLoading } = useQuery<ListMCPResourcesResponse>({
+    queryKey: ["mcpResources", serverId, mcpAuthValue],
+    queryFn: () => {
+      if (!accessToken) throw new Error("Access Token required");
+      return listMCPResources(accessToken, serverId, mcpAuthValue);
+    },
+    enabled: !!accessToken,
+  });
+
+  const {
+    mutate: readResource,
+    data: readResult,
+    error: readError,
+    isPending: isReading,
+    variables: readUri,
+    reset: resetRead,
+  } = useMutation<ReadMCPResourceResponse, Error, string>({
+    mutationFn: (uri: string) => {
+      if (!accessToken) throw new Error("Access Token required");
+      return readMCPResource(accessToken, serverId, uri, mcpAuthValue);
+    },
+  });
+
+  const resources = (data?.resources || []).filter((resource) =>
+    matchesSearch(search, resource.name, resource.title, resource.uri, resource.description)
+  );
+  const templates = (data?.resource_templates || []).filter((template) =>
+    matchesSearch(search, template.name, template.title, template.uriTemplate, template.description)
+  );
+  const hasAuth = mcpAuthValue !== "";
+
+  const selectResource = (resource: MCPResource) => {
+    setSelection({ kind: "resource", resource });
+    readResource(resource.uri);
+  };
+
+  const selectTemplate = (template: MCPResourceTemplate) => {
+    setSelection({ kind: "template", template });
+    setTemplateValues({});
+    resetRead();
+  };
+
+  const templateVars = selection?.kind === "template" ? templateVariables(selection.template.uriTemplate) : [];
+  const expandedUri =
+    selection?.kind === "template" ? expandUriTemplate(selection.template.uriTemplate, templateValues) : "";
+  const missingVars = templateVars.filter((name) => !templateValues[name]);
+
+  const details =
+    selection?.kind === "resource"
+      ? { ...selection.resource, address: selection.resource.uri }
+      : selection?.kind === "template"
+      ? { ...selection.template, address: selection.template.uriTemplate, size: undefined }
+      : null;
+
+  const isSelected = (kind: Selection["kind"], key: string) =>
+    selection?.kind === kind &&
+    (selection.kind === "resource" ? selection.resource.uri : selection.template.uriTemplate) === key;
+
+  return (
+    <div className="w-full h-screen p-4 bg-white">
+      <Card className="w-full rounded-xl shadow-md overflow-hidden">
+        <div className="flex h-[80vh] w-full gap-4">
+          {/* Left Sidebar with Resources */}
+          <div className="w-1/3 p-4 bg-gray-50 flex flex-col">
+            <Title className="text-xl font-semibold mb-4 mt-2">MCP Resources</Title>
+            <TextInput
+              icon={SearchOutlined}
+              placeholder="Search name, URI or description"
+              value={search}
+              onValueChange={setSearch}
+              className="mb-4"
+            />
+
+            <div className="flex-1 overflow-y-auto space-y-6">
+              {isLoading && (
+                <div className="flex flex-col items-center justify-center py-8 bg-white border border-gray-200 rounded-lg">
+                  <div className="relative mb-3">
+                    <div className="animate-spin rounded-full h-6 w-6 border-2 border-gray-200"></div>
+                    <div className="animate-spin rounded-full h-6 w-6 border-2 border-blue-600 border-t-transparent absolute top-0"></div>
+                  </div>
+                  <p className="text-xs font-medium text-gray-700">Loading resources...</p>
+                </div>
+              )}
+
+              {data?.error && (
+                <div className="p-3 text-xs text-red-800 rounded-lg bg-red-50 border border-red-200">
+                  <p className="font-medium">Error: {data.message}</p>
+                </div>
+              )}
+
+              {!isLoading && !data?.error && (
+                <>
+                  <div>
+                    <Text className="font-medium block mb-2 text-gray-700 flex items-center">
+                      <FileTextOutlined className="mr-2" /> Resources
+                      <span className="ml-2 bg-blue-100 text-blue-800 text-xs font-medium px-2 py-0.5 rounded-full">
+                        {resources.length}
+                      </span>
+                    </Text>
+                    {resources.length === 0 ? (
+                      <p className="text-xs text-gray-500">
+                        {search ? "No resources match your search" : "This server doesn't expose any resources"}
+                      </p>
+                    ) : (
+                      <div className="space-y-2">
+                        {resources.map((resource) => (
+                          <div
+                            key={resource.uri}
+                            onClick={() => selectResource(resource)}
+                            className={`border rounded-lg p-3 cursor-pointer transition-all hover:shadow-sm ${
+                              isSelected("resource", resource.uri)
+                                ? "border-blue-500 bg-blue-50 ring-1 ring-blue-200"
+                                : "border-gray-200 bg-white hover:border-gray-300"
+                            }`}
+                          >
+                            <h4 className="text-xs font-medium text-gray-900 truncate">
+                              {resource.title || resource.name}
+                            </h4>
+                            <p className="font-mono text-xs text-gray-500 truncate">{resource.uri}</p>
+                            {resource.description && (
+                              <p className="text-xs text-gray-600 mt-1 line-clamp-2 leading-relaxed">
+                                {resource.description}
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  {templates.length > 0 && (
+                    <div>
+                      <Text className="font-medium block mb-2 text-gray-700 flex items-center">
+                        <LinkOutlined className="mr-2" /> Resource Templates
+                        <span className="ml-2 bg-blue-100 text-blue-800 text-xs font-medium px-2 py-0.5 rounded-full">
+                          {templates.length}
+                        </span>
+                      </Text>
+                      <div className="space-y-2">
+                        {templates.map((template) => (
+                          <div
+                            key={template.uriTemplate}
+                            onClick={() => selectTemplate(template)}
+                            className={`border rounded-lg p-3 cursor-pointer transition-all hover:shadow-sm ${
+                              isSelected("template", template.uriTemplate)
+                                ? "border-blue-500 bg-blue-50 ring-1 ring-blue-200"
+                                : "border-gray-200 bg-white hover:border-gray-300"
+                            }`}
+                          >
+                            <h4 className="text-xs font-medium text-gray-900 truncate">
+                              {template.title || template.name}
+                            </h4>
+                            <p className="font-mono text-xs text-gray-500 truncate">{template.uriTemplate}</p>
+                            {template.description && (
+                              <p className="text-xs text-gray-600 mt-1 line-clamp-2 leading-relaxed">
+                                {template.description}
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </>
+              )}
+            </div>
+
+            {mcpServerHasAuth(auth_type) && (
+              <div className="pt-4 mt-4 border-t border-gray-200 flex-shrink-0">
+                <Text className="font-medium block mb-3 text-gray-700 flex items-center">
+                  <SafetyOutlined className="mr-2" /> Authentication
+                </Text>
+                <AuthSection
+                  authType={auth_type}
+                  onAuthSubmit={setMcpAuthValue}
+                  hasAuth={hasAuth}
+                  serverId={serverId}
+                  oauth2={oauth2}
+                  accessToken={accessToken}
+                />
+              </div>
+            )}
+          </div>
+
+          {/* Resource Content */}
+          <div className="w-2/3 flex flex-col bg-white overflow-hidden">
+            {!selection || !details ? (
+              <div className="h-full flex flex-col items-center justify-center text-gray-400">
+                <FileTextOutlined style={{ fontSize: "48px", marginBottom: "16px" }} />
+                <Text className="text-lg font-medium text-gray-600 mb-2">Select a Resource</Text>
+                <Text className="text-center text-gray-500 max-w-md">
+                  Choose a resource from the left sidebar to read its content, or fill in a resource template.
+                </Text>
+              </div>
+            ) : (
+              <div className="flex-1 overflow-auto p-4 space-y-4">
+                <div className="pb-3 border-b border-gray-200">
+                  <h2 className="text-lg font-semibold text-gray-900">{details.title || details.name}</h2>
+                  <p className="font-mono text-xs text-gray-600">{details.address}</p>
+                  {(details.mimeType || details.size !== undefined) && (
+                    <p className="mt-1 text-xs text-gray-500">
+                      {[details.mimeType, details.size !== undefined ? formatBytes(details.size) : null]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </p>
+                  )}
+                  {details.description && <p className="text-xs text-gray-600 mt-2">{details.description}</p>}
+                </div>
+
+                {selection.kind === "template" && (
+                  <div className="bg-gray-50 border border-gray-200 rounded-lg p-3 space-y-3">
+                    {templateVars.map((name) => (
+                      <div key={name}>
+                        <Text className="text-sm font-medium text-gray-700 mb-1">{name}</Text>
+                        <Input
+                          value={templateValues[name] || ""}
+                          onChange={(e) => setTemplateValues({ ...templateValues, [name]: e.target.value })}
+                          onPressEnter={() => missingVars.length === 0 && readResource(expandedUri)}
+                          placeholder={`Value for {${name}}`}
+                        />
+                      </div>
+                    ))}
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-mono text-xs text-gray-600 truncate">{expandedUri}</span>
+                      <Button
+                        size="xs"
+                        onClick={() => readResource(expandedUri)}
+                        disabled={missingVars.length > 0 || isReading}
+                        loading={isReading}
+                      >
+                        Read Resource
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                {selection.kind === "resource" && (
+                  <div className="flex justify-end">
+                    <Button
+                      size="xs"
+                      variant="secondary"
+                      onClick={() => readResource(selection.resource.uri)}
+                      disabled={isReading}
+                    >
+                      Reload
+                    </Button>
+                  </div>
+                )}
+
+                {isReading && (
+                  <div className="flex flex-col justify-center items-center h-48 text-gray-500">
+                    <div className="relative">
+                      <div className="animate-spin rounded-full h-8 w-8 border-2 border-gray-200"></div>
+                      <div className="animate-spin rounded-full h-8 w-8 border-2 border-blue-600 border-t-transparent absolute top-0"></div>
+                    </div>
+                    <p className="text-sm font-medium mt-3">Reading resource...</p>
+                  </div>
+                )}
+
+                {!isReading && readError && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                    <h4 className="text-xs font-medium text-red-900 mb-1">Failed to read {readUri}</h4>
+                    <pre className="text-xs whitespace-pre-wrap text-red-700 font-mono">{readError.message}</pre>
+                  </div>
+                )}
+
+                {!isReading && readResult && (
+                  <div className="space-y-3">
+                    {readResult.contents.length === 0 && (
+                      <p className="text-xs text-gray-500">The server returned no content for {readUri}.</p>
+                    )}
+                    {readResult.contents.map((contents, idx) => (
+                      <ResourceContentView key={`${contents.uri}-${idx}`} contents={contents} />
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default MCPResourcesViewer;
@@ -1,15 +1,17 @@
 import { ColumnDef } from "@tanstack/react-table";
-import { MCPServer } from "./types";
+import { MCPServer, MCPServerHealthCheck } from "./types";
 import { Icon } from "@tremor/react";
 import { PencilAltIcon, TrashIcon } from "@heroicons/react/outline";
 import { getMaskedAndFullUrl } from "./utils";
 import { Tooltip } from "antd";
+import { MCPServerHealthStatus } from "./mcp_server_health";
 
 export const mcpServerColumns = (
   userRole: string,
   onView: (serverId: string) => void,
   onEdit: (serverId: string) => void,
-  onDelete: (serverId: string) => void
+  onDelete: (serverId: string) => void,
+  healthHistory: Record<string, MCPServerHealthCheck[]> = {}
 ): ColumnDef<MCPServer>[] => [
   {
     accessorKey: "server_id",
@@ -27,6 +29,15 @@ export const mcpServerColumns = (
     accessorKey: "alias",
     header: "Name",
   },
+  {
+    id: "health",
+    header: "Health",
+    cell: ({ row }) => (
+      <button onClick={() => onView(row.original.server_id)} className="text-left">
+        <MCPServerHealthStatus history={healthHistory[row.original.server_id]} />
+      </button>
+    ),
+  },
   {
     id: "url",
     header: "URL",
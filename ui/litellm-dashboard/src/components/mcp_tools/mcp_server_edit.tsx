@@ -1,9 +1,11 @@
 import React, { useState, useEffect } from "react";
 import { Form, Select, Button as AntdButton, message, Input, Space, Tooltip } from "antd";
 import { Button, TextInput, TabGroup, TabList, Tab, TabPanels, TabPanel } from "@tremor/react";
-import { MCPServer, MCPServerCostInfo } from "./types";
-import { updateMCPServer, testMCPToolsListRequest } from "../networking";
+import { AUTH_TYPE, MCPOAuthToken, MCPServer, MCPServerCostInfo, OAUTH2_TOKEN_MODE } from "./types";
+import { updateMCPServer, testMCPToolsListRequest, saveMCPOAuthSharedToken } from "../networking";
 import MCPServerCostConfig from "./mcp_server_cost_config";
+import { OAuthConfiguration } from "./OAuthConfiguration";
+import { loadUserOAuthToken, saveUserOAuthToken } from "./oauth_utils";
 import { MinusCircleOutlined, PlusOutlined, InfoCircleOutlined } from "@ant-design/icons";
 
 interface MCPServerEditProps {
@@ -20,6 +22,8 @@ const MCPServerEdit: React.FC<MCPServerEditProps> = ({ mcpServer, accessToken, o
   const [tools, setTools] = useState<any[]>([]);
   const [isLoadingTools, setIsLoadingTools] = useState(false);
   const [searchValue, setSearchValue] = useState<string>("");
+  const [oauthToken, setOauthToken] = useState<MCPOAuthToken | null>(null);
+  const authType = Form.useWatch("auth_type", form);
 
   // Initialize cost config from existing server data
   useEffect(() => {
@@ -61,7 +65,12 @@ const MCPServerEdit: React.FC<MCPServerEditProps> = ({ mcpServer, accessToken, o
         mcp_info: mcpServer.mcp_info,
       };
 
-      const toolsResponse = await testMCPToolsListRequest(accessToken, mcpServerConfig);
+      // Per-user OAuth servers are tested with the current user's own token
+      const toolsResponse = await testMCPToolsListRequest(
+        accessToken,
+        mcpServerConfig,
+        loadUserOAuthToken(mcpServer.server_id)?.access_token
+      );
       
       if (toolsResponse.tools && !toolsResponse.error) {
         setTools(toolsResponse.tools);
@@ -112,19 +121,30 @@ const MCPServerEdit: React.FC<MCPServerEditProps> = ({ mcpServer, accessToken, o
       // Ensure access groups is always a string array
       const accessGroups = (values.mcp_access_groups || []).map((g: any) => typeof g === 'string' ? g : g.name || String(g));
 
+      const isOAuth2 = values.auth_type === AUTH_TYPE.OAUTH2;
+
       // Prepare the payload with cost configuration
       const payload = {
         ...values,
         server_id: mcpServer.server_id,
+        oauth2: undefined,
         mcp_info: {
           server_name: values.alias || values.url,
           description: values.description,
-          mcp_server_cost_info: Object.keys(costConfig).length > 0 ? costConfig : null
+          mcp_server_cost_info: Object.keys(costConfig).length > 0 ? costConfig : null,
+          oauth2: isOAuth2 ? values.oauth2 : undefined,
         },
         mcp_access_groups: accessGroups
       };
 
       const updated = await updateMCPServer(accessToken, payload);
+      if (isOAuth2 && oauthToken) {
+        if (values.oauth2?.token_mode === OAUTH2_TOKEN_MODE.SHARED) {
+          await saveMCPOAuthSharedToken(accessToken, mcpServer.server_id, oauthToken);
+        } else {
+          saveUserOAuthToken(mcpServer.server_id, oauthToken);
+        }
+      }
       message.success("MCP Server updated successfully");
       onSuccess(updated);
     } catch (error: any) {
@@ -140,7 +160,12 @@ const MCPServerEdit: React.FC<MCPServerEditProps> = ({ mcpServer, accessToken, o
       </TabList>
       <TabPanels className="mt-6">
         <TabPanel>
-          <Form form={form} onFinish={handleSave} initialValues={mcpServer} layout="vertical">
+          <Form
+            form={form}
+            onFinish={handleSave}
+            initialValues={{ ...mcpServer, oauth2: mcpServer.mcp_info?.oauth2 }}
+            layout="vertical"
+          >
             <Form.Item label="MCP Server Name" name="alias" rules={[{
               validator: (_, value) =>
                 value && value.includes('-')
@@ -167,8 +192,14 @@ const MCPServerEdit: React.FC<MCPServerEditProps> = ({ mcpServer, accessToken, o
                 <Select.Option value="api_key">API Key</Select.Option>
                 <Select.Option value="bearer_token">Bearer Token</Select.Option>
                 <Select.Option value="basic">Basic Auth</Select.Option>
+                <Select.Option value="oauth2">OAuth 2.1</Select.Option>
               </Select>
             </Form.Item>
+            {authType === AUTH_TYPE.OAUTH2 && (
+              <div className="mb-6">
+                <OAuthConfiguration accessToken={accessToken} token={oauthToken} onTokenChange={setOauthToken} />
+              </div>
+            )}
             <Form.Item label="MCP Version" name="spec_version" rules={[{ required: true }]}> 
               <Select>
                 <Select.Option value="2025-03-26">2025-03-26 (Latest)</Select.Option>
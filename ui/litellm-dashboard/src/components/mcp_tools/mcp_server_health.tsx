@@ -0,0 +1,323 @@
+import React, { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import {
+  Button,
+  Card,
+  DateRangePickerValue,
+  Grid,
+  LineChart,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeaderCell,
+  TableRow,
+  Text,
+  Title,
+} from "@tremor/react";
+import { Tooltip, message } from "antd";
+import { getMCPServerHealth, getMCPToolAnalytics, runMCPServerHealthCheck } from "../networking";
+import { MCPServer, MCPServerHealthCheck, MCPServerHealthResponse, MCPToolAnalyticsResponse } from "./types";
+import UsageDatePicker from "../shared/usage_date_picker";
+import { formatNumberWithCommas } from "@/utils/dataUtils";
+
+export const MCP_HEALTH_QUERY_KEY = "mcpServerHealth";
+// The proxy checks every few minutes, polling more often than this only re-reads the same history
+export const MCP_HEALTH_REFETCH_INTERVAL_MS = 60 * 1000;
+
+const HISTORY_BAR_LENGTH = 20;
+// Tools failing more often than this are highlighted
+const ERROR_RATE_WARNING_THRESHOLD = 0.1;
+
+const STATUS_STYLES: Record<MCPServerHealthCheck["status"], { dot: string; text: string; label: string }> = {
+  healthy: { dot: "bg-green-500", text: "text-green-700", label: "Healthy" },
+  unhealthy: { dot: "bg-red-500", text: "text-red-700", label: "Unhealthy" },
+  skipped: { dot: "bg-gray-400", text: "text-gray-500", label: "Not checked" },
+};
+
+export const formatLatency = (latencyMs: number | null | undefined): string => {
+  if (latencyMs == null) return "-";
+  return latencyMs < 1000 ? `${Math.round(latencyMs)} ms` : `${(latencyMs / 1000).toFixed(2)} s`;
+};
+
+const formatCheckedAt = (checkedAt: number) => new Date(checkedAt * 1000).toLocaleString();
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+export const PERIODIC_CHECKS_OFF_MESSAGE =
+  "Periodic health checks are off. Set mcp_health_check_interval in general_settings to turn them on.";
+
+const notCheckedMessage = (checkInterval: number | null | undefined) =>
+  checkInterval
+    ? `Not checked yet. The proxy checks servers every ${Math.round(checkInterval / 60) || 1} min.`
+    : `Not checked yet. ${PERIODIC_CHECKS_OFF_MESSAGE}`;
+
+const checkSummary = (check: MCPServerHealthCheck) =>
+  check.status === "healthy"
+    ? `${formatLatency(check.latency_ms)} · ${check.tools_count} tools · ${formatCheckedAt(check.checked_at)}`
+    : `${check.error || STATUS_STYLES[check.status].label} · ${formatCheckedAt(check.checked_at)}`;
+
+export const useMCPServerHealth = (accessToken: string | null) =>
+  useQuery<MCPServerHealthResponse>({
+    queryKey: [MCP_HEALTH_QUERY_KEY],
+    queryFn: () => {
+      if (!accessToken) throw new Error("Access Token required");
+      return getMCPServerHealth(accessToken);
+    },
+    enabled: !!accessToken,
+    refetchInterval: MCP_HEALTH_REFETCH_INTERVAL_MS,
+  });
+
+export const useRunMCPServerHealthCheck = (accessToken: string | null) => {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: (serverId?: string) => {
+      if (!accessToken) throw new Error("Access Token required");
+      return runMCPServerHealthCheck(accessToken, serverId);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [MCP_HEALTH_QUERY_KEY] }),
+    onError: (error) => message.error(error instanceof Error ? error.message : String(error)),
+  });
+};
+
+/**
+ * Latest health check of a server, with the recent history as a row of ticks
+ */
+export const MCPServerHealthStatus = ({ history }: { history?: MCPServerHealthCheck[] }) => {
+  const latest = history && history.length > 0 ? history[history.length - 1] : null;
+  if (!latest) {
+    return <span className="text-xs text-gray-400 italic">No checks yet</span>;
+  }
+  const style = STATUS_STYLES[latest.status];
+
+  return (
+    <div className="flex flex-col gap-1">
+      <Tooltip title={checkSummary(latest)}>
+        <span className={`flex items-center gap-2 text-xs font-medium ${style.text}`}>
+          <span className={`w-2 h-2 rounded-full ${style.dot}`} />
+          {style.label}
+          {latest.status === "healthy" && <span className="text-gray-500 font-normal">{formatLatency(latest.latency_ms)}</span>}
+        </span>
+      </Tooltip>
+      <div className="flex gap-px">
+        {history!.slice(-HISTORY_BAR_LENGTH).map((check) => (
+          <Tooltip key={check.checked_at} title={checkSummary(check)}>
+            <span className={`w-1 h-3 rounded-sm ${STATUS_STYLES[check.status].dot}`} />
+          </Tooltip>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const ToolUsageAnalytics = ({ mcpServer, accessToken }: { mcpServer: MCPServer; accessToken: string | null }) => {
+  const [dateValue, setDateValue] = useState<DateRangePickerValue>({
+    from: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+    to: new Date(),
+  });
+
+  const { data, isLoading, error } = useQuery<MCPToolAnalyticsResponse>({
+    queryKey: ["mcpToolAnalytics", mcpServer.server_id, dateValue.from?.toISOString(), dateValue.to?.toISOString()],
+    queryFn: () => {
+      if (!accessToken || !dateValue.from || !dateValue.to) throw new Error("Access Token and date range required");
+      return getMCPToolAnalytics(accessToken, mcpServer.server_id, dateValue.from, dateValue.to);
+    },
+    enabled: !!accessToken && !!dateValue.from && !!dateValue.to,
+  });
+
+  const totalErrorRate = data && data.total_calls > 0 ? data.total_failed_calls / data.total_calls : 0;
+
+  return (
+    <Card className="mt-4">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <Title>Tool Usage</Title>
+          <Text className="text-gray-500">
+            Tool calls made through the proxy. Cost uses this server&apos;s cost per query.
+          </Text>
+        </div>
+        <UsageDatePicker value={dateValue} onValueChange={setDateValue} label="" showTimeRange={false} />
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+          <Text className="ml-3">Loading tool usage...</Text>
+        </div>
+      ) : error ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+          <Text className="text-red-700">{error instanceof Error ? error.message : String(error)}</Text>
+        </div>
+      ) : !data || data.tools.length === 0 ? (
+        <Text className="text-gray-500 py-4">No tool calls in this time range.</Text>
+      ) : (
+        <>
+          <Grid numItems={3} className="gap-4 mb-4">
+            <div>
+              <Text>Calls</Text>
+              <Title>{formatNumberWithCommas(data.total_calls)}</Title>
+            </div>
+            <div>
+              <Text>Error Rate</Text>
+              <Title className={totalErrorRate > ERROR_RATE_WARNING_THRESHOLD ? "text-red-600" : ""}>
+                {formatPercent(totalErrorRate)}
+              </Title>
+            </div>
+            <div>
+              <Text>Cost</Text>
+              <Title>${formatNumberWithCommas(data.total_cost, 4)}</Title>
+            </div>
+          </Grid>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableHeaderCell>Tool</TableHeaderCell>
+                <TableHeaderCell className="text-right">Calls</TableHeaderCell>
+                <TableHeaderCell className="text-right">Errors</TableHeaderCell>
+                <TableHeaderCell className="text-right">p50</TableHeaderCell>
+                <TableHeaderCell className="text-right">p95</TableHeaderCell>
+                <TableHeaderCell className="text-right">Cost / Query</TableHeaderCell>
+                <TableHeaderCell className="text-right">Cost</TableHeaderCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {data.tools.map((tool) => (
+                <TableRow key={tool.tool_name}>
+                  <TableCell className="font-mono text-sm">{tool.tool_name}</TableCell>
+                  <TableCell className="text-right">{formatNumberWithCommas(tool.calls)}</TableCell>
+                  <TableCell
+                    className={`text-right ${tool.error_rate > ERROR_RATE_WARNING_THRESHOLD ? "text-red-600 font-medium" : ""}`}
+                  >
+                    {formatNumberWithCommas(tool.failed_calls)} ({formatPercent(tool.error_rate)})
+                  </TableCell>
+                  <TableCell className="text-right">{formatLatency(tool.p50_latency_ms)}</TableCell>
+                  <TableCell className="text-right">{formatLatency(tool.p95_latency_ms)}</TableCell>
+                  <TableCell className="text-right font-mono">${tool.cost_per_query.toFixed(4)}</TableCell>
+                  <TableCell className="text-right font-mono">${formatNumberWithCommas(tool.cost, 4)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </>
+      )}
+    </Card>
+  );
+};
+
+interface MCPServerHealthProps {
+  mcpServer: MCPServer;
+  accessToken: string | null;
+  isProxyAdmin: boolean;
+}
+
+/**
+ * Health check history and per-tool usage of a single MCP server
+ */
+const MCPServerHealth: React.FC<MCPServerHealthProps> = ({ mcpServer, accessToken, isProxyAdmin }) => {
+  const { data: health, isLoading } = useMCPServerHealth(accessToken);
+  const runHealthCheck = useRunMCPServerHealthCheck(accessToken);
+
+  const history = health?.servers[mcpServer.server_id] || [];
+  const latest = history.length > 0 ? history[history.length - 1] : null;
+  const checked = history.filter((check) => check.status !== "skipped");
+  const healthyChecks = checked.filter((check) => check.status === "healthy");
+  const uptime = checked.length > 0 ? healthyChecks.length / checked.length : null;
+  const averageLatency =
+    healthyChecks.length > 0
+      ? healthyChecks.reduce((sum, check) => sum + (check.latency_ms || 0), 0) / healthyChecks.length
+      : null;
+  const lastError = [...history].reverse().find((check) => check.status === "unhealthy");
+
+  const latencyData = history.map((check) => ({
+    time: new Date(check.checked_at * 1000).toLocaleTimeString(),
+    "Latency (ms)": check.status === "healthy" ? check.latency_ms : null,
+  }));
+
+  return (
+    <div>
+      <Card>
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <Title>Health</Title>
+            <Text className="text-gray-500">
+              {latest
+                ? `Last checked ${formatCheckedAt(latest.checked_at)}`
+                : notCheckedMessage(health?.check_interval)}
+            </Text>
+          </div>
+          {isProxyAdmin && (
+            <Button
+              variant="secondary"
+              size="xs"
+              loading={runHealthCheck.isPending}
+              onClick={() => runHealthCheck.mutate(mcpServer.server_id)}
+            >
+              Check Now
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600"></div>
+            <Text className="ml-3">Loading health checks...</Text>
+          </div>
+        ) : latest?.status === "skipped" ? (
+          <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg">
+            <Text className="text-gray-600">
+              This server needs per-user credentials, so the proxy can&apos;t check it on its own.
+            </Text>
+          </div>
+        ) : (
+          <>
+            <Grid numItems={2} numItemsLg={4} className="gap-4">
+              <div>
+                <Text>Status</Text>
+                <div className="mt-1">
+                  <MCPServerHealthStatus history={history} />
+                </div>
+              </div>
+              <div>
+                <Text>Uptime</Text>
+                <Title>{uptime == null ? "-" : formatPercent(uptime)}</Title>
+                <Text className="text-xs text-gray-500">Last {checked.length} checks</Text>
+              </div>
+              <div>
+                <Text>Avg Latency</Text>
+                <Title>{formatLatency(averageLatency)}</Title>
+              </div>
+              <div>
+                <Text>Tools</Text>
+                <Title>{latest?.tools_count ?? "-"}</Title>
+              </div>
+            </Grid>
+
+            {lastError && (
+              <div className="mt-4 p-4 bg-red-50 border border-red-200 rounded-lg">
+                <Text className="text-red-700 font-medium">Last error · {formatCheckedAt(lastError.checked_at)}</Text>
+                <Text className="text-red-600 font-mono text-sm break-all mt-1">{lastError.error}</Text>
+              </div>
+            )}
+
+            {healthyChecks.length > 1 && (
+              <LineChart
+                className="h-48 mt-4"
+                data={latencyData}
+                index="time"
+                categories={["Latency (ms)"]}
+                colors={["indigo"]}
+                showLegend={false}
+                connectNulls={false}
+                valueFormatter={(value) => formatLatency(value)}
+              />
+            )}
+          </>
+        )}
+      </Card>
+
+      {isProxyAdmin && <ToolUsageAnalytics mcpServer={mcpServer} accessToken={accessToken} />}
+    </div>
+  );
+};
+
+export default MCPServerHealth;
@@ -4,9 +4,10 @@ import { Title, Card, Button, Text, Grid, TabGroup, TabList, TabPanel, TabPanels
 
 import { MCPServer, handleTransport, handleAuth } from "./types"
 // TODO: Move Tools viewer from index file
-import { MCPToolsViewer } from "."
+import { MCPPromptsViewer, MCPResourcesViewer, MCPToolsViewer } from "."
 import MCPServerEdit from "./mcp_server_edit"
 import MCPServerCostDisplay from "./mcp_server_cost_display"
+import MCPServerHealth from "./mcp_server_health"
 import { getMaskedAndFullUrl } from "./utils"
 import { copyToClipboard as utilCopyToClipboard } from "@/utils/dataUtils"
 import { CheckIcon, CopyIcon } from "lucide-react"
@@ -84,11 +85,14 @@ export const MCPServerView: React.FC<MCPServerViewProps> = ({
       </div>
 
       {/* TODO: magic number for index */}
-      <TabGroup defaultIndex={editing ? 2 : 0}>
+      <TabGroup defaultIndex={editing ? 5 : 0}>
         <TabList className="mb-4">
           {[
             <Tab key="overview">Overview</Tab>,
             <Tab key="tools">MCP Tools</Tab>,
+            <Tab key="resources">Resources</Tab>,
+            <Tab key="prompts">Prompts</Tab>,
+            <Tab key="health">Health & Usage</Tab>,
             ...(isProxyAdmin ? [<Tab key="settings">Settings</Tab>] : []),
           ]}
         </TabList>
@@ -137,11 +141,37 @@ export const MCPServerView: React.FC<MCPServerViewProps> = ({
               serverId={mcpServer.server_id}
               accessToken={accessToken}
               auth_type={mcpServer.auth_type}
+              oauth2={mcpServer.mcp_info?.oauth2}
               userRole={userRole}
               userID={userID}
             />
           </TabPanel>
 
+          {/* Resources Panel */}
+          <TabPanel>
+            <MCPResourcesViewer
+              serverId={mcpServer.server_id}
+              accessToken={accessToken}
+              auth_type={mcpServer.auth_type}
+              oauth2={mcpServer.mcp_info?.oauth2}
+            />
+          </TabPanel>
+
+          {/* Prompts Panel */}
+          <TabPanel>
+            <MCPPromptsViewer
+              serverId={mcpServer.server_id}
+              accessToken={accessToken}
+              auth_type={mcpServer.auth_type}
+              oauth2={mcpServer.mcp_info?.oauth2}
+            />
+          </TabPanel>
+
+          {/* Health & Usage Panel */}
+          <TabPanel>
+            <MCPServerHealth mcpServer={mcpServer} accessToken={accessToken} isProxyAdmin={isProxyAdmin} />
+          </TabPanel>
+
           {/* Settings Panel */}
           <TabPanel>
             <Card>
@@ -12,6 +12,7 @@ import { MCPServerView } from "./mcp_server_view"
 import CreateMCPServer from "./create_mcp_server"
 import MCPConnect from "./mcp_connect"
 import { QuestionCircleOutlined } from "@ant-design/icons"
+import { PERIODIC_CHECKS_OFF_MESSAGE, useMCPServerHealth, useRunMCPServerHealthCheck } from "./mcp_server_health"
 
 const { Option } = Select
 
@@ -47,6 +48,8 @@ const MCPServers: React.FC<MCPServerProps> = ({ accessToken, userRole, userID })
     },
     enabled: !!accessToken,
   }) as { data: MCPServer[]; isLoading: boolean; refetch: () => void }
+  const { data: health } = useMCPServerHealth(accessToken)
+  const runHealthCheck = useRunMCPServerHealthCheck(accessToken)
 
   // state
   const [serverIdToDelete, setServerToDelete] = useState<string | null>(null)
@@ -133,8 +136,9 @@ const MCPServers: React.FC<MCPServerProps> = ({ accessToken, userRole, userID })
           setEditServer(true)
         },
         handleDelete,
+        health?.servers,
       ),
-    [userRole],
+    [userRole, health],
   )
 
   function handleDelete(server_id: string) {
@@ -252,10 +256,23 @@ const MCPServers: React.FC<MCPServerProps> = ({ accessToken, userRole, userID })
                   ))}
                 </Select>
               </div>
+              {isAdminRole(userRole) && (
+                <Button
+                  variant="secondary"
+                  size="xs"
+                  loading={runHealthCheck.isPending}
+                  onClick={() => runHealthCheck.mutate(undefined)}
+                >
+                  Run Health Checks
+                </Button>
+              )}
             </div>
           </div>
         </div>
         <div className="w-full px-6 mt-6">
+          {health && health.check_interval === null && (
+            <Text className="text-gray-500 mb-2">{PERIODIC_CHECKS_OFF_MESSAGE}</Text>
+          )}
           <DataTable
             data={filteredServers}
             columns={columns}
@@ -1,17 +1,23 @@
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { ToolTestPanel } from "./ToolTestPanel";
+import { ToolHistoryDrawer } from "./ToolHistoryDrawer";
+import { OAuthConnect } from "./OAuthConnect";
 import {
   MCPTool,
   MCPToolsViewerProps,
   CallMCPToolResponse,
+  MCPToolInvocation,
+  MCPOAuth2Config,
   mcpServerHasAuth,
 } from "./types";
 import { listMCPTools, callMCPTool } from "../networking";
+import { addToolInvocation, downloadFixtureFile, loadToolHistory, saveToolHistory } from "./tool_history";
+import { v4 as uuidv4 } from "uuid";
 
 import { Modal, Input, Form } from "antd";
 import { Button, Card, Title, Text } from "@tremor/react";
-import { RobotOutlined, ApiOutlined, KeyOutlined, SafetyOutlined, ToolOutlined } from "@ant-design/icons";
+import { RobotOutlined, ApiOutlined, KeyOutlined, SafetyOutlined, ToolOutlined, HistoryOutlined } from "@ant-design/icons";
 
 import { AUTH_TYPE } from "./types";
 
@@ -89,17 +95,28 @@ export const AuthModal = ({
   );
 };
 
-const AuthSection = ({ 
+export const AuthSection = ({ 
   authType, 
   onAuthSubmit,
-  hasAuth
+  hasAuth,
+  serverId,
+  oauth2,
+  accessToken,
 }: {
   authType: string | null | undefined;
   onAuthSubmit: (value: string) => void;
   hasAuth: boolean;
+  // Only needed for OAuth servers
+  serverId?: string;
+  oauth2?: MCPOAuth2Config | null;
+  accessToken?: string | null;
 }) => {
   const [modalVisible, setModalVisible] = useState(false);
 
+  if (authType === AUTH_TYPE.OAUTH2 && serverId) {
+    return <OAuthConnect serverId={serverId} oauth2={oauth2} accessToken={accessToken ?? null} onToken={onAuthSubmit} />;
+  }
+
   const handleAddAuth = () => setModalVisible(true);
 
   const handleModalOk = (authValue: string) => {
@@ -141,6 +158,7 @@ const MCPToolsViewer = ({
   serverId,
   accessToken,
   auth_type,
+  oauth2,
   userRole,
   userID,
 }: MCPToolsViewerProps) => {
@@ -148,13 +166,28 @@ const MCPToolsViewer = ({
   const [selectedTool, setSelectedTool] = useState<MCPTool | null>(null);
   const [toolResult, setToolResult] = useState<CallMCPToolResponse | null>(null);
   const [toolError, setToolError] = useState<Error | null>(null);
+  const [history, setHistory] = useState<MCPToolInvocation[]>([]);
+  const [isHistoryVisible, setIsHistoryVisible] = useState(false);
+  const [prefill, setPrefill] = useState<{ id: string; arguments: Record<string, any> } | null>(null);
+
+  useEffect(() => {
+    setHistory(loadToolHistory(serverId));
+  }, [serverId]);
+
+  const recordInvocation = (invocation: Omit<MCPToolInvocation, "id">) => {
+    setHistory((prev) => {
+      const updated = addToolInvocation(prev, { id: uuidv4(), ...invocation });
+      saveToolHistory(serverId, updated);
+      return updated;
+    });
+  };
 
   // Query to fetch MCP tools
   const { data: mcpToolsResponse, isLoading: isLoadingTools, error: mcpToolsError } = useQuery({
-    queryKey: ["mcpTools"],
+    queryKey: ["mcpTools", serverId, mcpAuthValue],
     queryFn: () => {
       if (!accessToken) throw new Error("Access Token required");
-      return listMCPTools(accessToken, serverId);
+      return listMCPTools(accessToken, serverId, mcpAuthValue);
     },
     enabled: !!accessToken,
   });
@@ -165,19 +198,63 @@ const MCPToolsViewer = ({
       if (!accessToken) throw new Error("Access Token required");
       return callMCPTool(accessToken, args.tool.name, args.arguments, args.authValue);
     },
-    onSuccess: (data) => {
+    onMutate: () => ({ startedAt: Date.now() }),
+    onSuccess: (data, args, context) => {
       setToolResult(data);
       setToolError(null);
+      recordInvocation({
+        tool_name: args.tool.name,
+        arguments: args.arguments,
+        result: data,
+        error: null,
+        latency_ms: Date.now() - (context?.startedAt ?? Date.now()),
+        timestamp: new Date().toISOString(),
+      });
     },
-    onError: (error: Error) => {
+    onError: (error: Error, args, context) => {
       setToolError(error);
       setToolResult(null);
+      recordInvocation({
+        tool_name: args.tool.name,
+        arguments: args.arguments,
+        result: null,
+        error: error.message,
+        latency_ms: Date.now() - (context?.startedAt ?? Date.now()),
+        timestamp: new Date().toISOString(),
+      });
     },
   });
 
   const toolsData = mcpToolsResponse?.tools || [];
   const hasAuth = mcpAuthValue !== "";
 
+  const findTool = (invocation: MCPToolInvocation) =>
+    toolsData.find((tool: MCPTool) => tool.name === invocation.tool_name) || null;
+
+  const handleRerun = (invocation: MCPToolInvocation) => {
+    const tool = findTool(invocation);
+    if (!tool) return;
+    setSelectedTool(tool);
+    setPrefill({ id: uuidv4(), arguments: invocation.arguments });
+    setIsHistoryVisible(false);
+    executeTool({ tool, arguments: invocation.arguments, authValue: mcpAuthValue });
+  };
+
+  const handleEditInvocation = (invocation: MCPToolInvocation) => {
+    const tool = findTool(invocation);
+    if (!tool) return;
+    setSelectedTool(tool);
+    setToolResult(null);
+    setToolError(null);
+    setPrefill({ id: uuidv4(), arguments: invocation.arguments });
+    setIsHistoryVisible(false);
+  };
+
+  const handleClearHistory = () => {
+    setHistory([]);
+    saveToolHistory(serverId, []);
+  };
+
   return (
     <div className="w-full h-screen p-4 bg-white">
       <Card className="w-full rounded-xl shadow-md overflow-hidden">
@@ -290,6 +367,9 @@ const MCPToolsViewer = ({
                     authType={auth_type}
                     onAuthSubmit={(value) => setMcpAuthValue(value)}
                     hasAuth={hasAuth}
+                    serverId={serverId}
+                    oauth2={oauth2}
+                    accessToken={accessToken}
                   />
                 </div>
               )}
@@ -300,6 +380,14 @@ const MCPToolsViewer = ({
           <div className="w-3/4 flex flex-col bg-white">
             <div className="p-4 border-b border-gray-200 flex justify-between items-center">
               <Title className="text-xl font-semibold mb-0">Tool Testing Playground</Title>
+              <Button
+                onClick={() => setIsHistoryVisible(true)}
+                size="xs"
+                variant="secondary"
+                icon={HistoryOutlined}
+              >
+                History{history.length > 0 ? ` (${history.length})` : ""}
+              </Button>
             </div>
             
             <div className="flex-1 overflow-auto p-4">
@@ -326,6 +414,7 @@ const MCPToolsViewer = ({
                     error={toolError}
                     isLoading={isCallingTool}
                     onClose={() => setSelectedTool(null)}
+                    prefill={prefill}
                   />
                 </div>
               )}
@@ -333,6 +422,17 @@ const MCPToolsViewer = ({
           </div>
         </div>
       </Card>
+      <ToolHistoryDrawer
+        open={isHistoryVisible}
+        onClose={() => setIsHistoryVisible(false)}
+        history={history}
+        availableTools={toolsData.map((tool: MCPTool) => tool.name)}
+        isLoading={isCallingTool}
+        onRerun={handleRerun}
+        onEdit={handleEditInvocation}
+        onExport={(invocations) => downloadFixtureFile(serverId, invocations)}
+        onClear={handleClearHistory}
+      />
     </div>
   );
 };
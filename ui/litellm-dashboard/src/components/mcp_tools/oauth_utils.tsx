@@ -0,0 +1,166 @@
+import { getProxyBaseUrl, requestMCPOAuthToken } from "../networking";
+import { MCPOAuth2Config, MCPOAuthToken } from "./types";
+
+// Shared with the /ui/mcp_oauth_callback page, which hands the authorization response back to the opener
+export const OAUTH_CALLBACK_MESSAGE_TYPE = "mcp_oauth_callback";
+export const OAUTH_CALLBACK_STORAGE_KEY = "mcpOAuthCallback";
+
+const USER_TOKEN_STORAGE_PREFIX = "mcpOAuthToken:";
+const REFRESH_BUFFER_SECONDS = 60;
+const AUTHORIZATION_TIMEOUT_MS = 5 * 60 * 1000;
+
+export interface OAuthAuthorizationResult {
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+}
+
+export const oauthRedirectUri = () => `${getProxyBaseUrl()}/ui/mcp_oauth_callback`;
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const randomString = () => base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+
+const codeChallengeFor = async (codeVerifier: string) =>
+  base64UrlEncode(new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(codeVerifier))));
+
+export const buildAuthorizationUrl = (
+  config: Pick<MCPOAuth2Config, "authorization_endpoint" | "client_id" | "scopes" | "resource">,
+  params: { redirectUri: string; state: string; codeChallenge: string },
+): string => {
+  const url = new URL(config.authorization_endpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", config.client_id);
+  url.searchParams.set("redirect_uri", params.redirectUri);
+  url.searchParams.set("code_challenge", params.codeChallenge);
+  url.searchParams.set("code_challenge_method", "S256");
+  url.searchParams.set("state", params.state);
+  if (config.scopes && config.scopes.length > 0) {
+    url.searchParams.set("scope", config.scopes.join(" "));
+  }
+  if (config.resource) {
+    url.searchParams.set("resource", config.resource);
+  }
+  return url.toString();
+};
+
+/**
+ * Runs the authorization-code + PKCE flow in a popup and resolves with the authorization code.
+ *
+ * The callback page posts the result back to this window. Authorization servers that send
+ * Cross-Origin-Opener-Policy cut the popup off from its opener, so the result is also relayed through localStorage.
+ */
+export const authorizeInPopup = async (
+  config: Pick<MCPOAuth2Config, "authorization_endpoint" | "client_id" | "scopes" | "resource">,
+): Promise<OAuthAuthorizationResult> => {
+  const codeVerifier = randomString();
+  const state = randomString();
+  const redirectUri = oauthRedirectUri();
+  const url = buildAuthorizationUrl(config, {
+    redirectUri,
+    state,
+    codeChallenge: await codeChallengeFor(codeVerifier),
+  });
+
+  const popup = window.open(url, "mcp_oauth", "width=600,height=720");
+  if (!popup) {
+    throw new Error("The authorization popup was blocked - allow popups for this site and try again");
+  }
+
+  return new Promise((resolve, reject) => {
+    const handleResult = (data: any) => {
+      if (!data || data.type !== OAUTH_CALLBACK_MESSAGE_TYPE || data.state !== state) return;
+      cleanup();
+      if (data.error) {
+        reject(new Error(data.error_description || data.error));
+      } else {
+        resolve({ code: data.code, codeVerifier, redirectUri });
+      }
+    };
+    const onMessage = (event: MessageEvent) => handleResult(event.data);
+    const onStorage = (event: StorageEvent) => {
+      if (event.key !== OAUTH_CALLBACK_STORAGE_KEY || !event.newValue) return;
+      try {
+        handleResult(JSON.parse(event.newValue));
+      } catch {
+        // Not ours
+      }
+    };
+    const timeout = window.setTimeout(() => {
+      cleanup();
+      reject(new Error("Timed out waiting for authorization"));
+    }, AUTHORIZATION_TIMEOUT_MS);
+    const cleanup = () => {
+      window.removeEventListener("message", onMessage);
+      window.removeEventListener("storage", onStorage);
+      window.clearTimeout(timeout);
+      localStorage.removeItem(OAUTH_CALLBACK_STORAGE_KEY);
+    };
+
+    window.addEventListener("message", onMessage);
+    window.addEventListener("storage", onStorage);
+  });
+};
+
+export const tokenExpiresSoon = (token: MCPOAuthToken): boolean =>
+  token.expires_at != null && token.expires_at - REFRESH_BUFFER_SECONDS <= Date.now() / 1000;
+
+export const formatTokenExpiry = (expiresAt?: number | null): string => {
+  if (expiresAt == null) return "No expiry";
+  const seconds = expiresAt - Date.now() / 1000;
+  if (seconds <= 0) return "Expired";
+  if (seconds < 3600) return `Expires in ${Math.max(1, Math.round(seconds / 60))} min`;
+  if (seconds < 86400) return `Expires in ${Math.round(seconds / 3600)} h`;
+  return `Expires in ${Math.round(seconds / 86400)} d`;
+};
+
+// Per-user tokens never leave the user's browser, except as the x-mcp-auth header on MCP requests
+export const loadUserOAuthToken = (serverId: string): MCPOAuthToken | null => {
+  try {
+    const stored = localStorage.getItem(`${USER_TOKEN_STORAGE_PREFIX}${serverId}`);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveUserOAuthToken = (serverId: string, token: MCPOAuthToken) => {
+  localStorage.setItem(`${USER_TOKEN_STORAGE_PREFIX}${serverId}`, JSON.stringify(token));
+};
+
+export const clearUserOAuthToken = (serverId: string) => {
+  localStorage.removeItem(`${USER_TOKEN_STORAGE_PREFIX}${serverId}`);
+};
+
+/**
+ * The user's stored token for a server, refreshed first if it's about to expire.
+ * Returns null if there is no usable token and the user has to authorize again.
+ */
+export const getValidUserOAuthToken = async (accessToken: string, serverId: string): Promise<MCPOAuthToken | null> => {
+  const token = loadUserOAuthToken(serverId);
+  if (!token || !tokenExpiresSoon(token)) return token;
+
+  if (!token.refresh_token) {
+    clearUserOAuthToken(serverId);
+    return null;
+  }
+  try {
+    const refreshed: MCPOAuthToken = await requestMCPOAuthToken(accessToken, {
+      grant_type: "refresh_token",
+      server_id: serverId,
+      refresh_token: token.refresh_token,
+    });
+    // Authorization servers may or may not rotate the refresh token
+    const updated = { ...refreshed, refresh_token: refreshed.refresh_token || token.refresh_token };
+    saveUserOAuthToken(serverId, updated);
+    return updated;
+  } catch (error) {
+    console.error("Failed to refresh MCP OAuth token:", error);
+    clearUserOAuthToken(serverId);
+    return null;
+  }
+};
@@ -0,0 +1,88 @@
+import { MCPResourceContents } from "./types";
+
+const EXPRESSION_REGEX = /\{([+#./;?&]?)([^}]+)\}/g;
+
+const variableName = (spec: string) => spec.replace(/\*$/, "").replace(/:\d+$/, "");
+
+/**
+ * Variable names used by an RFC 6570 URI template, in order of appearance
+ */
+export const templateVariables = (uriTemplate: string): string[] => {
+  const names: string[] = [];
+  for (const match of Array.from(uriTemplate.matchAll(EXPRESSION_REGEX))) {
+    match[2].split(",").forEach((spec) => {
+      const name = variableName(spec.trim());
+      if (name && !names.includes(name)) names.push(name);
+    });
+  }
+  return names;
+};
+
+/**
+ * Expands the RFC 6570 operators MCP servers use in practice - simple, reserved (+),
+ * fragment (#), label (.), path (/), path-style (;) and query (? &). Empty variables are left out.
+ */
+export const expandUriTemplate = (uriTemplate: string, values: Record<string, string>): string =>
+  uriTemplate.replace(EXPRESSION_REGEX, (_, operator: string, specs: string) => {
+    const reserved = operator === "+" || operator === "#";
+    const encode = (value: string) => (reserved ? encodeURI(value) : encodeURIComponent(value));
+    const defined = specs
+      .split(",")
+      .map((spec) => variableName(spec.trim()))
+      .filter((name) => values[name] !== undefined && values[name] !== "");
+    if (defined.length === 0) return "";
+
+    switch (operator) {
+      case "?":
+      case "&":
+        return operator + defined.map((name) => `${name}=${encode(values[name])}`).join("&");
+      case ";":
+        return defined.map((name) => `;${name}=${encode(values[name])}`).join("");
+      case "/":
+      case ".":
+        return defined.map((name) => operator + encode(values[name])).join("");
+      case "#":
+        return "#" + defined.map((name) => encode(values[name])).join(",");
+      default:
+        return defined.map((name) => encode(values[name])).join(",");
+    }
+  });
+
+export type ResourceContentKind = "markdown" | "json" | "html" | "text" | "image" | "audio" | "video" | "pdf" | "binary";
+
+/**
+ * How a resource's content is displayed, based on its MIME type
+ */
+export const resourceContentKind = (contents: MCPResourceContents): ResourceContentKind => {
+  const mimeType = (contents.mimeType || "").toLowerCase();
+  if (mimeType === "text/markdown" || mimeType === "text/x-markdown" || /\.mdx?$/.test(contents.uri)) return "markdown";
+  if (mimeType === "application/json" || mimeType.endsWith("+json")) return "json";
+  if (mimeType === "text/html") return "html";
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType.startsWith("audio/")) return "audio";
+  if (mimeType.startsWith("video/")) return "video";
+  if (mimeType === "application/pdf") return "pdf";
+  if (contents.text !== undefined || mimeType.startsWith("text/") || mimeType.endsWith("xml") || mimeType.endsWith("yaml")) return "text";
+  return "binary";
+};
+
+// Text resources can arrive base64-encoded in `blob`
+export const resourceText = (contents: MCPResourceContents): string | null => {
+  if (contents.text !== undefined) return contents.text;
+  if (contents.blob === undefined) return null;
+  try {
+    const bytes = Uint8Array.from(atob(contents.blob), (char) => char.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+  } catch {
+    return null;
+  }
+};
+
+export const base64DataUrl = (mimeType: string | undefined, base64: string) =>
+  `data:${mimeType || "application/octet-stream"};base64,${base64}`;
+
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
@@ -0,0 +1,99 @@
+import { resolveRef, validateJsonSchema } from "../chat_ui/json_schema";
+
+export type JSONSchema = Record<string, any>;
+
+// Follows chains of local $refs, bounded in case a schema refers to itself
+export const resolveSchema = (schema: JSONSchema | undefined, root: JSONSchema): JSONSchema => {
+  let resolved = schema ?? {};
+  for (let depth = 0; depth < 10 && typeof resolved.$ref === "string"; depth++) {
+    resolved = resolveRef(resolved, root);
+  }
+  return resolved;
+};
+
+// The type a form field is rendered for, ignoring "null" in nullable unions
+export const schemaType = (schema: JSONSchema): string | undefined => {
+  if (Array.isArray(schema.type)) return schema.type.find((type: string) => type !== "null");
+  if (schema.type) return schema.type;
+  if (schema.properties) return "object";
+  if (schema.items) return "array";
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    return typeof schema.enum[0] === "number" ? "number" : typeof schema.enum[0];
+  }
+  return undefined;
+};
+
+/**
+ * The alternatives of a oneOf/anyOf schema, without the `{ type: "null" }`
+ * option generated for optional fields - leaving a field empty covers that.
+ */
+export const schemaVariants = (schema: JSONSchema, root: JSONSchema): JSONSchema[] => {
+  const options: JSONSchema[] = schema.oneOf ?? schema.anyOf ?? [];
+  return options
+    .map((option) => resolveSchema(option, root))
+    .filter((option) => !(option.type === "null" || (Array.isArray(option.enum) && option.enum.length === 1 && option.enum[0] === null)));
+};
+
+export const variantLabel = (variant: JSONSchema, index: number): string =>
+  variant.title ?? (variant.const !== undefined ? String(variant.const) : schemaType(variant)) ?? `Option ${index + 1}`;
+
+// Index of the first variant the value is valid against, used to show the right variant for a prefilled value
+export const matchingVariant = (value: unknown, variants: JSONSchema[], root: JSONSchema): number => {
+  if (value === undefined) return 0;
+  const index = variants.findIndex((variant) => validateJsonSchema(value, variant, root).length === 0);
+  return index === -1 ? 0 : index;
+};
+
+/**
+ * Initial form values from the schema's `default`s, descending into objects
+ */
+export const schemaDefaults = (rawSchema: JSONSchema | undefined, root: JSONSchema): any => {
+  const schema = resolveSchema(rawSchema, root);
+  if (schema.default !== undefined) return schema.default;
+  if (schemaType(schema) !== "object" || !schema.properties) return undefined;
+  const defaults: Record<string, any> = {};
+  Object.entries(schema.properties).forEach(([key, property]) => {
+    const value = schemaDefaults(property as JSONSchema, root);
+    if (value !== undefined) defaults[key] = value;
+  });
+  return Object.keys(defaults).length > 0 ? defaults : undefined;
+};
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Drops fields the user left empty so they aren't sent as "" or undefined.
+ * Optional nested objects that end up empty are dropped too; required ones are kept as {}.
+ */
+export const pruneFormValues = (value: any, rawSchema: JSONSchema | undefined, root: JSONSchema): any => {
+  if (value === undefined || value === "") return undefined;
+  const schema = resolveSchema(rawSchema, root);
+  if (Array.isArray(value)) {
+    return value
+      .map((item) => pruneFormValues(item, schema.items, root))
+      .filter((item) => item !== undefined);
+  }
+  if (!isPlainObject(value)) return value;
+
+  const pruned: Record<string, any> = {};
+  Object.entries(value).forEach(([key, child]) => {
+    const childValue = pruneFormValues(child, schema.properties?.[key], root);
+    if (childValue === undefined) return;
+    if (isPlainObject(childValue) && Object.keys(childValue).length === 0 && !schema.required?.includes(key)) return;
+    pruned[key] = childValue;
+  });
+  return pruned;
+};
+
+// <input type="datetime-local"> works in local time without a zone, JSON Schema's date-time needs one
+export const toDateTimeLocal = (value: unknown): string => {
+  if (typeof value !== "string" || value === "") return "";
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return "";
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+};
+
+export const fromDateTimeLocal = (value: string): string | undefined =>
+  value ? new Date(value).toISOString() : undefined;
@@ -0,0 +1,137 @@
+import { MCPToolInvocation } from "./types";
+
+const HISTORY_STORAGE_PREFIX = "mcpToolHistory:";
+export const MAX_HISTORY_ENTRIES = 100;
+
+// Above this many line pairs the diff is reported as a full replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+export interface MCPToolFixture {
+  tool: string;
+  arguments: Record<string, any>;
+  expected: { content: MCPToolInvocation["result"] } | { error: string };
+  latency_ms: number;
+  recorded_at: string;
+}
+
+export interface MCPToolFixtureFile {
+  server_id: string;
+  exported_at: string;
+  fixtures: MCPToolFixture[];
+}
+
+export interface DiffLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+const storageKey = (serverId: string) => `${HISTORY_STORAGE_PREFIX}${serverId}`;
+
+export const loadToolHistory = (serverId: string): MCPToolInvocation[] => {
+  if (typeof window === "undefined") return [];
+  try {
+    const stored = window.localStorage.getItem(storageKey(serverId));
+    const parsed = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("Error loading MCP tool history:", error);
+    return [];
+  }
+};
+
+export const saveToolHistory = (serverId: string, history: MCPToolInvocation[]) => {
+  try {
+    if (history.length === 0) {
+      window.localStorage.removeItem(storageKey(serverId));
+    } else {
+      window.localStorage.setItem(storageKey(serverId), JSON.stringify(history));
+    }
+  } catch (error) {
+    // Large results can exceed the storage quota - the in-memory history still works
+    console.error("Error saving MCP tool history:", error);
+  }
+};
+
+// Newest first, capped so the history doesn't grow without bound
+export const addToolInvocation = (
+  history: MCPToolInvocation[],
+  invocation: MCPToolInvocation
+): MCPToolInvocation[] => [invocation, ...history].slice(0, MAX_HISTORY_ENTRIES);
+
+/**
+ * Converts recorded invocations into fixtures that can be replayed against
+ * the server and compared with `expected`. Oldest calls come first.
+ */
+export const toFixtureFile = (serverId: string, history: MCPToolInvocation[]): MCPToolFixtureFile => ({
+  server_id: serverId,
+  exported_at: new Date().toISOString(),
+  fixtures: [...history].reverse().map((invocation) => ({
+    tool: invocation.tool_name,
+    arguments: invocation.arguments,
+    expected: invocation.error !== null ? { error: invocation.error } : { content: invocation.result },
+    latency_ms: invocation.latency_ms,
+    recorded_at: invocation.timestamp,
+  })),
+});
+
+// What the diff view compares: the result content, or the error message for failed calls
+export const invocationOutput = (invocation: MCPToolInvocation): string =>
+  invocation.error !== null ? `Error: ${invocation.error}` : JSON.stringify(invocation.result, null, 2);
+
+/**
+ * Line diff of two texts based on their longest common subsequence
+ */
+export const diffLines = (before: string, after: string): DiffLine[] => {
+  const a = before.split("\n");
+  const b = after.split("\n");
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map((text): DiffLine => ({ type: "removed", text })),
+      ...b.map((text): DiffLine => ({ type: "added", text })),
+    ];
+  }
+
+  // lcs[i][j] = length of the LCS of a[i:] and b[j:]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+  return lines;
+};
+
+export const downloadFixtureFile = (serverId: string, history: MCPToolInvocation[]) => {
+  const fixtureFile = toFixtureFile(serverId, history);
+  const blob = new Blob([JSON.stringify(fixtureFile, null, 2)], { type: "application/json" });
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `mcp_tool_fixtures_${serverId}_${fixtureFile.exported_at.slice(0, 10)}.json`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+};
@@ -10,6 +10,12 @@ export const AUTH_TYPE = {
   API_KEY: "api_key",
   BEARER_TOKEN: "bearer_token",
   BASIC: "basic",
+  OAUTH2: "oauth2",
+};
+
+export const OAUTH2_TOKEN_MODE = {
+  PER_USER: "per_user",
+  SHARED: "shared",
 };
 
 export const TRANSPORT = {
@@ -40,12 +46,25 @@ export const mcpServerHasAuth = (authType?: string | null): boolean => {
 
 // Define the structure for tool input schema properties
 export interface InputSchemaProperty {
-    type: string;
+    type?: string | string[]; // Absent for pure oneOf/anyOf/$ref properties
+    title?: string;
     description?: string;
     properties?: Record<string, InputSchemaProperty>; // For nested object properties
     required?: string[]; // For required fields in nested objects
-    enum?: string[]; // For enum values
+    items?: InputSchemaProperty; // For array elements
+    oneOf?: InputSchemaProperty[];
+    anyOf?: InputSchemaProperty[];
+    $ref?: string; // Local reference into $defs / definitions
+    enum?: any[]; // For enum values
+    const?: any;
     default?: any; // For default values
+    format?: string; // e.g. date, date-time, email, uri
+    minimum?: number;
+    maximum?: number;
+    minLength?: number;
+    maxLength?: number;
+    minItems?: number;
+    maxItems?: number;
   }
   
   // Define the structure for the input schema of a tool
@@ -53,6 +72,8 @@ export interface InputSchemaProperty {
     type: "object";
     properties: Record<string, InputSchemaProperty>;
     required?: string[];
+    $defs?: Record<string, InputSchemaProperty>;
+    definitions?: Record<string, InputSchemaProperty>;
   }
   
   // Define MCPServerCostInfo for cost tracking
@@ -61,12 +82,83 @@ export interface InputSchemaProperty {
     tool_name_to_cost_per_query?: Record<string, number | null>;
   }
 
+  // Tool allow / deny lists for one server, set on a key, team or organization (original, unprefixed tool names)
+  export interface MCPToolPermission {
+    allowed_tools?: string[] | null; // only these tools, all tools if not set
+    denied_tools?: string[] | null;
+  }
+
+  // OAuth 2.1 settings for servers with auth_type "oauth2"
+  export interface MCPOAuth2Config {
+    authorization_endpoint: string;
+    token_endpoint: string;
+    registration_endpoint?: string | null;
+    client_id: string;
+    scopes?: string[] | null;
+    resource?: string | null; // RFC 8707 resource indicator
+    token_mode: "per_user" | "shared";
+  }
+
+  // Response of the token endpoint, with expires_at (unix seconds) added by the proxy
+  export interface MCPOAuthToken {
+    access_token: string;
+    token_type?: string;
+    refresh_token?: string | null;
+    expires_at?: number | null;
+    scope?: string | null;
+  }
+
+  export interface MCPOAuthMetadata {
+    issuer: string;
+    authorization_endpoint: string;
+    token_endpoint: string;
+    registration_endpoint?: string | null;
+    scopes_supported: string[];
+    code_challenge_methods_supported: string[];
+    resource?: string | null;
+    discovered: boolean; // false when falling back to the spec's default endpoints
+  }
+
+  // A single health check of an MCP server. "skipped" servers need per-user credentials the proxy doesn't have.
+  export interface MCPServerHealthCheck {
+    status: "healthy" | "unhealthy" | "skipped";
+    checked_at: number; // unix seconds
+    latency_ms: number | null;
+    tools_count: number | null;
+    error: string | null;
+  }
+
+  // Health check history per server id, oldest first
+  export interface MCPServerHealthResponse {
+    servers: Record<string, MCPServerHealthCheck[]>;
+    check_interval: number | null; // seconds between periodic checks, null when they're off
+  }
+
+  export interface MCPToolUsageStats {
+    tool_name: string;
+    calls: number;
+    failed_calls: number;
+    error_rate: number;
+    p50_latency_ms: number | null;
+    p95_latency_ms: number | null;
+    cost_per_query: number;
+    cost: number;
+  }
+
+  export interface MCPToolAnalyticsResponse {
+    tools: MCPToolUsageStats[];
+    total_calls: number;
+    total_failed_calls: number;
+    total_cost: number;
+  }
+
   // Define MCP provider info
   export interface MCPInfo {
     server_name: string;
     description?: string;
     logo_url?: string;
     mcp_server_cost_info?: MCPServerCostInfo | null;
+    oauth2?: MCPOAuth2Config | null;
   }
   
   // Define the structure for a single MCP tool
@@ -115,11 +207,105 @@ export interface InputSchemaProperty {
   // Define the response structure for the callMCPTool endpoint
   export type CallMCPToolResponse = MCPContent[];
   
+  // Resources - documents, files or data the server exposes by URI
+  export interface MCPResource {
+    uri: string;
+    name: string;
+    title?: string;
+    description?: string;
+    mimeType?: string;
+    size?: number;
+  }
+
+  // A family of resources addressed by an RFC 6570 URI template, e.g. "docs://pages/{slug}"
+  export interface MCPResourceTemplate {
+    uriTemplate: string;
+    name: string;
+    title?: string;
+    description?: string;
+    mimeType?: string;
+  }
+
+  export interface ListMCPResourcesResponse {
+    resources: MCPResource[];
+    resource_templates: MCPResourceTemplate[];
+    error: string | null;
+    message: string;
+  }
+
+  // Either `text` or base64 `blob` is set
+  export interface MCPResourceContents {
+    uri: string;
+    mimeType?: string;
+    text?: string;
+    blob?: string;
+  }
+
+  export interface ReadMCPResourceResponse {
+    contents: MCPResourceContents[];
+  }
+
+  // Prompts - reusable message templates the server fills in from arguments
+  export interface MCPPromptArgument {
+    name: string;
+    description?: string;
+    required?: boolean;
+  }
+
+  export interface MCPPrompt {
+    name: string;
+    title?: string;
+    description?: string;
+    arguments?: MCPPromptArgument[];
+  }
+
+  export interface ListMCPPromptsResponse {
+    prompts: MCPPrompt[];
+    error: string | null;
+    message: string;
+  }
+
+  // Content blocks as the MCP spec defines them for prompt messages
+  export type MCPPromptContent =
+    | { type: "text"; text: string }
+    | { type: "image" | "audio"; data: string; mimeType: string }
+    | { type: "resource"; resource: MCPResourceContents };
+
+  export interface MCPPromptMessage {
+    role: "user" | "assistant";
+    content: MCPPromptContent;
+  }
+
+  export interface GetMCPPromptResponse {
+    description?: string;
+    messages: MCPPromptMessage[];
+  }
+
+  // A single recorded tool call, kept in the per-server invocation history
+  export interface MCPToolInvocation {
+    id: string;
+    tool_name: string;
+    arguments: Record<string, any>;
+    result: CallMCPToolResponse | null;
+    error: string | null;
+    latency_ms: number;
+    timestamp: string; // ISO 8601
+  }
+
+  // Props for the resources and prompts browsers on the server view
+  export interface MCPServerBrowserProps {
+    serverId: string;
+    accessToken: string | null;
+    auth_type?: string | null;
+    oauth2?: MCPOAuth2Config | null;
+  }
+
   // Props for the main component
   export interface MCPToolsViewerProps {
     serverId: string;
     accessToken: string | null;
     auth_type?: string | null;
+    oauth2?: MCPOAuth2Config | null;
     userRole: string | null;
     userID: string | null;
   }
@@ -34,4 +34,10 @@ export const getMaskedAndFullUrl = (url: string): { maskedUrl: string, hasToken:
     maskedUrl: maskUrl(url),
     hasToken: !!token
   };
-}; 
\ No newline at end of file
+}; 
+// Tools are listed as `<server name>-<tool name>`, permissions use the tool's own name
+export const getOriginalToolName = (toolName: string, serverName?: string | null): string => {
+  if (!serverName) return toolName;
+  const prefix = `${serverName.replace(/\s+/g, '_')}-`;
+  return toolName.startsWith(prefix) ? toolName.slice(prefix.length) : toolName;
+};
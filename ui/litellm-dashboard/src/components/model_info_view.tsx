@@ -33,6 +33,7 @@ import { getDisplayModelName } from "./view_model/model_name_display";
 import AddCredentialsModal from "./model_add/add_credentials_tab";
 import ReuseCredentialsModal from "./model_add/reuse_credentials";
 import CacheControlSettings from "./add_model/cache_control_settings";
+import AttachedGuardrailPolicies from "./guardrails/attached_guardrail_policies";
 import { CheckIcon, CopyIcon } from "lucide-react";
 import { copyToClipboard as utilCopyToClipboard } from "../utils/dataUtils";
 
@@ -841,6 +842,10 @@ export default function ModelInfoView({
                 <Text>Loading...</Text>
               )}
             </Card>
+
+            <div className="mt-6">
+              <AttachedGuardrailPolicies accessToken={accessToken} modelName={modelData.model_name} />
+            </div>
           </TabPanel>
 
           <TabPanel>
@@ -13,6 +13,14 @@ import {
 } from "./tag_management/types";
 import { Team } from "./key_team_helpers/key_list";
 import { UserInfo } from "./view_users/types";
+import { MCPToolPermission } from "./mcp_tools/types";
+import {
+  CustomRule,
+  CustomRulesResult,
+  GuardrailAnalyticsResponse,
+  GuardrailPolicy,
+  GuardrailTestCase,
+} from "./guardrails/types";
 import {
   EmailEventSettingsResponse,
   EmailEventSettingsUpdateRequest,
@@ -94,6 +102,7 @@ export interface Organization {
     object_permission_id: string;
     mcp_servers: string[];
     mcp_access_groups?: string[];
+    mcp_tool_permissions?: Record<string, MCPToolPermission>;
     vector_stores: string[];
   };
 }
@@ -2402,7 +2411,9 @@ export const uiSpendLogsCall = async (
   page_size?: number,
   user_id?: string,
   status_filter?: string,
-  model?: string
+  model?: string,
+  guardrail_name?: string,
+  extra_params?: Record<string, string>
 ) => {
   try {
     // Construct base URL
@@ -2420,6 +2431,8 @@ export const uiSpendLogsCall = async (
     if (user_id) queryParams.append("user_id", user_id);
     if (status_filter) queryParams.append("status_filter", status_filter);
     if (model) queryParams.append("model", model);
+    if (guardrail_name) queryParams.append("guardrail_name", guardrail_name);
+    Object.entries(extra_params || {}).forEach(([key, value]) => queryParams.append(key, value));
     // Append query parameters to URL if any exist
     const queryString = queryParams.toString();
     if (queryString) {
@@ -5008,7 +5021,7 @@ export const deleteMCPServer = async (
   }
 };
 
-export const listMCPTools = async (accessToken: string, serverId: string) => {
+export const listMCPTools = async (accessToken: string, serverId: string, authValue?: string) => {
   try {
     // Construct base URL
     let url = proxyBaseUrl
@@ -5021,6 +5034,7 @@ export const listMCPTools = async (accessToken: string, serverId: string) => {
       method: "GET",
       headers: {
         [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        ...(authValue ? { [MCP_AUTH_HEADER]: authValue } : {}),
         "Content-Type": "application/json",
       },
     });
@@ -5086,7 +5100,14 @@ export const callMCPTool = async (
     if (!response.ok) {
       const errorData = await response.text();
       handleError(errorData);
-      throw new Error("Network response was not ok");
+      // Surface the proxy's reason, e.g. a 403 when the key's tool permissions don't allow the tool
+      let errorJson: any = null;
+      try {
+        errorJson = JSON.parse(errorData);
+      } catch (parseError) {
+        // not JSON, keep the generic message
+      }
+      throw new Error(mcpRestErrorMessage(errorJson, "Network response was not ok"));
     }
 
     const data = await response.json();
@@ -5098,6 +5119,428 @@ export const callMCPTool = async (
   }
 };
 
+export const listMCPResources = async (accessToken: string, serverId: string, authValue: string) => {
+  try {
+    let url = proxyBaseUrl
+      ? `${proxyBaseUrl}/mcp-rest/resources/list?server_id=${serverId}`
+      : `/mcp-rest/resources/list?server_id=${serverId}`;
+
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        [MCP_AUTH_HEADER]: authValue,
+        "Content-Type": "application/json",
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(mcpRestErrorMessage(data, "Failed to fetch MCP resources"));
+    }
+
+    // Includes resources, resource_templates, error and message
+    return data;
+  } catch (error) {
+    console.error("Failed to fetch MCP resources:", error);
+    return {
+      resources: [],
+      resource_templates: [],
+      error: "network_error",
+      message: error instanceof Error ? error.message : "Failed to fetch MCP resources"
+    };
+  }
+};
+
+export const readMCPResource = async (
+  accessToken: string,
+  serverId: string,
+  uri: string,
+  authValue: string,
+) => {
+  try {
+    let url = proxyBaseUrl
+      ? `${proxyBaseUrl}/mcp-rest/resources/read`
+      : `/mcp-rest/resources/read`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        [MCP_AUTH_HEADER]: authValue,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ server_id: serverId, uri }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(mcpRestErrorMessage(errorData, `Failed to read resource ${uri}`));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to read MCP resource:", error);
+    throw error;
+  }
+};
+
+export const listMCPPrompts = async (accessToken: string, serverId: string, authValue: string) => {
+  try {
+    let url = proxyBaseUrl
+      ? `${proxyBaseUrl}/mcp-rest/prompts/list?server_id=${serverId}`
+      : `/mcp-rest/prompts/list?server_id=${serverId}`;
+
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        [MCP_AUTH_HEADER]: authValue,
+        "Content-Type": "application/json",
+      },
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(mcpRestErrorMessage(data, "Failed to fetch MCP prompts"));
+    }
+
+    return data;
+  } catch (error) {
+    console.error("Failed to fetch MCP prompts:", error);
+    return {
+      prompts: [],
+      error: "network_error",
+      message: error instanceof Error ? error.message : "Failed to fetch MCP prompts"
+    };
+  }
+};
+
+export const getMCPPrompt = async (
+  accessToken: string,
+  serverId: string,
+  name: string,
+  promptArguments: Record<string, string>,
+  authValue: string,
+) => {
+  try {
+    let url = proxyBaseUrl
+      ? `${proxyBaseUrl}/mcp-rest/prompts/get`
+      : `/mcp-rest/prompts/get`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        [MCP_AUTH_HEADER]: authValue,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ server_id: serverId, name, arguments: promptArguments }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(mcpRestErrorMessage(errorData, `Failed to get prompt ${name}`));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to get MCP prompt:", error);
+    throw error;
+  }
+};
+
+const mcpRestErrorMessage = (errorData: any, fallback: string): string => {
+  const detail = errorData?.detail;
+  if (typeof detail === "string") return detail;
+  return detail?.error || fallback;
+};
+
+export const discoverMCPOAuth = async (accessToken: string, serverUrl: string) => {
+  try {
+    let url = proxyBaseUrl
+      ? `${proxyBaseUrl}/mcp-rest/oauth/discover?url=${encodeURIComponent(serverUrl)}`
+      : `/mcp-rest/oauth/discover?url=${encodeURIComponent(serverUrl)}`;
+
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(mcpRestErrorMessage(errorData, "Failed to discover OAuth metadata"));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to discover MCP OAuth metadata:", error);
+    throw error;
+  }
+};
+
+export const registerMCPOAuthClient = async (
+  accessToken: string,
+  registrationEndpoint: string,
+  redirectUri: string,
+) => {
+  try {
+    let url = proxyBaseUrl
+      ? `${proxyBaseUrl}/mcp-rest/oauth/register`
+      : `/mcp-rest/oauth/register`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ registration_endpoint: registrationEndpoint, redirect_uri: redirectUri }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(mcpRestErrorMessage(errorData, "Failed to register OAuth client"));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to register MCP OAuth client:", error);
+    throw error;
+  }
+};
+
+/**
+ * Exchange an authorization code or refresh token. Pass `server_id` for saved servers,
+ * or `token_endpoint` + `client_id` while adding a server.
+ */
+export const requestMCPOAuthToken = async (
+  accessToken: string,
+  tokenRequest: {
+    grant_type: "authorization_code" | "refresh_token";
+    server_id?: string;
+    token_endpoint?: string;
+    client_id?: string;
+    resource?: string | null;
+    code?: string;
+    code_verifier?: string;
+    redirect_uri?: string;
+    refresh_token?: string;
+  },
+) => {
+  try {
+    let url = proxyBaseUrl
+      ? `${proxyBaseUrl}/mcp-rest/oauth/token`
+      : `/mcp-rest/oauth/token`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(tokenRequest),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(mcpRestErrorMessage(errorData, "OAuth token request failed"));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to request MCP OAuth token:", error);
+    throw error;
+  }
+};
+
+export const getMCPOAuthSharedTokenStatus = async (accessToken: string, serverId: string) => {
+  try {
+    let url = proxyBaseUrl
+      ? `${proxyBaseUrl}/mcp-rest/oauth/shared_token?server_id=${serverId}`
+      : `/mcp-rest/oauth/shared_token?server_id=${serverId}`;
+
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(mcpRestErrorMessage(errorData, "Failed to fetch shared token status"));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to fetch MCP OAuth shared token status:", error);
+    throw error;
+  }
+};
+
+export const saveMCPOAuthSharedToken = async (
+  accessToken: string,
+  serverId: string,
+  token: { access_token: string; refresh_token?: string | null; expires_at?: number | null; scope?: string | null },
+) => {
+  try {
+    let url = proxyBaseUrl
+      ? `${proxyBaseUrl}/mcp-rest/oauth/shared_token`
+      : `/mcp-rest/oauth/shared_token`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        server_id: serverId,
+        access_token: token.access_token,
+        refresh_token: token.refresh_token,
+        expires_at: token.expires_at,
+        scope: token.scope,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(mcpRestErrorMessage(errorData, "Failed to save shared token"));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to save MCP OAuth shared token:", error);
+    throw error;
+  }
+};
+
+export const deleteMCPOAuthSharedToken = async (accessToken: string, serverId: string) => {
+  try {
+    let url = proxyBaseUrl
+      ? `${proxyBaseUrl}/mcp-rest/oauth/shared_token?server_id=${serverId}`
+      : `/mcp-rest/oauth/shared_token?server_id=${serverId}`;
+
+    const response = await fetch(url, {
+      method: "DELETE",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(mcpRestErrorMessage(errorData, "Failed to revoke shared token"));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to revoke MCP OAuth shared token:", error);
+    throw error;
+  }
+};
+
+export const getMCPServerHealth = async (accessToken: string, serverId?: string) => {
+  try {
+    const query = serverId ? `?server_id=${serverId}` : "";
+    let url = proxyBaseUrl ? `${proxyBaseUrl}/mcp-rest/health${query}` : `/mcp-rest/health${query}`;
+
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(mcpRestErrorMessage(errorData, "Failed to fetch MCP server health"));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to fetch MCP server health:", error);
+    throw error;
+  }
+};
+
+export const runMCPServerHealthCheck = async (accessToken: string, serverId?: string) => {
+  try {
+    const query = serverId ? `?server_id=${serverId}` : "";
+    let url = proxyBaseUrl ? `${proxyBaseUrl}/mcp-rest/health/check${query}` : `/mcp-rest/health/check${query}`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(mcpRestErrorMessage(errorData, "Failed to run MCP server health check"));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to run MCP server health check:", error);
+    throw error;
+  }
+};
+
+export const getMCPToolAnalytics = async (
+  accessToken: string,
+  serverId: string,
+  startTime: Date,
+  endTime: Date,
+) => {
+  try {
+    // Format dates as YYYY-MM-DD for the API
+    const formatDate = (date: Date) => {
+      const year = date.getFullYear();
+      const month = String(date.getMonth() + 1).padStart(2, "0");
+      const day = String(date.getDate()).padStart(2, "0");
+      return `${year}-${month}-${day}`;
+    };
+    const queryParams = new URLSearchParams({
+      server_id: serverId,
+      start_date: formatDate(startTime),
+      end_date: formatDate(endTime),
+    });
+    let url = proxyBaseUrl
+      ? `${proxyBaseUrl}/mcp-rest/analytics/tools?${queryParams}`
+      : `/mcp-rest/analytics/tools?${queryParams}`;
+
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(mcpRestErrorMessage(errorData, "Failed to fetch MCP tool analytics"));
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to fetch MCP tool analytics:", error);
+    throw error;
+  }
+};
+
 export const tagCreateCall = async (
   accessToken: string,
   formValues: TagNewRequest
@@ -5757,6 +6200,115 @@ export const getGuardrailInfo = async (
   }
 };
 
+export const testGuardrailCall = async (
+  accessToken: string,
+  guardrailId: string,
+  text: string,
+  eventHook: string
+) => {
+  try {
+    const url = proxyBaseUrl
+      ? `${proxyBaseUrl}/guardrails/${guardrailId}/test`
+      : `/guardrails/${guardrailId}/test`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        text: text,
+        event_hook: eventHook,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      handleError(errorData);
+      throw new Error("Failed to test guardrail");
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to test guardrail:", error);
+    throw error;
+  }
+};
+
+export const previewCustomRulesCall = async (
+  accessToken: string,
+  rules: CustomRule[],
+  text: string
+): Promise<CustomRulesResult> => {
+  try {
+    const url = proxyBaseUrl
+      ? `${proxyBaseUrl}/guardrails/ui/custom_rules/preview`
+      : `/guardrails/ui/custom_rules/preview`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ rules, text }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      // invalid rules (e.g. a regex that doesn't compile) come back as validation errors
+      const detail = errorData?.detail;
+      throw new Error(
+        Array.isArray(detail)
+          ? detail.map((item: { msg: string }) => item.msg).join(", ")
+          : typeof detail === "string"
+            ? detail
+            : "Failed to preview custom rules"
+      );
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to preview custom rules:", error);
+    throw error;
+  }
+};
+
+export const updateGuardrailTestCasesCall = async (
+  accessToken: string,
+  guardrailId: string,
+  testCases: GuardrailTestCase[]
+) => {
+  try {
+    const url = proxyBaseUrl
+      ? `${proxyBaseUrl}/guardrails/${guardrailId}/test_cases`
+      : `/guardrails/${guardrailId}/test_cases`;
+
+    const response = await fetch(url, {
+      method: "PUT",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        test_cases: testCases,
+      }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      handleError(errorData);
+      throw new Error("Failed to save guardrail test cases");
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to save guardrail test cases:", error);
+    throw error;
+  }
+};
+
 export const updateGuardrailCall = async (
   accessToken: string,
   guardrailId: string,
@@ -5795,6 +6347,170 @@ export const updateGuardrailCall = async (
   }
 };
 
+export const getGuardrailPoliciesList = async (accessToken: string): Promise<{ policies: GuardrailPolicy[] }> => {
+  try {
+    const url = proxyBaseUrl
+      ? `${proxyBaseUrl}/guardrails/policies/list`
+      : `/guardrails/policies/list`;
+
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      handleError(errorData);
+      throw new Error("Failed to get guardrail policies");
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to get guardrail policies:", error);
+    throw error;
+  }
+};
+
+export const createGuardrailPolicyCall = async (
+  accessToken: string,
+  policy: GuardrailPolicy
+): Promise<GuardrailPolicy> => {
+  try {
+    const url = proxyBaseUrl
+      ? `${proxyBaseUrl}/guardrails/policies`
+      : `/guardrails/policies`;
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ policy }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      handleError(errorData);
+      throw new Error("Failed to create guardrail policy");
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to create guardrail policy:", error);
+    throw error;
+  }
+};
+
+export const updateGuardrailPolicyCall = async (
+  accessToken: string,
+  policyId: string,
+  policy: GuardrailPolicy
+): Promise<GuardrailPolicy> => {
+  try {
+    const url = proxyBaseUrl
+      ? `${proxyBaseUrl}/guardrails/policies/${policyId}`
+      : `/guardrails/policies/${policyId}`;
+
+    const response = await fetch(url, {
+      method: "PUT",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ policy }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      handleError(errorData);
+      throw new Error("Failed to update guardrail policy");
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to update guardrail policy:", error);
+    throw error;
+  }
+};
+
+export const deleteGuardrailPolicyCall = async (
+  accessToken: string,
+  policyId: string
+) => {
+  try {
+    const url = proxyBaseUrl
+      ? `${proxyBaseUrl}/guardrails/policies/${policyId}`
+      : `/guardrails/policies/${policyId}`;
+
+    const response = await fetch(url, {
+      method: "DELETE",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      handleError(errorData);
+      throw new Error("Failed to delete guardrail policy");
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to delete guardrail policy:", error);
+    throw error;
+  }
+};
+
+export const getGuardrailAnalytics = async (
+  accessToken: string,
+  startTime: Date,
+  endTime: Date,
+  guardrailName?: string
+): Promise<GuardrailAnalyticsResponse> => {
+  try {
+    // Format dates as YYYY-MM-DD for the API
+    const formatDate = (date: Date) => {
+      const year = date.getFullYear();
+      const month = String(date.getMonth() + 1).padStart(2, "0");
+      const day = String(date.getDate()).padStart(2, "0");
+      return `${year}-${month}-${day}`;
+    };
+    const queryParams = new URLSearchParams({
+      start_date: formatDate(startTime),
+      end_date: formatDate(endTime),
+    });
+    if (guardrailName) queryParams.append("guardrail_name", guardrailName);
+    const url = proxyBaseUrl
+      ? `${proxyBaseUrl}/guardrails/ui/analytics?${queryParams}`
+      : `/guardrails/ui/analytics?${queryParams}`;
+
+    const response = await fetch(url, {
+      method: "GET",
+      headers: {
+        [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.text();
+      handleError(errorData);
+      throw new Error("Failed to get guardrail analytics");
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error("Failed to get guardrail analytics:", error);
+    throw error;
+  }
+};
+
 export const getSSOSettings = async (accessToken: string) => {
   try {
     // Construct base URL
@@ -6137,7 +6853,8 @@ export const testMCPConnectionRequest = async (
 
 export const testMCPToolsListRequest = async (
   accessToken: string,
-  mcpServerConfig: Record<string, any>
+  mcpServerConfig: Record<string, any>,
+  authValue?: string
 ) => {
   try {
     console.log(
@@ -6155,6 +6872,7 @@ export const testMCPToolsListRequest = async (
       headers: {
         "Content-Type": "application/json",
         [globalLitellmHeaderName]: `Bearer ${accessToken}`,
+        ...(authValue ? { [MCP_AUTH_HEADER]: authValue } : {}),
       },
       body: JSON.stringify(mcpServerConfig),
     });
@@ -2,11 +2,13 @@ import React from "react";
 import { Text } from "@tremor/react";
 import VectorStorePermissions from "./permissions/VectorStorePermissions";
 import MCPServerPermissions from "./permissions/MCPServerPermissions";
+import { MCPToolPermission } from "./mcp_tools/types";
 
 interface ObjectPermission {
   object_permission_id: string;
   mcp_servers: string[];
   mcp_access_groups?: string[];
+  mcp_tool_permissions?: Record<string, MCPToolPermission>;
   vector_stores: string[];
 }
 
@@ -26,6 +28,7 @@ export function ObjectPermissionsView({
   const vectorStores = objectPermission?.vector_stores || [];
   const mcpServers = objectPermission?.mcp_servers || [];
   const mcpAccessGroups = objectPermission?.mcp_access_groups || [];
+  const mcpToolPermissions = objectPermission?.mcp_tool_permissions || {};
 
   const content = (
     <div className={variant === "card" ? "grid grid-cols-1 md:grid-cols-2 gap-6" : "space-y-4"}>
@@ -36,6 +39,7 @@ export function ObjectPermissionsView({
       <MCPServerPermissions 
         mcpServers={mcpServers} 
         mcpAccessGroups={mcpAccessGroups}
+        mcpToolPermissions={mcpToolPermissions}
         accessToken={accessToken} 
       />
     </div>
@@ -39,6 +39,7 @@ import MemberModal from "../team/edit_membership"
 import ObjectPermissionsView from "../object_permissions_view"
 import VectorStoreSelector from "../vector_store_management/VectorStoreSelector"
 import MCPServerSelector from "../mcp_server_management/MCPServerSelector"
+import MCPToolPermissionsEditor from "../mcp_server_management/MCPToolPermissionsEditor"
 import { copyToClipboard as utilCopyToClipboard, formatNumberWithCommas } from "@/utils/dataUtils"
 import { CheckIcon, CopyIcon } from "lucide-react"
 
@@ -186,6 +187,14 @@ const OrganizationInfoView: React.FC<OrganizationInfoProps> = ({
         }
       }
 
+      if (values.mcp_tool_permissions !== undefined) {
+        updateData.object_permission = {
+          ...orgData?.object_permission,
+          ...updateData.object_permission,
+          mcp_tool_permissions: values.mcp_tool_permissions || {},
+        }
+      }
+
       const response = await organizationUpdateCall(accessToken, updateData)
 
       message.success("Organization settings updated successfully")
@@ -419,6 +428,7 @@ const OrganizationInfoView: React.FC<OrganizationInfoProps> = ({
                       servers: orgData.object_permission?.mcp_servers || [],
                       accessGroups: orgData.object_permission?.mcp_access_groups || [],
                     },
+                    mcp_tool_permissions: orgData.object_permission?.mcp_tool_permissions || {},
                   }}
                   layout="vertical"
                 >
@@ -486,6 +496,14 @@ const OrganizationInfoView: React.FC<OrganizationInfoProps> = ({
                     />
                   </Form.Item>
 
+                  <Form.Item label="MCP Tool Permissions" name="mcp_tool_permissions">
+                    <MCPToolPermissionsEditor
+                      onChange={(values) => form.setFieldValue("mcp_tool_permissions", values)}
+                      value={form.getFieldValue("mcp_tool_permissions")}
+                      accessToken={accessToken || ""}
+                    />
+                  </Form.Item>
+
                   <Form.Item label="Metadata" name="metadata">
                     <Input.TextArea rows={4} />
                   </Form.Item>
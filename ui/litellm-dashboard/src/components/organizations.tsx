@@ -31,6 +31,7 @@ import OrganizationInfoView from "./organization/organization_view"
 import { Organization, organizationListCall, organizationCreateCall, organizationDeleteCall } from "./networking"
 import VectorStoreSelector from "./vector_store_management/VectorStoreSelector"
 import MCPServerSelector from "./mcp_server_management/MCPServerSelector"
+import MCPToolPermissionsEditor from "./mcp_server_management/MCPToolPermissionsEditor"
 import { formatNumberWithCommas } from "../utils/dataUtils"
 
 interface OrganizationsTableProps {
@@ -137,6 +138,15 @@ const OrganizationsTable: React.FC<OrganizationsTableProps> = ({
         }
       }
 
+      // Transform mcp_tool_permissions into object_permission
+      if (values.mcp_tool_permissions && Object.keys(values.mcp_tool_permissions).length > 0) {
+        values.object_permission = {
+          ...values.object_permission,
+          mcp_tool_permissions: values.mcp_tool_permissions,
+        }
+      }
+      delete values.mcp_tool_permissions
+
       await organizationCreateCall(accessToken, values)
       setIsOrgModalVisible(false)
       form.resetFields()
@@ -487,6 +497,26 @@ const OrganizationsTable: React.FC<OrganizationsTableProps> = ({
             />
           </Form.Item>
 
+          <Form.Item
+            label={
+              <span>
+                MCP Tool Permissions{" "}
+                <Tooltip title="Restrict which tools of an MCP server this organization's keys can list and call">
+                  <InfoCircleOutlined style={{ marginLeft: "4px" }} />
+                </Tooltip>
+              </span>
+            }
+            name="mcp_tool_permissions"
+            className="mt-4"
+            help="Allow only specific tools of a server, or deny some of them. All tools are allowed if not set."
+          >
+            <MCPToolPermissionsEditor
+              onChange={(values) => form.setFieldValue("mcp_tool_permissions", values)}
+              value={form.getFieldValue("mcp_tool_permissions")}
+              accessToken={accessToken || ""}
+            />
+          </Form.Item>
+
           <Form.Item label="Metadata" name="metadata">
             <Input.TextArea rows={4} />
           </Form.Item>
@@ -3,26 +3,29 @@ import { Text, Badge } from "@tremor/react";
 import { ServerIcon } from "@heroicons/react/outline";
 import { Tooltip } from "antd";
 import { fetchMCPServers } from "../networking";
-import { MCPServer } from '../mcp_tools/types';
+import { MCPServer, MCPToolPermission } from '../mcp_tools/types';
 
 interface MCPServerPermissionsProps {
   mcpServers: string[];
   mcpAccessGroups?: string[];
+  mcpToolPermissions?: Record<string, MCPToolPermission>;
   accessToken?: string | null;
 }
 
 export function MCPServerPermissions({ 
   mcpServers, 
   mcpAccessGroups = [],
+  mcpToolPermissions = {},
   accessToken 
 }: MCPServerPermissionsProps) {
   const [mcpServerDetails, setMCPServerDetails] = useState<MCPServer[]>([]);
   const [accessGroupNames, setAccessGroupNames] = useState<string[]>([]);
+  const toolPermissionsCount = Object.keys(mcpToolPermissions).length;
 
   // Fetch MCP server details when component mounts
   useEffect(() => {
     const fetchMCPServerDetails = async () => {
-      if (accessToken && mcpServers.length > 0) {
+      if (accessToken && (mcpServers.length > 0 || toolPermissionsCount > 0)) {
         try {
           const response = await fetchMCPServers(accessToken);
           if (response && Array.isArray(response)) {
@@ -36,7 +39,7 @@ export function MCPServerPermissions({
       }
     };
     fetchMCPServerDetails();
-  }, [accessToken, mcpServers.length]);
+  }, [accessToken, mcpServers.length, toolPermissionsCount]);
 
   // Fetch MCP access group names
   useEffect(() => {
@@ -77,6 +80,11 @@ export function MCPServerPermissions({
   ];
   const totalCount = mergedItems.length;
 
+  // Servers with tool restrictions, empty entries don't restrict anything
+  const toolRestrictions = Object.entries(mcpToolPermissions).filter(
+    ([, permission]) => permission?.allowed_tools?.length || permission?.denied_tools?.length
+  );
+
   return (
     <div className="space-y-3">
       <div className="flex items-center gap-2">
@@ -114,6 +122,26 @@ export function MCPServerPermissions({
           <Text className="text-gray-500 text-sm">No MCP servers or access groups configured</Text>
         </div>
       )}
+      {toolRestrictions.length > 0 && (
+        <div className="space-y-2">
+          <Text className="text-xs font-medium text-gray-700">Tool restrictions</Text>
+          {toolRestrictions.map(([serverId, permission]) => (
+            <div key={serverId} className="px-3 py-2 rounded-lg bg-gray-50 border border-gray-200 text-sm">
+              <div className="font-medium text-gray-900">{getMCPServerDisplayName(serverId)}</div>
+              {permission.allowed_tools && permission.allowed_tools.length > 0 && (
+                <div className="text-xs text-gray-600">
+                  Only: <span className="text-green-700">{permission.allowed_tools.join(", ")}</span>
+                </div>
+              )}
+              {permission.denied_tools && permission.denied_tools.length > 0 && (
+                <div className="text-xs text-gray-600">
+                  Denied: <span className="text-red-700">{permission.denied_tools.join(", ")}</span>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
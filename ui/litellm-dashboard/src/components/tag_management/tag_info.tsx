@@ -18,6 +18,7 @@ import { fetchUserModels } from "../create_key_button";
 import { getModelDisplayName } from "../key_team_helpers/fetch_available_models_team_key";
 import { tagInfoCall, tagUpdateCall } from "../networking";
 import { Tag, TagInfoResponse } from "./types";
+import AttachedGuardrailPolicies from "../guardrails/attached_guardrail_policies";
 
 interface TagInfoViewProps {
   tagId: string;
@@ -197,6 +198,7 @@ const TagInfoView: React.FC<TagInfoViewProps> = ({
               </div>
             </div>
           </Card>
+          <AttachedGuardrailPolicies accessToken={accessToken} tagName={tagDetails.name} />
         </div>
       )}
     </div>
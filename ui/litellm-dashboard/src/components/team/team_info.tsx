@@ -46,6 +46,8 @@ import { isAdminRole } from "@/utils/roles";
 import ObjectPermissionsView from "../object_permissions_view";
 import VectorStoreSelector from "../vector_store_management/VectorStoreSelector";
 import MCPServerSelector from "../mcp_server_management/MCPServerSelector";
+import MCPToolPermissionsEditor from "../mcp_server_management/MCPToolPermissionsEditor";
+import { MCPToolPermission } from "../mcp_tools/types";
 import PremiumVectorStoreSelector from "../common_components/PremiumVectorStoreSelector";
 import { formatNumberWithCommas } from "@/utils/dataUtils";
 import EditLoggingSettings from "./EditLoggingSettings";
@@ -99,6 +101,7 @@ export interface TeamData {
       object_permission_id: string;
       mcp_servers: string[];
       mcp_access_groups?: string[];
+      mcp_tool_permissions?: Record<string, MCPToolPermission>;
       vector_stores: string[];
     };
     team_member_budget_table: {
@@ -344,6 +347,13 @@ const TeamInfoView: React.FC<TeamInfoProps> = ({
       }
       delete values.mcp_servers_and_groups;
 
+      if (values.mcp_tool_permissions !== undefined) {
+        updateData.object_permission = {
+          ...updateData.object_permission,
+          mcp_tool_permissions: values.mcp_tool_permissions || {},
+        };
+      }
+
       const response = await teamUpdateCall(accessToken, updateData);
 
       message.success("Team settings updated successfully");
@@ -554,6 +564,8 @@ const TeamInfoView: React.FC<TeamInfoProps> = ({
                       info.object_permission?.mcp_servers || [],
                     mcp_servers_and_groups:
                       info.object_permission?.mcp_servers || [],
+                    mcp_tool_permissions:
+                      info.object_permission?.mcp_tool_permissions || {},
                   }}
                   layout="vertical"
                 >
@@ -686,6 +698,19 @@ const TeamInfoView: React.FC<TeamInfoProps> = ({
                       placeholder="Select MCP servers or access groups (optional)"
                     />
                   </Form.Item>
+
+                  <Form.Item
+                    label="MCP Tool Permissions"
+                    name="mcp_tool_permissions"
+                  >
+                    <MCPToolPermissionsEditor
+                      onChange={(val) =>
+                        form.setFieldValue("mcp_tool_permissions", val)
+                      }
+                      value={form.getFieldValue("mcp_tool_permissions")}
+                      accessToken={accessToken || ""}
+                    />
+                  </Form.Item>
                   <Form.Item label="Organization ID" name="organization_id">
                     <Input type="" />
                   </Form.Item>
@@ -71,6 +71,7 @@ import AvailableTeamsPanel from "@/components/team/available_teams";
 import VectorStoreSelector from "./vector_store_management/VectorStoreSelector";
 import PremiumVectorStoreSelector from "./common_components/PremiumVectorStoreSelector";
 import PremiumMCPSelector from "./common_components/PremiumMCPSelector";
+import MCPToolPermissionsEditor from "./mcp_server_management/MCPToolPermissionsEditor";
 import PremiumLoggingSettings from "./common_components/PremiumLoggingSettings";
 import type { KeyResponse, Team } from "./key_team_helpers/key_list";
 import { formatNumberWithCommas } from "../utils/dataUtils";
@@ -438,6 +439,19 @@ const Teams: React.FC<TeamProps> = ({
             formValues.allowed_mcp_access_groups;
           delete formValues.allowed_mcp_access_groups;
         }
+
+        // Transform mcp_tool_permissions into object_permission
+        if (
+          formValues.mcp_tool_permissions &&
+          Object.keys(formValues.mcp_tool_permissions).length > 0
+        ) {
+          if (!formValues.object_permission) {
+            formValues.object_permission = {};
+          }
+          formValues.object_permission.mcp_tool_permissions =
+            formValues.mcp_tool_permissions;
+        }
+        delete formValues.mcp_tool_permissions;
         const response: any = await teamCreateCall(accessToken, formValues);
         if (teams !== null) {
           setTeams([...teams, response]);
@@ -1444,6 +1458,31 @@ const Teams: React.FC<TeamProps> = ({
                           premiumUser={premiumUser}
                         />
                       </Form.Item>
+                      {premiumUser && (
+                        <Form.Item
+                          label={
+                            <span>
+                              MCP Tool Permissions{" "}
+                              <Tooltip title="Restrict which tools of an MCP server this team's keys can list and call">
+                                <InfoCircleOutlined
+                                  style={{ marginLeft: "4px" }}
+                                />
+                              </Tooltip>
+                            </span>
+                          }
+                          name="mcp_tool_permissions"
+                          className="mt-8"
+                          help="Allow only specific tools of a server, or deny some of them. All tools are allowed if not set."
+                        >
+                          <MCPToolPermissionsEditor
+                            onChange={(val) =>
+                              form.setFieldValue("mcp_tool_permissions", val)
+                            }
+                            value={form.getFieldValue("mcp_tool_permissions")}
+                            accessToken={accessToken || ""}
+                          />
+                        </Form.Item>
+                      )}
                     </AccordionBody>
                   </Accordion>
 
@@ -1,22 +1,5 @@
 import React, { useState } from "react";
-
-interface RecognitionMetadata {
-  recognizer_name: string;
-  recognizer_identifier: string;
-}
-
-interface GuardrailEntity {
-  end: number;
-  score: number;
-  start: number;
-  entity_type: string;
-  analysis_explanation: string | null;
-  recognition_metadata: RecognitionMetadata;
-}
-
-interface MaskedEntityCount {
-  [key: string]: number;
-}
+import { GuardrailEntity, MaskedEntityCount } from "../guardrails/types";
 
 interface GuardrailInformation {
   duration: number;
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from "react";
+import { Button, Input, Modal, Select, Tooltip, message } from "antd";
+import { DeleteOutlined, LinkOutlined, SaveOutlined } from "@ant-design/icons";
+import { copyToClipboard } from "@/utils/dataUtils";
+import { LogFilterState } from "./log_filter_logic";
+import {
+  SavedLogSearch,
+  buildLogSearchLink,
+  deleteSavedLogSearch,
+  hasActiveFilters,
+  listSavedLogSearches,
+  saveLogSearch,
+} from "./saved_searches";
+
+interface SavedSearchesProps {
+  userID: string;
+  filters: LogFilterState;
+  startTime: string;
+  endTime: string;
+  onApply: (filters: Partial<LogFilterState>) => void;
+}
+
+export function SavedSearches({ userID, filters, startTime, endTime, onApply }: SavedSearchesProps) {
+  const [savedSearches, setSavedSearches] = useState<SavedLogSearch[]>([]);
+  const [selectedSearchId, setSelectedSearchId] = useState<string | null>(null);
+  const [isSaveModalOpen, setIsSaveModalOpen] = useState(false);
+  const [searchName, setSearchName] = useState("");
+
+  useEffect(() => {
+    setSavedSearches(listSavedLogSearches(userID));
+  }, [userID]);
+
+  const selectedSearch = savedSearches.find((search) => search.id === selectedSearchId);
+
+  const handleSelect = (id: string) => {
+    const search = savedSearches.find((saved) => saved.id === id);
+    if (!search) return;
+    setSelectedSearchId(id);
+    onApply(search.filters);
+  };
+
+  const handleSave = () => {
+    try {
+      const saved = saveLogSearch(userID, searchName, filters);
+      setSavedSearches(listSavedLogSearches(userID));
+      setSelectedSearchId(saved.id);
+      setIsSaveModalOpen(false);
+      message.success(`Saved search "${saved.name}"`);
+    } catch (error) {
+      message.error(error instanceof Error ? error.message : "Failed to save search");
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selectedSearch) return;
+    deleteSavedLogSearch(userID, selectedSearch.id);
+    setSavedSearches(listSavedLogSearches(userID));
+    setSelectedSearchId(null);
+    message.success(`Deleted search "${selectedSearch.name}"`);
+  };
+
+  return (
+    <div className="flex items-center gap-2 mb-3">
+      <Select
+        className="w-64"
+        placeholder={savedSearches.length > 0 ? "Saved searches" : "No saved searches"}
+        value={selectedSearchId ?? undefined}
+        onChange={handleSelect}
+        onClear={() => setSelectedSearchId(null)}
+        allowClear
+        disabled={savedSearches.length === 0}
+        options={savedSearches.map((search) => ({ label: search.name, value: search.id }))}
+      />
+      {selectedSearch && (
+        <Tooltip title="Delete saved search">
+          <Button icon={<DeleteOutlined />} onClick={handleDelete} />
+        </Tooltip>
+      )}
+      <Tooltip title={hasActiveFilters(filters) ? "Save the current filters" : "Set some filters to save a search"}>
+        <Button
+          icon={<SaveOutlined />}
+          disabled={!hasActiveFilters(filters)}
+          onClick={() => {
+            setSearchName(selectedSearch?.name ?? "");
+            setIsSaveModalOpen(true);
+          }}
+        >
+          Save Search
+        </Button>
+      </Tooltip>
+      <Tooltip title="Copy a link to these filters and time range">
+        <Button
+          icon={<LinkOutlined />}
+          onClick={() => copyToClipboard(buildLogSearchLink(filters, startTime, endTime), "Link copied to clipboard")}
+        >
+          Copy Link
+        </Button>
+      </Tooltip>
+
+      <Modal
+        title="Save Search"
+        open={isSaveModalOpen}
+        onOk={handleSave}
+        onCancel={() => setIsSaveModalOpen(false)}
+        okText="Save"
+        okButtonProps={{ disabled: !searchName.trim() }}
+      >
+        <Input
+          placeholder="e.g. Acme Corp failures"
+          value={searchName}
+          onChange={(e) => setSearchName(e.target.value)}
+          onPressEnter={() => searchName.trim() && handleSave()}
+        />
+        <p className="text-xs text-gray-500 mt-2">
+          Saving with an existing name replaces that search. Saved searches are stored in this browser.
+        </p>
+      </Modal>
+    </div>
+  );
+}
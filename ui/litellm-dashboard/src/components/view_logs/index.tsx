@@ -20,7 +20,8 @@ import { VectorStoreViewer } from './VectorStoreViewer';
 import { GuardrailViewer } from './GuardrailViewer';
 import FilterComponent from "../common_components/filter";
 import { FilterOption } from "../common_components/filter";
-import { useLogFilterLogic } from "./log_filter_logic";
+import { FILTER_KEYS, LogFilterState, getLogFilterQueryParams, useLogFilterLogic } from "./log_filter_logic";
+import { SavedSearches } from "./SavedSearches";
 import { fetchAllKeyAliases } from "../key_team_helpers/filter_helpers";
 import {
   Tab,
@@ -42,6 +43,14 @@ interface SpendLogsTableProps {
   userID: string | null;
   allTeams: Team[];
   premiumUser: boolean;
+  drillThrough?: LogsDrillThrough | null;
+}
+
+// Opens the logs pre-filtered, e.g. from a chart on another page. Times are "YYYY-MM-DDTHH:mm" in local time
+export interface LogsDrillThrough {
+  filters: Partial<LogFilterState>;
+  startTime: string;
+  endTime: string;
 }
 
 export interface PaginatedResponse {
@@ -64,6 +73,7 @@ export default function SpendLogsTable({
   userID,
   allTeams,
   premiumUser,
+  drillThrough,
 }: SpendLogsTableProps) {
   const [searchTerm, setSearchTerm] = useState("");
   const [showFilters, setShowFilters] = useState(false);
@@ -76,19 +86,24 @@ export default function SpendLogsTable({
 
   // New state variables for Start and End Time
   const [startTime, setStartTime] = useState<string>(
-    moment().subtract(24, "hours").format("YYYY-MM-DDTHH:mm")
+    drillThrough?.startTime ?? moment().subtract(24, "hours").format("YYYY-MM-DDTHH:mm")
   );
   const [endTime, setEndTime] = useState<string>(
-    moment().format("YYYY-MM-DDTHH:mm")
+    drillThrough?.endTime ?? moment().format("YYYY-MM-DDTHH:mm")
   );
 
-  const [isCustomDate, setIsCustomDate] = useState(false);
+  const [isCustomDate, setIsCustomDate] = useState(!!drillThrough);
   const [quickSelectOpen, setQuickSelectOpen] = useState(false);
   const [tempTeamId, setTempTeamId] = useState("");
   const [tempKeyHash, setTempKeyHash] = useState("");
   const [selectedTeamId, setSelectedTeamId] = useState("");
   const [selectedKeyHash, setSelectedKeyHash] = useState("");
   const [selectedModel, setSelectedModel] = useState("");
+  const [selectedGuardrail, setSelectedGuardrail] = useState("");
+  const [selectedQueryFilters, setSelectedQueryFilters] = useState<Record<string, string>>(
+    () => getLogFilterQueryParams(drillThrough?.filters ?? {})
+  );
+  const [filterComponentKey, setFilterComponentKey] = useState(0);
   const [selectedKeyInfo, setSelectedKeyInfo] = useState<KeyResponse | null>(null);
   const [selectedKeyIdInfoView, setSelectedKeyIdInfoView] = useState<string | null>(null);
   const [selectedStatus, setSelectedStatus] = useState(""); 
@@ -194,7 +209,9 @@ export default function SpendLogsTable({
       selectedKeyHash,
       filterByCurrentUser ? userID : null,
       selectedStatus,
-      selectedModel
+      selectedModel,
+      selectedGuardrail,
+      selectedQueryFilters
     ],
     queryFn: async () => {
       if (!accessToken || !token || !userRole || !userID) {
@@ -224,7 +241,9 @@ export default function SpendLogsTable({
         pageSize,
         filterByCurrentUser ? userID : undefined,
         selectedStatus,
-        selectedModel
+        selectedModel,
+        selectedGuardrail,
+        selectedQueryFilters
       );
 
       // Trigger prefetch for all logs
@@ -270,6 +289,7 @@ export default function SpendLogsTable({
     allTeams: hookAllTeams,
     allKeyAliases,
     handleFilterChange,
+    handleFiltersReplace,
     handleFilterReset
   } = useLogFilterLogic({
     logs: logsData,
@@ -280,7 +300,8 @@ export default function SpendLogsTable({
     isCustomDate,
     setCurrentPage,
     userID,
-    userRole
+    userRole,
+    initialFilters: drillThrough?.filters
   })
 
   const fetchKeyHashForAlias = useCallback(async (keyAlias: string) => {
@@ -321,6 +342,7 @@ export default function SpendLogsTable({
     }
     setSelectedStatus(filters['Status'] || "");
     setSelectedModel(filters['Model'] || "");
+    setSelectedGuardrail(filters['Guardrail'] || "");
     
     if (filters['Key Hash']) {
       setSelectedKeyHash(filters['Key Hash']);
@@ -331,6 +353,18 @@ export default function SpendLogsTable({
     }
   }, [filters, accessToken, fetchKeyHashForAlias]);
 
+  // Debounced, so typing in a text or range filter doesn't query the logs on every keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => setSelectedQueryFilters(getLogFilterQueryParams(filters)), 300);
+    return () => clearTimeout(timeout);
+  }, [filters]);
+
+  const handleApplySavedSearch = (savedFilters: Partial<LogFilterState>) => {
+    handleFiltersReplace(savedFilters);
+    // remount the filter inputs so they show the applied filters
+    setFilterComponentKey((key) => key + 1);
+  };
+
   // Fetch logs for a session if selected
   const sessionLogs = useQuery<PaginatedResponse>({
     queryKey: ["sessionLogs", selectedSessionId],
@@ -456,6 +490,85 @@ export default function SpendLogsTable({
       label: 'Key Hash',
       isSearchable: false,
     },
+    {
+      name: 'Guardrail',
+      label: 'Guardrail',
+      isSearchable: false,
+    },
+    {
+      name: FILTER_KEYS.GUARDRAIL_OUTCOME,
+      label: FILTER_KEYS.GUARDRAIL_OUTCOME,
+      isSearchable: false,
+      options: [
+        { label: 'Passed', value: 'passed' },
+        { label: 'Masked', value: 'masked' },
+        { label: 'Blocked', value: 'blocked' }
+      ]
+    },
+    {
+      name: FILTER_KEYS.END_USER,
+      label: FILTER_KEYS.END_USER,
+      isSearchable: false,
+    },
+    {
+      name: FILTER_KEYS.CALL_TYPE,
+      label: FILTER_KEYS.CALL_TYPE,
+      isSearchable: false,
+      options: [
+        'acompletion',
+        'atext_completion',
+        'aembedding',
+        'aimage_generation',
+        'atranscription',
+        'aspeech',
+        'arerank',
+        'aresponses',
+        'anthropic_messages',
+        'pass_through_endpoint',
+      ].map(callType => ({ label: callType, value: callType }))
+    },
+    {
+      name: FILTER_KEYS.PROVIDER,
+      label: FILTER_KEYS.PROVIDER,
+      isSearchable: false,
+    },
+    {
+      name: FILTER_KEYS.API_BASE,
+      label: FILTER_KEYS.API_BASE,
+      isSearchable: false,
+    },
+    {
+      name: FILTER_KEYS.CACHE_HIT,
+      label: FILTER_KEYS.CACHE_HIT,
+      isSearchable: false,
+      options: [
+        { label: 'Yes', value: 'true' },
+        { label: 'No', value: 'false' }
+      ]
+    },
+    {
+      name: FILTER_KEYS.REQUEST_TAG,
+      label: FILTER_KEYS.REQUEST_TAG,
+      isSearchable: false,
+    },
+    {
+      name: FILTER_KEYS.ERROR_CLASS,
+      label: FILTER_KEYS.ERROR_CLASS,
+      isSearchable: false,
+    },
+    ...[
+      FILTER_KEYS.MIN_SPEND,
+      FILTER_KEYS.MAX_SPEND,
+      FILTER_KEYS.MIN_LATENCY,
+      FILTER_KEYS.MAX_LATENCY,
+      FILTER_KEYS.MIN_TOKENS,
+      FILTER_KEYS.MAX_TOKENS,
+    ].map(name => ({ name, label: name, isSearchable: false })),
+    {
+      name: FILTER_KEYS.SEARCH,
+      label: FILTER_KEYS.SEARCH,
+      isSearchable: false,
+    },
   ]
 
   // When a session is selected, render the SessionView component
@@ -541,7 +654,14 @@ export default function SpendLogsTable({
               </div>
             ) : (
               <>
-              <FilterComponent options={logFilterOptions} onApplyFilters={handleFilterChange} onResetFilters={handleFilterReset} />
+              <SavedSearches
+                userID={userID}
+                filters={filters}
+                startTime={startTime}
+                endTime={isCustomDate ? endTime : moment().format("YYYY-MM-DDTHH:mm")}
+                onApply={handleApplySavedSearch}
+              />
+              <FilterComponent key={filterComponentKey} options={logFilterOptions} onApplyFilters={handleFilterChange} onResetFilters={handleFilterReset} initialValues={filters} />
               <div className="bg-white rounded-lg shadow">
                 <div className="border-b px-6 py-4">
                   <div className="flex flex-col md:flex-row items-start md:items-center justify-between space-y-4 md:space-y-0">
@@ -16,11 +16,70 @@ export const FILTER_KEYS = {
   USER_ID: "User ID",
   STATUS: "Status",
   KEY_ALIAS: "Key Alias",
+  GUARDRAIL: "Guardrail",
+  GUARDRAIL_OUTCOME: "Guardrail Outcome",
+  END_USER: "End User",
+  CALL_TYPE: "Call Type",
+  PROVIDER: "Provider",
+  API_BASE: "API Base",
+  CACHE_HIT: "Cache Hit",
+  REQUEST_TAG: "Request Tag",
+  ERROR_CLASS: "Error Class",
+  MIN_SPEND: "Min Spend ($)",
+  MAX_SPEND: "Max Spend ($)",
+  MIN_LATENCY: "Min Latency (ms)",
+  MAX_LATENCY: "Max Latency (ms)",
+  MIN_TOKENS: "Min Tokens",
+  MAX_TOKENS: "Max Tokens",
+  SEARCH: "Message / Response Text",
 } as const;
 
 export type FilterKey = keyof typeof FILTER_KEYS;
 export type LogFilterState = Record<typeof FILTER_KEYS[FilterKey], string>;
 
+// Filters passed to /spend/logs/ui as-is, keyed by their query param
+const FILTER_QUERY_PARAMS: Partial<Record<typeof FILTER_KEYS[FilterKey], string>> = {
+  [FILTER_KEYS.GUARDRAIL_OUTCOME]: "guardrail_status",
+  [FILTER_KEYS.END_USER]: "end_user",
+  [FILTER_KEYS.CALL_TYPE]: "call_type",
+  [FILTER_KEYS.PROVIDER]: "custom_llm_provider",
+  [FILTER_KEYS.API_BASE]: "api_base",
+  [FILTER_KEYS.CACHE_HIT]: "cache_hit",
+  [FILTER_KEYS.REQUEST_TAG]: "request_tag",
+  [FILTER_KEYS.ERROR_CLASS]: "error_class",
+  [FILTER_KEYS.MIN_SPEND]: "min_spend",
+  [FILTER_KEYS.MAX_SPEND]: "max_spend",
+  [FILTER_KEYS.MIN_LATENCY]: "min_latency_ms",
+  [FILTER_KEYS.MAX_LATENCY]: "max_latency_ms",
+  [FILTER_KEYS.MIN_TOKENS]: "min_tokens",
+  [FILTER_KEYS.MAX_TOKENS]: "max_tokens",
+  [FILTER_KEYS.SEARCH]: "search",
+};
+
+const NUMERIC_FILTERS: string[] = [
+  FILTER_KEYS.MIN_SPEND,
+  FILTER_KEYS.MAX_SPEND,
+  FILTER_KEYS.MIN_LATENCY,
+  FILTER_KEYS.MAX_LATENCY,
+  FILTER_KEYS.MIN_TOKENS,
+  FILTER_KEYS.MAX_TOKENS,
+];
+
+/**
+ * Query params for the filters that aren't separate arguments of uiSpendLogsCall.
+ * Range filters that aren't numbers yet (e.g. while typing) are left out.
+ */
+export const getLogFilterQueryParams = (filters: Partial<LogFilterState>): Record<string, string> => {
+  const params: Record<string, string> = {};
+  Object.entries(FILTER_QUERY_PARAMS).forEach(([filterName, param]) => {
+    const value = filters[filterName as keyof LogFilterState]?.trim();
+    if (!value || !param) return;
+    if (NUMERIC_FILTERS.includes(filterName) && isNaN(Number(value))) return;
+    params[param] = value;
+  });
+  return params;
+};
+
 export function useLogFilterLogic({
   logs,
   accessToken,
@@ -30,7 +89,8 @@ export function useLogFilterLogic({
   isCustomDate,
   setCurrentPage,
   userID,  
-  userRole 
+  userRole,
+  initialFilters,
 }: {
   logs: PaginatedResponse;
   accessToken: string | null;
@@ -41,6 +101,7 @@ export function useLogFilterLogic({
   setCurrentPage: (page: number) => void;
   userID: string | null; 
   userRole: string | null; 
+  initialFilters?: Partial<LogFilterState>;
 }) {
   const defaultFilters = useMemo<LogFilterState>(() => ({
     [FILTER_KEYS.TEAM_ID]: "",
@@ -49,10 +110,26 @@ export function useLogFilterLogic({
     [FILTER_KEYS.MODEL]: "",
     [FILTER_KEYS.USER_ID]: "",
     [FILTER_KEYS.STATUS]: "",
-    [FILTER_KEYS.KEY_ALIAS]: ""
+    [FILTER_KEYS.KEY_ALIAS]: "",
+    [FILTER_KEYS.GUARDRAIL]: "",
+    [FILTER_KEYS.GUARDRAIL_OUTCOME]: "",
+    [FILTER_KEYS.END_USER]: "",
+    [FILTER_KEYS.CALL_TYPE]: "",
+    [FILTER_KEYS.PROVIDER]: "",
+    [FILTER_KEYS.API_BASE]: "",
+    [FILTER_KEYS.CACHE_HIT]: "",
+    [FILTER_KEYS.REQUEST_TAG]: "",
+    [FILTER_KEYS.ERROR_CLASS]: "",
+    [FILTER_KEYS.MIN_SPEND]: "",
+    [FILTER_KEYS.MAX_SPEND]: "",
+    [FILTER_KEYS.MIN_LATENCY]: "",
+    [FILTER_KEYS.MAX_LATENCY]: "",
+    [FILTER_KEYS.MIN_TOKENS]: "",
+    [FILTER_KEYS.MAX_TOKENS]: "",
+    [FILTER_KEYS.SEARCH]: ""
   }), []);
 
-  const [filters, setFilters] = useState<LogFilterState>(defaultFilters);
+  const [filters, setFilters] = useState<LogFilterState>(() => ({ ...defaultFilters, ...initialFilters }));
   const [filteredLogs, setFilteredLogs] = useState<PaginatedResponse>(logs);
   const lastSearchTimestamp = useRef(0);
   const performSearch = useCallback(async (filters: LogFilterState, page = 1) => {
@@ -78,7 +155,9 @@ export function useLogFilterLogic({
         pageSize,
         filters[FILTER_KEYS.USER_ID] || undefined,
         filters[FILTER_KEYS.STATUS] || undefined,
-        filters[FILTER_KEYS.MODEL] || undefined
+        filters[FILTER_KEYS.MODEL] || undefined,
+        filters[FILTER_KEYS.GUARDRAIL] || undefined,
+        getLogFilterQueryParams(filters)
       );
 
       if (currentTimestamp === lastSearchTimestamp.current && response.data) {
@@ -151,6 +230,12 @@ export function useLogFilterLogic({
         log => log.api_key === filters[FILTER_KEYS.KEY_HASH]
       );
     }
+
+    if (filters[FILTER_KEYS.GUARDRAIL]) {
+      filteredData = filteredData.filter(
+        log => log.metadata?.guardrail_information?.guardrail_name === filters[FILTER_KEYS.GUARDRAIL]
+      );
+    }
     
     // Add key alias filtering
     if (filters[FILTER_KEYS.KEY_ALIAS]) {
@@ -221,6 +306,11 @@ export function useLogFilterLogic({
   };
     
 
+  // Replace all filters, e.g. when a saved search is applied
+  const handleFiltersReplace = (newFilters: Partial<LogFilterState>) => {
+    handleFilterChange({ ...defaultFilters, ...newFilters });
+  };
+
   const handleFilterReset = () => {
     // Reset filters state
     setFilters(defaultFilters);
@@ -235,6 +325,7 @@ export function useLogFilterLogic({
     allKeyAliases,
     allTeams,
     handleFilterChange,
+    handleFiltersReplace,
     handleFilterReset,
   };
 }
@@ -0,0 +1,124 @@
+import moment from "moment";
+import { v4 as uuidv4 } from "uuid";
+import { FILTER_KEYS, LogFilterState } from "./log_filter_logic";
+import type { LogsDrillThrough } from ".";
+
+/**
+ * Named log searches - saved to localStorage per user, and shared as a link
+ * with the filters and time range encoded in the URL.
+ */
+
+const STORAGE_PREFIX = "litellmSavedLogSearches:";
+export const LOG_SEARCH_PARAM = "log_search";
+
+export interface SavedLogSearch {
+  id: string;
+  name: string;
+  filters: Partial<LogFilterState>;
+  createdAt: string;
+}
+
+const storageKey = (userID: string) => `${STORAGE_PREFIX}${userID}`;
+
+const FILTER_NAMES: string[] = Object.values(FILTER_KEYS);
+
+// Drops empty values and anything that isn't a known filter, e.g. from an edited link
+const getActiveFilters = (filters: Record<string, unknown>): Partial<LogFilterState> => {
+  const active: Partial<LogFilterState> = {};
+  Object.entries(filters).forEach(([name, value]) => {
+    if (FILTER_NAMES.includes(name) && typeof value === "string" && value.trim()) {
+      active[name as keyof LogFilterState] = value;
+    }
+  });
+  return active;
+};
+
+export const hasActiveFilters = (filters: Partial<LogFilterState>) =>
+  Object.keys(getActiveFilters(filters)).length > 0;
+
+// ---- localStorage ----
+
+export const listSavedLogSearches = (userID: string): SavedLogSearch[] => {
+  try {
+    const stored = localStorage.getItem(storageKey(userID));
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    if (!Array.isArray(parsed)) return [];
+    return parsed.filter(
+      (search): search is SavedLogSearch =>
+        search && typeof search.id === "string" && typeof search.name === "string" && typeof search.filters === "object"
+    );
+  } catch (error) {
+    console.error("Error loading saved log searches:", error);
+    return [];
+  }
+};
+
+const writeSavedLogSearches = (userID: string, searches: SavedLogSearch[]) => {
+  try {
+    localStorage.setItem(storageKey(userID), JSON.stringify(searches));
+  } catch (error) {
+    console.error("Error saving log searches:", error);
+    throw new Error("Could not save the search, browser storage is full");
+  }
+};
+
+/** Saves the active filters under a name, replacing a saved search with the same name */
+export const saveLogSearch = (
+  userID: string,
+  name: string,
+  filters: Partial<LogFilterState>
+): SavedLogSearch => {
+  const saved: SavedLogSearch = {
+    id: uuidv4(),
+    name: name.trim(),
+    filters: getActiveFilters(filters),
+    createdAt: new Date().toISOString(),
+  };
+  const others = listSavedLogSearches(userID).filter((search) => search.name !== saved.name);
+  writeSavedLogSearches(userID, [...others, saved].sort((a, b) => a.name.localeCompare(b.name)));
+  return saved;
+};
+
+export const deleteSavedLogSearch = (userID: string, id: string) => {
+  writeSavedLogSearches(
+    userID,
+    listSavedLogSearches(userID).filter((search) => search.id !== id)
+  );
+};
+
+// ---- Share links ----
+
+/** Builds a link that opens the logs with these filters and time range. Times are "YYYY-MM-DDTHH:mm" in local time */
+export const buildLogSearchLink = (
+  filters: Partial<LogFilterState>,
+  startTime: string,
+  endTime: string
+): string => {
+  const url = new URL(window.location.href);
+  url.search = "";
+  url.searchParams.set("page", "logs");
+  url.searchParams.set(
+    LOG_SEARCH_PARAM,
+    JSON.stringify({ filters: getActiveFilters(filters), startTime, endTime })
+  );
+  return url.toString();
+};
+
+/** Reads a shared search from the URL. Returns null if there's none or it can't be read. */
+export const parseLogSearchParam = (value: string | null): LogsDrillThrough | null => {
+  if (!value) return null;
+  try {
+    const data = JSON.parse(value);
+    if (!data || typeof data !== "object") return null;
+    const isValidTime = (time: unknown): time is string =>
+      typeof time === "string" && moment(time, "YYYY-MM-DDTHH:mm", true).isValid();
+    return {
+      filters: getActiveFilters(data.filters || {}),
+      startTime: isValidTime(data.startTime) ? data.startTime : moment().subtract(24, "hours").format("YYYY-MM-DDTHH:mm"),
+      endTime: isValidTime(data.endTime) ? data.endTime : moment().format("YYYY-MM-DDTHH:mm"),
+    };
+  } catch (error) {
+    console.error("Error reading shared log search:", error);
+    return null;
+  }
+};